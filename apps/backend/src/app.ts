@@ -1,19 +1,37 @@
 import { randomUUID } from "node:crypto";
 
+import websocket from "@fastify/websocket";
 import Fastify from "fastify";
 
+import { approvalPlugin } from "./approvals/plugin.js";
+import type { ApprovalService } from "./approvals/service.js";
 import { authPlugin } from "./auth/plugin.js";
 import type { WorkspaceAppServerPool } from "./codex/workspace-app-server-pool.js";
 import { workspaceEventsPlugin } from "./events/workspace-events-plugin.js";
-import type { InMemorySessionStore } from "./auth/session-store.js";
+import type { PasskeyService } from "./auth/passkeys.js";
+import type { SessionStore } from "./auth/session-store.js";
+import type { TwoFactorService } from "./auth/two-factor.js";
 import type { AppConfig, LogLevel } from "./config.js";
+import { filePlugin } from "./files/plugin.js";
+import type { FileService } from "./files/service.js";
+import type { GitCheckpointService } from "./git/checkpoints.js";
+import type { CommitMessageService } from "./git/commit-message.js";
 import { gitPlugin } from "./git/plugin.js";
 import type { GitService } from "./git/service.js";
+import type { GitStatusWatcher } from "./git/status-watcher.js";
+import type { GitWorktreeService } from "./git/worktrees.js";
 import { createLoggerOptions } from "./logger.js";
+import { reviewPlugin } from "./reviews/plugin.js";
+import type { ReviewService } from "./reviews/service.js";
+import { runtimePlugin } from "./runtimes/plugin.js";
+import { terminalPlugin } from "./terminals/plugin.js";
+import type { TerminalService } from "./terminals/service.js";
 import { threadPlugin } from "./threads/plugin.js";
 import type { ThreadService } from "./threads/service.js";
 import { turnPlugin } from "./turns/plugin.js";
 import type { TurnService } from "./turns/service.js";
+import { userPlugin } from "./users/plugin.js";
+import type { UserService } from "./users/service.js";
 import { workspacePlugin } from "./workspaces/plugin.js";
 import type { WorkspaceService } from "./workspaces/service.js";
 
@@ -23,13 +41,26 @@ export interface BuildAppOptions {
   logger?: boolean;
   logLevel?: LogLevel;
   loggerStream?: NodeJS.WritableStream;
+  // Trusts X-Forwarded-For from loopback proxies, so request.ip names the real client.
+  trustProxy?: boolean;
   authConfig?: AppConfig;
-  sessionStore?: InMemorySessionStore;
+  sessionStore?: SessionStore;
+  twoFactorService?: TwoFactorService;
+  passkeyService?: PasskeyService;
+  userService?: UserService;
   workspaceService?: WorkspaceService;
   threadService?: ThreadService;
   turnService?: TurnService;
   runtimePool?: WorkspaceAppServerPool;
   gitService?: GitService;
+  gitStatusWatcher?: GitStatusWatcher;
+  commitMessageService?: CommitMessageService;
+  checkpointService?: GitCheckpointService;
+  worktreeService?: GitWorktreeService;
+  approvalService?: ApprovalService;
+  reviewService?: ReviewService;
+  fileService?: FileService;
+  terminalService?: TerminalService;
 }
 
 export function buildApp(options: BuildAppOptions = {}) {
@@ -48,6 +79,7 @@ export function buildApp(options: BuildAppOptions = {}) {
   const app = Fastify({
     logger: loggerOptions,
     bodyLimit: JSON_BODY_LIMIT_BYTES,
+    trustProxy: options.trustProxy ? "loopback" : false,
     requestIdHeader: "x-request-id",
     genReqId(request) {
       const incomingRequestId = request.headers["x-request-id"];
@@ -62,13 +94,41 @@ export function buildApp(options: BuildAppOptions = {}) {
   if (options.authConfig) {
     app.register(authPlugin, {
       config: options.authConfig,
-      ...(options.sessionStore ? { sessionStore: options.sessionStore } : {})
+      ...(options.sessionStore ? { sessionStore: options.sessionStore } : {}),
+      ...(options.twoFactorService ? { twoFactorService: options.twoFactorService } : {}),
+      ...(options.passkeyService ? { passkeyService: options.passkeyService } : {}),
+      ...(options.userService ? { userService: options.userService } : {})
     });
   }
 
+  if (options.userService) {
+    app.register(userPlugin, {
+      userService: options.userService
+    });
+  }
+
+  // Registered once at the root: every plugin with websocket routes shares the same upgrade handling.
+  if (options.runtimePool || options.terminalService) {
+    app.register(websocket);
+  }
+
   if (options.workspaceService) {
     app.register(workspacePlugin, {
-      workspaceService: options.workspaceService
+      workspaceService: options.workspaceService,
+      ...(options.userService ? { userService: options.userService } : {})
+    });
+  }
+
+  if (options.fileService) {
+    app.register(filePlugin, {
+      fileService: options.fileService
+    });
+  }
+
+  if (options.terminalService) {
+    app.register(terminalPlugin, {
+      terminalService: options.terminalService,
+      ...(options.userService ? { userService: options.userService } : {})
     });
   }
 
@@ -86,13 +146,33 @@ export function buildApp(options: BuildAppOptions = {}) {
 
   if (options.runtimePool) {
     app.register(workspaceEventsPlugin, {
-      runtimePool: options.runtimePool
+      runtimePool: options.runtimePool,
+      ...(options.gitStatusWatcher ? { gitStatusWatcher: options.gitStatusWatcher } : {})
+    });
+    app.register(runtimePlugin, {
+      runtimePool: options.runtimePool,
+      ...(options.userService ? { userService: options.userService } : {})
+    });
+  }
+
+  if (options.approvalService) {
+    app.register(approvalPlugin, {
+      approvalService: options.approvalService
+    });
+  }
+
+  if (options.reviewService) {
+    app.register(reviewPlugin, {
+      reviewService: options.reviewService
     });
   }
 
   if (options.gitService) {
     app.register(gitPlugin, {
-      gitService: options.gitService
+      gitService: options.gitService,
+      ...(options.commitMessageService ? { commitMessageService: options.commitMessageService } : {}),
+      ...(options.checkpointService ? { checkpointService: options.checkpointService } : {}),
+      ...(options.worktreeService ? { worktreeService: options.worktreeService } : {})
     });
   }
 
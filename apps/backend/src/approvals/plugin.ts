@@ -0,0 +1,157 @@
+import type { FastifyPluginAsync } from "fastify";
+
+import type { SessionRecord } from "../auth/session-store.js";
+import { WorkspaceNotFoundError, WorkspaceRuntimeError } from "../codex/workspace-app-server-pool.js";
+import { AppServerManagerError } from "../codex/app-server-manager.js";
+import {
+  ApprovalNotFoundError,
+  type ApprovalDecision,
+  type ApprovalResponseInput,
+  type ApprovalService
+} from "./service.js";
+
+const APPROVAL_DECISIONS: ApprovalDecision[] = ["approve", "approve_for_session", "deny"];
+const MAX_REASON_LENGTH = 2_000;
+
+interface ApprovalRouteParams {
+  workspaceId?: unknown;
+  requestId?: unknown;
+}
+
+interface ApprovalRequestBody {
+  decision?: unknown;
+  reason?: unknown;
+}
+
+interface AuthenticatedRequestLike {
+  authSession?: SessionRecord;
+}
+
+export interface ApprovalPluginOptions {
+  approvalService: ApprovalService;
+}
+
+export class ApprovalRequestValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ApprovalRequestValidationError";
+  }
+}
+
+function requireRouteParam(params: unknown, key: keyof ApprovalRouteParams): string {
+  const value = (params as ApprovalRouteParams)[key];
+  if (typeof value !== "string" || value.length === 0) {
+    throw new ApprovalRequestValidationError(`${key} path parameter is required`);
+  }
+
+  return value;
+}
+
+function parseApprovalResponseBody(body: ApprovalRequestBody | undefined): ApprovalResponseInput {
+  const decision = body?.decision;
+  if (typeof decision !== "string" || !APPROVAL_DECISIONS.includes(decision as ApprovalDecision)) {
+    throw new ApprovalRequestValidationError(`decision must be one of: ${APPROVAL_DECISIONS.join(", ")}`);
+  }
+
+  const reason = body?.reason;
+  if (reason !== undefined && typeof reason !== "string") {
+    throw new ApprovalRequestValidationError("reason must be a string when provided");
+  }
+
+  if (typeof reason === "string" && reason.length > MAX_REASON_LENGTH) {
+    throw new ApprovalRequestValidationError(`reason must be at most ${MAX_REASON_LENGTH} characters`);
+  }
+
+  const trimmedReason = reason?.trim();
+  return {
+    decision: decision as ApprovalDecision,
+    ...(trimmedReason ? { reason: trimmedReason } : {})
+  };
+}
+
+export const approvalPlugin: FastifyPluginAsync<ApprovalPluginOptions> = async (app, options) => {
+  const { approvalService } = options;
+
+  app.get("/api/workspaces/:workspaceId/approvals", async (request, reply) => {
+    try {
+      const authenticatedRequest = request as AuthenticatedRequestLike;
+      if (!authenticatedRequest.authSession) {
+        return reply.code(401).send({
+          error: "unauthorized",
+          message: "Authentication is required for approvals"
+        });
+      }
+
+      const workspaceId = requireRouteParam(request.params, "workspaceId");
+      return reply.code(200).send({
+        approvals: approvalService.listPending(workspaceId)
+      });
+    } catch (error: unknown) {
+      return handleApprovalError(request, reply, error);
+    }
+  });
+
+  app.post("/api/workspaces/:workspaceId/approvals/:requestId", async (request, reply) => {
+    try {
+      const workspaceId = requireRouteParam(request.params, "workspaceId");
+      const requestId = requireRouteParam(request.params, "requestId");
+      const input = parseApprovalResponseBody(request.body as ApprovalRequestBody | undefined);
+      const resolution = approvalService.respond(workspaceId, requestId, input);
+
+      request.log.info(
+        {
+          workspaceId,
+          requestId,
+          method: resolution.method,
+          decision: resolution.decision
+        },
+        "approval request resolved"
+      );
+
+      return reply.code(200).send({ resolution });
+    } catch (error: unknown) {
+      return handleApprovalError(request, reply, error);
+    }
+  });
+};
+
+function handleApprovalError(
+  request: {
+    log: {
+      error(payload: unknown, message: string): void;
+    };
+  },
+  reply: {
+    code(statusCode: number): {
+      send(payload: unknown): unknown;
+    };
+  },
+  error: unknown
+): unknown {
+  if (error instanceof ApprovalRequestValidationError) {
+    return reply.code(400).send({
+      error: "bad_request",
+      message: error.message
+    });
+  }
+
+  if (error instanceof WorkspaceNotFoundError || error instanceof ApprovalNotFoundError) {
+    return reply.code(404).send({
+      error: "not_found",
+      message: error.message
+    });
+  }
+
+  if (error instanceof WorkspaceRuntimeError || error instanceof AppServerManagerError) {
+    return reply.code(502).send({
+      error: "upstream_error",
+      message: error.message
+    });
+  }
+
+  request.log.error({ err: error }, "approval route failed");
+  return reply.code(500).send({
+    error: "internal_error",
+    message: "Approval request failed"
+  });
+}
@@ -0,0 +1,280 @@
+import type { JsonRpcId } from "../codex/json-rpc.js";
+import {
+  WorkspaceNotFoundError,
+  type WorkspaceAppServerPool,
+  type WorkspaceRuntimeEvent
+} from "../codex/workspace-app-server-pool.js";
+
+export type ApprovalKind = "commandExecution" | "fileChange";
+export type ApprovalDecision = "approve" | "approve_for_session" | "deny";
+export type ApprovalResolutionSource = "user" | "timeout";
+
+export interface PendingApproval {
+  requestId: string;
+  workspaceId: string;
+  method: string;
+  kind: ApprovalKind;
+  threadId: string | null;
+  turnId: string | null;
+  itemId: string | null;
+  command: string | null;
+  cwd: string | null;
+  reason: string | null;
+  createdAt: string;
+  expiresAt: string;
+}
+
+export interface ApprovalResolution {
+  requestId: string;
+  workspaceId: string;
+  method: string;
+  kind: ApprovalKind;
+  decision: ApprovalDecision;
+  reason: string | null;
+  source: ApprovalResolutionSource;
+  resolvedAt: string;
+}
+
+export interface ApprovalResponseInput {
+  decision: ApprovalDecision;
+  reason?: string;
+}
+
+export interface ApprovalServiceOptions {
+  timeoutMs: number;
+  now?: () => number;
+}
+
+interface PendingApprovalEntry {
+  rpcId: JsonRpcId;
+  approval: PendingApproval;
+  timeout: NodeJS.Timeout;
+}
+
+// Current app-server protocol methods answer with accept/decline, the legacy ones with approved/denied.
+const APPROVAL_METHODS: Record<string, { kind: ApprovalKind; legacy: boolean }> = {
+  "item/commandExecution/requestApproval": { kind: "commandExecution", legacy: false },
+  "item/fileChange/requestApproval": { kind: "fileChange", legacy: false },
+  execCommandApproval: { kind: "commandExecution", legacy: true },
+  applyPatchApproval: { kind: "fileChange", legacy: true }
+};
+
+const DECISION_VALUES: Record<ApprovalDecision, { current: string; legacy: string }> = {
+  approve: { current: "accept", legacy: "approved" },
+  approve_for_session: { current: "acceptForSession", legacy: "approved_for_session" },
+  deny: { current: "decline", legacy: "denied" }
+};
+
+export class ApprovalServiceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ApprovalServiceError";
+  }
+}
+
+export class ApprovalNotFoundError extends ApprovalServiceError {
+  constructor(requestId: string) {
+    super(`Approval request '${requestId}' was not found`);
+    this.name = "ApprovalNotFoundError";
+  }
+}
+
+function asRecord(value: unknown): Record<string, unknown> | null {
+  return value !== null && typeof value === "object" ? (value as Record<string, unknown>) : null;
+}
+
+function readString(record: Record<string, unknown>, ...keys: string[]): string | null {
+  for (const key of keys) {
+    const value = record[key];
+    if (typeof value === "string" && value.length > 0) {
+      return value;
+    }
+  }
+
+  return null;
+}
+
+function readCommand(record: Record<string, unknown>): string | null {
+  const command = record.command;
+  if (Array.isArray(command)) {
+    const parts = command.filter((part): part is string => typeof part === "string");
+    return parts.length > 0 ? parts.join(" ") : null;
+  }
+
+  return typeof command === "string" && command.length > 0 ? command : null;
+}
+
+export class ApprovalService {
+  private readonly timeoutMs: number;
+  private readonly now: () => number;
+  private readonly pendingByWorkspace = new Map<string, Map<string, PendingApprovalEntry>>();
+  private readonly unsubscribeFromRuntimeEvents: () => void;
+
+  constructor(
+    private readonly runtimePool: WorkspaceAppServerPool,
+    options: ApprovalServiceOptions
+  ) {
+    this.timeoutMs = options.timeoutMs;
+    this.now = options.now ?? Date.now;
+    this.unsubscribeFromRuntimeEvents = runtimePool.subscribeToRuntimeEvents((event) => {
+      this.handleRuntimeEvent(event);
+    });
+  }
+
+  listPending(workspaceId: string): PendingApproval[] {
+    if (!this.runtimePool.workspaceExists(workspaceId)) {
+      throw new WorkspaceNotFoundError(workspaceId);
+    }
+
+    const pending = this.pendingByWorkspace.get(workspaceId);
+    if (!pending) {
+      return [];
+    }
+
+    return [...pending.values()]
+      .map((entry) => entry.approval)
+      .sort((left, right) => left.createdAt.localeCompare(right.createdAt));
+  }
+
+  respond(workspaceId: string, requestId: string, input: ApprovalResponseInput): ApprovalResolution {
+    if (!this.runtimePool.workspaceExists(workspaceId)) {
+      throw new WorkspaceNotFoundError(workspaceId);
+    }
+
+    const entry = this.pendingByWorkspace.get(workspaceId)?.get(requestId);
+    if (!entry) {
+      throw new ApprovalNotFoundError(requestId);
+    }
+
+    return this.resolve(entry, input.decision, input.reason ?? null, "user");
+  }
+
+  close(): void {
+    this.unsubscribeFromRuntimeEvents();
+    for (const workspaceId of [...this.pendingByWorkspace.keys()]) {
+      this.dropWorkspace(workspaceId);
+    }
+  }
+
+  private handleRuntimeEvent(event: WorkspaceRuntimeEvent): void {
+    if (event.kind === "serverRequest") {
+      this.trackServerRequest(event.workspaceId, event.payload);
+      return;
+    }
+
+    if (event.kind === "stateChanged" && (event.payload === "degraded" || event.payload === "stopped")) {
+      // The app-server process that issued these requests is gone, so they can no longer be answered.
+      this.dropWorkspace(event.workspaceId);
+    }
+  }
+
+  private trackServerRequest(workspaceId: string, payload: unknown): void {
+    const request = asRecord(payload);
+    if (!request || typeof request.method !== "string") {
+      return;
+    }
+
+    const methodInfo = APPROVAL_METHODS[request.method];
+    const rpcId = request.id;
+    if (!methodInfo || (typeof rpcId !== "string" && typeof rpcId !== "number")) {
+      return;
+    }
+
+    const params = asRecord(request.params) ?? {};
+    const createdAtMs = this.now();
+    const approval: PendingApproval = {
+      requestId: String(rpcId),
+      workspaceId,
+      method: request.method,
+      kind: methodInfo.kind,
+      threadId: readString(params, "threadId", "conversationId"),
+      turnId: readString(params, "turnId"),
+      itemId: readString(params, "itemId", "callId"),
+      command: readCommand(params),
+      cwd: readString(params, "cwd"),
+      reason: readString(params, "reason"),
+      createdAt: new Date(createdAtMs).toISOString(),
+      expiresAt: new Date(createdAtMs + this.timeoutMs).toISOString()
+    };
+
+    const pending = this.pendingByWorkspace.get(workspaceId) ?? new Map<string, PendingApprovalEntry>();
+    this.pendingByWorkspace.set(workspaceId, pending);
+    const previousEntry = pending.get(approval.requestId);
+    if (previousEntry) {
+      clearTimeout(previousEntry.timeout);
+    }
+
+    const entry: PendingApprovalEntry = {
+      rpcId,
+      approval,
+      timeout: setTimeout(() => {
+        try {
+          this.resolve(entry, "deny", `Approval timed out after ${Math.round(this.timeoutMs / 1000)}s`, "timeout");
+        } catch {
+          this.removeEntry(entry);
+        }
+      }, this.timeoutMs)
+    };
+    entry.timeout.unref();
+    pending.set(approval.requestId, entry);
+  }
+
+  private resolve(
+    entry: PendingApprovalEntry,
+    decision: ApprovalDecision,
+    reason: string | null,
+    source: ApprovalResolutionSource
+  ): ApprovalResolution {
+    const { approval } = entry;
+    const legacy = APPROVAL_METHODS[approval.method]?.legacy ?? false;
+    const resolution: ApprovalResolution = {
+      requestId: approval.requestId,
+      workspaceId: approval.workspaceId,
+      method: approval.method,
+      kind: approval.kind,
+      decision,
+      reason,
+      source,
+      resolvedAt: new Date(this.now()).toISOString()
+    };
+
+    // The app-server's approval responses only carry the decision; the reason reaches the transcript and
+    // other clients through the resolution broadcast as `serverRequestResolved`.
+    this.runtimePool.respondToServerRequest(
+      approval.workspaceId,
+      entry.rpcId,
+      {
+        result: {
+          decision: legacy ? DECISION_VALUES[decision].legacy : DECISION_VALUES[decision].current
+        }
+      },
+      { ...resolution }
+    );
+    this.removeEntry(entry);
+
+    return resolution;
+  }
+
+  private removeEntry(entry: PendingApprovalEntry): void {
+    clearTimeout(entry.timeout);
+    const pending = this.pendingByWorkspace.get(entry.approval.workspaceId);
+    if (pending?.get(entry.approval.requestId) === entry) {
+      pending.delete(entry.approval.requestId);
+    }
+    if (pending?.size === 0) {
+      this.pendingByWorkspace.delete(entry.approval.workspaceId);
+    }
+  }
+
+  private dropWorkspace(workspaceId: string): void {
+    const pending = this.pendingByWorkspace.get(workspaceId);
+    if (!pending) {
+      return;
+    }
+
+    for (const entry of pending.values()) {
+      clearTimeout(entry.timeout);
+    }
+    this.pendingByWorkspace.delete(workspaceId);
+  }
+}
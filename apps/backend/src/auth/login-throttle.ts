@@ -0,0 +1,130 @@
+export interface LoginThrottleOptions {
+  // Failed attempts one client may make before it is locked out.
+  maxFailedAttempts: number;
+  // Failed attempts across all clients, within one lockout window, before every login is locked out.
+  globalMaxFailedAttempts: number;
+  lockoutMinutes: number;
+  // Wait enforced after the first failure; it doubles with every further failure.
+  backoffBaseMs: number;
+}
+
+export type LoginThrottleScope = "client" | "global";
+
+export type LoginThrottleDecision =
+  | { allowed: true }
+  | { allowed: false; scope: LoginThrottleScope; retryAfterMs: number };
+
+export interface LoginFailureOutcome {
+  failedAttempts: number;
+  // Set when this failure locked the client (or every client) out.
+  lockedOutScope: LoginThrottleScope | null;
+  retryAfterMs: number;
+}
+
+interface ClientFailureState {
+  failedAttempts: number;
+  lastFailureAt: number;
+  lockedUntil: number;
+}
+
+/**
+ * Tracks failed logins in memory. Each failure makes the client wait twice as long as the last one
+ * until the limit locks it out; a flood of failures from many clients locks out every login instead.
+ */
+export class LoginThrottle {
+  private readonly clients = new Map<string, ClientFailureState>();
+  private globalFailureTimes: number[] = [];
+  private globalLockedUntil = 0;
+
+  constructor(
+    private readonly options: LoginThrottleOptions,
+    private readonly now: () => number = () => Date.now()
+  ) {}
+
+  check(clientKey: string): LoginThrottleDecision {
+    const now = this.now();
+    if (this.globalLockedUntil > now) {
+      return { allowed: false, scope: "global", retryAfterMs: this.globalLockedUntil - now };
+    }
+
+    const state = this.readClientState(clientKey, now);
+    if (!state) {
+      return { allowed: true };
+    }
+
+    const nextAttemptAt = Math.max(state.lockedUntil, state.lastFailureAt + this.backoffDelayMs(state.failedAttempts));
+    return nextAttemptAt > now
+      ? { allowed: false, scope: "client", retryAfterMs: nextAttemptAt - now }
+      : { allowed: true };
+  }
+
+  recordFailure(clientKey: string): LoginFailureOutcome {
+    const now = this.now();
+    const lockoutMs = this.lockoutMs();
+    const state = this.readClientState(clientKey, now) ?? { failedAttempts: 0, lastFailureAt: now, lockedUntil: 0 };
+    state.failedAttempts += 1;
+    state.lastFailureAt = now;
+
+    let lockedOutScope: LoginThrottleScope | null = null;
+    if (state.failedAttempts >= this.options.maxFailedAttempts) {
+      state.lockedUntil = now + lockoutMs;
+      lockedOutScope = "client";
+    }
+    this.clients.set(clientKey, state);
+
+    this.globalFailureTimes = this.globalFailureTimes.filter((failureTime) => now - failureTime < lockoutMs);
+    this.globalFailureTimes.push(now);
+    if (this.globalFailureTimes.length >= this.options.globalMaxFailedAttempts) {
+      this.globalLockedUntil = now + lockoutMs;
+      this.globalFailureTimes = [];
+      lockedOutScope = "global";
+    }
+
+    const decision = this.check(clientKey);
+    return {
+      failedAttempts: state.failedAttempts,
+      lockedOutScope,
+      retryAfterMs: decision.allowed ? 0 : decision.retryAfterMs
+    };
+  }
+
+  recordSuccess(clientKey: string): void {
+    this.clients.delete(clientKey);
+  }
+
+  /** Forgets clients whose last failure and lockout are both older than the lockout window. */
+  prune(): number {
+    const now = this.now();
+    let removedCount = 0;
+
+    for (const clientKey of [...this.clients.keys()]) {
+      if (!this.readClientState(clientKey, now)) {
+        removedCount += 1;
+      }
+    }
+
+    return removedCount;
+  }
+
+  private readClientState(clientKey: string, now: number): ClientFailureState | null {
+    const state = this.clients.get(clientKey);
+    if (!state) {
+      return null;
+    }
+
+    if (state.lockedUntil <= now && now - state.lastFailureAt >= this.lockoutMs()) {
+      this.clients.delete(clientKey);
+      return null;
+    }
+
+    return state;
+  }
+
+  private backoffDelayMs(failedAttempts: number): number {
+    return Math.min(this.options.backoffBaseMs * 2 ** (failedAttempts - 1), this.lockoutMs());
+  }
+
+  private lockoutMs(): number {
+    return this.options.lockoutMinutes * 60_000;
+  }
+}
@@ -0,0 +1,155 @@
+import fs from "node:fs";
+import path from "node:path";
+import { DatabaseSync, type StatementSync } from "node:sqlite";
+
+export interface PasskeyRecord {
+  credentialId: string;
+  // Same subject as two-factor settings: the user id, or a fixed subject in single-user mode.
+  subjectId: string;
+  // The hostname the passkey was registered for; assertions for any other relying party are rejected.
+  rpId: string;
+  // SPKI DER, base64url encoded.
+  publicKey: string;
+  algorithm: number;
+  signCount: number;
+  transports: string[];
+  label: string;
+  createdAt: string;
+  lastUsedAt: string | null;
+}
+
+export type NewPasskeyRecord = Omit<PasskeyRecord, "createdAt" | "lastUsedAt">;
+
+interface PasskeyRow {
+  credential_id: string;
+  subject_id: string;
+  rp_id: string;
+  public_key: string;
+  algorithm: number;
+  sign_count: number;
+  transports: string;
+  label: string;
+  created_at: string;
+  last_used_at: string | null;
+}
+
+const PASSKEY_COLUMNS =
+  "credential_id, subject_id, rp_id, public_key, algorithm, sign_count, transports, label, created_at, last_used_at";
+
+function mapPasskeyRow(row: PasskeyRow): PasskeyRecord {
+  return {
+    credentialId: row.credential_id,
+    subjectId: row.subject_id,
+    rpId: row.rp_id,
+    publicKey: row.public_key,
+    algorithm: row.algorithm,
+    signCount: row.sign_count,
+    transports: JSON.parse(row.transports) as string[],
+    label: row.label,
+    createdAt: row.created_at,
+    lastUsedAt: row.last_used_at
+  };
+}
+
+export class PasskeyStore {
+  private readonly database: DatabaseSync;
+  private readonly getStatement: StatementSync;
+  private readonly listBySubjectStatement: StatementSync;
+  private readonly insertStatement: StatementSync;
+  private readonly recordUseStatement: StatementSync;
+  private readonly deleteStatement: StatementSync;
+
+  constructor(databasePath: string) {
+    if (databasePath !== ":memory:") {
+      fs.mkdirSync(path.dirname(databasePath), { recursive: true });
+    }
+
+    this.database = new DatabaseSync(databasePath);
+    this.database.exec(`
+      CREATE TABLE IF NOT EXISTS auth_passkeys (
+        credential_id TEXT PRIMARY KEY,
+        subject_id TEXT NOT NULL,
+        rp_id TEXT NOT NULL,
+        public_key TEXT NOT NULL,
+        algorithm INTEGER NOT NULL,
+        sign_count INTEGER NOT NULL DEFAULT 0,
+        transports TEXT NOT NULL DEFAULT '[]',
+        label TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        last_used_at TEXT
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_auth_passkeys_subject
+      ON auth_passkeys(subject_id);
+    `);
+
+    this.getStatement = this.database.prepare(`
+      SELECT ${PASSKEY_COLUMNS}
+      FROM auth_passkeys
+      WHERE credential_id = ?
+      LIMIT 1
+    `);
+    this.listBySubjectStatement = this.database.prepare(`
+      SELECT ${PASSKEY_COLUMNS}
+      FROM auth_passkeys
+      WHERE subject_id = ?
+      ORDER BY created_at ASC
+    `);
+    this.insertStatement = this.database.prepare(`
+      INSERT INTO auth_passkeys (${PASSKEY_COLUMNS})
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, NULL)
+    `);
+    this.recordUseStatement = this.database.prepare(`
+      UPDATE auth_passkeys
+      SET sign_count = ?, last_used_at = ?
+      WHERE credential_id = ?
+    `);
+    this.deleteStatement = this.database.prepare(`
+      DELETE FROM auth_passkeys
+      WHERE credential_id = ? AND subject_id = ?
+    `);
+  }
+
+  get(credentialId: string): PasskeyRecord | null {
+    const row = this.getStatement.get(credentialId) as PasskeyRow | undefined;
+    return row ? mapPasskeyRow(row) : null;
+  }
+
+  listBySubject(subjectId: string): PasskeyRecord[] {
+    return (this.listBySubjectStatement.all(subjectId) as unknown as PasskeyRow[]).map(mapPasskeyRow);
+  }
+
+  create(record: NewPasskeyRecord): PasskeyRecord {
+    const passkey: PasskeyRecord = {
+      ...record,
+      createdAt: new Date().toISOString(),
+      lastUsedAt: null
+    };
+
+    this.insertStatement.run(
+      passkey.credentialId,
+      passkey.subjectId,
+      passkey.rpId,
+      passkey.publicKey,
+      passkey.algorithm,
+      passkey.signCount,
+      JSON.stringify(passkey.transports),
+      passkey.label,
+      passkey.createdAt
+    );
+    return passkey;
+  }
+
+  recordUse(credentialId: string, signCount: number): void {
+    this.recordUseStatement.run(signCount, new Date().toISOString(), credentialId);
+  }
+
+  /** Deletes only when the passkey belongs to the subject, so one user cannot remove another's passkey. */
+  delete(subjectId: string, credentialId: string): boolean {
+    return Number(this.deleteStatement.run(credentialId, subjectId).changes) > 0;
+  }
+
+  close(): void {
+    this.database.close();
+  }
+}
@@ -0,0 +1,246 @@
+import { randomBytes } from "node:crypto";
+
+import type { PasskeyRecord, PasskeyStore } from "./passkey-store.js";
+import {
+  SUPPORTED_COSE_ALGORITHMS,
+  verifyAuthenticationResponse,
+  verifyRegistrationResponse,
+  WebAuthnVerificationError,
+  type AuthenticationResponse,
+  type RegistrationResponse,
+  type RelyingParty
+} from "./webauthn.js";
+
+const RELYING_PARTY_NAME = "PocketCodex";
+// How long the browser prompt may stay open before its challenge is dropped.
+const CEREMONY_TTL_MS = 5 * 60_000;
+// Sign-in options are handed out before login, so the oldest unanswered prompts make room for new ones.
+export const MAX_PENDING_CEREMONIES = 1_000;
+const DEFAULT_PASSKEY_LABEL = "Passkey";
+const MAX_PASSKEY_LABEL_LENGTH = 64;
+
+interface CredentialDescriptor {
+  type: "public-key";
+  id: string;
+  transports: string[];
+}
+
+/** JSON form of `PublicKeyCredentialCreationOptions`; binary fields are base64url encoded. */
+export interface PasskeyRegistrationOptions {
+  challenge: string;
+  rp: { id: string; name: string };
+  user: { id: string; name: string; displayName: string };
+  pubKeyCredParams: Array<{ type: "public-key"; alg: number }>;
+  excludeCredentials: CredentialDescriptor[];
+  authenticatorSelection: {
+    residentKey: "required";
+    requireResidentKey: true;
+    userVerification: "required";
+  };
+  attestation: "none";
+  timeout: number;
+}
+
+/** JSON form of `PublicKeyCredentialRequestOptions`; no credentials are listed, so the device offers its own. */
+export interface PasskeyAuthenticationOptions {
+  challenge: string;
+  rpId: string;
+  allowCredentials: CredentialDescriptor[];
+  userVerification: "required";
+  timeout: number;
+}
+
+export interface PasskeySubject {
+  subjectId: string;
+  accountName: string;
+}
+
+interface PendingCeremony {
+  challenge: string;
+  relyingParty: RelyingParty;
+  // Set for registrations only; sign-in learns the subject from the credential.
+  subjectId: string | null;
+  expiresAt: number;
+}
+
+export class PasskeyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PasskeyError";
+  }
+}
+
+export class PasskeyChallengeError extends PasskeyError {
+  constructor() {
+    super("The passkey prompt expired or was already used; start again");
+    this.name = "PasskeyChallengeError";
+  }
+}
+
+export class PasskeyStateError extends PasskeyError {
+  constructor(message: string) {
+    super(message);
+    this.name = "PasskeyStateError";
+  }
+}
+
+function toUserHandle(subjectId: string): string {
+  return Buffer.from(subjectId, "utf8").toString("base64url");
+}
+
+function normalizeLabel(label: string | undefined): string {
+  const trimmed = label?.trim().slice(0, MAX_PASSKEY_LABEL_LENGTH) ?? "";
+  return trimmed.length > 0 ? trimmed : DEFAULT_PASSKEY_LABEL;
+}
+
+function toDescriptor(passkey: PasskeyRecord): CredentialDescriptor {
+  return {
+    type: "public-key",
+    id: passkey.credentialId,
+    transports: passkey.transports
+  };
+}
+
+/**
+ * Passkey registration and sign-in. Each ceremony's challenge is bound to a caller-supplied key (the
+ * session for registration, a pre-login cookie for sign-in) and can be answered exactly once.
+ */
+export class PasskeyService {
+  private readonly registrations = new Map<string, PendingCeremony>();
+  private readonly authentications = new Map<string, PendingCeremony>();
+
+  constructor(
+    private readonly store: PasskeyStore,
+    private readonly now: () => number = () => Date.now()
+  ) {}
+
+  list(subjectId: string): PasskeyRecord[] {
+    return this.store.listBySubject(subjectId);
+  }
+
+  remove(subjectId: string, credentialId: string): boolean {
+    return this.store.delete(subjectId, credentialId);
+  }
+
+  beginRegistration(
+    bindingKey: string,
+    subject: PasskeySubject,
+    relyingParty: RelyingParty
+  ): PasskeyRegistrationOptions {
+    const challenge = this.issueChallenge(this.registrations, bindingKey, relyingParty, subject.subjectId);
+    return {
+      challenge,
+      rp: { id: relyingParty.id, name: RELYING_PARTY_NAME },
+      user: {
+        id: toUserHandle(subject.subjectId),
+        name: subject.accountName,
+        displayName: subject.accountName
+      },
+      pubKeyCredParams: SUPPORTED_COSE_ALGORITHMS.map((alg) => ({ type: "public-key", alg })),
+      excludeCredentials: this.store.listBySubject(subject.subjectId).map(toDescriptor),
+      authenticatorSelection: {
+        residentKey: "required",
+        requireResidentKey: true,
+        userVerification: "required"
+      },
+      attestation: "none",
+      timeout: CEREMONY_TTL_MS
+    };
+  }
+
+  finishRegistration(bindingKey: string, response: RegistrationResponse, label?: string): PasskeyRecord {
+    const ceremony = this.takeCeremony(this.registrations, bindingKey);
+    if (!ceremony.subjectId) {
+      throw new PasskeyChallengeError();
+    }
+
+    const verified = verifyRegistrationResponse(response, ceremony.challenge, ceremony.relyingParty);
+    if (this.store.get(verified.credentialId)) {
+      throw new PasskeyStateError("This passkey is already registered");
+    }
+
+    return this.store.create({
+      ...verified,
+      subjectId: ceremony.subjectId,
+      rpId: ceremony.relyingParty.id,
+      transports: response.transports,
+      label: normalizeLabel(label)
+    });
+  }
+
+  beginAuthentication(bindingKey: string, relyingParty: RelyingParty): PasskeyAuthenticationOptions {
+    return {
+      challenge: this.issueChallenge(this.authentications, bindingKey, relyingParty, null),
+      rpId: relyingParty.id,
+      allowCredentials: [],
+      userVerification: "required",
+      timeout: CEREMONY_TTL_MS
+    };
+  }
+
+  /** Returns the passkey that signed the challenge; its subject is the account to sign in. */
+  finishAuthentication(bindingKey: string, response: AuthenticationResponse): PasskeyRecord {
+    const ceremony = this.takeCeremony(this.authentications, bindingKey);
+    const passkey = this.store.get(response.credentialId);
+    if (!passkey || passkey.rpId !== ceremony.relyingParty.id) {
+      throw new WebAuthnVerificationError("Passkey is not registered");
+    }
+
+    if (response.userHandle !== null && response.userHandle !== toUserHandle(passkey.subjectId)) {
+      throw new WebAuthnVerificationError("Passkey belongs to a different account");
+    }
+
+    const signCount = verifyAuthenticationResponse(response, ceremony.challenge, ceremony.relyingParty, passkey);
+    this.store.recordUse(passkey.credentialId, signCount);
+    return passkey;
+  }
+
+  prune(): number {
+    let pruned = 0;
+    for (const ceremonies of [this.registrations, this.authentications]) {
+      for (const [bindingKey, ceremony] of ceremonies) {
+        if (ceremony.expiresAt <= this.now()) {
+          ceremonies.delete(bindingKey);
+          pruned += 1;
+        }
+      }
+    }
+
+    return pruned;
+  }
+
+  private issueChallenge(
+    ceremonies: Map<string, PendingCeremony>,
+    bindingKey: string,
+    relyingParty: RelyingParty,
+    subjectId: string | null
+  ): string {
+    const challenge = randomBytes(32).toString("base64url");
+    // Starting again replaces the previous prompt's challenge.
+    ceremonies.delete(bindingKey);
+    for (const oldestKey of ceremonies.keys()) {
+      if (ceremonies.size < MAX_PENDING_CEREMONIES) {
+        break;
+      }
+      ceremonies.delete(oldestKey);
+    }
+
+    ceremonies.set(bindingKey, {
+      challenge,
+      relyingParty,
+      subjectId,
+      expiresAt: this.now() + CEREMONY_TTL_MS
+    });
+    return challenge;
+  }
+
+  private takeCeremony(ceremonies: Map<string, PendingCeremony>, bindingKey: string): PendingCeremony {
+    const ceremony = ceremonies.get(bindingKey);
+    ceremonies.delete(bindingKey);
+    if (!ceremony || ceremony.expiresAt <= this.now()) {
+      throw new PasskeyChallengeError();
+    }
+
+    return ceremony;
+  }
+}
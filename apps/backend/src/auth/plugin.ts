@@ -1,30 +1,95 @@
+import { createHash, randomBytes } from "node:crypto";
+
 import cookie from "@fastify/cookie";
 import fastifyPlugin from "fastify-plugin";
 import type { FastifyPluginAsync, FastifyReply, FastifyRequest } from "fastify";
 
 import type { AppConfig } from "../config.js";
+import type { UserService } from "../users/service.js";
+import type { UserRecord } from "../users/store.js";
 import { generateCsrfToken, secureEqual, validateCsrfToken } from "./csrf.js";
-import { InMemorySessionStore, type SessionRecord } from "./session-store.js";
+import { LoginThrottle } from "./login-throttle.js";
+import { PasskeyStore, type PasskeyRecord } from "./passkey-store.js";
+import { PasskeyChallengeError, PasskeyService, PasskeyStateError } from "./passkeys.js";
+import { InMemorySessionStore, type SessionRecord, type SessionStore } from "./session-store.js";
+import { InvalidTwoFactorCodeError, TwoFactorService, TwoFactorStateError } from "./two-factor.js";
+import { TwoFactorStore } from "./two-factor-store.js";
+import {
+  WebAuthnVerificationError,
+  type AuthenticationResponse,
+  type RegistrationResponse,
+  type RelyingParty
+} from "./webauthn.js";
 
 export const SESSION_COOKIE_NAME = "poketcodex_session";
+// Ties a passkey sign-in challenge to the browser that asked for it, before any session exists.
+const PASSKEY_CHALLENGE_COOKIE_NAME = "poketcodex_passkey_challenge";
+const PASSKEY_CHALLENGE_COOKIE_PATH = "/api/auth/login/passkey";
+const PASSKEY_CHALLENGE_COOKIE_MAX_AGE_SECONDS = 5 * 60;
 
 const MUTATING_METHODS = new Set(["POST", "PUT", "PATCH", "DELETE"]);
+// Sliding expiry only writes to the store once per interval, not on every request.
+const SESSION_TOUCH_INTERVAL_MS = 60_000;
+const SESSION_PRUNE_INTERVAL_MS = 10 * 60_000;
+// How long the second login step waits for a code after the password was accepted.
+const LOGIN_CHALLENGE_TTL_MS = 5 * 60_000;
+const LOGIN_CHALLENGE_MAX_ATTEMPTS = 5;
+// Single-user mode has no user id, so its two-factor settings and passkeys live under a fixed subject.
+const SINGLE_USER_AUTH_SUBJECT = "single_user";
 
 declare module "fastify" {
   interface FastifyRequest {
     authSession?: SessionRecord;
+    // Only set in multi-user mode.
+    authUser?: UserRecord;
   }
 }
 
 export interface AuthPluginOptions {
   config: AppConfig;
-  sessionStore?: InMemorySessionStore;
+  sessionStore?: SessionStore;
+  userService?: UserService;
+  loginThrottle?: LoginThrottle;
+  twoFactorService?: TwoFactorService;
+  passkeyService?: PasskeyService;
+}
+
+interface SessionRouteParams {
+  sessionId?: unknown;
+}
+
+interface PasskeyRouteParams {
+  credentialId?: unknown;
+}
+
+interface PasskeyRegistrationBody {
+  label?: unknown;
+  credential?: Record<string, unknown>;
+}
+
+interface PasskeyLoginBody {
+  credential?: Record<string, unknown>;
 }
 
-function readSessionFromCookie(
-  request: FastifyRequest,
-  sessionStore: InMemorySessionStore
-): SessionRecord | null {
+interface LoginRequestBody {
+  username?: unknown;
+  password?: unknown;
+}
+
+interface TwoFactorRequestBody {
+  challengeToken?: unknown;
+  code?: unknown;
+}
+
+interface LoginChallenge {
+  subjectId: string;
+  user: UserRecord | null;
+  userAgent: string | null;
+  expiresAt: number;
+  attempts: number;
+}
+
+function readSessionFromCookie(request: FastifyRequest, sessionStore: SessionStore): SessionRecord | null {
   const sessionCookie = request.cookies[SESSION_COOKIE_NAME];
 
   if (!sessionCookie) {
@@ -51,6 +116,116 @@ function attachSessionCookie(reply: FastifyReply, config: AppConfig, sessionId:
   });
 }
 
+/**
+ * Sessions are listed under a hash of their id, so the listing never hands out the value that the
+ * session cookie carries.
+ */
+function toSessionHandle(sessionId: string): string {
+  return createHash("sha256").update(sessionId).digest("base64url").slice(0, 22);
+}
+
+function describeSession(session: SessionRecord, currentSessionId: string): Record<string, unknown> {
+  return {
+    id: toSessionHandle(session.id),
+    current: session.id === currentSessionId,
+    userAgent: session.userAgent,
+    createdAt: new Date(session.createdAt).toISOString(),
+    lastSeenAt: new Date(session.lastSeenAt).toISOString(),
+    expiresAt: new Date(session.expiresAt).toISOString()
+  };
+}
+
+function describeUser(user: UserRecord): Record<string, unknown> {
+  return {
+    userId: user.userId,
+    username: user.username,
+    role: user.role
+  };
+}
+
+function readRouteWorkspaceId(request: FastifyRequest): string | null {
+  const workspaceId = (request.params as { workspaceId?: unknown } | undefined)?.workspaceId;
+  return typeof workspaceId === "string" && workspaceId.length > 0 ? workspaceId : null;
+}
+
+function readTwoFactorCode(body: TwoFactorRequestBody | undefined): string | null {
+  return typeof body?.code === "string" && body.code.trim().length > 0 ? body.code : null;
+}
+
+function readBase64UrlField(source: Record<string, unknown>, key: string): string | null {
+  const value = source[key];
+  return typeof value === "string" && value.length > 0 && /^[A-Za-z0-9_-]+$/.test(value) ? value : null;
+}
+
+function readRegistrationResponse(credential: Record<string, unknown> | undefined): RegistrationResponse | null {
+  if (!credential || typeof credential !== "object") {
+    return null;
+  }
+
+  const credentialId = readBase64UrlField(credential, "credentialId");
+  const clientDataJSON = readBase64UrlField(credential, "clientDataJSON");
+  const authenticatorData = readBase64UrlField(credential, "authenticatorData");
+  const publicKey = readBase64UrlField(credential, "publicKey");
+  const { publicKeyAlgorithm, transports } = credential;
+  if (!credentialId || !clientDataJSON || !authenticatorData || !publicKey || typeof publicKeyAlgorithm !== "number") {
+    return null;
+  }
+
+  return {
+    credentialId,
+    clientDataJSON,
+    authenticatorData,
+    publicKey,
+    publicKeyAlgorithm,
+    transports: Array.isArray(transports)
+      ? transports.filter((transport): transport is string => typeof transport === "string")
+      : []
+  };
+}
+
+function readAuthenticationResponse(credential: Record<string, unknown> | undefined): AuthenticationResponse | null {
+  if (!credential || typeof credential !== "object") {
+    return null;
+  }
+
+  const credentialId = readBase64UrlField(credential, "credentialId");
+  const clientDataJSON = readBase64UrlField(credential, "clientDataJSON");
+  const authenticatorData = readBase64UrlField(credential, "authenticatorData");
+  const signature = readBase64UrlField(credential, "signature");
+  if (!credentialId || !clientDataJSON || !authenticatorData || !signature) {
+    return null;
+  }
+
+  return {
+    credentialId,
+    clientDataJSON,
+    authenticatorData,
+    signature,
+    userHandle: readBase64UrlField(credential, "userHandle")
+  };
+}
+
+function describePasskey(passkey: PasskeyRecord): Record<string, unknown> {
+  return {
+    id: passkey.credentialId,
+    label: passkey.label,
+    createdAt: passkey.createdAt,
+    lastUsedAt: passkey.lastUsedAt
+  };
+}
+
+function sendLoginThrottled(reply: FastifyReply, retryAfterMs: number): FastifyReply {
+  const retryAfterSeconds = Math.max(1, Math.ceil(retryAfterMs / 1000));
+  return reply
+    .code(429)
+    .header("retry-after", String(retryAfterSeconds))
+    .send({
+      error: "too_many_attempts",
+      message: `Too many failed login attempts; try again in ${retryAfterSeconds} seconds`,
+      retryAfterSeconds
+    });
+}
+
 function clearSessionCookie(reply: FastifyReply, config: AppConfig): void {
   reply.clearCookie(SESSION_COOKIE_NAME, {
     path: "/",
@@ -64,15 +239,133 @@ function clearSessionCookie(reply: FastifyReply, config: AppConfig): void {
 const authPluginImplementation: FastifyPluginAsync<AuthPluginOptions> = async (app, options) => {
   const { config } = options;
   const sessionStore = options.sessionStore ?? new InMemorySessionStore();
+  const loginThrottle =
+    options.loginThrottle ??
+    new LoginThrottle({
+      maxFailedAttempts: config.loginMaxFailedAttempts,
+      globalMaxFailedAttempts: config.loginGlobalMaxFailedAttempts,
+      lockoutMinutes: config.loginLockoutMinutes,
+      backoffBaseMs: config.loginBackoffBaseMs
+    });
+  const twoFactorService = options.twoFactorService ?? new TwoFactorService(new TwoFactorStore(":memory:"));
+  const loginChallenges = new Map<string, LoginChallenge>();
+  const passkeyService = options.passkeyService ?? new PasskeyService(new PasskeyStore(":memory:"));
+  const userService = config.authMode === "multi_user" ? options.userService : undefined;
+  if (config.authMode === "multi_user" && !userService) {
+    throw new Error("AUTH_MODE=multi_user requires a user service");
+  }
 
   await app.register(cookie, { secret: config.sessionSecret });
 
+  const pruneTimer = setInterval(() => {
+    try {
+      sessionStore.pruneExpired();
+      loginThrottle.prune();
+      passkeyService.prune();
+      for (const [challengeToken, challenge] of loginChallenges) {
+        if (challenge.expiresAt <= Date.now()) {
+          loginChallenges.delete(challengeToken);
+        }
+      }
+    } catch (error: unknown) {
+      app.log.warn({ err: error }, "failed to prune expired sessions");
+    }
+  }, SESSION_PRUNE_INTERVAL_MS);
+  pruneTimer.unref();
+  app.addHook("onClose", async () => {
+    clearInterval(pruneTimer);
+  });
+
+  // Users only see and revoke their own sessions; in single-user mode every session has a null user.
+  const listOwnSessions = (currentSession: SessionRecord): SessionRecord[] =>
+    sessionStore.listSessions().filter((session) => session.userId === currentSession.userId);
+
+  const toAuthSubject = (userId: string | null): string => userId ?? SINGLE_USER_AUTH_SUBJECT;
+
+  /**
+   * The relying party is the hostname the browser is on. PASSKEY_ORIGINS can pin the accepted origins;
+   * otherwise the browser's Origin header is used, and every stored passkey stays bound to its hostname.
+   */
+  const resolveRelyingParty = (request: FastifyRequest): RelyingParty | null => {
+    const origin = request.headers.origin;
+    if (typeof origin !== "string") {
+      return null;
+    }
+
+    if (config.passkeyOrigins.length > 0 && !config.passkeyOrigins.includes(origin)) {
+      return null;
+    }
+
+    try {
+      const url = new URL(origin);
+      return url.origin === origin ? { id: url.hostname, origin } : null;
+    } catch {
+      return null;
+    }
+  };
+
+  const sendPasskeyOriginRejected = (reply: FastifyReply) =>
+    reply.code(400).send({
+      error: "bad_request",
+      message: "Passkeys are not allowed from this origin"
+    });
+
+  const completeLogin = (reply: FastifyReply, user: UserRecord | null, userAgent: string | null) => {
+    const session = sessionStore.createSession(config.sessionTtlMinutes, {
+      userId: user?.userId ?? null,
+      userAgent
+    });
+    const csrfToken = generateCsrfToken(session.id, config.csrfSecret);
+
+    attachSessionCookie(reply, config, session.id);
+
+    return reply.code(200).send({
+      authenticated: true,
+      authMode: config.authMode,
+      csrfToken,
+      expiresAt: new Date(session.expiresAt).toISOString(),
+      ...(user ? { user: describeUser(user) } : {})
+    });
+  };
+
   app.addHook("onRequest", async (request, reply) => {
-    const session = readSessionFromCookie(request, sessionStore);
+    let session = readSessionFromCookie(request, sessionStore);
+    let user: UserRecord | null = null;
+    if (session && userService) {
+      // A multi-user session ends with its account, and sessions from single-user mode name no account at all.
+      user = session.userId ? userService.getUser(session.userId) : null;
+      if (!user) {
+        sessionStore.deleteSession(session.id);
+        session = null;
+      }
+    }
+
+    if (session && Date.now() - session.lastSeenAt >= SESSION_TOUCH_INTERVAL_MS) {
+      session = sessionStore.touchSession(session.id, config.sessionTtlMinutes);
+      if (session) {
+        attachSessionCookie(reply, config, session.id);
+      }
+    }
+
     if (session) {
       request.authSession = session;
     }
 
+    if (user) {
+      request.authUser = user;
+      request.log = request.log.child({ userId: user.userId });
+
+      // Every workspace-scoped route names the workspace in its path, so grants are enforced once here.
+      const workspaceId = readRouteWorkspaceId(request);
+      if (workspaceId && userService && !userService.canAccessWorkspace(user, workspaceId)) {
+        reply.code(403).send({
+          error: "forbidden",
+          message: `You do not have access to workspace '${workspaceId}'`
+        });
+        return;
+      }
+    }
+
     if (!MUTATING_METHODS.has(request.method)) {
       return;
     }
@@ -104,7 +397,18 @@ const authPluginImplementation: FastifyPluginAsync<AuthPluginOptions> = async (a
   });
 
   app.post("/api/auth/login", async (request, reply) => {
-    const body = request.body as { password?: unknown } | undefined;
+    // Behind a proxy this is only the client's address when TRUST_PROXY is enabled.
+    const clientIp = request.ip;
+    const throttleDecision = loginThrottle.check(clientIp);
+    if (!throttleDecision.allowed) {
+      request.log.warn(
+        { audit: "auth.login_throttled", clientIp, scope: throttleDecision.scope },
+        "login attempt rejected by throttle"
+      );
+      return sendLoginThrottled(reply, throttleDecision.retryAfterMs);
+    }
+
+    const body = request.body as LoginRequestBody | undefined;
     const password = body?.password;
 
     if (typeof password !== "string") {
@@ -114,25 +418,431 @@ const authPluginImplementation: FastifyPluginAsync<AuthPluginOptions> = async (a
       });
     }
 
-    if (!secureEqual(password, config.authPassword)) {
+    let user: UserRecord | null = null;
+    const username = typeof body?.username === "string" ? body.username.trim() : "";
+    if (userService) {
+      if (username.length === 0) {
+        return reply.code(400).send({
+          error: "bad_request",
+          message: "username must be provided"
+        });
+      }
+
+      user = await userService.authenticate(username, password);
+    }
+
+    if (userService ? !user : !secureEqual(password, config.authPassword)) {
+      const failure = loginThrottle.recordFailure(clientIp);
+      request.log.warn(
+        {
+          audit: "auth.login_failed",
+          clientIp,
+          ...(userService ? { username } : {}),
+          failedAttempts: failure.failedAttempts,
+          lockedOutScope: failure.lockedOutScope,
+          retryAfterMs: failure.retryAfterMs
+        },
+        failure.lockedOutScope ? "login failed; locking out further attempts" : "login failed"
+      );
       return reply.code(401).send({
         error: "unauthorized",
         message: "Invalid credentials"
       });
     }
 
-    const session = sessionStore.createSession(config.sessionTtlMinutes);
-    const csrfToken = generateCsrfToken(session.id, config.csrfSecret);
+    const userAgent = request.headers["user-agent"] ?? null;
+    const subjectId = toAuthSubject(user?.userId ?? null);
+    if (twoFactorService.isEnabled(subjectId)) {
+      // The throttle keeps counting until the second factor is also accepted.
+      const challengeToken = randomBytes(24).toString("base64url");
+      loginChallenges.set(challengeToken, {
+        subjectId,
+        user,
+        userAgent,
+        expiresAt: Date.now() + LOGIN_CHALLENGE_TTL_MS,
+        attempts: 0
+      });
 
-    attachSessionCookie(reply, config, session.id);
+      return reply.code(200).send({
+        authenticated: false,
+        authMode: config.authMode,
+        twoFactorRequired: true,
+        challengeToken
+      });
+    }
+
+    loginThrottle.recordSuccess(clientIp);
+    return completeLogin(reply, user, userAgent);
+  });
+
+  app.post("/api/auth/login/two-factor", async (request, reply) => {
+    const clientIp = request.ip;
+    const throttleDecision = loginThrottle.check(clientIp);
+    if (!throttleDecision.allowed) {
+      request.log.warn(
+        { audit: "auth.login_throttled", clientIp, scope: throttleDecision.scope },
+        "two-factor attempt rejected by throttle"
+      );
+      return sendLoginThrottled(reply, throttleDecision.retryAfterMs);
+    }
+
+    const body = request.body as TwoFactorRequestBody | undefined;
+    const code = readTwoFactorCode(body);
+    if (typeof body?.challengeToken !== "string" || !code) {
+      return reply.code(400).send({
+        error: "bad_request",
+        message: "challengeToken and code must be provided"
+      });
+    }
+
+    const { challengeToken } = body;
+    const challenge = loginChallenges.get(challengeToken);
+    if (!challenge || challenge.expiresAt <= Date.now()) {
+      loginChallenges.delete(challengeToken);
+      return reply.code(401).send({
+        error: "challenge_expired",
+        message: "The sign-in attempt expired; enter your password again"
+      });
+    }
+
+    const method = twoFactorService.verify(challenge.subjectId, code);
+    if (!method) {
+      challenge.attempts += 1;
+      if (challenge.attempts >= LOGIN_CHALLENGE_MAX_ATTEMPTS) {
+        loginChallenges.delete(challengeToken);
+      }
+
+      const failure = loginThrottle.recordFailure(clientIp);
+      request.log.warn(
+        {
+          audit: "auth.two_factor_failed",
+          clientIp,
+          ...(challenge.user ? { username: challenge.user.username } : {}),
+          failedAttempts: failure.failedAttempts,
+          lockedOutScope: failure.lockedOutScope,
+          retryAfterMs: failure.retryAfterMs
+        },
+        "two-factor code rejected"
+      );
+      return reply.code(401).send({
+        error: "unauthorized",
+        message: "Invalid authentication code"
+      });
+    }
+
+    loginChallenges.delete(challengeToken);
+    loginThrottle.recordSuccess(clientIp);
+    if (method === "recovery_code") {
+      request.log.warn(
+        {
+          audit: "auth.recovery_code_used",
+          clientIp,
+          ...(challenge.user ? { username: challenge.user.username } : {}),
+          recoveryCodesRemaining: twoFactorService.getStatus(challenge.subjectId).recoveryCodesRemaining
+        },
+        "signed in with a two-factor recovery code"
+      );
+    }
+
+    return completeLogin(reply, challenge.user, challenge.userAgent);
+  });
+
+  app.post("/api/auth/login/passkey/options", async (request, reply) => {
+    const throttleDecision = loginThrottle.check(request.ip);
+    if (!throttleDecision.allowed) {
+      return sendLoginThrottled(reply, throttleDecision.retryAfterMs);
+    }
+
+    const relyingParty = resolveRelyingParty(request);
+    if (!relyingParty) {
+      return sendPasskeyOriginRejected(reply);
+    }
+
+    const bindingKey = randomBytes(24).toString("base64url");
+    reply.setCookie(PASSKEY_CHALLENGE_COOKIE_NAME, bindingKey, {
+      path: PASSKEY_CHALLENGE_COOKIE_PATH,
+      httpOnly: true,
+      secure: config.cookieSecure,
+      sameSite: "strict",
+      signed: true,
+      maxAge: PASSKEY_CHALLENGE_COOKIE_MAX_AGE_SECONDS
+    });
+
+    return reply.code(200).send(passkeyService.beginAuthentication(bindingKey, relyingParty));
+  });
+
+  app.post("/api/auth/login/passkey", async (request, reply) => {
+    const clientIp = request.ip;
+    const throttleDecision = loginThrottle.check(clientIp);
+    if (!throttleDecision.allowed) {
+      request.log.warn(
+        { audit: "auth.login_throttled", clientIp, scope: throttleDecision.scope },
+        "passkey sign-in rejected by throttle"
+      );
+      return sendLoginThrottled(reply, throttleDecision.retryAfterMs);
+    }
+
+    const credential = readAuthenticationResponse((request.body as PasskeyLoginBody | undefined)?.credential);
+    if (!credential) {
+      return reply.code(400).send({
+        error: "bad_request",
+        message: "credential must contain credentialId, clientDataJSON, authenticatorData and signature"
+      });
+    }
+
+    const relyingParty = resolveRelyingParty(request);
+    if (!relyingParty) {
+      return sendPasskeyOriginRejected(reply);
+    }
+
+    const challengeCookie = request.cookies[PASSKEY_CHALLENGE_COOKIE_NAME];
+    const unsignedChallengeCookie = challengeCookie ? request.unsignCookie(challengeCookie) : null;
+    reply.clearCookie(PASSKEY_CHALLENGE_COOKIE_NAME, {
+      path: PASSKEY_CHALLENGE_COOKIE_PATH,
+      httpOnly: true,
+      secure: config.cookieSecure,
+      sameSite: "strict",
+      signed: true
+    });
+
+    const rejectPasskey = (reason: string) => {
+      const failure = loginThrottle.recordFailure(clientIp);
+      request.log.warn(
+        {
+          audit: "auth.passkey_failed",
+          clientIp,
+          reason,
+          failedAttempts: failure.failedAttempts,
+          lockedOutScope: failure.lockedOutScope,
+          retryAfterMs: failure.retryAfterMs
+        },
+        "passkey sign-in rejected"
+      );
+      return reply.code(401).send({
+        error: "unauthorized",
+        message: "Passkey was not accepted"
+      });
+    };
+
+    let passkey: PasskeyRecord;
+    try {
+      if (!unsignedChallengeCookie?.valid || !unsignedChallengeCookie.value) {
+        throw new PasskeyChallengeError();
+      }
+
+      passkey = passkeyService.finishAuthentication(unsignedChallengeCookie.value, credential);
+    } catch (error: unknown) {
+      if (error instanceof PasskeyChallengeError) {
+        return reply.code(401).send({
+          error: "challenge_expired",
+          message: error.message
+        });
+      }
+
+      if (error instanceof WebAuthnVerificationError) {
+        return rejectPasskey(error.message);
+      }
+
+      throw error;
+    }
+
+    // The passkey's subject must still name an account that can sign in under the current auth mode.
+    const user = userService ? userService.getUser(passkey.subjectId) : null;
+    if (userService ? !user : passkey.subjectId !== SINGLE_USER_AUTH_SUBJECT) {
+      return rejectPasskey("Passkey does not belong to an account that can sign in");
+    }
+
+    loginThrottle.recordSuccess(clientIp);
+    request.log.info(
+      { audit: "auth.passkey_login", clientIp, ...(user ? { username: user.username } : {}), passkey: passkey.label },
+      "signed in with a passkey"
+    );
+    return completeLogin(reply, user, request.headers["user-agent"] ?? null);
+  });
+
+  app.get("/api/auth/passkeys", async (request, reply) => {
+    const session = request.authSession;
+    if (!session) {
+      return reply.code(401).send({
+        error: "unauthorized",
+        message: "Authentication is required to list passkeys"
+      });
+    }
 
     return reply.code(200).send({
-      authenticated: true,
-      csrfToken,
-      expiresAt: new Date(session.expiresAt).toISOString()
+      passkeys: passkeyService.list(toAuthSubject(session.userId)).map(describePasskey)
     });
   });
 
+  app.post("/api/auth/passkeys/registration-options", async (request, reply) => {
+    const session = request.authSession;
+    if (!session) {
+      return reply.code(401).send({
+        error: "unauthorized",
+        message: "Session not found"
+      });
+    }
+
+    const relyingParty = resolveRelyingParty(request);
+    if (!relyingParty) {
+      return sendPasskeyOriginRejected(reply);
+    }
+
+    return reply.code(200).send(
+      passkeyService.beginRegistration(
+        session.id,
+        {
+          subjectId: toAuthSubject(session.userId),
+          accountName: request.authUser?.username ?? "owner"
+        },
+        relyingParty
+      )
+    );
+  });
+
+  app.post("/api/auth/passkeys", async (request, reply) => {
+    const session = request.authSession;
+    if (!session) {
+      return reply.code(401).send({
+        error: "unauthorized",
+        message: "Session not found"
+      });
+    }
+
+    const body = request.body as PasskeyRegistrationBody | undefined;
+    const credential = readRegistrationResponse(body?.credential);
+    if (!credential) {
+      return reply.code(400).send({
+        error: "bad_request",
+        message: "credential must contain the passkey id, client data, authenticator data and public key"
+      });
+    }
+
+    try {
+      const passkey = passkeyService.finishRegistration(
+        session.id,
+        credential,
+        typeof body?.label === "string" ? body.label : undefined
+      );
+      request.log.info({ audit: "auth.passkey_registered", passkey: passkey.label }, "passkey registered");
+      return reply.code(201).send({
+        passkey: describePasskey(passkey)
+      });
+    } catch (error: unknown) {
+      return handlePasskeyError(request, reply, error);
+    }
+  });
+
+  app.delete("/api/auth/passkeys/:credentialId", async (request, reply) => {
+    const session = request.authSession;
+    if (!session) {
+      return reply.code(401).send({
+        error: "unauthorized",
+        message: "Session not found"
+      });
+    }
+
+    const { credentialId } = request.params as PasskeyRouteParams;
+    if (typeof credentialId !== "string" || !passkeyService.remove(toAuthSubject(session.userId), credentialId)) {
+      return reply.code(404).send({
+        error: "not_found",
+        message: "Passkey was not found"
+      });
+    }
+
+    request.log.warn({ audit: "auth.passkey_removed" }, "passkey removed");
+    return reply.code(200).send({
+      removed: true
+    });
+  });
+
+  app.get("/api/auth/two-factor", async (request, reply) => {
+    const session = request.authSession;
+    if (!session) {
+      return reply.code(401).send({
+        error: "unauthorized",
+        message: "Authentication is required to read two-factor settings"
+      });
+    }
+
+    return reply.code(200).send(twoFactorService.getStatus(toAuthSubject(session.userId)));
+  });
+
+  app.post("/api/auth/two-factor/enroll", async (request, reply) => {
+    const session = request.authSession;
+    if (!session) {
+      return reply.code(401).send({
+        error: "unauthorized",
+        message: "Session not found"
+      });
+    }
+
+    try {
+      const enrollment = twoFactorService.beginEnrollment(
+        toAuthSubject(session.userId),
+        request.authUser?.username ?? "owner"
+      );
+      return reply.code(200).send(enrollment);
+    } catch (error: unknown) {
+      return handleTwoFactorError(request, reply, error);
+    }
+  });
+
+  app.post("/api/auth/two-factor/confirm", async (request, reply) => {
+    const session = request.authSession;
+    if (!session) {
+      return reply.code(401).send({
+        error: "unauthorized",
+        message: "Session not found"
+      });
+    }
+
+    const code = readTwoFactorCode(request.body as TwoFactorRequestBody | undefined);
+    if (!code) {
+      return reply.code(400).send({
+        error: "bad_request",
+        message: "code must be provided"
+      });
+    }
+
+    try {
+      const recoveryCodes = twoFactorService.confirmEnrollment(toAuthSubject(session.userId), code);
+      request.log.info({ audit: "auth.two_factor_enabled" }, "two-factor authentication enabled");
+      return reply.code(200).send({
+        ...twoFactorService.getStatus(toAuthSubject(session.userId)),
+        recoveryCodes
+      });
+    } catch (error: unknown) {
+      return handleTwoFactorError(request, reply, error);
+    }
+  });
+
+  app.post("/api/auth/two-factor/disable", async (request, reply) => {
+    const session = request.authSession;
+    if (!session) {
+      return reply.code(401).send({
+        error: "unauthorized",
+        message: "Session not found"
+      });
+    }
+
+    const code = readTwoFactorCode(request.body as TwoFactorRequestBody | undefined);
+    if (!code) {
+      return reply.code(400).send({
+        error: "bad_request",
+        message: "code must be provided"
+      });
+    }
+
+    try {
+      twoFactorService.disable(toAuthSubject(session.userId), code);
+      request.log.warn({ audit: "auth.two_factor_disabled" }, "two-factor authentication disabled");
+      return reply.code(200).send(twoFactorService.getStatus(toAuthSubject(session.userId)));
+    } catch (error: unknown) {
+      return handleTwoFactorError(request, reply, error);
+    }
+  });
+
   app.post("/api/auth/logout", async (request, reply) => {
     if (!request.authSession) {
       return reply.code(401).send({
@@ -150,23 +860,122 @@ const authPluginImplementation: FastifyPluginAsync<AuthPluginOptions> = async (a
   });
 
   app.get("/api/auth/session", async (request, reply) => {
-    const session = readSessionFromCookie(request, sessionStore);
+    const session = request.authSession;
 
     if (!session) {
       clearSessionCookie(reply, config);
       return {
-        authenticated: false
+        authenticated: false,
+        authMode: config.authMode
       };
     }
 
     return {
       authenticated: true,
+      authMode: config.authMode,
       csrfToken: generateCsrfToken(session.id, config.csrfSecret),
-      expiresAt: new Date(session.expiresAt).toISOString()
+      expiresAt: new Date(session.expiresAt).toISOString(),
+      ...(request.authUser ? { user: describeUser(request.authUser) } : {})
     };
   });
+
+  app.get("/api/auth/sessions", async (request, reply) => {
+    const currentSession = request.authSession;
+    if (!currentSession) {
+      return reply.code(401).send({
+        error: "unauthorized",
+        message: "Authentication is required to list sessions"
+      });
+    }
+
+    return reply.code(200).send({
+      sessions: listOwnSessions(currentSession).map((session) => describeSession(session, currentSession.id))
+    });
+  });
+
+  app.delete("/api/auth/sessions/:sessionId", async (request, reply) => {
+    const currentSession = request.authSession;
+    if (!currentSession) {
+      return reply.code(401).send({
+        error: "unauthorized",
+        message: "Session not found"
+      });
+    }
+
+    const { sessionId } = request.params as SessionRouteParams;
+    const session =
+      typeof sessionId === "string"
+        ? listOwnSessions(currentSession).find((candidate) => toSessionHandle(candidate.id) === sessionId)
+        : undefined;
+    if (!session) {
+      return reply.code(404).send({
+        error: "not_found",
+        message: "Session was not found"
+      });
+    }
+
+    sessionStore.deleteSession(session.id);
+    if (session.id === currentSession.id) {
+      clearSessionCookie(reply, config);
+    }
+
+    return reply.code(200).send({
+      session: describeSession(session, currentSession.id)
+    });
+  });
 };
 
+function handleTwoFactorError(request: FastifyRequest, reply: FastifyReply, error: unknown): FastifyReply {
+  if (error instanceof InvalidTwoFactorCodeError) {
+    return reply.code(400).send({
+      error: "invalid_code",
+      message: error.message
+    });
+  }
+
+  if (error instanceof TwoFactorStateError) {
+    return reply.code(409).send({
+      error: "conflict",
+      message: error.message
+    });
+  }
+
+  request.log.error({ err: error }, "two-factor route failed");
+  return reply.code(500).send({
+    error: "internal_error",
+    message: "Two-factor request failed"
+  });
+}
+
+function handlePasskeyError(request: FastifyRequest, reply: FastifyReply, error: unknown): FastifyReply {
+  if (error instanceof WebAuthnVerificationError) {
+    return reply.code(400).send({
+      error: "invalid_passkey",
+      message: error.message
+    });
+  }
+
+  if (error instanceof PasskeyChallengeError) {
+    return reply.code(400).send({
+      error: "challenge_expired",
+      message: error.message
+    });
+  }
+
+  if (error instanceof PasskeyStateError) {
+    return reply.code(409).send({
+      error: "conflict",
+      message: error.message
+    });
+  }
+
+  request.log.error({ err: error }, "passkey route failed");
+  return reply.code(500).send({
+    error: "internal_error",
+    message: "Passkey request failed"
+  });
+}
+
 export const authPlugin = fastifyPlugin(authPluginImplementation, {
   name: "poketcodex-auth-plugin"
 });
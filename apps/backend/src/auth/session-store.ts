@@ -1,24 +1,58 @@
+import fs from "node:fs";
+import path from "node:path";
 import { randomBytes } from "node:crypto";
+import { DatabaseSync, type StatementSync } from "node:sqlite";
 
 export interface SessionRecord {
   id: string;
+  // Null in single-user mode, where the session belongs to the lone operator.
+  userId: string | null;
   createdAt: number;
   expiresAt: number;
+  lastSeenAt: number;
+  userAgent: string | null;
 }
 
-export class InMemorySessionStore {
+export interface CreateSessionInput {
+  userId?: string | null;
+  userAgent?: string | null;
+}
+
+export interface SessionStore {
+  createSession(ttlMinutes: number, input?: CreateSessionInput): SessionRecord;
+  getSession(sessionId: string): SessionRecord | null;
+  // Slides the expiry forward from now; returns null when the session is gone or already expired.
+  touchSession(sessionId: string, ttlMinutes: number): SessionRecord | null;
+  listSessions(): SessionRecord[];
+  deleteSession(sessionId: string): void;
+  pruneExpired(): number;
+  close(): void;
+}
+
+const MAX_USER_AGENT_LENGTH = 256;
+
+function buildSession(createdAt: number, ttlMinutes: number, input: CreateSessionInput): SessionRecord {
+  return {
+    id: randomBytes(24).toString("base64url"),
+    userId: input.userId ?? null,
+    createdAt,
+    expiresAt: createdAt + ttlMinutes * 60_000,
+    lastSeenAt: createdAt,
+    userAgent: input.userAgent ? input.userAgent.slice(0, MAX_USER_AGENT_LENGTH) : null
+  };
+}
+
+function byLastSeenDescending(left: SessionRecord, right: SessionRecord): number {
+  return right.lastSeenAt - left.lastSeenAt;
+}
+
+export class InMemorySessionStore implements SessionStore {
   private readonly sessions = new Map<string, SessionRecord>();
 
   constructor(private readonly now: () => number = () => Date.now()) {}
 
-  createSession(ttlMinutes: number): SessionRecord {
-    const createdAt = this.now();
-    const expiresAt = createdAt + ttlMinutes * 60_000;
-    const session: SessionRecord = {
-      id: randomBytes(24).toString("base64url"),
-      createdAt,
-      expiresAt
-    };
+  createSession(ttlMinutes: number, input: CreateSessionInput = {}): SessionRecord {
+    const session = buildSession(this.now(), ttlMinutes, input);
 
     this.sessions.set(session.id, session);
     return session;
@@ -39,6 +73,29 @@ export class InMemorySessionStore {
     return session;
   }
 
+  touchSession(sessionId: string, ttlMinutes: number): SessionRecord | null {
+    const session = this.getSession(sessionId);
+
+    if (!session) {
+      return null;
+    }
+
+    const now = this.now();
+    const touchedSession: SessionRecord = {
+      ...session,
+      expiresAt: now + ttlMinutes * 60_000,
+      lastSeenAt: now
+    };
+
+    this.sessions.set(sessionId, touchedSession);
+    return touchedSession;
+  }
+
+  listSessions(): SessionRecord[] {
+    this.pruneExpired();
+    return [...this.sessions.values()].sort(byLastSeenDescending);
+  }
+
   deleteSession(sessionId: string): void {
     this.sessions.delete(sessionId);
   }
@@ -55,4 +112,148 @@ export class InMemorySessionStore {
 
     return removedCount;
   }
+
+  close(): void {
+    this.sessions.clear();
+  }
+}
+
+interface SessionRow {
+  session_id: string;
+  user_id: string | null;
+  created_at: number;
+  expires_at: number;
+  last_seen_at: number;
+  user_agent: string | null;
+}
+
+const SESSION_COLUMNS = "session_id, user_id, created_at, expires_at, last_seen_at, user_agent";
+
+function mapSessionRow(row: SessionRow): SessionRecord {
+  return {
+    id: row.session_id,
+    userId: row.user_id,
+    createdAt: row.created_at,
+    expiresAt: row.expires_at,
+    lastSeenAt: row.last_seen_at,
+    userAgent: row.user_agent
+  };
+}
+
+/** Keeps sessions in the backend database so a restart or redeploy does not sign every device out. */
+export class SqliteSessionStore implements SessionStore {
+  private readonly database: DatabaseSync;
+  private readonly insertStatement: StatementSync;
+  private readonly getByIdStatement: StatementSync;
+  private readonly touchStatement: StatementSync;
+  private readonly listActiveStatement: StatementSync;
+  private readonly deleteStatement: StatementSync;
+  private readonly pruneStatement: StatementSync;
+
+  constructor(
+    databasePath: string,
+    private readonly now: () => number = () => Date.now()
+  ) {
+    if (databasePath !== ":memory:") {
+      fs.mkdirSync(path.dirname(databasePath), { recursive: true });
+    }
+
+    this.database = new DatabaseSync(databasePath);
+    this.database.exec(`
+      CREATE TABLE IF NOT EXISTS auth_sessions (
+        session_id TEXT PRIMARY KEY,
+        user_id TEXT,
+        created_at INTEGER NOT NULL,
+        expires_at INTEGER NOT NULL,
+        last_seen_at INTEGER NOT NULL,
+        user_agent TEXT
+      );
+
+      CREATE INDEX IF NOT EXISTS auth_sessions_expires_at ON auth_sessions (expires_at);
+    `);
+    this.migrateUserColumn();
+
+    this.insertStatement = this.database.prepare(`
+      INSERT INTO auth_sessions (${SESSION_COLUMNS})
+      VALUES (?, ?, ?, ?, ?, ?)
+    `);
+    this.getByIdStatement = this.database.prepare(`
+      SELECT ${SESSION_COLUMNS}
+      FROM auth_sessions
+      WHERE session_id = ? AND expires_at > ?
+      LIMIT 1
+    `);
+    this.touchStatement = this.database.prepare(`
+      UPDATE auth_sessions
+      SET expires_at = ?, last_seen_at = ?
+      WHERE session_id = ? AND expires_at > ?
+    `);
+    this.listActiveStatement = this.database.prepare(`
+      SELECT ${SESSION_COLUMNS}
+      FROM auth_sessions
+      WHERE expires_at > ?
+      ORDER BY last_seen_at DESC
+    `);
+    this.deleteStatement = this.database.prepare(`
+      DELETE FROM auth_sessions
+      WHERE session_id = ?
+    `);
+    this.pruneStatement = this.database.prepare(`
+      DELETE FROM auth_sessions
+      WHERE expires_at <= ?
+    `);
+  }
+
+  createSession(ttlMinutes: number, input: CreateSessionInput = {}): SessionRecord {
+    const session = buildSession(this.now(), ttlMinutes, input);
+
+    this.insertStatement.run(
+      session.id,
+      session.userId,
+      session.createdAt,
+      session.expiresAt,
+      session.lastSeenAt,
+      session.userAgent
+    );
+    return session;
+  }
+
+  getSession(sessionId: string): SessionRecord | null {
+    const row = this.getByIdStatement.get(sessionId, this.now()) as SessionRow | undefined;
+    return row ? mapSessionRow(row) : null;
+  }
+
+  touchSession(sessionId: string, ttlMinutes: number): SessionRecord | null {
+    const now = this.now();
+    const result = this.touchStatement.run(now + ttlMinutes * 60_000, now, sessionId, now);
+
+    return Number(result.changes) > 0 ? this.getSession(sessionId) : null;
+  }
+
+  listSessions(): SessionRecord[] {
+    const rows = this.listActiveStatement.all(this.now()) as unknown as SessionRow[];
+    return rows.map(mapSessionRow);
+  }
+
+  deleteSession(sessionId: string): void {
+    this.deleteStatement.run(sessionId);
+  }
+
+  pruneExpired(): number {
+    return Number(this.pruneStatement.run(this.now()).changes);
+  }
+
+  close(): void {
+    this.database.close();
+  }
+
+  private migrateUserColumn(): void {
+    const columns = this.database.prepare("PRAGMA table_info(auth_sessions)").all() as unknown as Array<{
+      name: string;
+    }>;
+
+    if (!columns.some((column) => column.name === "user_id")) {
+      this.database.exec("ALTER TABLE auth_sessions ADD COLUMN user_id TEXT");
+    }
+  }
 }
@@ -0,0 +1,115 @@
+import { createHmac, randomBytes, timingSafeEqual } from "node:crypto";
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+const SECRET_BYTES = 20;
+const CODE_DIGITS = 6;
+const PERIOD_SECONDS = 30;
+// Accept the neighbouring time steps so a phone clock that drifts by up to 30 seconds still works.
+const ACCEPTED_STEP_DRIFT = 1;
+
+export function encodeBase32(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+}
+
+export function decodeBase32(encoded: string): Buffer {
+  const normalized = encoded.replace(/[\s=]/g, "").toUpperCase();
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+
+  for (const character of normalized) {
+    const index = BASE32_ALPHABET.indexOf(character);
+    if (index === -1) {
+      throw new Error("Invalid base32 character");
+    }
+
+    value = (value << 5) | index;
+    bits += 5;
+
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+}
+
+export function generateTotpSecret(): string {
+  return encodeBase32(randomBytes(SECRET_BYTES));
+}
+
+/** The `otpauth://` URI authenticator apps read from a QR code or a tapped link. */
+export function buildOtpauthUri(secret: string, accountName: string, issuer: string): string {
+  const label = `${encodeURIComponent(issuer)}:${encodeURIComponent(accountName)}`;
+  const parameters = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: "SHA1",
+    digits: String(CODE_DIGITS),
+    period: String(PERIOD_SECONDS)
+  });
+
+  return `otpauth://totp/${label}?${parameters.toString()}`;
+}
+
+export function generateTotpCode(secret: string, timeStep: number): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(timeStep));
+  const digest = createHmac("sha1", decodeBase32(secret)).update(counter).digest();
+  const offset = (digest[digest.length - 1] ?? 0) & 15;
+  const binary = digest.readUInt32BE(offset) & 0x7fffffff;
+
+  return String(binary % 10 ** CODE_DIGITS).padStart(CODE_DIGITS, "0");
+}
+
+export function toTimeStep(nowMs: number): number {
+  return Math.floor(nowMs / 1000 / PERIOD_SECONDS);
+}
+
+export function isTotpCodeFormat(code: string): boolean {
+  return new RegExp(`^\\d{${CODE_DIGITS}}$`).test(code);
+}
+
+/**
+ * Returns the time step the code belongs to, or null when it does not match. Callers store the step
+ * and pass it back as `minimumStep` so a code cannot be replayed within its validity window.
+ */
+export function verifyTotpCode(secret: string, code: string, nowMs: number, minimumStep = 0): number | null {
+  if (!isTotpCodeFormat(code)) {
+    return null;
+  }
+
+  const currentStep = toTimeStep(nowMs);
+  const codeBuffer = Buffer.from(code);
+  for (let drift = -ACCEPTED_STEP_DRIFT; drift <= ACCEPTED_STEP_DRIFT; drift += 1) {
+    const step = currentStep + drift;
+    if (step < minimumStep) {
+      continue;
+    }
+
+    if (timingSafeEqual(Buffer.from(generateTotpCode(secret, step)), codeBuffer)) {
+      return step;
+    }
+  }
+
+  return null;
+}
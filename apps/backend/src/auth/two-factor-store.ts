@@ -0,0 +1,138 @@
+import fs from "node:fs";
+import path from "node:path";
+import { DatabaseSync, type StatementSync } from "node:sqlite";
+
+export interface TwoFactorRecord {
+  // The user id in multi-user mode; single-user mode keeps one record for the lone operator.
+  subjectId: string;
+  secret: string;
+  // False while enrollment waits for the first code from the authenticator app.
+  enabled: boolean;
+  recoveryCodeHashes: string[];
+  // The last accepted TOTP time step, so a code cannot be used twice.
+  lastUsedStep: number;
+  createdAt: string;
+  enabledAt: string | null;
+}
+
+interface TwoFactorRow {
+  subject_id: string;
+  secret: string;
+  enabled: number;
+  recovery_code_hashes: string;
+  last_used_step: number;
+  created_at: string;
+  enabled_at: string | null;
+}
+
+const TWO_FACTOR_COLUMNS =
+  "subject_id, secret, enabled, recovery_code_hashes, last_used_step, created_at, enabled_at";
+
+function mapTwoFactorRow(row: TwoFactorRow): TwoFactorRecord {
+  return {
+    subjectId: row.subject_id,
+    secret: row.secret,
+    enabled: row.enabled === 1,
+    recoveryCodeHashes: JSON.parse(row.recovery_code_hashes) as string[],
+    lastUsedStep: row.last_used_step,
+    createdAt: row.created_at,
+    enabledAt: row.enabled_at
+  };
+}
+
+export class TwoFactorStore {
+  private readonly database: DatabaseSync;
+  private readonly getStatement: StatementSync;
+  private readonly savePendingStatement: StatementSync;
+  private readonly enableStatement: StatementSync;
+  private readonly recordUsedStepStatement: StatementSync;
+  private readonly replaceRecoveryCodesStatement: StatementSync;
+  private readonly deleteStatement: StatementSync;
+
+  constructor(databasePath: string) {
+    if (databasePath !== ":memory:") {
+      fs.mkdirSync(path.dirname(databasePath), { recursive: true });
+    }
+
+    this.database = new DatabaseSync(databasePath);
+    this.database.exec(`
+      CREATE TABLE IF NOT EXISTS auth_two_factor (
+        subject_id TEXT PRIMARY KEY,
+        secret TEXT NOT NULL,
+        enabled INTEGER NOT NULL DEFAULT 0,
+        recovery_code_hashes TEXT NOT NULL DEFAULT '[]',
+        last_used_step INTEGER NOT NULL DEFAULT 0,
+        created_at TEXT NOT NULL,
+        enabled_at TEXT
+      );
+    `);
+
+    this.getStatement = this.database.prepare(`
+      SELECT ${TWO_FACTOR_COLUMNS}
+      FROM auth_two_factor
+      WHERE subject_id = ?
+      LIMIT 1
+    `);
+    this.savePendingStatement = this.database.prepare(`
+      INSERT INTO auth_two_factor (${TWO_FACTOR_COLUMNS})
+      VALUES (?, ?, 0, '[]', 0, ?, NULL)
+      ON CONFLICT(subject_id)
+      DO UPDATE SET
+        secret = excluded.secret,
+        enabled = 0,
+        recovery_code_hashes = '[]',
+        last_used_step = 0,
+        created_at = excluded.created_at,
+        enabled_at = NULL
+    `);
+    this.enableStatement = this.database.prepare(`
+      UPDATE auth_two_factor
+      SET enabled = 1, recovery_code_hashes = ?, last_used_step = ?, enabled_at = ?
+      WHERE subject_id = ?
+    `);
+    this.recordUsedStepStatement = this.database.prepare(`
+      UPDATE auth_two_factor
+      SET last_used_step = ?
+      WHERE subject_id = ?
+    `);
+    this.replaceRecoveryCodesStatement = this.database.prepare(`
+      UPDATE auth_two_factor
+      SET recovery_code_hashes = ?
+      WHERE subject_id = ?
+    `);
+    this.deleteStatement = this.database.prepare(`
+      DELETE FROM auth_two_factor
+      WHERE subject_id = ?
+    `);
+  }
+
+  get(subjectId: string): TwoFactorRecord | null {
+    const row = this.getStatement.get(subjectId) as TwoFactorRow | undefined;
+    return row ? mapTwoFactorRow(row) : null;
+  }
+
+  /** Starts (or restarts) enrollment with a new secret; the record stays disabled until confirmed. */
+  savePending(subjectId: string, secret: string): void {
+    this.savePendingStatement.run(subjectId, secret, new Date().toISOString());
+  }
+
+  enable(subjectId: string, recoveryCodeHashes: string[], lastUsedStep: number): void {
+    this.enableStatement.run(JSON.stringify(recoveryCodeHashes), lastUsedStep, new Date().toISOString(), subjectId);
+  }
+
+  recordUsedStep(subjectId: string, step: number): void {
+    this.recordUsedStepStatement.run(step, subjectId);
+  }
+
+  replaceRecoveryCodeHashes(subjectId: string, recoveryCodeHashes: string[]): void {
+    this.replaceRecoveryCodesStatement.run(JSON.stringify(recoveryCodeHashes), subjectId);
+  }
+
+  delete(subjectId: string): void {
+    this.deleteStatement.run(subjectId);
+  }
+
+  close(): void {
+    this.database.close();
+  }
+}
@@ -0,0 +1,151 @@
+import { createHash, randomBytes } from "node:crypto";
+
+import { buildOtpauthUri, encodeBase32, generateTotpSecret, isTotpCodeFormat, verifyTotpCode } from "./totp.js";
+import type { TwoFactorStore } from "./two-factor-store.js";
+
+const TOTP_ISSUER = "PocketCodex";
+const RECOVERY_CODE_COUNT = 10;
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  // Enrollment was started but never confirmed with a code.
+  pending: boolean;
+  recoveryCodesRemaining: number;
+}
+
+export interface TwoFactorEnrollment {
+  secret: string;
+  otpauthUri: string;
+}
+
+export type TwoFactorMethod = "totp" | "recovery_code";
+
+export class TwoFactorError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TwoFactorError";
+  }
+}
+
+export class TwoFactorStateError extends TwoFactorError {
+  constructor(message: string) {
+    super(message);
+    this.name = "TwoFactorStateError";
+  }
+}
+
+export class InvalidTwoFactorCodeError extends TwoFactorError {
+  constructor() {
+    super("The authentication code is not valid");
+    this.name = "InvalidTwoFactorCodeError";
+  }
+}
+
+function normalizeRecoveryCode(code: string): string {
+  return code.replace(/[\s-]/g, "").toLowerCase();
+}
+
+function hashRecoveryCode(code: string): string {
+  return createHash("sha256").update(normalizeRecoveryCode(code)).digest("hex");
+}
+
+function generateRecoveryCode(): string {
+  const encoded = encodeBase32(randomBytes(5)).toLowerCase();
+  return `${encoded.slice(0, 4)}-${encoded.slice(4)}`;
+}
+
+/**
+ * Optional TOTP second factor. Recovery codes are high-entropy and single-use, so a plain SHA-256
+ * is enough to keep them out of the database in readable form.
+ */
+export class TwoFactorService {
+  constructor(
+    private readonly store: TwoFactorStore,
+    private readonly now: () => number = () => Date.now()
+  ) {}
+
+  getStatus(subjectId: string): TwoFactorStatus {
+    const record = this.store.get(subjectId);
+    return {
+      enabled: record?.enabled ?? false,
+      pending: record ? !record.enabled : false,
+      recoveryCodesRemaining: record?.enabled ? record.recoveryCodeHashes.length : 0
+    };
+  }
+
+  isEnabled(subjectId: string): boolean {
+    return this.store.get(subjectId)?.enabled ?? false;
+  }
+
+  beginEnrollment(subjectId: string, accountName: string): TwoFactorEnrollment {
+    if (this.isEnabled(subjectId)) {
+      throw new TwoFactorStateError("Two-factor authentication is already enabled");
+    }
+
+    const secret = generateTotpSecret();
+    this.store.savePending(subjectId, secret);
+    return {
+      secret,
+      otpauthUri: buildOtpauthUri(secret, accountName, TOTP_ISSUER)
+    };
+  }
+
+  /** Enables the pending secret once the authenticator proves it; returns the recovery codes, shown only once. */
+  confirmEnrollment(subjectId: string, code: string): string[] {
+    const record = this.store.get(subjectId);
+    if (!record || record.enabled) {
+      throw new TwoFactorStateError("Start two-factor enrollment before confirming it");
+    }
+
+    const step = verifyTotpCode(record.secret, code.trim(), this.now());
+    if (step === null) {
+      throw new InvalidTwoFactorCodeError();
+    }
+
+    const recoveryCodes = Array.from({ length: RECOVERY_CODE_COUNT }, () => generateRecoveryCode());
+    this.store.enable(subjectId, recoveryCodes.map(hashRecoveryCode), step);
+    return recoveryCodes;
+  }
+
+  /** Accepts a current TOTP code or an unused recovery code, which is consumed. */
+  verify(subjectId: string, code: string): TwoFactorMethod | null {
+    const record = this.store.get(subjectId);
+    if (!record?.enabled) {
+      return null;
+    }
+
+    const trimmedCode = code.trim();
+    if (isTotpCodeFormat(trimmedCode)) {
+      const step = verifyTotpCode(record.secret, trimmedCode, this.now(), record.lastUsedStep + 1);
+      if (step === null) {
+        return null;
+      }
+
+      this.store.recordUsedStep(subjectId, step);
+      return "totp";
+    }
+
+    const codeHash = hashRecoveryCode(trimmedCode);
+    if (!record.recoveryCodeHashes.includes(codeHash)) {
+      return null;
+    }
+
+    this.store.replaceRecoveryCodeHashes(
+      subjectId,
+      record.recoveryCodeHashes.filter((candidate) => candidate !== codeHash)
+    );
+    return "recovery_code";
+  }
+
+  disable(subjectId: string, code: string): void {
+    if (!this.isEnabled(subjectId)) {
+      throw new TwoFactorStateError("Two-factor authentication is not enabled");
+    }
+
+    if (!this.verify(subjectId, code)) {
+      throw new InvalidTwoFactorCodeError();
+    }
+
+    this.store.delete(subjectId);
+  }
+}
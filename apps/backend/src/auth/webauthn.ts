@@ -0,0 +1,215 @@
+import { createHash, createPublicKey, timingSafeEqual, verify } from "node:crypto";
+
+// COSE algorithm identifiers offered to authenticators, in order of preference.
+export const COSE_ALGORITHM_ES256 = -7;
+export const COSE_ALGORITHM_EDDSA = -8;
+export const COSE_ALGORITHM_RS256 = -257;
+export const SUPPORTED_COSE_ALGORITHMS = [COSE_ALGORITHM_ES256, COSE_ALGORITHM_EDDSA, COSE_ALGORITHM_RS256];
+
+const FLAG_USER_PRESENT = 0x01;
+const FLAG_USER_VERIFIED = 0x04;
+const FLAG_ATTESTED_CREDENTIAL_DATA = 0x40;
+// rpIdHash (32) + flags (1) + signCount (4)
+const AUTHENTICATOR_DATA_MIN_LENGTH = 37;
+// aaguid (16) + credentialIdLength (2)
+const ATTESTED_CREDENTIAL_HEADER_LENGTH = 18;
+
+export interface RelyingParty {
+  id: string;
+  origin: string;
+}
+
+export interface AuthenticatorData {
+  rpIdHash: Buffer;
+  userPresent: boolean;
+  userVerified: boolean;
+  signCount: number;
+  credentialId: Buffer | null;
+}
+
+/**
+ * The browser already parses the attestation object for us (`getPublicKey()`), so registration only
+ * needs the SPKI key alongside the raw authenticator data. Binary fields are base64url encoded.
+ */
+export interface RegistrationResponse {
+  credentialId: string;
+  clientDataJSON: string;
+  authenticatorData: string;
+  publicKey: string;
+  publicKeyAlgorithm: number;
+  transports: string[];
+}
+
+export interface AuthenticationResponse {
+  credentialId: string;
+  clientDataJSON: string;
+  authenticatorData: string;
+  signature: string;
+  userHandle: string | null;
+}
+
+export interface VerifiedRegistration {
+  credentialId: string;
+  publicKey: string;
+  algorithm: number;
+  signCount: number;
+}
+
+export class WebAuthnVerificationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "WebAuthnVerificationError";
+  }
+}
+
+function sha256(data: Buffer | string): Buffer {
+  return createHash("sha256").update(data).digest();
+}
+
+function sameBytes(left: Buffer, right: Buffer): boolean {
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+export function parseAuthenticatorData(data: Buffer): AuthenticatorData {
+  if (data.length < AUTHENTICATOR_DATA_MIN_LENGTH) {
+    throw new WebAuthnVerificationError("Authenticator data is truncated");
+  }
+
+  const flags = data[32] ?? 0;
+  let credentialId: Buffer | null = null;
+  if (flags & FLAG_ATTESTED_CREDENTIAL_DATA) {
+    const offset = AUTHENTICATOR_DATA_MIN_LENGTH + ATTESTED_CREDENTIAL_HEADER_LENGTH;
+    if (data.length < offset) {
+      throw new WebAuthnVerificationError("Attested credential data is truncated");
+    }
+
+    const credentialIdLength = data.readUInt16BE(offset - 2);
+    if (data.length < offset + credentialIdLength) {
+      throw new WebAuthnVerificationError("Attested credential data is truncated");
+    }
+
+    credentialId = data.subarray(offset, offset + credentialIdLength);
+  }
+
+  return {
+    rpIdHash: data.subarray(0, 32),
+    userPresent: (flags & FLAG_USER_PRESENT) !== 0,
+    userVerified: (flags & FLAG_USER_VERIFIED) !== 0,
+    signCount: data.readUInt32BE(33),
+    credentialId
+  };
+}
+
+function verifyClientData(clientDataJSON: Buffer, expectedType: string, challenge: string, origin: string): void {
+  let clientData: { type?: unknown; challenge?: unknown; origin?: unknown };
+  try {
+    clientData = JSON.parse(clientDataJSON.toString("utf8")) as typeof clientData;
+  } catch {
+    throw new WebAuthnVerificationError("Client data is not valid JSON");
+  }
+
+  if (clientData.type !== expectedType) {
+    throw new WebAuthnVerificationError(`Client data type must be '${expectedType}'`);
+  }
+
+  if (
+    typeof clientData.challenge !== "string" ||
+    !sameBytes(Buffer.from(clientData.challenge), Buffer.from(challenge))
+  ) {
+    throw new WebAuthnVerificationError("Client data does not answer the issued challenge");
+  }
+
+  if (clientData.origin !== origin) {
+    throw new WebAuthnVerificationError("Client data was produced for a different origin");
+  }
+}
+
+function verifyAuthenticatorFlags(authenticatorData: AuthenticatorData, rpId: string): void {
+  if (!sameBytes(authenticatorData.rpIdHash, sha256(rpId))) {
+    throw new WebAuthnVerificationError("Authenticator data was produced for a different relying party");
+  }
+
+  // A passkey stands in for both the password and the second factor, so the device must verify the user.
+  if (!authenticatorData.userPresent || !authenticatorData.userVerified) {
+    throw new WebAuthnVerificationError("The authenticator did not verify the user");
+  }
+}
+
+export function verifyRegistrationResponse(
+  response: RegistrationResponse,
+  challenge: string,
+  relyingParty: RelyingParty
+): VerifiedRegistration {
+  const clientDataJSON = Buffer.from(response.clientDataJSON, "base64url");
+  verifyClientData(clientDataJSON, "webauthn.create", challenge, relyingParty.origin);
+
+  const authenticatorData = parseAuthenticatorData(Buffer.from(response.authenticatorData, "base64url"));
+  verifyAuthenticatorFlags(authenticatorData, relyingParty.id);
+  if (
+    !authenticatorData.credentialId ||
+    !sameBytes(authenticatorData.credentialId, Buffer.from(response.credentialId, "base64url"))
+  ) {
+    throw new WebAuthnVerificationError("Authenticator data does not describe the registered credential");
+  }
+
+  if (!SUPPORTED_COSE_ALGORITHMS.includes(response.publicKeyAlgorithm)) {
+    throw new WebAuthnVerificationError(`Unsupported public key algorithm ${response.publicKeyAlgorithm}`);
+  }
+
+  try {
+    createPublicKey({ key: Buffer.from(response.publicKey, "base64url"), format: "der", type: "spki" });
+  } catch {
+    throw new WebAuthnVerificationError("Public key is not a valid SPKI key");
+  }
+
+  return {
+    credentialId: authenticatorData.credentialId.toString("base64url"),
+    publicKey: response.publicKey,
+    algorithm: response.publicKeyAlgorithm,
+    signCount: authenticatorData.signCount
+  };
+}
+
+/** Verifies an assertion against a stored credential and returns the authenticator's new signature counter. */
+export function verifyAuthenticationResponse(
+  response: AuthenticationResponse,
+  challenge: string,
+  relyingParty: RelyingParty,
+  credential: { publicKey: string; algorithm: number; signCount: number }
+): number {
+  const clientDataJSON = Buffer.from(response.clientDataJSON, "base64url");
+  verifyClientData(clientDataJSON, "webauthn.get", challenge, relyingParty.origin);
+
+  const rawAuthenticatorData = Buffer.from(response.authenticatorData, "base64url");
+  const authenticatorData = parseAuthenticatorData(rawAuthenticatorData);
+  verifyAuthenticatorFlags(authenticatorData, relyingParty.id);
+
+  const publicKey = createPublicKey({
+    key: Buffer.from(credential.publicKey, "base64url"),
+    format: "der",
+    type: "spki"
+  });
+  const signedData = Buffer.concat([rawAuthenticatorData, sha256(clientDataJSON)]);
+  const digest = credential.algorithm === COSE_ALGORITHM_EDDSA ? null : "sha256";
+  let signatureValid: boolean;
+  try {
+    signatureValid = verify(digest, signedData, publicKey, Buffer.from(response.signature, "base64url"));
+  } catch {
+    // Malformed signatures make verify throw rather than return false.
+    signatureValid = false;
+  }
+
+  if (!signatureValid) {
+    throw new WebAuthnVerificationError("Assertion signature is not valid");
+  }
+
+  // Synced passkeys always report 0; a counter that stops increasing otherwise points at a cloned authenticator.
+  if (
+    (authenticatorData.signCount !== 0 || credential.signCount !== 0) &&
+    authenticatorData.signCount <= credential.signCount
+  ) {
+    throw new WebAuthnVerificationError("Authenticator signature counter went backwards");
+  }
+
+  return authenticatorData.signCount;
+}
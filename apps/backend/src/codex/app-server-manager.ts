@@ -2,6 +2,17 @@ import { spawn, type ChildProcessWithoutNullStreams } from "node:child_process";
 import { EventEmitter } from "node:events";
 import { createInterface, type Interface as ReadlineInterface } from "node:readline";
 
+import {
+  formatProtocolIssues,
+  isClientRequestMethod,
+  isServerNotificationMethod,
+  isServerRequestMethod,
+  validateClientResult,
+  validateServerNotification,
+  validateServerRequest,
+  type ProtocolIssue
+} from "@poketcodex/shared";
+
 import {
   isJsonRpcErrorResponse,
   isJsonRpcNotification,
@@ -16,6 +27,7 @@ import type { InitializeParams, InitializeResult } from "./protocol.js";
 const DEFAULT_STARTUP_TIMEOUT_MS = 10_000;
 const DEFAULT_REQUEST_TIMEOUT_MS = 15_000;
 const DEFAULT_STOP_TIMEOUT_MS = 2_000;
+const DEFAULT_STDERR_TAIL_LINES = 50;
 
 export type AppServerState = "stopped" | "starting" | "ready" | "degraded" | "restarting";
 
@@ -32,6 +44,16 @@ export interface AppServerManagerOptions {
   defaultRequestTimeoutMs?: number;
   startupTimeoutMs?: number;
   stopTimeoutMs?: number;
+  stderrTailLines?: number;
+}
+
+export interface AppServerDiagnostics {
+  state: AppServerState;
+  pid: number | null;
+  startedAt: string | null;
+  pendingRequestCount: number;
+  lastError: string | null;
+  stderrTail: string[];
 }
 
 export interface AppServerRequestOptions {
@@ -54,6 +76,12 @@ export interface StaleResponseEvent {
   message: JsonRpcResponse;
 }
 
+export interface SchemaDriftEvent {
+  source: "result" | "notification" | "serverRequest";
+  method: string;
+  issues: ProtocolIssue[];
+}
+
 interface PendingRequest {
   method: string;
   resolve: (value: unknown) => void;
@@ -94,6 +122,18 @@ export class AppServerRpcError extends AppServerManagerError {
   }
 }
 
+export class AppServerSchemaDriftError extends AppServerManagerError {
+  readonly method: string;
+  readonly issues: ProtocolIssue[];
+
+  constructor(method: string, issues: ProtocolIssue[]) {
+    super(`App-server result for '${method}' did not match the expected schema: ${formatProtocolIssues(issues)}`);
+    this.name = "AppServerSchemaDriftError";
+    this.method = method;
+    this.issues = issues;
+  }
+}
+
 export class AppServerProcessError extends AppServerManagerError {
   constructor(message: string) {
     super(message);
@@ -116,6 +156,9 @@ export class AppServerManager extends EventEmitter {
   private processStopping = false;
   private state: AppServerState = "stopped";
   private nextRequestId = 1;
+  private readyAt: number | undefined;
+  private lastError: string | undefined;
+  private stderrTail: string[] = [];
 
   constructor(options: AppServerManagerOptions = {}) {
     super();
@@ -134,65 +177,60 @@ export class AppServerManager extends EventEmitter {
     return this.childProcess?.pid;
   }
 
+  getDiagnostics(): AppServerDiagnostics {
+    return {
+      state: this.state,
+      pid: this.childProcess?.pid ?? null,
+      startedAt: this.readyAt === undefined ? null : new Date(this.readyAt).toISOString(),
+      pendingRequestCount: this.pendingRequests.size,
+      lastError: this.lastError ?? null,
+      stderrTail: [...this.stderrTail]
+    };
+  }
+
   async start(initializeParams?: InitializeParams): Promise<InitializeResult> {
     if (this.state !== "stopped") {
       throw new AppServerManagerError(`Cannot start app-server while in '${this.state}' state`);
     }
 
     this.setState("starting");
-    this.processStopping = false;
-    this.spawnProcess();
 
     try {
-      const initializeResult = await this.sendRequestInternal<InitializeResult>("initialize", {
-        params:
-          initializeParams ??
-          this.options.defaultInitializeParams ?? {
-            clientInfo: {
-              name: "poketcodex-backend",
-              version: "0.1.0"
-            }
-          },
-        timeoutMs: this.options.startupTimeoutMs ?? DEFAULT_STARTUP_TIMEOUT_MS,
-        allowBeforeReady: true
-      });
-
-      this.sendNotification("initialized", {});
-      this.setState("ready");
-      return initializeResult;
+      return await this.launch(initializeParams);
     } catch (error: unknown) {
+      this.recordError(error);
       await this.stop();
       throw error;
     }
   }
 
-  async stop(): Promise<void> {
-    if (this.state === "stopped") {
-      return;
-    }
-
-    this.processStopping = true;
-
-    const childProcess = this.childProcess;
-    if (!childProcess) {
-      this.setState("stopped");
-      return;
+  async restart(initializeParams?: InitializeParams): Promise<InitializeResult> {
+    if (this.state !== "ready" && this.state !== "degraded") {
+      throw new AppServerManagerError(`Cannot restart app-server while in '${this.state}' state`);
     }
 
-    childProcess.kill("SIGTERM");
+    this.setState("restarting");
+    await this.terminateProcess();
 
-    const stopTimeoutMs = this.options.stopTimeoutMs ?? DEFAULT_STOP_TIMEOUT_MS;
-    if (this.exitPromise) {
-      await Promise.race([this.exitPromise, delay(stopTimeoutMs)]);
+    try {
+      return await this.launch(initializeParams);
+    } catch (error: unknown) {
+      this.recordError(error);
+      // stop() may have been called while the restart was in flight; don't revive the state.
+      if (this.getState() !== "stopped") {
+        await this.terminateProcess();
+        this.setState("degraded");
+      }
+      throw error;
     }
+  }
 
-    if (this.childProcess) {
-      this.childProcess.kill("SIGKILL");
-      if (this.exitPromise) {
-        await this.exitPromise;
-      }
+  async stop(): Promise<void> {
+    if (this.state === "stopped") {
+      return;
     }
 
+    await this.terminateProcess();
     this.setState("stopped");
   }
 
@@ -225,6 +263,53 @@ export class AppServerManager extends EventEmitter {
     });
   }
 
+  private async launch(initializeParams?: InitializeParams): Promise<InitializeResult> {
+    this.processStopping = false;
+    this.spawnProcess();
+
+    const initializeResult = await this.sendRequestInternal<InitializeResult>("initialize", {
+      params:
+        initializeParams ??
+        this.options.defaultInitializeParams ?? {
+          clientInfo: {
+            name: "poketcodex-backend",
+            version: "0.1.0"
+          }
+        },
+      timeoutMs: this.options.startupTimeoutMs ?? DEFAULT_STARTUP_TIMEOUT_MS,
+      allowBeforeReady: true
+    });
+
+    this.sendNotification("initialized", {});
+    this.readyAt = Date.now();
+    this.setState("ready");
+    return initializeResult;
+  }
+
+  private async terminateProcess(): Promise<void> {
+    this.processStopping = true;
+    this.readyAt = undefined;
+
+    const childProcess = this.childProcess;
+    if (!childProcess) {
+      return;
+    }
+
+    childProcess.kill("SIGTERM");
+
+    const stopTimeoutMs = this.options.stopTimeoutMs ?? DEFAULT_STOP_TIMEOUT_MS;
+    if (this.exitPromise) {
+      await Promise.race([this.exitPromise, delay(stopTimeoutMs)]);
+    }
+
+    if (this.childProcess) {
+      this.childProcess.kill("SIGKILL");
+      if (this.exitPromise) {
+        await this.exitPromise;
+      }
+    }
+  }
+
   private spawnProcess(): void {
     const spawnOptions = this.options.spawn ?? {
       command: "codex",
@@ -255,10 +340,13 @@ export class AppServerManager extends EventEmitter {
 
     childProcess.stderr.setEncoding("utf8");
     childProcess.stderr.on("data", (chunk: string | Buffer) => {
-      this.emit("stderr", chunk.toString());
+      const text = chunk.toString();
+      this.appendStderrTail(text);
+      this.emit("stderr", text);
     });
 
     childProcess.on("error", (error: Error) => {
+      this.lastError = `App-server process error: ${error.message}`;
       this.rejectPendingRequests(new AppServerProcessError(`App-server process error: ${error.message}`));
       if (!this.processStopping) {
         this.setState("degraded");
@@ -269,6 +357,11 @@ export class AppServerManager extends EventEmitter {
       this.lineReader?.close();
       this.lineReader = undefined;
       this.childProcess = undefined;
+      this.readyAt = undefined;
+
+      if (!this.processStopping) {
+        this.lastError = `App-server exited unexpectedly (code=${code}, signal=${signal})`;
+      }
 
       if (this.pendingRequests.size > 0) {
         this.rejectPendingRequests(
@@ -302,6 +395,9 @@ export class AppServerManager extends EventEmitter {
     }
 
     if (isJsonRpcRequest(parsedMessage)) {
+      if (isServerRequestMethod(parsedMessage.method)) {
+        this.reportDrift("serverRequest", parsedMessage.method, validateServerRequest(parsedMessage));
+      }
       this.emit("serverRequest", {
         id: parsedMessage.id,
         method: parsedMessage.method,
@@ -311,6 +407,9 @@ export class AppServerManager extends EventEmitter {
     }
 
     if (isJsonRpcNotification(parsedMessage)) {
+      if (isServerNotificationMethod(parsedMessage.method)) {
+        this.reportDrift("notification", parsedMessage.method, validateServerNotification(parsedMessage));
+      }
       this.emit("notification", {
         method: parsedMessage.method,
         params: parsedMessage.params
@@ -344,9 +443,36 @@ export class AppServerManager extends EventEmitter {
       return;
     }
 
+    if (isClientRequestMethod(pendingRequest.method)) {
+      const validation = validateClientResult(pendingRequest.method, response.result);
+      if (!validation.ok) {
+        this.reportDrift("result", pendingRequest.method, validation);
+        pendingRequest.reject(new AppServerSchemaDriftError(pendingRequest.method, validation.issues));
+        return;
+      }
+    }
+
     pendingRequest.resolve(response.result);
   }
 
+  // Server-initiated messages are still delivered when they drift from the schema; consumers
+  // already read them defensively, so the drift is only surfaced as an event.
+  private reportDrift(
+    source: SchemaDriftEvent["source"],
+    method: string,
+    validation: { ok: true } | { ok: false; issues: ProtocolIssue[] }
+  ): void {
+    if (validation.ok) {
+      return;
+    }
+
+    this.emit("schemaDrift", {
+      source,
+      method,
+      issues: validation.issues
+    } satisfies SchemaDriftEvent);
+  }
+
   private async sendRequestInternal<TResult>(
     method: string,
     options: {
@@ -424,6 +550,20 @@ export class AppServerManager extends EventEmitter {
     childProcess.stdin.write(`${JSON.stringify(payload)}\n`);
   }
 
+  private recordError(error: unknown): void {
+    this.lastError = error instanceof Error ? error.message : String(error);
+  }
+
+  private appendStderrTail(text: string): void {
+    const lines = text.split("\n").filter((line) => line.trim().length > 0);
+    if (lines.length === 0) {
+      return;
+    }
+
+    const limit = this.options.stderrTailLines ?? DEFAULT_STDERR_TAIL_LINES;
+    this.stderrTail = [...this.stderrTail, ...lines].slice(-limit);
+  }
+
   private rejectPendingRequests(error: Error): void {
     for (const pendingRequest of this.pendingRequests.values()) {
       clearTimeout(pendingRequest.timeout);
@@ -0,0 +1,75 @@
+export const SANDBOX_MODES = ["read-only", "workspace-write", "danger-full-access"] as const;
+export const APPROVAL_POLICIES = ["untrusted", "on-request", "on-failure", "never"] as const;
+
+export type SandboxMode = (typeof SANDBOX_MODES)[number];
+export type ApprovalPolicy = (typeof APPROVAL_POLICIES)[number];
+
+export interface WorkspaceRuntimePolicy {
+  sandboxMode: SandboxMode;
+  approvalPolicy: ApprovalPolicy;
+}
+
+export type TurnSandboxPolicy =
+  | { type: "readOnly" }
+  | { type: "workspaceWrite" }
+  | { type: "dangerFullAccess" };
+
+export const TRUSTED_WORKSPACE_POLICY: WorkspaceRuntimePolicy = {
+  sandboxMode: "danger-full-access",
+  approvalPolicy: "never"
+};
+
+export const UNTRUSTED_WORKSPACE_POLICY: WorkspaceRuntimePolicy = {
+  sandboxMode: "read-only",
+  approvalPolicy: "untrusted"
+};
+
+const TURN_SANDBOX_POLICIES: Record<SandboxMode, TurnSandboxPolicy> = {
+  "read-only": { type: "readOnly" },
+  "workspace-write": { type: "workspaceWrite" },
+  "danger-full-access": { type: "dangerFullAccess" }
+};
+
+export function isSandboxMode(value: unknown): value is SandboxMode {
+  return typeof value === "string" && (SANDBOX_MODES as readonly string[]).includes(value);
+}
+
+export function isApprovalPolicy(value: unknown): value is ApprovalPolicy {
+  return typeof value === "string" && (APPROVAL_POLICIES as readonly string[]).includes(value);
+}
+
+export function defaultRuntimePolicy(trusted: boolean): WorkspaceRuntimePolicy {
+  return trusted ? { ...TRUSTED_WORKSPACE_POLICY } : { ...UNTRUSTED_WORKSPACE_POLICY };
+}
+
+/**
+ * Drops any client-supplied `cwd` so threads and turns stay in the workspace the app-server was started in,
+ * or in the thread's own git worktree when one is given.
+ */
+export function withRuntimeCwd(params: Record<string, unknown>, worktreePath?: string): Record<string, unknown> {
+  const scoped = { ...params };
+  delete scoped.cwd;
+  return worktreePath === undefined ? scoped : { ...scoped, cwd: worktreePath };
+}
+
+export function withThreadRuntimePolicy<TParams extends object>(
+  params: TParams,
+  policy: WorkspaceRuntimePolicy
+): TParams & { approvalPolicy: ApprovalPolicy; sandbox: SandboxMode } {
+  return {
+    ...params,
+    approvalPolicy: policy.approvalPolicy,
+    sandbox: policy.sandboxMode
+  };
+}
+
+export function withTurnRuntimePolicy<TParams extends object>(
+  params: TParams,
+  policy: WorkspaceRuntimePolicy
+): TParams & { approvalPolicy: ApprovalPolicy; sandboxPolicy: TurnSandboxPolicy } {
+  return {
+    ...params,
+    approvalPolicy: policy.approvalPolicy,
+    sandboxPolicy: TURN_SANDBOX_POLICIES[policy.sandboxMode]
+  };
+}
@@ -1,6 +1,13 @@
 import { AppServerClient } from "./app-server-client.js";
 import { AppServerManager } from "./app-server-manager.js";
-import type { AppServerState } from "./app-server-manager.js";
+import type { AppServerDiagnostics, AppServerState, SchemaDriftEvent } from "./app-server-manager.js";
+import type { JsonRpcErrorObject, JsonRpcId } from "./json-rpc.js";
+import { withThreadRuntimePolicy } from "./runtime-policy.js";
+import {
+  InMemoryWorkspaceEventLog,
+  type WorkspaceEventLog,
+  type WorkspaceEventReplay
+} from "../events/event-log.js";
 import type { WorkspaceRecord, WorkspaceStore } from "../workspaces/store.js";
 
 export class WorkspaceRuntimeError extends Error {
@@ -10,6 +17,13 @@ export class WorkspaceRuntimeError extends Error {
   }
 }
 
+export class WorkspaceRuntimeLimitError extends WorkspaceRuntimeError {
+  constructor(maxRuntimes: number) {
+    super(`All ${maxRuntimes} workspace runtimes are busy with running turns; try again when one finishes`);
+    this.name = "WorkspaceRuntimeLimitError";
+  }
+}
+
 export class WorkspaceNotFoundError extends WorkspaceRuntimeError {
   constructor(workspaceId: string) {
     super(`Workspace '${workspaceId}' was not found`);
@@ -21,7 +35,12 @@ export type AppServerManagerFactory = (workspace: WorkspaceRecord) => AppServerM
 
 export type WorkspaceRuntimeEventKind =
   | "notification"
+  | "reviewUpdated"
+  | "runtimeEvicted"
+  | "runtimeRestart"
+  | "schemaDrift"
   | "serverRequest"
+  | "serverRequestResolved"
   | "staleResponse"
   | "stateChanged"
   | "stderr";
@@ -34,27 +53,135 @@ export interface WorkspaceRuntimeEvent {
   payload: unknown;
 }
 
+export interface RuntimeRestartPolicy {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  crashWindowMs: number;
+}
+
+export const DEFAULT_RUNTIME_RESTART_POLICY: RuntimeRestartPolicy = {
+  maxAttempts: 5,
+  baseDelayMs: 1_000,
+  maxDelayMs: 30_000,
+  crashWindowMs: 5 * 60_000
+};
+
+export type RuntimeRestartPhase = "scheduled" | "restarting" | "recovered" | "gaveUp";
+
+export interface RuntimeRestartEventPayload {
+  phase: RuntimeRestartPhase;
+  attempt: number;
+  maxAttempts: number;
+  delayMs?: number;
+  resumedThreadIds?: string[];
+}
+
 interface WorkspaceRuntimeEntry {
   manager: AppServerManager;
   client: AppServerClient;
   startPromise: Promise<void> | undefined;
   disposeManagerListeners: () => void;
+  crashTimestamps: number[];
+  restartTimer: NodeJS.Timeout | undefined;
+  pendingRestartAttempt: number | undefined;
+  activeThreadIds: Set<string>;
+  runningTurnIds: Set<string>;
+  lastActivityAt: number;
+}
+
+export type RuntimeEvictionReason = "idle" | "capacity";
+
+export interface WorkspaceRuntimeSummary extends AppServerDiagnostics {
+  workspaceId: string;
+  uptimeMs: number | null;
+  runningTurnCount: number;
+  subscriberCount: number;
+  lastActivityAt: string | null;
+  restartPending: boolean;
 }
 
 export interface WorkspaceAppServerPoolOptions {
   workspaceStore: WorkspaceStore;
   managerFactory?: AppServerManagerFactory;
+  eventLog?: WorkspaceEventLog;
+  restartPolicy?: RuntimeRestartPolicy;
+  idleTimeoutMs?: number;
+  maxRuntimes?: number;
+  idleSweepIntervalMs?: number;
+  now?: () => number;
+}
+
+const DEFAULT_IDLE_SWEEP_INTERVAL_MS = 60_000;
+const TERMINAL_TURN_METHODS = new Set([
+  "turn/completed",
+  "turn/interrupted",
+  "turn/failed",
+  "turn/cancelled",
+  "turn/aborted",
+  "turn/error"
+]);
+
+export function computeRestartDelayMs(policy: RuntimeRestartPolicy, attempt: number): number {
+  return Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** Math.max(0, attempt - 1));
+}
+
+function extractNotificationTurnId(params: unknown): string | null {
+  if (!params || typeof params !== "object") {
+    return null;
+  }
+
+  const candidate = params as { turnId?: unknown; turn?: { id?: unknown } };
+  if (typeof candidate.turnId === "string" && candidate.turnId.length > 0) {
+    return candidate.turnId;
+  }
+
+  const nestedId = candidate.turn?.id;
+  return typeof nestedId === "string" && nestedId.length > 0 ? nestedId : null;
+}
+
+function extractNotificationThreadId(payload: unknown): string | null {
+  const params = (payload as { params?: unknown } | undefined)?.params;
+  if (!params || typeof params !== "object") {
+    return null;
+  }
+
+  const candidate = params as { threadId?: unknown; thread?: { id?: unknown } };
+  if (typeof candidate.threadId === "string" && candidate.threadId.length > 0) {
+    return candidate.threadId;
+  }
+
+  const nestedId = candidate.thread?.id;
+  return typeof nestedId === "string" && nestedId.length > 0 ? nestedId : null;
 }
 
 export class WorkspaceAppServerPool {
   private readonly workspaceStore: WorkspaceStore;
   private readonly managerFactory: AppServerManagerFactory;
+  private readonly eventLog: WorkspaceEventLog;
+  private readonly restartPolicy: RuntimeRestartPolicy;
+  private readonly now: () => number;
+  private readonly idleTimeoutMs: number;
+  private readonly maxRuntimes: number;
+  private readonly idleSweepTimer: NodeJS.Timeout | undefined;
+  private readonly subscriberCountByWorkspace = new Map<string, number>();
   private readonly runtimes = new Map<string, WorkspaceRuntimeEntry>();
   private readonly runtimeEventListeners = new Set<(event: WorkspaceRuntimeEvent) => void>();
   private readonly runtimeSequenceByWorkspace = new Map<string, number>();
 
   constructor(options: WorkspaceAppServerPoolOptions) {
     this.workspaceStore = options.workspaceStore;
+    this.eventLog = options.eventLog ?? new InMemoryWorkspaceEventLog();
+    this.restartPolicy = options.restartPolicy ?? DEFAULT_RUNTIME_RESTART_POLICY;
+    this.now = options.now ?? (() => Date.now());
+    this.idleTimeoutMs = options.idleTimeoutMs ?? 0;
+    this.maxRuntimes = options.maxRuntimes ?? 0;
+    if (this.idleTimeoutMs > 0) {
+      this.idleSweepTimer = setInterval(() => {
+        this.evictIdleRuntimes();
+      }, options.idleSweepIntervalMs ?? Math.min(this.idleTimeoutMs, DEFAULT_IDLE_SWEEP_INTERVAL_MS));
+      this.idleSweepTimer.unref();
+    }
     this.managerFactory =
       options.managerFactory ??
       ((workspace) => {
@@ -70,12 +197,14 @@ export class WorkspaceAppServerPool {
 
   async getClient(workspaceId: string): Promise<AppServerClient> {
     const runtimeEntry = this.getOrCreateRuntimeEntry(workspaceId);
+    runtimeEntry.lastActivityAt = this.now();
 
     try {
-      await this.ensureRuntimeReady(runtimeEntry);
+      await this.ensureRuntimeReady(workspaceId, runtimeEntry);
       return runtimeEntry.client;
     } catch (error: unknown) {
       this.runtimes.delete(workspaceId);
+      clearTimeout(runtimeEntry.restartTimer);
       runtimeEntry.disposeManagerListeners();
       await runtimeEntry.manager.stop().catch(() => undefined);
       throw new WorkspaceRuntimeError(
@@ -88,6 +217,38 @@ export class WorkspaceAppServerPool {
     return this.workspaceStore.getById(workspaceId) !== null;
   }
 
+  getWorkspace(workspaceId: string): WorkspaceRecord {
+    const workspace = this.workspaceStore.getById(workspaceId);
+    if (!workspace) {
+      throw new WorkspaceNotFoundError(workspaceId);
+    }
+
+    return workspace;
+  }
+
+  respondToServerRequest(
+    workspaceId: string,
+    requestId: JsonRpcId,
+    response: { result: unknown } | { error: JsonRpcErrorObject },
+    resolution: Record<string, unknown> = {}
+  ): void {
+    const runtimeEntry = this.runtimes.get(workspaceId);
+    if (!runtimeEntry || !runtimeEntry.manager.isReady()) {
+      throw new WorkspaceRuntimeError(`Workspace runtime '${workspaceId}' is not running`);
+    }
+
+    runtimeEntry.manager.respondToServerRequest(requestId, response);
+    this.emitRuntimeEvent(workspaceId, "serverRequestResolved", {
+      ...resolution,
+      id: requestId
+    });
+  }
+
+  /** Broadcasts an event produced by a backend service rather than by the app-server itself. */
+  publishRuntimeEvent(workspaceId: string, kind: "reviewUpdated", payload: unknown): void {
+    this.emitRuntimeEvent(workspaceId, kind, payload);
+  }
+
   subscribeToRuntimeEvents(listener: (event: WorkspaceRuntimeEvent) => void): () => void {
     this.runtimeEventListeners.add(listener);
     return () => {
@@ -95,8 +256,127 @@ export class WorkspaceAppServerPool {
     };
   }
 
+  /**
+   * Subscribes to one workspace's events and counts the subscriber, so an open websocket keeps
+   * the runtime from being evicted as idle.
+   */
+  subscribeToWorkspaceEvents(workspaceId: string, listener: (event: WorkspaceRuntimeEvent) => void): () => void {
+    this.subscriberCountByWorkspace.set(workspaceId, (this.subscriberCountByWorkspace.get(workspaceId) ?? 0) + 1);
+    const unsubscribe = this.subscribeToRuntimeEvents((event) => {
+      if (event.workspaceId === workspaceId) {
+        listener(event);
+      }
+    });
+
+    let subscribed = true;
+    return () => {
+      if (!subscribed) {
+        return;
+      }
+
+      subscribed = false;
+      unsubscribe();
+      const remaining = (this.subscriberCountByWorkspace.get(workspaceId) ?? 1) - 1;
+      if (remaining > 0) {
+        this.subscriberCountByWorkspace.set(workspaceId, remaining);
+      } else {
+        this.subscriberCountByWorkspace.delete(workspaceId);
+      }
+
+      const entry = this.runtimes.get(workspaceId);
+      if (entry) {
+        entry.lastActivityAt = this.now();
+      }
+    };
+  }
+
+  /**
+   * Stops runtimes that have had no requests, events, or subscribers for the idle timeout.
+   * Runtimes with a running turn or an in-flight start are always kept.
+   */
+  evictIdleRuntimes(): string[] {
+    if (this.idleTimeoutMs <= 0) {
+      return [];
+    }
+
+    const now = this.now();
+    const evicted: string[] = [];
+    for (const [workspaceId, entry] of this.runtimes) {
+      const idleMs = now - entry.lastActivityAt;
+      if (idleMs >= this.idleTimeoutMs && !this.hasSubscribers(workspaceId) && this.isEvictable(entry)) {
+        this.evictRuntime(workspaceId, entry, "idle");
+        evicted.push(workspaceId);
+      }
+    }
+
+    return evicted;
+  }
+
+  listRuntimes(): WorkspaceRuntimeSummary[] {
+    return [...this.runtimes.entries()].map(([workspaceId, entry]) => this.summarizeRuntime(workspaceId, entry));
+  }
+
+  inspectRuntime(workspaceId: string): WorkspaceRuntimeSummary {
+    this.getWorkspace(workspaceId);
+    return this.summarizeRuntime(workspaceId, this.runtimes.get(workspaceId));
+  }
+
+  /**
+   * Stops the workspace's app-server and starts a fresh one, resuming the threads it was serving.
+   * Unlike crash recovery this also works on a runtime that is stuck in the ready state.
+   */
+  async restartWorkspaceRuntime(workspaceId: string): Promise<WorkspaceRuntimeSummary> {
+    this.getWorkspace(workspaceId);
+
+    const entry = this.runtimes.get(workspaceId);
+    if (entry) {
+      clearTimeout(entry.restartTimer);
+      entry.restartTimer = undefined;
+      entry.pendingRestartAttempt = undefined;
+      entry.crashTimestamps = [];
+      await entry.startPromise?.catch(() => undefined);
+      await entry.manager.stop();
+    }
+
+    await this.getClient(workspaceId);
+
+    const restartedEntry = this.runtimes.get(workspaceId);
+    if (entry && restartedEntry === entry) {
+      await this.resumeActiveThreads(workspaceId, entry);
+    }
+
+    return this.inspectRuntime(workspaceId);
+  }
+
+  async stopWorkspaceRuntime(workspaceId: string): Promise<WorkspaceRuntimeSummary> {
+    this.getWorkspace(workspaceId);
+
+    const entry = this.runtimes.get(workspaceId);
+    if (entry) {
+      this.runtimes.delete(workspaceId);
+      clearTimeout(entry.restartTimer);
+      try {
+        await entry.manager.stop();
+      } finally {
+        entry.disposeManagerListeners();
+      }
+    }
+
+    return this.inspectRuntime(workspaceId);
+  }
+
+  latestRuntimeSequence(workspaceId: string): number {
+    return this.runtimeSequenceByWorkspace.get(workspaceId) ?? this.eventLog.latestSequence(workspaceId);
+  }
+
+  readRuntimeEventsSince(workspaceId: string, sequence: number): WorkspaceEventReplay {
+    return this.eventLog.readSince(workspaceId, sequence);
+  }
+
   async stopAll(): Promise<void> {
+    clearInterval(this.idleSweepTimer);
     const stopTasks = [...this.runtimes.values()].map(async (runtime) => {
+      clearTimeout(runtime.restartTimer);
       runtime.disposeManagerListeners();
       await runtime.manager.stop();
     });
@@ -116,12 +396,20 @@ export class WorkspaceAppServerPool {
       throw new WorkspaceNotFoundError(workspaceId);
     }
 
+    this.ensureRuntimeCapacity();
+
     const manager = this.managerFactory(workspace);
     const entry: WorkspaceRuntimeEntry = {
       manager,
       client: new AppServerClient(manager),
       startPromise: undefined,
-      disposeManagerListeners: () => undefined
+      disposeManagerListeners: () => undefined,
+      crashTimestamps: [],
+      restartTimer: undefined,
+      pendingRestartAttempt: undefined,
+      activeThreadIds: new Set(),
+      runningTurnIds: new Set(),
+      lastActivityAt: this.now()
     };
     entry.disposeManagerListeners = this.attachManagerListeners(workspaceId, manager);
     this.runtimes.set(workspaceId, entry);
@@ -129,12 +417,21 @@ export class WorkspaceAppServerPool {
     return entry;
   }
 
-  private async ensureRuntimeReady(entry: WorkspaceRuntimeEntry): Promise<void> {
+  private async ensureRuntimeReady(workspaceId: string, entry: WorkspaceRuntimeEntry): Promise<void> {
     if (entry.manager.isReady()) {
       return;
     }
 
     if (!entry.startPromise) {
+      // A degraded runtime is either waiting out its restart backoff or automatic restarts gave
+      // up; either way this caller gets an immediate restart instead of an error.
+      if (entry.manager.getState() === "degraded") {
+        clearTimeout(entry.restartTimer);
+        entry.restartTimer = undefined;
+        await this.restartRuntime(workspaceId, entry, entry.pendingRestartAttempt ?? 0);
+        return;
+      }
+
       entry.startPromise = entry.manager.start().then(() => undefined);
       entry.startPromise.finally(() => {
         entry.startPromise = undefined;
@@ -144,8 +441,174 @@ export class WorkspaceAppServerPool {
     await entry.startPromise;
   }
 
+  private ensureRuntimeCapacity(): void {
+    if (this.maxRuntimes <= 0 || this.runtimes.size < this.maxRuntimes) {
+      return;
+    }
+
+    // Least recently used first; runtimes nobody is watching go before ones with open sockets.
+    const candidates = [...this.runtimes.entries()]
+      .filter(([, entry]) => this.isEvictable(entry))
+      .sort(([leftId, left], [rightId, right]) => {
+        const subscriberOrder = Number(this.hasSubscribers(leftId)) - Number(this.hasSubscribers(rightId));
+        return subscriberOrder !== 0 ? subscriberOrder : left.lastActivityAt - right.lastActivityAt;
+      });
+
+    const excess = this.runtimes.size - this.maxRuntimes + 1;
+    if (candidates.length < excess) {
+      throw new WorkspaceRuntimeLimitError(this.maxRuntimes);
+    }
+
+    for (const [workspaceId, entry] of candidates.slice(0, excess)) {
+      this.evictRuntime(workspaceId, entry, "capacity");
+    }
+  }
+
+  private summarizeRuntime(workspaceId: string, entry: WorkspaceRuntimeEntry | undefined): WorkspaceRuntimeSummary {
+    const diagnostics: AppServerDiagnostics = entry?.manager.getDiagnostics() ?? {
+      state: "stopped",
+      pid: null,
+      startedAt: null,
+      pendingRequestCount: 0,
+      lastError: null,
+      stderrTail: []
+    };
+
+    return {
+      workspaceId,
+      ...diagnostics,
+      uptimeMs: diagnostics.startedAt === null ? null : Math.max(0, Date.now() - Date.parse(diagnostics.startedAt)),
+      runningTurnCount: entry?.runningTurnIds.size ?? 0,
+      subscriberCount: this.subscriberCountByWorkspace.get(workspaceId) ?? 0,
+      lastActivityAt: entry ? new Date(entry.lastActivityAt).toISOString() : null,
+      restartPending: entry?.restartTimer !== undefined
+    };
+  }
+
+  private hasSubscribers(workspaceId: string): boolean {
+    return (this.subscriberCountByWorkspace.get(workspaceId) ?? 0) > 0;
+  }
+
+  private isEvictable(entry: WorkspaceRuntimeEntry): boolean {
+    return entry.runningTurnIds.size === 0 && entry.startPromise === undefined;
+  }
+
+  private evictRuntime(workspaceId: string, entry: WorkspaceRuntimeEntry, reason: RuntimeEvictionReason): void {
+    this.runtimes.delete(workspaceId);
+    clearTimeout(entry.restartTimer);
+    this.emitRuntimeEvent(workspaceId, "runtimeEvicted", {
+      reason,
+      idleMs: this.now() - entry.lastActivityAt
+    });
+
+    // Listeners stay attached until the process is gone so subscribers still see "stopped".
+    void entry.manager
+      .stop()
+      .catch(() => undefined)
+      .finally(() => {
+        entry.disposeManagerListeners();
+      });
+  }
+
+  private handleRuntimeDegraded(workspaceId: string, manager: AppServerManager): void {
+    const entry = this.runtimes.get(workspaceId);
+    if (!entry || entry.manager !== manager || entry.restartTimer) {
+      return;
+    }
+
+    const now = this.now();
+    entry.crashTimestamps = entry.crashTimestamps.filter(
+      (timestamp) => now - timestamp < this.restartPolicy.crashWindowMs
+    );
+    entry.crashTimestamps.push(now);
+
+    const attempt = entry.crashTimestamps.length;
+    if (attempt > this.restartPolicy.maxAttempts) {
+      entry.pendingRestartAttempt = undefined;
+      entry.crashTimestamps = [];
+      this.emitRestartEvent(workspaceId, {
+        phase: "gaveUp",
+        attempt: attempt - 1,
+        maxAttempts: this.restartPolicy.maxAttempts
+      });
+      return;
+    }
+
+    const delayMs = computeRestartDelayMs(this.restartPolicy, attempt);
+    entry.pendingRestartAttempt = attempt;
+    entry.restartTimer = setTimeout(() => {
+      entry.restartTimer = undefined;
+      void this.restartRuntime(workspaceId, entry, attempt).catch(() => undefined);
+    }, delayMs);
+    entry.restartTimer.unref();
+
+    this.emitRestartEvent(workspaceId, {
+      phase: "scheduled",
+      attempt,
+      maxAttempts: this.restartPolicy.maxAttempts,
+      delayMs
+    });
+  }
+
+  private async restartRuntime(workspaceId: string, entry: WorkspaceRuntimeEntry, attempt: number): Promise<void> {
+    if (this.runtimes.get(workspaceId) !== entry) {
+      throw new WorkspaceRuntimeError(`Workspace runtime '${workspaceId}' was replaced during restart`);
+    }
+
+    entry.pendingRestartAttempt = undefined;
+    this.emitRestartEvent(workspaceId, {
+      phase: "restarting",
+      attempt,
+      maxAttempts: this.restartPolicy.maxAttempts
+    });
+
+    entry.startPromise = entry.manager.restart().then(() => undefined);
+    try {
+      // On failure the manager drops back to degraded, which schedules the next attempt.
+      await entry.startPromise;
+    } finally {
+      entry.startPromise = undefined;
+    }
+
+    const resumedThreadIds = await this.resumeActiveThreads(workspaceId, entry);
+    this.emitRestartEvent(workspaceId, {
+      phase: "recovered",
+      attempt,
+      maxAttempts: this.restartPolicy.maxAttempts,
+      resumedThreadIds
+    });
+  }
+
+  private async resumeActiveThreads(workspaceId: string, entry: WorkspaceRuntimeEntry): Promise<string[]> {
+    const workspace = this.workspaceStore.getById(workspaceId);
+    if (!workspace) {
+      return [];
+    }
+
+    const resumedThreadIds: string[] = [];
+    for (const threadId of [...entry.activeThreadIds]) {
+      try {
+        await entry.client.threadResume(withThreadRuntimePolicy({ threadId }, workspace));
+        resumedThreadIds.push(threadId);
+      } catch {
+        // Threads that can no longer be resumed are dropped; the next turn will report its own error.
+        entry.activeThreadIds.delete(threadId);
+      }
+    }
+
+    return resumedThreadIds;
+  }
+
+  private emitRestartEvent(workspaceId: string, payload: RuntimeRestartEventPayload): void {
+    this.emitRuntimeEvent(workspaceId, "runtimeRestart", payload);
+  }
+
   private attachManagerListeners(workspaceId: string, manager: AppServerManager): () => void {
     const notificationListener = (payload: unknown) => {
+      const entry = this.runtimes.get(workspaceId);
+      if (entry?.manager === manager) {
+        this.trackNotification(entry, payload);
+      }
       this.emitRuntimeEvent(workspaceId, "notification", payload);
     };
     const serverRequestListener = (payload: unknown) => {
@@ -157,14 +620,26 @@ export class WorkspaceAppServerPool {
     const stderrListener = (payload: unknown) => {
       this.emitRuntimeEvent(workspaceId, "stderr", payload);
     };
+    const schemaDriftListener = (payload: SchemaDriftEvent) => {
+      this.emitRuntimeEvent(workspaceId, "schemaDrift", payload);
+    };
     const stateChangedListener = (payload: AppServerState) => {
+      const entry = this.runtimes.get(workspaceId);
+      if (entry?.manager === manager && payload !== "ready") {
+        // Turns don't survive the process, so they can no longer hold the runtime open.
+        entry.runningTurnIds.clear();
+      }
       this.emitRuntimeEvent(workspaceId, "stateChanged", payload);
+      if (payload === "degraded") {
+        this.handleRuntimeDegraded(workspaceId, manager);
+      }
     };
 
     manager.on("notification", notificationListener);
     manager.on("serverRequest", serverRequestListener);
     manager.on("staleResponse", staleResponseListener);
     manager.on("stderr", stderrListener);
+    manager.on("schemaDrift", schemaDriftListener);
     manager.on("stateChanged", stateChangedListener);
 
     return () => {
@@ -172,10 +647,32 @@ export class WorkspaceAppServerPool {
       manager.off("serverRequest", serverRequestListener);
       manager.off("staleResponse", staleResponseListener);
       manager.off("stderr", stderrListener);
+      manager.off("schemaDrift", schemaDriftListener);
       manager.off("stateChanged", stateChangedListener);
     };
   }
 
+  private trackNotification(entry: WorkspaceRuntimeEntry, payload: unknown): void {
+    entry.lastActivityAt = this.now();
+
+    const threadId = extractNotificationThreadId(payload);
+    if (threadId) {
+      entry.activeThreadIds.add(threadId);
+    }
+
+    const notification = payload as { method?: unknown; params?: unknown } | undefined;
+    const turnId = extractNotificationTurnId(notification?.params);
+    if (!turnId || typeof notification?.method !== "string") {
+      return;
+    }
+
+    if (notification.method === "turn/started") {
+      entry.runningTurnIds.add(turnId);
+    } else if (TERMINAL_TURN_METHODS.has(notification.method)) {
+      entry.runningTurnIds.delete(turnId);
+    }
+  }
+
   private emitRuntimeEvent(workspaceId: string, kind: WorkspaceRuntimeEventKind, payload: unknown): void {
     const sequence = this.nextSequence(workspaceId);
     const event: WorkspaceRuntimeEvent = {
@@ -186,13 +683,14 @@ export class WorkspaceAppServerPool {
       payload
     };
 
+    this.eventLog.append(event);
     for (const listener of this.runtimeEventListeners) {
       listener(event);
     }
   }
 
   private nextSequence(workspaceId: string): number {
-    const sequence = (this.runtimeSequenceByWorkspace.get(workspaceId) ?? 0) + 1;
+    const sequence = this.latestRuntimeSequence(workspaceId) + 1;
     this.runtimeSequenceByWorkspace.set(workspaceId, sequence);
     return sequence;
   }
@@ -3,7 +3,7 @@ import path from "node:path";
 import { z } from "zod";
 
 export type NodeEnvironment = "development" | "test" | "production";
-export type AuthMode = "single_user";
+export type AuthMode = "single_user" | "multi_user";
 export type LogLevel = "trace" | "debug" | "info" | "warn" | "error" | "fatal" | "silent";
 
 export interface AppConfig {
@@ -14,10 +14,25 @@ export interface AppConfig {
   logLevel: LogLevel;
   authMode: AuthMode;
   authPassword: string;
+  authAdminUsername: string;
   sessionSecret: string;
   csrfSecret: string;
   cookieSecure: boolean;
+  trustProxy: boolean;
+  passkeyOrigins: string[];
   sessionTtlMinutes: number;
+  loginMaxFailedAttempts: number;
+  loginGlobalMaxFailedAttempts: number;
+  loginLockoutMinutes: number;
+  loginBackoffBaseMs: number;
+  approvalTimeoutSeconds: number;
+  eventLogCapacity: number;
+  eventLogPersist: boolean;
+  runtimeRestartMaxAttempts: number;
+  runtimeRestartBaseDelayMs: number;
+  runtimeIdleTimeoutMinutes: number;
+  maxWorkspaceRuntimes: number;
+  maxTerminalSessions: number;
   allowedWorkspaceRoots: string[];
 }
 
@@ -27,8 +42,16 @@ const envSchema = z.object({
   PORT: z.coerce.number().int().min(1).max(65535).default(8787),
   SQLITE_DATABASE_PATH: z.string().trim().min(1).default("./data/poketcodex.db"),
   LOG_LEVEL: z.enum(["trace", "debug", "info", "warn", "error", "fatal", "silent"]).default("info"),
-  AUTH_MODE: z.enum(["single_user"]).default("single_user"),
+  AUTH_MODE: z.enum(["single_user", "multi_user"]).default("single_user"),
   AUTH_PASSWORD: z.string().trim().min(12, "AUTH_PASSWORD must be at least 12 characters long"),
+  AUTH_ADMIN_USERNAME: z
+    .string()
+    .trim()
+    .regex(
+      /^[a-z0-9][a-z0-9._-]{1,31}$/i,
+      "AUTH_ADMIN_USERNAME must be 2-32 letters, digits, dots, dashes or underscores"
+    )
+    .default("admin"),
   SESSION_SECRET: z
     .string()
     .trim()
@@ -38,7 +61,21 @@ const envSchema = z.object({
     .trim()
     .min(32, "CSRF_SECRET must be at least 32 characters long"),
   COOKIE_SECURE: z.string().trim().optional(),
+  TRUST_PROXY: z.string().trim().optional(),
+  PASSKEY_ORIGINS: z.string().trim().optional(),
   SESSION_TTL_MINUTES: z.coerce.number().int().positive().default(1440),
+  LOGIN_MAX_FAILED_ATTEMPTS: z.coerce.number().int().positive().default(5),
+  LOGIN_GLOBAL_MAX_FAILED_ATTEMPTS: z.coerce.number().int().positive().default(50),
+  LOGIN_LOCKOUT_MINUTES: z.coerce.number().int().positive().default(15),
+  LOGIN_BACKOFF_BASE_MS: z.coerce.number().int().min(0).default(1000),
+  APPROVAL_TIMEOUT_SECONDS: z.coerce.number().int().positive().default(300),
+  EVENT_LOG_CAPACITY: z.coerce.number().int().positive().default(500),
+  EVENT_LOG_PERSIST: z.string().trim().optional(),
+  RUNTIME_RESTART_MAX_ATTEMPTS: z.coerce.number().int().min(0).default(5),
+  RUNTIME_RESTART_BASE_DELAY_MS: z.coerce.number().int().positive().default(1000),
+  RUNTIME_IDLE_TIMEOUT_MINUTES: z.coerce.number().int().min(0).default(30),
+  MAX_WORKSPACE_RUNTIMES: z.coerce.number().int().min(0).default(8),
+  MAX_TERMINAL_SESSIONS: z.coerce.number().int().min(0).default(4),
   ALLOWED_WORKSPACE_ROOTS: z.string().trim().min(1)
 });
 
@@ -72,6 +109,30 @@ function parseAllowedWorkspaceRoots(rawValue: string): string[] {
   return [...new Set(roots.map((root) => path.resolve(root)))];
 }
 
+function parsePasskeyOrigins(rawValue: string | undefined): string[] {
+  const origins = (rawValue ?? "")
+    .split(",")
+    .map((value) => value.trim().replace(/\/+$/, ""))
+    .filter((value) => value.length > 0);
+
+  for (const origin of origins) {
+    let parsedOrigin: string | null = null;
+    try {
+      parsedOrigin = new URL(origin).origin;
+    } catch {
+      parsedOrigin = null;
+    }
+
+    if (parsedOrigin !== origin) {
+      throw new ConfigValidationError(
+        `Invalid configuration: PASSKEY_ORIGINS contains '${origin}', which is not a bare origin like https://host`
+      );
+    }
+  }
+
+  return [...new Set(origins)];
+}
+
 function formatZodError(error: z.ZodError): string {
   const details = error.issues
     .map((issue) => {
@@ -124,10 +185,29 @@ export function loadConfig(env: NodeJS.ProcessEnv = process.env): AppConfig {
     logLevel: configData.LOG_LEVEL,
     authMode: configData.AUTH_MODE,
     authPassword: configData.AUTH_PASSWORD,
+    authAdminUsername: configData.AUTH_ADMIN_USERNAME,
     sessionSecret: configData.SESSION_SECRET,
     csrfSecret: configData.CSRF_SECRET,
     cookieSecure,
+    trustProxy:
+      configData.TRUST_PROXY === undefined ? false : parseBooleanFlag("TRUST_PROXY", configData.TRUST_PROXY),
+    passkeyOrigins: parsePasskeyOrigins(configData.PASSKEY_ORIGINS),
     sessionTtlMinutes: configData.SESSION_TTL_MINUTES,
+    loginMaxFailedAttempts: configData.LOGIN_MAX_FAILED_ATTEMPTS,
+    loginGlobalMaxFailedAttempts: configData.LOGIN_GLOBAL_MAX_FAILED_ATTEMPTS,
+    loginLockoutMinutes: configData.LOGIN_LOCKOUT_MINUTES,
+    loginBackoffBaseMs: configData.LOGIN_BACKOFF_BASE_MS,
+    approvalTimeoutSeconds: configData.APPROVAL_TIMEOUT_SECONDS,
+    eventLogCapacity: configData.EVENT_LOG_CAPACITY,
+    eventLogPersist:
+      configData.EVENT_LOG_PERSIST === undefined
+        ? false
+        : parseBooleanFlag("EVENT_LOG_PERSIST", configData.EVENT_LOG_PERSIST),
+    runtimeRestartMaxAttempts: configData.RUNTIME_RESTART_MAX_ATTEMPTS,
+    runtimeRestartBaseDelayMs: configData.RUNTIME_RESTART_BASE_DELAY_MS,
+    runtimeIdleTimeoutMinutes: configData.RUNTIME_IDLE_TIMEOUT_MINUTES,
+    maxWorkspaceRuntimes: configData.MAX_WORKSPACE_RUNTIMES,
+    maxTerminalSessions: configData.MAX_TERMINAL_SESSIONS,
     allowedWorkspaceRoots
   };
 }
@@ -0,0 +1,203 @@
+import fs from "node:fs";
+import path from "node:path";
+import { DatabaseSync, type StatementSync } from "node:sqlite";
+
+import type { WorkspaceRuntimeEvent } from "../codex/workspace-app-server-pool.js";
+
+export const DEFAULT_EVENT_LOG_CAPACITY = 500;
+
+export interface WorkspaceEventReplay {
+  events: WorkspaceRuntimeEvent[];
+  gap: boolean;
+  oldestSequence: number | null;
+  latestSequence: number;
+}
+
+export interface WorkspaceEventLog {
+  append(event: WorkspaceRuntimeEvent): void;
+  readSince(workspaceId: string, sequence: number): WorkspaceEventReplay;
+  latestSequence(workspaceId: string): number;
+  close(): void;
+}
+
+export interface WorkspaceEventLogOptions {
+  capacity?: number;
+}
+
+function buildReplay(
+  events: WorkspaceRuntimeEvent[],
+  since: number,
+  oldestSequence: number | null,
+  latestSequence: number
+): WorkspaceEventReplay {
+  // A sequence past the end of the log means the log was reset (for example by a restart
+  // without persistence), so the client's view is stale even though nothing is buffered.
+  if (since >= latestSequence) {
+    return {
+      events: [],
+      gap: since > latestSequence,
+      oldestSequence,
+      latestSequence
+    };
+  }
+
+  return {
+    events,
+    gap: oldestSequence === null || oldestSequence > since + 1,
+    oldestSequence,
+    latestSequence
+  };
+}
+
+function resolveCapacity(options: WorkspaceEventLogOptions): number {
+  const capacity = options.capacity ?? DEFAULT_EVENT_LOG_CAPACITY;
+  if (!Number.isInteger(capacity) || capacity <= 0) {
+    throw new RangeError("Event log capacity must be a positive integer");
+  }
+
+  return capacity;
+}
+
+export class InMemoryWorkspaceEventLog implements WorkspaceEventLog {
+  private readonly capacity: number;
+  private readonly eventsByWorkspace = new Map<string, WorkspaceRuntimeEvent[]>();
+
+  constructor(options: WorkspaceEventLogOptions = {}) {
+    this.capacity = resolveCapacity(options);
+  }
+
+  append(event: WorkspaceRuntimeEvent): void {
+    let events = this.eventsByWorkspace.get(event.workspaceId);
+    if (!events) {
+      events = [];
+      this.eventsByWorkspace.set(event.workspaceId, events);
+    }
+
+    events.push(event);
+    if (events.length > this.capacity) {
+      events.splice(0, events.length - this.capacity);
+    }
+  }
+
+  readSince(workspaceId: string, sequence: number): WorkspaceEventReplay {
+    const events = this.eventsByWorkspace.get(workspaceId) ?? [];
+    return buildReplay(
+      events.filter((event) => event.sequence > sequence),
+      sequence,
+      events[0]?.sequence ?? null,
+      this.latestSequence(workspaceId)
+    );
+  }
+
+  latestSequence(workspaceId: string): number {
+    return this.eventsByWorkspace.get(workspaceId)?.at(-1)?.sequence ?? 0;
+  }
+
+  close(): void {
+    this.eventsByWorkspace.clear();
+  }
+}
+
+interface RuntimeEventRow {
+  workspace_id: string;
+  sequence: number;
+  timestamp: string;
+  kind: WorkspaceRuntimeEvent["kind"];
+  payload: string;
+}
+
+interface SequenceBoundsRow {
+  oldest_sequence: number | null;
+  latest_sequence: number | null;
+}
+
+function mapRuntimeEventRow(row: RuntimeEventRow): WorkspaceRuntimeEvent {
+  return {
+    workspaceId: row.workspace_id,
+    sequence: row.sequence,
+    timestamp: row.timestamp,
+    kind: row.kind,
+    payload: JSON.parse(row.payload)
+  };
+}
+
+export class SqliteWorkspaceEventLog implements WorkspaceEventLog {
+  private readonly capacity: number;
+  private readonly database: DatabaseSync;
+  private readonly insertStatement: StatementSync;
+  private readonly pruneStatement: StatementSync;
+  private readonly listSinceStatement: StatementSync;
+  private readonly boundsStatement: StatementSync;
+
+  constructor(databasePath: string, options: WorkspaceEventLogOptions = {}) {
+    this.capacity = resolveCapacity(options);
+
+    if (databasePath !== ":memory:") {
+      fs.mkdirSync(path.dirname(databasePath), { recursive: true });
+    }
+
+    this.database = new DatabaseSync(databasePath);
+    this.database.exec(`
+      CREATE TABLE IF NOT EXISTS workspace_runtime_events (
+        workspace_id TEXT NOT NULL,
+        sequence INTEGER NOT NULL,
+        timestamp TEXT NOT NULL,
+        kind TEXT NOT NULL,
+        payload TEXT NOT NULL,
+        PRIMARY KEY (workspace_id, sequence)
+      );
+    `);
+
+    this.insertStatement = this.database.prepare(`
+      INSERT OR REPLACE INTO workspace_runtime_events (workspace_id, sequence, timestamp, kind, payload)
+      VALUES (?, ?, ?, ?, ?)
+    `);
+
+    this.pruneStatement = this.database.prepare(`
+      DELETE FROM workspace_runtime_events
+      WHERE workspace_id = ? AND sequence <= ?
+    `);
+
+    this.listSinceStatement = this.database.prepare(`
+      SELECT workspace_id, sequence, timestamp, kind, payload
+      FROM workspace_runtime_events
+      WHERE workspace_id = ? AND sequence > ?
+      ORDER BY sequence ASC
+    `);
+
+    this.boundsStatement = this.database.prepare(`
+      SELECT MIN(sequence) AS oldest_sequence, MAX(sequence) AS latest_sequence
+      FROM workspace_runtime_events
+      WHERE workspace_id = ?
+    `);
+  }
+
+  append(event: WorkspaceRuntimeEvent): void {
+    this.insertStatement.run(
+      event.workspaceId,
+      event.sequence,
+      event.timestamp,
+      event.kind,
+      JSON.stringify(event.payload ?? null)
+    );
+    this.pruneStatement.run(event.workspaceId, event.sequence - this.capacity);
+  }
+
+  readSince(workspaceId: string, sequence: number): WorkspaceEventReplay {
+    const bounds = this.readBounds(workspaceId);
+    const rows = this.listSinceStatement.all(workspaceId, sequence) as unknown as RuntimeEventRow[];
+    return buildReplay(rows.map(mapRuntimeEventRow), sequence, bounds.oldest_sequence, bounds.latest_sequence ?? 0);
+  }
+
+  latestSequence(workspaceId: string): number {
+    return this.readBounds(workspaceId).latest_sequence ?? 0;
+  }
+
+  close(): void {
+    this.database.close();
+  }
+
+  private readBounds(workspaceId: string): SequenceBoundsRow {
+    return this.boundsStatement.get(workspaceId) as unknown as SequenceBoundsRow;
+  }
+}
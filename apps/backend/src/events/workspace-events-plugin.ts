@@ -1,8 +1,8 @@
-import websocket from "@fastify/websocket";
 import type { FastifyPluginAsync } from "fastify";
 
 import { WorkspaceNotFoundError, type WorkspaceAppServerPool } from "../codex/workspace-app-server-pool.js";
 import type { SessionRecord } from "../auth/session-store.js";
+import type { GitStatusWatcher } from "../git/status-watcher.js";
 
 const WS_OPEN_STATE = 1;
 
@@ -10,12 +10,17 @@ interface WorkspaceEventRouteParams {
   workspaceId?: string;
 }
 
+interface WorkspaceEventQuery {
+  since?: unknown;
+}
+
 interface AuthenticatedRequestLike {
   authSession?: SessionRecord;
 }
 
 export interface WorkspaceEventsPluginOptions {
   runtimePool: WorkspaceAppServerPool;
+  gitStatusWatcher?: GitStatusWatcher;
 }
 
 function getWorkspaceId(params: unknown): string {
@@ -26,6 +31,20 @@ function getWorkspaceId(params: unknown): string {
   return workspaceId;
 }
 
+function parseSinceQuery(query: unknown): number | null | undefined {
+  const since = (query as WorkspaceEventQuery | undefined)?.since;
+  if (since === undefined) {
+    return undefined;
+  }
+
+  if (typeof since !== "string" || !/^\d+$/.test(since)) {
+    return null;
+  }
+
+  const sequence = Number(since);
+  return Number.isSafeInteger(sequence) ? sequence : null;
+}
+
 function createQueuedSender(socket: { readyState: number; send(data: string, callback?: (error?: Error) => void): void }) {
   let queue = Promise.resolve();
 
@@ -58,8 +77,7 @@ export const workspaceEventsPlugin: FastifyPluginAsync<WorkspaceEventsPluginOpti
   app,
   options
 ) => {
-  const { runtimePool } = options;
-  await app.register(websocket);
+  const { runtimePool, gitStatusWatcher } = options;
 
   app.get(
     "/api/workspaces/:workspaceId/events",
@@ -82,33 +100,75 @@ export const workspaceEventsPlugin: FastifyPluginAsync<WorkspaceEventsPluginOpti
             message: `Workspace '${workspaceId}' not found`
           });
         }
+
+        if (parseSinceQuery(request.query) === null) {
+          return reply.code(400).send({
+            error: "bad_request",
+            message: "since must be a non-negative integer sequence"
+          });
+        }
       }
     },
     async (connection, request) => {
       const workspaceId = getWorkspaceId(request.params);
+      const since = parseSinceQuery(request.query) ?? undefined;
       const send = createQueuedSender(connection);
-      const unsubscribe = runtimePool.subscribeToRuntimeEvents((event) => {
-        if (event.workspaceId !== workspaceId) {
-          return;
-        }
 
+      // Reading the replay and subscribing happen in the same tick, so every live event is newer
+      // than the replayed ones and the queued sender keeps them in order.
+      const replay = since === undefined ? undefined : runtimePool.readRuntimeEventsSince(workspaceId, since);
+      const unsubscribe = runtimePool.subscribeToWorkspaceEvents(workspaceId, (event) => {
         void send({
           type: "workspace_runtime_event",
           event
         });
       });
 
+      // Git status pushes carry no sequence: they are not replayed, and the next change sends a fresh one.
+      const unsubscribeGitStatus = gitStatusWatcher?.subscribe(workspaceId, (git) => {
+        void send({
+          type: "git_status_changed",
+          workspaceId,
+          git
+        });
+      });
+
       connection.on("close", () => {
         unsubscribe();
+        unsubscribeGitStatus?.();
       });
       connection.on("error", () => {
         unsubscribe();
+        unsubscribeGitStatus?.();
       });
 
-      await send({
-        type: "connected",
-        workspaceId
-      });
+      const initialMessages: unknown[] = [
+        {
+          type: "connected",
+          workspaceId,
+          latestSequence: runtimePool.latestRuntimeSequence(workspaceId)
+        }
+      ];
+
+      if (replay?.gap) {
+        initialMessages.push({
+          type: "workspace_runtime_gap",
+          workspaceId,
+          requestedSince: since,
+          oldestSequence: replay.oldestSequence,
+          latestSequence: replay.latestSequence
+        });
+      }
+
+      for (const event of replay?.events ?? []) {
+        initialMessages.push({
+          type: "workspace_runtime_event",
+          event,
+          replayed: true
+        });
+      }
+
+      await Promise.all(initialMessages.map((message) => send(message)));
     }
   );
 };
@@ -0,0 +1,158 @@
+export interface IgnoreRule {
+  // Directory (relative to the workspace root, "" for the root) whose .gitignore declared the rule.
+  baseDirectory: string;
+  pattern: RegExp;
+  negated: boolean;
+  directoryOnly: boolean;
+}
+
+function escapeRegExpCharacter(character: string): string {
+  return /[\\^$.*+?()[\]{}|/]/.test(character) ? `\\${character}` : character;
+}
+
+function translateCharacterClass(pattern: string, start: number): { source: string; end: number } | null {
+  let index = start + 1;
+  let negated = false;
+  if (pattern[index] === "!" || pattern[index] === "^") {
+    negated = true;
+    index += 1;
+  }
+
+  let body = "";
+  // A `]` right after the opening bracket is a literal member of the class.
+  if (pattern[index] === "]") {
+    body += "\\]";
+    index += 1;
+  }
+
+  while (index < pattern.length && pattern[index] !== "]") {
+    const character = pattern[index] ?? "";
+    body += character === "\\" || character === "^" ? `\\${character}` : character;
+    index += 1;
+  }
+
+  if (index >= pattern.length) {
+    return null;
+  }
+
+  return { source: `[${negated ? "^" : ""}${body}]`, end: index + 1 };
+}
+
+/**
+ * Translates a gitignore-style glob into a regular expression over slash-separated relative paths.
+ * `*` and `?` stay within one path segment, `**` spans segments, and a pattern without a slash
+ * matches at any depth.
+ */
+export function compileGlob(glob: string): RegExp {
+  let pattern = glob;
+  const anchored = pattern.startsWith("/") || pattern.slice(0, -1).includes("/");
+  pattern = pattern.replace(/^\/+/, "").replace(/\/+$/, "");
+
+  let source = "";
+  let index = 0;
+  while (index < pattern.length) {
+    const character = pattern[index] ?? "";
+
+    if (character === "*" && pattern[index + 1] === "*") {
+      const atSegmentStart = index === 0 || pattern[index - 1] === "/";
+      const next = pattern[index + 2];
+      if (atSegmentStart && next === "/") {
+        source += "(?:.*/)?";
+        index += 3;
+        continue;
+      }
+      if (atSegmentStart && next === undefined) {
+        source += ".*";
+        index += 2;
+        continue;
+      }
+    }
+
+    if (character === "*") {
+      source += "[^/]*";
+      index += 1;
+      continue;
+    }
+
+    if (character === "?") {
+      source += "[^/]";
+      index += 1;
+      continue;
+    }
+
+    if (character === "[") {
+      const characterClass = translateCharacterClass(pattern, index);
+      if (characterClass) {
+        source += characterClass.source;
+        index = characterClass.end;
+        continue;
+      }
+    }
+
+    if (character === "\\" && index + 1 < pattern.length) {
+      source += escapeRegExpCharacter(pattern[index + 1] ?? "");
+      index += 2;
+      continue;
+    }
+
+    source += escapeRegExpCharacter(character);
+    index += 1;
+  }
+
+  // A match on a directory also covers everything below it.
+  return new RegExp(`^${anchored ? "" : "(?:.*/)?"}${source}(?:/.*)?$`);
+}
+
+export function parseIgnoreFile(content: string, baseDirectory: string): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+  for (const rawLine of content.split(/\r?\n/)) {
+    // Trailing spaces are ignored unless escaped.
+    let line = rawLine.replace(/(?<!\\)\s+$/, "");
+    if (line.length === 0 || line.startsWith("#")) {
+      continue;
+    }
+
+    const negated = line.startsWith("!");
+    if (negated) {
+      line = line.slice(1);
+    }
+    const directoryOnly = line.endsWith("/");
+    if (line.replace(/\/+$/, "").replace(/^\/+/, "").length === 0) {
+      continue;
+    }
+
+    rules.push({
+      baseDirectory,
+      pattern: compileGlob(line),
+      negated,
+      directoryOnly
+    });
+  }
+
+  return rules;
+}
+
+/**
+ * Applies gitignore semantics: rules are checked in order (outer .gitignore files first) and the
+ * last matching rule decides. Callers skip ignored directories, so nothing below them is re-included.
+ */
+export function isIgnoredByRules(rules: readonly IgnoreRule[], relativePath: string, isDirectory: boolean): boolean {
+  let ignored = false;
+  for (const rule of rules) {
+    if (rule.directoryOnly && !isDirectory) {
+      continue;
+    }
+
+    const base = rule.baseDirectory;
+    if (base.length > 0 && !relativePath.startsWith(`${base}/`)) {
+      continue;
+    }
+
+    const candidate = base.length > 0 ? relativePath.slice(base.length + 1) : relativePath;
+    if (rule.pattern.test(candidate)) {
+      ignored = !rule.negated;
+    }
+  }
+
+  return ignored;
+}
@@ -0,0 +1,288 @@
+import type { FastifyPluginAsync } from "fastify";
+
+import type { SessionRecord } from "../auth/session-store.js";
+import { FileSearchQueryError, type WorkspaceSearchOptions } from "./search.js";
+import {
+  FileConflictError,
+  FileContentTooLargeError,
+  FileInvalidPathError,
+  FileNotFoundError,
+  FileWorkspaceNotFoundError,
+  type FileService,
+  type WriteWorkspaceFileInput
+} from "./service.js";
+
+interface FileRouteParams {
+  workspaceId?: unknown;
+}
+
+interface FilePathQueryString {
+  path?: unknown;
+}
+
+interface FileSearchQueryString {
+  query?: unknown;
+  mode?: unknown;
+  regex?: unknown;
+  caseSensitive?: unknown;
+  include?: unknown;
+  exclude?: unknown;
+  maxResults?: unknown;
+}
+
+interface FileWriteRequestBody {
+  path?: unknown;
+  content?: unknown;
+  expectedHash?: unknown;
+  expectedModifiedAt?: unknown;
+}
+
+interface AuthenticatedRequestLike {
+  authSession?: SessionRecord;
+}
+
+export interface FilePluginOptions {
+  fileService: FileService;
+}
+
+export class FileRequestValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "FileRequestValidationError";
+  }
+}
+
+function requireWorkspaceId(params: unknown): string {
+  const workspaceId = (params as FileRouteParams).workspaceId;
+  if (typeof workspaceId !== "string" || workspaceId.length === 0) {
+    throw new FileRequestValidationError("workspaceId path parameter is required");
+  }
+
+  return workspaceId;
+}
+
+function parsePathQuery(query: unknown, required: boolean): string {
+  const value = ((query ?? {}) as FilePathQueryString).path;
+  if (value === undefined && !required) {
+    return "";
+  }
+
+  if (typeof value !== "string" || (required && value.trim().length === 0)) {
+    throw new FileRequestValidationError("path query parameter must be a non-empty string");
+  }
+
+  return value;
+}
+
+function parseOptionalBoolean(value: unknown, field: string): boolean | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  if (value !== "true" && value !== "false") {
+    throw new FileRequestValidationError(`${field} must be 'true' or 'false' when provided`);
+  }
+
+  return value === "true";
+}
+
+function parseGlobList(value: unknown, field: string): string[] | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  // Accept both repeated parameters and a comma-separated list.
+  const values = Array.isArray(value) ? value : [value];
+  if (!values.every((entry): entry is string => typeof entry === "string")) {
+    throw new FileRequestValidationError(`${field} must be a glob or a comma-separated list of globs`);
+  }
+
+  return values.flatMap((entry) => entry.split(",")).filter((entry) => entry.trim().length > 0);
+}
+
+function parseSearchQuery(queryString: unknown): WorkspaceSearchOptions {
+  const fields = (queryString ?? {}) as FileSearchQueryString;
+  const { mode, regex, caseSensitive, include, exclude, maxResults } = fields;
+  const searchQuery = fields.query;
+  if (typeof searchQuery !== "string" || searchQuery.length === 0) {
+    throw new FileRequestValidationError("query parameter must be a non-empty string");
+  }
+
+  if (mode !== undefined && mode !== "content" && mode !== "path") {
+    throw new FileRequestValidationError("mode must be 'content' or 'path' when provided");
+  }
+
+  let maxResultsValue: number | undefined;
+  if (maxResults !== undefined) {
+    maxResultsValue = typeof maxResults === "string" && /^\d+$/.test(maxResults) ? Number(maxResults) : Number.NaN;
+    if (!Number.isSafeInteger(maxResultsValue) || maxResultsValue === 0) {
+      throw new FileRequestValidationError("maxResults must be a positive integer when provided");
+    }
+  }
+
+  const regexValue = parseOptionalBoolean(regex, "regex");
+  const caseSensitiveValue = parseOptionalBoolean(caseSensitive, "caseSensitive");
+  const includeValue = parseGlobList(include, "include");
+  const excludeValue = parseGlobList(exclude, "exclude");
+  return {
+    query: searchQuery,
+    ...(mode === undefined ? {} : { mode }),
+    ...(regexValue === undefined ? {} : { regex: regexValue }),
+    ...(caseSensitiveValue === undefined ? {} : { caseSensitive: caseSensitiveValue }),
+    ...(includeValue === undefined ? {} : { include: includeValue }),
+    ...(excludeValue === undefined ? {} : { exclude: excludeValue }),
+    ...(maxResultsValue === undefined ? {} : { maxResults: maxResultsValue })
+  };
+}
+
+function parseWriteBody(body: unknown): WriteWorkspaceFileInput & { path: string } {
+  const { path, content, expectedHash, expectedModifiedAt } = (body ?? {}) as FileWriteRequestBody;
+  if (typeof path !== "string" || path.trim().length === 0) {
+    throw new FileRequestValidationError("path must be a non-empty string");
+  }
+
+  if (typeof content !== "string") {
+    throw new FileRequestValidationError("content must be a string");
+  }
+
+  if (expectedHash !== undefined && (typeof expectedHash !== "string" || !/^[0-9a-f]{64}$/.test(expectedHash))) {
+    throw new FileRequestValidationError("expectedHash must be a sha256 hex digest when provided");
+  }
+
+  if (
+    expectedModifiedAt !== undefined &&
+    (typeof expectedModifiedAt !== "string" || Number.isNaN(Date.parse(expectedModifiedAt)))
+  ) {
+    throw new FileRequestValidationError("expectedModifiedAt must be an ISO timestamp when provided");
+  }
+
+  return {
+    path,
+    content,
+    ...(expectedHash === undefined ? {} : { expectedHash }),
+    ...(expectedModifiedAt === undefined ? {} : { expectedModifiedAt })
+  };
+}
+
+export const filePlugin: FastifyPluginAsync<FilePluginOptions> = async (app, options) => {
+  const { fileService } = options;
+
+  app.get("/api/workspaces/:workspaceId/files", async (request, reply) => {
+    try {
+      const authenticatedRequest = request as AuthenticatedRequestLike;
+      if (!authenticatedRequest.authSession) {
+        return reply.code(401).send({
+          error: "unauthorized",
+          message: "Authentication is required for workspace files"
+        });
+      }
+
+      const workspaceId = requireWorkspaceId(request.params);
+      const directory = await fileService.listDirectory(workspaceId, parsePathQuery(request.query, false));
+      return reply.code(200).send({
+        directory
+      });
+    } catch (error: unknown) {
+      return handleFileError(request, reply, error);
+    }
+  });
+
+  app.get("/api/workspaces/:workspaceId/files/content", async (request, reply) => {
+    try {
+      const authenticatedRequest = request as AuthenticatedRequestLike;
+      if (!authenticatedRequest.authSession) {
+        return reply.code(401).send({
+          error: "unauthorized",
+          message: "Authentication is required for workspace files"
+        });
+      }
+
+      const workspaceId = requireWorkspaceId(request.params);
+      const file = await fileService.readFile(workspaceId, parsePathQuery(request.query, true));
+      return reply.code(200).send({
+        file
+      });
+    } catch (error: unknown) {
+      return handleFileError(request, reply, error);
+    }
+  });
+
+  app.put("/api/workspaces/:workspaceId/files/content", async (request, reply) => {
+    try {
+      const workspaceId = requireWorkspaceId(request.params);
+      const { path, ...input } = parseWriteBody(request.body);
+      const file = await fileService.writeFile(workspaceId, path, input);
+      return reply.code(200).send({
+        file
+      });
+    } catch (error: unknown) {
+      return handleFileError(request, reply, error);
+    }
+  });
+
+  app.get("/api/workspaces/:workspaceId/files/search", async (request, reply) => {
+    try {
+      const authenticatedRequest = request as AuthenticatedRequestLike;
+      if (!authenticatedRequest.authSession) {
+        return reply.code(401).send({
+          error: "unauthorized",
+          message: "Authentication is required for workspace files"
+        });
+      }
+
+      const workspaceId = requireWorkspaceId(request.params);
+      const search = await fileService.search(workspaceId, parseSearchQuery(request.query));
+      return reply.code(200).send({
+        search
+      });
+    } catch (error: unknown) {
+      return handleFileError(request, reply, error);
+    }
+  });
+};
+
+function handleFileError(
+  request: {
+    log: {
+      error(payload: unknown, message: string): void;
+    };
+  },
+  reply: {
+    code(statusCode: number): {
+      send(payload: unknown): unknown;
+    };
+  },
+  error: unknown
+): unknown {
+  if (
+    error instanceof FileRequestValidationError ||
+    error instanceof FileInvalidPathError ||
+    error instanceof FileSearchQueryError ||
+    error instanceof FileContentTooLargeError
+  ) {
+    return reply.code(400).send({
+      error: "bad_request",
+      message: error.message
+    });
+  }
+
+  if (error instanceof FileWorkspaceNotFoundError || error instanceof FileNotFoundError) {
+    return reply.code(404).send({
+      error: "not_found",
+      message: error.message
+    });
+  }
+
+  if (error instanceof FileConflictError) {
+    return reply.code(409).send({
+      error: "file_conflict",
+      message: error.message
+    });
+  }
+
+  request.log.error({ err: error }, "file route failed");
+  return reply.code(500).send({
+    error: "internal_error",
+    message: "File request failed"
+  });
+}
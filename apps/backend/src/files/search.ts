@@ -0,0 +1,229 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+
+import { isBinaryContent } from "../git/workspace-diff.js";
+import { compileGlob, isIgnoredByRules, parseIgnoreFile, type IgnoreRule } from "./glob.js";
+
+const DEFAULT_MAX_RESULTS = 200;
+const MAX_RESULTS = 1_000;
+const MAX_SEARCH_FILE_BYTES = 1024 * 1024;
+const MAX_SCANNED_FILES = 20_000;
+const MAX_PREVIEW_LENGTH = 200;
+
+export type WorkspaceSearchMode = "content" | "path";
+
+export interface WorkspaceSearchOptions {
+  query: string;
+  mode?: WorkspaceSearchMode;
+  regex?: boolean;
+  caseSensitive?: boolean;
+  include?: string[];
+  exclude?: string[];
+  maxResults?: number;
+}
+
+export interface WorkspaceSearchMatch {
+  path: string;
+  line: number | null;
+  column: number | null;
+  preview: string | null;
+}
+
+export interface WorkspaceSearchResult {
+  query: string;
+  mode: WorkspaceSearchMode;
+  matches: WorkspaceSearchMatch[];
+  filesScanned: number;
+  truncated: boolean;
+}
+
+export class FileSearchQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "FileSearchQueryError";
+  }
+}
+
+interface PendingDirectory {
+  absolutePath: string;
+  relativePath: string;
+  rules: IgnoreRule[];
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function compileQuery(options: WorkspaceSearchOptions): RegExp {
+  const flags = options.caseSensitive === true ? "" : "i";
+  if (options.regex !== true) {
+    return new RegExp(escapeRegExp(options.query), flags);
+  }
+
+  try {
+    return new RegExp(options.query, flags);
+  } catch (error: unknown) {
+    throw new FileSearchQueryError(`query is not a valid regular expression: ${(error as Error).message}`);
+  }
+}
+
+function compileGlobs(globs: string[] | undefined): RegExp[] {
+  return (globs ?? [])
+    .map((glob) => glob.trim())
+    .filter((glob) => glob.length > 0)
+    .map((glob) => compileGlob(glob));
+}
+
+function clampMaxResults(maxResults: number | undefined): number {
+  if (maxResults === undefined || !Number.isFinite(maxResults)) {
+    return DEFAULT_MAX_RESULTS;
+  }
+
+  return Math.min(Math.max(Math.trunc(maxResults), 1), MAX_RESULTS);
+}
+
+function buildPreview(line: string, column: number): string {
+  const text = line.replace(/\r$/, "");
+  if (text.length <= MAX_PREVIEW_LENGTH) {
+    return text;
+  }
+
+  // Keep the match visible on very long (often minified) lines.
+  const start = Math.max(0, Math.min(column - 1 - MAX_PREVIEW_LENGTH / 4, text.length - MAX_PREVIEW_LENGTH));
+  return text.slice(start, start + MAX_PREVIEW_LENGTH);
+}
+
+async function readIgnoreRules(filePath: string, baseDirectory: string): Promise<IgnoreRule[]> {
+  const content = await fs.readFile(filePath, "utf8").catch(() => null);
+  return content === null ? [] : parseIgnoreFile(content, baseDirectory);
+}
+
+function searchContent(relativePath: string, content: string, query: RegExp, limit: number): WorkspaceSearchMatch[] {
+  const matches: WorkspaceSearchMatch[] = [];
+  const lines = content.split("\n");
+  for (let index = 0; index < lines.length && matches.length < limit; index += 1) {
+    const line = lines[index] ?? "";
+    const match = query.exec(line);
+    if (!match) {
+      continue;
+    }
+
+    const column = match.index + 1;
+    matches.push({
+      path: relativePath,
+      line: index + 1,
+      column,
+      preview: buildPreview(line, column)
+    });
+  }
+
+  return matches;
+}
+
+/**
+ * Searches file names or contents under `root` without shelling out. `.gitignore` files (and
+ * `.git/info/exclude`) are honoured the way git applies them, `.git` is never entered, and symlinks
+ * are skipped so the search cannot leave the workspace.
+ */
+export async function searchWorkspaceFiles(
+  root: string,
+  options: WorkspaceSearchOptions
+): Promise<WorkspaceSearchResult> {
+  if (options.query.length === 0) {
+    throw new FileSearchQueryError("query must not be empty");
+  }
+
+  const mode = options.mode ?? "content";
+  const query = compileQuery(options);
+  const includes = compileGlobs(options.include);
+  const excludes = compileGlobs(options.exclude);
+  const maxResults = clampMaxResults(options.maxResults);
+
+  const matches: WorkspaceSearchMatch[] = [];
+  let filesScanned = 0;
+  let truncated = false;
+
+  const rootRules = await readIgnoreRules(path.join(root, ".git", "info", "exclude"), "");
+  const pending: PendingDirectory[] = [{ absolutePath: root, relativePath: "", rules: rootRules }];
+
+  let directory = pending.pop();
+  while (directory && !truncated) {
+    const localRules = await readIgnoreRules(path.join(directory.absolutePath, ".gitignore"), directory.relativePath);
+    const rules = localRules.length > 0 ? [...directory.rules, ...localRules] : directory.rules;
+
+    const dirents = await fs.readdir(directory.absolutePath, { withFileTypes: true }).catch(() => []);
+    dirents.sort((left, right) => left.name.localeCompare(right.name));
+
+    const subdirectories: PendingDirectory[] = [];
+    for (const dirent of dirents) {
+      const relativePath = directory.relativePath ? `${directory.relativePath}/${dirent.name}` : dirent.name;
+      const isDirectory = dirent.isDirectory();
+      if (
+        dirent.isSymbolicLink() ||
+        dirent.name === ".git" ||
+        isIgnoredByRules(rules, relativePath, isDirectory) ||
+        excludes.some((exclude) => exclude.test(relativePath))
+      ) {
+        continue;
+      }
+
+      if (isDirectory) {
+        subdirectories.push({ absolutePath: path.join(directory.absolutePath, dirent.name), relativePath, rules });
+        continue;
+      }
+
+      if (!dirent.isFile() || (includes.length > 0 && !includes.some((include) => include.test(relativePath)))) {
+        continue;
+      }
+
+      if (filesScanned >= MAX_SCANNED_FILES) {
+        truncated = true;
+        break;
+      }
+      filesScanned += 1;
+
+      const remaining = maxResults - matches.length;
+      if (mode === "path") {
+        if (query.test(relativePath)) {
+          truncated = remaining === 0;
+          if (truncated) {
+            break;
+          }
+          matches.push({ path: relativePath, line: null, column: null, preview: null });
+        }
+        continue;
+      }
+
+      const absolutePath = path.join(directory.absolutePath, dirent.name);
+      const stats = await fs.stat(absolutePath).catch(() => null);
+      if (!stats || stats.size > MAX_SEARCH_FILE_BYTES) {
+        continue;
+      }
+
+      const buffer = await fs.readFile(absolutePath).catch(() => null);
+      if (!buffer || isBinaryContent(buffer)) {
+        continue;
+      }
+
+      // Look for one match past the cap so `truncated` only reports results that were actually dropped.
+      const fileMatches = searchContent(relativePath, buffer.toString("utf8"), query, remaining + 1);
+      matches.push(...fileMatches.slice(0, remaining));
+      if (fileMatches.length > remaining) {
+        truncated = true;
+        break;
+      }
+    }
+
+    // Visit subdirectories in name order: the stack pops the last pushed entry first.
+    pending.push(...subdirectories.reverse());
+    directory = pending.pop();
+  }
+
+  return {
+    query: options.query,
+    mode,
+    matches,
+    filesScanned,
+    truncated
+  };
+}
@@ -0,0 +1,399 @@
+import { createHash } from "node:crypto";
+import { createReadStream } from "node:fs";
+import fs from "node:fs/promises";
+import path from "node:path";
+
+import { runGitCommand } from "../git/service.js";
+import { isBinaryContent } from "../git/workspace-diff.js";
+import type { WorkspaceService } from "../workspaces/service.js";
+import { searchWorkspaceFiles, type WorkspaceSearchOptions, type WorkspaceSearchResult } from "./search.js";
+
+const DEFAULT_MAX_FILE_BYTES = 512 * 1024;
+const MAX_DIRECTORY_ENTRIES = 2_000;
+const MAX_WRITE_BYTES = DEFAULT_MAX_FILE_BYTES;
+
+// Git's own bookkeeping is never listed, including that of nested repositories and submodules.
+const GIT_DIRECTORY_NAME = ".git";
+
+export type WorkspaceFileEntryType = "file" | "directory" | "other";
+
+export interface WorkspaceFileEntry {
+  name: string;
+  path: string;
+  type: WorkspaceFileEntryType;
+  size: number | null;
+  symlink: boolean;
+  ignored: boolean;
+}
+
+export interface WorkspaceDirectoryListing {
+  path: string;
+  entries: WorkspaceFileEntry[];
+  truncated: boolean;
+}
+
+export interface WorkspaceFileContent {
+  path: string;
+  size: number;
+  binary: boolean;
+  truncated: boolean;
+  ignored: boolean;
+  content: string;
+  modifiedAt: string;
+  // sha256 of the whole file on disk, even when `content` is truncated.
+  hash: string;
+}
+
+export interface ReadWorkspaceFileOptions {
+  maxBytes?: number;
+}
+
+/**
+ * Without an expectation the write only creates a new file. With one, the file must still match
+ * what the client last read.
+ */
+export interface WriteWorkspaceFileInput {
+  content: string;
+  expectedHash?: string;
+  expectedModifiedAt?: string;
+}
+
+export class FileServiceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "FileServiceError";
+  }
+}
+
+export class FileWorkspaceNotFoundError extends FileServiceError {
+  constructor(workspaceId: string) {
+    super(`Workspace '${workspaceId}' was not found`);
+    this.name = "FileWorkspaceNotFoundError";
+  }
+}
+
+export class FileInvalidPathError extends FileServiceError {
+  constructor(relativePath: string, reason = "is not a valid workspace path") {
+    super(`Path '${relativePath}' ${reason}`);
+    this.name = "FileInvalidPathError";
+  }
+}
+
+export class FileNotFoundError extends FileServiceError {
+  constructor(relativePath: string) {
+    super(`Path '${relativePath}' was not found in the workspace`);
+    this.name = "FileNotFoundError";
+  }
+}
+
+export class FileConflictError extends FileServiceError {
+  constructor(relativePath: string, reason: string) {
+    super(`Path '${relativePath}' ${reason}`);
+    this.name = "FileConflictError";
+  }
+}
+
+export class FileContentTooLargeError extends FileServiceError {
+  constructor(maxBytes: number) {
+    super(`File content must not exceed ${maxBytes} bytes`);
+    this.name = "FileContentTooLargeError";
+  }
+}
+
+function isPathWithinRoot(candidatePath: string, rootPath: string): boolean {
+  return candidatePath === rootPath || candidatePath.startsWith(`${rootPath}${path.sep}`);
+}
+
+// Repository data (hooks, config, credential helpers) is neither browsed nor edited, at any depth:
+// a hook written into a nested repository runs as soon as someone commits there.
+function isInsideGitDirectory(candidatePath: string, rootPath: string): boolean {
+  return path.relative(rootPath, candidatePath).split(path.sep).includes(GIT_DIRECTORY_NAME);
+}
+
+function toPosixPath(relativePath: string): string {
+  return relativePath.split(path.sep).join("/");
+}
+
+function hashBuffer(buffer: Buffer): string {
+  return createHash("sha256").update(buffer).digest("hex");
+}
+
+async function hashFile(absolutePath: string): Promise<string> {
+  const hash = createHash("sha256");
+  for await (const chunk of createReadStream(absolutePath)) {
+    hash.update(chunk as Buffer);
+  }
+  return hash.digest("hex");
+}
+
+function resolveLexicalPath(root: string, inputPath: string): { lexicalPath: string; relativePath: string } {
+  const trimmed = inputPath.trim().replace(/^\.\/+/, "");
+  if (path.isAbsolute(trimmed) || trimmed.includes("\0")) {
+    throw new FileInvalidPathError(inputPath);
+  }
+
+  const lexicalPath = path.resolve(root, trimmed);
+  if (!isPathWithinRoot(lexicalPath, root)) {
+    throw new FileInvalidPathError(inputPath);
+  }
+
+  return { lexicalPath, relativePath: path.relative(root, lexicalPath) };
+}
+
+function compareEntries(left: WorkspaceFileEntry, right: WorkspaceFileEntry): number {
+  if ((left.type === "directory") !== (right.type === "directory")) {
+    return left.type === "directory" ? -1 : 1;
+  }
+
+  return left.name.localeCompare(right.name);
+}
+
+/**
+ * Read-only access to files inside a workspace. Every path is resolved through symlinks and must stay
+ * under the workspace's canonical root, the same containment rule `validateWorkspacePath` applies to roots.
+ */
+export class FileService {
+  constructor(private readonly workspaceService: WorkspaceService) {}
+
+  async listDirectory(workspaceId: string, relativePath = ""): Promise<WorkspaceDirectoryListing> {
+    const root = await this.resolveWorkspaceRoot(workspaceId);
+    const target = await this.resolveContainedPath(root, relativePath);
+    const stats = await fs.stat(target.absolutePath);
+    if (!stats.isDirectory()) {
+      throw new FileInvalidPathError(target.relativePath, "is not a directory");
+    }
+
+    const dirents = await fs.readdir(target.absolutePath, { withFileTypes: true });
+    const visible = dirents
+      .filter((dirent) => dirent.name !== GIT_DIRECTORY_NAME)
+      .sort((left, right) => left.name.localeCompare(right.name));
+    const truncated = visible.length > MAX_DIRECTORY_ENTRIES;
+
+    const entries: WorkspaceFileEntry[] = [];
+    for (const dirent of visible.slice(0, MAX_DIRECTORY_ENTRIES)) {
+      const entryRelativePath = toPosixPath(path.join(target.relativePath, dirent.name));
+      entries.push(await this.describeEntry(root, path.join(target.absolutePath, dirent.name), entryRelativePath));
+    }
+
+    const ignoredPaths = await this.findIgnoredPaths(
+      root,
+      entries.map((entry) => (entry.type === "directory" ? `${entry.path}/` : entry.path))
+    );
+    for (const entry of entries) {
+      entry.ignored = ignoredPaths.has(entry.type === "directory" ? `${entry.path}/` : entry.path);
+    }
+
+    return {
+      path: toPosixPath(target.relativePath),
+      entries: entries.sort(compareEntries),
+      truncated
+    };
+  }
+
+  async readFile(
+    workspaceId: string,
+    relativePath: string,
+    options: ReadWorkspaceFileOptions = {}
+  ): Promise<WorkspaceFileContent> {
+    const root = await this.resolveWorkspaceRoot(workspaceId);
+    const target = await this.resolveContainedPath(root, relativePath);
+    if (target.relativePath === "") {
+      throw new FileInvalidPathError(relativePath, "is not a file");
+    }
+
+    const stats = await fs.stat(target.absolutePath);
+    if (!stats.isFile()) {
+      throw new FileInvalidPathError(target.relativePath, "is not a file");
+    }
+
+    const maxBytes = options.maxBytes ?? DEFAULT_MAX_FILE_BYTES;
+    const handle = await fs.open(target.absolutePath, "r");
+    let buffer: Buffer;
+    try {
+      buffer = Buffer.alloc(Math.min(stats.size, maxBytes));
+      const { bytesRead } = await handle.read(buffer, 0, buffer.length, 0);
+      buffer = buffer.subarray(0, bytesRead);
+    } finally {
+      await handle.close();
+    }
+
+    const binary = isBinaryContent(buffer);
+    const truncated = stats.size > buffer.length;
+    let content = binary ? "" : buffer.toString("utf8");
+    if (truncated && !binary) {
+      // Drop the partial last line (and any split multi-byte character with it).
+      const lastNewline = content.lastIndexOf("\n");
+      content = lastNewline === -1 ? "" : content.slice(0, lastNewline + 1);
+    }
+
+    const posixPath = toPosixPath(target.relativePath);
+    const ignoredPaths = await this.findIgnoredPaths(root, [posixPath]);
+    return {
+      path: posixPath,
+      size: stats.size,
+      binary,
+      truncated,
+      ignored: ignoredPaths.has(posixPath),
+      content,
+      modifiedAt: stats.mtime.toISOString(),
+      hash: truncated ? await hashFile(target.absolutePath) : hashBuffer(buffer)
+    };
+  }
+
+  async writeFile(
+    workspaceId: string,
+    relativePath: string,
+    input: WriteWorkspaceFileInput
+  ): Promise<WorkspaceFileContent> {
+    const root = await this.resolveWorkspaceRoot(workspaceId);
+    if (Buffer.byteLength(input.content, "utf8") > MAX_WRITE_BYTES) {
+      throw new FileContentTooLargeError(MAX_WRITE_BYTES);
+    }
+
+    const target = await this.resolveWritablePath(root, relativePath);
+    const posixPath = toPosixPath(target.relativePath);
+    const stats = await fs.stat(target.absolutePath).catch((error: NodeJS.ErrnoException) => {
+      if (error.code === "ENOENT") {
+        return null;
+      }
+      throw error;
+    });
+    if (stats && !stats.isFile()) {
+      throw new FileInvalidPathError(posixPath, "is not a file");
+    }
+
+    const hasExpectation = input.expectedHash !== undefined || input.expectedModifiedAt !== undefined;
+    if (!stats && hasExpectation) {
+      throw new FileConflictError(posixPath, "was deleted after it was read");
+    }
+    if (stats && !hasExpectation) {
+      throw new FileConflictError(posixPath, "already exists");
+    }
+    if (stats && input.expectedModifiedAt !== undefined && stats.mtime.toISOString() !== input.expectedModifiedAt) {
+      throw new FileConflictError(posixPath, "was modified after it was read");
+    }
+    if (stats && input.expectedHash !== undefined && (await hashFile(target.absolutePath)) !== input.expectedHash) {
+      throw new FileConflictError(posixPath, "was modified after it was read");
+    }
+
+    // Written in place so the file keeps its mode, owner and hard links.
+    await fs.writeFile(target.absolutePath, input.content, "utf8");
+    return await this.readFile(workspaceId, posixPath);
+  }
+
+  async search(workspaceId: string, options: WorkspaceSearchOptions): Promise<WorkspaceSearchResult> {
+    const root = await this.resolveWorkspaceRoot(workspaceId);
+    return await searchWorkspaceFiles(root, options);
+  }
+
+  private async describeEntry(root: string, absolutePath: string, relativePath: string): Promise<WorkspaceFileEntry> {
+    const name = path.posix.basename(relativePath);
+    const linkStats = await fs.lstat(absolutePath);
+    if (!linkStats.isSymbolicLink()) {
+      return {
+        name,
+        path: relativePath,
+        type: linkStats.isDirectory() ? "directory" : linkStats.isFile() ? "file" : "other",
+        size: linkStats.isFile() ? linkStats.size : null,
+        symlink: false,
+        ignored: false
+      };
+    }
+
+    // Links that leave the workspace, point into .git or dangle are listed but cannot be opened.
+    const resolved = await fs.realpath(absolutePath).catch(() => null);
+    const stats =
+      resolved !== null && isPathWithinRoot(resolved, root) && !isInsideGitDirectory(resolved, root)
+        ? await fs.stat(resolved)
+        : null;
+    return {
+      name,
+      path: relativePath,
+      type: stats?.isDirectory() ? "directory" : stats?.isFile() ? "file" : "other",
+      size: stats?.isFile() ? stats.size : null,
+      symlink: true,
+      ignored: false
+    };
+  }
+
+  private async findIgnoredPaths(root: string, relativePaths: string[]): Promise<Set<string>> {
+    if (relativePaths.length === 0) {
+      return new Set();
+    }
+
+    // Outside a repository (or without git) nothing counts as ignored.
+    const result = await runGitCommand(root, ["check-ignore", "-z", "--stdin"], {
+      input: `${relativePaths.join("\0")}\0`
+    }).catch(() => null);
+    if (result === null || (result.exitCode !== 0 && result.exitCode !== 1)) {
+      return new Set();
+    }
+
+    return new Set(result.stdout.split("\0").filter((entry) => entry.length > 0));
+  }
+
+  private async resolveWorkspaceRoot(workspaceId: string): Promise<string> {
+    const workspace = this.workspaceService.getWorkspaceById(workspaceId);
+    if (!workspace) {
+      throw new FileWorkspaceNotFoundError(workspaceId);
+    }
+
+    return await fs.realpath(workspace.absolutePath).catch(() => {
+      throw new FileNotFoundError(".");
+    });
+  }
+
+  private async resolveContainedPath(
+    root: string,
+    inputPath: string
+  ): Promise<{ absolutePath: string; relativePath: string }> {
+    const { lexicalPath, relativePath } = resolveLexicalPath(root, inputPath);
+    const absolutePath = await fs.realpath(lexicalPath).catch((error: NodeJS.ErrnoException) => {
+      if (error.code === "ENOENT" || error.code === "ENOTDIR") {
+        throw new FileNotFoundError(inputPath);
+      }
+      throw error;
+    });
+    if (!isPathWithinRoot(absolutePath, root)) {
+      throw new FileInvalidPathError(inputPath, "resolves outside the workspace via a symlink");
+    }
+    if (isInsideGitDirectory(absolutePath, root)) {
+      throw new FileInvalidPathError(inputPath, "is inside the .git directory");
+    }
+
+    return { absolutePath, relativePath };
+  }
+
+  /** Like `resolveContainedPath`, but the file itself may not exist yet; its directory must. */
+  private async resolveWritablePath(
+    root: string,
+    inputPath: string
+  ): Promise<{ absolutePath: string; relativePath: string }> {
+    const { lexicalPath, relativePath } = resolveLexicalPath(root, inputPath);
+    if (relativePath === "") {
+      throw new FileInvalidPathError(inputPath, "is not a file");
+    }
+
+    const directory = await fs.realpath(path.dirname(lexicalPath)).catch((error: NodeJS.ErrnoException) => {
+      if (error.code === "ENOENT" || error.code === "ENOTDIR") {
+        throw new FileNotFoundError(toPosixPath(path.dirname(relativePath)));
+      }
+      throw error;
+    });
+
+    let absolutePath = path.join(directory, path.basename(lexicalPath));
+    const linkStats = await fs.lstat(absolutePath).catch(() => null);
+    if (linkStats?.isSymbolicLink()) {
+      absolutePath = (await fs.realpath(absolutePath).catch(() => null)) ?? "";
+    }
+
+    if (!isPathWithinRoot(absolutePath, root)) {
+      throw new FileInvalidPathError(inputPath, "resolves outside the workspace via a symlink");
+    }
+    if (isInsideGitDirectory(absolutePath, root)) {
+      throw new FileInvalidPathError(inputPath, "is inside the .git directory");
+    }
+
+    return { absolutePath, relativePath };
+  }
+}
@@ -0,0 +1,565 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+
+import type { WorkspaceService } from "../workspaces/service.js";
+import {
+  GitCommandError,
+  GitInvalidRefError,
+  GitRepositoryUnavailableError,
+  GitServiceError,
+  GitWorkspaceNotFoundError,
+  runGitCommand,
+  type GitCommandOptions,
+  type GitService,
+  type GitStatusSummary,
+  type GitWorkspaceDiffFile
+} from "./service.js";
+import type { GitWorktreeService } from "./worktrees.js";
+import { applyDiffSizeCaps, describeDiffChunk, parseNumstat, splitDiffByFile } from "./workspace-diff.js";
+
+const CHECKPOINT_REF_PREFIX = "refs/poketcodex/checkpoints";
+const CHECKPOINT_ID_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_-]{0,127}$/;
+const DEFAULT_MAX_FILE_DIFF_BYTES = 256 * 1024;
+const DEFAULT_MAX_TOTAL_DIFF_BYTES = 2 * 1024 * 1024;
+const DEFAULT_MAX_CHECKPOINTS_PER_THREAD = 50;
+
+// Checkpoint commits never land on a branch, so they should not depend on the user's git identity.
+const CHECKPOINT_IDENTITY: NodeJS.ProcessEnv = {
+  GIT_AUTHOR_NAME: "poketcodex",
+  GIT_AUTHOR_EMAIL: "checkpoints@poketcodex.invalid",
+  GIT_COMMITTER_NAME: "poketcodex",
+  GIT_COMMITTER_EMAIL: "checkpoints@poketcodex.invalid"
+};
+
+export interface GitCheckpoint {
+  threadId: string;
+  turnId: string;
+  sha: string;
+  headSha: string | null;
+  branch: string | null;
+  createdAt: string;
+}
+
+export interface GitCheckpointPreview {
+  checkpoint: GitCheckpoint;
+  files: GitWorkspaceDiffFile[];
+  additions: number;
+  deletions: number;
+  truncated: boolean;
+  /** Why a revert would be refused right now, or null when it can go ahead. */
+  blockedReason: string | null;
+}
+
+export interface GitCheckpointRevertResult {
+  checkpoint: GitCheckpoint;
+  status: GitStatusSummary;
+}
+
+export interface GitCheckpointServiceOptions {
+  /** Older checkpoints of a thread are dropped once it has more than this many; `0` keeps them all. */
+  maxCheckpointsPerThread?: number;
+}
+
+export interface GitCheckpointPreviewOptions {
+  maxFileBytes?: number;
+  maxTotalBytes?: number;
+}
+
+interface CheckpointMetadata {
+  headSha: string | null;
+  branch: string | null;
+  indexTree: string | null;
+  createdAt: string;
+}
+
+interface CheckpointRecord extends GitCheckpoint {
+  indexTree: string | null;
+}
+
+interface HeadRestorePlan {
+  resetTo: string | null;
+  blockedReason: string | null;
+}
+
+export class GitCheckpointNotFoundError extends GitServiceError {
+  constructor(threadId: string, turnId: string) {
+    super(`No checkpoint recorded for turn ${turnId} of thread ${threadId}`);
+    this.name = "GitCheckpointNotFoundError";
+  }
+}
+
+export class GitCheckpointConflictError extends GitServiceError {
+  constructor(message: string) {
+    super(message);
+    this.name = "GitCheckpointConflictError";
+  }
+}
+
+function assertCheckpointId(value: string): void {
+  if (!CHECKPOINT_ID_PATTERN.test(value)) {
+    throw new GitInvalidRefError(value);
+  }
+}
+
+function checkpointRef(threadId: string, turnId: string): string {
+  assertCheckpointId(threadId);
+  assertCheckpointId(turnId);
+  return `${CHECKPOINT_REF_PREFIX}/${threadId}/${turnId}`;
+}
+
+function asNullableString(value: unknown): string | null {
+  return typeof value === "string" && value.length > 0 ? value : null;
+}
+
+function parseCheckpointMetadata(body: string): CheckpointMetadata | null {
+  try {
+    const parsed = JSON.parse(body) as Record<string, unknown>;
+    if (typeof parsed.createdAt !== "string") {
+      return null;
+    }
+
+    return {
+      headSha: asNullableString(parsed.headSha),
+      branch: asNullableString(parsed.branch),
+      indexTree: asNullableString(parsed.indexTree),
+      createdAt: parsed.createdAt
+    };
+  } catch {
+    return null;
+  }
+}
+
+/** Parses `for-each-ref` records of `refname\0objectname\0body`, separated by \x1e. */
+function parseCheckpointRefs(output: string): CheckpointRecord[] {
+  const records: CheckpointRecord[] = [];
+  for (const record of output.split("\x1e")) {
+    const [refName = "", sha = "", body = ""] = record.replace(/^\n/, "").split("\0");
+    const [threadId, turnId] = refName.slice(CHECKPOINT_REF_PREFIX.length + 1).split("/");
+    const metadata = parseCheckpointMetadata(body.trim());
+    if (!threadId || !turnId || sha.length === 0 || !metadata) {
+      continue;
+    }
+
+    records.push({ threadId, turnId, sha, ...metadata });
+  }
+
+  return records;
+}
+
+async function readCheckpointRefs(repositoryPath: string, pattern: string): Promise<CheckpointRecord[]> {
+  const output = await runGitCommand(repositoryPath, [
+    "for-each-ref",
+    "--sort=creatordate",
+    "--format=%(refname)%00%(objectname)%00%(contents:body)%1e",
+    pattern
+  ]);
+  if (output.exitCode !== 0) {
+    throw new GitCommandError(`git for-each-ref ${pattern}`, output.exitCode, output.stderr);
+  }
+
+  return parseCheckpointRefs(output.stdout);
+}
+
+/** Reads the checkpoint refs of one thread, oldest first. */
+async function readThreadCheckpointRefs(repositoryPath: string, threadId: string): Promise<CheckpointRecord[]> {
+  const records = await readCheckpointRefs(repositoryPath, `${CHECKPOINT_REF_PREFIX}/${threadId}`);
+  // Commit dates only have second precision, so several turns within a second need the metadata timestamp.
+  return records.sort((left, right) => left.createdAt.localeCompare(right.createdAt));
+}
+
+async function deleteRefs(repositoryPath: string, refNames: string[]): Promise<void> {
+  if (refNames.length === 0) {
+    return;
+  }
+
+  const input = refNames.map((refName) => `delete ${refName}\n`).join("");
+  const result = await runGitCommand(repositoryPath, ["update-ref", "--stdin"], { input });
+  if (result.exitCode !== 0) {
+    throw new GitCommandError("git update-ref --stdin", result.exitCode, result.stderr);
+  }
+}
+
+/**
+ * Deletes every checkpoint ref of a thread and returns how many were removed. Refs are shared by all worktrees
+ * of a repository, so any of its checkouts will do.
+ */
+export async function deleteThreadCheckpoints(repositoryPath: string, threadId: string): Promise<number> {
+  // Thread ids that could never name a checkpoint have nothing to delete.
+  if (!CHECKPOINT_ID_PATTERN.test(threadId)) {
+    return 0;
+  }
+
+  const pattern = `${CHECKPOINT_REF_PREFIX}/${threadId}`;
+  const output = await runGitCommand(repositoryPath, ["for-each-ref", "--format=%(refname)", pattern]);
+  if (output.exitCode !== 0) {
+    throw new GitCommandError(`git for-each-ref ${pattern}`, output.exitCode, output.stderr);
+  }
+
+  const refNames = output.stdout.split("\n").filter((refName) => refName.length > 0);
+  await deleteRefs(repositoryPath, refNames);
+  return refNames.length;
+}
+
+function toCheckpoint(record: CheckpointRecord): GitCheckpoint {
+  return {
+    threadId: record.threadId,
+    turnId: record.turnId,
+    sha: record.sha,
+    headSha: record.headSha,
+    branch: record.branch,
+    createdAt: record.createdAt
+  };
+}
+
+function parseNameStatus(output: string): Array<{ status: string; path: string }> {
+  const tokens = output.split("\0");
+  const changes: Array<{ status: string; path: string }> = [];
+  for (let index = 0; index + 1 < tokens.length; index += 2) {
+    const status = tokens[index] ?? "";
+    const filePath = tokens[index + 1] ?? "";
+    if (status.length > 0 && filePath.length > 0) {
+      changes.push({ status, path: filePath });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Snapshots the workspace before each turn as a commit under `refs/poketcodex/checkpoints/<thread>/<turn>`
+ * and restores those snapshots on request. The snapshot is built in a throwaway index, so the user's
+ * staging area, branch and stash are left alone.
+ */
+export class GitCheckpointService {
+  private readonly maxCheckpointsPerThread: number;
+
+  constructor(
+    private readonly workspaceService: WorkspaceService,
+    private readonly gitService: GitService,
+    private readonly worktreeService?: GitWorktreeService,
+    options: GitCheckpointServiceOptions = {}
+  ) {
+    this.maxCheckpointsPerThread = options.maxCheckpointsPerThread ?? DEFAULT_MAX_CHECKPOINTS_PER_THREAD;
+  }
+
+  /**
+   * Returns the snapshot commit, or null when the workspace is not a git repository. Threads with their own
+   * worktree are snapshotted there rather than in the main checkout.
+   */
+  async captureCheckpoint(workspaceId: string, threadId?: string): Promise<string | null> {
+    const workspacePath = await this.findRepository(workspaceId, threadId);
+    if (workspacePath === null) {
+      return null;
+    }
+
+    const tree = await this.snapshotTree(workspacePath);
+    const headSha = await this.readHead(workspacePath);
+    const indexTree = await runGitCommand(workspacePath, ["write-tree"]);
+    const metadata: CheckpointMetadata = {
+      headSha,
+      branch: await this.readBranch(workspacePath),
+      // An index with unresolved conflicts cannot be written as a tree; the revert falls back to HEAD.
+      indexTree: indexTree.exitCode === 0 ? indexTree.stdout.trim() : null,
+      createdAt: new Date().toISOString()
+    };
+
+    const args = [
+      "commit-tree",
+      tree,
+      ...(headSha === null ? [] : ["-p", headSha]),
+      "-m",
+      "poketcodex checkpoint",
+      "-m",
+      JSON.stringify(metadata)
+    ];
+    const commit = await runGitCommand(workspacePath, args, { env: { ...process.env, ...CHECKPOINT_IDENTITY } });
+    if (commit.exitCode !== 0) {
+      throw new GitCommandError(`git commit-tree ${tree}`, commit.exitCode, commit.stderr);
+    }
+
+    return commit.stdout.trim();
+  }
+
+  async recordCheckpoint(workspaceId: string, threadId: string, turnId: string, sha: string): Promise<void> {
+    const workspacePath = await this.resolveRepository(workspaceId);
+    await this.runMutation(workspacePath, ["update-ref", checkpointRef(threadId, turnId), sha]);
+
+    if (this.maxCheckpointsPerThread > 0) {
+      const records = await readThreadCheckpointRefs(workspacePath, threadId);
+      const expired = records.slice(0, -this.maxCheckpointsPerThread);
+      await deleteRefs(workspacePath, expired.map((record) => checkpointRef(record.threadId, record.turnId)));
+    }
+  }
+
+  /** Drops the checkpoints of a thread that is going away; returns how many were deleted. */
+  async deleteCheckpoints(workspaceId: string, threadId: string): Promise<number> {
+    const workspacePath = await this.findRepository(workspaceId);
+    return workspacePath === null ? 0 : await deleteThreadCheckpoints(workspacePath, threadId);
+  }
+
+  async listCheckpoints(workspaceId: string, threadId: string): Promise<GitCheckpoint[]> {
+    assertCheckpointId(threadId);
+    const workspacePath = await this.findRepository(workspaceId);
+    if (workspacePath === null) {
+      return [];
+    }
+
+    const records = await readThreadCheckpointRefs(workspacePath, threadId);
+    return records.map(toCheckpoint);
+  }
+
+  async getCheckpointPreview(
+    workspaceId: string,
+    threadId: string,
+    turnId: string,
+    options: GitCheckpointPreviewOptions = {}
+  ): Promise<GitCheckpointPreview> {
+    const workspacePath = await this.resolveRepository(workspaceId, threadId);
+    const record = await this.readCheckpoint(workspacePath, threadId, turnId);
+    const currentTree = await this.snapshotTree(workspacePath);
+    const maxFileBytes = options.maxFileBytes ?? DEFAULT_MAX_FILE_DIFF_BYTES;
+    const maxTotalBytes = options.maxTotalBytes ?? DEFAULT_MAX_TOTAL_DIFF_BYTES;
+
+    // Checkpoint to now is what the turn (and anything after it) changed, i.e. what a revert discards.
+    const diffRange = [record.sha, currentTree];
+    const numstatOutput = await runGitCommand(workspacePath, [
+      "diff",
+      "--no-color",
+      "--find-renames",
+      "--numstat",
+      "-z",
+      ...diffRange
+    ]);
+    if (numstatOutput.exitCode !== 0) {
+      throw new GitCommandError(`git diff --numstat ${record.sha}`, numstatOutput.exitCode, numstatOutput.stderr);
+    }
+
+    const patchOutput = await runGitCommand(workspacePath, ["diff", "--no-color", "--find-renames", ...diffRange]);
+    if (patchOutput.exitCode !== 0) {
+      throw new GitCommandError(`git diff ${record.sha}`, patchOutput.exitCode, patchOutput.stderr);
+    }
+
+    const chunks = splitDiffByFile(patchOutput.stdout);
+    const files: GitWorkspaceDiffFile[] = parseNumstat(numstatOutput.stdout).map((stat, index) => {
+      const chunk = chunks[index] ?? "";
+      return {
+        path: stat.path,
+        originalPath: stat.originalPath,
+        statusLabel: describeDiffChunk(chunk),
+        untracked: false,
+        binary: stat.binary,
+        additions: stat.additions,
+        deletions: stat.deletions,
+        diff: stat.binary ? "" : chunk,
+        truncated: false
+      };
+    });
+    const truncated = applyDiffSizeCaps(files, maxFileBytes, maxTotalBytes);
+    const plan = await this.planHeadRestore(workspacePath, record);
+
+    return {
+      checkpoint: toCheckpoint(record),
+      files,
+      additions: files.reduce((total, file) => total + (file.additions ?? 0), 0),
+      deletions: files.reduce((total, file) => total + (file.deletions ?? 0), 0),
+      truncated,
+      blockedReason: plan.blockedReason
+    };
+  }
+
+  async revertToCheckpoint(workspaceId: string, threadId: string, turnId: string): Promise<GitCheckpointRevertResult> {
+    const workspacePath = await this.resolveRepository(workspaceId, threadId);
+    const record = await this.readCheckpoint(workspacePath, threadId, turnId);
+    const plan = await this.planHeadRestore(workspacePath, record);
+    if (plan.blockedReason !== null) {
+      throw new GitCheckpointConflictError(plan.blockedReason);
+    }
+
+    const currentTree = await this.snapshotTree(workspacePath);
+    const changesOutput = await runGitCommand(workspacePath, [
+      "diff-tree",
+      "-r",
+      "-z",
+      "--no-renames",
+      "--name-status",
+      record.sha,
+      currentTree
+    ]);
+    if (changesOutput.exitCode !== 0) {
+      throw new GitCommandError(`git diff-tree ${record.sha}`, changesOutput.exitCode, changesOutput.stderr);
+    }
+
+    const changes = parseNameStatus(changesOutput.stdout);
+    for (const change of changes.filter((candidate) => candidate.status === "A")) {
+      await this.removeWorkspaceFile(workspacePath, change.path);
+    }
+
+    const restorePaths = changes.filter((change) => change.status !== "A").map((change) => change.path);
+    if (restorePaths.length > 0) {
+      await this.withTemporaryIndex(async (env) => {
+        await this.runMutation(workspacePath, ["read-tree", record.sha], { env });
+        await this.runMutation(workspacePath, ["checkout-index", "--force", "-z", "--stdin"], {
+          env,
+          input: `${restorePaths.join("\0")}\0`
+        });
+      });
+    }
+
+    if (plan.resetTo !== null) {
+      await this.runMutation(workspacePath, ["reset", "--soft", plan.resetTo]);
+    }
+
+    const indexTree = record.indexTree ?? record.headSha;
+    await this.runMutation(workspacePath, indexTree === null ? ["read-tree", "--empty"] : ["read-tree", indexTree]);
+    // read-tree drops the cached stat data; refresh it so status does not report every file as modified.
+    await runGitCommand(workspacePath, ["update-index", "-q", "--refresh"]);
+
+    return {
+      checkpoint: toCheckpoint(record),
+      status: await this.gitService.getStatus(workspaceId)
+    };
+  }
+
+  private async planHeadRestore(workspacePath: string, record: CheckpointRecord): Promise<HeadRestorePlan> {
+    const branch = await this.readBranch(workspacePath);
+    if (branch !== record.branch) {
+      const from = record.branch ?? "a detached HEAD";
+      return {
+        resetTo: null,
+        blockedReason: `The workspace moved from ${from} to ${branch ?? "a detached HEAD"} since this checkpoint`
+      };
+    }
+
+    const headSha = await this.readHead(workspacePath);
+    if (headSha === record.headSha) {
+      return { resetTo: null, blockedReason: null };
+    }
+
+    // Commits made during the turn are undone, but only by moving the branch back along its own history.
+    const isAncestor =
+      record.headSha !== null &&
+      headSha !== null &&
+      (await runGitCommand(workspacePath, ["merge-base", "--is-ancestor", record.headSha, headSha])).exitCode === 0;
+    if (!isAncestor) {
+      return { resetTo: null, blockedReason: "HEAD no longer contains the commit this checkpoint was taken on" };
+    }
+
+    return { resetTo: record.headSha, blockedReason: null };
+  }
+
+  private async snapshotTree(workspacePath: string): Promise<string> {
+    const indexPath = await runGitCommand(workspacePath, ["rev-parse", "--git-path", "index"]);
+    if (indexPath.exitCode !== 0) {
+      throw new GitCommandError("git rev-parse --git-path index", indexPath.exitCode, indexPath.stderr);
+    }
+
+    return await this.withTemporaryIndex(async (env, temporaryIndexPath) => {
+      // Starting from the real index keeps its stat cache, so `add` only hashes files that changed.
+      await fs.copyFile(path.resolve(workspacePath, indexPath.stdout.trim()), temporaryIndexPath).catch(
+        (error: NodeJS.ErrnoException) => {
+          if (error.code !== "ENOENT") {
+            throw error;
+          }
+        }
+      );
+      await this.runMutation(workspacePath, ["add", "--all"], { env });
+
+      const tree = await runGitCommand(workspacePath, ["write-tree"], { env });
+      if (tree.exitCode !== 0) {
+        throw new GitCommandError("git write-tree", tree.exitCode, tree.stderr);
+      }
+
+      return tree.stdout.trim();
+    });
+  }
+
+  private async withTemporaryIndex<T>(
+    run: (env: NodeJS.ProcessEnv, indexPath: string) => Promise<T>
+  ): Promise<T> {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), "poketcodex-checkpoint-"));
+    const indexPath = path.join(directory, "index");
+    try {
+      return await run({ ...process.env, GIT_INDEX_FILE: indexPath }, indexPath);
+    } finally {
+      await fs.rm(directory, { recursive: true, force: true });
+    }
+  }
+
+  private async removeWorkspaceFile(workspacePath: string, relativePath: string): Promise<void> {
+    await fs.rm(path.join(workspacePath, relativePath), { force: true });
+
+    // Drop directories the turn created, stopping at the first one that still has content.
+    let directory = path.dirname(relativePath);
+    while (directory !== "." && directory.length > 0) {
+      const removed = await fs
+        .rmdir(path.join(workspacePath, directory))
+        .then(() => true)
+        .catch(() => false);
+      if (!removed) {
+        return;
+      }
+      directory = path.dirname(directory);
+    }
+  }
+
+  private async readCheckpoint(workspacePath: string, threadId: string, turnId: string): Promise<CheckpointRecord> {
+    const [record] = await readCheckpointRefs(workspacePath, checkpointRef(threadId, turnId));
+    if (!record) {
+      throw new GitCheckpointNotFoundError(threadId, turnId);
+    }
+
+    return record;
+  }
+
+  private async readHead(workspacePath: string): Promise<string | null> {
+    const head = await runGitCommand(workspacePath, ["rev-parse", "--verify", "--quiet", "HEAD^{commit}"]);
+    return head.exitCode === 0 ? head.stdout.trim() : null;
+  }
+
+  private async readBranch(workspacePath: string): Promise<string | null> {
+    const branch = await runGitCommand(workspacePath, ["symbolic-ref", "--quiet", "--short", "HEAD"]);
+    return branch.exitCode === 0 ? branch.stdout.trim() : null;
+  }
+
+  private async findRepository(workspaceId: string, threadId?: string): Promise<string | null> {
+    const workspace = this.workspaceService.getWorkspaceById(workspaceId);
+    if (!workspace) {
+      throw new GitWorkspaceNotFoundError(workspaceId);
+    }
+
+    // Checkpoint refs are shared by every worktree of a repository; only the checkout being snapshotted differs.
+    const worktree = threadId === undefined ? null : this.worktreeService?.getThreadWorktree(workspaceId, threadId);
+    const checkoutPath = worktree?.path ?? workspace.absolutePath;
+    const checkoutExists = await fs
+      .stat(checkoutPath)
+      .then((stats) => stats.isDirectory())
+      .catch(() => false);
+    if (!checkoutExists) {
+      return null;
+    }
+
+    const repoCheck = await runGitCommand(checkoutPath, ["rev-parse", "--is-inside-work-tree"]);
+    if (repoCheck.exitCode !== 0 || repoCheck.stdout.trim().toLowerCase() !== "true") {
+      return null;
+    }
+
+    return checkoutPath;
+  }
+
+  private async resolveRepository(workspaceId: string, threadId?: string): Promise<string> {
+    const workspacePath = await this.findRepository(workspaceId, threadId);
+    if (workspacePath === null) {
+      throw new GitRepositoryUnavailableError("Git repository is not available for the selected workspace");
+    }
+
+    return workspacePath;
+  }
+
+  private async runMutation(workspacePath: string, args: string[], options: GitCommandOptions = {}): Promise<void> {
+    const result = await runGitCommand(workspacePath, args, options);
+    if (result.exitCode !== 0) {
+      throw new GitCommandError(`git ${args.join(" ")}`, result.exitCode, result.stderr);
+    }
+  }
+}
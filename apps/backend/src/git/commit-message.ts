@@ -0,0 +1,159 @@
+import {
+  withThreadRuntimePolicy,
+  withTurnRuntimePolicy,
+  type WorkspaceRuntimePolicy
+} from "../codex/runtime-policy.js";
+import type { WorkspaceAppServerPool, WorkspaceRuntimeEvent } from "../codex/workspace-app-server-pool.js";
+import { GitNothingToCommitError, GitServiceError, type GitService } from "./service.js";
+
+const DEFAULT_TIMEOUT_MS = 60_000;
+const MAX_DIFF_CHARS = 60_000;
+
+// Drafting only needs the diff in the prompt, so the helper thread never gets to run tools.
+const DRAFT_POLICY: WorkspaceRuntimePolicy = {
+  sandboxMode: "read-only",
+  approvalPolicy: "never"
+};
+
+export interface CommitMessageServiceOptions {
+  timeoutMs?: number;
+}
+
+export class CommitMessageDraftError extends GitServiceError {
+  constructor(message: string) {
+    super(message);
+    this.name = "CommitMessageDraftError";
+  }
+}
+
+function asRecord(value: unknown): Record<string, unknown> | null {
+  return value !== null && typeof value === "object" ? (value as Record<string, unknown>) : null;
+}
+
+function buildPrompt(stagedDiff: string): string {
+  const truncated = stagedDiff.length > MAX_DIFF_CHARS;
+  const diff = truncated ? stagedDiff.slice(0, MAX_DIFF_CHARS) : stagedDiff;
+
+  const lines = [
+    "Write a git commit message for the staged changes below.",
+    "Use an imperative subject line of at most 72 characters, then a blank line and a short body only if the change needs explaining.",
+    "Reply with the commit message only, without code fences or commentary. Do not run any commands.",
+    ""
+  ];
+  if (truncated) {
+    lines.push(`The diff was truncated to its first ${MAX_DIFF_CHARS} characters.`);
+  }
+  lines.push("```diff", diff.trimEnd(), "```");
+
+  return lines.join("\n");
+}
+
+function cleanDraft(text: string): string {
+  return text
+    .trim()
+    .replace(/^```[a-z]*\n/, "")
+    .replace(/\n```$/, "")
+    .trim();
+}
+
+export class CommitMessageService {
+  private readonly timeoutMs: number;
+
+  constructor(
+    private readonly runtimePool: WorkspaceAppServerPool,
+    private readonly gitService: GitService,
+    options: CommitMessageServiceOptions = {}
+  ) {
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  }
+
+  async suggestCommitMessage(workspaceId: string): Promise<string> {
+    const stagedDiff = await this.gitService.getStagedDiff(workspaceId);
+    if (stagedDiff.trim().length === 0) {
+      throw new GitNothingToCommitError();
+    }
+
+    const client = await this.runtimePool.getClient(workspaceId);
+    const thread = await client.threadStart(withThreadRuntimePolicy({}, DRAFT_POLICY));
+    const threadId = thread.thread.id;
+
+    try {
+      // The turn can finish before turn/start responds, so listen before starting it.
+      const completion = this.waitForAgentReply(workspaceId, threadId);
+      try {
+        await client.turnStart(
+          withTurnRuntimePolicy({ threadId, input: [{ type: "text", text: buildPrompt(stagedDiff) }] }, DRAFT_POLICY)
+        );
+      } catch (error: unknown) {
+        completion.cancel();
+        throw error;
+      }
+
+      const draft = cleanDraft(await completion.promise);
+      if (draft.length === 0) {
+        throw new CommitMessageDraftError("Codex did not return a commit message");
+      }
+
+      return draft;
+    } finally {
+      await client.threadArchive({ threadId }).catch(() => undefined);
+    }
+  }
+
+  private waitForAgentReply(workspaceId: string, threadId: string): { promise: Promise<string>; cancel: () => void } {
+    let cancel = (): void => undefined;
+
+    const promise = new Promise<string>((resolve, reject) => {
+      let reply = "";
+      const timer = setTimeout(() => {
+        finish();
+        reject(new CommitMessageDraftError(`Commit message draft timed out after ${this.timeoutMs / 1000}s`));
+      }, this.timeoutMs);
+
+      const unsubscribe = this.runtimePool.subscribeToRuntimeEvents((event: WorkspaceRuntimeEvent) => {
+        if (event.workspaceId !== workspaceId) {
+          return;
+        }
+
+        if (event.kind === "stateChanged" && (event.payload === "degraded" || event.payload === "stopped")) {
+          finish();
+          reject(new CommitMessageDraftError("Runtime stopped before the commit message was drafted"));
+          return;
+        }
+
+        const notification = asRecord(event.payload);
+        const params = asRecord(notification?.params);
+        if (event.kind !== "notification" || params?.threadId !== threadId) {
+          return;
+        }
+
+        const item = asRecord(params.item);
+        if (notification?.method === "item/completed" && item?.type === "agentMessage" && typeof item.text === "string") {
+          reply = item.text;
+          return;
+        }
+
+        if (notification?.method === "turn/completed") {
+          const turn = asRecord(params.turn);
+          finish();
+          if (turn?.status === "failed") {
+            const message = asRecord(turn.error)?.message;
+            reject(new CommitMessageDraftError(typeof message === "string" ? message : "Commit message draft failed"));
+            return;
+          }
+
+          resolve(reply);
+        }
+      });
+
+      function finish(): void {
+        clearTimeout(timer);
+        unsubscribe();
+      }
+
+      cancel = finish;
+    });
+
+    return { promise, cancel };
+  }
+}
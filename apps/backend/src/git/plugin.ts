@@ -1,28 +1,113 @@
 import type { FastifyPluginAsync } from "fastify";
 
 import type { SessionRecord } from "../auth/session-store.js";
+import { AppServerManagerError, AppServerSchemaDriftError } from "../codex/app-server-manager.js";
 import {
+  WorkspaceNotFoundError,
+  WorkspaceRuntimeError,
+  WorkspaceRuntimeLimitError
+} from "../codex/workspace-app-server-pool.js";
+import {
+  GitCheckpointConflictError,
+  GitCheckpointNotFoundError,
+  type GitCheckpointService
+} from "./checkpoints.js";
+import { CommitMessageDraftError, type CommitMessageService } from "./commit-message.js";
+import {
+  GitBranchExistsError,
   GitCommandError,
+  GitDirtyWorktreeError,
+  GitHunkNotFoundError,
   GitInvalidPathError,
+  GitInvalidRefError,
+  GitNoUpstreamError,
+  GitNothingToCommitError,
+  GitRefNotFoundError,
   GitRepositoryUnavailableError,
   GitWorkspaceNotFoundError,
-  type GitService
+  type GitCreateBranchInput,
+  type GitLogOptions,
+  type GitService,
+  type GitSwitchBranchInput,
+  type GitWorkspaceDiffOptions
 } from "./service.js";
+import {
+  GitMergeConflictError,
+  GitWorktreeChangesError,
+  GitWorktreeNotFoundError,
+  type GitWorktreeMergeInput,
+  type GitWorktreeRemoveInput,
+  type GitWorktreeService
+} from "./worktrees.js";
 
 interface GitRouteParams {
   workspaceId?: unknown;
+  sha?: unknown;
+  threadId?: unknown;
+  turnId?: unknown;
 }
 
 interface GitDiffQueryString {
   path?: unknown;
 }
 
+interface GitWorkspaceDiffQueryString {
+  path?: unknown;
+  base?: unknown;
+  mergeBase?: unknown;
+  compare?: unknown;
+}
+
+interface GitChangeRequestBody {
+  path?: unknown;
+  hunk?: unknown;
+}
+
+interface GitCommitRequestBody {
+  message?: unknown;
+  amend?: unknown;
+}
+
+interface GitCreateBranchRequestBody {
+  name?: unknown;
+  startPoint?: unknown;
+  checkout?: unknown;
+  stash?: unknown;
+}
+
+interface GitSwitchRequestBody {
+  branch?: unknown;
+  stash?: unknown;
+}
+
+interface GitCheckpointQueryString {
+  threadId?: unknown;
+}
+
+interface GitWorktreeMergeRequestBody {
+  message?: unknown;
+}
+
+interface GitWorktreeRemoveRequestBody {
+  force?: unknown;
+  deleteBranch?: unknown;
+}
+
+interface GitLogQueryString {
+  ref?: unknown;
+  skip?: unknown;
+  limit?: unknown;
+}
+
 interface AuthenticatedRequestLike {
   authSession?: SessionRecord;
 }
 
 export interface GitPluginOptions {
   gitService: GitService;
+  commitMessageService?: CommitMessageService;
+  checkpointService?: GitCheckpointService;
+  worktreeService?: GitWorktreeService;
 }
 
 function requireWorkspaceId(params: unknown): string {
@@ -43,8 +128,201 @@ function requireRelativePath(query: unknown): string {
   return pathParam;
 }
 
+export class GitRequestValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "GitRequestValidationError";
+  }
+}
+
+function parseChangeRequestBody(body: unknown): { relativePath: string; hunk: string | null } {
+  const { path: pathValue, hunk } = (body ?? {}) as GitChangeRequestBody;
+  if (typeof pathValue !== "string" || pathValue.trim().length === 0) {
+    throw new GitInvalidPathError(typeof pathValue === "string" ? pathValue : "");
+  }
+
+  if (hunk !== undefined && (typeof hunk !== "string" || !hunk.trim().startsWith("@@"))) {
+    throw new GitRequestValidationError("hunk must be a hunk header starting with '@@' when provided");
+  }
+
+  return {
+    relativePath: pathValue,
+    hunk: hunk ?? null
+  };
+}
+
+function parseCommitRequestBody(body: unknown): { message: string; amend: boolean } {
+  const { message, amend } = (body ?? {}) as GitCommitRequestBody;
+  if (typeof message !== "string" || message.trim().length === 0) {
+    throw new GitRequestValidationError("message must be a non-empty string");
+  }
+
+  if (amend !== undefined && typeof amend !== "boolean") {
+    throw new GitRequestValidationError("amend must be a boolean when provided");
+  }
+
+  return {
+    message,
+    amend: amend === true
+  };
+}
+
+function requireCommitSha(params: unknown): string {
+  const sha = (params as GitRouteParams).sha;
+  if (typeof sha !== "string" || !/^[0-9a-f]{4,64}$/i.test(sha)) {
+    throw new GitRequestValidationError("sha must be a hexadecimal commit id");
+  }
+
+  return sha;
+}
+
+function requireCheckpointParams(params: unknown): { threadId: string; turnId: string } {
+  const { threadId, turnId } = params as GitRouteParams;
+  if (typeof threadId !== "string" || threadId.length === 0 || typeof turnId !== "string" || turnId.length === 0) {
+    throw new GitRequestValidationError("threadId and turnId path parameters are required");
+  }
+
+  return { threadId, turnId };
+}
+
+function requireCheckpointThreadId(query: unknown): string {
+  const { threadId } = (query ?? {}) as GitCheckpointQueryString;
+  if (typeof threadId !== "string" || threadId.trim().length === 0) {
+    throw new GitRequestValidationError("threadId must be a non-empty string");
+  }
+
+  return threadId.trim();
+}
+
+function requireWorktreeThreadId(params: unknown): string {
+  const { threadId } = params as GitRouteParams;
+  if (typeof threadId !== "string" || threadId.length === 0) {
+    throw new GitRequestValidationError("threadId path parameter is required");
+  }
+
+  return threadId;
+}
+
+function parseOptionalBoolean(value: unknown, field: string): boolean | undefined {
+  if (value !== undefined && typeof value !== "boolean") {
+    throw new GitRequestValidationError(`${field} must be a boolean when provided`);
+  }
+
+  return value;
+}
+
+function parseCreateBranchRequestBody(body: unknown): GitCreateBranchInput {
+  const { name, startPoint, checkout, stash } = (body ?? {}) as GitCreateBranchRequestBody;
+  if (typeof name !== "string" || name.trim().length === 0) {
+    throw new GitRequestValidationError("name must be a non-empty string");
+  }
+
+  if (startPoint !== undefined && (typeof startPoint !== "string" || startPoint.trim().length === 0)) {
+    throw new GitRequestValidationError("startPoint must be a non-empty string when provided");
+  }
+
+  const checkoutValue = parseOptionalBoolean(checkout, "checkout");
+  const stashValue = parseOptionalBoolean(stash, "stash");
+  return {
+    name: name.trim(),
+    ...(startPoint === undefined ? {} : { startPoint: startPoint.trim() }),
+    ...(checkoutValue === undefined ? {} : { checkout: checkoutValue }),
+    ...(stashValue === undefined ? {} : { stash: stashValue })
+  };
+}
+
+function parseSwitchRequestBody(body: unknown): GitSwitchBranchInput {
+  const { branch, stash } = (body ?? {}) as GitSwitchRequestBody;
+  if (typeof branch !== "string" || branch.trim().length === 0) {
+    throw new GitRequestValidationError("branch must be a non-empty string");
+  }
+
+  const stashValue = parseOptionalBoolean(stash, "stash");
+  return {
+    branch: branch.trim(),
+    ...(stashValue === undefined ? {} : { stash: stashValue })
+  };
+}
+
+function parseWorktreeMergeRequestBody(body: unknown): GitWorktreeMergeInput {
+  const { message } = (body ?? {}) as GitWorktreeMergeRequestBody;
+  if (message !== undefined && typeof message !== "string") {
+    throw new GitRequestValidationError("message must be a string when provided");
+  }
+
+  return message === undefined || message.trim().length === 0 ? {} : { message: message.trim() };
+}
+
+function parseWorktreeRemoveRequestBody(body: unknown): GitWorktreeRemoveInput {
+  const { force, deleteBranch } = (body ?? {}) as GitWorktreeRemoveRequestBody;
+  const forceValue = parseOptionalBoolean(force, "force");
+  const deleteBranchValue = parseOptionalBoolean(deleteBranch, "deleteBranch");
+  return {
+    ...(forceValue === undefined ? {} : { force: forceValue }),
+    ...(deleteBranchValue === undefined ? {} : { deleteBranch: deleteBranchValue })
+  };
+}
+
+function parseNonNegativeInteger(value: unknown, field: string): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  const parsed = typeof value === "string" && /^\d+$/.test(value) ? Number.parseInt(value, 10) : Number.NaN;
+  if (!Number.isSafeInteger(parsed)) {
+    throw new GitRequestValidationError(`${field} must be a non-negative integer when provided`);
+  }
+
+  return parsed;
+}
+
+function parseWorkspaceDiffQuery(query: unknown): GitWorkspaceDiffOptions {
+  const { path: pathPrefix, base, mergeBase, compare } = (query ?? {}) as GitWorkspaceDiffQueryString;
+  if (pathPrefix !== undefined && typeof pathPrefix !== "string") {
+    throw new GitInvalidPathError("");
+  }
+
+  if (base !== undefined && (typeof base !== "string" || base.trim().length === 0)) {
+    throw new GitRequestValidationError("base must be a non-empty string when provided");
+  }
+
+  if (mergeBase !== undefined && mergeBase !== "true" && mergeBase !== "false") {
+    throw new GitRequestValidationError("mergeBase must be 'true' or 'false' when provided");
+  }
+
+  if (compare !== undefined && compare !== "workingTree" && compare !== "head") {
+    throw new GitRequestValidationError("compare must be 'workingTree' or 'head' when provided");
+  }
+
+  if (mergeBase === "true" && base === undefined) {
+    throw new GitRequestValidationError("mergeBase requires a base ref");
+  }
+
+  return {
+    ...(pathPrefix === undefined || pathPrefix.trim().length === 0 ? {} : { pathPrefix }),
+    ...(base === undefined ? {} : { base: base.trim() }),
+    ...(mergeBase === undefined ? {} : { mergeBase: mergeBase === "true" }),
+    ...(compare === undefined ? {} : { compare })
+  };
+}
+
+function parseLogQuery(query: unknown): GitLogOptions {
+  const { ref, skip, limit } = (query ?? {}) as GitLogQueryString;
+  if (ref !== undefined && (typeof ref !== "string" || ref.trim().length === 0)) {
+    throw new GitRequestValidationError("ref must be a non-empty string when provided");
+  }
+
+  const skipValue = parseNonNegativeInteger(skip, "skip");
+  const limitValue = parseNonNegativeInteger(limit, "limit");
+  return {
+    ...(ref === undefined ? {} : { ref: ref.trim() }),
+    ...(skipValue === undefined ? {} : { skip: skipValue }),
+    ...(limitValue === undefined ? {} : { limit: limitValue })
+  };
+}
+
 export const gitPlugin: FastifyPluginAsync<GitPluginOptions> = async (app, options) => {
-  const { gitService } = options;
+  const { gitService, commitMessageService, checkpointService, worktreeService } = options;
 
   app.get("/api/workspaces/:workspaceId/git/status", async (request, reply) => {
     try {
@@ -86,6 +364,326 @@ export const gitPlugin: FastifyPluginAsync<GitPluginOptions> = async (app, optio
       return handleGitError(request, reply, error);
     }
   });
+
+  app.get("/api/workspaces/:workspaceId/git/workspace-diff", async (request, reply) => {
+    try {
+      const authenticatedRequest = request as AuthenticatedRequestLike;
+      if (!authenticatedRequest.authSession) {
+        return reply.code(401).send({
+          error: "unauthorized",
+          message: "Authentication is required for git diff"
+        });
+      }
+
+      const workspaceId = requireWorkspaceId(request.params);
+      const git = await gitService.getWorkspaceDiff(workspaceId, parseWorkspaceDiffQuery(request.query));
+      return reply.code(200).send({
+        git
+      });
+    } catch (error: unknown) {
+      return handleGitError(request, reply, error);
+    }
+  });
+
+  app.post("/api/workspaces/:workspaceId/git/stage", async (request, reply) => {
+    try {
+      const workspaceId = requireWorkspaceId(request.params);
+      const { relativePath, hunk } = parseChangeRequestBody(request.body);
+      const git = hunk
+        ? await gitService.stageHunk(workspaceId, relativePath, hunk)
+        : await gitService.stageFile(workspaceId, relativePath);
+      return reply.code(200).send({
+        git
+      });
+    } catch (error: unknown) {
+      return handleGitError(request, reply, error);
+    }
+  });
+
+  app.post("/api/workspaces/:workspaceId/git/unstage", async (request, reply) => {
+    try {
+      const workspaceId = requireWorkspaceId(request.params);
+      const { relativePath, hunk } = parseChangeRequestBody(request.body);
+      const git = hunk
+        ? await gitService.unstageHunk(workspaceId, relativePath, hunk)
+        : await gitService.unstageFile(workspaceId, relativePath);
+      return reply.code(200).send({
+        git
+      });
+    } catch (error: unknown) {
+      return handleGitError(request, reply, error);
+    }
+  });
+
+  app.post("/api/workspaces/:workspaceId/git/discard", async (request, reply) => {
+    try {
+      const workspaceId = requireWorkspaceId(request.params);
+      const { relativePath, hunk } = parseChangeRequestBody(request.body);
+      if (hunk) {
+        throw new GitRequestValidationError("Discarding individual hunks is not supported");
+      }
+
+      const git = await gitService.discardFile(workspaceId, relativePath);
+      request.log.info({ workspaceId, path: relativePath }, "git changes discarded");
+      return reply.code(200).send({
+        git
+      });
+    } catch (error: unknown) {
+      return handleGitError(request, reply, error);
+    }
+  });
+
+  app.post("/api/workspaces/:workspaceId/git/commit", async (request, reply) => {
+    try {
+      const workspaceId = requireWorkspaceId(request.params);
+      const input = parseCommitRequestBody(request.body);
+      const result = await gitService.commit(workspaceId, input);
+      request.log.info({ workspaceId, sha: result.commit.sha, amend: input.amend }, "git commit created");
+      return reply.code(200).send({
+        commit: result.commit,
+        git: result.status
+      });
+    } catch (error: unknown) {
+      return handleGitError(request, reply, error);
+    }
+  });
+
+  app.post("/api/workspaces/:workspaceId/git/push", async (request, reply) => {
+    try {
+      const workspaceId = requireWorkspaceId(request.params);
+      const result = await gitService.push(workspaceId);
+      request.log.info({ workspaceId, branch: result.branch, upstream: result.upstream }, "git branch pushed");
+      return reply.code(200).send({
+        branch: result.branch,
+        upstream: result.upstream,
+        git: result.status
+      });
+    } catch (error: unknown) {
+      return handleGitError(request, reply, error);
+    }
+  });
+
+  app.get("/api/workspaces/:workspaceId/git/branches", async (request, reply) => {
+    try {
+      const authenticatedRequest = request as AuthenticatedRequestLike;
+      if (!authenticatedRequest.authSession) {
+        return reply.code(401).send({
+          error: "unauthorized",
+          message: "Authentication is required for git branches"
+        });
+      }
+
+      const workspaceId = requireWorkspaceId(request.params);
+      const branches = await gitService.listBranches(workspaceId);
+      return reply.code(200).send({
+        branches
+      });
+    } catch (error: unknown) {
+      return handleGitError(request, reply, error);
+    }
+  });
+
+  app.post("/api/workspaces/:workspaceId/git/branches", async (request, reply) => {
+    try {
+      const workspaceId = requireWorkspaceId(request.params);
+      const input = parseCreateBranchRequestBody(request.body);
+      const result = await gitService.createBranch(workspaceId, input);
+      request.log.info({ workspaceId, branch: result.branch, checkout: input.checkout === true }, "git branch created");
+      return reply.code(201).send({
+        branch: result.branch,
+        stashed: result.stashed,
+        git: result.status
+      });
+    } catch (error: unknown) {
+      return handleGitError(request, reply, error);
+    }
+  });
+
+  app.post("/api/workspaces/:workspaceId/git/switch", async (request, reply) => {
+    try {
+      const workspaceId = requireWorkspaceId(request.params);
+      const input = parseSwitchRequestBody(request.body);
+      const result = await gitService.switchBranch(workspaceId, input);
+      request.log.info({ workspaceId, branch: result.branch, stashed: result.stashed }, "git branch switched");
+      return reply.code(200).send({
+        branch: result.branch,
+        stashed: result.stashed,
+        git: result.status
+      });
+    } catch (error: unknown) {
+      return handleGitError(request, reply, error);
+    }
+  });
+
+  app.get("/api/workspaces/:workspaceId/git/log", async (request, reply) => {
+    try {
+      const authenticatedRequest = request as AuthenticatedRequestLike;
+      if (!authenticatedRequest.authSession) {
+        return reply.code(401).send({
+          error: "unauthorized",
+          message: "Authentication is required for git log"
+        });
+      }
+
+      const workspaceId = requireWorkspaceId(request.params);
+      const page = await gitService.getLog(workspaceId, parseLogQuery(request.query));
+      return reply.code(200).send(page);
+    } catch (error: unknown) {
+      return handleGitError(request, reply, error);
+    }
+  });
+
+  app.get("/api/workspaces/:workspaceId/git/commits/:sha", async (request, reply) => {
+    try {
+      const authenticatedRequest = request as AuthenticatedRequestLike;
+      if (!authenticatedRequest.authSession) {
+        return reply.code(401).send({
+          error: "unauthorized",
+          message: "Authentication is required for git commits"
+        });
+      }
+
+      const workspaceId = requireWorkspaceId(request.params);
+      const commit = await gitService.getCommit(workspaceId, requireCommitSha(request.params));
+      return reply.code(200).send({
+        commit
+      });
+    } catch (error: unknown) {
+      return handleGitError(request, reply, error);
+    }
+  });
+
+  if (commitMessageService) {
+    app.post("/api/workspaces/:workspaceId/git/commit-message", async (request, reply) => {
+      try {
+        const workspaceId = requireWorkspaceId(request.params);
+        const message = await commitMessageService.suggestCommitMessage(workspaceId);
+        return reply.code(200).send({
+          message
+        });
+      } catch (error: unknown) {
+        return handleGitError(request, reply, error);
+      }
+    });
+  }
+
+  if (checkpointService) {
+    app.get("/api/workspaces/:workspaceId/git/checkpoints", async (request, reply) => {
+      try {
+        const authenticatedRequest = request as AuthenticatedRequestLike;
+        if (!authenticatedRequest.authSession) {
+          return reply.code(401).send({
+            error: "unauthorized",
+            message: "Authentication is required for git checkpoints"
+          });
+        }
+
+        const workspaceId = requireWorkspaceId(request.params);
+        const threadId = requireCheckpointThreadId(request.query);
+        const checkpoints = await checkpointService.listCheckpoints(workspaceId, threadId);
+        return reply.code(200).send({
+          checkpoints
+        });
+      } catch (error: unknown) {
+        return handleGitError(request, reply, error);
+      }
+    });
+
+    app.get("/api/workspaces/:workspaceId/git/checkpoints/:threadId/:turnId/preview", async (request, reply) => {
+      try {
+        const authenticatedRequest = request as AuthenticatedRequestLike;
+        if (!authenticatedRequest.authSession) {
+          return reply.code(401).send({
+            error: "unauthorized",
+            message: "Authentication is required for git checkpoints"
+          });
+        }
+
+        const workspaceId = requireWorkspaceId(request.params);
+        const { threadId, turnId } = requireCheckpointParams(request.params);
+        const preview = await checkpointService.getCheckpointPreview(workspaceId, threadId, turnId);
+        return reply.code(200).send({
+          preview
+        });
+      } catch (error: unknown) {
+        return handleGitError(request, reply, error);
+      }
+    });
+
+    app.post("/api/workspaces/:workspaceId/git/checkpoints/:threadId/:turnId/revert", async (request, reply) => {
+      try {
+        const workspaceId = requireWorkspaceId(request.params);
+        const { threadId, turnId } = requireCheckpointParams(request.params);
+        const result = await checkpointService.revertToCheckpoint(workspaceId, threadId, turnId);
+        request.log.info({ workspaceId, threadId, turnId }, "workspace reverted to turn checkpoint");
+        return reply.code(200).send({
+          checkpoint: result.checkpoint,
+          git: result.status
+        });
+      } catch (error: unknown) {
+        return handleGitError(request, reply, error);
+      }
+    });
+  }
+
+  if (worktreeService) {
+    app.get("/api/workspaces/:workspaceId/git/worktrees", async (request, reply) => {
+      try {
+        const authenticatedRequest = request as AuthenticatedRequestLike;
+        if (!authenticatedRequest.authSession) {
+          return reply.code(401).send({
+            error: "unauthorized",
+            message: "Authentication is required for git worktrees"
+          });
+        }
+
+        const workspaceId = requireWorkspaceId(request.params);
+        const worktrees = await worktreeService.listWorktrees(workspaceId);
+        return reply.code(200).send({
+          worktrees
+        });
+      } catch (error: unknown) {
+        return handleGitError(request, reply, error);
+      }
+    });
+
+    app.post("/api/workspaces/:workspaceId/git/worktrees/:threadId/merge", async (request, reply) => {
+      try {
+        const workspaceId = requireWorkspaceId(request.params);
+        const threadId = requireWorktreeThreadId(request.params);
+        const input = parseWorktreeMergeRequestBody(request.body);
+        const result = await worktreeService.mergeWorktree(workspaceId, threadId, input);
+        request.log.info(
+          { workspaceId, threadId, branch: result.branch, merged: result.merged },
+          "thread worktree merged"
+        );
+        return reply.code(200).send({
+          branch: result.branch,
+          mergedInto: result.mergedInto,
+          committed: result.committed,
+          merged: result.merged,
+          git: result.status
+        });
+      } catch (error: unknown) {
+        return handleGitError(request, reply, error);
+      }
+    });
+
+    app.post("/api/workspaces/:workspaceId/git/worktrees/:threadId/remove", async (request, reply) => {
+      try {
+        const workspaceId = requireWorkspaceId(request.params);
+        const threadId = requireWorktreeThreadId(request.params);
+        const input = parseWorktreeRemoveRequestBody(request.body);
+        const worktree = await worktreeService.removeWorktree(workspaceId, threadId, input);
+        request.log.info({ workspaceId, threadId, branch: worktree.branch }, "thread worktree removed");
+        return reply.code(200).send({
+          worktree
+        });
+      } catch (error: unknown) {
+        return handleGitError(request, reply, error);
+      }
+    });
+  }
 };
 
 function handleGitError(
@@ -101,14 +699,29 @@ function handleGitError(
   },
   error: unknown
 ): unknown {
-  if (error instanceof GitWorkspaceNotFoundError) {
+  if (error instanceof GitWorkspaceNotFoundError || error instanceof WorkspaceNotFoundError) {
     return reply.code(404).send({
       error: "not_found",
       message: error.message
     });
   }
 
-  if (error instanceof GitInvalidPathError) {
+  if (
+    error instanceof GitRefNotFoundError ||
+    error instanceof GitCheckpointNotFoundError ||
+    error instanceof GitWorktreeNotFoundError
+  ) {
+    return reply.code(404).send({
+      error: "not_found",
+      message: error.message
+    });
+  }
+
+  if (
+    error instanceof GitInvalidPathError ||
+    error instanceof GitInvalidRefError ||
+    error instanceof GitRequestValidationError
+  ) {
     return reply.code(400).send({
       error: "bad_request",
       message: error.message
@@ -122,6 +735,39 @@ function handleGitError(
     });
   }
 
+  if (error instanceof GitNothingToCommitError) {
+    return reply.code(409).send({
+      error: "nothing_to_commit",
+      message: error.message
+    });
+  }
+
+  if (error instanceof GitNoUpstreamError) {
+    return reply.code(409).send({
+      error: "no_upstream",
+      message: error.message
+    });
+  }
+
+  if (error instanceof GitDirtyWorktreeError || error instanceof GitWorktreeChangesError) {
+    return reply.code(409).send({
+      error: "dirty_worktree",
+      message: error.message
+    });
+  }
+
+  if (
+    error instanceof GitHunkNotFoundError ||
+    error instanceof GitBranchExistsError ||
+    error instanceof GitCheckpointConflictError ||
+    error instanceof GitMergeConflictError
+  ) {
+    return reply.code(409).send({
+      error: "conflict",
+      message: error.message
+    });
+  }
+
   if (error instanceof GitCommandError) {
     return reply.code(502).send({
       error: "upstream_error",
@@ -130,6 +776,32 @@ function handleGitError(
     });
   }
 
+  if (error instanceof AppServerSchemaDriftError) {
+    request.log.error({ err: error, method: error.method, issues: error.issues }, "app-server schema drift");
+    return reply.code(502).send({
+      error: "schema_drift",
+      message: error.message
+    });
+  }
+
+  if (error instanceof WorkspaceRuntimeLimitError) {
+    return reply.code(429).send({
+      error: "runtime_limit",
+      message: error.message
+    });
+  }
+
+  if (
+    error instanceof CommitMessageDraftError ||
+    error instanceof WorkspaceRuntimeError ||
+    error instanceof AppServerManagerError
+  ) {
+    return reply.code(502).send({
+      error: "upstream_error",
+      message: error.message
+    });
+  }
+
   request.log.error({ err: error }, "git route failed");
   return reply.code(500).send({
     error: "internal_error",
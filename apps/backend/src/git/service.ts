@@ -1,9 +1,20 @@
-import { spawn } from "node:child_process";
+import { spawn, type ChildProcessByStdio } from "node:child_process";
+import fs from "node:fs/promises";
 import path from "node:path";
+import type { Readable, Writable } from "node:stream";
 
 import type { WorkspaceService } from "../workspaces/service.js";
+import {
+  applyDiffSizeCaps,
+  buildUntrackedFileDiff,
+  countLines,
+  describeDiffChunk,
+  isBinaryContent,
+  parseNumstat,
+  splitDiffByFile
+} from "./workspace-diff.js";
 
-interface GitCommandResult {
+export interface GitCommandResult {
   exitCode: number;
   stdout: string;
   stderr: string;
@@ -20,6 +31,7 @@ export interface GitStatusEntry {
 export interface GitStatusSummary {
   enabled: boolean;
   branch: string | null;
+  upstream: string | null;
   ahead: number;
   behind: number;
   clean: boolean;
@@ -29,11 +41,141 @@ export interface GitStatusSummary {
 export interface GitFileDiff {
   path: string;
   diff: string;
+  stagedDiff: string;
+  unstagedDiff: string;
   isUntracked: boolean;
   hasStagedChanges: boolean;
   hasUnstagedChanges: boolean;
 }
 
+export interface GitWorkspaceDiffFile {
+  path: string;
+  originalPath: string | null;
+  statusLabel: string;
+  untracked: boolean;
+  binary: boolean;
+  additions: number | null;
+  deletions: number | null;
+  diff: string;
+  truncated: boolean;
+}
+
+export type GitDiffCompareTarget = "workingTree" | "head";
+
+export interface GitWorkspaceDiffBase {
+  ref: string;
+  sha: string;
+  mergeBase: boolean;
+}
+
+export interface GitWorkspaceDiff {
+  pathPrefix: string | null;
+  base: GitWorkspaceDiffBase | null;
+  compare: GitDiffCompareTarget;
+  files: GitWorkspaceDiffFile[];
+  additions: number;
+  deletions: number;
+  truncated: boolean;
+}
+
+export interface GitWorkspaceDiffOptions {
+  pathPrefix?: string;
+  /** Ref to diff against instead of HEAD; any commit-ish git can resolve. */
+  base?: string;
+  /** Diff against the merge-base of `base` and HEAD, like `git diff base...HEAD`. */
+  mergeBase?: boolean;
+  /** `head` leaves uncommitted and untracked changes out of the comparison. */
+  compare?: GitDiffCompareTarget;
+  maxFileBytes?: number;
+  maxTotalBytes?: number;
+}
+
+export interface GitCommitSummary {
+  sha: string;
+  shortSha: string;
+  subject: string;
+  body: string;
+  authorName: string;
+  authorEmail: string;
+  authoredAt: string;
+  parents: string[];
+  files: string[];
+}
+
+export interface GitCommitDetail extends GitCommitSummary {
+  diff: string;
+}
+
+export interface GitLogEntry {
+  sha: string;
+  shortSha: string;
+  subject: string;
+  authorName: string;
+  authorEmail: string;
+  authoredAt: string;
+  parents: string[];
+}
+
+export interface GitLogOptions {
+  ref?: string;
+  skip?: number;
+  limit?: number;
+}
+
+export interface GitLogPage {
+  commits: GitLogEntry[];
+  hasMore: boolean;
+}
+
+export interface GitBranchSummary {
+  name: string;
+  kind: "local" | "remote";
+  current: boolean;
+  sha: string;
+  upstream: string | null;
+  subject: string;
+  committedAt: string;
+}
+
+export interface GitCreateBranchInput {
+  name: string;
+  startPoint?: string;
+  checkout?: boolean;
+  stash?: boolean;
+}
+
+export interface GitSwitchBranchInput {
+  branch: string;
+  stash?: boolean;
+}
+
+export interface GitSwitchBranchResult {
+  branch: string;
+  stashed: boolean;
+  status: GitStatusSummary;
+}
+
+export interface GitCommitInput {
+  message: string;
+  amend?: boolean;
+}
+
+export interface GitCommitResult {
+  commit: GitCommitSummary;
+  status: GitStatusSummary;
+}
+
+export interface GitPushResult {
+  branch: string;
+  upstream: string;
+  status: GitStatusSummary;
+}
+
+export interface GitCommandOptions {
+  input?: string;
+  env?: NodeJS.ProcessEnv;
+}
+
 export class GitServiceError extends Error {
   constructor(message: string) {
     super(message);
@@ -62,6 +204,55 @@ export class GitInvalidPathError extends GitServiceError {
   }
 }
 
+export class GitHunkNotFoundError extends GitServiceError {
+  constructor(relativePath: string, hunkHeader: string) {
+    super(`Hunk '${hunkHeader}' no longer matches the diff for '${relativePath}'`);
+    this.name = "GitHunkNotFoundError";
+  }
+}
+
+export class GitNothingToCommitError extends GitServiceError {
+  constructor() {
+    super("There are no staged changes to commit");
+    this.name = "GitNothingToCommitError";
+  }
+}
+
+export class GitNoUpstreamError extends GitServiceError {
+  constructor(branch: string | null) {
+    super(branch ? `Branch '${branch}' has no upstream branch to push to` : "Cannot push from a detached HEAD");
+    this.name = "GitNoUpstreamError";
+  }
+}
+
+export class GitInvalidRefError extends GitServiceError {
+  constructor(ref: string) {
+    super(`'${ref}' is not a valid git reference`);
+    this.name = "GitInvalidRefError";
+  }
+}
+
+export class GitRefNotFoundError extends GitServiceError {
+  constructor(ref: string) {
+    super(`Reference '${ref}' was not found`);
+    this.name = "GitRefNotFoundError";
+  }
+}
+
+export class GitBranchExistsError extends GitServiceError {
+  constructor(branch: string) {
+    super(`Branch '${branch}' already exists`);
+    this.name = "GitBranchExistsError";
+  }
+}
+
+export class GitDirtyWorktreeError extends GitServiceError {
+  constructor(branch: string) {
+    super(`Cannot switch to '${branch}' with uncommitted changes; commit or stash them first`);
+    this.name = "GitDirtyWorktreeError";
+  }
+}
+
 export class GitCommandError extends GitServiceError {
   readonly command: string;
   readonly exitCode: number;
@@ -76,12 +267,15 @@ export class GitCommandError extends GitServiceError {
   }
 }
 
-function runGitCommand(cwd: string, args: string[]): Promise<GitCommandResult> {
+export function runGitCommand(cwd: string, args: string[], options: GitCommandOptions = {}): Promise<GitCommandResult> {
   return new Promise((resolve, reject) => {
     const childProcess = spawn("git", args, {
       cwd,
-      stdio: ["ignore", "pipe", "pipe"]
-    });
+      stdio: [options.input === undefined ? "ignore" : "pipe", "pipe", "pipe"],
+      ...(options.env ? { env: options.env } : {})
+    }) as ChildProcessByStdio<Writable | null, Readable, Readable>;
+
+    childProcess.stdin?.end(options.input);
 
     let stdout = "";
     let stderr = "";
@@ -109,6 +303,11 @@ function runGitCommand(cwd: string, args: string[]): Promise<GitCommandResult> {
   });
 }
 
+const DEFAULT_MAX_FILE_DIFF_BYTES = 256 * 1024;
+const DEFAULT_MAX_TOTAL_DIFF_BYTES = 2 * 1024 * 1024;
+const DEFAULT_LOG_LIMIT = 50;
+const MAX_LOG_LIMIT = 200;
+
 function mapStatusLabel(staged: string, unstaged: string): string {
   const token = `${staged}${unstaged}`;
   if (token === "??") {
@@ -148,12 +347,14 @@ function mapStatusLabel(staged: string, unstaged: string): string {
 
 function parseBranchHeader(line: string): {
   branch: string | null;
+  upstream: string | null;
   ahead: number;
   behind: number;
 } {
   if (!line.startsWith("## ")) {
     return {
       branch: null,
+      upstream: null,
       ahead: 0,
       behind: 0
     };
@@ -182,11 +383,13 @@ function parseBranchHeader(line: string): {
     }
   }
 
-  const branch = branchPayload.split("...")[0] ?? "";
+  const [branch = "", upstream = ""] = branchPayload.split("...");
   const normalizedBranch = branch.trim();
+  const normalizedUpstream = upstream.trim();
 
   return {
     branch: normalizedBranch.length > 0 && normalizedBranch !== "HEAD" ? normalizedBranch : null,
+    upstream: normalizedUpstream.length > 0 ? normalizedUpstream : null,
     ahead,
     behind
   };
@@ -258,6 +461,89 @@ function normalizeRelativePath(workspaceRoot: string, inputPath: string): string
   return normalizedRelative;
 }
 
+function extractHunkPatch(diffText: string, hunkHeader: string): string | null {
+  const lines = diffText.split("\n");
+  const firstHunkIndex = lines.findIndex((line) => line.startsWith("@@"));
+  if (firstHunkIndex === -1) {
+    return null;
+  }
+
+  const targetHeader = hunkHeader.trim();
+  const hunkStart = lines.findIndex((line, index) => index >= firstHunkIndex && line.trim() === targetHeader);
+  if (hunkStart === -1) {
+    return null;
+  }
+
+  let hunkEnd = hunkStart + 1;
+  while (hunkEnd < lines.length && !lines[hunkEnd]?.startsWith("@@")) {
+    hunkEnd += 1;
+  }
+
+  const hunkLines = lines.slice(hunkStart, hunkEnd);
+  while (hunkLines.length > 1 && hunkLines[hunkLines.length - 1] === "") {
+    hunkLines.pop();
+  }
+
+  return `${[...lines.slice(0, firstHunkIndex), ...hunkLines].join("\n")}\n`;
+}
+
+function parseLogEntries(output: string): GitLogEntry[] {
+  return output
+    .split("\x1e")
+    .map((record) => record.replace(/^\n/, ""))
+    .filter((record) => record.length > 0)
+    .map((record) => {
+      const [sha = "", shortSha = "", authorName = "", authorEmail = "", authoredAt = "", parents = "", subject = ""] =
+        record.split("\0");
+      return {
+        sha,
+        shortSha,
+        subject,
+        authorName,
+        authorEmail,
+        authoredAt,
+        parents: parents.split(" ").filter((parent) => parent.length > 0)
+      };
+    });
+}
+
+function parseBranchEntries(output: string): GitBranchSummary[] {
+  const branches: GitBranchSummary[] = [];
+
+  for (const line of output.split("\n")) {
+    if (line.length === 0) {
+      continue;
+    }
+
+    const [refName = "", name = "", sha = "", upstream = "", head = "", committedAt = "", subject = ""] =
+      line.split("\0");
+    // refs/remotes/<remote>/HEAD is a symbolic pointer, not a branch anyone can switch to.
+    if (refName.startsWith("refs/remotes/") && refName.endsWith("/HEAD")) {
+      continue;
+    }
+
+    branches.push({
+      name,
+      kind: refName.startsWith("refs/remotes/") ? "remote" : "local",
+      current: head === "*",
+      sha,
+      upstream: upstream.length > 0 ? upstream : null,
+      subject,
+      committedAt
+    });
+  }
+
+  return branches;
+}
+
+function clampLogLimit(limit: number | undefined): number {
+  if (limit === undefined || !Number.isFinite(limit)) {
+    return DEFAULT_LOG_LIMIT;
+  }
+
+  return Math.min(Math.max(Math.trunc(limit), 1), MAX_LOG_LIMIT);
+}
+
 export class GitService {
   constructor(private readonly workspaceService: WorkspaceService) {}
 
@@ -273,6 +559,7 @@ export class GitService {
       return {
         enabled: false,
         branch: null,
+        upstream: null,
         ahead: 0,
         behind: 0,
         clean: true,
@@ -302,6 +589,7 @@ export class GitService {
     return {
       enabled: true,
       branch: branchData.branch,
+      upstream: branchData.upstream,
       ahead: branchData.ahead,
       behind: branchData.behind,
       clean: entries.length === 0,
@@ -342,6 +630,8 @@ export class GitService {
       return {
         path: normalizedPath,
         diff: diffOutput.stdout,
+        stagedDiff: "",
+        unstagedDiff: diffOutput.stdout,
         isUntracked: true,
         hasStagedChanges: false,
         hasUnstagedChanges: true
@@ -384,9 +674,608 @@ export class GitService {
     return {
       path: normalizedPath,
       diff: sections.join("\n\n"),
+      stagedDiff: hasStagedChanges ? stagedDiff.stdout : "",
+      unstagedDiff: hasUnstagedChanges ? unstagedDiff.stdout : "",
       isUntracked: false,
       hasStagedChanges,
       hasUnstagedChanges
     };
   }
+
+  async getWorkspaceDiff(workspaceId: string, options: GitWorkspaceDiffOptions = {}): Promise<GitWorkspaceDiff> {
+    const workspacePath = await this.resolveRepository(workspaceId);
+    const pathPrefix =
+      options.pathPrefix === undefined ? null : normalizeRelativePath(workspacePath, options.pathPrefix);
+    const pathspec = pathPrefix === null || pathPrefix === "." ? [] : [pathPrefix];
+    const maxFileBytes = options.maxFileBytes ?? DEFAULT_MAX_FILE_DIFF_BYTES;
+    const maxTotalBytes = options.maxTotalBytes ?? DEFAULT_MAX_TOTAL_DIFF_BYTES;
+
+    const compare = options.compare ?? "workingTree";
+    const status = await this.getStatus(workspaceId);
+    const entriesByPath = new Map(status.entries.map((entry) => [entry.path, entry]));
+    const diffBase =
+      options.base === undefined
+        ? null
+        : await this.resolveWorkspaceDiffBase(workspacePath, options.base, options.mergeBase);
+    const base = diffBase?.sha ?? (await this.resolveDiffBase(workspacePath));
+    if (compare === "head") {
+      await this.resolveCommit(workspacePath, "HEAD");
+    }
+
+    // One numstat and one patch run cover staged and unstaged changes for every tracked file at once.
+    const diffRange = [base, ...(compare === "head" ? ["HEAD"] : []), "--", ...pathspec];
+    const numstatOutput = await runGitCommand(workspacePath, [
+      "diff",
+      "--no-color",
+      "--find-renames",
+      "--numstat",
+      "-z",
+      ...diffRange
+    ]);
+    if (numstatOutput.exitCode !== 0) {
+      throw new GitCommandError(`git diff --numstat ${base}`, numstatOutput.exitCode, numstatOutput.stderr);
+    }
+
+    const patchOutput = await runGitCommand(workspacePath, ["diff", "--no-color", "--find-renames", ...diffRange]);
+    if (patchOutput.exitCode !== 0) {
+      throw new GitCommandError(`git diff ${base}`, patchOutput.exitCode, patchOutput.stderr);
+    }
+
+    const stats = parseNumstat(numstatOutput.stdout);
+    // numstat and the patch come from the same diff, so their files line up one to one.
+    const chunks = splitDiffByFile(patchOutput.stdout);
+    const files: GitWorkspaceDiffFile[] = stats.map((stat, index) => {
+      const chunk = chunks[index] ?? "";
+      // Status entries only describe changes since HEAD, so other bases label files from their own patch.
+      const entry = diffBase === null && compare === "workingTree" ? entriesByPath.get(stat.path) : undefined;
+      return {
+        path: stat.path,
+        originalPath: stat.originalPath ?? entry?.originalPath ?? null,
+        statusLabel: entry?.statusLabel ?? describeDiffChunk(chunk),
+        untracked: false,
+        binary: stat.binary,
+        additions: stat.additions,
+        deletions: stat.deletions,
+        diff: stat.binary ? "" : chunk,
+        truncated: false
+      };
+    });
+
+    const untrackedEntries = status.entries.filter(
+      (entry) =>
+        compare === "workingTree" &&
+        entry.staged === "?" &&
+        entry.unstaged === "?" &&
+        (pathspec.length === 0 || entry.path === pathPrefix || entry.path.startsWith(`${pathPrefix}/`))
+    );
+    for (const entry of untrackedEntries) {
+      const file = await this.readUntrackedFileDiff(workspacePath, entry, maxFileBytes);
+      if (file) {
+        files.push(file);
+      }
+    }
+
+    files.sort((left, right) => left.path.localeCompare(right.path));
+
+    const truncated = applyDiffSizeCaps(files, maxFileBytes, maxTotalBytes);
+
+    return {
+      pathPrefix,
+      base: diffBase,
+      compare,
+      files,
+      additions: files.reduce((total, file) => total + (file.additions ?? 0), 0),
+      deletions: files.reduce((total, file) => total + (file.deletions ?? 0), 0),
+      truncated
+    };
+  }
+
+  async stageFile(workspaceId: string, relativePath: string): Promise<GitStatusSummary> {
+    const { workspacePath, normalizedPath } = await this.resolveRepositoryPath(workspaceId, relativePath);
+    await this.runMutation(workspacePath, ["add", "--all", "--", normalizedPath]);
+    return await this.getStatus(workspaceId);
+  }
+
+  async unstageFile(workspaceId: string, relativePath: string): Promise<GitStatusSummary> {
+    const { workspacePath, normalizedPath, entry } = await this.resolveRepositoryPath(workspaceId, relativePath);
+    // Unstaging only the new side of a rename would leave the old path staged as deleted.
+    const paths = entry?.originalPath ? [entry.originalPath, normalizedPath] : [normalizedPath];
+    await this.runMutation(workspacePath, ["reset", "--quiet", "--", ...paths]);
+    return await this.getStatus(workspaceId);
+  }
+
+  async discardFile(workspaceId: string, relativePath: string): Promise<GitStatusSummary> {
+    const { workspacePath, normalizedPath, entry } = await this.resolveRepositoryPath(workspaceId, relativePath);
+    if (entry?.staged === "?" && entry.unstaged === "?") {
+      await this.runMutation(workspacePath, ["clean", "--force", "--quiet", "--", normalizedPath]);
+    } else if (entry?.staged === "A") {
+      // HEAD has nothing to restore for a newly added file, so discarding it means dropping it entirely.
+      await this.runMutation(workspacePath, ["rm", "--cached", "--force", "--quiet", "--", normalizedPath]);
+      await fs.rm(path.join(workspacePath, normalizedPath), { force: true });
+    } else {
+      // Staged changes are discarded too, and a rename only goes away once its old path is restored.
+      const paths = entry?.originalPath ? [entry.originalPath, normalizedPath] : [normalizedPath];
+      await this.runMutation(workspacePath, ["restore", "--source=HEAD", "--staged", "--worktree", "--", ...paths]);
+    }
+
+    return await this.getStatus(workspaceId);
+  }
+
+  async stageHunk(workspaceId: string, relativePath: string, hunkHeader: string): Promise<GitStatusSummary> {
+    const { workspacePath, normalizedPath } = await this.resolveRepositoryPath(workspaceId, relativePath);
+    const patch = await this.readHunkPatch(workspacePath, normalizedPath, hunkHeader, "unstaged");
+    await this.runMutation(workspacePath, ["apply", "--cached", "-"], { input: patch });
+    return await this.getStatus(workspaceId);
+  }
+
+  async unstageHunk(workspaceId: string, relativePath: string, hunkHeader: string): Promise<GitStatusSummary> {
+    const { workspacePath, normalizedPath } = await this.resolveRepositoryPath(workspaceId, relativePath);
+    const patch = await this.readHunkPatch(workspacePath, normalizedPath, hunkHeader, "staged");
+    await this.runMutation(workspacePath, ["apply", "--cached", "--reverse", "-"], { input: patch });
+    return await this.getStatus(workspaceId);
+  }
+
+  async getStagedDiff(workspaceId: string): Promise<string> {
+    const workspacePath = await this.resolveRepository(workspaceId);
+    const diffOutput = await runGitCommand(workspacePath, ["diff", "--cached", "--no-color"]);
+    if (diffOutput.exitCode !== 0 && diffOutput.exitCode !== 1) {
+      throw new GitCommandError("git diff --cached", diffOutput.exitCode, diffOutput.stderr);
+    }
+
+    return diffOutput.stdout;
+  }
+
+  async commit(workspaceId: string, input: GitCommitInput): Promise<GitCommitResult> {
+    const workspacePath = await this.resolveRepository(workspaceId);
+    const amend = input.amend === true;
+    const stagedCheck = await runGitCommand(workspacePath, ["diff", "--cached", "--quiet"]);
+    if (stagedCheck.exitCode === 0 && !amend) {
+      throw new GitNothingToCommitError();
+    }
+
+    await this.runMutation(workspacePath, ["commit", "--quiet", "--file=-", ...(amend ? ["--amend"] : [])], {
+      input: input.message
+    });
+
+    return {
+      commit: await this.readCommit(workspacePath, "HEAD"),
+      status: await this.getStatus(workspaceId)
+    };
+  }
+
+  async push(workspaceId: string): Promise<GitPushResult> {
+    const workspacePath = await this.resolveRepository(workspaceId);
+    const status = await this.getStatus(workspaceId);
+    if (!status.branch || !status.upstream) {
+      throw new GitNoUpstreamError(status.branch);
+    }
+
+    const upstreamRef = await runGitCommand(workspacePath, [
+      "for-each-ref",
+      "--format=%(upstream:remotename)%00%(upstream:remoteref)",
+      `refs/heads/${status.branch}`
+    ]);
+    const [remote = "", remoteRef = ""] = upstreamRef.stdout.trim().split("\0");
+    if (upstreamRef.exitCode !== 0 || remote.length === 0 || remoteRef.length === 0) {
+      throw new GitNoUpstreamError(status.branch);
+    }
+
+    // Pushes run unattended, so credential prompts must fail instead of waiting on a terminal.
+    await this.runMutation(workspacePath, ["push", "--quiet", "--porcelain", remote, `HEAD:${remoteRef}`], {
+      env: {
+        ...process.env,
+        GIT_TERMINAL_PROMPT: "0",
+        GIT_SSH_COMMAND: process.env.GIT_SSH_COMMAND ?? "ssh -o BatchMode=yes"
+      }
+    });
+
+    return {
+      branch: status.branch,
+      upstream: status.upstream,
+      status: await this.getStatus(workspaceId)
+    };
+  }
+
+  async listBranches(workspaceId: string): Promise<GitBranchSummary[]> {
+    const workspacePath = await this.resolveRepository(workspaceId);
+    const refsOutput = await runGitCommand(workspacePath, [
+      "for-each-ref",
+      "--sort=-committerdate",
+      "--format=%(refname)%00%(refname:short)%00%(objectname:short)%00%(upstream:short)%00%(HEAD)%00%(committerdate:iso-strict)%00%(contents:subject)",
+      "refs/heads",
+      "refs/remotes"
+    ]);
+    if (refsOutput.exitCode !== 0) {
+      throw new GitCommandError("git for-each-ref refs/heads refs/remotes", refsOutput.exitCode, refsOutput.stderr);
+    }
+
+    return parseBranchEntries(refsOutput.stdout);
+  }
+
+  async createBranch(workspaceId: string, input: GitCreateBranchInput): Promise<GitSwitchBranchResult> {
+    const workspacePath = await this.resolveRepository(workspaceId);
+    await this.assertValidBranchName(workspacePath, input.name);
+    if (await this.hasRef(workspacePath, `refs/heads/${input.name}`)) {
+      throw new GitBranchExistsError(input.name);
+    }
+
+    const startPoint = input.startPoint === undefined ? [] : [await this.resolveCommit(workspacePath, input.startPoint)];
+    // A new branch at HEAD carries local changes over untouched; only a different start point can clash with them.
+    // Check before creating anything so a refused switch does not leave a stray branch behind.
+    const mustStash =
+      input.checkout === true && startPoint.length > 0 && (await this.hasTrackedChanges(workspaceId));
+    if (mustStash && input.stash !== true) {
+      throw new GitDirtyWorktreeError(input.name);
+    }
+
+    await this.runMutation(workspacePath, ["branch", "--no-track", input.name, ...startPoint]);
+
+    if (input.checkout !== true) {
+      return {
+        branch: input.name,
+        stashed: false,
+        status: await this.getStatus(workspaceId)
+      };
+    }
+
+    return await this.runSwitch(workspaceId, workspacePath, ["switch", "--quiet", input.name], input.name, mustStash);
+  }
+
+  async switchBranch(workspaceId: string, input: GitSwitchBranchInput): Promise<GitSwitchBranchResult> {
+    const workspacePath = await this.resolveRepository(workspaceId);
+    const branch = input.branch;
+    if (branch.startsWith("-")) {
+      throw new GitInvalidRefError(branch);
+    }
+
+    let switchArgs: string[];
+    let localBranch = branch;
+    if (await this.hasRef(workspacePath, `refs/heads/${branch}`)) {
+      switchArgs = ["switch", "--quiet", branch];
+    } else if (await this.hasRef(workspacePath, `refs/remotes/${branch}`)) {
+      // Switching to "origin/feature" creates (or reuses) a local tracking branch named "feature".
+      localBranch = branch.slice(branch.indexOf("/") + 1);
+      switchArgs = (await this.hasRef(workspacePath, `refs/heads/${localBranch}`))
+        ? ["switch", "--quiet", localBranch]
+        : ["switch", "--quiet", "--track", branch];
+    } else {
+      throw new GitRefNotFoundError(branch);
+    }
+
+    const dirty = await this.hasTrackedChanges(workspaceId);
+    if (dirty && input.stash !== true) {
+      throw new GitDirtyWorktreeError(localBranch);
+    }
+
+    return await this.runSwitch(workspaceId, workspacePath, switchArgs, localBranch, dirty);
+  }
+
+  async getLog(workspaceId: string, options: GitLogOptions = {}): Promise<GitLogPage> {
+    const workspacePath = await this.resolveRepository(workspaceId);
+    const skip = Math.max(Math.trunc(options.skip ?? 0), 0);
+    const limit = clampLogLimit(options.limit);
+
+    let revision: string;
+    if (options.ref === undefined) {
+      // A freshly initialised repository has no HEAD commit yet, which is an empty history rather than an error.
+      if (!(await this.hasRef(workspacePath, "HEAD"))) {
+        return { commits: [], hasMore: false };
+      }
+      revision = "HEAD";
+    } else {
+      revision = await this.resolveCommit(workspacePath, options.ref);
+    }
+
+    const logOutput = await runGitCommand(workspacePath, [
+      "log",
+      "--no-color",
+      "--format=%H%x00%h%x00%an%x00%ae%x00%aI%x00%P%x00%s%x1e",
+      `--skip=${skip}`,
+      `--max-count=${limit + 1}`,
+      revision,
+      "--"
+    ]);
+    if (logOutput.exitCode !== 0) {
+      throw new GitCommandError(`git log ${revision}`, logOutput.exitCode, logOutput.stderr);
+    }
+
+    const commits = parseLogEntries(logOutput.stdout);
+    return {
+      commits: commits.slice(0, limit),
+      hasMore: commits.length > limit
+    };
+  }
+
+  async getCommit(workspaceId: string, revision: string): Promise<GitCommitDetail> {
+    const workspacePath = await this.resolveRepository(workspaceId);
+    const sha = await this.resolveCommit(workspacePath, revision);
+    const commit = await this.readCommit(workspacePath, sha);
+
+    const diffOutput = await runGitCommand(workspacePath, [
+      "show",
+      "--no-color",
+      "--diff-merges=first-parent",
+      "--format=",
+      "--patch",
+      sha
+    ]);
+    if (diffOutput.exitCode !== 0) {
+      throw new GitCommandError(`git show ${sha}`, diffOutput.exitCode, diffOutput.stderr);
+    }
+
+    return {
+      ...commit,
+      diff: diffOutput.stdout.replace(/^\n+/, "")
+    };
+  }
+
+  /** Returns the workspace's checkout path, failing when the workspace is not a git repository. */
+  async resolveRepository(workspaceId: string): Promise<string> {
+    const workspace = this.workspaceService.getWorkspaceById(workspaceId);
+    if (!workspace) {
+      throw new GitWorkspaceNotFoundError(workspaceId);
+    }
+
+    const repoCheck = await runGitCommand(workspace.absolutePath, ["rev-parse", "--is-inside-work-tree"]);
+    if (repoCheck.exitCode !== 0 || repoCheck.stdout.trim().toLowerCase() !== "true") {
+      throw new GitRepositoryUnavailableError("Git repository is not available for the selected workspace");
+    }
+
+    return workspace.absolutePath;
+  }
+
+  private async resolveDiffBase(workspacePath: string): Promise<string> {
+    if (await this.hasRef(workspacePath, "HEAD")) {
+      return "HEAD";
+    }
+
+    // Before the first commit everything is new, so diff against the empty tree of this repository's hash format.
+    const emptyTree = await runGitCommand(workspacePath, ["hash-object", "-t", "tree", "/dev/null"]);
+    if (emptyTree.exitCode !== 0) {
+      throw new GitCommandError("git hash-object -t tree /dev/null", emptyTree.exitCode, emptyTree.stderr);
+    }
+
+    return emptyTree.stdout.trim();
+  }
+
+  private async resolveWorkspaceDiffBase(
+    workspacePath: string,
+    ref: string,
+    mergeBase: boolean | undefined
+  ): Promise<GitWorkspaceDiffBase> {
+    const sha = await this.resolveCommit(workspacePath, ref);
+    if (mergeBase !== true) {
+      return { ref, sha, mergeBase: false };
+    }
+
+    const headSha = await this.resolveCommit(workspacePath, "HEAD");
+    const mergeBaseOutput = await runGitCommand(workspacePath, ["merge-base", sha, headSha]);
+    if (mergeBaseOutput.exitCode !== 0) {
+      throw new GitRefNotFoundError(`merge-base of ${ref} and HEAD`);
+    }
+
+    return { ref, sha: mergeBaseOutput.stdout.trim(), mergeBase: true };
+  }
+
+  private async readUntrackedFileDiff(
+    workspacePath: string,
+    entry: GitStatusEntry,
+    maxFileBytes: number
+  ): Promise<GitWorkspaceDiffFile | null> {
+    const absolutePath = path.join(workspacePath, entry.path);
+    const stats = await fs.lstat(absolutePath).catch((error: NodeJS.ErrnoException) => {
+      // The file can disappear between `git status` and the read; it simply has no diff any more.
+      if (error.code === "ENOENT") {
+        return null;
+      }
+      throw error;
+    });
+    if (!stats) {
+      return null;
+    }
+
+    // An untracked nested repository shows up as one `dir/` entry; list it without pretending it is a file.
+    if (!stats.isFile() && !stats.isSymbolicLink()) {
+      return {
+        path: entry.path,
+        originalPath: null,
+        statusLabel: entry.statusLabel,
+        untracked: true,
+        binary: false,
+        additions: null,
+        deletions: null,
+        diff: "",
+        truncated: false
+      };
+    }
+
+    let content: Buffer;
+    let mode = (stats.mode & 0o111) === 0 ? "100644" : "100755";
+    let truncated = false;
+    if (stats.isSymbolicLink()) {
+      content = Buffer.from(await fs.readlink(absolutePath), "utf8");
+      mode = "120000";
+    } else if (stats.size > maxFileBytes) {
+      const handle = await fs.open(absolutePath, "r");
+      try {
+        content = Buffer.alloc(maxFileBytes);
+        const { bytesRead } = await handle.read(content, 0, maxFileBytes, 0);
+        content = content.subarray(0, bytesRead);
+      } finally {
+        await handle.close();
+      }
+      truncated = true;
+    } else {
+      content = await fs.readFile(absolutePath);
+    }
+
+    const binary = isBinaryContent(content);
+    const text = binary ? "" : content.toString("utf8");
+    return {
+      path: entry.path,
+      originalPath: null,
+      statusLabel: entry.statusLabel,
+      untracked: true,
+      binary,
+      additions: binary || truncated ? null : countLines(text),
+      deletions: binary || truncated ? null : 0,
+      diff: binary ? "" : buildUntrackedFileDiff(entry.path, text, mode),
+      truncated
+    };
+  }
+
+  private async runSwitch(
+    workspaceId: string,
+    workspacePath: string,
+    switchArgs: string[],
+    branch: string,
+    stash: boolean
+  ): Promise<GitSwitchBranchResult> {
+    if (stash) {
+      await this.runMutation(workspacePath, [
+        "stash",
+        "push",
+        "--include-untracked",
+        "--message",
+        `poketcodex: switch to ${branch}`
+      ]);
+    }
+
+    try {
+      await this.runMutation(workspacePath, switchArgs);
+    } catch (error: unknown) {
+      if (stash) {
+        await runGitCommand(workspacePath, ["stash", "pop", "--quiet"]);
+      }
+      throw error;
+    }
+
+    return {
+      branch,
+      stashed: stash,
+      status: await this.getStatus(workspaceId)
+    };
+  }
+
+  private async assertValidBranchName(workspacePath: string, name: string): Promise<void> {
+    if (name.startsWith("-")) {
+      throw new GitInvalidRefError(name);
+    }
+
+    const check = await runGitCommand(workspacePath, ["check-ref-format", "--branch", name]);
+    if (check.exitCode !== 0) {
+      throw new GitInvalidRefError(name);
+    }
+  }
+
+  private async hasTrackedChanges(workspaceId: string): Promise<boolean> {
+    const status = await this.getStatus(workspaceId);
+    // Untracked files carry over on their own; git refuses the switch if one would be overwritten.
+    return status.entries.some((entry) => !(entry.staged === "?" && entry.unstaged === "?"));
+  }
+
+  private async hasRef(workspacePath: string, ref: string): Promise<boolean> {
+    const result = await runGitCommand(workspacePath, ["rev-parse", "--verify", "--quiet", ref]);
+    return result.exitCode === 0;
+  }
+
+  private async resolveCommit(workspacePath: string, ref: string): Promise<string> {
+    if (ref.trim().length === 0 || ref.startsWith("-")) {
+      throw new GitInvalidRefError(ref);
+    }
+
+    const result = await runGitCommand(workspacePath, ["rev-parse", "--verify", "--quiet", `${ref}^{commit}`]);
+    if (result.exitCode !== 0) {
+      throw new GitRefNotFoundError(ref);
+    }
+
+    return result.stdout.trim();
+  }
+
+  private async readCommit(workspacePath: string, revision: string): Promise<GitCommitSummary> {
+    const showOutput = await runGitCommand(workspacePath, [
+      "show",
+      "--no-color",
+      "--name-only",
+      "--diff-merges=first-parent",
+      "--format=%H%x00%h%x00%an%x00%ae%x00%aI%x00%P%x00%s%x00%b%x00",
+      revision
+    ]);
+    if (showOutput.exitCode !== 0) {
+      throw new GitCommandError(`git show ${revision}`, showOutput.exitCode, showOutput.stderr);
+    }
+
+    const fields = showOutput.stdout.split("\0");
+    const [sha = "", shortSha = "", authorName = "", authorEmail = "", authoredAt = "", parents = ""] = fields;
+    const subject = fields[6] ?? "";
+    const body = fields[7] ?? "";
+    const fileList = fields[8] ?? "";
+
+    return {
+      sha,
+      shortSha,
+      subject,
+      body: body.trim(),
+      authorName,
+      authorEmail,
+      authoredAt,
+      parents: parents.split(" ").filter((parent) => parent.length > 0),
+      files: fileList
+        .split("\n")
+        .map((line) => line.trim())
+        .filter((line) => line.length > 0)
+    };
+  }
+
+  private async resolveRepositoryPath(
+    workspaceId: string,
+    relativePath: string
+  ): Promise<{ workspacePath: string; normalizedPath: string; entry: GitStatusEntry | undefined }> {
+    const workspace = this.workspaceService.getWorkspaceById(workspaceId);
+    if (!workspace) {
+      throw new GitWorkspaceNotFoundError(workspaceId);
+    }
+
+    const normalizedPath = normalizeRelativePath(workspace.absolutePath, relativePath);
+    const status = await this.getStatus(workspaceId);
+    if (!status.enabled) {
+      throw new GitRepositoryUnavailableError("Git repository is not available for the selected workspace");
+    }
+
+    return {
+      workspacePath: workspace.absolutePath,
+      normalizedPath,
+      entry: status.entries.find((candidate) => candidate.path === normalizedPath)
+    };
+  }
+
+  private async readHunkPatch(
+    workspacePath: string,
+    normalizedPath: string,
+    hunkHeader: string,
+    section: "staged" | "unstaged"
+  ): Promise<string> {
+    const args =
+      section === "staged"
+        ? ["diff", "--cached", "--no-color", "--", normalizedPath]
+        : ["diff", "--no-color", "--", normalizedPath];
+    const diffOutput = await runGitCommand(workspacePath, args);
+    if (diffOutput.exitCode !== 0 && diffOutput.exitCode !== 1) {
+      throw new GitCommandError(`git ${args.join(" ")}`, diffOutput.exitCode, diffOutput.stderr);
+    }
+
+    const patch = extractHunkPatch(diffOutput.stdout, hunkHeader);
+    if (!patch) {
+      throw new GitHunkNotFoundError(normalizedPath, hunkHeader);
+    }
+
+    return patch;
+  }
+
+  private async runMutation(workspacePath: string, args: string[], options: GitCommandOptions = {}): Promise<void> {
+    const result = await runGitCommand(workspacePath, args, options);
+    if (result.exitCode !== 0) {
+      throw new GitCommandError(`git ${args.join(" ")}`, result.exitCode, result.stderr);
+    }
+  }
 }
@@ -0,0 +1,292 @@
+import { watch, type FSWatcher } from "node:fs";
+import fs from "node:fs/promises";
+import path from "node:path";
+
+import { runGitCommand, type GitService, type GitStatusSummary } from "./service.js";
+
+const DEFAULT_DEBOUNCE_MS = 300;
+// Steady writes (a build, a long install) keep resetting the debounce; refresh at least this often anyway.
+const DEFAULT_MAX_WAIT_MS = 2_000;
+
+// Top-level directories whose changes never show up in `git status` of the main checkout.
+const UNWATCHED_DIRECTORIES = new Set([".git", ".poketcodex"]);
+
+export type GitStatusListener = (status: GitStatusSummary) => void;
+
+export interface GitStatusWatcherOptions {
+  debounceMs?: number;
+  maxWaitMs?: number;
+}
+
+interface WorkspaceWatch {
+  listeners: Set<GitStatusListener>;
+  watchers: FSWatcher[];
+  // Recursive watchers of the top-level directories, by name.
+  directoryWatchers: Map<string, FSWatcher>;
+  timer: NodeJS.Timeout | undefined;
+  // When the pending refresh must run even if changes keep arriving.
+  refreshDeadline: number | undefined;
+  lastStatus: string | null;
+  refreshing: boolean;
+  refreshQueued: boolean;
+}
+
+function isRelevantWorkTreeChange(filename: string | null): boolean {
+  return filename === null || !UNWATCHED_DIRECTORIES.has(filename);
+}
+
+function isRelevantGitDirChange(filename: string | null): boolean {
+  // Lock files come and go around every write; the rename onto the real file is what matters.
+  return filename === null || !filename.endsWith(".lock");
+}
+
+/**
+ * Watches the working tree and git directory of workspaces that have subscribers and reports
+ * `git status` whenever it actually changes. Watching starts with the first subscriber and stops with the last.
+ *
+ * A recursive watch costs one inotify watch per directory, so only top-level directories that git does not
+ * ignore are watched recursively; `node_modules`, build output and worktrees never use up the system limit.
+ */
+export class GitStatusWatcher {
+  private readonly debounceMs: number;
+  private readonly maxWaitMs: number;
+  private readonly watches = new Map<string, WorkspaceWatch>();
+
+  constructor(
+    private readonly gitService: GitService,
+    options: GitStatusWatcherOptions = {}
+  ) {
+    this.debounceMs = options.debounceMs ?? DEFAULT_DEBOUNCE_MS;
+    this.maxWaitMs = options.maxWaitMs ?? DEFAULT_MAX_WAIT_MS;
+  }
+
+  subscribe(workspaceId: string, listener: GitStatusListener): () => void {
+    let entry = this.watches.get(workspaceId);
+    if (!entry) {
+      entry = {
+        listeners: new Set(),
+        watchers: [],
+        directoryWatchers: new Map(),
+        timer: undefined,
+        refreshDeadline: undefined,
+        lastStatus: null,
+        refreshing: false,
+        refreshQueued: false
+      };
+      this.watches.set(workspaceId, entry);
+      void this.startWatching(workspaceId, entry);
+    }
+
+    const watchEntry = entry;
+    watchEntry.listeners.add(listener);
+    return () => {
+      watchEntry.listeners.delete(listener);
+      if (watchEntry.listeners.size === 0) {
+        this.stopWatching(workspaceId, watchEntry);
+      }
+    };
+  }
+
+  close(): void {
+    for (const [workspaceId, entry] of [...this.watches.entries()]) {
+      this.stopWatching(workspaceId, entry);
+    }
+  }
+
+  private async startWatching(workspaceId: string, entry: WorkspaceWatch): Promise<void> {
+    let workspacePath: string;
+    let gitDirectory: string;
+    try {
+      workspacePath = await this.gitService.resolveRepository(workspaceId);
+      const gitDirOutput = await runGitCommand(workspacePath, ["rev-parse", "--absolute-git-dir"]);
+      if (gitDirOutput.exitCode !== 0) {
+        return;
+      }
+      gitDirectory = gitDirOutput.stdout.trim();
+      // The first status is only a baseline; subscribers are told about changes from here on.
+      entry.lastStatus = JSON.stringify(await this.gitService.getStatus(workspaceId));
+    } catch {
+      // Not a repository (or git is missing): there is nothing to push, and clients keep polling.
+      return;
+    }
+
+    if (this.watches.get(workspaceId) !== entry) {
+      return;
+    }
+
+    const directories = await this.listWatchableDirectories(workspacePath, await this.listDirectories(workspacePath));
+    if (this.watches.get(workspaceId) !== entry) {
+      return;
+    }
+
+    try {
+      const rootWatcher = watch(workspacePath, { persistent: false }, (_event, filename) => {
+        if (isRelevantWorkTreeChange(filename)) {
+          this.scheduleRefresh(workspaceId, entry);
+          if (filename !== null) {
+            void this.syncDirectoryWatcher(workspaceId, entry, workspacePath, filename);
+          }
+        }
+      });
+      // HEAD and the index live outside the working tree for linked worktrees and separate git dirs.
+      const gitDirWatcher = watch(gitDirectory, { persistent: false }, (_event, filename) => {
+        if (isRelevantGitDirChange(filename)) {
+          this.scheduleRefresh(workspaceId, entry);
+        }
+      });
+      entry.watchers.push(rootWatcher, gitDirWatcher);
+      for (const watcher of [rootWatcher, gitDirWatcher]) {
+        watcher.on("error", () => {
+          this.closeWatchers(entry);
+        });
+      }
+
+      for (const directory of directories) {
+        this.watchDirectory(workspaceId, entry, workspacePath, directory);
+      }
+    } catch {
+      // Running out of inotify watches must not break the event socket; fall back to polling.
+      this.closeWatchers(entry);
+    }
+  }
+
+  private watchDirectory(workspaceId: string, entry: WorkspaceWatch, workspacePath: string, directory: string): void {
+    const watcher = watch(path.join(workspacePath, directory), { recursive: true, persistent: false }, () => {
+      this.scheduleRefresh(workspaceId, entry);
+    });
+    entry.directoryWatchers.set(directory, watcher);
+    watcher.on("error", () => {
+      this.closeDirectoryWatcher(entry, directory);
+    });
+  }
+
+  /** Starts or ends the recursive watch of a top-level entry the root watcher saw appear or disappear. */
+  private async syncDirectoryWatcher(
+    workspaceId: string,
+    entry: WorkspaceWatch,
+    workspacePath: string,
+    name: string
+  ): Promise<void> {
+    const isDirectory = await fs
+      .stat(path.join(workspacePath, name))
+      .then((stats) => stats.isDirectory())
+      .catch(() => false);
+    if (!isDirectory) {
+      this.closeDirectoryWatcher(entry, name);
+      return;
+    }
+
+    if (entry.directoryWatchers.has(name)) {
+      return;
+    }
+
+    const [directory] = await this.listWatchableDirectories(workspacePath, [name]);
+    // No root watcher means watching stopped or fell back to polling in the meantime.
+    if (directory === undefined || entry.watchers.length === 0 || entry.directoryWatchers.has(directory)) {
+      return;
+    }
+
+    try {
+      this.watchDirectory(workspaceId, entry, workspacePath, directory);
+    } catch {
+      this.closeWatchers(entry);
+    }
+  }
+
+  private async listDirectories(workspacePath: string): Promise<string[]> {
+    const entries = await fs.readdir(workspacePath, { withFileTypes: true }).catch(() => []);
+    return entries.filter((dirent) => dirent.isDirectory()).map((dirent) => dirent.name);
+  }
+
+  /** Drops the directories git ignores, along with git's own data and the app's worktrees. */
+  private async listWatchableDirectories(workspacePath: string, names: string[]): Promise<string[]> {
+    const candidates = names.filter((name) => !UNWATCHED_DIRECTORIES.has(name));
+    if (candidates.length === 0) {
+      return [];
+    }
+
+    const output = await runGitCommand(workspacePath, ["check-ignore", "-z", "--stdin"], {
+      input: candidates.map((name) => `${name}/\0`).join("")
+    });
+    // Exit code 1 means nothing is ignored; anything else is an error, and watching too much beats missing changes.
+    const ignored = new Set(output.exitCode === 0 ? output.stdout.split("\0").filter((name) => name.length > 0) : []);
+    return candidates.filter((name) => !ignored.has(`${name}/`));
+  }
+
+  private stopWatching(workspaceId: string, entry: WorkspaceWatch): void {
+    if (this.watches.get(workspaceId) === entry) {
+      this.watches.delete(workspaceId);
+    }
+
+    if (entry.timer !== undefined) {
+      clearTimeout(entry.timer);
+      entry.timer = undefined;
+    }
+    entry.refreshDeadline = undefined;
+    this.closeWatchers(entry);
+  }
+
+  private closeWatchers(entry: WorkspaceWatch): void {
+    for (const watcher of entry.watchers.splice(0)) {
+      watcher.close();
+    }
+    for (const directory of [...entry.directoryWatchers.keys()]) {
+      this.closeDirectoryWatcher(entry, directory);
+    }
+  }
+
+  private closeDirectoryWatcher(entry: WorkspaceWatch, directory: string): void {
+    entry.directoryWatchers.get(directory)?.close();
+    entry.directoryWatchers.delete(directory);
+  }
+
+  private scheduleRefresh(workspaceId: string, entry: WorkspaceWatch): void {
+    if (this.watches.get(workspaceId) !== entry) {
+      return;
+    }
+
+    if (entry.timer !== undefined) {
+      clearTimeout(entry.timer);
+    }
+
+    const now = Date.now();
+    entry.refreshDeadline ??= now + this.maxWaitMs;
+    entry.timer = setTimeout(
+      () => {
+        entry.timer = undefined;
+        entry.refreshDeadline = undefined;
+        void this.refresh(workspaceId, entry);
+      },
+      Math.max(0, Math.min(this.debounceMs, entry.refreshDeadline - now))
+    );
+    entry.timer.unref();
+  }
+
+  private async refresh(workspaceId: string, entry: WorkspaceWatch): Promise<void> {
+    if (entry.refreshing) {
+      entry.refreshQueued = true;
+      return;
+    }
+
+    entry.refreshing = true;
+    try {
+      const status = await this.gitService.getStatus(workspaceId);
+      const serialized = JSON.stringify(status);
+      // `git status` refreshes the index itself, which fires the watcher again; only real changes go out.
+      if (serialized !== entry.lastStatus && this.watches.get(workspaceId) === entry) {
+        entry.lastStatus = serialized;
+        for (const listener of [...entry.listeners]) {
+          listener(status);
+        }
+      }
+    } catch {
+      // A transient failure (e.g. a lock held mid-commit) is retried by the next file change.
+    } finally {
+      entry.refreshing = false;
+      if (entry.refreshQueued) {
+        entry.refreshQueued = false;
+        this.scheduleRefresh(workspaceId, entry);
+      }
+    }
+  }
+}
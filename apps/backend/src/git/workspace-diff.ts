@@ -0,0 +1,186 @@
+// git inspects the same prefix when deciding whether a blob is binary.
+const BINARY_SNIFF_BYTES = 8_000;
+
+export interface GitNumstatEntry {
+  path: string;
+  originalPath: string | null;
+  additions: number | null;
+  deletions: number | null;
+  binary: boolean;
+}
+
+export interface TruncatedText {
+  text: string;
+  truncated: boolean;
+}
+
+function parseCount(value: string | undefined): number | null {
+  if (value === undefined || value === "-") {
+    return null;
+  }
+
+  const parsed = Number.parseInt(value, 10);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+/**
+ * Parses `git diff --numstat -z`. Renames are emitted as `added\tdeleted\t\0old\0new\0`,
+ * every other entry as `added\tdeleted\tpath\0`.
+ */
+export function parseNumstat(output: string): GitNumstatEntry[] {
+  const tokens = output.split("\0");
+  const entries: GitNumstatEntry[] = [];
+
+  for (let index = 0; index < tokens.length; index += 1) {
+    const token = tokens[index] ?? "";
+    if (token.length === 0) {
+      continue;
+    }
+
+    const [added, deleted, ...rest] = token.split("\t");
+    let filePath = rest.join("\t");
+    let originalPath: string | null = null;
+    if (filePath.length === 0) {
+      originalPath = tokens[index + 1] ?? "";
+      filePath = tokens[index + 2] ?? "";
+      index += 2;
+    }
+
+    const binary = added === "-" && deleted === "-";
+    entries.push({
+      path: filePath,
+      originalPath,
+      additions: binary ? null : parseCount(added),
+      deletions: binary ? null : parseCount(deleted),
+      binary
+    });
+  }
+
+  return entries;
+}
+
+export function splitDiffByFile(diffText: string): string[] {
+  const chunks: string[] = [];
+  let current: string[] | null = null;
+
+  for (const line of diffText.split("\n")) {
+    if (line.startsWith("diff --git ")) {
+      if (current) {
+        chunks.push(`${current.join("\n")}\n`);
+      }
+      current = [line];
+      continue;
+    }
+
+    current?.push(line);
+  }
+
+  if (current) {
+    while (current.length > 1 && current[current.length - 1] === "") {
+      current.pop();
+    }
+    chunks.push(`${current.join("\n")}\n`);
+  }
+
+  return chunks;
+}
+
+/** Labels a single-file patch the way `mapStatusLabel` labels status entries. */
+export function describeDiffChunk(chunk: string): string {
+  const metadata = chunk.slice(0, chunk.indexOf("\n@@") === -1 ? chunk.length : chunk.indexOf("\n@@"));
+  if (/^rename from /m.test(metadata)) {
+    return "Renamed";
+  }
+
+  if (/^copy from /m.test(metadata)) {
+    return "Copied";
+  }
+
+  if (/^new file mode /m.test(metadata)) {
+    return "Added";
+  }
+
+  if (/^deleted file mode /m.test(metadata)) {
+    return "Deleted";
+  }
+
+  return "Modified";
+}
+
+export function truncateText(text: string, maxBytes: number): TruncatedText {
+  const bytes = Buffer.from(text, "utf8");
+  if (bytes.length <= maxBytes) {
+    return { text, truncated: false };
+  }
+
+  // Cut on a line boundary so the renderer never sees half a diff line.
+  const head = bytes.subarray(0, maxBytes).toString("utf8");
+  const lastNewline = head.lastIndexOf("\n");
+  return {
+    text: lastNewline === -1 ? "" : head.slice(0, lastNewline + 1),
+    truncated: true
+  };
+}
+
+/**
+ * Truncates each file's patch to `maxFileBytes` and the files together to `maxTotalBytes`, in order.
+ * Returns whether anything was cut.
+ */
+export function applyDiffSizeCaps(
+  files: Array<{ diff: string; truncated: boolean }>,
+  maxFileBytes: number,
+  maxTotalBytes: number
+): boolean {
+  let remainingBytes = maxTotalBytes;
+  let truncated = false;
+  for (const file of files) {
+    const limited = truncateText(file.diff, Math.min(maxFileBytes, Math.max(remainingBytes, 0)));
+    remainingBytes -= Buffer.byteLength(limited.text, "utf8");
+    file.diff = limited.text;
+    if (limited.truncated) {
+      file.truncated = true;
+    }
+    truncated ||= file.truncated;
+  }
+
+  return truncated;
+}
+
+export function isBinaryContent(content: Buffer): boolean {
+  return content.subarray(0, BINARY_SNIFF_BYTES).includes(0);
+}
+
+export function countLines(content: string): number {
+  if (content.length === 0) {
+    return 0;
+  }
+
+  const newlines = content.split("\n").length - 1;
+  return content.endsWith("\n") ? newlines : newlines + 1;
+}
+
+/** Builds the same patch `git diff --no-index /dev/null <path>` would print for a text file. */
+export function buildUntrackedFileDiff(relativePath: string, content: string, mode: string): string {
+  const header = [
+    `diff --git a/${relativePath} b/${relativePath}`,
+    `new file mode ${mode}`,
+    "--- /dev/null",
+    `+++ b/${relativePath}`
+  ];
+  const lineCount = countLines(content);
+  if (lineCount === 0) {
+    return `${header.slice(0, 2).join("\n")}\n`;
+  }
+
+  const lines = content.split("\n");
+  if (content.endsWith("\n")) {
+    lines.pop();
+  }
+
+  const body = lines.map((line) => `+${line}`);
+  if (!content.endsWith("\n")) {
+    body.push("\\ No newline at end of file");
+  }
+
+  return `${[...header, `@@ -0,0 +1${lineCount === 1 ? "" : `,${lineCount}`} @@`, ...body].join("\n")}\n`;
+}
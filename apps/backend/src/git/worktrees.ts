@@ -0,0 +1,332 @@
+import { createHash, randomUUID } from "node:crypto";
+import fs from "node:fs/promises";
+import path from "node:path";
+
+import type { ThreadMetadataStore, ThreadWorktreeRecord } from "../threads/metadata-store.js";
+import { deleteThreadCheckpoints } from "./checkpoints.js";
+import {
+  GitBranchExistsError,
+  GitCommandError,
+  GitInvalidRefError,
+  GitRefNotFoundError,
+  GitServiceError,
+  runGitCommand,
+  type GitService,
+  type GitStatusSummary
+} from "./service.js";
+
+// Worktrees live inside the workspace so they stay under its allowed root and sandbox.
+const WORKTREE_DIRECTORY = path.join(".poketcodex", "worktrees");
+const WORKTREE_EXCLUDE_PATTERN = "/.poketcodex/";
+
+export interface GitWorktreeCreateInput {
+  branch?: string;
+  baseRef?: string;
+}
+
+/** A worktree that exists on disk but has not been attached to a thread yet. */
+export interface GitPendingWorktree {
+  path: string;
+  branch: string;
+  baseRef: string;
+  baseSha: string;
+}
+
+export interface GitWorktreeSummary extends ThreadWorktreeRecord {
+  exists: boolean;
+  dirty: boolean;
+  unmergedCommits: number;
+}
+
+export interface GitWorktreeMergeInput {
+  /** Commits uncommitted worktree changes with this message before merging. */
+  message?: string;
+}
+
+export interface GitWorktreeMergeResult {
+  branch: string;
+  mergedInto: string | null;
+  committed: boolean;
+  merged: boolean;
+  status: GitStatusSummary;
+}
+
+export interface GitWorktreeRemoveInput {
+  force?: boolean;
+  deleteBranch?: boolean;
+}
+
+export class GitWorktreeNotFoundError extends GitServiceError {
+  constructor(threadId: string) {
+    super(`Thread ${threadId} has no worktree`);
+    this.name = "GitWorktreeNotFoundError";
+  }
+}
+
+export class GitWorktreeChangesError extends GitServiceError {
+  constructor(message: string) {
+    super(message);
+    this.name = "GitWorktreeChangesError";
+  }
+}
+
+export class GitMergeConflictError extends GitServiceError {
+  constructor(branch: string) {
+    super(`Merging '${branch}' conflicts with the current branch; the merge was aborted`);
+    this.name = "GitMergeConflictError";
+  }
+}
+
+function worktreeDirectoryName(branch: string): string {
+  // Sanitizing maps `feature/a` and `feature-a` to the same name; the hash keeps their directories apart.
+  const suffix = createHash("sha256").update(branch).digest("hex").slice(0, 8);
+  return `${branch.replace(/[^A-Za-z0-9._-]+/g, "-")}-${suffix}`;
+}
+
+/**
+ * Gives threads their own `git worktree` on a fresh branch, so parallel threads in one workspace stop
+ * editing the same checkout. The thread metadata store remembers which worktree belongs to which thread.
+ */
+export class GitWorktreeService {
+  constructor(
+    private readonly gitService: GitService,
+    private readonly metadataStore: ThreadMetadataStore
+  ) {}
+
+  async createWorktree(workspaceId: string, input: GitWorktreeCreateInput = {}): Promise<GitPendingWorktree> {
+    const workspacePath = await this.gitService.resolveRepository(workspaceId);
+    const branch = input.branch?.trim() || `poketcodex/${randomUUID().slice(0, 8)}`;
+    if (branch.startsWith("-")) {
+      throw new GitInvalidRefError(branch);
+    }
+
+    const check = await runGitCommand(workspacePath, ["check-ref-format", "--branch", branch]);
+    if (check.exitCode !== 0) {
+      throw new GitInvalidRefError(branch);
+    }
+
+    const existing = await runGitCommand(workspacePath, ["rev-parse", "--verify", "--quiet", `refs/heads/${branch}`]);
+    if (existing.exitCode === 0) {
+      throw new GitBranchExistsError(branch);
+    }
+
+    const baseRef = input.baseRef?.trim() || "HEAD";
+    if (baseRef.startsWith("-")) {
+      throw new GitInvalidRefError(baseRef);
+    }
+
+    const base = await runGitCommand(workspacePath, ["rev-parse", "--verify", "--quiet", `${baseRef}^{commit}`]);
+    if (base.exitCode !== 0) {
+      throw new GitRefNotFoundError(baseRef);
+    }
+
+    await this.excludeWorktreeDirectory(workspacePath);
+    const worktreePath = path.join(workspacePath, WORKTREE_DIRECTORY, worktreeDirectoryName(branch));
+    const baseSha = base.stdout.trim();
+    await this.runMutation(workspacePath, ["worktree", "add", "--quiet", "-b", branch, worktreePath, baseSha]);
+
+    return { path: worktreePath, branch, baseRef, baseSha };
+  }
+
+  attachWorktree(workspaceId: string, threadId: string, worktree: GitPendingWorktree): ThreadWorktreeRecord {
+    const record: ThreadWorktreeRecord = {
+      threadId,
+      workspaceId,
+      ...worktree,
+      createdAt: new Date().toISOString()
+    };
+    this.metadataStore.saveWorktree(record);
+    return record;
+  }
+
+  /** Throws away a worktree whose thread never started, along with its still-empty branch. */
+  async discardWorktree(workspaceId: string, worktree: GitPendingWorktree): Promise<void> {
+    const workspacePath = await this.gitService.resolveRepository(workspaceId);
+    await this.runMutation(workspacePath, ["worktree", "remove", "--force", worktree.path]);
+    await this.runMutation(workspacePath, ["branch", "-D", worktree.branch]);
+  }
+
+  getThreadWorktree(workspaceId: string, threadId: string): ThreadWorktreeRecord | null {
+    return this.metadataStore.getWorktree(workspaceId, threadId);
+  }
+
+  async listWorktrees(workspaceId: string): Promise<GitWorktreeSummary[]> {
+    const workspacePath = await this.gitService.resolveRepository(workspaceId);
+    const summaries: GitWorktreeSummary[] = [];
+    for (const record of this.metadataStore.listWorktrees(workspaceId)) {
+      const exists = await this.worktreeExists(record.path);
+      summaries.push({
+        ...record,
+        exists,
+        dirty: exists && (await this.isDirty(record.path)),
+        unmergedCommits: await this.countUnmergedCommits(workspacePath, record.branch)
+      });
+    }
+
+    return summaries;
+  }
+
+  async mergeWorktree(
+    workspaceId: string,
+    threadId: string,
+    input: GitWorktreeMergeInput = {}
+  ): Promise<GitWorktreeMergeResult> {
+    const workspacePath = await this.gitService.resolveRepository(workspaceId);
+    const record = this.requireWorktree(workspaceId, threadId);
+
+    let committed = false;
+    if ((await this.worktreeExists(record.path)) && (await this.isDirty(record.path))) {
+      const message = input.message?.trim();
+      if (!message) {
+        throw new GitWorktreeChangesError(
+          `Worktree '${record.branch}' has uncommitted changes; commit them or provide a commit message`
+        );
+      }
+
+      await this.runMutation(record.path, ["add", "--all"]);
+      await this.runMutation(record.path, ["commit", "--quiet", "-m", message]);
+      committed = true;
+    }
+
+    const currentBranch = await runGitCommand(workspacePath, ["symbolic-ref", "--quiet", "--short", "HEAD"]);
+    const mergedInto = currentBranch.exitCode === 0 ? currentBranch.stdout.trim() : null;
+    if ((await this.countUnmergedCommits(workspacePath, record.branch)) === 0) {
+      return {
+        branch: record.branch,
+        mergedInto,
+        committed,
+        merged: false,
+        status: await this.gitService.getStatus(workspaceId)
+      };
+    }
+
+    const merge = await runGitCommand(workspacePath, ["merge", "--no-ff", "--no-edit", record.branch]);
+    if (merge.exitCode !== 0) {
+      const mergeHead = await runGitCommand(workspacePath, ["rev-parse", "--verify", "--quiet", "MERGE_HEAD"]);
+      if (mergeHead.exitCode === 0) {
+        // Leave the main checkout as it was instead of handing the user a half-finished merge.
+        await runGitCommand(workspacePath, ["merge", "--abort"]);
+        throw new GitMergeConflictError(record.branch);
+      }
+
+      throw new GitCommandError(`git merge ${record.branch}`, merge.exitCode, merge.stderr);
+    }
+
+    return {
+      branch: record.branch,
+      mergedInto,
+      committed,
+      merged: true,
+      status: await this.gitService.getStatus(workspaceId)
+    };
+  }
+
+  async removeWorktree(
+    workspaceId: string,
+    threadId: string,
+    input: GitWorktreeRemoveInput = {}
+  ): Promise<ThreadWorktreeRecord> {
+    const workspacePath = await this.gitService.resolveRepository(workspaceId);
+    const record = this.requireWorktree(workspaceId, threadId);
+    const force = input.force === true;
+
+    const exists = await this.worktreeExists(record.path);
+    if (!force && exists && (await this.isDirty(record.path))) {
+      throw new GitWorktreeChangesError(
+        `Worktree '${record.branch}' has uncommitted changes; merge or discard them before removing it`
+      );
+    }
+
+    const unmergedCommits = await this.countUnmergedCommits(workspacePath, record.branch);
+    if (!force && input.deleteBranch === true && unmergedCommits > 0) {
+      throw new GitWorktreeChangesError(
+        `Branch '${record.branch}' has ${unmergedCommits} unmerged commit${unmergedCommits === 1 ? "" : "s"}; ` +
+          "merge it or keep the branch"
+      );
+    }
+
+    if (exists) {
+      await this.runMutation(workspacePath, ["worktree", "remove", ...(force ? ["--force"] : []), record.path]);
+    } else {
+      // Someone deleted the directory by hand; drop git's bookkeeping for it.
+      await this.runMutation(workspacePath, ["worktree", "prune"]);
+    }
+
+    if (input.deleteBranch === true) {
+      const branchExists = await runGitCommand(workspacePath, [
+        "rev-parse",
+        "--verify",
+        "--quiet",
+        `refs/heads/${record.branch}`
+      ]);
+      if (branchExists.exitCode === 0) {
+        await this.runMutation(workspacePath, ["branch", "-D", record.branch]);
+      }
+    }
+
+    // The checkpoints snapshot the removed checkout; reverting one would now land in the main checkout.
+    await deleteThreadCheckpoints(workspacePath, threadId);
+    this.metadataStore.deleteWorktree(workspaceId, threadId);
+    return record;
+  }
+
+  private requireWorktree(workspaceId: string, threadId: string): ThreadWorktreeRecord {
+    const record = this.metadataStore.getWorktree(workspaceId, threadId);
+    if (!record) {
+      throw new GitWorktreeNotFoundError(threadId);
+    }
+
+    return record;
+  }
+
+  private async excludeWorktreeDirectory(workspacePath: string): Promise<void> {
+    const excludePath = await runGitCommand(workspacePath, ["rev-parse", "--git-path", "info/exclude"]);
+    if (excludePath.exitCode !== 0) {
+      throw new GitCommandError("git rev-parse --git-path info/exclude", excludePath.exitCode, excludePath.stderr);
+    }
+
+    // Without this the main checkout would list every worktree as untracked files.
+    const absoluteExcludePath = path.resolve(workspacePath, excludePath.stdout.trim());
+    const current = await fs.readFile(absoluteExcludePath, "utf8").catch((error: NodeJS.ErrnoException) => {
+      if (error.code === "ENOENT") {
+        return "";
+      }
+      throw error;
+    });
+    if (current.split(/\r?\n/).includes(WORKTREE_EXCLUDE_PATTERN)) {
+      return;
+    }
+
+    await fs.mkdir(path.dirname(absoluteExcludePath), { recursive: true });
+    const separator = current.length === 0 || current.endsWith("\n") ? "" : "\n";
+    await fs.appendFile(absoluteExcludePath, `${separator}${WORKTREE_EXCLUDE_PATTERN}\n`);
+  }
+
+  private async worktreeExists(worktreePath: string): Promise<boolean> {
+    return await fs
+      .stat(worktreePath)
+      .then((stats) => stats.isDirectory())
+      .catch(() => false);
+  }
+
+  private async isDirty(worktreePath: string): Promise<boolean> {
+    const status = await runGitCommand(worktreePath, ["status", "--porcelain", "--untracked-files=all"]);
+    if (status.exitCode !== 0) {
+      throw new GitCommandError("git status --porcelain", status.exitCode, status.stderr);
+    }
+
+    return status.stdout.trim().length > 0;
+  }
+
+  private async countUnmergedCommits(workspacePath: string, branch: string): Promise<number> {
+    const count = await runGitCommand(workspacePath, ["rev-list", "--count", `HEAD..refs/heads/${branch}`]);
+    return count.exitCode === 0 ? Number.parseInt(count.stdout.trim(), 10) || 0 : 0;
+  }
+
+  private async runMutation(cwd: string, args: string[]): Promise<void> {
+    const result = await runGitCommand(cwd, args);
+    if (result.exitCode !== 0) {
+      throw new GitCommandError(`git ${args.join(" ")}`, result.exitCode, result.stderr);
+    }
+  }
+}
@@ -0,0 +1,208 @@
+import type { FastifyPluginAsync } from "fastify";
+
+import type { SessionRecord } from "../auth/session-store.js";
+import { AppServerManagerError, AppServerSchemaDriftError } from "../codex/app-server-manager.js";
+import type { ReviewTarget } from "../codex/protocol.js";
+import {
+  WorkspaceNotFoundError,
+  WorkspaceRuntimeError,
+  WorkspaceRuntimeLimitError
+} from "../codex/workspace-app-server-pool.js";
+import { ReviewNotFoundError, type ReviewService, type StartReviewInput } from "./service.js";
+
+const COMMIT_SHA_PATTERN = /^[0-9a-f]{4,40}$/i;
+const MAX_BRANCH_LENGTH = 255;
+
+interface ReviewRouteParams {
+  workspaceId?: unknown;
+  reviewId?: unknown;
+}
+
+interface ReviewRequestBody {
+  target?: unknown;
+  threadId?: unknown;
+}
+
+interface AuthenticatedRequestLike {
+  authSession?: SessionRecord;
+}
+
+export interface ReviewPluginOptions {
+  reviewService: ReviewService;
+}
+
+export class ReviewRequestValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ReviewRequestValidationError";
+  }
+}
+
+function requireRouteParam(params: unknown, key: keyof ReviewRouteParams): string {
+  const value = (params as ReviewRouteParams)[key];
+  if (typeof value !== "string" || value.length === 0) {
+    throw new ReviewRequestValidationError(`${key} path parameter is required`);
+  }
+
+  return value;
+}
+
+function parseReviewTarget(value: unknown): ReviewTarget {
+  const target = value !== null && typeof value === "object" ? (value as Record<string, unknown>) : null;
+
+  switch (target?.type) {
+    case "uncommittedChanges":
+      return { type: "uncommittedChanges" };
+    case "commit": {
+      const sha = typeof target.sha === "string" ? target.sha.trim() : "";
+      if (!COMMIT_SHA_PATTERN.test(sha)) {
+        throw new ReviewRequestValidationError("target.sha must be a commit hash");
+      }
+
+      return { type: "commit", sha };
+    }
+    case "baseBranch": {
+      const branch = typeof target.branch === "string" ? target.branch.trim() : "";
+      if (branch.length === 0 || branch.length > MAX_BRANCH_LENGTH || branch.startsWith("-")) {
+        throw new ReviewRequestValidationError("target.branch must be a branch name");
+      }
+
+      return { type: "baseBranch", branch };
+    }
+    default:
+      throw new ReviewRequestValidationError("target.type must be one of: uncommittedChanges, commit, baseBranch");
+  }
+}
+
+function parseStartReviewBody(body: ReviewRequestBody | undefined): StartReviewInput {
+  const threadId = body?.threadId;
+  if (threadId !== undefined && (typeof threadId !== "string" || threadId.length === 0)) {
+    throw new ReviewRequestValidationError("threadId must be a non-empty string when provided");
+  }
+
+  return {
+    target: parseReviewTarget(body?.target),
+    ...(threadId === undefined ? {} : { threadId })
+  };
+}
+
+export const reviewPlugin: FastifyPluginAsync<ReviewPluginOptions> = async (app, options) => {
+  const { reviewService } = options;
+
+  app.get("/api/workspaces/:workspaceId/reviews", async (request, reply) => {
+    try {
+      const authenticatedRequest = request as AuthenticatedRequestLike;
+      if (!authenticatedRequest.authSession) {
+        return reply.code(401).send({
+          error: "unauthorized",
+          message: "Authentication is required for reviews"
+        });
+      }
+
+      const workspaceId = requireRouteParam(request.params, "workspaceId");
+      return reply.code(200).send({
+        reviews: reviewService.listReviews(workspaceId)
+      });
+    } catch (error: unknown) {
+      return handleReviewError(request, reply, error);
+    }
+  });
+
+  app.get("/api/workspaces/:workspaceId/reviews/:reviewId", async (request, reply) => {
+    try {
+      const authenticatedRequest = request as AuthenticatedRequestLike;
+      if (!authenticatedRequest.authSession) {
+        return reply.code(401).send({
+          error: "unauthorized",
+          message: "Authentication is required for reviews"
+        });
+      }
+
+      const workspaceId = requireRouteParam(request.params, "workspaceId");
+      const reviewId = requireRouteParam(request.params, "reviewId");
+      return reply.code(200).send({
+        review: reviewService.getReview(workspaceId, reviewId)
+      });
+    } catch (error: unknown) {
+      return handleReviewError(request, reply, error);
+    }
+  });
+
+  app.post("/api/workspaces/:workspaceId/reviews", async (request, reply) => {
+    try {
+      const workspaceId = requireRouteParam(request.params, "workspaceId");
+      const input = parseStartReviewBody(request.body as ReviewRequestBody | undefined);
+      const review = await reviewService.startReview(workspaceId, input);
+
+      request.log.info(
+        {
+          workspaceId,
+          reviewId: review.reviewId,
+          threadId: review.threadId,
+          target: review.target.type
+        },
+        "review started"
+      );
+
+      return reply.code(200).send({ review });
+    } catch (error: unknown) {
+      return handleReviewError(request, reply, error);
+    }
+  });
+};
+
+function handleReviewError(
+  request: {
+    log: {
+      error(payload: unknown, message: string): void;
+    };
+  },
+  reply: {
+    code(statusCode: number): {
+      send(payload: unknown): unknown;
+    };
+  },
+  error: unknown
+): unknown {
+  if (error instanceof ReviewRequestValidationError) {
+    return reply.code(400).send({
+      error: "bad_request",
+      message: error.message
+    });
+  }
+
+  if (error instanceof WorkspaceNotFoundError || error instanceof ReviewNotFoundError) {
+    return reply.code(404).send({
+      error: "not_found",
+      message: error.message
+    });
+  }
+
+  if (error instanceof AppServerSchemaDriftError) {
+    request.log.error({ err: error, method: error.method, issues: error.issues }, "app-server schema drift");
+    return reply.code(502).send({
+      error: "schema_drift",
+      message: error.message
+    });
+  }
+
+  if (error instanceof WorkspaceRuntimeLimitError) {
+    return reply.code(429).send({
+      error: "runtime_limit",
+      message: error.message
+    });
+  }
+
+  if (error instanceof WorkspaceRuntimeError || error instanceof AppServerManagerError) {
+    return reply.code(502).send({
+      error: "upstream_error",
+      message: error.message
+    });
+  }
+
+  request.log.error({ err: error }, "review route failed");
+  return reply.code(500).send({
+    error: "internal_error",
+    message: "Review request failed"
+  });
+}
@@ -0,0 +1,292 @@
+import { randomUUID } from "node:crypto";
+import path from "node:path";
+
+import { ReviewOutputSchema, type ReviewOutput } from "@poketcodex/shared";
+
+import type { ReviewTarget } from "../codex/protocol.js";
+import { withThreadRuntimePolicy } from "../codex/runtime-policy.js";
+import {
+  WorkspaceNotFoundError,
+  type WorkspaceAppServerPool,
+  type WorkspaceRuntimeEvent
+} from "../codex/workspace-app-server-pool.js";
+
+const MAX_REVIEWS_PER_WORKSPACE = 20;
+
+export type ReviewStatus = "running" | "completed" | "failed";
+
+export interface ReviewFindingRecord {
+  index: number;
+  title: string;
+  body: string;
+  priority: number | null;
+  confidence: number | null;
+  absolutePath: string;
+  relativePath: string | null;
+  lineStart: number;
+  lineEnd: number;
+}
+
+export interface ReviewRecord {
+  reviewId: string;
+  workspaceId: string;
+  threadId: string;
+  reviewThreadId: string;
+  turnId: string | null;
+  target: ReviewTarget;
+  status: ReviewStatus;
+  findings: ReviewFindingRecord[];
+  overallCorrectness: string | null;
+  summary: string | null;
+  error: string | null;
+  startedAt: string;
+  completedAt: string | null;
+}
+
+export interface StartReviewInput {
+  target: ReviewTarget;
+  threadId?: string;
+}
+
+export interface ReviewServiceOptions {
+  now?: () => number;
+}
+
+export class ReviewServiceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ReviewServiceError";
+  }
+}
+
+export class ReviewNotFoundError extends ReviewServiceError {
+  constructor(reviewId: string) {
+    super(`Review '${reviewId}' was not found`);
+    this.name = "ReviewNotFoundError";
+  }
+}
+
+function asRecord(value: unknown): Record<string, unknown> | null {
+  return value !== null && typeof value === "object" ? (value as Record<string, unknown>) : null;
+}
+
+function readString(record: Record<string, unknown> | null, ...keys: string[]): string | null {
+  for (const key of keys) {
+    const value = record?.[key];
+    if (typeof value === "string" && value.length > 0) {
+      return value;
+    }
+  }
+
+  return null;
+}
+
+function relativeToWorkspace(workspaceRoot: string, absolutePath: string): string | null {
+  const relativePath = path.relative(workspaceRoot, absolutePath);
+  if (relativePath.length === 0 || relativePath.startsWith("..") || path.isAbsolute(relativePath)) {
+    return null;
+  }
+
+  return relativePath.split(path.sep).join("/");
+}
+
+export class ReviewService {
+  private readonly now: () => number;
+  private readonly reviewsByWorkspace = new Map<string, ReviewRecord[]>();
+  private readonly unsubscribeFromRuntimeEvents: () => void;
+
+  constructor(
+    private readonly runtimePool: WorkspaceAppServerPool,
+    options: ReviewServiceOptions = {}
+  ) {
+    this.now = options.now ?? Date.now;
+    this.unsubscribeFromRuntimeEvents = runtimePool.subscribeToRuntimeEvents((event) => {
+      this.handleRuntimeEvent(event);
+    });
+  }
+
+  async startReview(workspaceId: string, input: StartReviewInput): Promise<ReviewRecord> {
+    const workspace = this.runtimePool.getWorkspace(workspaceId);
+    const client = await this.runtimePool.getClient(workspaceId);
+
+    let threadId = input.threadId;
+    if (!threadId) {
+      const thread = await client.threadStart(withThreadRuntimePolicy({}, workspace));
+      threadId = thread.thread.id;
+    }
+
+    // Inline reviews run on the requested thread, so notifications that arrive before the
+    // review/start response can already be matched by thread id.
+    const review: ReviewRecord = {
+      reviewId: randomUUID(),
+      workspaceId,
+      threadId,
+      reviewThreadId: threadId,
+      turnId: null,
+      target: input.target,
+      status: "running",
+      findings: [],
+      overallCorrectness: null,
+      summary: null,
+      error: null,
+      startedAt: new Date(this.now()).toISOString(),
+      completedAt: null
+    };
+    this.storeReview(review);
+
+    try {
+      const result = await client.reviewStart({ threadId, target: input.target, delivery: "inline" });
+      review.reviewThreadId = result.reviewThreadId ?? threadId;
+      review.turnId = result.turn.id;
+      if (result.turn.status === "completed" && review.status === "running") {
+        this.finishReview(review, "completed", null);
+        return { ...review };
+      }
+    } catch (error: unknown) {
+      this.removeReview(review);
+      throw error;
+    }
+
+    this.publish(review);
+    return { ...review };
+  }
+
+  listReviews(workspaceId: string): ReviewRecord[] {
+    if (!this.runtimePool.workspaceExists(workspaceId)) {
+      throw new WorkspaceNotFoundError(workspaceId);
+    }
+
+    return (this.reviewsByWorkspace.get(workspaceId) ?? []).map((review) => ({ ...review }));
+  }
+
+  getReview(workspaceId: string, reviewId: string): ReviewRecord {
+    if (!this.runtimePool.workspaceExists(workspaceId)) {
+      throw new WorkspaceNotFoundError(workspaceId);
+    }
+
+    const review = this.reviewsByWorkspace.get(workspaceId)?.find((entry) => entry.reviewId === reviewId);
+    if (!review) {
+      throw new ReviewNotFoundError(reviewId);
+    }
+
+    return { ...review };
+  }
+
+  close(): void {
+    this.unsubscribeFromRuntimeEvents();
+    this.reviewsByWorkspace.clear();
+  }
+
+  private handleRuntimeEvent(event: WorkspaceRuntimeEvent): void {
+    if (event.kind === "stateChanged" && (event.payload === "degraded" || event.payload === "stopped")) {
+      for (const review of this.runningReviews(event.workspaceId)) {
+        this.finishReview(review, "failed", "Runtime stopped before the review finished");
+      }
+      return;
+    }
+
+    if (event.kind !== "notification") {
+      return;
+    }
+
+    const notification = asRecord(event.payload);
+    const method = readString(notification, "method");
+    const params = asRecord(notification?.params);
+    if (!method || !params) {
+      return;
+    }
+
+    if (method === "codex/event/exited_review_mode") {
+      const review = this.findRunningReview(event.workspaceId, readString(params, "conversationId", "threadId"));
+      const output = ReviewOutputSchema.safeParse(asRecord(params.msg)?.review_output);
+      if (review && output.success) {
+        this.applyReviewOutput(review, output.data);
+        this.publish(review);
+      }
+      return;
+    }
+
+    if (method === "item/completed") {
+      const item = asRecord(params.item);
+      const review = this.findRunningReview(event.workspaceId, readString(params, "threadId"));
+      const reviewText = readString(item, "review");
+      if (review && item?.type === "exitedReviewMode" && reviewText && review.summary === null) {
+        review.summary = reviewText;
+        this.publish(review);
+      }
+      return;
+    }
+
+    if (method === "turn/completed") {
+      const turn = asRecord(params.turn);
+      const review = this.findRunningReview(event.workspaceId, readString(params, "threadId"), readString(turn, "id"));
+      if (!review) {
+        return;
+      }
+
+      if (turn?.status === "failed") {
+        this.finishReview(review, "failed", readString(asRecord(turn.error), "message") ?? "Review turn failed");
+      } else {
+        this.finishReview(review, "completed", null);
+      }
+    }
+  }
+
+  private applyReviewOutput(review: ReviewRecord, output: ReviewOutput): void {
+    const workspaceRoot = this.runtimePool.getWorkspace(review.workspaceId).absolutePath;
+    review.findings = output.findings.map((finding, index) => ({
+      index,
+      title: finding.title,
+      body: finding.body,
+      priority: finding.priority ?? null,
+      confidence: finding.confidence_score ?? null,
+      absolutePath: finding.code_location.absolute_file_path,
+      relativePath: relativeToWorkspace(workspaceRoot, finding.code_location.absolute_file_path),
+      lineStart: finding.code_location.line_range.start,
+      lineEnd: finding.code_location.line_range.end
+    }));
+    review.overallCorrectness = output.overall_correctness ?? null;
+    review.summary = output.overall_explanation ?? review.summary;
+  }
+
+  private finishReview(review: ReviewRecord, status: Exclude<ReviewStatus, "running">, error: string | null): void {
+    review.status = status;
+    review.error = error;
+    review.completedAt = new Date(this.now()).toISOString();
+    this.publish(review);
+  }
+
+  private runningReviews(workspaceId: string): ReviewRecord[] {
+    return (this.reviewsByWorkspace.get(workspaceId) ?? []).filter((review) => review.status === "running");
+  }
+
+  private findRunningReview(workspaceId: string, threadId: string | null, turnId: string | null = null): ReviewRecord | null {
+    if (!threadId) {
+      return null;
+    }
+
+    return (
+      this.runningReviews(workspaceId).find(
+        (review) =>
+          review.reviewThreadId === threadId && (turnId === null || review.turnId === null || review.turnId === turnId)
+      ) ?? null
+    );
+  }
+
+  private storeReview(review: ReviewRecord): void {
+    const reviews = this.reviewsByWorkspace.get(review.workspaceId) ?? [];
+    this.reviewsByWorkspace.set(review.workspaceId, [review, ...reviews].slice(0, MAX_REVIEWS_PER_WORKSPACE));
+  }
+
+  private removeReview(review: ReviewRecord): void {
+    const reviews = this.reviewsByWorkspace.get(review.workspaceId) ?? [];
+    this.reviewsByWorkspace.set(
+      review.workspaceId,
+      reviews.filter((entry) => entry !== review)
+    );
+  }
+
+  private publish(review: ReviewRecord): void {
+    this.runtimePool.publishRuntimeEvent(review.workspaceId, "reviewUpdated", { ...review });
+  }
+}
@@ -0,0 +1,160 @@
+import type { FastifyPluginAsync } from "fastify";
+
+import type { SessionRecord } from "../auth/session-store.js";
+import { AppServerManagerError } from "../codex/app-server-manager.js";
+import {
+  WorkspaceNotFoundError,
+  WorkspaceRuntimeError,
+  WorkspaceRuntimeLimitError,
+  type WorkspaceAppServerPool
+} from "../codex/workspace-app-server-pool.js";
+import type { UserService } from "../users/service.js";
+import type { UserRecord } from "../users/store.js";
+
+interface RuntimeRouteParams {
+  workspaceId?: unknown;
+}
+
+interface AuthenticatedRequestLike {
+  authSession?: SessionRecord;
+  authUser?: UserRecord;
+}
+
+export interface RuntimePluginOptions {
+  runtimePool: WorkspaceAppServerPool;
+  userService?: UserService;
+}
+
+export class RuntimeRequestValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RuntimeRequestValidationError";
+  }
+}
+
+function requireWorkspaceId(params: unknown): string {
+  const workspaceId = (params as RuntimeRouteParams).workspaceId;
+  if (typeof workspaceId !== "string" || workspaceId.length === 0) {
+    throw new RuntimeRequestValidationError("workspaceId path parameter is required");
+  }
+
+  return workspaceId;
+}
+
+export const runtimePlugin: FastifyPluginAsync<RuntimePluginOptions> = async (app, options) => {
+  const { runtimePool, userService } = options;
+
+  app.get("/api/runtimes", async (request, reply) => {
+    try {
+      const authenticatedRequest = request as AuthenticatedRequestLike;
+      if (!authenticatedRequest.authSession) {
+        return reply.code(401).send({
+          error: "unauthorized",
+          message: "Authentication is required for runtimes"
+        });
+      }
+
+      const { authUser } = authenticatedRequest;
+      const runtimes = runtimePool.listRuntimes();
+      return reply.code(200).send({
+        runtimes:
+          authUser && userService
+            ? runtimes.filter((runtime) => userService.canAccessWorkspace(authUser, runtime.workspaceId))
+            : runtimes
+      });
+    } catch (error: unknown) {
+      return handleRuntimeError(request, reply, error);
+    }
+  });
+
+  app.get("/api/workspaces/:workspaceId/runtime", async (request, reply) => {
+    try {
+      const authenticatedRequest = request as AuthenticatedRequestLike;
+      if (!authenticatedRequest.authSession) {
+        return reply.code(401).send({
+          error: "unauthorized",
+          message: "Authentication is required for runtimes"
+        });
+      }
+
+      const workspaceId = requireWorkspaceId(request.params);
+      return reply.code(200).send({
+        runtime: runtimePool.inspectRuntime(workspaceId)
+      });
+    } catch (error: unknown) {
+      return handleRuntimeError(request, reply, error);
+    }
+  });
+
+  app.post("/api/workspaces/:workspaceId/runtime/restart", async (request, reply) => {
+    try {
+      const workspaceId = requireWorkspaceId(request.params);
+      const runtime = await runtimePool.restartWorkspaceRuntime(workspaceId);
+
+      request.log.info({ workspaceId, pid: runtime.pid }, "workspace runtime restarted");
+      return reply.code(200).send({ runtime });
+    } catch (error: unknown) {
+      return handleRuntimeError(request, reply, error);
+    }
+  });
+
+  app.post("/api/workspaces/:workspaceId/runtime/stop", async (request, reply) => {
+    try {
+      const workspaceId = requireWorkspaceId(request.params);
+      const runtime = await runtimePool.stopWorkspaceRuntime(workspaceId);
+
+      request.log.info({ workspaceId }, "workspace runtime stopped");
+      return reply.code(200).send({ runtime });
+    } catch (error: unknown) {
+      return handleRuntimeError(request, reply, error);
+    }
+  });
+};
+
+function handleRuntimeError(
+  request: {
+    log: {
+      error(payload: unknown, message: string): void;
+    };
+  },
+  reply: {
+    code(statusCode: number): {
+      send(payload: unknown): unknown;
+    };
+  },
+  error: unknown
+): unknown {
+  if (error instanceof RuntimeRequestValidationError) {
+    return reply.code(400).send({
+      error: "bad_request",
+      message: error.message
+    });
+  }
+
+  if (error instanceof WorkspaceNotFoundError) {
+    return reply.code(404).send({
+      error: "not_found",
+      message: error.message
+    });
+  }
+
+  if (error instanceof WorkspaceRuntimeLimitError) {
+    return reply.code(429).send({
+      error: "runtime_limit",
+      message: error.message
+    });
+  }
+
+  if (error instanceof WorkspaceRuntimeError || error instanceof AppServerManagerError) {
+    return reply.code(502).send({
+      error: "upstream_error",
+      message: error.message
+    });
+  }
+
+  request.log.error({ err: error }, "runtime route failed");
+  return reply.code(500).send({
+    error: "internal_error",
+    message: "Runtime request failed"
+  });
+}
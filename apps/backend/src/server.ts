@@ -1,11 +1,27 @@
 import { buildApp } from "./app.js";
+import { ApprovalService } from "./approvals/service.js";
+import { PasskeyStore } from "./auth/passkey-store.js";
+import { PasskeyService } from "./auth/passkeys.js";
+import { SqliteSessionStore } from "./auth/session-store.js";
+import { TwoFactorService } from "./auth/two-factor.js";
+import { TwoFactorStore } from "./auth/two-factor-store.js";
 import type { AppServerManagerFactory } from "./codex/workspace-app-server-pool.js";
-import { WorkspaceAppServerPool } from "./codex/workspace-app-server-pool.js";
+import { DEFAULT_RUNTIME_RESTART_POLICY, WorkspaceAppServerPool } from "./codex/workspace-app-server-pool.js";
 import { loadConfig, redactConfig, type AppConfig } from "./config.js";
+import { InMemoryWorkspaceEventLog, SqliteWorkspaceEventLog } from "./events/event-log.js";
+import { FileService } from "./files/service.js";
+import { GitCheckpointService } from "./git/checkpoints.js";
+import { CommitMessageService } from "./git/commit-message.js";
 import { GitService } from "./git/service.js";
+import { GitStatusWatcher } from "./git/status-watcher.js";
+import { GitWorktreeService } from "./git/worktrees.js";
+import { ReviewService } from "./reviews/service.js";
+import { TerminalService } from "./terminals/service.js";
 import { ThreadMetadataStore } from "./threads/metadata-store.js";
 import { ThreadService } from "./threads/service.js";
 import { TurnService } from "./turns/service.js";
+import { UserService } from "./users/service.js";
+import { UserStore } from "./users/store.js";
 import { WorkspaceService } from "./workspaces/service.js";
 import { WorkspaceStore } from "./workspaces/store.js";
 
@@ -24,45 +40,115 @@ export interface StartServerOptions {
 export async function startServer(options: StartServerOptions = {}): Promise<RunningServer> {
   const config = loadConfig(options.env);
   const workspaceStore = new WorkspaceStore(config.sqliteDatabasePath);
+  const sessionStore = new SqliteSessionStore(config.sqliteDatabasePath);
+  const twoFactorStore = new TwoFactorStore(config.sqliteDatabasePath);
+  const twoFactorService = new TwoFactorService(twoFactorStore);
+  const passkeyStore = new PasskeyStore(config.sqliteDatabasePath);
+  const passkeyService = new PasskeyService(passkeyStore);
   const workspaceService = new WorkspaceService(workspaceStore, config.allowedWorkspaceRoots);
+  const userStore = config.authMode === "multi_user" ? new UserStore(config.sqliteDatabasePath) : null;
+  const userService = userStore ? new UserService(userStore, workspaceService) : null;
+  const eventLog = config.eventLogPersist
+    ? new SqliteWorkspaceEventLog(config.sqliteDatabasePath, { capacity: config.eventLogCapacity })
+    : new InMemoryWorkspaceEventLog({ capacity: config.eventLogCapacity });
   const workspaceRuntimePool = new WorkspaceAppServerPool({
     workspaceStore,
+    eventLog,
+    restartPolicy: {
+      ...DEFAULT_RUNTIME_RESTART_POLICY,
+      maxAttempts: config.runtimeRestartMaxAttempts,
+      baseDelayMs: config.runtimeRestartBaseDelayMs
+    },
+    idleTimeoutMs: config.runtimeIdleTimeoutMinutes * 60_000,
+    maxRuntimes: config.maxWorkspaceRuntimes,
     ...(options.appServerManagerFactory ? { managerFactory: options.appServerManagerFactory } : {})
   });
+  const approvalService = new ApprovalService(workspaceRuntimePool, {
+    timeoutMs: config.approvalTimeoutSeconds * 1000
+  });
+  const reviewService = new ReviewService(workspaceRuntimePool);
+  const fileService = new FileService(workspaceService);
+  const terminalService = new TerminalService(workspaceService, { maxSessions: config.maxTerminalSessions });
   const gitService = new GitService(workspaceService);
+  const gitStatusWatcher = new GitStatusWatcher(gitService);
+  const commitMessageService = new CommitMessageService(workspaceRuntimePool, gitService);
   const threadMetadataStore = new ThreadMetadataStore(config.sqliteDatabasePath);
-  const threadService = new ThreadService(workspaceRuntimePool, threadMetadataStore);
-  const turnService = new TurnService(workspaceRuntimePool);
+  const worktreeService = new GitWorktreeService(gitService, threadMetadataStore);
+  const checkpointService = new GitCheckpointService(workspaceService, gitService, worktreeService);
+  const threadService = new ThreadService(workspaceRuntimePool, threadMetadataStore, worktreeService, checkpointService);
+  const turnService = new TurnService(
+    workspaceRuntimePool,
+    checkpointService,
+    worktreeService,
+    threadMetadataStore
+  );
+  const bootstrappedAdmin = userService
+    ? await userService.bootstrapAdmin(config.authAdminUsername, config.authPassword)
+    : null;
   const app = buildApp({
     logger: options.logger ?? true,
     logLevel: config.logLevel,
+    trustProxy: config.trustProxy,
     authConfig: config,
+    sessionStore,
+    twoFactorService,
+    passkeyService,
+    ...(userService ? { userService } : {}),
     workspaceService,
     threadService,
     turnService,
     runtimePool: workspaceRuntimePool,
-    gitService
+    gitService,
+    gitStatusWatcher,
+    commitMessageService,
+    checkpointService,
+    worktreeService,
+    approvalService,
+    reviewService,
+    fileService,
+    terminalService
   });
 
   let address: string;
   try {
     address = await app.listen({ host: config.host, port: config.port });
   } catch (error: unknown) {
+    approvalService.close();
+    reviewService.close();
+    terminalService.closeAll();
+    gitStatusWatcher.close();
     await workspaceRuntimePool.stopAll().catch(() => undefined);
+    eventLog.close();
     threadMetadataStore.close();
+    sessionStore.close();
+    twoFactorStore.close();
+    passkeyStore.close();
+    userStore?.close();
     workspaceStore.close();
     throw error;
   }
 
   app.log.info({ address, config: redactConfig(config) }, "backend started");
+  if (bootstrappedAdmin) {
+    app.log.info({ userId: bootstrappedAdmin.userId, username: bootstrappedAdmin.username }, "admin user bootstrapped");
+  }
 
   return {
     config,
     address,
     async close() {
       await app.close();
+      approvalService.close();
+      reviewService.close();
+      terminalService.closeAll();
+      gitStatusWatcher.close();
       await workspaceRuntimePool.stopAll();
+      eventLog.close();
       threadMetadataStore.close();
+      sessionStore.close();
+      twoFactorStore.close();
+      passkeyStore.close();
+      userStore?.close();
       workspaceStore.close();
     }
   };
@@ -0,0 +1,339 @@
+import type { FastifyPluginAsync, FastifyReply, FastifyRequest } from "fastify";
+
+import type { SessionRecord } from "../auth/session-store.js";
+import type { UserService } from "../users/service.js";
+import type { UserRecord } from "../users/store.js";
+import {
+  TERMINAL_SIGNALS,
+  TerminalLimitError,
+  TerminalNotFoundError,
+  TerminalNotRunningError,
+  TerminalWorkspaceNotFoundError,
+  TerminalWorkspaceNotTrustedError,
+  type CreateTerminalInput,
+  type TerminalOutputReplay,
+  type TerminalService,
+  type TerminalSignal
+} from "./service.js";
+
+const WS_OPEN_STATE = 1;
+const MAX_COMMAND_LENGTH = 4_096;
+
+interface TerminalRouteParams {
+  workspaceId?: unknown;
+  terminalId?: unknown;
+}
+
+interface TerminalStreamQuery {
+  since?: unknown;
+}
+
+interface CreateTerminalRequestBody {
+  command?: unknown;
+}
+
+interface AuthenticatedRequestLike {
+  authSession?: SessionRecord;
+  authUser?: UserRecord;
+}
+
+type TerminalClientMessage =
+  | { type: "input"; data: string }
+  | { type: "signal"; signal: TerminalSignal }
+  | { type: "close_input" };
+
+export interface TerminalPluginOptions {
+  terminalService: TerminalService;
+  // Present in multi-user mode, where a shell would reach beyond the workspaces granted to a member.
+  userService?: UserService;
+}
+
+export class TerminalRequestValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TerminalRequestValidationError";
+  }
+}
+
+function requireParam(params: unknown, key: keyof TerminalRouteParams): string {
+  const value = (params as TerminalRouteParams)[key];
+  if (typeof value !== "string" || value.length === 0) {
+    throw new TerminalRequestValidationError(`${key} path parameter is required`);
+  }
+
+  return value;
+}
+
+function parseCreateBody(body: unknown): CreateTerminalInput {
+  const { command } = (body ?? {}) as CreateTerminalRequestBody;
+  if (command === undefined) {
+    return {};
+  }
+
+  if (typeof command !== "string" || command.length > MAX_COMMAND_LENGTH) {
+    throw new TerminalRequestValidationError(`command must be a string of at most ${MAX_COMMAND_LENGTH} characters`);
+  }
+
+  return { command };
+}
+
+function parseSinceQuery(query: unknown): number | null | undefined {
+  const since = (query as TerminalStreamQuery | undefined)?.since;
+  if (since === undefined) {
+    return undefined;
+  }
+
+  if (typeof since !== "string" || !/^\d+$/.test(since)) {
+    return null;
+  }
+
+  const sequence = Number(since);
+  return Number.isSafeInteger(sequence) ? sequence : null;
+}
+
+function isTerminalSignal(value: unknown): value is TerminalSignal {
+  return typeof value === "string" && (TERMINAL_SIGNALS as readonly string[]).includes(value);
+}
+
+function parseClientMessage(raw: string): TerminalClientMessage | null {
+  let message: unknown;
+  try {
+    message = JSON.parse(raw);
+  } catch {
+    return null;
+  }
+
+  const { type, data, signal } = (message ?? {}) as { type?: unknown; data?: unknown; signal?: unknown };
+  if (type === "input" && typeof data === "string") {
+    return { type, data };
+  }
+  if (type === "signal" && isTerminalSignal(signal)) {
+    return { type, signal };
+  }
+  if (type === "close_input") {
+    return { type };
+  }
+
+  return null;
+}
+
+export const terminalPlugin: FastifyPluginAsync<TerminalPluginOptions> = async (app, options) => {
+  const { terminalService, userService } = options;
+
+  const rejectTerminalRequest = (request: FastifyRequest, reply: FastifyReply): FastifyReply | null => {
+    const { authSession, authUser } = request as AuthenticatedRequestLike;
+    if (!authSession) {
+      return reply.code(401).send({
+        error: "unauthorized",
+        message: "Authentication is required for terminals"
+      });
+    }
+
+    if (userService && authUser?.role !== "admin") {
+      return reply.code(403).send({
+        error: "forbidden",
+        message: "Only admins can use terminals"
+      });
+    }
+
+    return null;
+  };
+
+  app.get("/api/workspaces/:workspaceId/terminals", async (request, reply) => {
+    try {
+      const rejected = rejectTerminalRequest(request, reply);
+      if (rejected) {
+        return rejected;
+      }
+
+      const terminals = terminalService.list(requireParam(request.params, "workspaceId"));
+      return reply.code(200).send({
+        terminals
+      });
+    } catch (error: unknown) {
+      return handleTerminalError(request, reply, error);
+    }
+  });
+
+  app.post("/api/workspaces/:workspaceId/terminals", async (request, reply) => {
+    try {
+      const rejected = rejectTerminalRequest(request, reply);
+      if (rejected) {
+        return rejected;
+      }
+
+      const workspaceId = requireParam(request.params, "workspaceId");
+      const terminal = await terminalService.create(workspaceId, parseCreateBody(request.body));
+      return reply.code(201).send({
+        terminal
+      });
+    } catch (error: unknown) {
+      return handleTerminalError(request, reply, error);
+    }
+  });
+
+  app.delete("/api/workspaces/:workspaceId/terminals/:terminalId", async (request, reply) => {
+    try {
+      const rejected = rejectTerminalRequest(request, reply);
+      if (rejected) {
+        return rejected;
+      }
+
+      const terminal = terminalService.remove(
+        requireParam(request.params, "workspaceId"),
+        requireParam(request.params, "terminalId")
+      );
+      return reply.code(200).send({
+        terminal
+      });
+    } catch (error: unknown) {
+      return handleTerminalError(request, reply, error);
+    }
+  });
+
+  app.get(
+    "/api/workspaces/:workspaceId/terminals/:terminalId/stream",
+    {
+      websocket: true,
+      preValidation: async (request, reply) => {
+        const rejected = rejectTerminalRequest(request, reply);
+        if (rejected) {
+          return rejected;
+        }
+
+        if (parseSinceQuery(request.query) === null) {
+          return reply.code(400).send({
+            error: "bad_request",
+            message: "since must be a non-negative integer sequence"
+          });
+        }
+
+        try {
+          terminalService.get(requireParam(request.params, "workspaceId"), requireParam(request.params, "terminalId"));
+        } catch (error: unknown) {
+          return handleTerminalError(request, reply, error);
+        }
+      }
+    },
+    (connection, request) => {
+      const workspaceId = requireParam(request.params, "workspaceId");
+      const terminalId = requireParam(request.params, "terminalId");
+      const since = parseSinceQuery(request.query) ?? 0;
+      const send = (payload: unknown): void => {
+        if (connection.readyState === WS_OPEN_STATE) {
+          connection.send(JSON.stringify(payload));
+        }
+      };
+
+      // Replay and subscription happen in the same tick, so live output always follows the replayed chunks.
+      let replay: TerminalOutputReplay;
+      let unsubscribe: () => void;
+      try {
+        replay = terminalService.readOutput(workspaceId, terminalId);
+        unsubscribe = terminalService.subscribe(workspaceId, terminalId, (event) => {
+          if (event.type === "output") {
+            send({ type: "terminal_output", ...event.chunk });
+          } else {
+            send({ type: "terminal_exit", terminal: event.terminal });
+          }
+        });
+      } catch {
+        // The session was removed between the upgrade check and the handler.
+        connection.close(1011, "terminal not found");
+        return;
+      }
+
+      connection.on("close", unsubscribe);
+      connection.on("error", unsubscribe);
+      connection.on("message", (rawMessage: Buffer) => {
+        const message = parseClientMessage(rawMessage.toString("utf8"));
+        if (!message) {
+          send({ type: "terminal_error", message: "Unsupported terminal message" });
+          return;
+        }
+
+        try {
+          if (message.type === "input") {
+            terminalService.write(workspaceId, terminalId, message.data);
+          } else if (message.type === "signal") {
+            terminalService.signal(workspaceId, terminalId, message.signal);
+          } else {
+            terminalService.closeInput(workspaceId, terminalId);
+          }
+        } catch (error: unknown) {
+          send({ type: "terminal_error", message: (error as Error).message });
+        }
+      });
+
+      const terminal = terminalService.get(workspaceId, terminalId);
+      send({
+        type: "terminal_connected",
+        terminal,
+        truncated: replay.truncated && (replay.chunks[0]?.sequence ?? 1) > since + 1
+      });
+      for (const chunk of replay.chunks) {
+        if (chunk.sequence > since) {
+          send({ type: "terminal_output", ...chunk, replayed: true });
+        }
+      }
+      if (terminal.status === "exited") {
+        send({ type: "terminal_exit", terminal });
+      }
+    }
+  );
+};
+
+function handleTerminalError(
+  request: {
+    log: {
+      error(payload: unknown, message: string): void;
+    };
+  },
+  reply: {
+    code(statusCode: number): {
+      send(payload: unknown): unknown;
+    };
+  },
+  error: unknown
+): unknown {
+  if (error instanceof TerminalRequestValidationError) {
+    return reply.code(400).send({
+      error: "bad_request",
+      message: error.message
+    });
+  }
+
+  if (error instanceof TerminalWorkspaceNotTrustedError) {
+    return reply.code(403).send({
+      error: "forbidden",
+      message: error.message
+    });
+  }
+
+  if (error instanceof TerminalWorkspaceNotFoundError || error instanceof TerminalNotFoundError) {
+    return reply.code(404).send({
+      error: "not_found",
+      message: error.message
+    });
+  }
+
+  if (error instanceof TerminalNotRunningError) {
+    return reply.code(409).send({
+      error: "terminal_not_running",
+      message: error.message
+    });
+  }
+
+  if (error instanceof TerminalLimitError) {
+    return reply.code(429).send({
+      error: "terminal_limit",
+      message: error.message
+    });
+  }
+
+  request.log.error({ err: error }, "terminal route failed");
+  return reply.code(500).send({
+    error: "internal_error",
+    message: "Terminal request failed"
+  });
+}
@@ -0,0 +1,384 @@
+import { spawn, type ChildProcessWithoutNullStreams } from "node:child_process";
+import { randomUUID } from "node:crypto";
+import fs from "node:fs/promises";
+import { StringDecoder } from "node:string_decoder";
+
+import type { WorkspaceService } from "../workspaces/service.js";
+import type { WorkspaceRecord } from "../workspaces/store.js";
+
+const DEFAULT_MAX_SESSIONS = 4;
+const MAX_BUFFERED_OUTPUT_BYTES = 256 * 1024;
+const MAX_RETAINED_EXITED_SESSIONS = 20;
+// Only these variables reach the shell, so server secrets such as SESSION_SECRET stay in the backend process.
+const INHERITED_ENV_KEYS = ["PATH", "HOME", "USER", "LOGNAME", "SHELL", "LANG", "LC_ALL", "LC_CTYPE", "TZ", "TMPDIR"];
+
+export const TERMINAL_SIGNALS = ["SIGINT", "SIGTERM", "SIGKILL", "SIGHUP", "SIGQUIT"] as const;
+
+export type TerminalSignal = (typeof TERMINAL_SIGNALS)[number];
+export type TerminalOutputStream = "stdout" | "stderr";
+export type TerminalStatus = "running" | "exited";
+
+export interface TerminalSessionSummary {
+  id: string;
+  workspaceId: string;
+  // null for an interactive shell reading commands from stdin.
+  command: string | null;
+  cwd: string;
+  pid: number | null;
+  status: TerminalStatus;
+  exitCode: number | null;
+  signal: string | null;
+  error: string | null;
+  startedAt: string;
+  exitedAt: string | null;
+}
+
+export interface TerminalOutputChunk {
+  sequence: number;
+  stream: TerminalOutputStream;
+  data: string;
+}
+
+export interface TerminalOutputReplay {
+  chunks: TerminalOutputChunk[];
+  // True when older output was dropped from the buffer.
+  truncated: boolean;
+}
+
+export type TerminalEvent =
+  | {
+      type: "output";
+      chunk: TerminalOutputChunk;
+    }
+  | {
+      type: "exit";
+      terminal: TerminalSessionSummary;
+    };
+
+export type TerminalEventListener = (event: TerminalEvent) => void;
+
+export interface CreateTerminalInput {
+  command?: string;
+}
+
+export interface TerminalServiceOptions {
+  maxSessions?: number;
+  shell?: string;
+}
+
+export class TerminalServiceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TerminalServiceError";
+  }
+}
+
+export class TerminalWorkspaceNotFoundError extends TerminalServiceError {
+  constructor(workspaceId: string) {
+    super(`Workspace '${workspaceId}' was not found`);
+    this.name = "TerminalWorkspaceNotFoundError";
+  }
+}
+
+export class TerminalWorkspaceNotTrustedError extends TerminalServiceError {
+  constructor(workspaceId: string) {
+    super(`Workspace '${workspaceId}' is not trusted; terminals run outside the agent sandbox`);
+    this.name = "TerminalWorkspaceNotTrustedError";
+  }
+}
+
+export class TerminalNotFoundError extends TerminalServiceError {
+  constructor(terminalId: string) {
+    super(`Terminal '${terminalId}' was not found`);
+    this.name = "TerminalNotFoundError";
+  }
+}
+
+export class TerminalNotRunningError extends TerminalServiceError {
+  constructor(terminalId: string) {
+    super(`Terminal '${terminalId}' has already exited`);
+    this.name = "TerminalNotRunningError";
+  }
+}
+
+export class TerminalLimitError extends TerminalServiceError {
+  constructor(maxSessions: number) {
+    super(`All ${maxSessions} terminal sessions are in use; close one before starting another`);
+    this.name = "TerminalLimitError";
+  }
+}
+
+interface TerminalSession {
+  summary: TerminalSessionSummary;
+  child: ChildProcessWithoutNullStreams;
+  output: TerminalOutputChunk[];
+  outputBytes: number;
+  truncated: boolean;
+  nextSequence: number;
+  listeners: Set<TerminalEventListener>;
+}
+
+function killProcessTree(child: ChildProcessWithoutNullStreams, signal: NodeJS.Signals): void {
+  // Sessions lead their own process group, so a signal also reaches the commands the shell started.
+  if (child.pid !== undefined) {
+    try {
+      process.kill(-child.pid, signal);
+      return;
+    } catch {
+      // The group is gone or was never created; fall back to the direct child.
+    }
+  }
+
+  child.kill(signal);
+}
+
+// Copies only the INHERITED_ENV_KEYS allowlist out of the backend environment.
+function inheritedEnv(): NodeJS.ProcessEnv {
+  const env: NodeJS.ProcessEnv = {};
+  for (const key of INHERITED_ENV_KEYS) {
+    const value = process.env[key];
+    if (value !== undefined) {
+      env[key] = value;
+    }
+  }
+
+  return env;
+}
+
+/**
+ * Runs shells and one-off commands in a workspace without a PTY. Output is buffered per session so a
+ * reconnecting client can replay it, and only `maxSessions` sessions may run at once.
+ */
+export class TerminalService {
+  private readonly maxSessions: number;
+  private readonly shell: string;
+  private readonly sessions = new Map<string, TerminalSession>();
+
+  constructor(
+    private readonly workspaceService: WorkspaceService,
+    options: TerminalServiceOptions = {}
+  ) {
+    this.maxSessions = options.maxSessions ?? DEFAULT_MAX_SESSIONS;
+    this.shell = options.shell ?? process.env.SHELL ?? "/bin/sh";
+  }
+
+  list(workspaceId: string): TerminalSessionSummary[] {
+    this.requireWorkspace(workspaceId);
+    return [...this.sessions.values()]
+      .filter((session) => session.summary.workspaceId === workspaceId)
+      .map((session) => ({ ...session.summary }));
+  }
+
+  get(workspaceId: string, terminalId: string): TerminalSessionSummary {
+    return { ...this.requireSession(workspaceId, terminalId).summary };
+  }
+
+  async create(workspaceId: string, input: CreateTerminalInput = {}): Promise<TerminalSessionSummary> {
+    const workspace = this.requireWorkspace(workspaceId);
+    if (!workspace.trusted) {
+      throw new TerminalWorkspaceNotTrustedError(workspaceId);
+    }
+
+    const cwd = await fs.realpath(workspace.absolutePath).catch(() => {
+      throw new TerminalWorkspaceNotFoundError(workspaceId);
+    });
+
+    const runningCount = [...this.sessions.values()].filter((session) => session.summary.status === "running").length;
+    if (this.maxSessions > 0 && runningCount >= this.maxSessions) {
+      throw new TerminalLimitError(this.maxSessions);
+    }
+
+    const command = input.command?.trim() ? input.command : null;
+    const child = spawn(this.shell, command === null ? [] : ["-c", command], {
+      cwd,
+      env: {
+        ...inheritedEnv(),
+        // Nothing renders escape sequences on the other end.
+        TERM: "dumb"
+      },
+      stdio: "pipe",
+      detached: true
+    });
+
+    const session: TerminalSession = {
+      summary: {
+        id: randomUUID(),
+        workspaceId,
+        command,
+        cwd,
+        pid: child.pid ?? null,
+        status: "running",
+        exitCode: null,
+        signal: null,
+        error: null,
+        startedAt: new Date().toISOString(),
+        exitedAt: null
+      },
+      child,
+      output: [],
+      outputBytes: 0,
+      truncated: false,
+      nextSequence: 1,
+      listeners: new Set()
+    };
+    this.sessions.set(session.summary.id, session);
+    this.attachProcess(session);
+    this.pruneExitedSessions();
+
+    return { ...session.summary };
+  }
+
+  readOutput(workspaceId: string, terminalId: string): TerminalOutputReplay {
+    const session = this.requireSession(workspaceId, terminalId);
+    return {
+      chunks: [...session.output],
+      truncated: session.truncated
+    };
+  }
+
+  subscribe(workspaceId: string, terminalId: string, listener: TerminalEventListener): () => void {
+    const session = this.requireSession(workspaceId, terminalId);
+    session.listeners.add(listener);
+    return () => {
+      session.listeners.delete(listener);
+    };
+  }
+
+  write(workspaceId: string, terminalId: string, data: string): void {
+    const session = this.requireRunningSession(workspaceId, terminalId);
+    if (session.child.stdin.writable) {
+      session.child.stdin.write(data);
+    }
+  }
+
+  closeInput(workspaceId: string, terminalId: string): void {
+    this.requireRunningSession(workspaceId, terminalId).child.stdin.end();
+  }
+
+  signal(workspaceId: string, terminalId: string, signal: TerminalSignal): void {
+    killProcessTree(this.requireRunningSession(workspaceId, terminalId).child, signal);
+  }
+
+  remove(workspaceId: string, terminalId: string): TerminalSessionSummary {
+    const session = this.requireSession(workspaceId, terminalId);
+    this.sessions.delete(terminalId);
+    if (session.summary.status === "running") {
+      killProcessTree(session.child, "SIGKILL");
+    }
+    session.listeners.clear();
+    return { ...session.summary };
+  }
+
+  closeAll(): void {
+    for (const session of this.sessions.values()) {
+      if (session.summary.status === "running") {
+        killProcessTree(session.child, "SIGKILL");
+      }
+      session.listeners.clear();
+    }
+    this.sessions.clear();
+  }
+
+  private attachProcess(session: TerminalSession): void {
+    const { child } = session;
+    for (const stream of ["stdout", "stderr"] as const) {
+      const decoder = new StringDecoder("utf8");
+      child[stream].on("data", (data: Buffer) => {
+        this.appendOutput(session, stream, decoder.write(data));
+      });
+      child[stream].on("end", () => {
+        this.appendOutput(session, stream, decoder.end());
+      });
+    }
+
+    // Writes after the process exits surface here; the exit itself is reported through `close`.
+    child.stdin.on("error", () => undefined);
+
+    child.on("error", (error) => {
+      this.markExited(session, null, null, error.message);
+    });
+    child.on("close", (exitCode, signal) => {
+      this.markExited(session, exitCode, signal, null);
+    });
+  }
+
+  private appendOutput(session: TerminalSession, stream: TerminalOutputStream, data: string): void {
+    if (data.length === 0) {
+      return;
+    }
+
+    const chunk: TerminalOutputChunk = { sequence: session.nextSequence, stream, data };
+    session.nextSequence += 1;
+    session.output.push(chunk);
+    session.outputBytes += Buffer.byteLength(data);
+    while (session.outputBytes > MAX_BUFFERED_OUTPUT_BYTES && session.output.length > 1) {
+      const dropped = session.output.shift();
+      session.outputBytes -= dropped ? Buffer.byteLength(dropped.data) : 0;
+      session.truncated = true;
+    }
+
+    this.emit(session, { type: "output", chunk });
+  }
+
+  private markExited(
+    session: TerminalSession,
+    exitCode: number | null,
+    signal: NodeJS.Signals | null,
+    error: string | null
+  ): void {
+    if (session.summary.status === "exited") {
+      return;
+    }
+
+    session.summary = {
+      ...session.summary,
+      status: "exited",
+      exitCode,
+      signal,
+      error,
+      exitedAt: new Date().toISOString()
+    };
+    this.emit(session, { type: "exit", terminal: { ...session.summary } });
+  }
+
+  private emit(session: TerminalSession, event: TerminalEvent): void {
+    for (const listener of [...session.listeners]) {
+      listener(event);
+    }
+  }
+
+  private pruneExitedSessions(): void {
+    const exited = [...this.sessions.values()].filter((session) => session.summary.status === "exited");
+    for (const session of exited.slice(0, Math.max(0, exited.length - MAX_RETAINED_EXITED_SESSIONS))) {
+      this.sessions.delete(session.summary.id);
+      session.listeners.clear();
+    }
+  }
+
+  private requireWorkspace(workspaceId: string): WorkspaceRecord {
+    const workspace = this.workspaceService.getWorkspaceById(workspaceId);
+    if (!workspace) {
+      throw new TerminalWorkspaceNotFoundError(workspaceId);
+    }
+
+    return workspace;
+  }
+
+  private requireSession(workspaceId: string, terminalId: string): TerminalSession {
+    const session = this.sessions.get(terminalId);
+    if (!session || session.summary.workspaceId !== workspaceId) {
+      throw new TerminalNotFoundError(terminalId);
+    }
+
+    return session;
+  }
+
+  private requireRunningSession(workspaceId: string, terminalId: string): TerminalSession {
+    const session = this.requireSession(workspaceId, terminalId);
+    if (session.summary.status !== "running") {
+      throw new TerminalNotRunningError(terminalId);
+    }
+
+    return session;
+  }
+}
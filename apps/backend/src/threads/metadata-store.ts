@@ -2,6 +2,17 @@ import fs from "node:fs";
 import path from "node:path";
 import { DatabaseSync, type StatementSync } from "node:sqlite";
 
+/** A git worktree created for one thread so it can edit files without touching the main checkout. */
+export interface ThreadWorktreeRecord {
+  threadId: string;
+  workspaceId: string;
+  path: string;
+  branch: string;
+  baseRef: string;
+  baseSha: string;
+  createdAt: string;
+}
+
 export interface ThreadMetadataRecord {
   threadId: string;
   workspaceId: string;
@@ -9,6 +20,20 @@ export interface ThreadMetadataRecord {
   archived: boolean;
   lastSeenAt: string;
   rawPayload: unknown;
+  worktree: ThreadWorktreeRecord | null;
+  // Only set in multi-user mode; threads synced from the app-server without a request keep null.
+  createdByUserId: string | null;
+  updatedByUserId: string | null;
+}
+
+interface ThreadWorktreeRow {
+  thread_id: string;
+  workspace_id: string;
+  path: string;
+  branch: string;
+  base_ref: string;
+  base_sha: string;
+  created_at: string;
 }
 
 interface ThreadMetadataRow {
@@ -18,6 +43,25 @@ interface ThreadMetadataRow {
   archived: number;
   last_seen_at: string;
   raw_payload: string;
+  created_by_user_id: string | null;
+  updated_by_user_id: string | null;
+  worktree_path: string | null;
+  worktree_branch: string | null;
+  worktree_base_ref: string | null;
+  worktree_base_sha: string | null;
+  worktree_created_at: string | null;
+}
+
+function mapThreadWorktreeRow(row: ThreadWorktreeRow): ThreadWorktreeRecord {
+  return {
+    threadId: row.thread_id,
+    workspaceId: row.workspace_id,
+    path: row.path,
+    branch: row.branch,
+    baseRef: row.base_ref,
+    baseSha: row.base_sha,
+    createdAt: row.created_at
+  };
 }
 
 function mapThreadMetadataRow(row: ThreadMetadataRow): ThreadMetadataRecord {
@@ -27,7 +71,21 @@ function mapThreadMetadataRow(row: ThreadMetadataRow): ThreadMetadataRecord {
     title: row.title,
     archived: row.archived === 1,
     lastSeenAt: row.last_seen_at,
-    rawPayload: JSON.parse(row.raw_payload)
+    rawPayload: JSON.parse(row.raw_payload),
+    createdByUserId: row.created_by_user_id,
+    updatedByUserId: row.updated_by_user_id,
+    worktree:
+      row.worktree_path === null
+        ? null
+        : {
+            threadId: row.thread_id,
+            workspaceId: row.workspace_id,
+            path: row.worktree_path,
+            branch: row.worktree_branch ?? "",
+            baseRef: row.worktree_base_ref ?? "",
+            baseSha: row.worktree_base_sha ?? "",
+            createdAt: row.worktree_created_at ?? ""
+          }
   };
 }
 
@@ -36,6 +94,11 @@ export class ThreadMetadataStore {
   private readonly listByWorkspaceStatement: StatementSync;
   private readonly upsertStatement: StatementSync;
   private readonly archiveStatement: StatementSync;
+  private readonly recordActorStatement: StatementSync;
+  private readonly saveWorktreeStatement: StatementSync;
+  private readonly getWorktreeStatement: StatementSync;
+  private readonly listWorktreesStatement: StatementSync;
+  private readonly deleteWorktreeStatement: StatementSync;
 
   constructor(databasePath: string) {
     if (databasePath !== ":memory:") {
@@ -50,15 +113,42 @@ export class ThreadMetadataStore {
         title TEXT,
         archived INTEGER NOT NULL DEFAULT 0,
         last_seen_at TEXT NOT NULL,
-        raw_payload TEXT NOT NULL
+        raw_payload TEXT NOT NULL,
+        created_by_user_id TEXT,
+        updated_by_user_id TEXT
+      );
+
+      CREATE TABLE IF NOT EXISTS thread_worktrees (
+        thread_id TEXT PRIMARY KEY,
+        workspace_id TEXT NOT NULL,
+        path TEXT NOT NULL,
+        branch TEXT NOT NULL,
+        base_ref TEXT NOT NULL,
+        base_sha TEXT NOT NULL,
+        created_at TEXT NOT NULL
       );
     `);
+    this.migrateActorColumns();
 
     this.listByWorkspaceStatement = this.database.prepare(`
-      SELECT thread_id, workspace_id, title, archived, last_seen_at, raw_payload
-      FROM thread_metadata
-      WHERE workspace_id = ?
-      ORDER BY last_seen_at DESC
+      SELECT
+        metadata.thread_id,
+        metadata.workspace_id,
+        metadata.title,
+        metadata.archived,
+        metadata.last_seen_at,
+        metadata.raw_payload,
+        metadata.created_by_user_id,
+        metadata.updated_by_user_id,
+        worktree.path AS worktree_path,
+        worktree.branch AS worktree_branch,
+        worktree.base_ref AS worktree_base_ref,
+        worktree.base_sha AS worktree_base_sha,
+        worktree.created_at AS worktree_created_at
+      FROM thread_metadata AS metadata
+      LEFT JOIN thread_worktrees AS worktree ON worktree.thread_id = metadata.thread_id
+      WHERE metadata.workspace_id = ?
+      ORDER BY metadata.last_seen_at DESC
     `);
 
     this.upsertStatement = this.database.prepare(`
@@ -68,20 +158,68 @@ export class ThreadMetadataStore {
         title,
         archived,
         last_seen_at,
-        raw_payload
-      ) VALUES (?, ?, ?, ?, ?, ?)
+        raw_payload,
+        created_by_user_id,
+        updated_by_user_id
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
       ON CONFLICT(thread_id)
       DO UPDATE SET
         workspace_id = excluded.workspace_id,
         title = excluded.title,
         archived = excluded.archived,
         last_seen_at = excluded.last_seen_at,
-        raw_payload = excluded.raw_payload
+        raw_payload = excluded.raw_payload,
+        created_by_user_id = COALESCE(thread_metadata.created_by_user_id, excluded.created_by_user_id),
+        updated_by_user_id = COALESCE(excluded.updated_by_user_id, thread_metadata.updated_by_user_id)
     `);
 
     this.archiveStatement = this.database.prepare(`
       UPDATE thread_metadata
-      SET archived = 1, last_seen_at = ?
+      SET archived = 1, last_seen_at = ?, updated_by_user_id = COALESCE(?, updated_by_user_id)
+      WHERE thread_id = ? AND workspace_id = ?
+    `);
+
+    this.recordActorStatement = this.database.prepare(`
+      UPDATE thread_metadata
+      SET updated_by_user_id = ?
+      WHERE thread_id = ? AND workspace_id = ?
+    `);
+
+    this.saveWorktreeStatement = this.database.prepare(`
+      INSERT INTO thread_worktrees (
+        thread_id,
+        workspace_id,
+        path,
+        branch,
+        base_ref,
+        base_sha,
+        created_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(thread_id)
+      DO UPDATE SET
+        workspace_id = excluded.workspace_id,
+        path = excluded.path,
+        branch = excluded.branch,
+        base_ref = excluded.base_ref,
+        base_sha = excluded.base_sha,
+        created_at = excluded.created_at
+    `);
+
+    this.getWorktreeStatement = this.database.prepare(`
+      SELECT thread_id, workspace_id, path, branch, base_ref, base_sha, created_at
+      FROM thread_worktrees
+      WHERE thread_id = ? AND workspace_id = ?
+    `);
+
+    this.listWorktreesStatement = this.database.prepare(`
+      SELECT thread_id, workspace_id, path, branch, base_ref, base_sha, created_at
+      FROM thread_worktrees
+      WHERE workspace_id = ?
+      ORDER BY created_at DESC
+    `);
+
+    this.deleteWorktreeStatement = this.database.prepare(`
+      DELETE FROM thread_worktrees
       WHERE thread_id = ? AND workspace_id = ?
     `);
   }
@@ -97,23 +235,70 @@ export class ThreadMetadataStore {
     title?: string | null;
     archived?: boolean;
     rawPayload: unknown;
+    // The creator is kept from the first upsert that names one; the updater follows the latest actor.
+    actorUserId?: string | null;
   }): void {
     const now = new Date().toISOString();
+    const actorUserId = record.actorUserId ?? null;
     this.upsertStatement.run(
       record.threadId,
       record.workspaceId,
       record.title ?? null,
       record.archived ? 1 : 0,
       now,
-      JSON.stringify(record.rawPayload)
+      JSON.stringify(record.rawPayload),
+      actorUserId,
+      actorUserId
+    );
+  }
+
+  markArchived(workspaceId: string, threadId: string, actorUserId: string | null = null): void {
+    this.archiveStatement.run(new Date().toISOString(), actorUserId, threadId, workspaceId);
+  }
+
+  recordActor(workspaceId: string, threadId: string, actorUserId: string): void {
+    this.recordActorStatement.run(actorUserId, threadId, workspaceId);
+  }
+
+  saveWorktree(record: ThreadWorktreeRecord): void {
+    this.saveWorktreeStatement.run(
+      record.threadId,
+      record.workspaceId,
+      record.path,
+      record.branch,
+      record.baseRef,
+      record.baseSha,
+      record.createdAt
     );
   }
 
-  markArchived(workspaceId: string, threadId: string): void {
-    this.archiveStatement.run(new Date().toISOString(), threadId, workspaceId);
+  getWorktree(workspaceId: string, threadId: string): ThreadWorktreeRecord | null {
+    const row = this.getWorktreeStatement.get(threadId, workspaceId) as unknown as ThreadWorktreeRow | undefined;
+    return row ? mapThreadWorktreeRow(row) : null;
+  }
+
+  listWorktrees(workspaceId: string): ThreadWorktreeRecord[] {
+    const rows = this.listWorktreesStatement.all(workspaceId) as unknown as ThreadWorktreeRow[];
+    return rows.map(mapThreadWorktreeRow);
+  }
+
+  deleteWorktree(workspaceId: string, threadId: string): void {
+    this.deleteWorktreeStatement.run(threadId, workspaceId);
   }
 
   close(): void {
     this.database.close();
   }
+
+  private migrateActorColumns(): void {
+    const columns = this.database.prepare("PRAGMA table_info(thread_metadata)").all() as unknown as Array<{
+      name: string;
+    }>;
+
+    for (const columnName of ["created_by_user_id", "updated_by_user_id"]) {
+      if (!columns.some((column) => column.name === columnName)) {
+        this.database.exec(`ALTER TABLE thread_metadata ADD COLUMN ${columnName} TEXT`);
+      }
+    }
+  }
 }
@@ -30,6 +30,7 @@ export function normalizeThreadSummaries(payload: unknown): NormalizedThreadSumm
     threadId?: unknown;
     thread?: unknown;
     threads?: unknown;
+    data?: unknown;
   };
 
   const results: NormalizedThreadSummary[] = [];
@@ -54,8 +55,9 @@ export function normalizeThreadSummaries(payload: unknown): NormalizedThreadSumm
     });
   }
 
-  if (Array.isArray(objectPayload.threads)) {
-    for (const threadPayload of objectPayload.threads) {
+  const threadList = Array.isArray(objectPayload.data) ? objectPayload.data : objectPayload.threads;
+  if (Array.isArray(threadList)) {
+    for (const threadPayload of threadList) {
       const threadId = extractThreadId(threadPayload);
       if (!threadId) {
         continue;
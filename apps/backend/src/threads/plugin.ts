@@ -1,17 +1,41 @@
 import type { FastifyPluginAsync } from "fastify";
 
-import { WorkspaceNotFoundError, WorkspaceRuntimeError } from "../codex/workspace-app-server-pool.js";
-import { AppServerManagerError } from "../codex/app-server-manager.js";
-import type { ThreadService } from "./service.js";
+import {
+  WorkspaceNotFoundError,
+  WorkspaceRuntimeError,
+  WorkspaceRuntimeLimitError
+} from "../codex/workspace-app-server-pool.js";
+import { AppServerManagerError, AppServerSchemaDriftError } from "../codex/app-server-manager.js";
+import {
+  GitBranchExistsError,
+  GitCommandError,
+  GitInvalidRefError,
+  GitRefNotFoundError,
+  GitRepositoryUnavailableError
+} from "../git/service.js";
+import { GitWorktreeChangesError, type GitWorktreeCreateInput, type GitWorktreeRemoveInput } from "../git/worktrees.js";
+import type { UserRecord } from "../users/store.js";
+import type { ThreadActorOptions, ThreadService } from "./service.js";
 
 interface ThreadBodyRequest {
   [key: string]: unknown;
 }
 
+interface AuthenticatedRequestLike {
+  authUser?: UserRecord;
+}
+
 export interface ThreadPluginOptions {
   threadService: ThreadService;
 }
 
+export class ThreadRequestValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ThreadRequestValidationError";
+  }
+}
+
 function getWorkspaceId(params: unknown): string {
   const workspaceId = (params as { workspaceId?: unknown }).workspaceId;
   if (typeof workspaceId !== "string" || workspaceId.length === 0) {
@@ -20,13 +44,106 @@ function getWorkspaceId(params: unknown): string {
   return workspaceId;
 }
 
+function getActorOptions(request: unknown): ThreadActorOptions {
+  const { authUser } = request as AuthenticatedRequestLike;
+  return authUser ? { actorUserId: authUser.userId } : {};
+}
+
+function parseOptionalString(value: unknown, field: string): string | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  if (typeof value !== "string") {
+    throw new ThreadRequestValidationError(`${field} must be a string`);
+  }
+
+  return value;
+}
+
+function parseOptionalBoolean(value: unknown, field: string): boolean | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  if (typeof value !== "boolean") {
+    throw new ThreadRequestValidationError(`${field} must be a boolean`);
+  }
+
+  return value;
+}
+
+// `worktree` and `removeWorktree` are ours; everything else in the body is forwarded to the app-server.
+function splitStartRequestBody(body: ThreadBodyRequest): {
+  params: ThreadBodyRequest;
+  worktree: GitWorktreeCreateInput | undefined;
+} {
+  const { worktree, ...params } = body;
+  if (worktree === undefined || worktree === false) {
+    return { params, worktree: undefined };
+  }
+
+  if (worktree === true) {
+    return { params, worktree: {} };
+  }
+
+  if (typeof worktree !== "object" || worktree === null) {
+    throw new ThreadRequestValidationError("worktree must be a boolean or an object");
+  }
+
+  const branch = parseOptionalString((worktree as { branch?: unknown }).branch, "worktree.branch");
+  const baseRef = parseOptionalString((worktree as { baseRef?: unknown }).baseRef, "worktree.baseRef");
+  return {
+    params,
+    worktree: {
+      ...(branch === undefined ? {} : { branch }),
+      ...(baseRef === undefined ? {} : { baseRef })
+    }
+  };
+}
+
+function splitArchiveRequestBody(body: ThreadBodyRequest): {
+  params: ThreadBodyRequest;
+  removeWorktree: GitWorktreeRemoveInput | undefined;
+} {
+  const { removeWorktree, ...params } = body;
+  if (removeWorktree === undefined || removeWorktree === false) {
+    return { params, removeWorktree: undefined };
+  }
+
+  if (removeWorktree === true) {
+    return { params, removeWorktree: {} };
+  }
+
+  if (typeof removeWorktree !== "object" || removeWorktree === null) {
+    throw new ThreadRequestValidationError("removeWorktree must be a boolean or an object");
+  }
+
+  const force = parseOptionalBoolean((removeWorktree as { force?: unknown }).force, "removeWorktree.force");
+  const deleteBranch = parseOptionalBoolean(
+    (removeWorktree as { deleteBranch?: unknown }).deleteBranch,
+    "removeWorktree.deleteBranch"
+  );
+  return {
+    params,
+    removeWorktree: {
+      ...(force === undefined ? {} : { force }),
+      ...(deleteBranch === undefined ? {} : { deleteBranch })
+    }
+  };
+}
+
 export const threadPlugin: FastifyPluginAsync<ThreadPluginOptions> = async (app, options) => {
   const { threadService } = options;
 
   app.post("/api/workspaces/:workspaceId/threads/start", async (request, reply) => {
     try {
       const workspaceId = getWorkspaceId(request.params);
-      const result = await threadService.threadStart(workspaceId, (request.body as ThreadBodyRequest) ?? {});
+      const { params, worktree } = splitStartRequestBody((request.body as ThreadBodyRequest) ?? {});
+      const result = await threadService.threadStart(workspaceId, params, {
+        ...getActorOptions(request),
+        ...(worktree ? { worktree } : {})
+      });
       return reply.code(200).send({ result });
     } catch (error: unknown) {
       return handleThreadError(request, reply, error);
@@ -36,7 +153,11 @@ export const threadPlugin: FastifyPluginAsync<ThreadPluginOptions> = async (app,
   app.post("/api/workspaces/:workspaceId/threads/resume", async (request, reply) => {
     try {
       const workspaceId = getWorkspaceId(request.params);
-      const result = await threadService.threadResume(workspaceId, (request.body as ThreadBodyRequest) ?? {});
+      const result = await threadService.threadResume(
+        workspaceId,
+        (request.body as ThreadBodyRequest) ?? {},
+        getActorOptions(request)
+      );
       return reply.code(200).send({ result });
     } catch (error: unknown) {
       return handleThreadError(request, reply, error);
@@ -66,7 +187,12 @@ export const threadPlugin: FastifyPluginAsync<ThreadPluginOptions> = async (app,
   app.post("/api/workspaces/:workspaceId/threads/archive", async (request, reply) => {
     try {
       const workspaceId = getWorkspaceId(request.params);
-      const result = await threadService.threadArchive(workspaceId, (request.body as ThreadBodyRequest) ?? {});
+      const { params, removeWorktree } = splitArchiveRequestBody((request.body as ThreadBodyRequest) ?? {});
+      const result = await threadService.threadArchive(workspaceId, params, {
+        ...getActorOptions(request),
+        ...(removeWorktree ? { removeWorktree } : {}),
+        log: request.log
+      });
       return reply.code(200).send({ result });
     } catch (error: unknown) {
       return handleThreadError(request, reply, error);
@@ -87,13 +213,64 @@ function handleThreadError(
   },
   error: unknown
 ): unknown {
-  if (error instanceof WorkspaceNotFoundError) {
+  if (error instanceof ThreadRequestValidationError || error instanceof GitInvalidRefError) {
+    return reply.code(400).send({
+      error: "bad_request",
+      message: error.message
+    });
+  }
+
+  if (error instanceof WorkspaceNotFoundError || error instanceof GitRefNotFoundError) {
     return reply.code(404).send({
       error: "not_found",
       message: error.message
     });
   }
 
+  if (error instanceof GitRepositoryUnavailableError) {
+    return reply.code(409).send({
+      error: "git_unavailable",
+      message: error.message
+    });
+  }
+
+  if (error instanceof GitWorktreeChangesError) {
+    return reply.code(409).send({
+      error: "dirty_worktree",
+      message: error.message
+    });
+  }
+
+  if (error instanceof GitBranchExistsError) {
+    return reply.code(409).send({
+      error: "conflict",
+      message: error.message
+    });
+  }
+
+  if (error instanceof GitCommandError) {
+    return reply.code(502).send({
+      error: "upstream_error",
+      message: error.message,
+      details: error.stderr
+    });
+  }
+
+  if (error instanceof AppServerSchemaDriftError) {
+    request.log.error({ err: error, method: error.method, issues: error.issues }, "app-server schema drift");
+    return reply.code(502).send({
+      error: "schema_drift",
+      message: error.message
+    });
+  }
+
+  if (error instanceof WorkspaceRuntimeLimitError) {
+    return reply.code(429).send({
+      error: "runtime_limit",
+      message: error.message
+    });
+  }
+
   if (error instanceof WorkspaceRuntimeError || error instanceof AppServerManagerError) {
     return reply.code(502).send({
       error: "upstream_error",
@@ -1,25 +1,92 @@
 import type { WorkspaceAppServerPool } from "../codex/workspace-app-server-pool.js";
-import { withYoloThreadConfig } from "../codex/yolo-mode.js";
+import type { ThreadArchiveParams, ThreadReadParams, ThreadResumeParams } from "../codex/protocol.js";
+import { withRuntimeCwd, withThreadRuntimePolicy } from "../codex/runtime-policy.js";
+import type { GitCheckpointService } from "../git/checkpoints.js";
+import { GitRepositoryUnavailableError } from "../git/service.js";
+import type { GitWorktreeCreateInput, GitWorktreeRemoveInput, GitWorktreeService } from "../git/worktrees.js";
 import type { ThreadMetadataRecord, ThreadMetadataStore } from "./metadata-store.js";
 import { normalizeThreadSummaries } from "./normalization.js";
 
+export interface ThreadActorOptions {
+  /** The signed-in user behind the request, recorded on the thread metadata in multi-user mode. */
+  actorUserId?: string;
+}
+
+export interface ThreadStartOptions extends ThreadActorOptions {
+  /** Runs the thread in a dedicated git worktree on a new branch instead of the workspace checkout. */
+  worktree?: GitWorktreeCreateInput;
+}
+
+export interface ThreadArchiveOptions extends ThreadActorOptions {
+  /** Removes the thread's worktree before archiving it. */
+  removeWorktree?: GitWorktreeRemoveInput;
+  /** Receives cleanup failures, which never fail the archive itself. */
+  log?: ThreadServiceLogger;
+}
+
+export interface ThreadServiceLogger {
+  warn(payload: unknown, message: string): void;
+}
+
+// Request bodies are forwarded as-is apart from `cwd`: the app-server owns parameter validation, while the
+// results coming back are checked against the shared protocol schemas.
 export class ThreadService {
   constructor(
     private readonly runtimePool: WorkspaceAppServerPool,
-    private readonly metadataStore: ThreadMetadataStore
+    private readonly metadataStore: ThreadMetadataStore,
+    private readonly worktreeService?: GitWorktreeService,
+    private readonly checkpointService?: GitCheckpointService
   ) {}
 
-  async threadStart(workspaceId: string, params: Record<string, unknown>): Promise<unknown> {
+  async threadStart(
+    workspaceId: string,
+    params: Record<string, unknown>,
+    options: ThreadStartOptions = {}
+  ): Promise<unknown> {
+    const workspace = this.runtimePool.getWorkspace(workspaceId);
     const client = await this.runtimePool.getClient(workspaceId);
-    const result = await client.threadStart(withYoloThreadConfig(params));
-    this.syncMetadataFromPayload(workspaceId, result);
+    if (!options.worktree) {
+      const result = await client.threadStart(withThreadRuntimePolicy(withRuntimeCwd(params), workspace));
+      this.syncMetadataFromPayload(workspaceId, result, { actorUserId: options.actorUserId });
+      return result;
+    }
+
+    if (!this.worktreeService) {
+      throw new GitRepositoryUnavailableError("Git worktrees are not available");
+    }
+
+    const worktree = await this.worktreeService.createWorktree(workspaceId, options.worktree);
+    let result: unknown;
+    try {
+      result = await client.threadStart(withThreadRuntimePolicy(withRuntimeCwd(params, worktree.path), workspace));
+    } catch (error: unknown) {
+      await this.worktreeService.discardWorktree(workspaceId, worktree).catch(() => undefined);
+      throw error;
+    }
+
+    this.syncMetadataFromPayload(workspaceId, result, { actorUserId: options.actorUserId });
+    const [summary] = normalizeThreadSummaries(result);
+    if (summary) {
+      this.worktreeService.attachWorktree(workspaceId, summary.threadId, worktree);
+    } else {
+      await this.worktreeService.discardWorktree(workspaceId, worktree).catch(() => undefined);
+    }
+
     return result;
   }
 
-  async threadResume(workspaceId: string, params: Record<string, unknown>): Promise<unknown> {
+  async threadResume(
+    workspaceId: string,
+    params: Record<string, unknown>,
+    options: ThreadActorOptions = {}
+  ): Promise<unknown> {
+    const workspace = this.runtimePool.getWorkspace(workspaceId);
     const client = await this.runtimePool.getClient(workspaceId);
-    const result = await client.threadResume(params);
-    this.syncMetadataFromPayload(workspaceId, result);
+    const threadId = typeof params.threadId === "string" ? params.threadId : null;
+    const worktree = threadId ? this.worktreeService?.getThreadWorktree(workspaceId, threadId) : null;
+    const resumeParams = withRuntimeCwd(params, worktree?.path);
+    const result = await client.threadResume(withThreadRuntimePolicy(resumeParams as ThreadResumeParams, workspace));
+    this.syncMetadataFromPayload(workspaceId, result, { actorUserId: options.actorUserId });
     return result;
   }
 
@@ -39,32 +106,49 @@ export class ThreadService {
 
   async threadRead(workspaceId: string, params: Record<string, unknown>): Promise<unknown> {
     const client = await this.runtimePool.getClient(workspaceId);
-    const result = await client.threadRead(params);
+    const result = await client.threadRead(params as ThreadReadParams);
     this.syncMetadataFromPayload(workspaceId, result);
     return result;
   }
 
-  async threadArchive(workspaceId: string, params: Record<string, unknown>): Promise<unknown> {
+  async threadArchive(
+    workspaceId: string,
+    params: Record<string, unknown>,
+    options: ThreadArchiveOptions = {}
+  ): Promise<unknown> {
     const client = await this.runtimePool.getClient(workspaceId);
-    const result = await client.threadArchive(params);
-    this.syncMetadataFromPayload(workspaceId, result, true);
-
     const threadId = typeof params.threadId === "string" ? params.threadId : undefined;
+    // Removal goes first so a worktree with unsaved work keeps its thread visible.
+    if (threadId && options.removeWorktree && this.worktreeService?.getThreadWorktree(workspaceId, threadId)) {
+      await this.worktreeService.removeWorktree(workspaceId, threadId, options.removeWorktree);
+    }
+
+    const result = await client.threadArchive(params as ThreadArchiveParams);
+    this.syncMetadataFromPayload(workspaceId, result, { actorUserId: options.actorUserId, forceArchived: true });
+
     if (threadId) {
-      this.metadataStore.markArchived(workspaceId, threadId);
+      this.metadataStore.markArchived(workspaceId, threadId, options.actorUserId ?? null);
+      await this.checkpointService?.deleteCheckpoints(workspaceId, threadId).catch((error: unknown) => {
+        options.log?.warn({ err: error, workspaceId, threadId }, "failed to delete thread checkpoints");
+      });
     }
 
     return result;
   }
 
-  private syncMetadataFromPayload(workspaceId: string, payload: unknown, forceArchived = false): void {
+  private syncMetadataFromPayload(
+    workspaceId: string,
+    payload: unknown,
+    options: { actorUserId?: string | undefined; forceArchived?: boolean } = {}
+  ): void {
     const summaries = normalizeThreadSummaries(payload);
     for (const summary of summaries) {
-      const archived = forceArchived ? true : summary.archived;
+      const archived = options.forceArchived ? true : summary.archived;
       this.metadataStore.upsert({
         threadId: summary.threadId,
         workspaceId,
         rawPayload: summary.rawPayload,
+        actorUserId: options.actorUserId ?? null,
         ...(summary.title === undefined ? {} : { title: summary.title }),
         ...(archived === undefined ? {} : { archived })
       });
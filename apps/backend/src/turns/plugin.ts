@@ -1,13 +1,22 @@
 import type { FastifyPluginAsync } from "fastify";
 
-import { AppServerManagerError } from "../codex/app-server-manager.js";
-import { WorkspaceNotFoundError, WorkspaceRuntimeError } from "../codex/workspace-app-server-pool.js";
+import { AppServerManagerError, AppServerSchemaDriftError } from "../codex/app-server-manager.js";
+import {
+  WorkspaceNotFoundError,
+  WorkspaceRuntimeError,
+  WorkspaceRuntimeLimitError
+} from "../codex/workspace-app-server-pool.js";
+import type { UserRecord } from "../users/store.js";
 import type { TurnService } from "./service.js";
 
 interface TurnBodyRequest {
   [key: string]: unknown;
 }
 
+interface AuthenticatedRequestLike {
+  authUser?: UserRecord;
+}
+
 export interface TurnPluginOptions {
   turnService: TurnService;
 }
@@ -26,7 +35,15 @@ export const turnPlugin: FastifyPluginAsync<TurnPluginOptions> = async (app, opt
   app.post("/api/workspaces/:workspaceId/turns/start", async (request, reply) => {
     try {
       const workspaceId = getWorkspaceId(request.params);
-      const result = await turnService.turnStart(workspaceId, (request.body as TurnBodyRequest) ?? {});
+      const { authUser } = request as AuthenticatedRequestLike;
+      const result = await turnService.turnStart(
+        workspaceId,
+        (request.body as TurnBodyRequest) ?? {},
+        {
+          ...(authUser ? { actorUserId: authUser.userId } : {}),
+          log: request.log
+        }
+      );
       return reply.code(200).send({ result });
     } catch (error: unknown) {
       return handleTurnError(request, reply, error);
@@ -74,6 +91,21 @@ function handleTurnError(
     });
   }
 
+  if (error instanceof AppServerSchemaDriftError) {
+    request.log.error({ err: error, method: error.method, issues: error.issues }, "app-server schema drift");
+    return reply.code(502).send({
+      error: "schema_drift",
+      message: error.message
+    });
+  }
+
+  if (error instanceof WorkspaceRuntimeLimitError) {
+    return reply.code(429).send({
+      error: "runtime_limit",
+      message: error.message
+    });
+  }
+
   if (error instanceof WorkspaceRuntimeError || error instanceof AppServerManagerError) {
     return reply.code(502).send({
       error: "upstream_error",
@@ -1,35 +1,103 @@
+import type { AppServerClient } from "../codex/app-server-client.js";
 import { AppServerRpcError } from "../codex/app-server-manager.js";
 import type { WorkspaceAppServerPool } from "../codex/workspace-app-server-pool.js";
-import { withYoloTurnConfig } from "../codex/yolo-mode.js";
+import type { TurnInterruptParams, TurnStartParams, TurnSteerParams } from "../codex/protocol.js";
+import {
+  withRuntimeCwd,
+  withThreadRuntimePolicy,
+  withTurnRuntimePolicy,
+  type WorkspaceRuntimePolicy
+} from "../codex/runtime-policy.js";
+import type { GitCheckpointService } from "../git/checkpoints.js";
+import type { GitWorktreeService } from "../git/worktrees.js";
+import type { ThreadMetadataStore } from "../threads/metadata-store.js";
 
+export interface TurnStartOptions {
+  /** The signed-in user starting the turn; recorded as the thread's latest actor in multi-user mode. */
+  actorUserId?: string;
+  /** Receives checkpoint failures, which never fail the turn itself. */
+  log?: TurnServiceLogger;
+}
+
+export interface TurnServiceLogger {
+  warn(payload: unknown, message: string): void;
+}
+
+// Request bodies are forwarded as-is apart from `cwd`; the app-server owns parameter validation.
 export class TurnService {
-  constructor(private readonly runtimePool: WorkspaceAppServerPool) {}
+  constructor(
+    private readonly runtimePool: WorkspaceAppServerPool,
+    private readonly checkpointService?: GitCheckpointService,
+    private readonly worktreeService?: GitWorktreeService,
+    private readonly metadataStore?: ThreadMetadataStore
+  ) {}
 
-  async turnStart(workspaceId: string, params: Record<string, unknown>): Promise<unknown> {
+  async turnStart(
+    workspaceId: string,
+    params: Record<string, unknown>,
+    options: TurnStartOptions = {}
+  ): Promise<unknown> {
+    const workspace = this.runtimePool.getWorkspace(workspaceId);
     const client = await this.runtimePool.getClient(workspaceId);
-    const requestParams = withYoloTurnConfig(params);
-    const threadId = getThreadId(requestParams);
+    const threadId = getThreadId(params);
+    // Worktree threads keep working in their own checkout even if the client never sends a cwd.
+    const worktree = threadId ? this.worktreeService?.getThreadWorktree(workspaceId, threadId) : null;
+    const requestParams = withTurnRuntimePolicy(withRuntimeCwd(params, worktree?.path) as TurnStartParams, workspace);
 
-    try {
-      return await client.turnStart(requestParams);
-    } catch (error: unknown) {
-      if (!threadId || !isThreadNotFoundError(error)) {
-        throw error;
-      }
+    // Checkpoints are a convenience; failing to take one must never keep the turn from starting.
+    const checkpoint =
+      threadId && this.checkpointService
+        ? await this.checkpointService.captureCheckpoint(workspaceId, threadId).catch((error: unknown) => {
+            options.log?.warn({ err: error, workspaceId, threadId }, "failed to capture turn checkpoint");
+            return null;
+          })
+        : null;
 
-      await client.threadResume({ threadId });
-      return await client.turnStart(requestParams);
+    const result = await this.startTurn(client, requestParams, threadId, workspace);
+    if (threadId && options.actorUserId) {
+      this.metadataStore?.recordActor(workspaceId, threadId, options.actorUserId);
     }
+
+    const turnId = getTurnId(result);
+    if (checkpoint && threadId && turnId) {
+      await this.checkpointService
+        ?.recordCheckpoint(workspaceId, threadId, turnId, checkpoint)
+        .catch((error: unknown) => {
+          options.log?.warn({ err: error, workspaceId, threadId, turnId }, "failed to record turn checkpoint");
+        });
+    }
+
+    return result;
   }
 
   async turnSteer(workspaceId: string, params: Record<string, unknown>): Promise<unknown> {
     const client = await this.runtimePool.getClient(workspaceId);
-    return await client.turnSteer(params);
+    return await client.turnSteer(params as TurnSteerParams);
   }
 
   async turnInterrupt(workspaceId: string, params: Record<string, unknown>): Promise<unknown> {
     const client = await this.runtimePool.getClient(workspaceId);
-    return await client.turnInterrupt(params);
+    return await client.turnInterrupt(params as TurnInterruptParams);
+  }
+
+  private async startTurn(
+    client: AppServerClient,
+    requestParams: TurnStartParams,
+    threadId: string | null,
+    policy: WorkspaceRuntimePolicy
+  ): Promise<unknown> {
+    try {
+      return await client.turnStart(requestParams);
+    } catch (error: unknown) {
+      if (!threadId || !isThreadNotFoundError(error)) {
+        throw error;
+      }
+
+      const cwd = (requestParams as { cwd?: unknown }).cwd;
+      const resumeParams = typeof cwd === "string" ? { threadId, cwd } : { threadId };
+      await client.threadResume(withThreadRuntimePolicy(resumeParams, policy));
+      return await client.turnStart(requestParams);
+    }
   }
 }
 
@@ -47,6 +115,11 @@ function getThreadId(params: Record<string, unknown>): string | null {
   return null;
 }
 
+function getTurnId(result: unknown): string | null {
+  const turn = (result as { turn?: { id?: unknown } } | null)?.turn;
+  return typeof turn?.id === "string" && turn.id.length > 0 ? turn.id : null;
+}
+
 function isThreadNotFoundError(error: unknown): boolean {
   return error instanceof AppServerRpcError && error.code === -32600 && /thread not found/i.test(error.message);
 }
@@ -0,0 +1,56 @@
+import { randomBytes, scrypt, timingSafeEqual, type ScryptOptions } from "node:crypto";
+
+const HASH_SCHEME = "scrypt";
+const SALT_BYTES = 16;
+const KEY_LENGTH = 64;
+const DEFAULT_SCRYPT_OPTIONS = { N: 16_384, r: 8, p: 1 } as const;
+
+function deriveKey(password: string, salt: Buffer, options: ScryptOptions): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(password, salt, KEY_LENGTH, options, (error, derivedKey) => {
+      if (error) {
+        reject(error);
+        return;
+      }
+
+      resolve(derivedKey);
+    });
+  });
+}
+
+/** Encodes as `scrypt$N$r$p$salt$key` so the cost parameters can be raised without breaking stored hashes. */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(SALT_BYTES);
+  const key = await deriveKey(password, salt, DEFAULT_SCRYPT_OPTIONS);
+  const { N, r, p } = DEFAULT_SCRYPT_OPTIONS;
+
+  return [HASH_SCHEME, N, r, p, salt.toString("base64url"), key.toString("base64url")].join("$");
+}
+
+export async function verifyPassword(password: string, encodedHash: string): Promise<boolean> {
+  const [scheme, rawN, rawR, rawP, rawSalt, rawKey] = encodedHash.split("$");
+  if (scheme !== HASH_SCHEME || !rawSalt || !rawKey) {
+    return false;
+  }
+
+  const [N, r, p] = [rawN, rawR, rawP].map(Number);
+  if (!Number.isSafeInteger(N) || !Number.isSafeInteger(r) || !Number.isSafeInteger(p)) {
+    return false;
+  }
+
+  const expectedKey = Buffer.from(rawKey, "base64url");
+  if (expectedKey.length !== KEY_LENGTH) {
+    return false;
+  }
+
+  try {
+    const key = await deriveKey(password, Buffer.from(rawSalt, "base64url"), {
+      N: N as number,
+      r: r as number,
+      p: p as number
+    });
+    return timingSafeEqual(key, expectedKey);
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,223 @@
+import type { FastifyPluginAsync } from "fastify";
+
+import type { SessionRecord } from "../auth/session-store.js";
+import {
+  LastAdminError,
+  UserNotFoundError,
+  UserValidationError,
+  type CreateUserInput,
+  type UpdateUserInput,
+  type UserService
+} from "./service.js";
+import { DuplicateUsernameError, USER_ROLES, isUserRole, type UserRecord } from "./store.js";
+
+interface UserRouteParams {
+  userId?: unknown;
+}
+
+interface UserRequestBody {
+  username?: unknown;
+  password?: unknown;
+  role?: unknown;
+  workspaceIds?: unknown;
+}
+
+interface AuthenticatedRequestLike {
+  authSession?: SessionRecord;
+  authUser?: UserRecord;
+}
+
+export interface UserPluginOptions {
+  userService: UserService;
+}
+
+export class UserRequestValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UserRequestValidationError";
+  }
+}
+
+function requireUserId(params: unknown): string {
+  const userId = (params as UserRouteParams).userId;
+  if (typeof userId !== "string" || userId.length === 0) {
+    throw new UserRequestValidationError("userId path parameter is required");
+  }
+
+  return userId;
+}
+
+function parseUserSettings(body: UserRequestBody): UpdateUserInput {
+  if (body.password !== undefined && typeof body.password !== "string") {
+    throw new UserRequestValidationError("password must be a string when provided");
+  }
+
+  if (body.role !== undefined && !isUserRole(body.role)) {
+    throw new UserRequestValidationError(`role must be one of: ${USER_ROLES.join(", ")}`);
+  }
+
+  if (
+    body.workspaceIds !== undefined &&
+    (!Array.isArray(body.workspaceIds) || body.workspaceIds.some((workspaceId) => typeof workspaceId !== "string"))
+  ) {
+    throw new UserRequestValidationError("workspaceIds must be an array of workspace ids when provided");
+  }
+
+  return {
+    ...(body.password === undefined ? {} : { password: body.password }),
+    ...(body.role === undefined ? {} : { role: body.role }),
+    ...(body.workspaceIds === undefined ? {} : { workspaceIds: body.workspaceIds as string[] })
+  };
+}
+
+function parseCreateUserBody(body: UserRequestBody | undefined): CreateUserInput {
+  if (!body || typeof body.username !== "string" || typeof body.password !== "string") {
+    throw new UserRequestValidationError("username and password must be provided as strings");
+  }
+
+  return {
+    ...parseUserSettings(body),
+    username: body.username,
+    password: body.password
+  };
+}
+
+function parseUpdateUserBody(body: UserRequestBody | undefined): UpdateUserInput {
+  if (!body || typeof body !== "object") {
+    throw new UserRequestValidationError("Request body must be a JSON object");
+  }
+
+  if (body.username !== undefined) {
+    throw new UserRequestValidationError("username cannot be changed");
+  }
+
+  const update = parseUserSettings(body);
+  if (Object.keys(update).length === 0) {
+    throw new UserRequestValidationError("Provide at least one of password, role, or workspaceIds");
+  }
+
+  return update;
+}
+
+/** Account management for multi-user mode; every route is limited to admins. */
+export const userPlugin: FastifyPluginAsync<UserPluginOptions> = async (app, options) => {
+  const { userService } = options;
+
+  app.addHook("onRequest", async (request, reply) => {
+    const authenticatedRequest = request as AuthenticatedRequestLike;
+    if (!authenticatedRequest.authSession) {
+      return reply.code(401).send({
+        error: "unauthorized",
+        message: "Authentication is required for user management"
+      });
+    }
+
+    if (authenticatedRequest.authUser?.role !== "admin") {
+      return reply.code(403).send({
+        error: "forbidden",
+        message: "Only admins can manage users"
+      });
+    }
+  });
+
+  app.get("/api/users", async (request, reply) => {
+    try {
+      return reply.code(200).send({
+        users: userService.listUsers()
+      });
+    } catch (error: unknown) {
+      return handleUserError(request, reply, error);
+    }
+  });
+
+  app.post("/api/users", async (request, reply) => {
+    try {
+      const user = await userService.createUser(parseCreateUserBody(request.body as UserRequestBody | undefined));
+      request.log.info({ createdUserId: user.userId, role: user.role }, "user created");
+      return reply.code(201).send({
+        user
+      });
+    } catch (error: unknown) {
+      return handleUserError(request, reply, error);
+    }
+  });
+
+  app.patch("/api/users/:userId", async (request, reply) => {
+    try {
+      const userId = requireUserId(request.params);
+      const user = await userService.updateUser(userId, parseUpdateUserBody(request.body as UserRequestBody | undefined));
+      request.log.info({ updatedUserId: user.userId, role: user.role }, "user updated");
+      return reply.code(200).send({
+        user
+      });
+    } catch (error: unknown) {
+      return handleUserError(request, reply, error);
+    }
+  });
+
+  app.delete("/api/users/:userId", async (request, reply) => {
+    try {
+      const userId = requireUserId(request.params);
+      if (userId === (request as AuthenticatedRequestLike).authUser?.userId) {
+        throw new UserRequestValidationError("You cannot delete your own account");
+      }
+
+      // The account's sessions stop resolving on their next request.
+      const user = userService.deleteUser(userId);
+      request.log.info({ deletedUserId: user.userId }, "user deleted");
+      return reply.code(200).send({
+        user
+      });
+    } catch (error: unknown) {
+      return handleUserError(request, reply, error);
+    }
+  });
+};
+
+function handleUserError(
+  request: {
+    log: {
+      error(payload: unknown, message: string): void;
+    };
+  },
+  reply: {
+    code(statusCode: number): {
+      send(payload: unknown): unknown;
+    };
+  },
+  error: unknown
+): unknown {
+  if (error instanceof UserRequestValidationError || error instanceof UserValidationError) {
+    return reply.code(400).send({
+      error: "bad_request",
+      message: error.message
+    });
+  }
+
+  if (error instanceof UserNotFoundError) {
+    return reply.code(404).send({
+      error: "not_found",
+      message: error.message
+    });
+  }
+
+  if (error instanceof DuplicateUsernameError) {
+    return reply.code(409).send({
+      error: "conflict",
+      message: error.message
+    });
+  }
+
+  if (error instanceof LastAdminError) {
+    return reply.code(409).send({
+      error: "last_admin",
+      message: error.message
+    });
+  }
+
+  request.log.error({ err: error }, "user route failed");
+  return reply.code(500).send({
+    error: "internal_error",
+    message: "User request failed"
+  });
+}
@@ -0,0 +1,197 @@
+import type { WorkspaceService } from "../workspaces/service.js";
+import { hashPassword, verifyPassword } from "./password.js";
+import type { UserRecord, UserRole, UserStore } from "./store.js";
+
+const USERNAME_PATTERN = /^[a-z0-9][a-z0-9._-]{1,31}$/i;
+const MIN_PASSWORD_LENGTH = 12;
+
+export interface UserSummary extends UserRecord {
+  // Admins can open every workspace, so their grants are not listed.
+  workspaceIds: string[];
+}
+
+export interface CreateUserInput {
+  username: string;
+  password: string;
+  role?: UserRole;
+  workspaceIds?: string[];
+}
+
+export interface UpdateUserInput {
+  password?: string;
+  role?: UserRole;
+  workspaceIds?: string[];
+}
+
+export class UserServiceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UserServiceError";
+  }
+}
+
+export class UserValidationError extends UserServiceError {
+  constructor(message: string) {
+    super(message);
+    this.name = "UserValidationError";
+  }
+}
+
+export class UserNotFoundError extends UserServiceError {
+  constructor(userId: string) {
+    super(`User '${userId}' was not found`);
+    this.name = "UserNotFoundError";
+  }
+}
+
+export class LastAdminError extends UserServiceError {
+  constructor() {
+    super("At least one admin must remain");
+    this.name = "LastAdminError";
+  }
+}
+
+export function isValidUsername(username: string): boolean {
+  return USERNAME_PATTERN.test(username);
+}
+
+function validatePassword(password: string): void {
+  if (password.trim().length < MIN_PASSWORD_LENGTH) {
+    throw new UserValidationError(`password must be at least ${MIN_PASSWORD_LENGTH} characters long`);
+  }
+}
+
+/**
+ * Accounts for multi-user mode. Admins see every workspace; members only see the workspaces they
+ * were granted or created themselves.
+ */
+export class UserService {
+  // Unknown usernames still pay for one scrypt run, so response timing does not reveal which accounts exist.
+  private decoyHash: Promise<string> | undefined;
+
+  constructor(
+    private readonly store: UserStore,
+    private readonly workspaceService: WorkspaceService
+  ) {}
+
+  /** Creates the configured admin the first time multi-user mode starts; later runs leave accounts alone. */
+  async bootstrapAdmin(username: string, password: string): Promise<UserRecord | null> {
+    if (this.store.countAdmins() > 0) {
+      return null;
+    }
+
+    const passwordHash = await hashPassword(password);
+    const existing = this.store.getCredentials(username);
+    if (existing) {
+      return this.store.update(existing.user.userId, { role: "admin", passwordHash });
+    }
+
+    return this.store.create({ username, role: "admin", passwordHash });
+  }
+
+  async authenticate(username: string, password: string): Promise<UserRecord | null> {
+    const credentials = this.store.getCredentials(username);
+    this.decoyHash ??= hashPassword("decoy-password-for-unknown-users");
+    const matches = await verifyPassword(password, credentials?.passwordHash ?? (await this.decoyHash));
+    return credentials && matches ? credentials.user : null;
+  }
+
+  getUser(userId: string): UserRecord | null {
+    return this.store.getById(userId);
+  }
+
+  listUsers(): UserSummary[] {
+    return this.store.list().map((user) => this.summarize(user));
+  }
+
+  async createUser(input: CreateUserInput): Promise<UserSummary> {
+    const username = input.username.trim();
+    if (!isValidUsername(username)) {
+      throw new UserValidationError(
+        "username must be 2-32 letters, digits, dots, dashes or underscores, starting with a letter or digit"
+      );
+    }
+    validatePassword(input.password);
+    const workspaceIds = this.validateWorkspaceIds(input.workspaceIds ?? []);
+
+    const user = this.store.create({
+      username,
+      role: input.role ?? "member",
+      passwordHash: await hashPassword(input.password)
+    });
+    this.store.replaceGrants(user.userId, workspaceIds);
+    return this.summarize(user);
+  }
+
+  async updateUser(userId: string, input: UpdateUserInput): Promise<UserSummary> {
+    const existing = this.requireUser(userId);
+    if (input.password !== undefined) {
+      validatePassword(input.password);
+    }
+    if (existing.role === "admin" && input.role === "member") {
+      this.assertAnotherAdmin();
+    }
+    const workspaceIds = input.workspaceIds === undefined ? undefined : this.validateWorkspaceIds(input.workspaceIds);
+
+    const user =
+      this.store.update(userId, {
+        ...(input.role === undefined ? {} : { role: input.role }),
+        ...(input.password === undefined ? {} : { passwordHash: await hashPassword(input.password) })
+      }) ?? existing;
+    if (workspaceIds) {
+      this.store.replaceGrants(userId, workspaceIds);
+    }
+
+    return this.summarize(user);
+  }
+
+  deleteUser(userId: string): UserRecord {
+    const user = this.requireUser(userId);
+    if (user.role === "admin") {
+      this.assertAnotherAdmin();
+    }
+
+    this.store.delete(userId);
+    return user;
+  }
+
+  canAccessWorkspace(user: UserRecord, workspaceId: string): boolean {
+    return user.role === "admin" || this.store.hasGrant(user.userId, workspaceId);
+  }
+
+  forgetWorkspace(workspaceId: string): void {
+    this.store.deleteWorkspaceGrants(workspaceId);
+  }
+
+  private summarize(user: UserRecord): UserSummary {
+    return {
+      ...user,
+      workspaceIds: user.role === "admin" ? [] : this.store.listGrants(user.userId)
+    };
+  }
+
+  private requireUser(userId: string): UserRecord {
+    const user = this.store.getById(userId);
+    if (!user) {
+      throw new UserNotFoundError(userId);
+    }
+
+    return user;
+  }
+
+  private assertAnotherAdmin(): void {
+    if (this.store.countAdmins() <= 1) {
+      throw new LastAdminError();
+    }
+  }
+
+  private validateWorkspaceIds(workspaceIds: string[]): string[] {
+    const uniqueIds = [...new Set(workspaceIds)];
+    const unknownId = uniqueIds.find((workspaceId) => !this.workspaceService.getWorkspaceById(workspaceId));
+    if (unknownId !== undefined) {
+      throw new UserValidationError(`Workspace '${unknownId}' was not found`);
+    }
+
+    return uniqueIds;
+  }
+}
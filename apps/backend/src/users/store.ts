@@ -0,0 +1,267 @@
+import fs from "node:fs";
+import path from "node:path";
+import { randomUUID } from "node:crypto";
+import { DatabaseSync, type StatementSync } from "node:sqlite";
+
+export const USER_ROLES = ["admin", "member"] as const;
+
+export type UserRole = (typeof USER_ROLES)[number];
+
+export interface UserRecord {
+  userId: string;
+  username: string;
+  role: UserRole;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface UserCredentials {
+  user: UserRecord;
+  passwordHash: string;
+}
+
+export interface UserUpdate {
+  role?: UserRole;
+  passwordHash?: string;
+}
+
+interface UserRow {
+  user_id: string;
+  username: string;
+  role: string;
+  password_hash: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export class UserStoreError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UserStoreError";
+  }
+}
+
+export class DuplicateUsernameError extends UserStoreError {
+  constructor(username: string) {
+    super(`User '${username}' already exists`);
+    this.name = "DuplicateUsernameError";
+  }
+}
+
+export function isUserRole(value: unknown): value is UserRole {
+  return typeof value === "string" && (USER_ROLES as readonly string[]).includes(value);
+}
+
+const USER_COLUMNS = "user_id, username, role, password_hash, created_at, updated_at";
+
+function mapUserRow(row: UserRow): UserRecord {
+  return {
+    userId: row.user_id,
+    username: row.username,
+    // An unknown role never grants more than member access.
+    role: isUserRole(row.role) ? row.role : "member",
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  };
+}
+
+export class UserStore {
+  private readonly database: DatabaseSync;
+  private readonly listStatement: StatementSync;
+  private readonly getByIdStatement: StatementSync;
+  private readonly getByUsernameStatement: StatementSync;
+  private readonly countAdminsStatement: StatementSync;
+  private readonly insertStatement: StatementSync;
+  private readonly updateStatement: StatementSync;
+  private readonly deleteStatement: StatementSync;
+  private readonly listGrantsStatement: StatementSync;
+  private readonly hasGrantStatement: StatementSync;
+  private readonly insertGrantStatement: StatementSync;
+  private readonly deleteUserGrantsStatement: StatementSync;
+  private readonly deleteWorkspaceGrantsStatement: StatementSync;
+
+  constructor(databasePath: string) {
+    if (databasePath !== ":memory:") {
+      fs.mkdirSync(path.dirname(databasePath), { recursive: true });
+    }
+
+    this.database = new DatabaseSync(databasePath);
+    this.database.exec(`
+      CREATE TABLE IF NOT EXISTS users (
+        user_id TEXT PRIMARY KEY,
+        username TEXT NOT NULL UNIQUE COLLATE NOCASE,
+        role TEXT NOT NULL,
+        password_hash TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS user_workspace_grants (
+        user_id TEXT NOT NULL,
+        workspace_id TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        PRIMARY KEY (user_id, workspace_id)
+      );
+    `);
+
+    this.listStatement = this.database.prepare(`
+      SELECT ${USER_COLUMNS}
+      FROM users
+      ORDER BY created_at ASC
+    `);
+    this.getByIdStatement = this.database.prepare(`
+      SELECT ${USER_COLUMNS}
+      FROM users
+      WHERE user_id = ?
+      LIMIT 1
+    `);
+    this.getByUsernameStatement = this.database.prepare(`
+      SELECT ${USER_COLUMNS}
+      FROM users
+      WHERE username = ?
+      LIMIT 1
+    `);
+    this.countAdminsStatement = this.database.prepare(`
+      SELECT COUNT(*) AS admin_count
+      FROM users
+      WHERE role = 'admin'
+    `);
+    this.insertStatement = this.database.prepare(`
+      INSERT INTO users (${USER_COLUMNS})
+      VALUES (?, ?, ?, ?, ?, ?)
+    `);
+    this.updateStatement = this.database.prepare(`
+      UPDATE users
+      SET role = ?, password_hash = COALESCE(?, password_hash), updated_at = ?
+      WHERE user_id = ?
+    `);
+    this.deleteStatement = this.database.prepare(`
+      DELETE FROM users
+      WHERE user_id = ?
+    `);
+    this.listGrantsStatement = this.database.prepare(`
+      SELECT workspace_id
+      FROM user_workspace_grants
+      WHERE user_id = ?
+      ORDER BY created_at ASC
+    `);
+    this.hasGrantStatement = this.database.prepare(`
+      SELECT 1 AS granted
+      FROM user_workspace_grants
+      WHERE user_id = ? AND workspace_id = ?
+      LIMIT 1
+    `);
+    this.insertGrantStatement = this.database.prepare(`
+      INSERT OR IGNORE INTO user_workspace_grants (user_id, workspace_id, created_at)
+      VALUES (?, ?, ?)
+    `);
+    this.deleteUserGrantsStatement = this.database.prepare(`
+      DELETE FROM user_workspace_grants
+      WHERE user_id = ?
+    `);
+    this.deleteWorkspaceGrantsStatement = this.database.prepare(`
+      DELETE FROM user_workspace_grants
+      WHERE workspace_id = ?
+    `);
+  }
+
+  list(): UserRecord[] {
+    const rows = this.listStatement.all() as unknown as UserRow[];
+    return rows.map(mapUserRow);
+  }
+
+  getById(userId: string): UserRecord | null {
+    const row = this.getByIdStatement.get(userId) as UserRow | undefined;
+    return row ? mapUserRow(row) : null;
+  }
+
+  getCredentials(username: string): UserCredentials | null {
+    const row = this.getByUsernameStatement.get(username) as UserRow | undefined;
+    return row ? { user: mapUserRow(row), passwordHash: row.password_hash } : null;
+  }
+
+  countAdmins(): number {
+    const row = this.countAdminsStatement.get() as { admin_count: number } | undefined;
+    return row?.admin_count ?? 0;
+  }
+
+  create(input: { username: string; role: UserRole; passwordHash: string }): UserRecord {
+    const now = new Date().toISOString();
+    const user: UserRecord = {
+      userId: randomUUID(),
+      username: input.username,
+      role: input.role,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    try {
+      this.insertStatement.run(user.userId, user.username, user.role, input.passwordHash, now, now);
+    } catch (error: unknown) {
+      if (error instanceof Error && error.message.includes("UNIQUE constraint failed: users.username")) {
+        throw new DuplicateUsernameError(input.username);
+      }
+
+      throw new UserStoreError(
+        error instanceof Error ? `Failed to create user: ${error.message}` : "Failed to create user"
+      );
+    }
+
+    return user;
+  }
+
+  update(userId: string, update: UserUpdate): UserRecord | null {
+    const existing = this.getById(userId);
+    if (!existing) {
+      return null;
+    }
+
+    const updatedUser: UserRecord = {
+      ...existing,
+      role: update.role ?? existing.role,
+      updatedAt: new Date().toISOString()
+    };
+    this.updateStatement.run(updatedUser.role, update.passwordHash ?? null, updatedUser.updatedAt, userId);
+    return updatedUser;
+  }
+
+  delete(userId: string): boolean {
+    this.deleteUserGrantsStatement.run(userId);
+    return Number(this.deleteStatement.run(userId).changes) > 0;
+  }
+
+  listGrants(userId: string): string[] {
+    const rows = this.listGrantsStatement.all(userId) as unknown as Array<{ workspace_id: string }>;
+    return rows.map((row) => row.workspace_id);
+  }
+
+  hasGrant(userId: string, workspaceId: string): boolean {
+    return this.hasGrantStatement.get(userId, workspaceId) !== undefined;
+  }
+
+  addGrant(userId: string, workspaceId: string): void {
+    this.insertGrantStatement.run(userId, workspaceId, new Date().toISOString());
+  }
+
+  replaceGrants(userId: string, workspaceIds: string[]): void {
+    this.database.exec("BEGIN");
+    try {
+      this.deleteUserGrantsStatement.run(userId);
+      for (const workspaceId of workspaceIds) {
+        this.addGrant(userId, workspaceId);
+      }
+      this.database.exec("COMMIT");
+    } catch (error: unknown) {
+      this.database.exec("ROLLBACK");
+      throw error;
+    }
+  }
+
+  deleteWorkspaceGrants(workspaceId: string): void {
+    this.deleteWorkspaceGrantsStatement.run(workspaceId);
+  }
+
+  close(): void {
+    this.database.close();
+  }
+}
@@ -1,28 +1,38 @@
-import type { FastifyPluginAsync } from "fastify";
-
+import type { FastifyPluginAsync, FastifyReply, FastifyRequest } from "fastify";
+
+import {
+  APPROVAL_POLICIES,
+  SANDBOX_MODES,
+  isApprovalPolicy,
+  isSandboxMode,
+  type ApprovalPolicy,
+  type SandboxMode
+} from "../codex/runtime-policy.js";
+import type { UserService } from "../users/service.js";
+import type { UserRecord } from "../users/store.js";
 import { WorkspacePathValidationError } from "./path-guard.js";
 import type { WorkspaceService } from "./service.js";
-import { DuplicateWorkspacePathError, WorkspaceStoreError } from "./store.js";
+import { DuplicateWorkspacePathError, WorkspaceStoreError, type WorkspaceUpdate } from "./store.js";
 
 interface WorkspaceRequestBody {
   absolutePath?: unknown;
   displayName?: unknown;
   trusted?: unknown;
+  sandboxMode?: unknown;
+  approvalPolicy?: unknown;
+}
+
+interface AuthenticatedRequestLike {
+  authUser?: UserRecord;
 }
 
 export interface WorkspacePluginOptions {
   workspaceService: WorkspaceService;
+  // Present in multi-user mode, where members only see the workspaces granted to them.
+  userService?: UserService;
 }
 
-function parseCreateWorkspaceBody(body: WorkspaceRequestBody | undefined): {
-  absolutePath: string;
-  displayName?: string;
-  trusted?: boolean;
-} {
-  if (!body || typeof body.absolutePath !== "string") {
-    throw new WorkspacePathValidationError("absolutePath must be provided as a string");
-  }
-
+function parseWorkspaceSettings(body: WorkspaceRequestBody): WorkspaceUpdate {
   if (body.displayName !== undefined && typeof body.displayName !== "string") {
     throw new WorkspacePathValidationError("displayName must be a string when provided");
   }
@@ -31,27 +41,94 @@ function parseCreateWorkspaceBody(body: WorkspaceRequestBody | undefined): {
     throw new WorkspacePathValidationError("trusted must be a boolean when provided");
   }
 
+  if (body.sandboxMode !== undefined && !isSandboxMode(body.sandboxMode)) {
+    throw new WorkspacePathValidationError(`sandboxMode must be one of: ${SANDBOX_MODES.join(", ")}`);
+  }
+
+  if (body.approvalPolicy !== undefined && !isApprovalPolicy(body.approvalPolicy)) {
+    throw new WorkspacePathValidationError(`approvalPolicy must be one of: ${APPROVAL_POLICIES.join(", ")}`);
+  }
+
   return {
-    absolutePath: body.absolutePath,
     ...(body.displayName === undefined ? {} : { displayName: body.displayName }),
-    ...(body.trusted === undefined ? {} : { trusted: body.trusted })
+    ...(body.trusted === undefined ? {} : { trusted: body.trusted }),
+    ...(body.sandboxMode === undefined ? {} : { sandboxMode: body.sandboxMode as SandboxMode }),
+    ...(body.approvalPolicy === undefined ? {} : { approvalPolicy: body.approvalPolicy as ApprovalPolicy })
+  };
+}
+
+function parseCreateWorkspaceBody(body: WorkspaceRequestBody | undefined): WorkspaceUpdate & {
+  absolutePath: string;
+} {
+  if (!body || typeof body.absolutePath !== "string") {
+    throw new WorkspacePathValidationError("absolutePath must be provided as a string");
+  }
+
+  return {
+    absolutePath: body.absolutePath,
+    ...parseWorkspaceSettings(body)
   };
 }
 
+function parseUpdateWorkspaceBody(body: WorkspaceRequestBody | undefined): WorkspaceUpdate {
+  if (!body || typeof body !== "object") {
+    throw new WorkspacePathValidationError("Request body must be a JSON object");
+  }
+
+  if (body.absolutePath !== undefined) {
+    throw new WorkspacePathValidationError("absolutePath cannot be changed");
+  }
+
+  const update = parseWorkspaceSettings(body);
+  if (Object.keys(update).length === 0) {
+    throw new WorkspacePathValidationError(
+      "Provide at least one of displayName, trusted, sandboxMode, or approvalPolicy"
+    );
+  }
+
+  return update;
+}
+
 export const workspacePlugin: FastifyPluginAsync<WorkspacePluginOptions> = async (app, options) => {
-  const { workspaceService } = options;
+  const { workspaceService, userService } = options;
+
+  /**
+   * In multi-user mode only admins add, change or remove workspaces. A member-registered path could
+   * contain (or sit inside) a workspace granted to someone else, and trust or sandbox changes widen
+   * what the agent may do for everyone with access.
+   */
+  const rejectUnlessAdmin = (request: FastifyRequest, reply: FastifyReply): FastifyReply | null => {
+    const { authUser } = request as AuthenticatedRequestLike;
+    if (!userService || authUser?.role === "admin") {
+      return null;
+    }
 
-  app.get("/api/workspaces", async () => {
+    return reply.code(403).send({
+      error: "forbidden",
+      message: "Only admins can add, change or remove workspaces"
+    });
+  };
+
+  app.get("/api/workspaces", async (request) => {
+    const { authUser } = request as AuthenticatedRequestLike;
+    const workspaces = workspaceService.listWorkspaces();
     return {
-      workspaces: workspaceService.listWorkspaces()
+      workspaces:
+        authUser && userService
+          ? workspaces.filter((workspace) => userService.canAccessWorkspace(authUser, workspace.workspaceId))
+          : workspaces
     };
   });
 
   app.post("/api/workspaces", async (request, reply) => {
+    const forbidden = rejectUnlessAdmin(request, reply);
+    if (forbidden) {
+      return forbidden;
+    }
+
     try {
       const input = parseCreateWorkspaceBody(request.body as WorkspaceRequestBody | undefined);
       const workspace = workspaceService.createWorkspace(input);
-
       return reply.code(201).send({
         workspace
       });
@@ -82,7 +159,59 @@ export const workspacePlugin: FastifyPluginAsync<WorkspacePluginOptions> = async
     }
   });
 
+  app.patch("/api/workspaces/:workspaceId", async (request, reply) => {
+    const forbidden = rejectUnlessAdmin(request, reply);
+    if (forbidden) {
+      return forbidden;
+    }
+
+    const workspaceId = (request.params as { workspaceId?: string }).workspaceId;
+    if (!workspaceId) {
+      return reply.code(400).send({
+        error: "bad_request",
+        message: "workspaceId path parameter is required"
+      });
+    }
+
+    try {
+      const input = parseUpdateWorkspaceBody(request.body as WorkspaceRequestBody | undefined);
+      const workspace = workspaceService.updateWorkspace(workspaceId, input);
+      if (!workspace) {
+        return reply.code(404).send({
+          error: "not_found",
+          message: `Workspace '${workspaceId}' not found`
+        });
+      }
+
+      return reply.code(200).send({
+        workspace
+      });
+    } catch (error: unknown) {
+      if (error instanceof WorkspacePathValidationError) {
+        return reply.code(400).send({
+          error: "bad_request",
+          message: error.message
+        });
+      }
+
+      if (error instanceof WorkspaceStoreError) {
+        request.log.error({ err: error }, "workspace store error");
+        return reply.code(500).send({
+          error: "internal_error",
+          message: "Failed to update workspace"
+        });
+      }
+
+      throw error;
+    }
+  });
+
   app.delete("/api/workspaces/:workspaceId", async (request, reply) => {
+    const forbidden = rejectUnlessAdmin(request, reply);
+    if (forbidden) {
+      return forbidden;
+    }
+
     const workspaceId = (request.params as { workspaceId?: string }).workspaceId;
     if (!workspaceId) {
       return reply.code(400).send({
@@ -99,6 +228,7 @@ export const workspacePlugin: FastifyPluginAsync<WorkspacePluginOptions> = async
       });
     }
 
+    userService?.forgetWorkspace(workspaceId);
     return reply.code(204).send();
   });
 };
@@ -1,7 +1,8 @@
 import path from "node:path";
 
+import { defaultRuntimePolicy, type ApprovalPolicy, type SandboxMode } from "../codex/runtime-policy.js";
 import { validateWorkspacePath } from "./path-guard.js";
-import type { WorkspaceStore, WorkspaceRecord } from "./store.js";
+import type { WorkspaceStore, WorkspaceRecord, WorkspaceUpdate } from "./store.js";
 
 export class WorkspaceService {
   constructor(
@@ -17,6 +18,8 @@ export class WorkspaceService {
     absolutePath: string;
     displayName?: string;
     trusted?: boolean;
+    sandboxMode?: SandboxMode;
+    approvalPolicy?: ApprovalPolicy;
   }): WorkspaceRecord {
     const validation = validateWorkspacePath(input.absolutePath, this.allowedRoots);
     const displayName = input.displayName?.trim() || path.basename(validation.canonicalPath);
@@ -24,10 +27,34 @@ export class WorkspaceService {
     return this.store.create({
       absolutePath: validation.canonicalPath,
       displayName,
-      trusted: input.trusted ?? true
+      trusted: input.trusted ?? true,
+      ...(input.sandboxMode === undefined ? {} : { sandboxMode: input.sandboxMode }),
+      ...(input.approvalPolicy === undefined ? {} : { approvalPolicy: input.approvalPolicy })
     });
   }
 
+  updateWorkspace(workspaceId: string, input: WorkspaceUpdate): WorkspaceRecord | null {
+    const existing = this.store.getById(workspaceId);
+    if (!existing) {
+      return null;
+    }
+
+    const displayName = input.displayName?.trim();
+    const update: WorkspaceUpdate = {
+      ...input,
+      ...(input.displayName === undefined ? {} : { displayName: displayName || existing.displayName })
+    };
+
+    // Revoking trust drops the workspace to the restrictive defaults unless the caller picks a policy explicitly.
+    if (input.trusted === false && existing.trusted) {
+      const restrictivePolicy = defaultRuntimePolicy(false);
+      update.sandboxMode = input.sandboxMode ?? restrictivePolicy.sandboxMode;
+      update.approvalPolicy = input.approvalPolicy ?? restrictivePolicy.approvalPolicy;
+    }
+
+    return this.store.update(workspaceId, update);
+  }
+
   deleteWorkspace(workspaceId: string): boolean {
     return this.store.delete(workspaceId);
   }
@@ -3,20 +3,39 @@ import path from "node:path";
 import { randomUUID } from "node:crypto";
 import { DatabaseSync, type StatementSync } from "node:sqlite";
 
+import {
+  defaultRuntimePolicy,
+  isApprovalPolicy,
+  isSandboxMode,
+  type ApprovalPolicy,
+  type SandboxMode
+} from "../codex/runtime-policy.js";
+
 export interface WorkspaceRecord {
   workspaceId: string;
   absolutePath: string;
   displayName: string;
   trusted: boolean;
+  sandboxMode: SandboxMode;
+  approvalPolicy: ApprovalPolicy;
   createdAt: string;
   updatedAt: string;
 }
 
+export interface WorkspaceUpdate {
+  displayName?: string;
+  trusted?: boolean;
+  sandboxMode?: SandboxMode;
+  approvalPolicy?: ApprovalPolicy;
+}
+
 interface WorkspaceRow {
   workspace_id: string;
   absolute_path: string;
   display_name: string;
   trusted: number;
+  sandbox_mode: string | null;
+  approval_policy: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -35,12 +54,21 @@ export class DuplicateWorkspacePathError extends WorkspaceStoreError {
   }
 }
 
+const WORKSPACE_COLUMNS =
+  "workspace_id, absolute_path, display_name, trusted, sandbox_mode, approval_policy, created_at, updated_at";
+
 function mapWorkspaceRow(row: WorkspaceRow): WorkspaceRecord {
+  const trusted = row.trusted === 1;
+  // Rows created before per-workspace policies existed fall back to the default for their trust level.
+  const fallbackPolicy = defaultRuntimePolicy(trusted);
+
   return {
     workspaceId: row.workspace_id,
     absolutePath: row.absolute_path,
     displayName: row.display_name,
-    trusted: row.trusted === 1,
+    trusted,
+    sandboxMode: isSandboxMode(row.sandbox_mode) ? row.sandbox_mode : fallbackPolicy.sandboxMode,
+    approvalPolicy: isApprovalPolicy(row.approval_policy) ? row.approval_policy : fallbackPolicy.approvalPolicy,
     createdAt: row.created_at,
     updatedAt: row.updated_at
   };
@@ -51,6 +79,7 @@ export class WorkspaceStore {
   private readonly listStatement: StatementSync;
   private readonly getByIdStatement: StatementSync;
   private readonly insertStatement: StatementSync;
+  private readonly updateStatement: StatementSync;
   private readonly deleteStatement: StatementSync;
 
   constructor(databasePath: string) {
@@ -65,18 +94,21 @@ export class WorkspaceStore {
         absolute_path TEXT NOT NULL UNIQUE,
         display_name TEXT NOT NULL,
         trusted INTEGER NOT NULL DEFAULT 1,
+        sandbox_mode TEXT,
+        approval_policy TEXT,
         created_at TEXT NOT NULL,
         updated_at TEXT NOT NULL
       );
     `);
+    this.migrateRuntimePolicyColumns();
 
     this.listStatement = this.database.prepare(`
-      SELECT workspace_id, absolute_path, display_name, trusted, created_at, updated_at
+      SELECT ${WORKSPACE_COLUMNS}
       FROM workspaces
       ORDER BY created_at DESC
     `);
     this.getByIdStatement = this.database.prepare(`
-      SELECT workspace_id, absolute_path, display_name, trusted, created_at, updated_at
+      SELECT ${WORKSPACE_COLUMNS}
       FROM workspaces
       WHERE workspace_id = ?
       LIMIT 1
@@ -87,9 +119,16 @@ export class WorkspaceStore {
         absolute_path,
         display_name,
         trusted,
+        sandbox_mode,
+        approval_policy,
         created_at,
         updated_at
-      ) VALUES (?, ?, ?, ?, ?, ?)
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    this.updateStatement = this.database.prepare(`
+      UPDATE workspaces
+      SET display_name = ?, trusted = ?, sandbox_mode = ?, approval_policy = ?, updated_at = ?
+      WHERE workspace_id = ?
     `);
     this.deleteStatement = this.database.prepare(`
       DELETE FROM workspaces
@@ -106,13 +145,18 @@ export class WorkspaceStore {
     absolutePath: string;
     displayName: string;
     trusted: boolean;
+    sandboxMode?: SandboxMode;
+    approvalPolicy?: ApprovalPolicy;
   }): WorkspaceRecord {
     const now = new Date().toISOString();
+    const defaultPolicy = defaultRuntimePolicy(input.trusted);
     const workspaceRecord: WorkspaceRecord = {
       workspaceId: randomUUID(),
       absolutePath: input.absolutePath,
       displayName: input.displayName,
       trusted: input.trusted,
+      sandboxMode: input.sandboxMode ?? defaultPolicy.sandboxMode,
+      approvalPolicy: input.approvalPolicy ?? defaultPolicy.approvalPolicy,
       createdAt: now,
       updatedAt: now
     };
@@ -123,6 +167,8 @@ export class WorkspaceStore {
         workspaceRecord.absolutePath,
         workspaceRecord.displayName,
         workspaceRecord.trusted ? 1 : 0,
+        workspaceRecord.sandboxMode,
+        workspaceRecord.approvalPolicy,
         workspaceRecord.createdAt,
         workspaceRecord.updatedAt
       );
@@ -139,6 +185,36 @@ export class WorkspaceStore {
     return workspaceRecord;
   }
 
+  update(workspaceId: string, update: WorkspaceUpdate): WorkspaceRecord | null {
+    const existing = this.getById(workspaceId);
+    if (!existing) {
+      return null;
+    }
+
+    const updatedRecord: WorkspaceRecord = {
+      ...existing,
+      ...update,
+      updatedAt: new Date().toISOString()
+    };
+
+    try {
+      this.updateStatement.run(
+        updatedRecord.displayName,
+        updatedRecord.trusted ? 1 : 0,
+        updatedRecord.sandboxMode,
+        updatedRecord.approvalPolicy,
+        updatedRecord.updatedAt,
+        workspaceId
+      );
+    } catch (error: unknown) {
+      throw new WorkspaceStoreError(
+        error instanceof Error ? `Failed to update workspace: ${error.message}` : "Failed to update workspace"
+      );
+    }
+
+    return updatedRecord;
+  }
+
   delete(workspaceId: string): boolean {
     const result = this.deleteStatement.run(workspaceId);
     const changes = Number(result.changes ?? 0);
@@ -157,4 +233,18 @@ export class WorkspaceStore {
   close(): void {
     this.database.close();
   }
+
+  private migrateRuntimePolicyColumns(): void {
+    const columns = this.database.prepare("PRAGMA table_info(workspaces)").all() as unknown as Array<{
+      name: string;
+    }>;
+    const columnNames = new Set(columns.map((column) => column.name));
+
+    if (!columnNames.has("sandbox_mode")) {
+      this.database.exec("ALTER TABLE workspaces ADD COLUMN sandbox_mode TEXT");
+    }
+    if (!columnNames.has("approval_policy")) {
+      this.database.exec("ALTER TABLE workspaces ADD COLUMN approval_policy TEXT");
+    }
+  }
 }
@@ -1,3 +1,4 @@
+import path from "node:path";
 import { createInterface } from "node:readline";
 
 interface RpcRequest {
@@ -8,6 +9,7 @@ interface RpcRequest {
 
 let isInitialized = false;
 let turnCounter = 1;
+const turnsAwaitingApproval = new Map<number | string, { threadId: string; turnId: string; itemId: string }>();
 const threadState = new Map<string, { id: string; title?: string; archived: boolean }>([
   [
     "thread-1",
@@ -35,6 +37,17 @@ function parseThreadIdFromParams(params: unknown): string | undefined {
   return undefined;
 }
 
+function commandItem(itemId: string, status: "inProgress" | "completed"): Record<string, unknown> {
+  return {
+    type: "commandExecution",
+    id: itemId,
+    command: "echo hello",
+    cwd: process.cwd(),
+    status,
+    ...(status === "completed" ? { aggregatedOutput: "hello\n", exitCode: 0 } : {})
+  };
+}
+
 function sendMessage(message: unknown): void {
   process.stdout.write(`${JSON.stringify(message)}\n`);
 }
@@ -135,6 +148,15 @@ function handleRequest(request: RpcRequest): void {
         }
       });
       return;
+    case "test/emit-stderr":
+      process.stderr.write("warning: first line\nwarning: second line\n");
+      sendMessage({
+        id: request.id,
+        result: {
+          ok: true
+        }
+      });
+      return;
     case "thread/list":
       if (!requireInitialized(request)) {
         return;
@@ -193,6 +215,27 @@ function handleRequest(request: RpcRequest): void {
         return;
       }
       {
+        if (process.env.FAKE_SCHEMA_DRIFT === "1") {
+          sendMessage({
+            method: "item/completed",
+            params: {
+              item: {
+                type: "agentMessage",
+                id: "item-drift"
+              }
+            }
+          });
+          sendMessage({
+            id: request.id,
+            result: {
+              thread: {
+                title: "Thread without an id"
+              }
+            }
+          });
+          return;
+        }
+
         const threadId = parseThreadIdFromParams(request.params) ?? "thread-1";
         const thread = threadState.get(threadId);
         if (!thread) {
@@ -234,6 +277,7 @@ function handleRequest(request: RpcRequest): void {
         return;
       }
       {
+        const threadId = parseThreadIdFromParams(request.params) ?? "thread-1";
         const turnId = `turn-${turnCounter}`;
         const itemId = `item-${turnCounter}`;
         turnCounter += 1;
@@ -241,36 +285,138 @@ function handleRequest(request: RpcRequest): void {
         sendMessage({
           method: "turn/started",
           params: {
-            turnId
+            threadId,
+            turn: { id: turnId, status: "inProgress", items: [] }
           }
         });
+
+        if ((request.params as { requireApproval?: unknown } | undefined)?.requireApproval === true) {
+          const approvalId = `approval-${turnId}`;
+          turnsAwaitingApproval.set(approvalId, { threadId, turnId, itemId });
+          sendMessage({
+            id: approvalId,
+            method: "item/commandExecution/requestApproval",
+            params: {
+              threadId,
+              turnId,
+              itemId,
+              command: "echo approved",
+              cwd: process.cwd(),
+              reason: "Fake command needs approval"
+            }
+          });
+          sendMessage({
+            id: request.id,
+            result: {
+              turn: { id: turnId, status: "inProgress", items: [] }
+            }
+          });
+          return;
+        }
         sendMessage({
           method: "item/started",
           params: {
+            threadId,
             turnId,
-            itemId
+            item: commandItem(itemId, "inProgress")
           }
         });
         sendMessage({
           method: "item/completed",
           params: {
+            threadId,
             turnId,
-            itemId
+            item: commandItem(itemId, "completed")
           }
         });
         sendMessage({
           method: "turn/completed",
           params: {
-            turnId,
-            status: "completed"
+            threadId,
+            turn: { id: turnId, status: "completed", items: [] }
+          }
+        });
+
+        sendMessage({
+          id: request.id,
+          result: {
+            turn: { id: turnId, status: "completed", items: [] }
           }
         });
+      }
+      return;
+    case "review/start":
+      if (!requireInitialized(request)) {
+        return;
+      }
+      {
+        const threadId = parseThreadIdFromParams(request.params) ?? "thread-1";
+        const turnId = `turn-${turnCounter}`;
+        turnCounter += 1;
+        const workspaceRoot = process.env.FAKE_WORKSPACE_ROOT ?? process.cwd();
 
         sendMessage({
           id: request.id,
           result: {
+            turn: { id: turnId, status: "inProgress", items: [] },
+            reviewThreadId: threadId
+          }
+        });
+        sendMessage({
+          method: "turn/started",
+          params: {
+            threadId,
+            turn: { id: turnId, status: "inProgress", items: [] }
+          }
+        });
+        sendMessage({
+          method: "item/started",
+          params: {
+            threadId,
+            turnId,
+            item: { type: "enteredReviewMode", id: `review-${turnId}`, review: "current changes" }
+          }
+        });
+        sendMessage({
+          method: "codex/event/exited_review_mode",
+          params: {
+            id: turnId,
+            conversationId: threadId,
+            msg: {
+              type: "exited_review_mode",
+              review_output: {
+                findings: [
+                  {
+                    title: "Possible null dereference",
+                    body: "The result is used before checking it.",
+                    confidence_score: 0.8,
+                    priority: 1,
+                    code_location: {
+                      absolute_file_path: path.join(workspaceRoot, "src/app.ts"),
+                      line_range: { start: 3, end: 4 }
+                    }
+                  }
+                ],
+                overall_correctness: "patch is incorrect",
+                overall_explanation: "One issue found.",
+                overall_confidence_score: 0.7
+              }
+            }
+          }
+        });
+        sendMessage({
+          method: "item/completed",
+          params: {
+            threadId,
             turnId,
-            status: "completed"
+            item: { type: "exitedReviewMode", id: `review-${turnId}`, review: "One issue found." }
+          }
+        });
+        sendMessage({
+          method: "turn/completed",
+          params: {
+            threadId,
+            turn: { id: turnId, status: "completed", items: [] }
           }
         });
       }
@@ -282,8 +428,7 @@ function handleRequest(request: RpcRequest): void {
       sendMessage({
         id: request.id,
         result: {
-          ok: true,
-          action: "steer"
+          turnId: `turn-${turnCounter - 1}`
         }
       });
       return;
@@ -324,6 +469,31 @@ function handleRequest(request: RpcRequest): void {
   }
 }
 
+function handleServerRequestResponse(id: number | string, result: unknown): void {
+  const pendingTurn = turnsAwaitingApproval.get(id);
+  if (!pendingTurn) {
+    return;
+  }
+
+  turnsAwaitingApproval.delete(id);
+  sendMessage({
+    method: "item/completed",
+    params: {
+      threadId: pendingTurn.threadId,
+      turnId: pendingTurn.turnId,
+      item: commandItem(pendingTurn.itemId, "completed"),
+      approval: result
+    }
+  });
+  sendMessage({
+    method: "turn/completed",
+    params: {
+      threadId: pendingTurn.threadId,
+      turn: { id: pendingTurn.turnId, status: "completed", items: [] }
+    }
+  });
+}
+
 function handleNotification(method: string): void {
   if (method === "initialized") {
     isInitialized = true;
@@ -366,5 +536,10 @@ lineReader.on("line", (line) => {
 
   if ("method" in message && typeof message.method === "string") {
     handleNotification(message.method);
+    return;
+  }
+
+  if ("id" in message && (typeof message.id === "number" || typeof message.id === "string")) {
+    handleServerRequestResponse(message.id, "result" in message ? message.result : undefined);
   }
 });
@@ -0,0 +1,82 @@
+import { createHash, generateKeyPairSync, randomBytes, sign } from "node:crypto";
+
+import {
+  COSE_ALGORITHM_ES256,
+  type AuthenticationResponse,
+  type RegistrationResponse
+} from "../../src/auth/webauthn.js";
+
+export const FLAG_USER_PRESENT = 0x01;
+export const FLAG_USER_VERIFIED = 0x04;
+const FLAG_ATTESTED_CREDENTIAL_DATA = 0x40;
+
+export interface FakeCeremonyOverrides {
+  origin?: string;
+  rpId?: string;
+  flags?: number;
+  signCount?: number;
+}
+
+function sha256(data: Buffer | string): Buffer {
+  return createHash("sha256").update(data).digest();
+}
+
+/** A software ES256 authenticator producing the JSON the web client posts after `navigator.credentials`. */
+export class FakeAuthenticator {
+  readonly credentialId = randomBytes(16);
+  private readonly keyPair = generateKeyPairSync("ec", { namedCurve: "P-256" });
+  private signCount = 0;
+
+  constructor(private readonly origin: string) {}
+
+  register(challenge: string, overrides: FakeCeremonyOverrides = {}): RegistrationResponse {
+    const credentialIdLength = Buffer.alloc(2);
+    credentialIdLength.writeUInt16BE(this.credentialId.length);
+    const attestedCredentialData = Buffer.concat([Buffer.alloc(16), credentialIdLength, this.credentialId]);
+    const authenticatorData = Buffer.concat([
+      this.buildAuthenticatorData(overrides, FLAG_ATTESTED_CREDENTIAL_DATA, 0),
+      attestedCredentialData
+    ]);
+
+    return {
+      credentialId: this.credentialId.toString("base64url"),
+      clientDataJSON: this.buildClientData("webauthn.create", challenge, overrides).toString("base64url"),
+      authenticatorData: authenticatorData.toString("base64url"),
+      publicKey: this.keyPair.publicKey.export({ format: "der", type: "spki" }).toString("base64url"),
+      publicKeyAlgorithm: COSE_ALGORITHM_ES256,
+      transports: ["internal"]
+    };
+  }
+
+  authenticate(
+    challenge: string,
+    userHandle: string | null,
+    overrides: FakeCeremonyOverrides = {}
+  ): AuthenticationResponse {
+    this.signCount += 1;
+    const authenticatorData = this.buildAuthenticatorData(overrides, 0, this.signCount);
+    const clientDataJSON = this.buildClientData("webauthn.get", challenge, overrides);
+    const signedData = Buffer.concat([authenticatorData, sha256(clientDataJSON)]);
+    const signature = sign("sha256", signedData, this.keyPair.privateKey);
+
+    return {
+      credentialId: this.credentialId.toString("base64url"),
+      clientDataJSON: clientDataJSON.toString("base64url"),
+      authenticatorData: authenticatorData.toString("base64url"),
+      signature: signature.toString("base64url"),
+      userHandle
+    };
+  }
+
+  private buildClientData(type: string, challenge: string, overrides: FakeCeremonyOverrides): Buffer {
+    return Buffer.from(JSON.stringify({ type, challenge, origin: overrides.origin ?? this.origin }));
+  }
+
+  private buildAuthenticatorData(overrides: FakeCeremonyOverrides, extraFlags: number, signCount: number): Buffer {
+    const counter = Buffer.alloc(4);
+    counter.writeUInt32BE(overrides.signCount ?? signCount);
+    const flags = (overrides.flags ?? FLAG_USER_PRESENT | FLAG_USER_VERIFIED) | extraFlags;
+
+    return Buffer.concat([sha256(overrides.rpId ?? new URL(this.origin).hostname), Buffer.from([flags]), counter]);
+  }
+}
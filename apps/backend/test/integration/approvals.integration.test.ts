@@ -0,0 +1,234 @@
+import { createServer } from "node:net";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+import { afterEach, describe, expect, it } from "vitest";
+
+import { AppServerManager } from "../../src/codex/app-server-manager.js";
+import { startServer } from "../../src/server.js";
+
+async function findAvailablePort(): Promise<number> {
+  return await new Promise<number>((resolve, reject) => {
+    const server = createServer();
+    server.listen(0, "127.0.0.1", () => {
+      const address = server.address();
+      if (address === null || typeof address === "string") {
+        reject(new Error("Unable to allocate a test port"));
+        return;
+      }
+
+      const allocatedPort = address.port;
+      server.close((error) => {
+        if (error) {
+          reject(error);
+          return;
+        }
+        resolve(allocatedPort);
+      });
+    });
+    server.on("error", reject);
+  });
+}
+
+async function login(baseUrl: string, password: string): Promise<{ sessionCookie: string; csrfToken: string }> {
+  const response = await fetch(`${baseUrl}/api/auth/login`, {
+    method: "POST",
+    headers: {
+      "content-type": "application/json"
+    },
+    body: JSON.stringify({ password })
+  });
+
+  const body = (await response.json()) as { csrfToken?: string };
+  const setCookie = response.headers.get("set-cookie");
+  const sessionCookie = setCookie?.split(";")[0];
+
+  if (!sessionCookie || !body.csrfToken) {
+    throw new Error("Failed to login in test setup");
+  }
+
+  return {
+    sessionCookie,
+    csrfToken: body.csrfToken
+  };
+}
+
+async function createWorkspace(
+  baseUrl: string,
+  sessionCookie: string,
+  csrfToken: string,
+  workspacePath: string
+): Promise<string> {
+  const response = await fetch(`${baseUrl}/api/workspaces`, {
+    method: "POST",
+    headers: {
+      "content-type": "application/json",
+      cookie: sessionCookie,
+      "x-csrf-token": csrfToken
+    },
+    body: JSON.stringify({
+      absolutePath: workspacePath,
+      displayName: "Approval Workspace"
+    })
+  });
+
+  const body = (await response.json()) as { workspace?: { workspaceId?: string } };
+  const workspaceId = body.workspace?.workspaceId;
+
+  if (response.status !== 201 || !workspaceId) {
+    throw new Error("Failed to create workspace in test setup");
+  }
+
+  return workspaceId;
+}
+
+async function waitForPendingApprovals(
+  url: string,
+  sessionCookie: string,
+  timeoutMs: number
+): Promise<Array<{ requestId: string; kind: string; command: string | null }>> {
+  const deadline = Date.now() + timeoutMs;
+
+  while (Date.now() < deadline) {
+    const response = await fetch(url, {
+      headers: {
+        cookie: sessionCookie
+      }
+    });
+    const body = (await response.json()) as {
+      approvals?: Array<{ requestId: string; kind: string; command: string | null }>;
+    };
+    if (body.approvals && body.approvals.length > 0) {
+      return body.approvals;
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, 25));
+  }
+
+  throw new Error("Timed out waiting for pending approvals");
+}
+
+describe("approval routes integration", () => {
+  const cleanupTargets: string[] = [];
+
+  afterEach(() => {
+    for (const target of cleanupTargets.splice(0)) {
+      fs.rmSync(target, { recursive: true, force: true });
+    }
+  });
+
+  it("lists pending approvals and forwards decisions to the app-server", async () => {
+    const tempRoot = fs.mkdtempSync(path.join(os.tmpdir(), "poketcodex-approvals-"));
+    cleanupTargets.push(tempRoot);
+    const allowedRoot = path.join(tempRoot, "allowed");
+    const workspacePath = path.join(allowedRoot, "workspace-a");
+    fs.mkdirSync(workspacePath, { recursive: true });
+
+    const fakeServerPath = path.resolve(process.cwd(), "test/fixtures/fake-app-server.ts");
+    const port = await findAvailablePort();
+
+    const server = await startServer({
+      logger: false,
+      appServerManagerFactory: () => {
+        return new AppServerManager({
+          spawn: {
+            command: process.execPath,
+            args: ["--import", "tsx", fakeServerPath],
+            cwd: process.cwd()
+          }
+        });
+      },
+      env: {
+        ...process.env,
+        NODE_ENV: "test",
+        HOST: "127.0.0.1",
+        PORT: String(port),
+        SQLITE_DATABASE_PATH: path.join(tempRoot, "approvals.db"),
+        AUTH_MODE: "single_user",
+        AUTH_PASSWORD: "approval-test-password",
+        SESSION_SECRET: "approval-session-secret-123456789012",
+        CSRF_SECRET: "approval-csrf-secret-1234567890123456",
+        COOKIE_SECURE: "false",
+        SESSION_TTL_MINUTES: "60",
+        ALLOWED_WORKSPACE_ROOTS: allowedRoot
+      }
+    });
+
+    try {
+      const baseUrl = `http://127.0.0.1:${port}`;
+      const { sessionCookie, csrfToken } = await login(baseUrl, "approval-test-password");
+      const workspaceId = await createWorkspace(baseUrl, sessionCookie, csrfToken, workspacePath);
+      const approvalsUrl = `${baseUrl}/api/workspaces/${workspaceId}/approvals`;
+
+      const unauthenticatedResponse = await fetch(approvalsUrl);
+      expect(unauthenticatedResponse.status).toBe(401);
+
+      const turnStartResponse = await fetch(`${baseUrl}/api/workspaces/${workspaceId}/turns/start`, {
+        method: "POST",
+        headers: {
+          "content-type": "application/json",
+          cookie: sessionCookie,
+          "x-csrf-token": csrfToken
+        },
+        body: JSON.stringify({ prompt: "run a command", requireApproval: true })
+      });
+      expect(turnStartResponse.status).toBe(200);
+
+      const approvals = await waitForPendingApprovals(approvalsUrl, sessionCookie, 5_000);
+      expect(approvals).toHaveLength(1);
+      expect(approvals[0]).toMatchObject({ kind: "commandExecution", command: "echo approved" });
+
+      const requestId = approvals[0]?.requestId ?? "";
+      const invalidDecisionResponse = await fetch(`${approvalsUrl}/${requestId}`, {
+        method: "POST",
+        headers: {
+          "content-type": "application/json",
+          cookie: sessionCookie,
+          "x-csrf-token": csrfToken
+        },
+        body: JSON.stringify({ decision: "maybe" })
+      });
+      expect(invalidDecisionResponse.status).toBe(400);
+
+      const approveResponse = await fetch(`${approvalsUrl}/${requestId}`, {
+        method: "POST",
+        headers: {
+          "content-type": "application/json",
+          cookie: sessionCookie,
+          "x-csrf-token": csrfToken
+        },
+        body: JSON.stringify({ decision: "approve", reason: "Looks safe" })
+      });
+      expect(approveResponse.status).toBe(200);
+      const approveBody = (await approveResponse.json()) as {
+        resolution?: { decision?: string; reason?: string; source?: string };
+      };
+      expect(approveBody.resolution).toMatchObject({
+        decision: "approve",
+        reason: "Looks safe",
+        source: "user"
+      });
+
+      const repeatResponse = await fetch(`${approvalsUrl}/${requestId}`, {
+        method: "POST",
+        headers: {
+          "content-type": "application/json",
+          cookie: sessionCookie,
+          "x-csrf-token": csrfToken
+        },
+        body: JSON.stringify({ decision: "deny" })
+      });
+      expect(repeatResponse.status).toBe(404);
+
+      const listResponse = await fetch(approvalsUrl, {
+        headers: {
+          cookie: sessionCookie
+        }
+      });
+      expect(await listResponse.json()).toEqual({ approvals: [] });
+    } finally {
+      await server.close();
+    }
+  });
+});
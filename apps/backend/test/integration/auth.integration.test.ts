@@ -1,8 +1,13 @@
+import fs from "node:fs";
 import { createServer } from "node:net";
+import os from "node:os";
+import path from "node:path";
 
 import { describe, expect, it } from "vitest";
 
 import { startServer } from "../../src/server.js";
+import { generateTotpCode, toTimeStep } from "../../src/auth/totp.js";
+import { FakeAuthenticator } from "../helpers/fake-authenticator.js";
 
 async function findAvailablePort(): Promise<number> {
   return await new Promise<number>((resolve, reject) => {
@@ -30,13 +35,13 @@ async function findAvailablePort(): Promise<number> {
   });
 }
 
-function buildTestEnv(port: number): NodeJS.ProcessEnv {
+function buildTestEnv(port: number, databasePath = ":memory:"): NodeJS.ProcessEnv {
   return {
     ...process.env,
     NODE_ENV: "test",
     HOST: "127.0.0.1",
     PORT: String(port),
-    SQLITE_DATABASE_PATH: ":memory:",
+    SQLITE_DATABASE_PATH: databasePath,
     LOG_LEVEL: "info",
     AUTH_MODE: "single_user",
     AUTH_PASSWORD: "pocketcodex-test-password",
@@ -48,6 +53,32 @@ function buildTestEnv(port: number): NodeJS.ProcessEnv {
   };
 }
 
+async function login(port: number, userAgent: string): Promise<{ cookie: string; csrfToken: string }> {
+  const response = await fetch(`http://127.0.0.1:${port}/api/auth/login`, {
+    method: "POST",
+    headers: {
+      "content-type": "application/json",
+      "user-agent": userAgent
+    },
+    body: JSON.stringify({ password: "pocketcodex-test-password" })
+  });
+  const body = (await response.json()) as { csrfToken?: string };
+
+  return {
+    cookie: response.headers.get("set-cookie")?.split(";")[0] ?? "",
+    csrfToken: body.csrfToken ?? ""
+  };
+}
+
+async function readSessionState(port: number, cookie: string): Promise<{ authenticated?: boolean }> {
+  const response = await fetch(`http://127.0.0.1:${port}/api/auth/session`, {
+    headers: {
+      cookie
+    }
+  });
+  return (await response.json()) as { authenticated?: boolean };
+}
+
 describe("auth integration", () => {
   it("rejects unauthenticated mutating requests", async () => {
     const port = await findAvailablePort();
@@ -122,4 +153,288 @@ describe("auth integration", () => {
       await server.close();
     }
   });
+
+  it("keeps sessions across a restart when they are stored in the database", async () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), "poketcodex-auth-"));
+    const databasePath = path.join(directory, "poketcodex.db");
+
+    try {
+      const firstPort = await findAvailablePort();
+      const firstServer = await startServer({
+        logger: false,
+        env: buildTestEnv(firstPort, databasePath)
+      });
+      const { cookie } = await login(firstPort, "phone");
+      await firstServer.close();
+
+      const secondPort = await findAvailablePort();
+      const secondServer = await startServer({
+        logger: false,
+        env: buildTestEnv(secondPort, databasePath)
+      });
+      try {
+        expect((await readSessionState(secondPort, cookie)).authenticated).toBe(true);
+      } finally {
+        await secondServer.close();
+      }
+    } finally {
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  });
+
+  it("lists active sessions and revokes another device's session", async () => {
+    const port = await findAvailablePort();
+    const server = await startServer({
+      logger: false,
+      env: buildTestEnv(port)
+    });
+
+    try {
+      const laptop = await login(port, "laptop");
+      const phone = await login(port, "phone");
+
+      const listResponse = await fetch(`http://127.0.0.1:${port}/api/auth/sessions`, {
+        headers: {
+          cookie: laptop.cookie
+        }
+      });
+      const listBody = (await listResponse.json()) as {
+        sessions: Array<{ id: string; current: boolean; userAgent: string | null }>;
+      };
+
+      expect(listResponse.status).toBe(200);
+      expect(listBody.sessions.map((session) => [session.userAgent, session.current]).sort()).toEqual([
+        ["laptop", true],
+        ["phone", false]
+      ]);
+      // The cookie value is "<session id>.<signature>"; the listing must not reveal the raw id.
+      const phoneSessionId = phone.cookie.slice(phone.cookie.indexOf("=") + 1).split(".")[0] ?? "";
+      expect(phoneSessionId).not.toBe("");
+      expect(JSON.stringify(listBody)).not.toContain(phoneSessionId);
+
+      const phoneSession = listBody.sessions.find((session) => session.userAgent === "phone");
+      const revokeResponse = await fetch(`http://127.0.0.1:${port}/api/auth/sessions/${phoneSession?.id ?? ""}`, {
+        method: "DELETE",
+        headers: {
+          cookie: laptop.cookie,
+          "x-csrf-token": laptop.csrfToken
+        }
+      });
+
+      expect(revokeResponse.status).toBe(200);
+      expect((await readSessionState(port, phone.cookie)).authenticated).toBe(false);
+      expect((await readSessionState(port, laptop.cookie)).authenticated).toBe(true);
+
+      const missingResponse = await fetch(`http://127.0.0.1:${port}/api/auth/sessions/${phoneSession?.id ?? ""}`, {
+        method: "DELETE",
+        headers: {
+          cookie: laptop.cookie,
+          "x-csrf-token": laptop.csrfToken
+        }
+      });
+      expect(missingResponse.status).toBe(404);
+    } finally {
+      await server.close();
+    }
+  });
+
+  it("throttles repeated failed logins with 429 and Retry-After", async () => {
+    const port = await findAvailablePort();
+    const server = await startServer({
+      logger: false,
+      env: {
+        ...buildTestEnv(port),
+        LOGIN_MAX_FAILED_ATTEMPTS: "2",
+        LOGIN_LOCKOUT_MINUTES: "5"
+      }
+    });
+
+    const attemptLogin = async (password: string): Promise<Response> =>
+      await fetch(`http://127.0.0.1:${port}/api/auth/login`, {
+        method: "POST",
+        headers: {
+          "content-type": "application/json"
+        },
+        body: JSON.stringify({ password })
+      });
+
+    try {
+      expect((await attemptLogin("wrong-password")).status).toBe(401);
+
+      const backoffResponse = await attemptLogin("pocketcodex-test-password");
+      const backoffBody = (await backoffResponse.json()) as { error?: string };
+      expect(backoffResponse.status).toBe(429);
+      expect(backoffResponse.headers.get("retry-after")).toBe("1");
+      expect(backoffBody.error).toBe("too_many_attempts");
+
+      await new Promise((resolve) => setTimeout(resolve, 1_050));
+      expect((await attemptLogin("wrong-password")).status).toBe(401);
+
+      const lockedResponse = await attemptLogin("pocketcodex-test-password");
+      expect(lockedResponse.status).toBe(429);
+      expect(lockedResponse.headers.get("retry-after")).toBe("300");
+    } finally {
+      await server.close();
+    }
+  });
+
+  it("requires a second factor once TOTP is enrolled", async () => {
+    const port = await findAvailablePort();
+    const server = await startServer({
+      logger: false,
+      env: {
+        ...buildTestEnv(port),
+        LOGIN_BACKOFF_BASE_MS: "0"
+      }
+    });
+
+    const postJson = async (route: string, payload: unknown, session?: { cookie: string; csrfToken: string }) =>
+      await fetch(`http://127.0.0.1:${port}${route}`, {
+        method: "POST",
+        headers: {
+          "content-type": "application/json",
+          ...(session ? { cookie: session.cookie, "x-csrf-token": session.csrfToken } : {})
+        },
+        body: JSON.stringify(payload)
+      });
+
+    try {
+      const laptop = await login(port, "laptop");
+      const enrollResponse = await postJson("/api/auth/two-factor/enroll", {}, laptop);
+      const enrollBody = (await enrollResponse.json()) as { secret?: string; otpauthUri?: string };
+      expect(enrollResponse.status).toBe(200);
+      expect(enrollBody.otpauthUri).toMatch(/^otpauth:\/\/totp\//);
+
+      const confirmResponse = await postJson(
+        "/api/auth/two-factor/confirm",
+        { code: generateTotpCode(enrollBody.secret ?? "", toTimeStep(Date.now())) },
+        laptop
+      );
+      const confirmBody = (await confirmResponse.json()) as { enabled?: boolean; recoveryCodes?: string[] };
+      expect(confirmResponse.status).toBe(200);
+      expect(confirmBody.enabled).toBe(true);
+
+      const passwordResponse = await postJson("/api/auth/login", { password: "pocketcodex-test-password" });
+      const passwordBody = (await passwordResponse.json()) as {
+        authenticated?: boolean;
+        twoFactorRequired?: boolean;
+        challengeToken?: string;
+      };
+      expect(passwordResponse.status).toBe(200);
+      expect(passwordBody).toMatchObject({ authenticated: false, twoFactorRequired: true });
+      expect(passwordResponse.headers.get("set-cookie")).toBeNull();
+
+      const challengeToken = passwordBody.challengeToken ?? "";
+      expect((await postJson("/api/auth/login/two-factor", { challengeToken, code: "000000" })).status).toBe(401);
+
+      const secondFactorResponse = await postJson("/api/auth/login/two-factor", {
+        challengeToken,
+        code: confirmBody.recoveryCodes?.[0] ?? ""
+      });
+      const secondFactorBody = (await secondFactorResponse.json()) as { authenticated?: boolean };
+      expect(secondFactorResponse.status).toBe(200);
+      expect(secondFactorBody.authenticated).toBe(true);
+
+      const cookie = secondFactorResponse.headers.get("set-cookie")?.split(";")[0] ?? "";
+      expect((await readSessionState(port, cookie)).authenticated).toBe(true);
+
+      const replayResponse = await postJson("/api/auth/login/two-factor", {
+        challengeToken,
+        code: confirmBody.recoveryCodes?.[1] ?? ""
+      });
+      expect(replayResponse.status).toBe(401);
+    } finally {
+      await server.close();
+    }
+  });
+
+  it("registers a passkey and signs in with it instead of the password", async () => {
+    const port = await findAvailablePort();
+    const origin = "http://localhost:5173";
+    const server = await startServer({
+      logger: false,
+      env: {
+        ...buildTestEnv(port),
+        PASSKEY_ORIGINS: origin
+      }
+    });
+
+    const postJson = async (route: string, payload: unknown, headers: Record<string, string> = {}) =>
+      await fetch(`http://127.0.0.1:${port}${route}`, {
+        method: "POST",
+        headers: {
+          "content-type": "application/json",
+          origin,
+          ...headers
+        },
+        body: JSON.stringify(payload)
+      });
+
+    try {
+      const laptop = await login(port, "laptop");
+      const sessionHeaders = { cookie: laptop.cookie, "x-csrf-token": laptop.csrfToken };
+      const authenticator = new FakeAuthenticator(origin);
+
+      const optionsResponse = await postJson("/api/auth/passkeys/registration-options", {}, sessionHeaders);
+      const options = (await optionsResponse.json()) as { challenge: string; rp: { id: string } };
+      expect(optionsResponse.status).toBe(200);
+      expect(options.rp.id).toBe("localhost");
+
+      const registerResponse = await postJson(
+        "/api/auth/passkeys",
+        { label: "Phone", credential: authenticator.register(options.challenge) },
+        sessionHeaders
+      );
+      expect(registerResponse.status).toBe(201);
+
+      const listResponse = await fetch(`http://127.0.0.1:${port}/api/auth/passkeys`, {
+        headers: { cookie: laptop.cookie }
+      });
+      const listBody = (await listResponse.json()) as { passkeys: Array<{ label: string }> };
+      expect(listBody.passkeys.map((passkey) => passkey.label)).toEqual(["Phone"]);
+
+      const foreignOriginResponse = await postJson("/api/auth/passkeys/registration-options", {}, {
+        ...sessionHeaders,
+        origin: "https://evil.example"
+      });
+      expect(foreignOriginResponse.status).toBe(400);
+
+      const loginOptionsResponse = await postJson("/api/auth/login/passkey/options", {});
+      const loginOptions = (await loginOptionsResponse.json()) as { challenge: string };
+      const challengeCookie = loginOptionsResponse.headers.get("set-cookie")?.split(";")[0] ?? "";
+      expect(challengeCookie).toMatch(/^poketcodex_passkey_challenge=/);
+
+      // The challenge only counts for the browser that received the cookie.
+      const strangerResponse = await postJson("/api/auth/login/passkey", {
+        credential: authenticator.authenticate(loginOptions.challenge, null)
+      });
+      expect(strangerResponse.status).toBe(401);
+      expect(((await strangerResponse.json()) as { error?: string }).error).toBe("challenge_expired");
+
+      const passkeyResponse = await postJson(
+        "/api/auth/login/passkey",
+        { credential: authenticator.authenticate(loginOptions.challenge, null) },
+        { cookie: challengeCookie, "user-agent": "phone" }
+      );
+      const passkeyBody = (await passkeyResponse.json()) as { authenticated?: boolean };
+      expect(passkeyResponse.status).toBe(200);
+      expect(passkeyBody.authenticated).toBe(true);
+
+      const phoneCookie =
+        passkeyResponse.headers
+          .getSetCookie()
+          .find((header) => header.startsWith("poketcodex_session="))
+          ?.split(";")[0] ?? "";
+      expect((await readSessionState(port, phoneCookie)).authenticated).toBe(true);
+
+      const replayResponse = await postJson(
+        "/api/auth/login/passkey",
+        { credential: authenticator.authenticate(loginOptions.challenge, null) },
+        { cookie: challengeCookie }
+      );
+      expect(replayResponse.status).toBe(401);
+    } finally {
+      await server.close();
+    }
+  });
 });
@@ -0,0 +1,231 @@
+import { createServer } from "node:net";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+import { afterEach, describe, expect, it } from "vitest";
+
+import { AppServerManager } from "../../src/codex/app-server-manager.js";
+import { startServer } from "../../src/server.js";
+
+async function findAvailablePort(): Promise<number> {
+  return await new Promise<number>((resolve, reject) => {
+    const server = createServer();
+    server.listen(0, "127.0.0.1", () => {
+      const address = server.address();
+      if (address === null || typeof address === "string") {
+        reject(new Error("Unable to allocate a test port"));
+        return;
+      }
+
+      const allocatedPort = address.port;
+      server.close((error) => {
+        if (error) {
+          reject(error);
+          return;
+        }
+        resolve(allocatedPort);
+      });
+    });
+    server.on("error", reject);
+  });
+}
+
+async function login(baseUrl: string, password: string): Promise<{ sessionCookie: string; csrfToken: string }> {
+  const response = await fetch(`${baseUrl}/api/auth/login`, {
+    method: "POST",
+    headers: {
+      "content-type": "application/json"
+    },
+    body: JSON.stringify({ password })
+  });
+
+  const body = (await response.json()) as { csrfToken?: string };
+  const setCookie = response.headers.get("set-cookie");
+  const sessionCookie = setCookie?.split(";")[0];
+
+  if (!sessionCookie || !body.csrfToken) {
+    throw new Error("Failed to login in test setup");
+  }
+
+  return {
+    sessionCookie,
+    csrfToken: body.csrfToken
+  };
+}
+
+async function createWorkspace(
+  baseUrl: string,
+  sessionCookie: string,
+  csrfToken: string,
+  workspacePath: string
+): Promise<string> {
+  const response = await fetch(`${baseUrl}/api/workspaces`, {
+    method: "POST",
+    headers: {
+      "content-type": "application/json",
+      cookie: sessionCookie,
+      "x-csrf-token": csrfToken
+    },
+    body: JSON.stringify({
+      absolutePath: workspacePath,
+      displayName: "Review Workspace"
+    })
+  });
+
+  const body = (await response.json()) as { workspace?: { workspaceId?: string } };
+  const workspaceId = body.workspace?.workspaceId;
+
+  if (response.status !== 201 || !workspaceId) {
+    throw new Error("Failed to create workspace in test setup");
+  }
+
+  return workspaceId;
+}
+
+interface ReviewBody {
+  reviewId: string;
+  status: string;
+  target: { type: string };
+  summary: string | null;
+  findings: Array<{ title: string; relativePath: string | null; lineStart: number; lineEnd: number }>;
+}
+
+async function waitForCompletedReview(url: string, sessionCookie: string, timeoutMs: number): Promise<ReviewBody> {
+  const deadline = Date.now() + timeoutMs;
+
+  while (Date.now() < deadline) {
+    const response = await fetch(url, {
+      headers: {
+        cookie: sessionCookie
+      }
+    });
+    const body = (await response.json()) as { review?: ReviewBody };
+    if (body.review && body.review.status !== "running") {
+      return body.review;
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, 25));
+  }
+
+  throw new Error("Timed out waiting for review to complete");
+}
+
+describe("review routes integration", () => {
+  const cleanupTargets: string[] = [];
+
+  afterEach(() => {
+    for (const target of cleanupTargets.splice(0)) {
+      fs.rmSync(target, { recursive: true, force: true });
+    }
+  });
+
+  it("starts a review and collects findings relative to the workspace", async () => {
+    const tempRoot = fs.mkdtempSync(path.join(os.tmpdir(), "poketcodex-reviews-"));
+    cleanupTargets.push(tempRoot);
+    const allowedRoot = path.join(tempRoot, "allowed");
+    const workspacePath = path.join(allowedRoot, "workspace-a");
+    fs.mkdirSync(workspacePath, { recursive: true });
+
+    const fakeServerPath = path.resolve(process.cwd(), "test/fixtures/fake-app-server.ts");
+    const port = await findAvailablePort();
+
+    const server = await startServer({
+      logger: false,
+      appServerManagerFactory: (workspace) => {
+        return new AppServerManager({
+          spawn: {
+            command: process.execPath,
+            args: ["--import", "tsx", fakeServerPath],
+            cwd: process.cwd(),
+            env: {
+              ...process.env,
+              FAKE_WORKSPACE_ROOT: workspace.absolutePath
+            }
+          }
+        });
+      },
+      env: {
+        ...process.env,
+        NODE_ENV: "test",
+        HOST: "127.0.0.1",
+        PORT: String(port),
+        SQLITE_DATABASE_PATH: path.join(tempRoot, "reviews.db"),
+        AUTH_MODE: "single_user",
+        AUTH_PASSWORD: "review-test-password",
+        SESSION_SECRET: "review-session-secret-1234567890123",
+        CSRF_SECRET: "review-csrf-secret-12345678901234567",
+        COOKIE_SECURE: "false",
+        SESSION_TTL_MINUTES: "60",
+        ALLOWED_WORKSPACE_ROOTS: allowedRoot
+      }
+    });
+
+    try {
+      const baseUrl = `http://127.0.0.1:${port}`;
+      const { sessionCookie, csrfToken } = await login(baseUrl, "review-test-password");
+      const workspaceId = await createWorkspace(baseUrl, sessionCookie, csrfToken, workspacePath);
+      const reviewsUrl = `${baseUrl}/api/workspaces/${workspaceId}/reviews`;
+
+      const unauthenticatedResponse = await fetch(reviewsUrl);
+      expect(unauthenticatedResponse.status).toBe(401);
+
+      const invalidTargetResponse = await fetch(reviewsUrl, {
+        method: "POST",
+        headers: {
+          "content-type": "application/json",
+          cookie: sessionCookie,
+          "x-csrf-token": csrfToken
+        },
+        body: JSON.stringify({ target: { type: "baseBranch", branch: "--upload-pack=evil" } })
+      });
+      expect(invalidTargetResponse.status).toBe(400);
+
+      const startResponse = await fetch(reviewsUrl, {
+        method: "POST",
+        headers: {
+          "content-type": "application/json",
+          cookie: sessionCookie,
+          "x-csrf-token": csrfToken
+        },
+        body: JSON.stringify({ target: { type: "uncommittedChanges" } })
+      });
+      expect(startResponse.status).toBe(200);
+      const startBody = (await startResponse.json()) as { review?: ReviewBody };
+      const reviewId = startBody.review?.reviewId ?? "";
+      expect(reviewId).not.toBe("");
+
+      const review = await waitForCompletedReview(`${reviewsUrl}/${reviewId}`, sessionCookie, 5_000);
+      expect(review).toMatchObject({
+        status: "completed",
+        target: { type: "uncommittedChanges" },
+        summary: "One issue found."
+      });
+      expect(review.findings).toEqual([
+        expect.objectContaining({
+          title: "Possible null dereference",
+          relativePath: "src/app.ts",
+          lineStart: 3,
+          lineEnd: 4
+        })
+      ]);
+
+      const listResponse = await fetch(reviewsUrl, {
+        headers: {
+          cookie: sessionCookie
+        }
+      });
+      const listBody = (await listResponse.json()) as { reviews?: ReviewBody[] };
+      expect(listBody.reviews?.map((entry) => entry.reviewId)).toEqual([reviewId]);
+
+      const missingResponse = await fetch(`${reviewsUrl}/missing-review`, {
+        headers: {
+          cookie: sessionCookie
+        }
+      });
+      expect(missingResponse.status).toBe(404);
+    } finally {
+      await server.close();
+    }
+  });
+});
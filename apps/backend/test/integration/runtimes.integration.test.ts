@@ -0,0 +1,266 @@
+import { createServer } from "node:net";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+import { afterEach, describe, expect, it } from "vitest";
+
+import { AppServerManager } from "../../src/codex/app-server-manager.js";
+import { startServer } from "../../src/server.js";
+
+async function findAvailablePort(): Promise<number> {
+  return await new Promise<number>((resolve, reject) => {
+    const server = createServer();
+    server.listen(0, "127.0.0.1", () => {
+      const address = server.address();
+      if (address === null || typeof address === "string") {
+        reject(new Error("Unable to allocate a test port"));
+        return;
+      }
+
+      const allocatedPort = address.port;
+      server.close((error) => {
+        if (error) {
+          reject(error);
+          return;
+        }
+        resolve(allocatedPort);
+      });
+    });
+    server.on("error", reject);
+  });
+}
+
+async function login(baseUrl: string, password: string): Promise<{ sessionCookie: string; csrfToken: string }> {
+  const response = await fetch(`${baseUrl}/api/auth/login`, {
+    method: "POST",
+    headers: {
+      "content-type": "application/json"
+    },
+    body: JSON.stringify({ password })
+  });
+
+  const body = (await response.json()) as { csrfToken?: string };
+  const setCookie = response.headers.get("set-cookie");
+  const sessionCookie = setCookie?.split(";")[0];
+
+  if (!sessionCookie || !body.csrfToken) {
+    throw new Error("Failed to login in test setup");
+  }
+
+  return {
+    sessionCookie,
+    csrfToken: body.csrfToken
+  };
+}
+
+async function createWorkspace(
+  baseUrl: string,
+  sessionCookie: string,
+  csrfToken: string,
+  workspacePath: string
+): Promise<string> {
+  const response = await fetch(`${baseUrl}/api/workspaces`, {
+    method: "POST",
+    headers: {
+      "content-type": "application/json",
+      cookie: sessionCookie,
+      "x-csrf-token": csrfToken
+    },
+    body: JSON.stringify({
+      absolutePath: workspacePath,
+      displayName: "Runtime Workspace"
+    })
+  });
+
+  const body = (await response.json()) as { workspace?: { workspaceId?: string } };
+  const workspaceId = body.workspace?.workspaceId;
+
+  if (response.status !== 201 || !workspaceId) {
+    throw new Error("Failed to create workspace in test setup");
+  }
+
+  return workspaceId;
+}
+
+describe("runtime routes integration", () => {
+  const cleanupTargets: string[] = [];
+
+  afterEach(() => {
+    for (const target of cleanupTargets.splice(0)) {
+      fs.rmSync(target, { recursive: true, force: true });
+    }
+  });
+
+  it("lists, restarts and stops workspace runtimes", async () => {
+    const tempRoot = fs.mkdtempSync(path.join(os.tmpdir(), "poketcodex-runtimes-"));
+    cleanupTargets.push(tempRoot);
+    const allowedRoot = path.join(tempRoot, "allowed");
+    const workspacePath = path.join(allowedRoot, "workspace-a");
+    fs.mkdirSync(workspacePath, { recursive: true });
+
+    const fakeServerPath = path.resolve(process.cwd(), "test/fixtures/fake-app-server.ts");
+    const port = await findAvailablePort();
+
+    const server = await startServer({
+      logger: false,
+      appServerManagerFactory: () => {
+        return new AppServerManager({
+          spawn: {
+            command: process.execPath,
+            args: ["--import", "tsx", fakeServerPath],
+            cwd: process.cwd()
+          }
+        });
+      },
+      env: {
+        ...process.env,
+        NODE_ENV: "test",
+        HOST: "127.0.0.1",
+        PORT: String(port),
+        SQLITE_DATABASE_PATH: path.join(tempRoot, "runtimes.db"),
+        AUTH_MODE: "single_user",
+        AUTH_PASSWORD: "runtime-test-password",
+        SESSION_SECRET: "runtime-session-secret-1234567890123",
+        CSRF_SECRET: "runtime-csrf-secret-12345678901234567",
+        COOKIE_SECURE: "false",
+        SESSION_TTL_MINUTES: "60",
+        ALLOWED_WORKSPACE_ROOTS: allowedRoot
+      }
+    });
+
+    try {
+      const baseUrl = `http://127.0.0.1:${port}`;
+      const { sessionCookie, csrfToken } = await login(baseUrl, "runtime-test-password");
+      const workspaceId = await createWorkspace(baseUrl, sessionCookie, csrfToken, workspacePath);
+      const runtimeUrl = `${baseUrl}/api/workspaces/${workspaceId}/runtime`;
+
+      const unauthenticatedResponse = await fetch(`${baseUrl}/api/runtimes`);
+      expect(unauthenticatedResponse.status).toBe(401);
+
+      const emptyListResponse = await fetch(`${baseUrl}/api/runtimes`, {
+        headers: {
+          cookie: sessionCookie
+        }
+      });
+      expect(await emptyListResponse.json()).toEqual({ runtimes: [] });
+
+      const restartResponse = await fetch(`${runtimeUrl}/restart`, {
+        method: "POST",
+        headers: {
+          cookie: sessionCookie,
+          "x-csrf-token": csrfToken
+        }
+      });
+      expect(restartResponse.status).toBe(200);
+      const restartBody = (await restartResponse.json()) as { runtime?: { state?: string; pid?: number | null } };
+      expect(restartBody.runtime).toMatchObject({ state: "ready", pid: expect.any(Number) });
+
+      const listResponse = await fetch(`${baseUrl}/api/runtimes`, {
+        headers: {
+          cookie: sessionCookie
+        }
+      });
+      const listBody = (await listResponse.json()) as { runtimes?: Array<{ workspaceId: string; state: string }> };
+      expect(listBody.runtimes).toMatchObject([{ workspaceId, state: "ready" }]);
+
+      const stopResponse = await fetch(`${runtimeUrl}/stop`, {
+        method: "POST",
+        headers: {
+          cookie: sessionCookie,
+          "x-csrf-token": csrfToken
+        }
+      });
+      expect(stopResponse.status).toBe(200);
+      expect(await stopResponse.json()).toMatchObject({ runtime: { workspaceId, state: "stopped", pid: null } });
+
+      const missingResponse = await fetch(`${baseUrl}/api/workspaces/missing/runtime`, {
+        headers: {
+          cookie: sessionCookie
+        }
+      });
+      expect(missingResponse.status).toBe(404);
+    } finally {
+      await server.close();
+    }
+  });
+
+  it("reports the runtime cap as runtime_limit while every runtime has a running turn", async () => {
+    const tempRoot = fs.mkdtempSync(path.join(os.tmpdir(), "poketcodex-runtimes-"));
+    cleanupTargets.push(tempRoot);
+    const allowedRoot = path.join(tempRoot, "allowed");
+    const busyWorkspacePath = path.join(allowedRoot, "workspace-busy");
+    const waitingWorkspacePath = path.join(allowedRoot, "workspace-waiting");
+    fs.mkdirSync(busyWorkspacePath, { recursive: true });
+    fs.mkdirSync(waitingWorkspacePath, { recursive: true });
+
+    const fakeServerPath = path.resolve(process.cwd(), "test/fixtures/fake-app-server.ts");
+    const port = await findAvailablePort();
+
+    const server = await startServer({
+      logger: false,
+      appServerManagerFactory: () => {
+        return new AppServerManager({
+          spawn: {
+            command: process.execPath,
+            args: ["--import", "tsx", fakeServerPath],
+            cwd: process.cwd()
+          }
+        });
+      },
+      env: {
+        ...process.env,
+        NODE_ENV: "test",
+        HOST: "127.0.0.1",
+        PORT: String(port),
+        SQLITE_DATABASE_PATH: path.join(tempRoot, "runtimes.db"),
+        AUTH_MODE: "single_user",
+        AUTH_PASSWORD: "runtime-test-password",
+        SESSION_SECRET: "runtime-session-secret-1234567890123",
+        CSRF_SECRET: "runtime-csrf-secret-12345678901234567",
+        COOKIE_SECURE: "false",
+        SESSION_TTL_MINUTES: "60",
+        ALLOWED_WORKSPACE_ROOTS: allowedRoot,
+        MAX_WORKSPACE_RUNTIMES: "1"
+      }
+    });
+
+    try {
+      const baseUrl = `http://127.0.0.1:${port}`;
+      const { sessionCookie, csrfToken } = await login(baseUrl, "runtime-test-password");
+      const busyWorkspaceId = await createWorkspace(baseUrl, sessionCookie, csrfToken, busyWorkspacePath);
+      const waitingWorkspaceId = await createWorkspace(baseUrl, sessionCookie, csrfToken, waitingWorkspacePath);
+      const startTurn = async (workspaceId: string): Promise<Response> => {
+        return await fetch(`${baseUrl}/api/workspaces/${workspaceId}/turns/start`, {
+          method: "POST",
+          headers: {
+            "content-type": "application/json",
+            cookie: sessionCookie,
+            "x-csrf-token": csrfToken
+          },
+          // The fake app-server keeps approval turns running until they are answered.
+          body: JSON.stringify({ prompt: "run a command", requireApproval: true })
+        });
+      };
+
+      const busyResponse = await startTurn(busyWorkspaceId);
+      expect(busyResponse.status).toBe(200);
+
+      const limitedResponse = await startTurn(waitingWorkspaceId);
+      expect(limitedResponse.status).toBe(429);
+      expect(await limitedResponse.json()).toMatchObject({ error: "runtime_limit" });
+
+      const restartResponse = await fetch(`${baseUrl}/api/workspaces/${waitingWorkspaceId}/runtime/restart`, {
+        method: "POST",
+        headers: {
+          cookie: sessionCookie,
+          "x-csrf-token": csrfToken
+        }
+      });
+      expect(restartResponse.status).toBe(429);
+      expect(await restartResponse.json()).toMatchObject({ error: "runtime_limit" });
+    } finally {
+      await server.close();
+    }
+  });
+});
@@ -6,7 +6,7 @@ import { describe, expect, it } from "vitest";
 function runBackendWithEnv(env: NodeJS.ProcessEnv): Promise<{ code: number | null; stderr: string }> {
   return new Promise((resolve, reject) => {
     const backendCwd = path.resolve(process.cwd());
-    const child = spawn(process.execPath, ["--import", "tsx", "src/index.ts"], {
+    const child = spawn(process.execPath, ["--conditions=development", "--import", "tsx", "src/index.ts"], {
       cwd: backendCwd,
       env,
       stdio: ["ignore", "pipe", "pipe"]
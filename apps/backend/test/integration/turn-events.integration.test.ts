@@ -133,6 +133,26 @@ async function collectMessagesUntil(
   });
 }
 
+// Replayed messages can arrive in the same chunk as the upgrade response, so listen before "open".
+async function collectMessagesFromNewSocket(
+  url: string,
+  sessionCookie: string,
+  shouldStop: (messages: unknown[]) => boolean,
+  timeoutMs: number
+): Promise<unknown[]> {
+  const socket = new WebSocket(url, {
+    headers: {
+      cookie: sessionCookie
+    }
+  });
+
+  try {
+    return await collectMessagesUntil(socket, shouldStop, timeoutMs);
+  } finally {
+    socket.close();
+  }
+}
+
 describe("turn routes and event bridge integration", () => {
   const cleanupTargets: string[] = [];
 
@@ -332,4 +352,123 @@ describe("turn routes and event bridge integration", () => {
       await server.close();
     }
   });
+
+  it("replays buffered events after a reconnect and reports gaps", async () => {
+    const tempRoot = fs.mkdtempSync(path.join(os.tmpdir(), "poketcodex-turn-replay-"));
+    cleanupTargets.push(tempRoot);
+    const allowedRoot = path.join(tempRoot, "allowed");
+    const workspacePath = path.join(allowedRoot, "workspace-a");
+    fs.mkdirSync(workspacePath, { recursive: true });
+
+    const fakeServerPath = path.resolve(process.cwd(), "test/fixtures/fake-app-server.ts");
+    const port = await findAvailablePort();
+
+    const server = await startServer({
+      logger: false,
+      appServerManagerFactory: () => {
+        return new AppServerManager({
+          spawn: {
+            command: process.execPath,
+            args: ["--import", "tsx", fakeServerPath],
+            cwd: process.cwd()
+          }
+        });
+      },
+      env: {
+        ...process.env,
+        NODE_ENV: "test",
+        HOST: "127.0.0.1",
+        PORT: String(port),
+        SQLITE_DATABASE_PATH: path.join(tempRoot, "turn-replay.db"),
+        AUTH_MODE: "single_user",
+        AUTH_PASSWORD: "turn-test-password",
+        SESSION_SECRET: "turn-session-secret-1234567890123456",
+        CSRF_SECRET: "turn-csrf-secret-12345678901234567890",
+        COOKIE_SECURE: "false",
+        SESSION_TTL_MINUTES: "60",
+        ALLOWED_WORKSPACE_ROOTS: allowedRoot
+      }
+    });
+
+    try {
+      const baseUrl = `http://127.0.0.1:${port}`;
+      const { sessionCookie, csrfToken } = await login(baseUrl, "turn-test-password");
+      const workspaceId = await createWorkspace(baseUrl, sessionCookie, csrfToken, workspacePath);
+      const websocketUrl = `ws://127.0.0.1:${port}/api/workspaces/${workspaceId}/events`;
+
+      const isTurnCompleted = (message: unknown) => {
+        const typedMessage = message as {
+          type?: string;
+          event?: { kind?: string; payload?: { method?: string } };
+        };
+        return (
+          typedMessage.type === "workspace_runtime_event" &&
+          typedMessage.event?.payload?.method === "turn/completed"
+        );
+      };
+
+      const liveSocket = await openWorkspaceSocket(websocketUrl, sessionCookie);
+      const liveMessagesPromise = collectMessagesUntil(
+        liveSocket,
+        (messages) => messages.some(isTurnCompleted),
+        5_000
+      );
+
+      const turnStartResponse = await fetch(`${baseUrl}/api/workspaces/${workspaceId}/turns/start`, {
+        method: "POST",
+        headers: {
+          "content-type": "application/json",
+          cookie: sessionCookie,
+          "x-csrf-token": csrfToken
+        },
+        body: JSON.stringify({ prompt: "stream this turn" })
+      });
+      expect(turnStartResponse.status).toBe(200);
+
+      const liveMessages = await liveMessagesPromise;
+      liveSocket.close();
+
+      const liveSequences = liveMessages
+        .map((message) => (message as { event?: { sequence?: number } }).event?.sequence)
+        .filter((sequence): sequence is number => typeof sequence === "number");
+      const firstSequence = liveSequences[0] ?? 0;
+      const expectedReplay = liveSequences.filter((sequence) => sequence > firstSequence);
+
+      const replayMessages = await collectMessagesFromNewSocket(
+        `${websocketUrl}?since=${firstSequence}`,
+        sessionCookie,
+        (messages) => messages.some(isTurnCompleted),
+        5_000
+      );
+
+      expect(replayMessages[0]).toMatchObject({ type: "connected", workspaceId });
+      expect(replayMessages.some((message) => (message as { type?: string }).type === "workspace_runtime_gap")).toBe(false);
+      const replayedMessages = replayMessages.filter(
+        (message) => (message as { replayed?: boolean }).replayed === true
+      ) as Array<{ event: { sequence: number } }>;
+      expect(replayedMessages.map((message) => message.event.sequence)).toEqual(expectedReplay);
+
+      const gapMessages = await collectMessagesFromNewSocket(
+        `${websocketUrl}?since=100000`,
+        sessionCookie,
+        (messages) => messages.length >= 2,
+        5_000
+      );
+
+      expect(gapMessages[1]).toMatchObject({
+        type: "workspace_runtime_gap",
+        workspaceId,
+        requestedSince: 100000
+      });
+      expect((gapMessages[1] as { latestSequence?: number }).latestSequence).toBeGreaterThanOrEqual(
+        liveSequences.at(-1) ?? 0
+      );
+
+      await expect(openWorkspaceSocket(`${websocketUrl}?since=abc`, sessionCookie)).rejects.toThrow(
+        "Unexpected websocket response: 400"
+      );
+    } finally {
+      await server.close();
+    }
+  });
 });
@@ -0,0 +1,209 @@
+import fs from "node:fs";
+import { createServer } from "node:net";
+import os from "node:os";
+import path from "node:path";
+
+import { afterEach, describe, expect, it } from "vitest";
+
+import { startServer } from "../../src/server.js";
+
+interface LoginResult {
+  status: number;
+  sessionCookie: string;
+  csrfToken: string;
+}
+
+async function findAvailablePort(): Promise<number> {
+  return await new Promise<number>((resolve, reject) => {
+    const server = createServer();
+    server.listen(0, "127.0.0.1", () => {
+      const address = server.address();
+
+      if (address === null || typeof address === "string") {
+        reject(new Error("Unable to determine test port"));
+        return;
+      }
+
+      const { port } = address;
+      server.close((error) => {
+        if (error) {
+          reject(error);
+          return;
+        }
+
+        resolve(port);
+      });
+    });
+
+    server.on("error", reject);
+  });
+}
+
+async function login(baseUrl: string, credentials: { username?: string; password: string }): Promise<LoginResult> {
+  const response = await fetch(`${baseUrl}/api/auth/login`, {
+    method: "POST",
+    headers: {
+      "content-type": "application/json"
+    },
+    body: JSON.stringify(credentials)
+  });
+  const body = (await response.json()) as { csrfToken?: string };
+
+  return {
+    status: response.status,
+    sessionCookie: response.headers.get("set-cookie")?.split(";")[0] ?? "",
+    csrfToken: body.csrfToken ?? ""
+  };
+}
+
+async function postJson(baseUrl: string, route: string, session: LoginResult, payload: unknown): Promise<Response> {
+  return await fetch(`${baseUrl}${route}`, {
+    method: "POST",
+    headers: {
+      "content-type": "application/json",
+      cookie: session.sessionCookie,
+      "x-csrf-token": session.csrfToken
+    },
+    body: JSON.stringify(payload)
+  });
+}
+
+describe("multi-user integration", () => {
+  const cleanupTargets: string[] = [];
+
+  afterEach(() => {
+    for (const target of cleanupTargets.splice(0)) {
+      fs.rmSync(target, { recursive: true, force: true });
+    }
+  });
+
+  it("bootstraps the admin and limits members to their granted workspaces", async () => {
+    const tempRoot = fs.mkdtempSync(path.join(os.tmpdir(), "poketcodex-users-"));
+    cleanupTargets.push(tempRoot);
+    const workspaceRoot = path.join(tempRoot, "allowed");
+    fs.mkdirSync(path.join(workspaceRoot, "shared"), { recursive: true });
+    fs.mkdirSync(path.join(workspaceRoot, "private"), { recursive: true });
+    const port = await findAvailablePort();
+
+    const server = await startServer({
+      logger: false,
+      env: {
+        ...process.env,
+        NODE_ENV: "test",
+        HOST: "127.0.0.1",
+        PORT: String(port),
+        SQLITE_DATABASE_PATH: path.join(tempRoot, "users.db"),
+        AUTH_MODE: "multi_user",
+        AUTH_PASSWORD: "users-admin-password",
+        AUTH_ADMIN_USERNAME: "root-admin",
+        SESSION_SECRET: "users-session-secret-123456789012",
+        CSRF_SECRET: "users-csrf-secret-1234567890123456",
+        COOKIE_SECURE: "false",
+        SESSION_TTL_MINUTES: "60",
+        LOGIN_BACKOFF_BASE_MS: "0",
+        ALLOWED_WORKSPACE_ROOTS: workspaceRoot
+      }
+    });
+
+    try {
+      const baseUrl = `http://127.0.0.1:${port}`;
+      expect((await login(baseUrl, { password: "users-admin-password" })).status).toBe(400);
+      expect((await login(baseUrl, { username: "root-admin", password: "wrong-password" })).status).toBe(401);
+
+      const admin = await login(baseUrl, { username: "root-admin", password: "users-admin-password" });
+      expect(admin.status).toBe(200);
+
+      const workspaceIds: string[] = [];
+      for (const name of ["shared", "private"]) {
+        const response = await postJson(baseUrl, "/api/workspaces", admin, {
+          absolutePath: path.join(workspaceRoot, name)
+        });
+        const body = (await response.json()) as { workspace?: { workspaceId?: string } };
+        expect(response.status).toBe(201);
+        workspaceIds.push(body.workspace?.workspaceId ?? "");
+      }
+      const [sharedWorkspaceId, privateWorkspaceId] = workspaceIds;
+
+      const createUserResponse = await postJson(baseUrl, "/api/users", admin, {
+        username: "alice",
+        password: "alice-member-password",
+        workspaceIds: [sharedWorkspaceId]
+      });
+      expect(createUserResponse.status).toBe(201);
+
+      const member = await login(baseUrl, { username: "alice", password: "alice-member-password" });
+      expect(member.status).toBe(200);
+
+      const listResponse = await fetch(`${baseUrl}/api/workspaces`, {
+        headers: { cookie: member.sessionCookie }
+      });
+      const listBody = (await listResponse.json()) as { workspaces?: Array<{ workspaceId?: string }> };
+      expect(listBody.workspaces?.map((workspace) => workspace.workspaceId)).toEqual([sharedWorkspaceId]);
+
+      const sharedFilesResponse = await fetch(`${baseUrl}/api/workspaces/${sharedWorkspaceId}/files`, {
+        headers: { cookie: member.sessionCookie }
+      });
+      expect(sharedFilesResponse.status).toBe(200);
+
+      const privateFilesResponse = await fetch(`${baseUrl}/api/workspaces/${privateWorkspaceId}/files`, {
+        headers: { cookie: member.sessionCookie }
+      });
+      const privateFilesBody = (await privateFilesResponse.json()) as { error?: string };
+      expect(privateFilesResponse.status).toBe(403);
+      expect(privateFilesBody.error).toBe("forbidden");
+
+      // The allowed root contains the private workspace, so registering it would expose that workspace's files.
+      const overlappingResponse = await postJson(baseUrl, "/api/workspaces", member, {
+        absolutePath: workspaceRoot
+      });
+      expect(overlappingResponse.status).toBe(403);
+      const nestedResponse = await postJson(baseUrl, "/api/workspaces", member, {
+        absolutePath: path.join(workspaceRoot, "private")
+      });
+      expect(nestedResponse.status).toBe(403);
+
+      const memberPatchResponse = await fetch(`${baseUrl}/api/workspaces/${sharedWorkspaceId}`, {
+        method: "PATCH",
+        headers: {
+          "content-type": "application/json",
+          cookie: member.sessionCookie,
+          "x-csrf-token": member.csrfToken
+        },
+        body: JSON.stringify({ sandboxMode: "danger-full-access" })
+      });
+      expect(memberPatchResponse.status).toBe(403);
+
+      const memberDeleteResponse = await fetch(`${baseUrl}/api/workspaces/${sharedWorkspaceId}`, {
+        method: "DELETE",
+        headers: { cookie: member.sessionCookie, "x-csrf-token": member.csrfToken }
+      });
+      expect(memberDeleteResponse.status).toBe(403);
+
+      // A shell is not confined to the granted workspace, so terminals stay with admins.
+      const memberTerminalResponse = await postJson(
+        baseUrl,
+        `/api/workspaces/${sharedWorkspaceId}/terminals`,
+        member,
+        { command: "true" }
+      );
+      expect(memberTerminalResponse.status).toBe(403);
+      const memberTerminalListResponse = await fetch(`${baseUrl}/api/workspaces/${sharedWorkspaceId}/terminals`, {
+        headers: { cookie: member.sessionCookie }
+      });
+      expect(memberTerminalListResponse.status).toBe(403);
+
+      const memberUsersResponse = await fetch(`${baseUrl}/api/users`, {
+        headers: { cookie: member.sessionCookie }
+      });
+      expect(memberUsersResponse.status).toBe(403);
+
+      const adminUsersResponse = await fetch(`${baseUrl}/api/users`, {
+        headers: { cookie: admin.sessionCookie }
+      });
+      const adminUsersBody = (await adminUsersResponse.json()) as { users?: Array<{ username?: string }> };
+      expect(adminUsersBody.users?.map((user) => user.username)).toEqual(["root-admin", "alice"]);
+    } finally {
+      await server.close();
+    }
+  });
+});
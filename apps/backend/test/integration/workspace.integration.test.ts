@@ -215,6 +215,74 @@ describe("workspace routes integration", () => {
       const workspaceId = createBody.workspace?.workspaceId;
       expect(workspaceId).toBeTypeOf("string");
 
+      const invalidPatchResponse = await fetch(`${baseUrl}/api/workspaces/${workspaceId}`, {
+        method: "PATCH",
+        headers: {
+          "content-type": "application/json",
+          cookie: sessionCookie,
+          "x-csrf-token": csrfToken
+        },
+        body: JSON.stringify({
+          sandboxMode: "anything-goes"
+        })
+      });
+      expect(invalidPatchResponse.status).toBe(400);
+
+      const patchResponse = await fetch(`${baseUrl}/api/workspaces/${workspaceId}`, {
+        method: "PATCH",
+        headers: {
+          "content-type": "application/json",
+          cookie: sessionCookie,
+          "x-csrf-token": csrfToken
+        },
+        body: JSON.stringify({
+          sandboxMode: "workspace-write",
+          approvalPolicy: "on-request"
+        })
+      });
+      const patchBody = (await patchResponse.json()) as {
+        workspace?: { sandboxMode?: string; approvalPolicy?: string };
+      };
+      expect(patchResponse.status).toBe(200);
+      expect(patchBody.workspace).toMatchObject({
+        sandboxMode: "workspace-write",
+        approvalPolicy: "on-request"
+      });
+
+      const revokeTrustResponse = await fetch(`${baseUrl}/api/workspaces/${workspaceId}`, {
+        method: "PATCH",
+        headers: {
+          "content-type": "application/json",
+          cookie: sessionCookie,
+          "x-csrf-token": csrfToken
+        },
+        body: JSON.stringify({
+          trusted: false
+        })
+      });
+      const revokeTrustBody = (await revokeTrustResponse.json()) as {
+        workspace?: { trusted?: boolean; sandboxMode?: string; approvalPolicy?: string };
+      };
+      expect(revokeTrustResponse.status).toBe(200);
+      expect(revokeTrustBody.workspace).toMatchObject({
+        trusted: false,
+        sandboxMode: "read-only",
+        approvalPolicy: "untrusted"
+      });
+
+      const missingPatchResponse = await fetch(`${baseUrl}/api/workspaces/missing-workspace`, {
+        method: "PATCH",
+        headers: {
+          "content-type": "application/json",
+          cookie: sessionCookie,
+          "x-csrf-token": csrfToken
+        },
+        body: JSON.stringify({
+          approvalPolicy: "never"
+        })
+      });
+      expect(missingPatchResponse.status).toBe(404);
+
       const deleteResponse = await fetch(`${baseUrl}/api/workspaces/${workspaceId}`, {
         method: "DELETE",
         headers: {
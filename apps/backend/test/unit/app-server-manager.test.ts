@@ -4,11 +4,14 @@ import { afterEach, describe, expect, it } from "vitest";
 
 import {
   AppServerProtocolError,
+  AppServerSchemaDriftError,
   AppServerTimeoutError,
+  type SchemaDriftEvent,
   type ServerNotificationEvent,
   type ServerRequestEvent,
   type StaleResponseEvent
 } from "../../src/codex/app-server-manager.js";
+import { AppServerClient } from "../../src/codex/app-server-client.js";
 import { createTestAppServerManager } from "../helpers/create-app-server-manager.js";
 
 describe("AppServerManager (unit)", () => {
@@ -103,4 +106,62 @@ describe("AppServerManager (unit)", () => {
     ).toBe(true);
     expect(serverRequests.some((event) => event.method === "approval/request")).toBe(true);
   });
+
+  it("rejects results that drift from the protocol schema and reports drifting notifications", async () => {
+    const manager = createTestAppServerManager(undefined, {
+      FAKE_SCHEMA_DRIFT: "1"
+    });
+    const client = new AppServerClient(manager);
+    managers.push(manager);
+
+    const driftEvents: SchemaDriftEvent[] = [];
+    const notifications: ServerNotificationEvent[] = [];
+    manager.on("schemaDrift", (event) => {
+      driftEvents.push(event);
+    });
+    manager.on("notification", (event) => {
+      notifications.push(event);
+    });
+
+    await manager.start();
+    const readError = await client.threadRead({ threadId: "thread-1" }).catch((error: unknown) => error);
+
+    expect(readError).toBeInstanceOf(AppServerSchemaDriftError);
+    expect(readError).toMatchObject({ method: "thread/read" });
+    expect((readError as AppServerSchemaDriftError).issues.map((issue) => issue.path)).toContain("thread.id");
+
+    expect(driftEvents.map((event) => [event.source, event.method])).toEqual([
+      ["notification", "item/completed"],
+      ["result", "thread/read"]
+    ]);
+    expect(notifications.map((event) => event.method)).toContain("item/completed");
+    expect(manager.isReady()).toBe(true);
+  });
+
+  it("reports diagnostics with a stderr tail and the last crash", async () => {
+    const manager = createTestAppServerManager();
+    managers.push(manager);
+
+    expect(manager.getDiagnostics()).toMatchObject({ state: "stopped", pid: null, startedAt: null });
+
+    await manager.start();
+    await manager.request("test/emit-stderr");
+    await delay(50);
+
+    const diagnostics = manager.getDiagnostics();
+    expect(diagnostics).toMatchObject({ state: "ready", pendingRequestCount: 0, lastError: null });
+    expect(typeof diagnostics.pid).toBe("number");
+    expect(diagnostics.startedAt).not.toBeNull();
+    expect(diagnostics.stderrTail.slice(-2)).toEqual(["warning: first line", "warning: second line"]);
+
+    await manager.request("shutdown");
+    await delay(100);
+
+    expect(manager.getDiagnostics()).toMatchObject({
+      state: "degraded",
+      pid: null,
+      startedAt: null,
+      lastError: "App-server exited unexpectedly (code=0, signal=null)"
+    });
+  });
 });
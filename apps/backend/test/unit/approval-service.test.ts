@@ -0,0 +1,172 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import { ApprovalNotFoundError, ApprovalService } from "../../src/approvals/service.js";
+import {
+  WorkspaceNotFoundError,
+  type WorkspaceRuntimeEvent
+} from "../../src/codex/workspace-app-server-pool.js";
+
+function createRuntimePool() {
+  let listener: ((event: WorkspaceRuntimeEvent) => void) | undefined;
+  let sequence = 0;
+  const respondToServerRequest = vi.fn();
+  const runtimePool = {
+    workspaceExists: vi.fn((workspaceId: string) => workspaceId !== "missing"),
+    subscribeToRuntimeEvents: vi.fn((nextListener: (event: WorkspaceRuntimeEvent) => void) => {
+      listener = nextListener;
+      return () => {
+        listener = undefined;
+      };
+    }),
+    respondToServerRequest
+  } as unknown as ConstructorParameters<typeof ApprovalService>[0];
+
+  return {
+    runtimePool,
+    respondToServerRequest,
+    emit(kind: WorkspaceRuntimeEvent["kind"], payload: unknown, workspaceId = "workspace-1") {
+      sequence += 1;
+      listener?.({
+        workspaceId,
+        sequence,
+        timestamp: new Date().toISOString(),
+        kind,
+        payload
+      });
+    }
+  };
+}
+
+describe("ApprovalService", () => {
+  const services: ApprovalService[] = [];
+
+  afterEach(() => {
+    for (const service of services.splice(0)) {
+      service.close();
+    }
+    vi.useRealTimers();
+  });
+
+  it("tracks command execution approval requests and answers them", () => {
+    const runtime = createRuntimePool();
+    const service = new ApprovalService(runtime.runtimePool, { timeoutMs: 60_000 });
+    services.push(service);
+
+    runtime.emit("serverRequest", {
+      id: 7,
+      method: "item/commandExecution/requestApproval",
+      params: {
+        threadId: "thread-1",
+        turnId: "turn-1",
+        itemId: "item-1",
+        command: "rm -rf build",
+        cwd: "/tmp/workspace",
+        reason: "Clean build output"
+      }
+    });
+
+    expect(service.listPending("workspace-1")).toMatchObject([
+      {
+        requestId: "7",
+        kind: "commandExecution",
+        threadId: "thread-1",
+        turnId: "turn-1",
+        command: "rm -rf build",
+        reason: "Clean build output"
+      }
+    ]);
+
+    const resolution = service.respond("workspace-1", "7", {
+      decision: "approve_for_session",
+      reason: "Safe to clean"
+    });
+
+    expect(resolution).toMatchObject({ decision: "approve_for_session", reason: "Safe to clean", source: "user" });
+    expect(runtime.respondToServerRequest).toHaveBeenCalledWith(
+      "workspace-1",
+      7,
+      { result: { decision: "acceptForSession" } },
+      expect.objectContaining({ requestId: "7", decision: "approve_for_session" })
+    );
+    // Only the broadcast resolution can carry the reason to other clients.
+    expect(runtime.respondToServerRequest.mock.calls[0]?.[3]).toMatchObject({ reason: "Safe to clean" });
+    expect(service.listPending("workspace-1")).toEqual([]);
+  });
+
+  it("answers legacy approval methods with legacy decision values", () => {
+    const runtime = createRuntimePool();
+    const service = new ApprovalService(runtime.runtimePool, { timeoutMs: 60_000 });
+    services.push(service);
+
+    runtime.emit("serverRequest", {
+      id: "patch-1",
+      method: "applyPatchApproval",
+      params: {
+        conversationId: "thread-2",
+        callId: "call-1"
+      }
+    });
+
+    service.respond("workspace-1", "patch-1", { decision: "deny" });
+
+    expect(runtime.respondToServerRequest).toHaveBeenCalledWith(
+      "workspace-1",
+      "patch-1",
+      { result: { decision: "denied" } },
+      expect.objectContaining({ kind: "fileChange" })
+    );
+  });
+
+  it("ignores server requests that are not approvals", () => {
+    const runtime = createRuntimePool();
+    const service = new ApprovalService(runtime.runtimePool, { timeoutMs: 60_000 });
+    services.push(service);
+
+    runtime.emit("serverRequest", { id: 1, method: "approval/request", params: {} });
+
+    expect(service.listPending("workspace-1")).toEqual([]);
+  });
+
+  it("denies unanswered approvals after the timeout", () => {
+    vi.useFakeTimers();
+    const runtime = createRuntimePool();
+    const service = new ApprovalService(runtime.runtimePool, { timeoutMs: 5_000 });
+    services.push(service);
+
+    runtime.emit("serverRequest", {
+      id: 3,
+      method: "item/fileChange/requestApproval",
+      params: { threadId: "thread-1" }
+    });
+
+    vi.advanceTimersByTime(5_000);
+
+    expect(runtime.respondToServerRequest).toHaveBeenCalledWith(
+      "workspace-1",
+      3,
+      { result: { decision: "decline" } },
+      expect.objectContaining({ source: "timeout", decision: "deny" })
+    );
+    expect(service.listPending("workspace-1")).toEqual([]);
+  });
+
+  it("drops pending approvals when the runtime degrades", () => {
+    const runtime = createRuntimePool();
+    const service = new ApprovalService(runtime.runtimePool, { timeoutMs: 60_000 });
+    services.push(service);
+
+    runtime.emit("serverRequest", { id: 4, method: "execCommandApproval", params: { command: ["ls"] } });
+    runtime.emit("stateChanged", "degraded");
+
+    expect(service.listPending("workspace-1")).toEqual([]);
+    expect(() => service.respond("workspace-1", "4", { decision: "approve" })).toThrow(ApprovalNotFoundError);
+  });
+
+  it("rejects unknown workspaces", () => {
+    const runtime = createRuntimePool();
+    const service = new ApprovalService(runtime.runtimePool, { timeoutMs: 60_000 });
+    services.push(service);
+
+    expect(() => service.listPending("missing")).toThrow(WorkspaceNotFoundError);
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, expect, it, vi } from "vitest";
+
+import type { WorkspaceRuntimeEvent } from "../../src/codex/workspace-app-server-pool.js";
+import { CommitMessageDraftError, CommitMessageService } from "../../src/git/commit-message.js";
+import { GitNothingToCommitError } from "../../src/git/service.js";
+
+interface HarnessOptions {
+  stagedDiff?: string;
+  reply?: (emit: (method: string, params: unknown) => void) => void;
+}
+
+function createHarness(options: HarnessOptions = {}) {
+  const listeners = new Set<(event: WorkspaceRuntimeEvent) => void>();
+  let sequence = 0;
+
+  const emit = (method: string, params: unknown): void => {
+    sequence += 1;
+    for (const listener of [...listeners]) {
+      listener({
+        workspaceId: "workspace-1",
+        sequence,
+        timestamp: new Date().toISOString(),
+        kind: "notification",
+        payload: { method, params }
+      });
+    }
+  };
+
+  const client = {
+    threadStart: vi.fn(async () => ({ thread: { id: "thread-draft" } })),
+    turnStart: vi.fn(async () => {
+      options.reply?.(emit);
+      return { turn: { id: "turn-1", status: "inProgress", items: [] } };
+    }),
+    threadArchive: vi.fn(async () => ({}))
+  };
+
+  const runtimePool = {
+    getClient: vi.fn(async () => client),
+    subscribeToRuntimeEvents: vi.fn((listener: (event: WorkspaceRuntimeEvent) => void) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    })
+  } as unknown as ConstructorParameters<typeof CommitMessageService>[0];
+
+  const gitService = {
+    getStagedDiff: vi.fn(async () => options.stagedDiff ?? "diff --git a/a.txt b/a.txt\n+hello\n")
+  } as unknown as ConstructorParameters<typeof CommitMessageService>[1];
+
+  return { client, listeners, service: new CommitMessageService(runtimePool, gitService, { timeoutMs: 1_000 }) };
+}
+
+describe("CommitMessageService", () => {
+  it("drafts a message from the agent reply in a read-only helper thread", async () => {
+    const harness = createHarness({
+      reply: (emit) => {
+        emit("item/completed", {
+          threadId: "thread-draft",
+          turnId: "turn-1",
+          item: { type: "agentMessage", id: "item-1", text: "```\nAdd greeting\n```" }
+        });
+        emit("turn/completed", { threadId: "thread-draft", turn: { id: "turn-1", status: "completed", items: [] } });
+      }
+    });
+
+    await expect(harness.service.suggestCommitMessage("workspace-1")).resolves.toBe("Add greeting");
+    expect(harness.client.threadStart).toHaveBeenCalledWith({ approvalPolicy: "never", sandbox: "read-only" });
+    expect(harness.client.turnStart).toHaveBeenCalledWith(
+      expect.objectContaining({
+        threadId: "thread-draft",
+        sandboxPolicy: { type: "readOnly" },
+        input: [expect.objectContaining({ type: "text", text: expect.stringContaining("+hello") })]
+      })
+    );
+    expect(harness.client.threadArchive).toHaveBeenCalledWith({ threadId: "thread-draft" });
+    expect(harness.listeners.size).toBe(0);
+  });
+
+  it("refuses to draft without staged changes", async () => {
+    const harness = createHarness({ stagedDiff: "" });
+
+    await expect(harness.service.suggestCommitMessage("workspace-1")).rejects.toBeInstanceOf(GitNothingToCommitError);
+    expect(harness.client.threadStart).not.toHaveBeenCalled();
+  });
+
+  it("reports failed draft turns", async () => {
+    const harness = createHarness({
+      reply: (emit) => {
+        emit("turn/completed", {
+          threadId: "thread-draft",
+          turn: { id: "turn-1", status: "failed", items: [], error: { message: "model unavailable" } }
+        });
+      }
+    });
+
+    await expect(harness.service.suggestCommitMessage("workspace-1")).rejects.toThrow(
+      new CommitMessageDraftError("model unavailable")
+    );
+    expect(harness.client.threadArchive).toHaveBeenCalled();
+  });
+});
@@ -50,6 +50,41 @@ describe("loadConfig", () => {
     ).toThrow(ConfigValidationError);
   });
 
+  it("parses multi-user mode and validates the bootstrap admin username", () => {
+    expect(loadConfig(validEnv()).authAdminUsername).toBe("admin");
+
+    const config = loadConfig(validEnv({ AUTH_MODE: "multi_user", AUTH_ADMIN_USERNAME: "ops.lead" }));
+    expect(config.authMode).toBe("multi_user");
+    expect(config.authAdminUsername).toBe("ops.lead");
+    expect(() => loadConfig(validEnv({ AUTH_MODE: "multi_user", AUTH_ADMIN_USERNAME: "no spaces" }))).toThrow(
+      ConfigValidationError
+    );
+  });
+
+  it("parses login throttling and proxy trust settings", () => {
+    const defaults = loadConfig(validEnv());
+    expect(defaults.trustProxy).toBe(false);
+    expect(defaults.loginMaxFailedAttempts).toBe(5);
+    expect(defaults.loginGlobalMaxFailedAttempts).toBe(50);
+    expect(defaults.loginLockoutMinutes).toBe(15);
+    expect(defaults.loginBackoffBaseMs).toBe(1000);
+
+    const custom = loadConfig(validEnv({ TRUST_PROXY: "true", LOGIN_BACKOFF_BASE_MS: "0" }));
+    expect(custom.trustProxy).toBe(true);
+    expect(custom.loginBackoffBaseMs).toBe(0);
+    expect(() => loadConfig(validEnv({ LOGIN_MAX_FAILED_ATTEMPTS: "0" }))).toThrow(ConfigValidationError);
+    expect(() => loadConfig(validEnv({ TRUST_PROXY: "sometimes" }))).toThrow(ConfigValidationError);
+  });
+
+  it("parses passkey origins", () => {
+    expect(loadConfig(validEnv()).passkeyOrigins).toEqual([]);
+    expect(
+      loadConfig(validEnv({ PASSKEY_ORIGINS: "https://box.tail1234.ts.net/, http://localhost:5173" })).passkeyOrigins
+    ).toEqual(["https://box.tail1234.ts.net", "http://localhost:5173"]);
+    expect(() => loadConfig(validEnv({ PASSKEY_ORIGINS: "https://box.example/app" }))).toThrow(ConfigValidationError);
+    expect(() => loadConfig(validEnv({ PASSKEY_ORIGINS: "box.example" }))).toThrow(ConfigValidationError);
+  });
+
   it("redacts secrets in log-safe config", () => {
     const config = loadConfig(validEnv());
     const redacted = redactConfig(config);
@@ -66,4 +101,48 @@ describe("loadConfig", () => {
     const inMemory = loadConfig(validEnv({ SQLITE_DATABASE_PATH: ":memory:" }));
     expect(inMemory.sqliteDatabasePath).toBe(":memory:");
   });
+
+  it("defaults APPROVAL_TIMEOUT_SECONDS and rejects non-positive values", () => {
+    expect(loadConfig(validEnv()).approvalTimeoutSeconds).toBe(300);
+    expect(loadConfig(validEnv({ APPROVAL_TIMEOUT_SECONDS: "45" })).approvalTimeoutSeconds).toBe(45);
+    expect(() => loadConfig(validEnv({ APPROVAL_TIMEOUT_SECONDS: "0" }))).toThrow(ConfigValidationError);
+  });
+
+  it("parses event log replay settings", () => {
+    const defaults = loadConfig(validEnv());
+    expect(defaults.eventLogCapacity).toBe(500);
+    expect(defaults.eventLogPersist).toBe(false);
+
+    const persisted = loadConfig(validEnv({ EVENT_LOG_CAPACITY: "50", EVENT_LOG_PERSIST: "true" }));
+    expect(persisted.eventLogCapacity).toBe(50);
+    expect(persisted.eventLogPersist).toBe(true);
+
+    expect(() => loadConfig(validEnv({ EVENT_LOG_PERSIST: "sometimes" }))).toThrow(ConfigValidationError);
+  });
+
+  it("parses runtime restart settings and allows disabling restarts", () => {
+    const defaults = loadConfig(validEnv());
+    expect(defaults.runtimeRestartMaxAttempts).toBe(5);
+    expect(defaults.runtimeRestartBaseDelayMs).toBe(1000);
+
+    expect(loadConfig(validEnv({ RUNTIME_RESTART_MAX_ATTEMPTS: "0" })).runtimeRestartMaxAttempts).toBe(0);
+    expect(() => loadConfig(validEnv({ RUNTIME_RESTART_BASE_DELAY_MS: "0" }))).toThrow(ConfigValidationError);
+  });
+
+  it("parses runtime pool limits", () => {
+    const defaults = loadConfig(validEnv());
+    expect(defaults.runtimeIdleTimeoutMinutes).toBe(30);
+    expect(defaults.maxWorkspaceRuntimes).toBe(8);
+
+    const unlimited = loadConfig(validEnv({ RUNTIME_IDLE_TIMEOUT_MINUTES: "0", MAX_WORKSPACE_RUNTIMES: "0" }));
+    expect(unlimited.runtimeIdleTimeoutMinutes).toBe(0);
+    expect(unlimited.maxWorkspaceRuntimes).toBe(0);
+    expect(() => loadConfig(validEnv({ MAX_WORKSPACE_RUNTIMES: "-1" }))).toThrow(ConfigValidationError);
+  });
+
+  it("parses the terminal session limit", () => {
+    expect(loadConfig(validEnv()).maxTerminalSessions).toBe(4);
+    expect(loadConfig(validEnv({ MAX_TERMINAL_SESSIONS: "0" })).maxTerminalSessions).toBe(0);
+    expect(() => loadConfig(validEnv({ MAX_TERMINAL_SESSIONS: "-1" }))).toThrow(ConfigValidationError);
+  });
 });
@@ -0,0 +1,76 @@
+import { afterEach, describe, expect, it } from "vitest";
+
+import type { WorkspaceRuntimeEvent } from "../../src/codex/workspace-app-server-pool.js";
+import {
+  InMemoryWorkspaceEventLog,
+  SqliteWorkspaceEventLog,
+  type WorkspaceEventLog
+} from "../../src/events/event-log.js";
+
+function runtimeEvent(sequence: number, workspaceId = "workspace-1"): WorkspaceRuntimeEvent {
+  return {
+    workspaceId,
+    sequence,
+    timestamp: "2026-02-14T05:08:00.000Z",
+    kind: "notification",
+    payload: { method: "item/agentMessage/delta", params: { delta: `chunk-${sequence}` } }
+  };
+}
+
+const implementations: Array<[string, (capacity: number) => WorkspaceEventLog]> = [
+  ["InMemoryWorkspaceEventLog", (capacity) => new InMemoryWorkspaceEventLog({ capacity })],
+  ["SqliteWorkspaceEventLog", (capacity) => new SqliteWorkspaceEventLog(":memory:", { capacity })]
+];
+
+describe.each(implementations)("%s", (_name, createLog) => {
+  const logs: WorkspaceEventLog[] = [];
+
+  afterEach(() => {
+    for (const log of logs.splice(0)) {
+      log.close();
+    }
+  });
+
+  function createTrackedLog(capacity: number): WorkspaceEventLog {
+    const log = createLog(capacity);
+    logs.push(log);
+    return log;
+  }
+
+  it("replays events after the requested sequence", () => {
+    const log = createTrackedLog(10);
+    for (let sequence = 1; sequence <= 4; sequence += 1) {
+      log.append(runtimeEvent(sequence));
+    }
+    log.append(runtimeEvent(1, "workspace-2"));
+
+    const replay = log.readSince("workspace-1", 2);
+
+    expect(replay.gap).toBe(false);
+    expect(replay.latestSequence).toBe(4);
+    expect(replay.events).toEqual([runtimeEvent(3), runtimeEvent(4)]);
+    expect(log.latestSequence("workspace-2")).toBe(1);
+  });
+
+  it("keeps only the most recent events and reports a gap beyond the buffer", () => {
+    const log = createTrackedLog(3);
+    for (let sequence = 1; sequence <= 6; sequence += 1) {
+      log.append(runtimeEvent(sequence));
+    }
+
+    expect(log.readSince("workspace-1", 3)).toMatchObject({ gap: false, oldestSequence: 4 });
+
+    const replay = log.readSince("workspace-1", 1);
+    expect(replay.gap).toBe(true);
+    expect(replay.events.map((event) => event.sequence)).toEqual([4, 5, 6]);
+  });
+
+  it("reports a gap when the client is ahead of the log", () => {
+    const log = createTrackedLog(3);
+    log.append(runtimeEvent(1));
+
+    expect(log.readSince("workspace-1", 1)).toMatchObject({ gap: false, events: [] });
+    expect(log.readSince("workspace-1", 8)).toMatchObject({ gap: true, events: [], latestSequence: 1 });
+    expect(log.readSince("workspace-unknown", 0)).toMatchObject({ gap: false, events: [], latestSequence: 0 });
+  });
+});
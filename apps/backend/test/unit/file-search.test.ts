@@ -0,0 +1,127 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+import { afterEach, describe, expect, it } from "vitest";
+
+import { compileGlob, isIgnoredByRules, parseIgnoreFile } from "../../src/files/glob.js";
+import { FileSearchQueryError, searchWorkspaceFiles } from "../../src/files/search.js";
+
+function writeFile(root: string, relativePath: string, content: string): void {
+  const target = path.join(root, relativePath);
+  fs.mkdirSync(path.dirname(target), { recursive: true });
+  fs.writeFileSync(target, content);
+}
+
+describe("compileGlob", () => {
+  it("matches basename patterns at any depth and anchors patterns with a slash", () => {
+    expect(compileGlob("*.ts").test("src/deep/index.ts")).toBe(true);
+    expect(compileGlob("*.ts").test("src/index.tsx")).toBe(false);
+    expect(compileGlob("src/*.ts").test("src/index.ts")).toBe(true);
+    expect(compileGlob("src/*.ts").test("lib/src/index.ts")).toBe(false);
+    expect(compileGlob("/build").test("build/out.js")).toBe(true);
+    expect(compileGlob("/build").test("app/build")).toBe(false);
+  });
+
+  it("lets ** span directories and supports character classes", () => {
+    expect(compileGlob("docs/**/*.md").test("docs/a/b/readme.md")).toBe(true);
+    expect(compileGlob("docs/**/*.md").test("docs/readme.md")).toBe(true);
+    expect(compileGlob("**/fixtures").test("test/unit/fixtures/a.json")).toBe(true);
+    expect(compileGlob("file[0-9].txt").test("file7.txt")).toBe(true);
+    expect(compileGlob("file[!0-9].txt").test("file7.txt")).toBe(false);
+  });
+});
+
+describe("isIgnoredByRules", () => {
+  it("applies the last matching rule, negations and directory-only rules", () => {
+    const rules = [
+      ...parseIgnoreFile("# comment\n*.log\n!keep.log\ntmp/\n", ""),
+      ...parseIgnoreFile("generated.ts\n", "packages/app")
+    ];
+
+    expect(isIgnoredByRules(rules, "debug.log", false)).toBe(true);
+    expect(isIgnoredByRules(rules, "logs/keep.log", false)).toBe(false);
+    expect(isIgnoredByRules(rules, "tmp", true)).toBe(true);
+    expect(isIgnoredByRules(rules, "tmp", false)).toBe(false);
+    expect(isIgnoredByRules(rules, "packages/app/src/generated.ts", false)).toBe(true);
+    expect(isIgnoredByRules(rules, "packages/lib/generated.ts", false)).toBe(false);
+  });
+});
+
+describe("searchWorkspaceFiles", () => {
+  const cleanupTargets: string[] = [];
+
+  afterEach(() => {
+    for (const target of cleanupTargets.splice(0)) {
+      fs.rmSync(target, { recursive: true, force: true });
+    }
+  });
+
+  function setup(): string {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), "poketcodex-search-"));
+    cleanupTargets.push(root);
+    writeFile(root, ".gitignore", "dist/\n*.log\n");
+    writeFile(root, ".git/info/exclude", "/.poketcodex/\n");
+    writeFile(root, ".git/config", "createServer\n");
+    writeFile(root, "src/server.ts", "import http from 'node:http';\n\nexport function createServer() {}\n");
+    writeFile(root, "src/client.ts", "// calls CreateServer remotely\n");
+    writeFile(root, "src/nested/.gitignore", "local.ts\n");
+    writeFile(root, "src/nested/local.ts", "createServer();\n");
+    writeFile(root, "dist/server.js", "function createServer() {}\n");
+    writeFile(root, "server.log", "createServer failed\n");
+    writeFile(root, ".poketcodex/worktrees/a/src/server.ts", "export function createServer() {}\n");
+    fs.writeFileSync(path.join(root, "src", "image.bin"), Buffer.from([0x63, 0x72, 0x00, 0x65]));
+    return root;
+  }
+
+  it("finds content matches while respecting .gitignore and .git/info/exclude", async () => {
+    const root = setup();
+
+    const result = await searchWorkspaceFiles(root, { query: "createServer" });
+
+    expect(result.truncated).toBe(false);
+    expect(result.matches).toEqual([
+      { path: "src/client.ts", line: 1, column: 10, preview: "// calls CreateServer remotely" },
+      { path: "src/server.ts", line: 3, column: 17, preview: "export function createServer() {}" }
+    ]);
+  });
+
+  it("supports case-sensitive regex queries and include/exclude globs", async () => {
+    const root = setup();
+
+    const regexResult = await searchWorkspaceFiles(root, {
+      query: "^export\\s+function",
+      regex: true,
+      caseSensitive: true,
+      include: ["*.ts"]
+    });
+    expect(regexResult.matches.map((match) => match.path)).toEqual(["src/server.ts"]);
+
+    const excluded = await searchWorkspaceFiles(root, { query: "createServer", exclude: ["src/client.ts"] });
+    expect(excluded.matches.map((match) => match.path)).toEqual(["src/server.ts"]);
+  });
+
+  it("matches file paths in path mode", async () => {
+    const root = setup();
+
+    const result = await searchWorkspaceFiles(root, { query: "server", mode: "path" });
+
+    expect(result.matches).toEqual([{ path: "src/server.ts", line: null, column: null, preview: null }]);
+  });
+
+  it("caps results and reports truncation", async () => {
+    const root = setup();
+    writeFile(root, "many.txt", "hit\n".repeat(10));
+
+    const result = await searchWorkspaceFiles(root, { query: "hit", maxResults: 3 });
+
+    expect(result.matches).toHaveLength(3);
+    expect(result.truncated).toBe(true);
+  });
+
+  it("rejects invalid regular expressions", async () => {
+    const root = setup();
+
+    await expect(searchWorkspaceFiles(root, { query: "(", regex: true })).rejects.toBeInstanceOf(FileSearchQueryError);
+  });
+});
@@ -0,0 +1,221 @@
+import { execFileSync } from "node:child_process";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+import { afterEach, describe, expect, it } from "vitest";
+
+import {
+  FileConflictError,
+  FileInvalidPathError,
+  FileNotFoundError,
+  FileService,
+  FileWorkspaceNotFoundError
+} from "../../src/files/service.js";
+
+function git(cwd: string, ...args: string[]): string {
+  return execFileSync("git", args, {
+    cwd,
+    encoding: "utf8"
+  });
+}
+
+describe("FileService", () => {
+  const cleanupTargets: string[] = [];
+
+  afterEach(() => {
+    for (const target of cleanupTargets.splice(0)) {
+      fs.rmSync(target, { recursive: true, force: true });
+    }
+  });
+
+  function setup(): { root: string; repoPath: string; service: FileService } {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), "poketcodex-files-"));
+    cleanupTargets.push(root);
+    const repoPath = path.join(root, "repo");
+    fs.mkdirSync(path.join(repoPath, "src"), { recursive: true });
+    git(repoPath, "init", "--quiet");
+
+    fs.writeFileSync(path.join(repoPath, ".gitignore"), "dist/\n*.log\n");
+    fs.writeFileSync(path.join(repoPath, "README.md"), "# Readme\n");
+    fs.writeFileSync(path.join(repoPath, "debug.log"), "noise\n");
+    fs.writeFileSync(path.join(repoPath, "src", "index.ts"), "export const value = 1;\n");
+    fs.mkdirSync(path.join(repoPath, "dist"));
+
+    const workspaceService = {
+      getWorkspaceById: (workspaceId: string) =>
+        workspaceId === "workspace-1" ? { workspaceId, absolutePath: repoPath } : null
+    } as unknown as ConstructorParameters<typeof FileService>[0];
+    return { root, repoPath, service: new FileService(workspaceService) };
+  }
+
+  it("lists directories first, hides .git and flags ignored entries", async () => {
+    const { service } = setup();
+
+    const listing = await service.listDirectory("workspace-1");
+
+    expect(listing.path).toBe("");
+    expect(listing.truncated).toBe(false);
+    expect(listing.entries.map((entry) => entry.name)).toEqual([
+      "dist",
+      "src",
+      ".gitignore",
+      "debug.log",
+      "README.md"
+    ]);
+    expect(listing.entries.find((entry) => entry.name === "dist")).toMatchObject({ type: "directory", ignored: true });
+    expect(listing.entries.find((entry) => entry.name === "debug.log")).toMatchObject({ ignored: true });
+    expect(listing.entries.find((entry) => entry.name === "README.md")).toMatchObject({
+      type: "file",
+      size: 9,
+      ignored: false
+    });
+
+    const nested = await service.listDirectory("workspace-1", "src");
+    expect(nested.entries).toEqual([
+      { name: "index.ts", path: "src/index.ts", type: "file", size: 24, symlink: false, ignored: false }
+    ]);
+  });
+
+  it("reads text files, truncating on a line boundary", async () => {
+    const { repoPath, service } = setup();
+    fs.writeFileSync(path.join(repoPath, "long.txt"), "alpha\nbravo\ncharlie\n");
+
+    const file = await service.readFile("workspace-1", "src/index.ts");
+    expect(file).toMatchObject({
+      path: "src/index.ts",
+      binary: false,
+      truncated: false,
+      content: "export const value = 1;\n"
+    });
+
+    const truncated = await service.readFile("workspace-1", "long.txt", { maxBytes: 9 });
+    expect(truncated).toMatchObject({ size: 20, truncated: true, content: "alpha\n" });
+  });
+
+  it("does not return the content of binary files", async () => {
+    const { repoPath, service } = setup();
+    fs.writeFileSync(path.join(repoPath, "image.bin"), Buffer.from([0x89, 0x50, 0x00, 0x01, 0x02]));
+
+    const file = await service.readFile("workspace-1", "image.bin");
+
+    expect(file).toMatchObject({ binary: true, size: 5, content: "" });
+  });
+
+  it("rejects paths that escape the workspace", async () => {
+    const { root, repoPath, service } = setup();
+    fs.writeFileSync(path.join(root, "secret.txt"), "secret\n");
+    fs.symlinkSync(path.join(root, "secret.txt"), path.join(repoPath, "escape.txt"));
+
+    await expect(service.readFile("workspace-1", "../secret.txt")).rejects.toBeInstanceOf(FileInvalidPathError);
+    await expect(service.readFile("workspace-1", path.join(root, "secret.txt"))).rejects.toBeInstanceOf(
+      FileInvalidPathError
+    );
+    await expect(service.readFile("workspace-1", "escape.txt")).rejects.toThrow(/outside the workspace via a symlink/);
+
+    const listing = await service.listDirectory("workspace-1");
+    expect(listing.entries.find((entry) => entry.name === "escape.txt")).toMatchObject({
+      type: "other",
+      symlink: true,
+      size: null
+    });
+  });
+
+  it("reports missing files and workspaces", async () => {
+    const { service } = setup();
+
+    await expect(service.readFile("workspace-1", "missing.txt")).rejects.toBeInstanceOf(FileNotFoundError);
+    await expect(service.listDirectory("workspace-2")).rejects.toBeInstanceOf(FileWorkspaceNotFoundError);
+    await expect(service.readFile("workspace-1", "src")).rejects.toBeInstanceOf(FileInvalidPathError);
+  });
+
+  it("writes a file when it still matches the content that was read", async () => {
+    const { repoPath, service } = setup();
+    const before = await service.readFile("workspace-1", "src/index.ts");
+
+    const after = await service.writeFile("workspace-1", "src/index.ts", {
+      content: "export const value = 2;\n",
+      expectedHash: before.hash
+    });
+
+    expect(after.content).toBe("export const value = 2;\n");
+    expect(after.hash).not.toBe(before.hash);
+    expect(fs.readFileSync(path.join(repoPath, "src", "index.ts"), "utf8")).toBe("export const value = 2;\n");
+
+    await service.writeFile("workspace-1", "src/index.ts", {
+      content: "export const value = 3;\n",
+      expectedModifiedAt: after.modifiedAt
+    });
+    expect(fs.readFileSync(path.join(repoPath, "src", "index.ts"), "utf8")).toBe("export const value = 3;\n");
+  });
+
+  it("rejects writes over a file that changed after it was read", async () => {
+    const { repoPath, service } = setup();
+    const before = await service.readFile("workspace-1", "README.md");
+    fs.writeFileSync(path.join(repoPath, "README.md"), "# Changed elsewhere\n");
+
+    await expect(
+      service.writeFile("workspace-1", "README.md", { content: "# Mine\n", expectedHash: before.hash })
+    ).rejects.toBeInstanceOf(FileConflictError);
+    expect(fs.readFileSync(path.join(repoPath, "README.md"), "utf8")).toBe("# Changed elsewhere\n");
+  });
+
+  it("only creates new files when no expectation is given", async () => {
+    const { repoPath, service } = setup();
+
+    const created = await service.writeFile("workspace-1", "src/new.ts", { content: "export {};\n" });
+    expect(created).toMatchObject({ path: "src/new.ts", content: "export {};\n" });
+    expect(fs.existsSync(path.join(repoPath, "src", "new.ts"))).toBe(true);
+
+    await expect(service.writeFile("workspace-1", "README.md", { content: "" })).rejects.toThrow(/already exists/);
+    await expect(service.writeFile("workspace-1", "missing/new.ts", { content: "" })).rejects.toBeInstanceOf(
+      FileNotFoundError
+    );
+  });
+
+  it("refuses to list or read the .git directory, directly or through a symlink", async () => {
+    const { repoPath, service } = setup();
+    fs.symlinkSync(path.join(repoPath, ".git", "config"), path.join(repoPath, "git-config"));
+
+    await expect(service.listDirectory("workspace-1", ".git")).rejects.toThrow(/\.git directory/);
+    await expect(service.listDirectory("workspace-1", "./.git/refs")).rejects.toThrow(/\.git directory/);
+    await expect(service.readFile("workspace-1", ".git/config")).rejects.toThrow(/\.git directory/);
+    await expect(service.readFile("workspace-1", "git-config")).rejects.toThrow(/\.git directory/);
+
+    const listing = await service.listDirectory("workspace-1");
+    expect(listing.entries).toContainEqual(expect.objectContaining({ name: "git-config", type: "other", symlink: true }));
+  });
+
+  it("hides and refuses the .git directory of nested repositories", async () => {
+    const { repoPath, service } = setup();
+    const vendoredPath = path.join(repoPath, "vendor", "lib");
+    fs.mkdirSync(vendoredPath, { recursive: true });
+    git(vendoredPath, "init", "--quiet");
+    fs.writeFileSync(path.join(vendoredPath, "index.js"), "module.exports = {};\n");
+
+    const listing = await service.listDirectory("workspace-1", "vendor/lib");
+    expect(listing.entries.map((entry) => entry.name)).toEqual(["index.js"]);
+
+    await expect(service.listDirectory("workspace-1", "vendor/lib/.git/hooks")).rejects.toThrow(/\.git directory/);
+    await expect(service.readFile("workspace-1", "vendor/lib/.git/config")).rejects.toThrow(/\.git directory/);
+    await expect(
+      service.writeFile("workspace-1", "vendor/lib/.git/hooks/pre-commit", { content: "#!/bin/sh\n" })
+    ).rejects.toThrow(/\.git directory/);
+    expect(fs.existsSync(path.join(vendoredPath, ".git", "hooks", "pre-commit"))).toBe(false);
+  });
+
+  it("refuses writes outside the workspace or into .git", async () => {
+    const { root, repoPath, service } = setup();
+    fs.writeFileSync(path.join(root, "secret.txt"), "secret\n");
+    fs.symlinkSync(path.join(root, "secret.txt"), path.join(repoPath, "escape.txt"));
+
+    await expect(service.writeFile("workspace-1", "../secret.txt", { content: "x" })).rejects.toBeInstanceOf(
+      FileInvalidPathError
+    );
+    await expect(
+      service.writeFile("workspace-1", "escape.txt", { content: "x", expectedHash: "0".repeat(64) })
+    ).rejects.toThrow(/outside the workspace/);
+    await expect(service.writeFile("workspace-1", ".git/config", { content: "x" })).rejects.toThrow(/\.git directory/);
+    expect(fs.readFileSync(path.join(root, "secret.txt"), "utf8")).toBe("secret\n");
+  });
+});
@@ -0,0 +1,175 @@
+import { execFileSync } from "node:child_process";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+import { afterEach, describe, expect, it } from "vitest";
+
+import {
+  GitCheckpointConflictError,
+  GitCheckpointNotFoundError,
+  GitCheckpointService
+} from "../../src/git/checkpoints.js";
+import { GitInvalidRefError, GitService } from "../../src/git/service.js";
+
+function git(cwd: string, ...args: string[]): string {
+  return execFileSync("git", args, {
+    cwd,
+    encoding: "utf8"
+  });
+}
+
+function createRepository(root: string): string {
+  const repoPath = path.join(root, "repo");
+  fs.mkdirSync(repoPath, { recursive: true });
+  git(repoPath, "init", "--quiet");
+  git(repoPath, "config", "user.name", "Test");
+  git(repoPath, "config", "user.email", "test@example.com");
+
+  fs.writeFileSync(path.join(repoPath, "notes.txt"), "first\nsecond\n");
+  fs.writeFileSync(path.join(repoPath, "keep.txt"), "keep\n");
+  git(repoPath, "add", ".");
+  git(repoPath, "commit", "--quiet", "-m", "initial");
+  return repoPath;
+}
+
+function createService(
+  repoPath: string,
+  options: ConstructorParameters<typeof GitCheckpointService>[3] = {}
+): GitCheckpointService {
+  const workspaceService = {
+    getWorkspaceById: (workspaceId: string) =>
+      workspaceId === "workspace-1" ? { workspaceId, absolutePath: repoPath } : null
+  } as unknown as ConstructorParameters<typeof GitService>[0];
+
+  return new GitCheckpointService(workspaceService, new GitService(workspaceService), undefined, options);
+}
+
+describe("GitCheckpointService", () => {
+  const cleanupTargets: string[] = [];
+
+  afterEach(() => {
+    for (const target of cleanupTargets.splice(0)) {
+      fs.rmSync(target, { recursive: true, force: true });
+    }
+  });
+
+  function setup(
+    options: ConstructorParameters<typeof GitCheckpointService>[3] = {}
+  ): { repoPath: string; service: GitCheckpointService } {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), "poketcodex-checkpoint-"));
+    cleanupTargets.push(root);
+    const repoPath = createRepository(root);
+    return { repoPath, service: createService(repoPath, options) };
+  }
+
+  async function checkpoint(service: GitCheckpointService, turnId: string): Promise<void> {
+    const sha = await service.captureCheckpoint("workspace-1");
+    expect(sha).toMatch(/^[0-9a-f]{40,64}$/);
+    await service.recordCheckpoint("workspace-1", "thread-1", turnId, sha ?? "");
+  }
+
+  it("snapshots without touching the index, stash or branch", async () => {
+    const { repoPath, service } = setup();
+    fs.writeFileSync(path.join(repoPath, "notes.txt"), "first\nstaged\n");
+    git(repoPath, "add", "notes.txt");
+    fs.writeFileSync(path.join(repoPath, "draft.txt"), "untracked\n");
+    const statusBefore = git(repoPath, "status", "--porcelain");
+
+    await checkpoint(service, "turn-1");
+
+    expect(git(repoPath, "status", "--porcelain")).toBe(statusBefore);
+    expect(git(repoPath, "stash", "list")).toBe("");
+    const checkpoints = await service.listCheckpoints("workspace-1", "thread-1");
+    expect(checkpoints).toEqual([
+      expect.objectContaining({
+        threadId: "thread-1",
+        turnId: "turn-1",
+        headSha: git(repoPath, "rev-parse", "HEAD").trim(),
+        branch: git(repoPath, "branch", "--show-current").trim()
+      })
+    ]);
+    expect(await service.listCheckpoints("workspace-1", "thread-2")).toEqual([]);
+  });
+
+  it("previews and reverts the changes a turn made", async () => {
+    const { repoPath, service } = setup();
+    fs.writeFileSync(path.join(repoPath, "notes.txt"), "first\nstaged\n");
+    git(repoPath, "add", "notes.txt");
+    fs.writeFileSync(path.join(repoPath, "draft.txt"), "untracked\n");
+    const statusBefore = git(repoPath, "status", "--porcelain");
+
+    await checkpoint(service, "turn-1");
+
+    fs.writeFileSync(path.join(repoPath, "notes.txt"), "first\nagent\n");
+    fs.rmSync(path.join(repoPath, "keep.txt"));
+    fs.rmSync(path.join(repoPath, "draft.txt"));
+    fs.mkdirSync(path.join(repoPath, "src", "nested"), { recursive: true });
+    fs.writeFileSync(path.join(repoPath, "src", "nested", "new.ts"), "export {};\n");
+    git(repoPath, "add", "-A");
+    git(repoPath, "commit", "--quiet", "-m", "agent commit");
+
+    const preview = await service.getCheckpointPreview("workspace-1", "thread-1", "turn-1");
+    expect(preview.blockedReason).toBeNull();
+    expect(preview.files.map((file) => [file.path, file.statusLabel])).toEqual([
+      ["draft.txt", "Deleted"],
+      ["keep.txt", "Deleted"],
+      ["notes.txt", "Modified"],
+      ["src/nested/new.ts", "Added"]
+    ]);
+    expect(preview.files.find((file) => file.path === "notes.txt")?.diff).toContain("+agent");
+
+    const result = await service.revertToCheckpoint("workspace-1", "thread-1", "turn-1");
+    expect(result.checkpoint.turnId).toBe("turn-1");
+    expect(git(repoPath, "log", "--format=%s")).toBe("initial\n");
+    expect(git(repoPath, "status", "--porcelain")).toBe(statusBefore);
+    expect(fs.readFileSync(path.join(repoPath, "notes.txt"), "utf8")).toBe("first\nstaged\n");
+    expect(fs.readFileSync(path.join(repoPath, "draft.txt"), "utf8")).toBe("untracked\n");
+    expect(fs.existsSync(path.join(repoPath, "keep.txt"))).toBe(true);
+    expect(fs.existsSync(path.join(repoPath, "src"))).toBe(false);
+  });
+
+  it("refuses to revert once HEAD has left the checkpoint's history", async () => {
+    const { repoPath, service } = setup();
+    await checkpoint(service, "turn-1");
+
+    git(repoPath, "switch", "--quiet", "-c", "elsewhere");
+    const preview = await service.getCheckpointPreview("workspace-1", "thread-1", "turn-1");
+    expect(preview.blockedReason).toContain("elsewhere");
+    await expect(service.revertToCheckpoint("workspace-1", "thread-1", "turn-1")).rejects.toBeInstanceOf(
+      GitCheckpointConflictError
+    );
+
+    git(repoPath, "switch", "--quiet", "-");
+    git(repoPath, "commit", "--quiet", "--amend", "-m", "rewritten");
+    await expect(service.revertToCheckpoint("workspace-1", "thread-1", "turn-1")).rejects.toBeInstanceOf(
+      GitCheckpointConflictError
+    );
+  });
+
+  it("keeps the latest checkpoints of a thread and deletes them with the thread", async () => {
+    const { repoPath, service } = setup({ maxCheckpointsPerThread: 2 });
+    for (const turnId of ["turn-1", "turn-2", "turn-3"]) {
+      await checkpoint(service, turnId);
+    }
+
+    const checkpoints = await service.listCheckpoints("workspace-1", "thread-1");
+    expect(checkpoints.map((entry) => entry.turnId)).toEqual(["turn-2", "turn-3"]);
+
+    expect(await service.deleteCheckpoints("workspace-1", "thread-1")).toBe(2);
+    expect(await service.listCheckpoints("workspace-1", "thread-1")).toEqual([]);
+    expect(git(repoPath, "for-each-ref", "refs/poketcodex")).toBe("");
+    expect(await service.deleteCheckpoints("workspace-1", "../heads")).toBe(0);
+  });
+
+  it("rejects unknown checkpoints and unsafe ids", async () => {
+    const { service } = setup();
+
+    await expect(service.getCheckpointPreview("workspace-1", "thread-1", "turn-9")).rejects.toBeInstanceOf(
+      GitCheckpointNotFoundError
+    );
+    await expect(service.revertToCheckpoint("workspace-1", "thread-1", "../../heads/main")).rejects.toBeInstanceOf(
+      GitInvalidRefError
+    );
+  });
+});
@@ -0,0 +1,397 @@
+import { execFileSync } from "node:child_process";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+import { afterEach, describe, expect, it } from "vitest";
+
+import {
+  GitBranchExistsError,
+  GitDirtyWorktreeError,
+  GitHunkNotFoundError,
+  GitInvalidPathError,
+  GitInvalidRefError,
+  GitNoUpstreamError,
+  GitNothingToCommitError,
+  GitRefNotFoundError,
+  GitService
+} from "../../src/git/service.js";
+
+function git(cwd: string, ...args: string[]): string {
+  return execFileSync("git", args, {
+    cwd,
+    encoding: "utf8"
+  });
+}
+
+function createRepository(root: string): string {
+  const repoPath = path.join(root, "repo");
+  fs.mkdirSync(repoPath, { recursive: true });
+  git(repoPath, "init", "--quiet");
+  git(repoPath, "config", "user.name", "Test");
+  git(repoPath, "config", "user.email", "test@example.com");
+
+  const lines = Array.from({ length: 30 }, (_, index) => `line ${index + 1}`);
+  fs.writeFileSync(path.join(repoPath, "notes.txt"), `${lines.join("\n")}\n`);
+  git(repoPath, "add", "notes.txt");
+  git(repoPath, "commit", "--quiet", "-m", "initial");
+  return repoPath;
+}
+
+function createService(repoPath: string): GitService {
+  const workspaceService = {
+    getWorkspaceById: (workspaceId: string) =>
+      workspaceId === "workspace-1" ? { workspaceId, absolutePath: repoPath } : null
+  } as unknown as ConstructorParameters<typeof GitService>[0];
+
+  return new GitService(workspaceService);
+}
+
+function editLines(repoPath: string, replacements: Record<number, string>): void {
+  const filePath = path.join(repoPath, "notes.txt");
+  const lines = fs.readFileSync(filePath, "utf8").split("\n");
+  for (const [lineNumber, text] of Object.entries(replacements)) {
+    lines[Number(lineNumber) - 1] = text;
+  }
+  fs.writeFileSync(filePath, lines.join("\n"));
+}
+
+function hunkHeaders(diff: string): string[] {
+  return diff.split("\n").filter((line) => line.startsWith("@@"));
+}
+
+describe("GitService changes", () => {
+  const cleanupTargets: string[] = [];
+
+  afterEach(() => {
+    for (const target of cleanupTargets.splice(0)) {
+      fs.rmSync(target, { recursive: true, force: true });
+    }
+  });
+
+  function setup(): { repoPath: string; service: GitService } {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), "poketcodex-git-"));
+    cleanupTargets.push(root);
+    const repoPath = createRepository(root);
+    return { repoPath, service: createService(repoPath) };
+  }
+
+  it("stages and unstages whole files", async () => {
+    const { repoPath, service } = setup();
+    editLines(repoPath, { 2: "changed 2" });
+
+    const staged = await service.stageFile("workspace-1", "notes.txt");
+    expect(staged.entries).toEqual([expect.objectContaining({ path: "notes.txt", staged: "M", unstaged: " " })]);
+
+    const unstaged = await service.unstageFile("workspace-1", "notes.txt");
+    expect(unstaged.entries).toEqual([expect.objectContaining({ path: "notes.txt", staged: " ", unstaged: "M" })]);
+  });
+
+  it("stages and unstages a single hunk", async () => {
+    const { repoPath, service } = setup();
+    editLines(repoPath, { 2: "changed 2", 25: "changed 25" });
+
+    const before = await service.getFileDiff("workspace-1", "notes.txt");
+    const headers = hunkHeaders(before.unstagedDiff);
+    expect(headers).toHaveLength(2);
+
+    await service.stageHunk("workspace-1", "notes.txt", headers[1] ?? "");
+    const partial = await service.getFileDiff("workspace-1", "notes.txt");
+    expect(partial.stagedDiff).toContain("+changed 25");
+    expect(partial.stagedDiff).not.toContain("+changed 2\n");
+    expect(partial.unstagedDiff).toContain("+changed 2\n");
+
+    const stagedHeader = hunkHeaders(partial.stagedDiff)[0] ?? "";
+    await service.unstageHunk("workspace-1", "notes.txt", stagedHeader);
+    const after = await service.getFileDiff("workspace-1", "notes.txt");
+    expect(after.hasStagedChanges).toBe(false);
+    expect(hunkHeaders(after.unstagedDiff)).toHaveLength(2);
+  });
+
+  it("rejects hunks that no longer match the diff", async () => {
+    const { repoPath, service } = setup();
+    editLines(repoPath, { 2: "changed 2" });
+
+    await expect(service.stageHunk("workspace-1", "notes.txt", "@@ -40,3 +40,3 @@")).rejects.toBeInstanceOf(
+      GitHunkNotFoundError
+    );
+  });
+
+  it("discards tracked changes and removes untracked files", async () => {
+    const { repoPath, service } = setup();
+    editLines(repoPath, { 2: "changed 2" });
+    fs.writeFileSync(path.join(repoPath, "scratch.txt"), "temporary\n");
+
+    await service.discardFile("workspace-1", "notes.txt");
+    const status = await service.discardFile("workspace-1", "scratch.txt");
+
+    expect(status.clean).toBe(true);
+    expect(fs.readFileSync(path.join(repoPath, "notes.txt"), "utf8")).toContain("line 2\n");
+    expect(fs.existsSync(path.join(repoPath, "scratch.txt"))).toBe(false);
+  });
+
+  it("discards staged modifications along with the working tree changes", async () => {
+    const { repoPath, service } = setup();
+    editLines(repoPath, { 2: "changed 2" });
+    git(repoPath, "add", "notes.txt");
+    editLines(repoPath, { 25: "changed 25" });
+
+    const status = await service.discardFile("workspace-1", "notes.txt");
+
+    expect(status.clean).toBe(true);
+    expect(fs.readFileSync(path.join(repoPath, "notes.txt"), "utf8")).toBe(git(repoPath, "show", "HEAD:notes.txt"));
+  });
+
+  it("discards added files by unstaging and deleting them", async () => {
+    const { repoPath, service } = setup();
+    fs.writeFileSync(path.join(repoPath, "added.txt"), "first\n");
+    git(repoPath, "add", "added.txt");
+    fs.appendFileSync(path.join(repoPath, "added.txt"), "second\n");
+
+    const status = await service.discardFile("workspace-1", "added.txt");
+
+    expect(status.clean).toBe(true);
+    expect(fs.existsSync(path.join(repoPath, "added.txt"))).toBe(false);
+  });
+
+  it("discards both sides of a staged rename", async () => {
+    const { repoPath, service } = setup();
+    git(repoPath, "mv", "notes.txt", "renamed.txt");
+    fs.appendFileSync(path.join(repoPath, "renamed.txt"), "appended\n");
+
+    const status = await service.discardFile("workspace-1", "renamed.txt");
+
+    expect(status.clean).toBe(true);
+    expect(fs.existsSync(path.join(repoPath, "renamed.txt"))).toBe(false);
+    expect(fs.readFileSync(path.join(repoPath, "notes.txt"), "utf8")).toBe(git(repoPath, "show", "HEAD:notes.txt"));
+  });
+
+  it("refuses paths outside the workspace", async () => {
+    const { service } = setup();
+
+    await expect(service.discardFile("workspace-1", "../outside.txt")).rejects.toBeInstanceOf(GitInvalidPathError);
+  });
+
+  it("commits staged changes and amends the last commit", async () => {
+    const { repoPath, service } = setup();
+
+    await expect(service.commit("workspace-1", { message: "Nothing here" })).rejects.toBeInstanceOf(
+      GitNothingToCommitError
+    );
+
+    editLines(repoPath, { 2: "changed 2" });
+    await service.stageFile("workspace-1", "notes.txt");
+    const result = await service.commit("workspace-1", { message: "Update notes\n\nExplain the change." });
+    expect(result.commit).toMatchObject({
+      subject: "Update notes",
+      body: "Explain the change.",
+      authorName: "Test",
+      files: ["notes.txt"]
+    });
+    expect(result.status.clean).toBe(true);
+
+    const amended = await service.commit("workspace-1", { message: "Reword notes", amend: true });
+    expect(amended.commit.subject).toBe("Reword notes");
+    expect(amended.commit.sha).not.toBe(result.commit.sha);
+    expect(git(repoPath, "rev-list", "--count", "HEAD").trim()).toBe("2");
+  });
+
+  it("pushes the current branch to its upstream", async () => {
+    const { repoPath, service } = setup();
+    await expect(service.push("workspace-1")).rejects.toBeInstanceOf(GitNoUpstreamError);
+
+    const remotePath = path.join(path.dirname(repoPath), "remote.git");
+    git(path.dirname(repoPath), "init", "--quiet", "--bare", remotePath);
+    git(repoPath, "remote", "add", "origin", remotePath);
+    const branch = git(repoPath, "rev-parse", "--abbrev-ref", "HEAD").trim();
+    git(repoPath, "push", "--quiet", "--set-upstream", "origin", branch);
+
+    editLines(repoPath, { 2: "changed 2" });
+    await service.stageFile("workspace-1", "notes.txt");
+    const { status: beforePush } = await service.commit("workspace-1", { message: "Update notes" });
+    expect(beforePush).toMatchObject({ upstream: `origin/${branch}`, ahead: 1 });
+
+    const result = await service.push("workspace-1");
+    expect(result).toMatchObject({ branch, upstream: `origin/${branch}` });
+    expect(result.status.ahead).toBe(0);
+    expect(git(remotePath, "log", "-1", "--format=%s", branch).trim()).toBe("Update notes");
+  });
+
+  it("creates, lists and switches branches", async () => {
+    const { repoPath, service } = setup();
+    const mainBranch = git(repoPath, "rev-parse", "--abbrev-ref", "HEAD").trim();
+
+    await expect(service.createBranch("workspace-1", { name: "bad..name" })).rejects.toBeInstanceOf(
+      GitInvalidRefError
+    );
+
+    const created = await service.createBranch("workspace-1", { name: "feature/notes", checkout: true });
+    expect(created).toMatchObject({ branch: "feature/notes", stashed: false });
+    expect(created.status.branch).toBe("feature/notes");
+    await expect(service.createBranch("workspace-1", { name: "feature/notes" })).rejects.toBeInstanceOf(
+      GitBranchExistsError
+    );
+
+    const branches = await service.listBranches("workspace-1");
+    expect(branches.map((branch) => [branch.name, branch.kind, branch.current]).sort()).toEqual(
+      [
+        ["feature/notes", "local", true],
+        [mainBranch, "local", false]
+      ].sort()
+    );
+    expect(branches[0]).toMatchObject({ subject: "initial" });
+
+    const switched = await service.switchBranch("workspace-1", { branch: mainBranch });
+    expect(switched.status.branch).toBe(mainBranch);
+  });
+
+  it("refuses to switch with local changes unless asked to stash them", async () => {
+    const { repoPath, service } = setup();
+    const mainBranch = git(repoPath, "rev-parse", "--abbrev-ref", "HEAD").trim();
+    await service.createBranch("workspace-1", { name: "topic" });
+    editLines(repoPath, { 2: "changed 2" });
+
+    await expect(service.switchBranch("workspace-1", { branch: "topic" })).rejects.toBeInstanceOf(
+      GitDirtyWorktreeError
+    );
+    expect(git(repoPath, "rev-parse", "--abbrev-ref", "HEAD").trim()).toBe(mainBranch);
+
+    const result = await service.switchBranch("workspace-1", { branch: "topic", stash: true });
+    expect(result).toMatchObject({ branch: "topic", stashed: true });
+    expect(result.status.clean).toBe(true);
+    expect(git(repoPath, "stash", "list")).toContain(`poketcodex: switch to topic`);
+  });
+
+  it("carries local changes onto a new branch created at HEAD", async () => {
+    const { repoPath, service } = setup();
+    editLines(repoPath, { 2: "changed 2" });
+
+    const result = await service.createBranch("workspace-1", { name: "wip", checkout: true });
+    expect(result).toMatchObject({ branch: "wip", stashed: false });
+    expect(result.status.entries).toEqual([expect.objectContaining({ path: "notes.txt", unstaged: "M" })]);
+    await expect(
+      service.createBranch("workspace-1", { name: "other", startPoint: "HEAD", checkout: true })
+    ).rejects.toBeInstanceOf(GitDirtyWorktreeError);
+    expect(git(repoPath, "branch", "--list", "other").trim()).toBe("");
+  });
+
+  it("pages through history and shows a commit diff", async () => {
+    const { repoPath, service } = setup();
+    for (const lineNumber of [2, 3, 4]) {
+      editLines(repoPath, { [lineNumber]: `changed ${lineNumber}` });
+      git(repoPath, "commit", "--quiet", "--all", "-m", `change line ${lineNumber}`);
+    }
+
+    const firstPage = await service.getLog("workspace-1", { limit: 2 });
+    expect(firstPage.commits.map((commit) => commit.subject)).toEqual(["change line 4", "change line 3"]);
+    expect(firstPage.hasMore).toBe(true);
+
+    const secondPage = await service.getLog("workspace-1", { skip: 2, limit: 2 });
+    expect(secondPage.commits.map((commit) => commit.subject)).toEqual(["change line 2", "initial"]);
+    expect(secondPage.hasMore).toBe(false);
+    expect(secondPage.commits[1]?.parents).toEqual([]);
+
+    const latest = firstPage.commits[0]?.shortSha ?? "";
+    const commit = await service.getCommit("workspace-1", latest);
+    expect(commit).toMatchObject({ subject: "change line 4", files: ["notes.txt"] });
+    expect(commit.parents).toEqual([firstPage.commits[1]?.sha]);
+    expect(commit.diff.startsWith("diff --git a/notes.txt b/notes.txt")).toBe(true);
+    expect(commit.diff).toContain("+changed 4");
+  });
+
+  it("returns every change in one workspace diff", async () => {
+    const { repoPath, service } = setup();
+    fs.mkdirSync(path.join(repoPath, "docs"));
+    fs.writeFileSync(path.join(repoPath, "docs", "guide.md"), "# Guide\n");
+    fs.writeFileSync(path.join(repoPath, "logo.bin"), Buffer.from([0, 1, 2, 3]));
+    git(repoPath, "add", "docs/guide.md", "logo.bin");
+    git(repoPath, "commit", "--quiet", "-m", "add docs");
+
+    editLines(repoPath, { 2: "changed 2" });
+    git(repoPath, "mv", "docs/guide.md", "docs/manual.md");
+    fs.writeFileSync(path.join(repoPath, "logo.bin"), Buffer.from([0, 4, 5, 6]));
+    fs.writeFileSync(path.join(repoPath, "todo.txt"), "first\nsecond\n");
+
+    const result = await service.getWorkspaceDiff("workspace-1");
+    expect(result.files.map((file) => file.path)).toEqual(["docs/manual.md", "logo.bin", "notes.txt", "todo.txt"]);
+    expect(result.files[0]).toMatchObject({ originalPath: "docs/guide.md", statusLabel: "Renamed" });
+    expect(result.files[1]).toMatchObject({ binary: true, additions: null, diff: "" });
+    expect(result.files[2]).toMatchObject({ additions: 1, deletions: 1 });
+    expect(result.files[2]?.diff).toContain("+changed 2");
+    expect(result.files[3]).toMatchObject({ untracked: true, additions: 2, deletions: 0 });
+    expect(result.files[3]?.diff).toContain("+second");
+    expect(result).toMatchObject({ additions: 3, deletions: 1, truncated: false });
+
+    const docsOnly = await service.getWorkspaceDiff("workspace-1", { pathPrefix: "docs" });
+    expect(docsOnly.files.map((file) => file.path)).toEqual(["docs/manual.md"]);
+  });
+
+  it("lists an untracked nested repository without reading it as a file", async () => {
+    const { repoPath, service } = setup();
+    const nestedPath = path.join(repoPath, "vendor", "lib");
+    fs.mkdirSync(nestedPath, { recursive: true });
+    git(nestedPath, "init", "--quiet");
+    fs.writeFileSync(path.join(nestedPath, "index.js"), "module.exports = {};\n");
+    fs.writeFileSync(path.join(repoPath, "todo.txt"), "first\n");
+
+    const result = await service.getWorkspaceDiff("workspace-1");
+
+    expect(result.files.map((file) => file.path)).toEqual(["todo.txt", "vendor/lib/"]);
+    expect(result.files[1]).toMatchObject({ untracked: true, additions: null, deletions: null, diff: "" });
+    expect(result).toMatchObject({ additions: 1, deletions: 0 });
+  });
+
+  it("caps workspace diffs per file and in total", async () => {
+    const { repoPath, service } = setup();
+    editLines(repoPath, Object.fromEntries(Array.from({ length: 30 }, (_, index) => [index + 1, `edited ${index}`])));
+    fs.writeFileSync(path.join(repoPath, "zz-large.txt"), "x\n".repeat(1_000));
+
+    const result = await service.getWorkspaceDiff("workspace-1", { maxFileBytes: 200, maxTotalBytes: 250 });
+    const [notes, large] = result.files;
+    expect(result.truncated).toBe(true);
+    expect(notes).toMatchObject({ path: "notes.txt", truncated: true });
+    expect(Buffer.byteLength(notes?.diff ?? "")).toBeLessThanOrEqual(200);
+    expect(large).toMatchObject({ path: "zz-large.txt", untracked: true, truncated: true, additions: null });
+    expect(Buffer.byteLength(large?.diff ?? "")).toBeLessThanOrEqual(50);
+  });
+
+  it("diffs against a base ref, its merge-base, or committed changes only", async () => {
+    const { repoPath, service } = setup();
+    const mainBranch = git(repoPath, "rev-parse", "--abbrev-ref", "HEAD").trim();
+    git(repoPath, "tag", "v1");
+    await service.createBranch("workspace-1", { name: "feature", checkout: true });
+    fs.writeFileSync(path.join(repoPath, "feature.txt"), "feature\n");
+    git(repoPath, "add", "feature.txt");
+    git(repoPath, "commit", "--quiet", "-m", "add feature");
+    editLines(repoPath, { 2: "changed 2" });
+
+    const againstTag = await service.getWorkspaceDiff("workspace-1", { base: "v1" });
+    expect(againstTag.base).toMatchObject({ ref: "v1", mergeBase: false });
+    expect(againstTag.files.map((file) => [file.path, file.statusLabel])).toEqual([
+      ["feature.txt", "Added"],
+      ["notes.txt", "Modified"]
+    ]);
+
+    const committedOnly = await service.getWorkspaceDiff("workspace-1", { base: "v1", compare: "head" });
+    expect(committedOnly.files.map((file) => file.path)).toEqual(["feature.txt"]);
+
+    // Moving main forward must not show its commits as removals when diffing from the merge-base.
+    await service.switchBranch("workspace-1", { branch: mainBranch, stash: true });
+    fs.writeFileSync(path.join(repoPath, "main.txt"), "main\n");
+    git(repoPath, "add", "main.txt");
+    git(repoPath, "commit", "--quiet", "-m", "main work");
+    git(repoPath, "switch", "--quiet", "feature");
+
+    const sinceMergeBase = await service.getWorkspaceDiff("workspace-1", {
+      base: mainBranch,
+      mergeBase: true,
+      compare: "head"
+    });
+    expect(sinceMergeBase.base?.sha).toBe(git(repoPath, "rev-parse", "v1").trim());
+    expect(sinceMergeBase.files.map((file) => file.path)).toEqual(["feature.txt"]);
+
+    await expect(service.getWorkspaceDiff("workspace-1", { base: "no-such-ref" })).rejects.toBeInstanceOf(
+      GitRefNotFoundError
+    );
+  });
+});
@@ -0,0 +1,160 @@
+import { execFileSync } from "node:child_process";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import { GitService, type GitStatusSummary } from "../../src/git/service.js";
+import { GitStatusWatcher, type GitStatusWatcherOptions } from "../../src/git/status-watcher.js";
+
+function git(cwd: string, ...args: string[]): string {
+  return execFileSync("git", args, {
+    cwd,
+    encoding: "utf8"
+  });
+}
+
+function createRepository(root: string): string {
+  const repoPath = path.join(root, "repo");
+  fs.mkdirSync(repoPath, { recursive: true });
+  git(repoPath, "init", "--quiet");
+  git(repoPath, "config", "user.name", "Test");
+  git(repoPath, "config", "user.email", "test@example.com");
+
+  fs.writeFileSync(path.join(repoPath, "notes.txt"), "first\n");
+  git(repoPath, "add", ".");
+  git(repoPath, "commit", "--quiet", "-m", "initial");
+  return repoPath;
+}
+
+describe("GitStatusWatcher", () => {
+  const cleanupTargets: string[] = [];
+  const watchers: GitStatusWatcher[] = [];
+
+  afterEach(() => {
+    for (const watcher of watchers.splice(0)) {
+      watcher.close();
+    }
+    for (const target of cleanupTargets.splice(0)) {
+      fs.rmSync(target, { recursive: true, force: true });
+    }
+  });
+
+  // Watching starts asynchronously, so keep adding files until one of them is reported.
+  async function waitUntilWatching(repoPath: string, reported: () => boolean): Promise<void> {
+    let attempt = 0;
+    await vi.waitFor(
+      () => {
+        attempt += 1;
+        fs.writeFileSync(path.join(repoPath, `draft-${attempt}.txt`), "draft\n");
+        expect(reported()).toBe(true);
+      },
+      { timeout: 4_000, interval: 100 }
+    );
+  }
+
+  function setup(
+    options: GitStatusWatcherOptions = { debounceMs: 20 }
+  ): { repoPath: string; watcher: GitStatusWatcher } {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), "poketcodex-status-watch-"));
+    cleanupTargets.push(root);
+    const repoPath = createRepository(root);
+    const workspaceService = {
+      getWorkspaceById: (workspaceId: string) =>
+        workspaceId === "workspace-1" ? { workspaceId, absolutePath: repoPath } : null
+    } as unknown as ConstructorParameters<typeof GitService>[0];
+    const watcher = new GitStatusWatcher(new GitService(workspaceService), options);
+    watchers.push(watcher);
+    return { repoPath, watcher };
+  }
+
+  it("pushes the new status when the working tree or index changes", async () => {
+    const { repoPath, watcher } = setup();
+    const statuses: GitStatusSummary[] = [];
+    watcher.subscribe("workspace-1", (status) => {
+      statuses.push(status);
+    });
+    await waitUntilWatching(repoPath, () => statuses.length > 0);
+
+    fs.writeFileSync(path.join(repoPath, "notes.txt"), "edited\n");
+    await vi.waitFor(() => {
+      expect(statuses.at(-1)?.entries).toContainEqual(expect.objectContaining({ path: "notes.txt", unstaged: "M" }));
+    });
+
+    git(repoPath, "add", "notes.txt");
+    await vi.waitFor(() => {
+      expect(statuses.at(-1)?.entries).toContainEqual(expect.objectContaining({ path: "notes.txt", staged: "M" }));
+    });
+  });
+
+  it("follows changes in nested and newly created directories", async () => {
+    const { repoPath, watcher } = setup();
+    fs.mkdirSync(path.join(repoPath, "src", "nested"), { recursive: true });
+    fs.writeFileSync(path.join(repoPath, "src", "nested", "index.ts"), "export {};\n");
+    fs.writeFileSync(path.join(repoPath, ".gitignore"), "node_modules/\n");
+    git(repoPath, "add", ".");
+    git(repoPath, "commit", "--quiet", "-m", "sources");
+    fs.mkdirSync(path.join(repoPath, "node_modules"));
+
+    const statuses: GitStatusSummary[] = [];
+    watcher.subscribe("workspace-1", (status) => {
+      statuses.push(status);
+    });
+    await waitUntilWatching(repoPath, () => statuses.length > 0);
+
+    fs.writeFileSync(path.join(repoPath, "src", "nested", "index.ts"), "export const edited = true;\n");
+    await vi.waitFor(() => {
+      expect(statuses.at(-1)?.entries).toContainEqual(
+        expect.objectContaining({ path: "src/nested/index.ts", unstaged: "M" })
+      );
+    });
+
+    fs.mkdirSync(path.join(repoPath, "lib"));
+    fs.writeFileSync(path.join(repoPath, "lib", "util.ts"), "export {};\n");
+    await vi.waitFor(() => {
+      expect(statuses.at(-1)?.entries).toContainEqual(expect.objectContaining({ path: "lib/util.ts", staged: "?" }));
+    });
+    git(repoPath, "add", "lib");
+    git(repoPath, "commit", "--quiet", "-m", "lib");
+    await vi.waitFor(() => {
+      expect(statuses.at(-1)?.entries).not.toContainEqual(expect.objectContaining({ path: "lib/util.ts" }));
+    });
+
+    // Past git's racy-timestamp window, status stops rewriting the index, so only the watch started when `lib`
+    // appeared sees this edit.
+    await new Promise((resolve) => setTimeout(resolve, 1_100));
+    fs.writeFileSync(path.join(repoPath, "lib", "util.ts"), "export const edited = true;\n");
+    await vi.waitFor(() => {
+      expect(statuses.at(-1)?.entries).toContainEqual(expect.objectContaining({ path: "lib/util.ts", unstaged: "M" }));
+    });
+  });
+
+  it("stops reporting once the last subscriber leaves", async () => {
+    const { repoPath, watcher } = setup();
+    const listener = vi.fn();
+    const unsubscribe = watcher.subscribe("workspace-1", listener);
+
+    await waitUntilWatching(repoPath, () => listener.mock.calls.length > 0);
+
+    unsubscribe();
+    const calls = listener.mock.calls.length;
+    fs.writeFileSync(path.join(repoPath, "after.txt"), "after\n");
+    await new Promise((resolve) => setTimeout(resolve, 200));
+    expect(listener).toHaveBeenCalledTimes(calls);
+  });
+
+  it("refreshes within the max wait while changes keep arriving", async () => {
+    const { repoPath, watcher } = setup({ debounceMs: 1_000, maxWaitMs: 200 });
+    const listener = vi.fn();
+    watcher.subscribe("workspace-1", listener);
+
+    // Each write lands well inside the debounce, so only the max wait lets a refresh through.
+    for (let attempt = 0; attempt < 40 && listener.mock.calls.length === 0; attempt += 1) {
+      fs.writeFileSync(path.join(repoPath, `busy-${attempt}.txt`), "busy\n");
+      await new Promise((resolve) => setTimeout(resolve, 100));
+    }
+
+    expect(listener).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,159 @@
+import { execFileSync } from "node:child_process";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+import { afterEach, describe, expect, it } from "vitest";
+
+import { GitBranchExistsError, GitService } from "../../src/git/service.js";
+import {
+  GitMergeConflictError,
+  GitWorktreeChangesError,
+  GitWorktreeNotFoundError,
+  GitWorktreeService
+} from "../../src/git/worktrees.js";
+import { ThreadMetadataStore } from "../../src/threads/metadata-store.js";
+
+function git(cwd: string, ...args: string[]): string {
+  return execFileSync("git", args, {
+    cwd,
+    encoding: "utf8"
+  });
+}
+
+function createRepository(root: string): string {
+  const repoPath = path.join(root, "repo");
+  fs.mkdirSync(repoPath, { recursive: true });
+  git(repoPath, "init", "--quiet");
+  git(repoPath, "config", "user.name", "Test");
+  git(repoPath, "config", "user.email", "test@example.com");
+
+  fs.writeFileSync(path.join(repoPath, "notes.txt"), "first\nsecond\n");
+  git(repoPath, "add", ".");
+  git(repoPath, "commit", "--quiet", "-m", "initial");
+  return repoPath;
+}
+
+describe("GitWorktreeService", () => {
+  const cleanupTargets: string[] = [];
+  const stores: ThreadMetadataStore[] = [];
+
+  afterEach(() => {
+    for (const store of stores.splice(0)) {
+      store.close();
+    }
+    for (const target of cleanupTargets.splice(0)) {
+      fs.rmSync(target, { recursive: true, force: true });
+    }
+  });
+
+  function setup(): { repoPath: string; service: GitWorktreeService } {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), "poketcodex-worktree-"));
+    cleanupTargets.push(root);
+    const repoPath = createRepository(root);
+    const workspaceService = {
+      getWorkspaceById: (workspaceId: string) =>
+        workspaceId === "workspace-1" ? { workspaceId, absolutePath: repoPath } : null
+    } as unknown as ConstructorParameters<typeof GitService>[0];
+    const store = new ThreadMetadataStore(":memory:");
+    stores.push(store);
+
+    return { repoPath, service: new GitWorktreeService(new GitService(workspaceService), store) };
+  }
+
+  it("creates a worktree on a new branch without dirtying the main checkout", async () => {
+    const { repoPath, service } = setup();
+
+    const pending = await service.createWorktree("workspace-1", { branch: "feature/one" });
+    expect(pending).toEqual({
+      path: expect.stringMatching(/feature-one-[0-9a-f]{8}$/),
+      branch: "feature/one",
+      baseRef: "HEAD",
+      baseSha: git(repoPath, "rev-parse", "HEAD").trim()
+    });
+    expect(path.dirname(pending.path)).toBe(path.join(repoPath, ".poketcodex", "worktrees"));
+    expect(git(pending.path, "branch", "--show-current").trim()).toBe("feature/one");
+    expect(git(repoPath, "status", "--porcelain")).toBe("");
+
+    service.attachWorktree("workspace-1", "thread-1", pending);
+    expect(service.getThreadWorktree("workspace-1", "thread-1")).toMatchObject({ threadId: "thread-1", ...pending });
+    expect(await service.listWorktrees("workspace-1")).toEqual([
+      expect.objectContaining({ branch: "feature/one", exists: true, dirty: false, unmergedCommits: 0 })
+    ]);
+
+    await expect(service.createWorktree("workspace-1", { branch: "feature/one" })).rejects.toBeInstanceOf(
+      GitBranchExistsError
+    );
+
+    // Both branches sanitize to `feature-one`, but each still gets a directory of its own.
+    const lookalike = await service.createWorktree("workspace-1", { branch: "feature-one" });
+    expect(lookalike.path).not.toBe(pending.path);
+    expect(git(lookalike.path, "branch", "--show-current").trim()).toBe("feature-one");
+  });
+
+  it("merges a worktree branch back after committing its pending changes", async () => {
+    const { repoPath, service } = setup();
+    const pending = await service.createWorktree("workspace-1", { branch: "agent" });
+    service.attachWorktree("workspace-1", "thread-1", pending);
+    fs.writeFileSync(path.join(pending.path, "agent.txt"), "from the agent\n");
+
+    await expect(service.mergeWorktree("workspace-1", "thread-1")).rejects.toBeInstanceOf(GitWorktreeChangesError);
+
+    const result = await service.mergeWorktree("workspace-1", "thread-1", { message: "Agent work" });
+    expect(result).toMatchObject({ branch: "agent", committed: true, merged: true });
+    expect(result.mergedInto).toBe(git(repoPath, "branch", "--show-current").trim());
+    expect(fs.readFileSync(path.join(repoPath, "agent.txt"), "utf8")).toBe("from the agent\n");
+
+    const again = await service.mergeWorktree("workspace-1", "thread-1");
+    expect(again).toMatchObject({ committed: false, merged: false });
+  });
+
+  it("aborts a conflicting merge and leaves the main checkout untouched", async () => {
+    const { repoPath, service } = setup();
+    const pending = await service.createWorktree("workspace-1", { branch: "agent" });
+    service.attachWorktree("workspace-1", "thread-1", pending);
+    fs.writeFileSync(path.join(pending.path, "notes.txt"), "first\nagent\n");
+    git(pending.path, "commit", "--quiet", "-am", "agent change");
+    fs.writeFileSync(path.join(repoPath, "notes.txt"), "first\nuser\n");
+    git(repoPath, "commit", "--quiet", "-am", "user change");
+    const headBefore = git(repoPath, "rev-parse", "HEAD");
+
+    await expect(service.mergeWorktree("workspace-1", "thread-1")).rejects.toBeInstanceOf(GitMergeConflictError);
+    expect(git(repoPath, "rev-parse", "HEAD")).toBe(headBefore);
+    expect(git(repoPath, "status", "--porcelain")).toBe("");
+  });
+
+  it("guards uncommitted and unmerged work when removing a worktree", async () => {
+    const { repoPath, service } = setup();
+    const pending = await service.createWorktree("workspace-1", { branch: "agent" });
+    service.attachWorktree("workspace-1", "thread-1", pending);
+    fs.writeFileSync(path.join(pending.path, "agent.txt"), "draft\n");
+
+    await expect(service.removeWorktree("workspace-1", "thread-1")).rejects.toBeInstanceOf(GitWorktreeChangesError);
+
+    git(pending.path, "add", "agent.txt");
+    git(pending.path, "commit", "--quiet", "-m", "agent work");
+    await expect(service.removeWorktree("workspace-1", "thread-1", { deleteBranch: true })).rejects.toBeInstanceOf(
+      GitWorktreeChangesError
+    );
+
+    git(repoPath, "update-ref", "refs/poketcodex/checkpoints/thread-1/turn-1", "HEAD");
+    const removed = await service.removeWorktree("workspace-1", "thread-1");
+    expect(removed.branch).toBe("agent");
+    expect(git(repoPath, "for-each-ref", "refs/poketcodex")).toBe("");
+    expect(fs.existsSync(pending.path)).toBe(false);
+    expect(git(repoPath, "branch", "--list", "agent").trim()).toContain("agent");
+    expect(service.getThreadWorktree("workspace-1", "thread-1")).toBeNull();
+    await expect(service.removeWorktree("workspace-1", "thread-1")).rejects.toBeInstanceOf(GitWorktreeNotFoundError);
+  });
+
+  it("discards a worktree whose thread never started", async () => {
+    const { repoPath, service } = setup();
+    const pending = await service.createWorktree("workspace-1");
+    expect(pending.branch).toMatch(/^poketcodex\/[0-9a-f]{8}$/);
+
+    await service.discardWorktree("workspace-1", pending);
+    expect(fs.existsSync(pending.path)).toBe(false);
+    expect(git(repoPath, "branch", "--list", pending.branch)).toBe("");
+  });
+});
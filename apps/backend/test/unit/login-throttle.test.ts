@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+
+import { LoginThrottle, type LoginThrottleOptions } from "../../src/auth/login-throttle.js";
+
+const OPTIONS: LoginThrottleOptions = {
+  maxFailedAttempts: 3,
+  globalMaxFailedAttempts: 5,
+  lockoutMinutes: 10,
+  backoffBaseMs: 1_000
+};
+
+describe("LoginThrottle", () => {
+  it("doubles the wait after each failure and clears it on success", () => {
+    let now = 0;
+    const throttle = new LoginThrottle(OPTIONS, () => now);
+
+    expect(throttle.recordFailure("10.0.0.1")).toEqual({
+      failedAttempts: 1,
+      lockedOutScope: null,
+      retryAfterMs: 1_000
+    });
+    expect(throttle.check("10.0.0.1")).toEqual({ allowed: false, scope: "client", retryAfterMs: 1_000 });
+    expect(throttle.check("10.0.0.2")).toEqual({ allowed: true });
+
+    now += 1_000;
+    expect(throttle.check("10.0.0.1")).toEqual({ allowed: true });
+    expect(throttle.recordFailure("10.0.0.1").retryAfterMs).toBe(2_000);
+
+    now += 2_000;
+    throttle.recordSuccess("10.0.0.1");
+    expect(throttle.recordFailure("10.0.0.1").failedAttempts).toBe(1);
+  });
+
+  it("locks a client out once it reaches the failure limit", () => {
+    let now = 0;
+    const throttle = new LoginThrottle(OPTIONS, () => now);
+
+    throttle.recordFailure("10.0.0.1");
+    now += 1_000;
+    throttle.recordFailure("10.0.0.1");
+    now += 2_000;
+    const outcome = throttle.recordFailure("10.0.0.1");
+
+    expect(outcome).toEqual({ failedAttempts: 3, lockedOutScope: "client", retryAfterMs: 600_000 });
+
+    now += 599_999;
+    expect(throttle.check("10.0.0.1")).toEqual({ allowed: false, scope: "client", retryAfterMs: 1 });
+
+    now += 1;
+    expect(throttle.check("10.0.0.1")).toEqual({ allowed: true });
+    expect(throttle.recordFailure("10.0.0.1").failedAttempts).toBe(1);
+  });
+
+  it("locks every client out when failures pile up across addresses", () => {
+    let now = 0;
+    const throttle = new LoginThrottle(OPTIONS, () => now);
+
+    for (let index = 1; index < OPTIONS.globalMaxFailedAttempts; index += 1) {
+      expect(throttle.recordFailure(`10.0.0.${index}`).lockedOutScope).toBeNull();
+    }
+    expect(throttle.recordFailure("10.0.0.99").lockedOutScope).toBe("global");
+    expect(throttle.check("192.168.1.1")).toEqual({ allowed: false, scope: "global", retryAfterMs: 600_000 });
+
+    now += 600_000;
+    expect(throttle.check("192.168.1.1")).toEqual({ allowed: true });
+  });
+
+  it("forgets failures older than the lockout window", () => {
+    let now = 0;
+    const throttle = new LoginThrottle(OPTIONS, () => now);
+
+    throttle.recordFailure("10.0.0.1");
+    throttle.recordFailure("10.0.0.2");
+    now += 600_000;
+
+    expect(throttle.prune()).toBe(2);
+    expect(throttle.recordFailure("10.0.0.1").failedAttempts).toBe(1);
+  });
+});
@@ -0,0 +1,143 @@
+import { afterEach, describe, expect, it } from "vitest";
+
+import { PasskeyStore } from "../../src/auth/passkey-store.js";
+import {
+  MAX_PENDING_CEREMONIES,
+  PasskeyChallengeError,
+  PasskeyService,
+  PasskeyStateError
+} from "../../src/auth/passkeys.js";
+import { WebAuthnVerificationError, type RelyingParty } from "../../src/auth/webauthn.js";
+import { FakeAuthenticator, FLAG_USER_PRESENT } from "../helpers/fake-authenticator.js";
+
+const RELYING_PARTY: RelyingParty = { id: "box.example.ts.net", origin: "https://box.example.ts.net" };
+const SUBJECT = { subjectId: "user-1", accountName: "alice" };
+
+describe("PasskeyService", () => {
+  const stores: PasskeyStore[] = [];
+
+  afterEach(() => {
+    for (const store of stores.splice(0)) {
+      store.close();
+    }
+  });
+
+  function createService(now: () => number = () => Date.now()): PasskeyService {
+    const store = new PasskeyStore(":memory:");
+    stores.push(store);
+    return new PasskeyService(store, now);
+  }
+
+  function registerPasskey(service: PasskeyService, authenticator: FakeAuthenticator): string {
+    const options = service.beginRegistration("session-1", SUBJECT, RELYING_PARTY);
+    service.finishRegistration("session-1", authenticator.register(options.challenge), "  Phone  ");
+    return options.user.id;
+  }
+
+  it("registers a passkey and signs in with it", () => {
+    const service = createService();
+    const authenticator = new FakeAuthenticator(RELYING_PARTY.origin);
+
+    const registrationOptions = service.beginRegistration("session-1", SUBJECT, RELYING_PARTY);
+    expect(registrationOptions.rp).toEqual({ id: "box.example.ts.net", name: "PocketCodex" });
+    expect(registrationOptions.authenticatorSelection.userVerification).toBe("required");
+
+    const passkey = service.finishRegistration(
+      "session-1",
+      authenticator.register(registrationOptions.challenge),
+      "  Phone  "
+    );
+    expect(passkey).toMatchObject({ subjectId: "user-1", rpId: "box.example.ts.net", label: "Phone", signCount: 0 });
+    expect(service.beginRegistration("session-1", SUBJECT, RELYING_PARTY).excludeCredentials).toEqual([
+      { type: "public-key", id: passkey.credentialId, transports: ["internal"] }
+    ]);
+
+    const loginOptions = service.beginAuthentication("browser-1", RELYING_PARTY);
+    const signedIn = service.finishAuthentication(
+      "browser-1",
+      authenticator.authenticate(loginOptions.challenge, registrationOptions.user.id)
+    );
+    expect(signedIn.subjectId).toBe("user-1");
+    expect(service.list("user-1")[0]).toMatchObject({ signCount: 1, lastUsedAt: expect.any(String) });
+
+    // Each challenge is answered once.
+    expect(() =>
+      service.finishAuthentication("browser-1", authenticator.authenticate(loginOptions.challenge, null))
+    ).toThrow(PasskeyChallengeError);
+  });
+
+  it("rejects assertions for another origin, without user verification, or with a stale counter", () => {
+    const service = createService();
+    const authenticator = new FakeAuthenticator(RELYING_PARTY.origin);
+    const userHandle = registerPasskey(service, authenticator);
+
+    const attempt = (overrides: Parameters<FakeAuthenticator["authenticate"]>[2]) => {
+      const { challenge } = service.beginAuthentication("browser-1", RELYING_PARTY);
+      const response = authenticator.authenticate(challenge, userHandle, overrides);
+      return () => service.finishAuthentication("browser-1", response);
+    };
+
+    expect(attempt({ origin: "https://phish.example" })).toThrow(WebAuthnVerificationError);
+    expect(attempt({ rpId: "phish.example" })).toThrow(WebAuthnVerificationError);
+    expect(attempt({ flags: FLAG_USER_PRESENT })).toThrow(WebAuthnVerificationError);
+    expect(attempt({ signCount: 7 })).not.toThrow();
+    expect(attempt({ signCount: 7 })).toThrow("signature counter");
+
+    const { challenge: tamperedChallenge } = service.beginAuthentication("browser-1", RELYING_PARTY);
+    const tampered = { ...authenticator.authenticate(tamperedChallenge, userHandle), signature: "AAAA" };
+    expect(() => service.finishAuthentication("browser-1", tampered)).toThrow("signature is not valid");
+
+    const { challenge } = service.beginAuthentication("browser-1", RELYING_PARTY);
+    const otherUserHandle = Buffer.from("user-2").toString("base64url");
+    expect(() =>
+      service.finishAuthentication("browser-1", authenticator.authenticate(challenge, otherUserHandle))
+    ).toThrow("different account");
+  });
+
+  it("refuses duplicate registrations and keeps passkeys scoped to their subject", () => {
+    const service = createService();
+    const authenticator = new FakeAuthenticator(RELYING_PARTY.origin);
+    registerPasskey(service, authenticator);
+
+    expect(() => registerPasskey(service, authenticator)).toThrow(PasskeyStateError);
+
+    const [passkey] = service.list("user-1");
+    expect(service.remove("user-2", passkey?.credentialId ?? "")).toBe(false);
+    expect(service.remove("user-1", passkey?.credentialId ?? "")).toBe(true);
+    expect(service.list("user-1")).toEqual([]);
+  });
+
+  it("expires ceremonies that were never answered", () => {
+    let now = 0;
+    const service = createService(() => now);
+    const authenticator = new FakeAuthenticator(RELYING_PARTY.origin);
+
+    const { challenge } = service.beginRegistration("session-1", SUBJECT, RELYING_PARTY);
+    service.beginAuthentication("browser-1", RELYING_PARTY);
+    now += 5 * 60_000;
+
+    expect(() => service.finishRegistration("session-1", authenticator.register(challenge))).toThrow(
+      PasskeyChallengeError
+    );
+    expect(service.prune()).toBe(1);
+  });
+
+  it("drops the oldest sign-in prompts once too many are outstanding", () => {
+    const service = createService();
+    const authenticator = new FakeAuthenticator(RELYING_PARTY.origin);
+    const userHandle = registerPasskey(service, authenticator);
+
+    const oldest = service.beginAuthentication("browser-0", RELYING_PARTY);
+    const kept = service.beginAuthentication("browser-1", RELYING_PARTY);
+    for (let index = 2; index <= MAX_PENDING_CEREMONIES; index += 1) {
+      service.beginAuthentication(`browser-${index}`, RELYING_PARTY);
+    }
+
+    expect(() =>
+      service.finishAuthentication("browser-0", authenticator.authenticate(oldest.challenge, userHandle))
+    ).toThrow(PasskeyChallengeError);
+    expect(
+      service.finishAuthentication("browser-1", authenticator.authenticate(kept.challenge, userHandle)).subjectId
+    ).toBe("user-1");
+  });
+});
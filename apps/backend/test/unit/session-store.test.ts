@@ -1,6 +1,10 @@
-import { describe, expect, it } from "vitest";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
 
-import { InMemorySessionStore } from "../../src/auth/session-store.js";
+import { afterEach, describe, expect, it } from "vitest";
+
+import { InMemorySessionStore, SqliteSessionStore } from "../../src/auth/session-store.js";
 
 describe("InMemorySessionStore", () => {
   it("creates and resolves active sessions", () => {
@@ -22,4 +26,71 @@ describe("InMemorySessionStore", () => {
 
     expect(store.getSession(session.id)).toBeNull();
   });
+
+  it("slides the expiry forward when a session is touched", () => {
+    let now = 1_000;
+    const store = new InMemorySessionStore(() => now);
+    const session = store.createSession(1);
+
+    now += 50_000;
+    expect(store.touchSession(session.id, 1)?.expiresAt).toBe(now + 60_000);
+
+    now += 50_000;
+    expect(store.getSession(session.id)?.lastSeenAt).toBe(51_000);
+  });
+});
+
+describe("SqliteSessionStore", () => {
+  const cleanupTargets: string[] = [];
+  const stores: SqliteSessionStore[] = [];
+
+  afterEach(() => {
+    for (const store of stores.splice(0)) {
+      store.close();
+    }
+    for (const target of cleanupTargets.splice(0)) {
+      fs.rmSync(target, { recursive: true, force: true });
+    }
+  });
+
+  function openStore(databasePath: string, now: () => number): SqliteSessionStore {
+    const store = new SqliteSessionStore(databasePath, now);
+    stores.push(store);
+    return store;
+  }
+
+  it("keeps sessions across store instances on the same database file", () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), "poketcodex-sessions-"));
+    cleanupTargets.push(directory);
+    const databasePath = path.join(directory, "nested", "sessions.db");
+
+    const firstStore = openStore(databasePath, () => 1_000);
+    const session = firstStore.createSession(5, { userAgent: "Mobile Safari" });
+    firstStore.close();
+    stores.splice(stores.indexOf(firstStore), 1);
+
+    const secondStore = openStore(databasePath, () => 2_000);
+    expect(secondStore.getSession(session.id)).toEqual(session);
+    expect(secondStore.listSessions().map((entry) => entry.userAgent)).toEqual(["Mobile Safari"]);
+  });
+
+  it("slides, lists, deletes and prunes sessions by expiry", () => {
+    let now = 1_000;
+    const store = openStore(":memory:", () => now);
+    const stale = store.createSession(1);
+    const active = store.createSession(1);
+
+    now += 50_000;
+    expect(store.touchSession(active.id, 1)).toMatchObject({ lastSeenAt: now, expiresAt: now + 60_000 });
+    expect(store.listSessions().map((session) => session.id)).toEqual([active.id, stale.id]);
+
+    now += 20_000;
+    expect(store.getSession(stale.id)).toBeNull();
+    expect(store.touchSession(stale.id, 1)).toBeNull();
+    expect(store.listSessions().map((session) => session.id)).toEqual([active.id]);
+    expect(store.pruneExpired()).toBe(1);
+
+    store.deleteSession(active.id);
+    expect(store.getSession(active.id)).toBeNull();
+  });
 });
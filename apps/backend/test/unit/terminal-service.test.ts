@@ -0,0 +1,159 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+import { afterEach, describe, expect, it } from "vitest";
+
+import {
+  TerminalLimitError,
+  TerminalNotFoundError,
+  TerminalNotRunningError,
+  TerminalService,
+  TerminalWorkspaceNotTrustedError,
+  type TerminalEvent,
+  type TerminalSessionSummary
+} from "../../src/terminals/service.js";
+
+function waitForExit(
+  service: TerminalService,
+  workspaceId: string,
+  terminalId: string
+): Promise<TerminalSessionSummary> {
+  return new Promise((resolve) => {
+    const current = service.get(workspaceId, terminalId);
+    if (current.status === "exited") {
+      resolve(current);
+      return;
+    }
+
+    const unsubscribe = service.subscribe(workspaceId, terminalId, (event) => {
+      if (event.type === "exit") {
+        unsubscribe();
+        resolve(event.terminal);
+      }
+    });
+  });
+}
+
+function readText(service: TerminalService, workspaceId: string, terminalId: string): string {
+  return service
+    .readOutput(workspaceId, terminalId)
+    .chunks.map((chunk) => chunk.data)
+    .join("");
+}
+
+describe("TerminalService", () => {
+  const cleanupTargets: string[] = [];
+  const services: TerminalService[] = [];
+
+  afterEach(() => {
+    for (const service of services.splice(0)) {
+      service.closeAll();
+    }
+    for (const target of cleanupTargets.splice(0)) {
+      fs.rmSync(target, { recursive: true, force: true });
+    }
+  });
+
+  function setup(options: { maxSessions?: number } = {}): { workspacePath: string; service: TerminalService } {
+    const workspacePath = fs.mkdtempSync(path.join(os.tmpdir(), "poketcodex-terminals-"));
+    cleanupTargets.push(workspacePath);
+
+    const workspaceService = {
+      getWorkspaceById: (workspaceId: string) => {
+        if (workspaceId === "workspace-1") {
+          return { workspaceId, absolutePath: workspacePath, trusted: true };
+        }
+        if (workspaceId === "untrusted") {
+          return { workspaceId, absolutePath: workspacePath, trusted: false };
+        }
+        return null;
+      }
+    } as unknown as ConstructorParameters<typeof TerminalService>[0];
+    const service = new TerminalService(workspaceService, { shell: "/bin/sh", ...options });
+    services.push(service);
+    return { workspacePath, service };
+  }
+
+  it("runs a command in the workspace and captures stdout, stderr and the exit code", async () => {
+    const { workspacePath, service } = setup();
+
+    const terminal = await service.create("workspace-1", { command: "pwd; echo oops >&2; exit 3" });
+    expect(terminal.status).toBe("running");
+
+    const exited = await waitForExit(service, "workspace-1", terminal.id);
+    expect(exited.exitCode).toBe(3);
+    expect(exited.status).toBe("exited");
+
+    const chunks = service.readOutput("workspace-1", terminal.id).chunks;
+    expect(chunks.filter((chunk) => chunk.stream === "stdout").map((chunk) => chunk.data).join("")).toBe(
+      `${fs.realpathSync(workspacePath)}\n`
+    );
+    expect(chunks.filter((chunk) => chunk.stream === "stderr").map((chunk) => chunk.data).join("")).toBe("oops\n");
+    expect(chunks.map((chunk) => chunk.sequence)).toEqual(chunks.map((_, index) => index + 1));
+  });
+
+  it("feeds stdin to an interactive shell and streams its output to subscribers", async () => {
+    const { service } = setup();
+    const terminal = await service.create("workspace-1");
+    const events: TerminalEvent[] = [];
+    service.subscribe("workspace-1", terminal.id, (event) => events.push(event));
+
+    service.write("workspace-1", terminal.id, "echo hello\n");
+    service.closeInput("workspace-1", terminal.id);
+    const exited = await waitForExit(service, "workspace-1", terminal.id);
+
+    expect(exited.exitCode).toBe(0);
+    expect(readText(service, "workspace-1", terminal.id)).toBe("hello\n");
+    expect(events.map((event) => event.type)).toEqual(["output", "exit"]);
+    expect(() => service.write("workspace-1", terminal.id, "echo again\n")).toThrow(TerminalNotRunningError);
+  });
+
+  it("passes only allowlisted environment variables to the shell", async () => {
+    const { service } = setup();
+    process.env.POKETCODEX_TEST_SECRET = "do-not-leak";
+    try {
+      const terminal = await service.create("workspace-1", {
+        command: 'echo "${POKETCODEX_TEST_SECRET:-unset} $TERM"; test -n "$PATH"'
+      });
+      const exited = await waitForExit(service, "workspace-1", terminal.id);
+
+      expect(exited.exitCode).toBe(0);
+      expect(readText(service, "workspace-1", terminal.id)).toBe("unset dumb\n");
+    } finally {
+      delete process.env.POKETCODEX_TEST_SECRET;
+    }
+  });
+
+  it("interrupts the running command with a signal", async () => {
+    const { service } = setup();
+    const terminal = await service.create("workspace-1", { command: "sleep 30" });
+
+    service.signal("workspace-1", terminal.id, "SIGTERM");
+    const exited = await waitForExit(service, "workspace-1", terminal.id);
+
+    expect(exited.signal).toBe("SIGTERM");
+    expect(exited.exitCode).toBeNull();
+  });
+
+  it("caps concurrent sessions and frees a slot when one is removed", async () => {
+    const { service } = setup({ maxSessions: 1 });
+    const first = await service.create("workspace-1", { command: "sleep 30" });
+
+    await expect(service.create("workspace-1", { command: "true" })).rejects.toBeInstanceOf(TerminalLimitError);
+
+    expect(service.remove("workspace-1", first.id).id).toBe(first.id);
+    expect(() => service.get("workspace-1", first.id)).toThrow(TerminalNotFoundError);
+    const second = await service.create("workspace-1", { command: "true" });
+    expect(service.list("workspace-1").map((terminal) => terminal.id)).toEqual([second.id]);
+  });
+
+  it("refuses untrusted workspaces and hides sessions from other workspaces", async () => {
+    const { service } = setup();
+    await expect(service.create("untrusted")).rejects.toBeInstanceOf(TerminalWorkspaceNotTrustedError);
+
+    const terminal = await service.create("workspace-1", { command: "true" });
+    expect(() => service.readOutput("untrusted", terminal.id)).toThrow(TerminalNotFoundError);
+    expect(service.list("untrusted")).toEqual([]);
+  });
+});
@@ -46,4 +46,57 @@ describe("ThreadMetadataStore", () => {
     const listed = store.listByWorkspace("workspace-1");
     expect(listed[0]?.archived).toBe(true);
   });
+
+  it("tracks a thread's worktree alongside its metadata", () => {
+    const store = new ThreadMetadataStore(":memory:");
+    stores.push(store);
+
+    store.upsert({
+      threadId: "thread-1",
+      workspaceId: "workspace-1",
+      title: "Thread 1",
+      rawPayload: {
+        id: "thread-1"
+      }
+    });
+    const worktree = {
+      threadId: "thread-1",
+      workspaceId: "workspace-1",
+      path: "/workspaces/repo/.poketcodex/worktrees/feature",
+      branch: "feature",
+      baseRef: "HEAD",
+      baseSha: "abc123",
+      createdAt: "2026-01-01T00:00:00.000Z"
+    };
+    store.saveWorktree(worktree);
+
+    expect(store.getWorktree("workspace-1", "thread-1")).toEqual(worktree);
+    expect(store.getWorktree("workspace-2", "thread-1")).toBeNull();
+    expect(store.listWorktrees("workspace-1")).toEqual([worktree]);
+    expect(store.listByWorkspace("workspace-1")[0]?.worktree).toEqual(worktree);
+
+    store.deleteWorktree("workspace-1", "thread-1");
+    expect(store.getWorktree("workspace-1", "thread-1")).toBeNull();
+    expect(store.listByWorkspace("workspace-1")[0]?.worktree).toBeNull();
+  });
+
+  it("keeps the creating user and follows the latest actor", () => {
+    const store = new ThreadMetadataStore(":memory:");
+    stores.push(store);
+
+    store.upsert({ threadId: "thread-1", workspaceId: "workspace-1", rawPayload: {}, actorUserId: "user-a" });
+    store.upsert({ threadId: "thread-1", workspaceId: "workspace-1", rawPayload: {} });
+    expect(store.listByWorkspace("workspace-1")[0]).toMatchObject({
+      createdByUserId: "user-a",
+      updatedByUserId: "user-a"
+    });
+
+    store.recordActor("workspace-1", "thread-1", "user-b");
+    store.upsert({ threadId: "thread-1", workspaceId: "workspace-1", rawPayload: {}, actorUserId: "user-c" });
+    store.markArchived("workspace-1", "thread-1");
+    expect(store.listByWorkspace("workspace-1")[0]).toMatchObject({
+      createdByUserId: "user-a",
+      updatedByUserId: "user-c"
+    });
+  });
 });
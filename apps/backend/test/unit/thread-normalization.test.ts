@@ -15,6 +15,15 @@ describe("normalizeThreadSummaries", () => {
     expect(result.map((entry) => entry.threadId)).toEqual(["thread-1", "thread-2"]);
   });
 
+  it("extracts summaries from paginated thread/list payloads", () => {
+    const result = normalizeThreadSummaries({
+      data: [{ id: "thread-3", preview: "Fix the build" }],
+      nextCursor: null
+    });
+
+    expect(result.map((entry) => entry.threadId)).toEqual(["thread-3"]);
+  });
+
   it("extracts summaries from thread/start style payloads", () => {
     const result = normalizeThreadSummaries({
       threadId: "thread-9"
@@ -2,34 +2,169 @@ import { describe, expect, it, vi } from "vitest";
 
 import { ThreadService } from "../../src/threads/service.js";
 
+function createService(
+  client: Record<string, ReturnType<typeof vi.fn>>,
+  policy: { sandboxMode: string; approvalPolicy: string },
+  worktreeService?: ConstructorParameters<typeof ThreadService>[2],
+  checkpointService?: ConstructorParameters<typeof ThreadService>[3]
+): ThreadService {
+  const runtimePool = {
+    getClient: vi.fn().mockResolvedValue(client),
+    getWorkspace: vi.fn().mockReturnValue({
+      workspaceId: "workspace-1",
+      trusted: true,
+      ...policy
+    })
+  } as unknown as ConstructorParameters<typeof ThreadService>[0];
+
+  const metadataStore = {
+    upsert: vi.fn(),
+    listByWorkspace: vi.fn().mockReturnValue([]),
+    markArchived: vi.fn()
+  } as unknown as ConstructorParameters<typeof ThreadService>[1];
+
+  return new ThreadService(runtimePool, metadataStore, worktreeService, checkpointService);
+}
+
 describe("ThreadService", () => {
-  it("enforces yolo overrides when starting threads", async () => {
+  it("enforces the workspace runtime policy when starting threads", async () => {
     const threadStart = vi.fn().mockResolvedValue({
       threadId: "thread-1"
     });
 
-    const runtimePool = {
-      getClient: vi.fn().mockResolvedValue({
-        threadStart
-      })
-    } as unknown as ConstructorParameters<typeof ThreadService>[0];
-
-    const metadataStore = {
-      upsert: vi.fn(),
-      listByWorkspace: vi.fn().mockReturnValue([]),
-      markArchived: vi.fn()
-    } as unknown as ConstructorParameters<typeof ThreadService>[1];
-
-    const service = new ThreadService(runtimePool, metadataStore);
+    const service = createService(
+      { threadStart },
+      {
+        sandboxMode: "workspace-write",
+        approvalPolicy: "on-request"
+      }
+    );
     await service.threadStart("workspace-1", {
       model: "gpt-5.1-codex",
-      approvalPolicy: "on-request"
+      approvalPolicy: "never",
+      sandbox: "danger-full-access"
     });
 
     expect(threadStart).toHaveBeenCalledWith({
       model: "gpt-5.1-codex",
+      approvalPolicy: "on-request",
+      sandbox: "workspace-write"
+    });
+  });
+
+  it("applies the workspace runtime policy when resuming threads", async () => {
+    const threadResume = vi.fn().mockResolvedValue({
+      threadId: "thread-1"
+    });
+
+    const service = createService(
+      { threadResume },
+      {
+        sandboxMode: "danger-full-access",
+        approvalPolicy: "never"
+      }
+    );
+    await service.threadResume("workspace-1", {
+      threadId: "thread-1"
+    });
+
+    expect(threadResume).toHaveBeenCalledWith({
+      threadId: "thread-1",
       approvalPolicy: "never",
       sandbox: "danger-full-access"
     });
   });
+
+  it("drops a client-supplied cwd when starting and resuming threads", async () => {
+    const threadStart = vi.fn().mockResolvedValue({ threadId: "thread-1" });
+    const threadResume = vi.fn().mockResolvedValue({ threadId: "thread-1" });
+    const service = createService(
+      { threadStart, threadResume },
+      {
+        sandboxMode: "workspace-write",
+        approvalPolicy: "on-request"
+      }
+    );
+
+    await service.threadStart("workspace-1", { model: "gpt-5.1-codex", cwd: "/etc" });
+    await service.threadResume("workspace-1", { threadId: "thread-1", cwd: "/etc" });
+
+    expect(threadStart).toHaveBeenCalledWith({
+      model: "gpt-5.1-codex",
+      approvalPolicy: "on-request",
+      sandbox: "workspace-write"
+    });
+    expect(threadResume).toHaveBeenCalledWith({
+      threadId: "thread-1",
+      approvalPolicy: "on-request",
+      sandbox: "workspace-write"
+    });
+  });
+
+  it("starts worktree threads inside their worktree and records it", async () => {
+    const pending = { path: "/repo/.poketcodex/worktrees/agent", branch: "agent", baseRef: "HEAD", baseSha: "abc" };
+    const worktreeService = {
+      createWorktree: vi.fn().mockResolvedValue(pending),
+      attachWorktree: vi.fn(),
+      discardWorktree: vi.fn(),
+      getThreadWorktree: vi.fn().mockReturnValue({ threadId: "thread-1", workspaceId: "workspace-1", ...pending })
+    };
+    const threadStart = vi.fn().mockResolvedValue({ thread: { id: "thread-1" } });
+    const threadResume = vi.fn().mockResolvedValue({ thread: { id: "thread-1" } });
+
+    const service = createService(
+      { threadStart, threadResume },
+      { sandboxMode: "workspace-write", approvalPolicy: "on-request" },
+      worktreeService as unknown as ConstructorParameters<typeof ThreadService>[2]
+    );
+    await service.threadStart("workspace-1", { model: "gpt-5.1-codex" }, { worktree: { branch: "agent" } });
+    await service.threadResume("workspace-1", { threadId: "thread-1" });
+
+    expect(worktreeService.createWorktree).toHaveBeenCalledWith("workspace-1", { branch: "agent" });
+    expect(threadStart).toHaveBeenCalledWith(expect.objectContaining({ cwd: pending.path }));
+    expect(worktreeService.attachWorktree).toHaveBeenCalledWith("workspace-1", "thread-1", pending);
+    expect(threadResume).toHaveBeenCalledWith(expect.objectContaining({ threadId: "thread-1", cwd: pending.path }));
+  });
+
+  it("discards the worktree when the thread fails to start", async () => {
+    const pending = { path: "/repo/.poketcodex/worktrees/agent", branch: "agent", baseRef: "HEAD", baseSha: "abc" };
+    const worktreeService = {
+      createWorktree: vi.fn().mockResolvedValue(pending),
+      attachWorktree: vi.fn(),
+      discardWorktree: vi.fn().mockResolvedValue(undefined)
+    };
+    const threadStart = vi.fn().mockRejectedValue(new Error("runtime unavailable"));
+
+    const service = createService(
+      { threadStart },
+      { sandboxMode: "workspace-write", approvalPolicy: "on-request" },
+      worktreeService as unknown as ConstructorParameters<typeof ThreadService>[2]
+    );
+
+    await expect(service.threadStart("workspace-1", {}, { worktree: {} })).rejects.toThrow("runtime unavailable");
+    expect(worktreeService.discardWorktree).toHaveBeenCalledWith("workspace-1", pending);
+    expect(worktreeService.attachWorktree).not.toHaveBeenCalled();
+  });
+
+  it("deletes the thread's checkpoints once it is archived and logs cleanup failures", async () => {
+    const threadArchive = vi.fn().mockResolvedValue({});
+    const checkpointService = {
+      deleteCheckpoints: vi.fn().mockRejectedValue(new Error("cannot lock ref"))
+    };
+    const log = { warn: vi.fn() };
+
+    const service = createService(
+      { threadArchive },
+      { sandboxMode: "workspace-write", approvalPolicy: "on-request" },
+      undefined,
+      checkpointService as unknown as ConstructorParameters<typeof ThreadService>[3]
+    );
+
+    await expect(service.threadArchive("workspace-1", { threadId: "thread-1" }, { log })).resolves.toEqual({});
+    expect(checkpointService.deleteCheckpoints).toHaveBeenCalledWith("workspace-1", "thread-1");
+    expect(log.warn).toHaveBeenCalledWith(
+      expect.objectContaining({ threadId: "thread-1" }),
+      "failed to delete thread checkpoints"
+    );
+  });
 });
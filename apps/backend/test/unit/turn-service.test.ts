@@ -10,23 +10,35 @@ interface MockClient {
   turnInterrupt: ReturnType<typeof vi.fn>;
 }
 
-function createService(client: MockClient): {
+function createService(
+  client: MockClient,
+  policy: { sandboxMode: string; approvalPolicy: string } = {
+    sandboxMode: "danger-full-access",
+    approvalPolicy: "never"
+  },
+  checkpointService?: ConstructorParameters<typeof TurnService>[1]
+): {
   service: TurnService;
   getClient: ReturnType<typeof vi.fn>;
 } {
   const getClient = vi.fn().mockResolvedValue(client);
   const runtimePool = {
-    getClient
+    getClient,
+    getWorkspace: vi.fn().mockReturnValue({
+      workspaceId: "workspace-1",
+      trusted: true,
+      ...policy
+    })
   } as unknown as ConstructorParameters<typeof TurnService>[0];
 
   return {
-    service: new TurnService(runtimePool),
+    service: new TurnService(runtimePool, checkpointService),
     getClient
   };
 }
 
 describe("TurnService", () => {
-  it("enforces yolo overrides for turn start requests", async () => {
+  it("enforces the full-access workspace policy for turn start requests", async () => {
     const params = {
       threadId: "thread-123",
       input: [{ type: "text", text: "hello" }],
@@ -52,6 +64,61 @@ describe("TurnService", () => {
     });
   });
 
+  it("applies restrictive workspace policies to turn start requests", async () => {
+    const params = {
+      threadId: "thread-123",
+      input: [{ type: "text", text: "hello" }],
+      approvalPolicy: "never",
+      sandboxPolicy: { type: "dangerFullAccess" }
+    };
+
+    const client: MockClient = {
+      turnStart: vi.fn().mockResolvedValue({ turn: { id: "1", status: "inProgress" } }),
+      threadResume: vi.fn(),
+      turnSteer: vi.fn(),
+      turnInterrupt: vi.fn()
+    };
+
+    const { service } = createService(client, {
+      sandboxMode: "read-only",
+      approvalPolicy: "untrusted"
+    });
+    await service.turnStart("workspace-1", params);
+
+    expect(client.turnStart).toHaveBeenCalledWith({
+      ...params,
+      approvalPolicy: "untrusted",
+      sandboxPolicy: {
+        type: "readOnly"
+      }
+    });
+  });
+
+  it("drops a client-supplied cwd from turn start requests", async () => {
+    const client: MockClient = {
+      turnStart: vi.fn().mockResolvedValue({ turn: { id: "1", status: "inProgress" } }),
+      threadResume: vi.fn(),
+      turnSteer: vi.fn(),
+      turnInterrupt: vi.fn()
+    };
+
+    const { service } = createService(client);
+    await service.turnStart("workspace-1", {
+      threadId: "thread-123",
+      input: [{ type: "text", text: "hello" }],
+      cwd: "/etc"
+    });
+
+    expect(client.turnStart).toHaveBeenCalledWith({
+      threadId: "thread-123",
+      input: [{ type: "text", text: "hello" }],
+      approvalPolicy: "never",
+      sandboxPolicy: {
+        type: "dangerFullAccess"
+      }
+    });
+  });
+
   it("retries turn start after thread resume when runtime reports thread not found", async () => {
     const params = {
       threadId: "thread-123",
@@ -75,7 +142,9 @@ describe("TurnService", () => {
     expect(client.turnStart).toHaveBeenCalledTimes(2);
     expect(client.threadResume).toHaveBeenCalledTimes(1);
     expect(client.threadResume).toHaveBeenCalledWith({
-      threadId: "thread-123"
+      threadId: "thread-123",
+      approvalPolicy: "never",
+      sandbox: "danger-full-access"
     });
     expect(client.turnStart).toHaveBeenNthCalledWith(1, {
       ...params,
@@ -96,6 +165,33 @@ describe("TurnService", () => {
     });
   });
 
+  it("applies the workspace runtime policy to the fallback thread resume", async () => {
+    const client: MockClient = {
+      turnStart: vi
+        .fn()
+        .mockRejectedValueOnce(new AppServerRpcError(-32600, "thread not found: thread-123"))
+        .mockResolvedValueOnce({ turn: { id: "2", status: "inProgress" } }),
+      threadResume: vi.fn().mockResolvedValue({ thread: { id: "thread-123" } }),
+      turnSteer: vi.fn(),
+      turnInterrupt: vi.fn()
+    };
+
+    const { service } = createService(client, {
+      sandboxMode: "read-only",
+      approvalPolicy: "untrusted"
+    });
+    await service.turnStart("workspace-1", {
+      threadId: "thread-123",
+      input: [{ type: "text", text: "hello" }]
+    });
+
+    expect(client.threadResume).toHaveBeenCalledWith({
+      threadId: "thread-123",
+      approvalPolicy: "untrusted",
+      sandbox: "read-only"
+    });
+  });
+
   it("does not resume when turn start fails for non-thread-not-found errors", async () => {
     const params = {
       threadId: "thread-123",
@@ -140,4 +236,60 @@ describe("TurnService", () => {
     expect(client.turnStart).toHaveBeenCalledTimes(1);
     expect(client.threadResume).not.toHaveBeenCalled();
   });
+
+  it("records a workspace checkpoint against the started turn", async () => {
+    const client: MockClient = {
+      turnStart: vi.fn().mockResolvedValue({ turn: { id: "turn-7", status: "inProgress" } }),
+      threadResume: vi.fn(),
+      turnSteer: vi.fn(),
+      turnInterrupt: vi.fn()
+    };
+    const checkpointService = {
+      captureCheckpoint: vi.fn().mockResolvedValue("abc123"),
+      recordCheckpoint: vi.fn().mockResolvedValue(undefined)
+    };
+
+    const { service } = createService(
+      client,
+      undefined,
+      checkpointService as unknown as ConstructorParameters<typeof TurnService>[1]
+    );
+    await service.turnStart("workspace-1", { threadId: "thread-123", input: [] });
+
+    expect(checkpointService.captureCheckpoint).toHaveBeenCalledWith("workspace-1", "thread-123");
+    expect(checkpointService.captureCheckpoint.mock.invocationCallOrder[0]).toBeLessThan(
+      client.turnStart.mock.invocationCallOrder[0] ?? 0
+    );
+    expect(checkpointService.recordCheckpoint).toHaveBeenCalledWith("workspace-1", "thread-123", "turn-7", "abc123");
+  });
+
+  it("starts the turn even when the checkpoint cannot be taken", async () => {
+    const client: MockClient = {
+      turnStart: vi.fn().mockResolvedValue({ turn: { id: "turn-7", status: "inProgress" } }),
+      threadResume: vi.fn(),
+      turnSteer: vi.fn(),
+      turnInterrupt: vi.fn()
+    };
+    const checkpointService = {
+      captureCheckpoint: vi.fn().mockRejectedValue(new Error("index.lock exists")),
+      recordCheckpoint: vi.fn()
+    };
+
+    const { service } = createService(
+      client,
+      undefined,
+      checkpointService as unknown as ConstructorParameters<typeof TurnService>[1]
+    );
+
+    const log = { warn: vi.fn() };
+
+    await expect(service.turnStart("workspace-1", { threadId: "thread-123", input: [] }, { log })).resolves.toEqual({
+      turn: { id: "turn-7", status: "inProgress" }
+    });
+    expect(checkpointService.recordCheckpoint).not.toHaveBeenCalled();
+    expect(log.warn).toHaveBeenCalledWith(
+      expect.objectContaining({ workspaceId: "workspace-1", threadId: "thread-123" }),
+      "failed to capture turn checkpoint"
+    );
+  });
 });
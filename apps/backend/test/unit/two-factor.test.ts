@@ -0,0 +1,97 @@
+import { afterEach, describe, expect, it } from "vitest";
+
+import {
+  buildOtpauthUri,
+  decodeBase32,
+  encodeBase32,
+  generateTotpCode,
+  toTimeStep,
+  verifyTotpCode
+} from "../../src/auth/totp.js";
+import { InvalidTwoFactorCodeError, TwoFactorService, TwoFactorStateError } from "../../src/auth/two-factor.js";
+import { TwoFactorStore } from "../../src/auth/two-factor-store.js";
+
+// The SHA-1 seed from RFC 6238 appendix B.
+const RFC_SECRET = encodeBase32(Buffer.from("12345678901234567890"));
+
+describe("totp", () => {
+  it("matches the RFC 6238 test vectors", () => {
+    expect(RFC_SECRET).toBe("GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ");
+    expect(decodeBase32(RFC_SECRET).toString()).toBe("12345678901234567890");
+    expect(generateTotpCode(RFC_SECRET, toTimeStep(59_000))).toBe("287082");
+    expect(generateTotpCode(RFC_SECRET, toTimeStep(1_111_111_109_000))).toBe("081804");
+  });
+
+  it("accepts one step of clock drift and rejects replayed steps", () => {
+    const now = 1_111_111_109_000;
+    const previousCode = generateTotpCode(RFC_SECRET, toTimeStep(now) - 1);
+
+    expect(verifyTotpCode(RFC_SECRET, previousCode, now)).toBe(toTimeStep(now) - 1);
+    expect(verifyTotpCode(RFC_SECRET, previousCode, now, toTimeStep(now))).toBeNull();
+    expect(verifyTotpCode(RFC_SECRET, generateTotpCode(RFC_SECRET, toTimeStep(now) - 2), now)).toBeNull();
+    expect(verifyTotpCode(RFC_SECRET, "12345", now)).toBeNull();
+  });
+
+  it("builds an otpauth URI for authenticator apps", () => {
+    const uri = new URL(buildOtpauthUri(RFC_SECRET, "alice", "PocketCodex"));
+
+    expect(uri.protocol).toBe("otpauth:");
+    expect(uri.host).toBe("totp");
+    expect(uri.pathname).toBe("/PocketCodex:alice");
+    expect(uri.searchParams.get("secret")).toBe(RFC_SECRET);
+    expect(uri.searchParams.get("issuer")).toBe("PocketCodex");
+  });
+});
+
+describe("TwoFactorService", () => {
+  const stores: TwoFactorStore[] = [];
+
+  afterEach(() => {
+    for (const store of stores.splice(0)) {
+      store.close();
+    }
+  });
+
+  function createService(now: () => number): TwoFactorService {
+    const store = new TwoFactorStore(":memory:");
+    stores.push(store);
+    return new TwoFactorService(store, now);
+  }
+
+  it("enables two-factor only after the authenticator code is confirmed", () => {
+    let now = 1_700_000_000_000;
+    const service = createService(() => now);
+
+    const { secret } = service.beginEnrollment("user-1", "alice");
+    expect(service.getStatus("user-1")).toEqual({ enabled: false, pending: true, recoveryCodesRemaining: 0 });
+    expect(() => service.confirmEnrollment("user-1", "000000")).toThrow(InvalidTwoFactorCodeError);
+
+    const recoveryCodes = service.confirmEnrollment("user-1", generateTotpCode(secret, toTimeStep(now)));
+    expect(recoveryCodes).toHaveLength(10);
+    expect(service.getStatus("user-1")).toEqual({ enabled: true, pending: false, recoveryCodesRemaining: 10 });
+    expect(() => service.beginEnrollment("user-1", "alice")).toThrow(TwoFactorStateError);
+
+    // The code used for confirmation cannot be replayed, but the next one works.
+    expect(service.verify("user-1", generateTotpCode(secret, toTimeStep(now)))).toBeNull();
+    now += 30_000;
+    expect(service.verify("user-1", generateTotpCode(secret, toTimeStep(now)))).toBe("totp");
+  });
+
+  it("consumes recovery codes and disables with a valid code", () => {
+    const now = 1_700_000_000_000;
+    const service = createService(() => now);
+    const { secret } = service.beginEnrollment("single_user", "owner");
+    const [firstRecoveryCode, secondRecoveryCode] = service.confirmEnrollment(
+      "single_user",
+      generateTotpCode(secret, toTimeStep(now))
+    );
+
+    expect(service.verify("single_user", firstRecoveryCode?.toUpperCase() ?? "")).toBe("recovery_code");
+    expect(service.verify("single_user", firstRecoveryCode ?? "")).toBeNull();
+    expect(service.getStatus("single_user").recoveryCodesRemaining).toBe(9);
+
+    expect(() => service.disable("single_user", "wrong-code")).toThrow(InvalidTwoFactorCodeError);
+    service.disable("single_user", secondRecoveryCode ?? "");
+    expect(service.getStatus("single_user")).toEqual({ enabled: false, pending: false, recoveryCodesRemaining: 0 });
+  });
+});
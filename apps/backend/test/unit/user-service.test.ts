@@ -0,0 +1,109 @@
+import { afterEach, describe, expect, it } from "vitest";
+
+import { hashPassword, verifyPassword } from "../../src/users/password.js";
+import { LastAdminError, UserService, UserValidationError } from "../../src/users/service.js";
+import { DuplicateUsernameError, UserStore } from "../../src/users/store.js";
+import type { WorkspaceService } from "../../src/workspaces/service.js";
+
+const KNOWN_WORKSPACE_IDS = new Set(["workspace-1", "workspace-2"]);
+
+function createWorkspaceServiceStub(): WorkspaceService {
+  return {
+    getWorkspaceById: (workspaceId: string) => (KNOWN_WORKSPACE_IDS.has(workspaceId) ? { workspaceId } : null)
+  } as unknown as WorkspaceService;
+}
+
+describe("password hashing", () => {
+  it("verifies the original password and rejects others", async () => {
+    const encodedHash = await hashPassword("correct horse battery staple");
+
+    expect(encodedHash.startsWith("scrypt$16384$8$1$")).toBe(true);
+    await expect(verifyPassword("correct horse battery staple", encodedHash)).resolves.toBe(true);
+    await expect(verifyPassword("wrong horse battery staple", encodedHash)).resolves.toBe(false);
+    await expect(verifyPassword("correct horse battery staple", "plain-text")).resolves.toBe(false);
+  });
+});
+
+describe("UserService", () => {
+  const stores: UserStore[] = [];
+
+  afterEach(() => {
+    for (const store of stores.splice(0)) {
+      store.close();
+    }
+  });
+
+  function createService(): UserService {
+    const store = new UserStore(":memory:");
+    stores.push(store);
+    return new UserService(store, createWorkspaceServiceStub());
+  }
+
+  it("bootstraps the configured admin only once", async () => {
+    const service = createService();
+
+    const admin = await service.bootstrapAdmin("admin", "bootstrap-password-1");
+    expect(admin?.role).toBe("admin");
+    await expect(service.bootstrapAdmin("admin", "another-password-22")).resolves.toBeNull();
+
+    await expect(service.authenticate("ADMIN", "bootstrap-password-1")).resolves.toMatchObject({
+      userId: admin?.userId
+    });
+    await expect(service.authenticate("admin", "another-password-22")).resolves.toBeNull();
+    await expect(service.authenticate("nobody", "bootstrap-password-1")).resolves.toBeNull();
+  });
+
+  it("validates new accounts and rejects duplicate usernames", async () => {
+    const service = createService();
+
+    await expect(service.createUser({ username: "-bad", password: "long-enough-password" })).rejects.toBeInstanceOf(
+      UserValidationError
+    );
+    await expect(service.createUser({ username: "alice", password: "short" })).rejects.toBeInstanceOf(
+      UserValidationError
+    );
+    await expect(
+      service.createUser({ username: "alice", password: "long-enough-password", workspaceIds: ["missing"] })
+    ).rejects.toBeInstanceOf(UserValidationError);
+
+    await service.createUser({ username: "alice", password: "long-enough-password" });
+    await expect(service.createUser({ username: "Alice", password: "long-enough-password" })).rejects.toBeInstanceOf(
+      DuplicateUsernameError
+    );
+  });
+
+  it("limits members to their granted workspaces", async () => {
+    const service = createService();
+    const admin = await service.bootstrapAdmin("admin", "bootstrap-password-1");
+    const member = await service.createUser({
+      username: "alice",
+      password: "long-enough-password",
+      workspaceIds: ["workspace-1"]
+    });
+
+    expect(member.workspaceIds).toEqual(["workspace-1"]);
+    expect(service.canAccessWorkspace(member, "workspace-1")).toBe(true);
+    expect(service.canAccessWorkspace(member, "workspace-2")).toBe(false);
+    expect(admin && service.canAccessWorkspace(admin, "workspace-2")).toBe(true);
+
+    const updated = await service.updateUser(member.userId, { workspaceIds: ["workspace-2"] });
+    expect(updated.workspaceIds).toEqual(["workspace-2"]);
+
+    service.forgetWorkspace("workspace-2");
+    expect(service.canAccessWorkspace(member, "workspace-2")).toBe(false);
+  });
+
+  it("keeps at least one admin", async () => {
+    const service = createService();
+    const admin = await service.bootstrapAdmin("admin", "bootstrap-password-1");
+    if (!admin) {
+      throw new Error("expected the admin to be created");
+    }
+
+    await expect(service.updateUser(admin.userId, { role: "member" })).rejects.toBeInstanceOf(LastAdminError);
+    expect(() => service.deleteUser(admin.userId)).toThrow(LastAdminError);
+
+    await service.createUser({ username: "second-admin", password: "long-enough-password", role: "admin" });
+    await expect(service.updateUser(admin.userId, { role: "member" })).resolves.toMatchObject({ role: "member" });
+  });
+});
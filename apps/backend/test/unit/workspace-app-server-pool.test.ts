@@ -7,9 +7,35 @@ import { afterEach, describe, expect, it } from "vitest";
 import { AppServerManager } from "../../src/codex/app-server-manager.js";
 import {
   WorkspaceAppServerPool,
-  WorkspaceNotFoundError
+  WorkspaceNotFoundError,
+  WorkspaceRuntimeLimitError,
+  computeRestartDelayMs,
+  type WorkspaceAppServerPoolOptions,
+  type WorkspaceRuntimeEvent
 } from "../../src/codex/workspace-app-server-pool.js";
 import { WorkspaceStore } from "../../src/workspaces/store.js";
+import { createTestAppServerManager } from "../helpers/create-app-server-manager.js";
+
+async function waitForEvent(
+  events: WorkspaceRuntimeEvent[],
+  predicate: (event: WorkspaceRuntimeEvent) => boolean,
+  timeoutMs = 5_000
+): Promise<WorkspaceRuntimeEvent> {
+  const deadline = Date.now() + timeoutMs;
+  while (Date.now() < deadline) {
+    const match = events.find(predicate);
+    if (match) {
+      return match;
+    }
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+
+  throw new Error("Timed out waiting for runtime event");
+}
+
+function restartPhase(event: WorkspaceRuntimeEvent): string | undefined {
+  return event.kind === "runtimeRestart" ? (event.payload as { phase?: string }).phase : undefined;
+}
 
 describe("WorkspaceAppServerPool", () => {
   const cleanupTargets: string[] = [];
@@ -78,4 +104,191 @@ describe("WorkspaceAppServerPool", () => {
 
     await expect(pool.getClient("missing")).rejects.toBeInstanceOf(WorkspaceNotFoundError);
   });
+
+  function createManagedPool(
+    options: Omit<WorkspaceAppServerPoolOptions, "workspaceStore" | "managerFactory">,
+    workspaceCount = 1
+  ) {
+    const tempRoot = fs.mkdtempSync(path.join(os.tmpdir(), "poketcodex-runtime-managed-"));
+    cleanupTargets.push(tempRoot);
+
+    const workspaceStore = new WorkspaceStore(":memory:");
+    stores.push(workspaceStore);
+    const workspaceIds = Array.from({ length: workspaceCount }, (_, index) => {
+      const workspacePath = path.join(tempRoot, `workspace-${index}`);
+      fs.mkdirSync(workspacePath);
+      return workspaceStore.create({
+        absolutePath: workspacePath,
+        displayName: `Workspace ${index}`,
+        trusted: true
+      }).workspaceId;
+    });
+
+    const managers: AppServerManager[] = [];
+    const pool = new WorkspaceAppServerPool({
+      ...options,
+      workspaceStore,
+      managerFactory: () => {
+        const manager = createTestAppServerManager({ defaultRequestTimeoutMs: 2_000 });
+        managers.push(manager);
+        return manager;
+      }
+    });
+    pools.push(pool);
+
+    const events: WorkspaceRuntimeEvent[] = [];
+    pool.subscribeToRuntimeEvents((event) => {
+      events.push(event);
+    });
+
+    return { pool, workspaceId: workspaceIds[0] ?? "", workspaceIds, managers, events };
+  }
+
+  it("restarts a crashed runtime and resumes threads that were active", async () => {
+    const { pool, workspaceId, managers, events } = createManagedPool({
+      restartPolicy: {
+        maxAttempts: 3,
+        baseDelayMs: 10,
+        maxDelayMs: 50,
+        crashWindowMs: 60_000
+      }
+    });
+
+    await pool.getClient(workspaceId);
+    const manager = managers[0];
+    if (!manager) {
+      throw new Error("Expected a runtime manager");
+    }
+
+    await manager.request("test/emit-events");
+    await manager.request("shutdown");
+
+    const recovered = await waitForEvent(events, (event) => restartPhase(event) === "recovered");
+    expect(recovered.payload).toMatchObject({ attempt: 1, maxAttempts: 3, resumedThreadIds: ["thread-1"] });
+    expect(events.map(restartPhase).filter(Boolean)).toEqual(["scheduled", "restarting", "recovered"]);
+
+    const states = events.filter((event) => event.kind === "stateChanged").map((event) => event.payload);
+    expect(states.slice(-3)).toEqual(["degraded", "restarting", "ready"]);
+    expect(managers).toHaveLength(1);
+    expect(manager.isReady()).toBe(true);
+  });
+
+  it("gives up once the crash-loop limit is reached and restarts on the next request", async () => {
+    const { pool, workspaceId, managers, events } = createManagedPool({
+      restartPolicy: {
+        maxAttempts: 0,
+        baseDelayMs: 10,
+        maxDelayMs: 50,
+        crashWindowMs: 60_000
+      }
+    });
+
+    await pool.getClient(workspaceId);
+    await managers[0]?.request("shutdown");
+
+    const gaveUp = await waitForEvent(events, (event) => restartPhase(event) === "gaveUp");
+    expect(gaveUp.payload).toMatchObject({ attempt: 0, maxAttempts: 0 });
+    expect(managers[0]?.getState()).toBe("degraded");
+
+    await pool.getClient(workspaceId);
+    expect(managers).toHaveLength(1);
+    expect(managers[0]?.isReady()).toBe(true);
+  });
+
+  it("evicts idle runtimes without subscribers or running turns", async () => {
+    let now = 0;
+    const { pool, workspaceId, events } = createManagedPool({
+      idleTimeoutMs: 1_000,
+      idleSweepIntervalMs: 60_000,
+      now: () => now
+    });
+
+    const client = await pool.getClient(workspaceId);
+    const unsubscribe = pool.subscribeToWorkspaceEvents(workspaceId, () => undefined);
+    now = 5_000;
+    expect(pool.evictIdleRuntimes()).toEqual([]);
+
+    await client.turnStart({ threadId: "thread-1", input: [], requireApproval: true });
+    await waitForEvent(events, (event) => (event.payload as { method?: string }).method === "turn/started");
+    unsubscribe();
+    now = 10_000;
+    expect(pool.evictIdleRuntimes()).toEqual([]);
+
+    pool.respondToServerRequest(workspaceId, "approval-turn-1", { result: { decision: "accept" } });
+    await waitForEvent(events, (event) => (event.payload as { method?: string }).method === "turn/completed");
+    now = 20_000;
+
+    expect(pool.evictIdleRuntimes()).toEqual([workspaceId]);
+    expect(events.find((event) => event.kind === "runtimeEvicted")?.payload).toMatchObject({ reason: "idle" });
+    await waitForEvent(events, (event) => event.kind === "stateChanged" && event.payload === "stopped");
+  });
+
+  it("evicts the least recently used runtime when the limit is reached", async () => {
+    let now = 0;
+    const { pool, workspaceIds, managers, events } = createManagedPool(
+      {
+        maxRuntimes: 2,
+        now: () => now
+      },
+      3
+    );
+    const [first = "", second = "", third = ""] = workspaceIds;
+
+    await pool.getClient(first);
+    now = 1;
+    await pool.getClient(second);
+    now = 2;
+    await pool.getClient(first);
+    now = 3;
+    await pool.getClient(third);
+
+    expect(events.find((event) => event.kind === "runtimeEvicted")).toMatchObject({
+      workspaceId: second,
+      payload: { reason: "capacity" }
+    });
+    expect(managers).toHaveLength(3);
+
+    const firstClient = await pool.getClient(first);
+    await firstClient.turnStart({ threadId: "thread-1", input: [], requireApproval: true });
+    const thirdClient = await pool.getClient(third);
+    await thirdClient.turnStart({ threadId: "thread-1", input: [], requireApproval: true });
+    await waitForEvent(
+      events,
+      (event) => event.workspaceId === third && (event.payload as { method?: string }).method === "turn/started"
+    );
+
+    await expect(pool.getClient(second)).rejects.toBeInstanceOf(WorkspaceRuntimeLimitError);
+  });
+
+  it("lists, restarts and stops workspace runtimes on demand", async () => {
+    const { pool, workspaceId, managers, events } = createManagedPool({});
+
+    expect(pool.listRuntimes()).toEqual([]);
+    expect(pool.inspectRuntime(workspaceId)).toMatchObject({ workspaceId, state: "stopped", pid: null });
+    expect(() => pool.inspectRuntime("missing")).toThrow(WorkspaceNotFoundError);
+
+    await pool.getClient(workspaceId);
+    await managers[0]?.request("test/emit-events");
+    const firstPid = pool.inspectRuntime(workspaceId).pid;
+    expect(pool.listRuntimes()).toMatchObject([{ workspaceId, state: "ready", pendingRequestCount: 0 }]);
+    expect(firstPid).toEqual(expect.any(Number));
+
+    const restarted = await pool.restartWorkspaceRuntime(workspaceId);
+    expect(restarted).toMatchObject({ state: "ready", restartPending: false });
+    expect(restarted.pid).not.toBe(firstPid);
+    expect(managers).toHaveLength(1);
+    const states = events.filter((event) => event.kind === "stateChanged").map((event) => event.payload);
+    expect(states.slice(-3)).toEqual(["stopped", "starting", "ready"]);
+
+    const stopped = await pool.stopWorkspaceRuntime(workspaceId);
+    expect(stopped).toMatchObject({ state: "stopped", pid: null, uptimeMs: null });
+    expect(pool.listRuntimes()).toEqual([]);
+    expect(managers[0]?.getState()).toBe("stopped");
+  });
+
+  it("backs off exponentially up to the configured maximum", () => {
+    const policy = { maxAttempts: 5, baseDelayMs: 1_000, maxDelayMs: 5_000, crashWindowMs: 60_000 };
+
+    expect([1, 2, 3, 4].map((attempt) => computeRestartDelayMs(policy, attempt))).toEqual([1_000, 2_000, 4_000, 5_000]);
+  });
 });
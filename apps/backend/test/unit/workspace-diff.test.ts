@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  buildUntrackedFileDiff,
+  describeDiffChunk,
+  parseNumstat,
+  splitDiffByFile,
+  truncateText
+} from "../../src/git/workspace-diff.js";
+
+describe("workspace diff helpers", () => {
+  it("parses numstat output with renames and binary files", () => {
+    const output = ["3\t1\tsrc/app.ts", "0\t0\t", "old name.txt", "new name.txt", "-\t-\tlogo.png", ""].join("\0");
+
+    expect(parseNumstat(output)).toEqual([
+      { path: "src/app.ts", originalPath: null, additions: 3, deletions: 1, binary: false },
+      { path: "new name.txt", originalPath: "old name.txt", additions: 0, deletions: 0, binary: false },
+      { path: "logo.png", originalPath: null, additions: null, deletions: null, binary: true }
+    ]);
+  });
+
+  it("splits a patch into one chunk per file", () => {
+    const diff = [
+      "diff --git a/a.txt b/a.txt",
+      "@@ -1 +1 @@",
+      "-a",
+      "+b",
+      "diff --git a/c.txt b/c.txt",
+      "@@ -1 +1 @@",
+      "-c",
+      "+d",
+      ""
+    ].join("\n");
+
+    expect(splitDiffByFile(diff)).toEqual([
+      "diff --git a/a.txt b/a.txt\n@@ -1 +1 @@\n-a\n+b\n",
+      "diff --git a/c.txt b/c.txt\n@@ -1 +1 @@\n-c\n+d\n"
+    ]);
+    expect(splitDiffByFile("")).toEqual([]);
+  });
+
+  it("truncates on line boundaries", () => {
+    expect(truncateText("one\ntwo\nthree\n", 100)).toEqual({ text: "one\ntwo\nthree\n", truncated: false });
+    expect(truncateText("one\ntwo\nthree\n", 10)).toEqual({ text: "one\ntwo\n", truncated: true });
+  });
+
+  it("builds new-file patches for untracked content", () => {
+    expect(buildUntrackedFileDiff("notes.txt", "a\nb\n", "100644")).toBe(
+      "diff --git a/notes.txt b/notes.txt\nnew file mode 100644\n--- /dev/null\n+++ b/notes.txt\n@@ -0,0 +1,2 @@\n+a\n+b\n"
+    );
+    expect(buildUntrackedFileDiff("one.txt", "only", "100644")).toContain(
+      "@@ -0,0 +1 @@\n+only\n\\ No newline at end of file\n"
+    );
+    expect(buildUntrackedFileDiff("empty.txt", "", "100644")).toBe(
+      "diff --git a/empty.txt b/empty.txt\nnew file mode 100644\n"
+    );
+  });
+
+  it("labels patches from their metadata", () => {
+    expect(describeDiffChunk("diff --git a/a b/a\nnew file mode 100644\n@@ -0,0 +1 @@\n+a\n")).toBe("Added");
+    expect(describeDiffChunk("diff --git a/a b/a\ndeleted file mode 100644\n")).toBe("Deleted");
+    expect(describeDiffChunk("diff --git a/a b/b\nsimilarity index 90%\nrename from a\nrename to b\n")).toBe(
+      "Renamed"
+    );
+    expect(describeDiffChunk("diff --git a/a b/a\n@@ -1 +1 @@\n-rename from x\n+b\n")).toBe("Modified");
+  });
+});
@@ -1,3 +1,8 @@
+import { DatabaseSync } from "node:sqlite";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
 import { afterEach, describe, expect, it } from "vitest";
 
 import { DuplicateWorkspacePathError, WorkspaceStore } from "../../src/workspaces/store.js";
@@ -47,4 +52,69 @@ describe("WorkspaceStore", () => {
       })
     ).toThrow(DuplicateWorkspacePathError);
   });
+
+  it("defaults runtime policy by trust level and persists updates", () => {
+    const store = new WorkspaceStore(":memory:");
+    stores.push(store);
+
+    const trusted = store.create({
+      absolutePath: "/tmp/workspace-trusted",
+      displayName: "Trusted",
+      trusted: true
+    });
+    const untrusted = store.create({
+      absolutePath: "/tmp/workspace-untrusted",
+      displayName: "Untrusted",
+      trusted: false
+    });
+
+    expect(trusted).toMatchObject({ sandboxMode: "danger-full-access", approvalPolicy: "never" });
+    expect(untrusted).toMatchObject({ sandboxMode: "read-only", approvalPolicy: "untrusted" });
+
+    const updated = store.update(trusted.workspaceId, {
+      sandboxMode: "workspace-write",
+      approvalPolicy: "on-request"
+    });
+    expect(updated).toMatchObject({ sandboxMode: "workspace-write", approvalPolicy: "on-request" });
+    expect(store.getById(trusted.workspaceId)).toMatchObject({
+      sandboxMode: "workspace-write",
+      approvalPolicy: "on-request"
+    });
+    expect(store.update("missing", { trusted: false })).toBeNull();
+  });
+
+  it("adds runtime policy columns to databases created before they existed", () => {
+    const tempRoot = fs.mkdtempSync(path.join(os.tmpdir(), "poketcodex-workspace-store-"));
+    const databasePath = path.join(tempRoot, "legacy.db");
+
+    try {
+      const legacyDatabase = new DatabaseSync(databasePath);
+      legacyDatabase.exec(`
+        CREATE TABLE workspaces (
+          workspace_id TEXT PRIMARY KEY,
+          absolute_path TEXT NOT NULL UNIQUE,
+          display_name TEXT NOT NULL,
+          trusted INTEGER NOT NULL DEFAULT 1,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL
+        );
+        INSERT INTO workspaces VALUES ('legacy', '/tmp/legacy', 'Legacy', 0, '2026-01-01T00:00:00.000Z', '2026-01-01T00:00:00.000Z');
+      `);
+      legacyDatabase.close();
+
+      const store = new WorkspaceStore(databasePath);
+      stores.push(store);
+
+      expect(store.getById("legacy")).toMatchObject({
+        trusted: false,
+        sandboxMode: "read-only",
+        approvalPolicy: "untrusted"
+      });
+    } finally {
+      for (const store of stores.splice(0)) {
+        store.close();
+      }
+      fs.rmSync(tempRoot, { recursive: true, force: true });
+    }
+  });
 });
@@ -1,18 +1,130 @@
+import type {
+  ReviewTarget,
+  ThreadReadResult,
+  ThreadResumeResult,
+  ThreadStartResult,
+  TurnInterruptResult,
+  TurnStartResult,
+  TurnSteerResult
+} from "@poketcodex/shared";
+
+export type AuthMode = "single_user" | "multi_user";
+
+export interface AuthUserRecord {
+  userId: string;
+  username: string;
+  role: "admin" | "member";
+}
+
 export interface AuthSessionResponse {
   authenticated: boolean;
+  authMode?: AuthMode;
   csrfToken?: string;
   expiresAt?: string;
+  user?: AuthUserRecord;
+  // Set when the password was accepted but a TOTP or recovery code is still required.
+  twoFactorRequired?: boolean;
+  challengeToken?: string;
+}
+
+export interface TwoFactorStatusRecord {
+  enabled: boolean;
+  pending: boolean;
+  recoveryCodesRemaining: number;
 }
 
+export interface TwoFactorEnrollmentRecord {
+  secret: string;
+  otpauthUri: string;
+}
+
+export interface PasskeyRecord {
+  id: string;
+  label: string;
+  createdAt: string;
+  lastUsedAt: string | null;
+}
+
+export interface PasskeyCredentialDescriptorRecord {
+  type: "public-key";
+  id: string;
+  transports: string[];
+}
+
+// WebAuthn ceremony options as JSON; binary fields are base64url strings.
+export interface PasskeyRegistrationOptionsRecord {
+  challenge: string;
+  rp: { id: string; name: string };
+  user: { id: string; name: string; displayName: string };
+  pubKeyCredParams: Array<{ type: "public-key"; alg: number }>;
+  excludeCredentials: PasskeyCredentialDescriptorRecord[];
+  authenticatorSelection: {
+    residentKey: "required";
+    requireResidentKey: boolean;
+    userVerification: "required";
+  };
+  attestation: "none";
+  timeout: number;
+}
+
+export interface PasskeyAuthenticationOptionsRecord {
+  challenge: string;
+  rpId: string;
+  allowCredentials: PasskeyCredentialDescriptorRecord[];
+  userVerification: "required";
+  timeout: number;
+}
+
+export interface PasskeyRegistrationCredential {
+  credentialId: string;
+  clientDataJSON: string;
+  authenticatorData: string;
+  publicKey: string;
+  publicKeyAlgorithm: number;
+  transports: string[];
+}
+
+export interface PasskeyAuthenticationCredential {
+  credentialId: string;
+  clientDataJSON: string;
+  authenticatorData: string;
+  signature: string;
+  userHandle: string | null;
+}
+
+export interface AuthDeviceSessionRecord {
+  id: string;
+  current: boolean;
+  userAgent: string | null;
+  createdAt: string;
+  lastSeenAt: string;
+  expiresAt: string;
+}
+
+export type SandboxMode = "read-only" | "workspace-write" | "danger-full-access";
+export type ApprovalPolicy = "untrusted" | "on-request" | "on-failure" | "never";
+
 export interface WorkspaceRecord {
   workspaceId: string;
   absolutePath: string;
   displayName: string;
   trusted: boolean;
+  sandboxMode: SandboxMode;
+  approvalPolicy: ApprovalPolicy;
   createdAt: string;
   updatedAt: string;
 }
 
+export interface ThreadWorktreeRecord {
+  threadId: string;
+  workspaceId: string;
+  path: string;
+  branch: string;
+  baseRef: string;
+  baseSha: string;
+  createdAt: string;
+}
+
 export interface ThreadMetadataRecord {
   threadId: string;
   workspaceId: string;
@@ -20,6 +132,7 @@ export interface ThreadMetadataRecord {
   archived: boolean;
   lastSeenAt: string;
   rawPayload: unknown;
+  worktree: ThreadWorktreeRecord | null;
 }
 
 export interface ThreadListResponse {
@@ -38,6 +151,7 @@ export interface GitStatusEntryRecord {
 export interface GitStatusRecord {
   enabled: boolean;
   branch: string | null;
+  upstream: string | null;
   ahead: number;
   behind: number;
   clean: boolean;
@@ -47,11 +161,281 @@ export interface GitStatusRecord {
 export interface GitDiffRecord {
   path: string;
   diff: string;
+  stagedDiff: string;
+  unstagedDiff: string;
   isUntracked: boolean;
   hasStagedChanges: boolean;
   hasUnstagedChanges: boolean;
 }
 
+export interface GitWorkspaceDiffFileRecord {
+  path: string;
+  originalPath: string | null;
+  statusLabel: string;
+  untracked: boolean;
+  binary: boolean;
+  additions: number | null;
+  deletions: number | null;
+  diff: string;
+  truncated: boolean;
+}
+
+export type GitDiffCompareTarget = "workingTree" | "head";
+
+export interface GitWorkspaceDiffRecord {
+  pathPrefix: string | null;
+  base: {
+    ref: string;
+    sha: string;
+    mergeBase: boolean;
+  } | null;
+  compare: GitDiffCompareTarget;
+  files: GitWorkspaceDiffFileRecord[];
+  additions: number;
+  deletions: number;
+  truncated: boolean;
+}
+
+export interface GitCommitRecord {
+  sha: string;
+  shortSha: string;
+  subject: string;
+  body: string;
+  authorName: string;
+  authorEmail: string;
+  authoredAt: string;
+  parents: string[];
+  files: string[];
+}
+
+export interface GitCommitDetailRecord extends GitCommitRecord {
+  diff: string;
+}
+
+export interface GitLogEntryRecord {
+  sha: string;
+  shortSha: string;
+  subject: string;
+  authorName: string;
+  authorEmail: string;
+  authoredAt: string;
+  parents: string[];
+}
+
+export interface GitLogPageRecord {
+  commits: GitLogEntryRecord[];
+  hasMore: boolean;
+}
+
+export interface GitBranchRecord {
+  name: string;
+  kind: "local" | "remote";
+  current: boolean;
+  sha: string;
+  upstream: string | null;
+  subject: string;
+  committedAt: string;
+}
+
+export interface GitBranchSwitchRecord {
+  branch: string;
+  stashed: boolean;
+  git: GitStatusRecord;
+}
+
+export interface GitCheckpointRecord {
+  threadId: string;
+  turnId: string;
+  sha: string;
+  headSha: string | null;
+  branch: string | null;
+  createdAt: string;
+}
+
+export interface GitCheckpointPreviewRecord {
+  checkpoint: GitCheckpointRecord;
+  files: GitWorkspaceDiffFileRecord[];
+  additions: number;
+  deletions: number;
+  truncated: boolean;
+  blockedReason: string | null;
+}
+
+export interface GitCheckpointRevertRecord {
+  checkpoint: GitCheckpointRecord;
+  git: GitStatusRecord;
+}
+
+export interface GitWorktreeRecord extends ThreadWorktreeRecord {
+  exists: boolean;
+  dirty: boolean;
+  unmergedCommits: number;
+}
+
+export interface GitWorktreeMergeRecord {
+  branch: string;
+  mergedInto: string | null;
+  committed: boolean;
+  merged: boolean;
+  git: GitStatusRecord;
+}
+
+export type GitChangeAction = "stage" | "unstage" | "discard";
+
+export type WorkspaceFileEntryType = "file" | "directory" | "other";
+
+export interface WorkspaceFileEntryRecord {
+  name: string;
+  path: string;
+  type: WorkspaceFileEntryType;
+  size: number | null;
+  symlink: boolean;
+  ignored: boolean;
+}
+
+export interface WorkspaceDirectoryRecord {
+  path: string;
+  entries: WorkspaceFileEntryRecord[];
+  truncated: boolean;
+}
+
+export type WorkspaceSearchMode = "content" | "path";
+
+export interface WorkspaceSearchParams {
+  query: string;
+  mode?: WorkspaceSearchMode;
+  regex?: boolean;
+  caseSensitive?: boolean;
+  include?: string[];
+  exclude?: string[];
+  maxResults?: number;
+}
+
+export interface WorkspaceSearchMatchRecord {
+  path: string;
+  line: number | null;
+  column: number | null;
+  preview: string | null;
+}
+
+export interface WorkspaceSearchRecord {
+  query: string;
+  mode: WorkspaceSearchMode;
+  matches: WorkspaceSearchMatchRecord[];
+  filesScanned: number;
+  truncated: boolean;
+}
+
+export interface WorkspaceFileRecord {
+  path: string;
+  size: number;
+  binary: boolean;
+  truncated: boolean;
+  ignored: boolean;
+  content: string;
+  modifiedAt: string;
+  hash: string;
+}
+
+export interface WorkspaceFileWriteInput {
+  path: string;
+  content: string;
+  expectedHash?: string;
+  expectedModifiedAt?: string;
+}
+
+export type TerminalSessionStatus = "running" | "exited";
+
+export interface TerminalSessionRecord {
+  id: string;
+  workspaceId: string;
+  command: string | null;
+  cwd: string;
+  pid: number | null;
+  status: TerminalSessionStatus;
+  exitCode: number | null;
+  signal: string | null;
+  error: string | null;
+  startedAt: string;
+  exitedAt: string | null;
+}
+
+export type ApprovalKind = "commandExecution" | "fileChange";
+export type ApprovalDecision = "approve" | "approve_for_session" | "deny";
+
+export interface PendingApprovalRecord {
+  requestId: string;
+  workspaceId: string;
+  method: string;
+  kind: ApprovalKind;
+  threadId: string | null;
+  turnId: string | null;
+  itemId: string | null;
+  command: string | null;
+  cwd: string | null;
+  reason: string | null;
+  createdAt: string;
+  expiresAt: string;
+}
+
+export interface ApprovalResolutionRecord {
+  requestId: string;
+  workspaceId: string;
+  method: string;
+  kind: ApprovalKind;
+  decision: ApprovalDecision;
+  reason: string | null;
+  source: "user" | "timeout";
+  resolvedAt: string;
+}
+
+export type RuntimeState = "stopped" | "starting" | "ready" | "degraded" | "restarting";
+
+export interface WorkspaceRuntimeRecord {
+  workspaceId: string;
+  state: RuntimeState;
+  pid: number | null;
+  startedAt: string | null;
+  uptimeMs: number | null;
+  pendingRequestCount: number;
+  runningTurnCount: number;
+  subscriberCount: number;
+  lastActivityAt: string | null;
+  restartPending: boolean;
+  lastError: string | null;
+  stderrTail: string[];
+}
+
+export type ReviewStatus = "running" | "completed" | "failed";
+
+export interface ReviewFindingRecord {
+  index: number;
+  title: string;
+  body: string;
+  priority: number | null;
+  confidence: number | null;
+  absolutePath: string;
+  relativePath: string | null;
+  lineStart: number;
+  lineEnd: number;
+}
+
+export interface ReviewRecord {
+  reviewId: string;
+  workspaceId: string;
+  threadId: string;
+  reviewThreadId: string;
+  turnId: string | null;
+  target: ReviewTarget;
+  status: ReviewStatus;
+  findings: ReviewFindingRecord[];
+  overallCorrectness: string | null;
+  summary: string | null;
+  error: string | null;
+  startedAt: string;
+  completedAt: string | null;
+}
+
 export class ApiClientError extends Error {
   readonly statusCode: number;
   readonly payload: unknown;
@@ -65,7 +449,7 @@ export class ApiClientError extends Error {
 }
 
 interface RequestOptions {
-  method?: "GET" | "POST" | "DELETE";
+  method?: "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
   body?: unknown;
   csrfToken?: string;
   timeoutMs?: number;
@@ -152,11 +536,38 @@ export class ApiClient {
     return payload as TResponse;
   }
 
-  async login(password: string): Promise<AuthSessionResponse> {
+  async login(password: string, username?: string): Promise<AuthSessionResponse> {
     return await this.request<AuthSessionResponse>("/api/auth/login", {
       method: "POST",
       body: {
-        password
+        password,
+        ...(username === undefined ? {} : { username })
+      }
+    });
+  }
+
+  async verifyLoginTwoFactor(challengeToken: string, code: string): Promise<AuthSessionResponse> {
+    return await this.request<AuthSessionResponse>("/api/auth/login/two-factor", {
+      method: "POST",
+      body: {
+        challengeToken,
+        code
+      }
+    });
+  }
+
+  async getPasskeyLoginOptions(): Promise<PasskeyAuthenticationOptionsRecord> {
+    return await this.request<PasskeyAuthenticationOptionsRecord>("/api/auth/login/passkey/options", {
+      method: "POST",
+      body: {}
+    });
+  }
+
+  async loginWithPasskey(credential: PasskeyAuthenticationCredential): Promise<AuthSessionResponse> {
+    return await this.request<AuthSessionResponse>("/api/auth/login/passkey", {
+      method: "POST",
+      body: {
+        credential
       }
     });
   }
@@ -165,6 +576,90 @@ export class ApiClient {
     return await this.request<AuthSessionResponse>("/api/auth/session");
   }
 
+  async listAuthSessions(): Promise<AuthDeviceSessionRecord[]> {
+    const response = await this.request<{ sessions: AuthDeviceSessionRecord[] }>("/api/auth/sessions");
+    return response.sessions;
+  }
+
+  async revokeAuthSession(sessionId: string, csrfToken: string): Promise<AuthDeviceSessionRecord> {
+    const response = await this.request<{ session: AuthDeviceSessionRecord }>(`/api/auth/sessions/${sessionId}`, {
+      method: "DELETE",
+      csrfToken
+    });
+    return response.session;
+  }
+
+  async getTwoFactorStatus(): Promise<TwoFactorStatusRecord> {
+    return await this.request<TwoFactorStatusRecord>("/api/auth/two-factor");
+  }
+
+  async enrollTwoFactor(csrfToken: string): Promise<TwoFactorEnrollmentRecord> {
+    return await this.request<TwoFactorEnrollmentRecord>("/api/auth/two-factor/enroll", {
+      method: "POST",
+      body: {},
+      csrfToken
+    });
+  }
+
+  async confirmTwoFactor(
+    code: string,
+    csrfToken: string
+  ): Promise<TwoFactorStatusRecord & { recoveryCodes: string[] }> {
+    return await this.request<TwoFactorStatusRecord & { recoveryCodes: string[] }>("/api/auth/two-factor/confirm", {
+      method: "POST",
+      body: {
+        code
+      },
+      csrfToken
+    });
+  }
+
+  async disableTwoFactor(code: string, csrfToken: string): Promise<TwoFactorStatusRecord> {
+    return await this.request<TwoFactorStatusRecord>("/api/auth/two-factor/disable", {
+      method: "POST",
+      body: {
+        code
+      },
+      csrfToken
+    });
+  }
+
+  async listPasskeys(): Promise<PasskeyRecord[]> {
+    const response = await this.request<{ passkeys: PasskeyRecord[] }>("/api/auth/passkeys");
+    return response.passkeys;
+  }
+
+  async getPasskeyRegistrationOptions(csrfToken: string): Promise<PasskeyRegistrationOptionsRecord> {
+    return await this.request<PasskeyRegistrationOptionsRecord>("/api/auth/passkeys/registration-options", {
+      method: "POST",
+      body: {},
+      csrfToken
+    });
+  }
+
+  async registerPasskey(
+    credential: PasskeyRegistrationCredential,
+    label: string,
+    csrfToken: string
+  ): Promise<PasskeyRecord> {
+    const response = await this.request<{ passkey: PasskeyRecord }>("/api/auth/passkeys", {
+      method: "POST",
+      body: {
+        label,
+        credential
+      },
+      csrfToken
+    });
+    return response.passkey;
+  }
+
+  async deletePasskey(passkeyId: string, csrfToken: string): Promise<void> {
+    await this.request<{ removed: boolean }>(`/api/auth/passkeys/${encodeURIComponent(passkeyId)}`, {
+      method: "DELETE",
+      csrfToken
+    });
+  }
+
   async logout(csrfToken: string): Promise<{ authenticated: boolean }> {
     return await this.request<{ authenticated: boolean }>("/api/auth/logout", {
       method: "POST",
@@ -191,6 +686,23 @@ export class ApiClient {
     });
   }
 
+  async updateWorkspace(
+    workspaceId: string,
+    csrfToken: string,
+    input: {
+      displayName?: string;
+      trusted?: boolean;
+      sandboxMode?: SandboxMode;
+      approvalPolicy?: ApprovalPolicy;
+    }
+  ): Promise<{ workspace: WorkspaceRecord }> {
+    return await this.request<{ workspace: WorkspaceRecord }>(`/api/workspaces/${workspaceId}`, {
+      method: "PATCH",
+      csrfToken,
+      body: input
+    });
+  }
+
   async deleteWorkspace(workspaceId: string, csrfToken: string): Promise<void> {
     await this.request<void>(`/api/workspaces/${workspaceId}`, {
       method: "DELETE",
@@ -202,8 +714,8 @@ export class ApiClient {
     return await this.request<ThreadListResponse>(`/api/workspaces/${workspaceId}/threads`);
   }
 
-  async startThread(workspaceId: string, csrfToken: string, params: Record<string, unknown>): Promise<unknown> {
-    const response = await this.request<{ result: unknown }>(`/api/workspaces/${workspaceId}/threads/start`, {
+  async startThread(workspaceId: string, csrfToken: string, params: Record<string, unknown>): Promise<ThreadStartResult> {
+    const response = await this.request<{ result: ThreadStartResult }>(`/api/workspaces/${workspaceId}/threads/start`, {
       method: "POST",
       csrfToken,
       body: params
@@ -212,8 +724,8 @@ export class ApiClient {
     return response.result;
   }
 
-  async resumeThread(workspaceId: string, csrfToken: string, params: Record<string, unknown>): Promise<unknown> {
-    const response = await this.request<{ result: unknown }>(`/api/workspaces/${workspaceId}/threads/resume`, {
+  async resumeThread(workspaceId: string, csrfToken: string, params: Record<string, unknown>): Promise<ThreadResumeResult> {
+    const response = await this.request<{ result: ThreadResumeResult }>(`/api/workspaces/${workspaceId}/threads/resume`, {
       method: "POST",
       csrfToken,
       body: params
@@ -222,8 +734,8 @@ export class ApiClient {
     return response.result;
   }
 
-  async readThread(workspaceId: string, csrfToken: string, params: Record<string, unknown>): Promise<unknown> {
-    const response = await this.request<{ result: unknown }>(`/api/workspaces/${workspaceId}/threads/read`, {
+  async readThread(workspaceId: string, csrfToken: string, params: Record<string, unknown>): Promise<ThreadReadResult> {
+    const response = await this.request<{ result: ThreadReadResult }>(`/api/workspaces/${workspaceId}/threads/read`, {
       method: "POST",
       csrfToken,
       body: params
@@ -239,8 +751,8 @@ export class ApiClient {
     options: {
       timeoutMs?: number;
     } = {}
-  ): Promise<unknown> {
-    const response = await this.request<{ result: unknown }>(`/api/workspaces/${workspaceId}/turns/start`, {
+  ): Promise<TurnStartResult> {
+    const response = await this.request<{ result: TurnStartResult }>(`/api/workspaces/${workspaceId}/turns/start`, {
       method: "POST",
       csrfToken,
       body: params,
@@ -250,8 +762,8 @@ export class ApiClient {
     return response.result;
   }
 
-  async steerTurn(workspaceId: string, csrfToken: string, params: Record<string, unknown>): Promise<unknown> {
-    const response = await this.request<{ result: unknown }>(`/api/workspaces/${workspaceId}/turns/steer`, {
+  async steerTurn(workspaceId: string, csrfToken: string, params: Record<string, unknown>): Promise<TurnSteerResult> {
+    const response = await this.request<{ result: TurnSteerResult }>(`/api/workspaces/${workspaceId}/turns/steer`, {
       method: "POST",
       csrfToken,
       body: params
@@ -260,8 +772,8 @@ export class ApiClient {
     return response.result;
   }
 
-  async interruptTurn(workspaceId: string, csrfToken: string, params: Record<string, unknown>): Promise<unknown> {
-    const response = await this.request<{ result: unknown }>(
+  async interruptTurn(workspaceId: string, csrfToken: string, params: Record<string, unknown>): Promise<TurnInterruptResult> {
+    const response = await this.request<{ result: TurnInterruptResult }>(
       `/api/workspaces/${workspaceId}/turns/interrupt`,
       {
         method: "POST",
@@ -285,4 +797,408 @@ export class ApiClient {
     );
     return response.git;
   }
+
+  async getWorkspaceGitWorkspaceDiff(
+    workspaceId: string,
+    options: {
+      pathPrefix?: string;
+      base?: string;
+      mergeBase?: boolean;
+      compare?: GitDiffCompareTarget;
+    } = {}
+  ): Promise<GitWorkspaceDiffRecord> {
+    const query = new URLSearchParams();
+    if (options.pathPrefix !== undefined) {
+      query.set("path", options.pathPrefix);
+    }
+    if (options.base !== undefined) {
+      query.set("base", options.base);
+    }
+    if (options.mergeBase !== undefined) {
+      query.set("mergeBase", String(options.mergeBase));
+    }
+    if (options.compare !== undefined) {
+      query.set("compare", options.compare);
+    }
+
+    const queryString = query.toString();
+    const response = await this.request<{ git: GitWorkspaceDiffRecord }>(
+      `/api/workspaces/${workspaceId}/git/workspace-diff${queryString.length > 0 ? `?${queryString}` : ""}`
+    );
+    return response.git;
+  }
+
+  async applyWorkspaceGitChange(
+    workspaceId: string,
+    csrfToken: string,
+    action: GitChangeAction,
+    input: {
+      path: string;
+      hunk?: string;
+    }
+  ): Promise<GitStatusRecord> {
+    const response = await this.request<{ git: GitStatusRecord }>(`/api/workspaces/${workspaceId}/git/${action}`, {
+      method: "POST",
+      csrfToken,
+      body: input
+    });
+    return response.git;
+  }
+
+  async commitWorkspaceChanges(
+    workspaceId: string,
+    csrfToken: string,
+    input: {
+      message: string;
+      amend?: boolean;
+    }
+  ): Promise<{ commit: GitCommitRecord; git: GitStatusRecord }> {
+    return await this.request<{ commit: GitCommitRecord; git: GitStatusRecord }>(
+      `/api/workspaces/${workspaceId}/git/commit`,
+      {
+        method: "POST",
+        csrfToken,
+        body: input
+      }
+    );
+  }
+
+  async pushWorkspaceBranch(
+    workspaceId: string,
+    csrfToken: string
+  ): Promise<{ branch: string; upstream: string; git: GitStatusRecord }> {
+    return await this.request<{ branch: string; upstream: string; git: GitStatusRecord }>(
+      `/api/workspaces/${workspaceId}/git/push`,
+      {
+        method: "POST",
+        csrfToken
+      }
+    );
+  }
+
+  async suggestCommitMessage(workspaceId: string, csrfToken: string): Promise<string> {
+    const response = await this.request<{ message: string }>(`/api/workspaces/${workspaceId}/git/commit-message`, {
+      method: "POST",
+      csrfToken
+    });
+    return response.message;
+  }
+
+  async listWorkspaceGitBranches(workspaceId: string): Promise<GitBranchRecord[]> {
+    const response = await this.request<{ branches: GitBranchRecord[] }>(
+      `/api/workspaces/${workspaceId}/git/branches`
+    );
+    return response.branches;
+  }
+
+  async createWorkspaceGitBranch(
+    workspaceId: string,
+    csrfToken: string,
+    input: {
+      name: string;
+      startPoint?: string;
+      checkout?: boolean;
+      stash?: boolean;
+    }
+  ): Promise<GitBranchSwitchRecord> {
+    return await this.request<GitBranchSwitchRecord>(`/api/workspaces/${workspaceId}/git/branches`, {
+      method: "POST",
+      csrfToken,
+      body: input
+    });
+  }
+
+  async switchWorkspaceGitBranch(
+    workspaceId: string,
+    csrfToken: string,
+    input: {
+      branch: string;
+      stash?: boolean;
+    }
+  ): Promise<GitBranchSwitchRecord> {
+    return await this.request<GitBranchSwitchRecord>(`/api/workspaces/${workspaceId}/git/switch`, {
+      method: "POST",
+      csrfToken,
+      body: input
+    });
+  }
+
+  async getWorkspaceGitLog(
+    workspaceId: string,
+    options: {
+      ref?: string;
+      skip?: number;
+      limit?: number;
+    } = {}
+  ): Promise<GitLogPageRecord> {
+    const query = new URLSearchParams();
+    if (options.ref !== undefined) {
+      query.set("ref", options.ref);
+    }
+    if (options.skip !== undefined) {
+      query.set("skip", String(options.skip));
+    }
+    if (options.limit !== undefined) {
+      query.set("limit", String(options.limit));
+    }
+
+    const queryString = query.toString();
+    return await this.request<GitLogPageRecord>(
+      `/api/workspaces/${workspaceId}/git/log${queryString.length > 0 ? `?${queryString}` : ""}`
+    );
+  }
+
+  async getWorkspaceGitCommit(workspaceId: string, sha: string): Promise<GitCommitDetailRecord> {
+    const response = await this.request<{ commit: GitCommitDetailRecord }>(
+      `/api/workspaces/${workspaceId}/git/commits/${encodeURIComponent(sha)}`
+    );
+    return response.commit;
+  }
+
+  async listWorkspaceGitCheckpoints(workspaceId: string, threadId: string): Promise<GitCheckpointRecord[]> {
+    const response = await this.request<{ checkpoints: GitCheckpointRecord[] }>(
+      `/api/workspaces/${workspaceId}/git/checkpoints?${new URLSearchParams({ threadId }).toString()}`
+    );
+    return response.checkpoints;
+  }
+
+  async getWorkspaceGitCheckpointPreview(
+    workspaceId: string,
+    threadId: string,
+    turnId: string
+  ): Promise<GitCheckpointPreviewRecord> {
+    const response = await this.request<{ preview: GitCheckpointPreviewRecord }>(
+      `/api/workspaces/${workspaceId}/git/checkpoints/${encodeURIComponent(threadId)}/${encodeURIComponent(turnId)}/preview`
+    );
+    return response.preview;
+  }
+
+  async revertWorkspaceGitCheckpoint(
+    workspaceId: string,
+    csrfToken: string,
+    threadId: string,
+    turnId: string
+  ): Promise<GitCheckpointRevertRecord> {
+    return await this.request<GitCheckpointRevertRecord>(
+      `/api/workspaces/${workspaceId}/git/checkpoints/${encodeURIComponent(threadId)}/${encodeURIComponent(turnId)}/revert`,
+      {
+        method: "POST",
+        csrfToken
+      }
+    );
+  }
+
+  async listWorkspaceGitWorktrees(workspaceId: string): Promise<GitWorktreeRecord[]> {
+    const response = await this.request<{ worktrees: GitWorktreeRecord[] }>(
+      `/api/workspaces/${workspaceId}/git/worktrees`
+    );
+    return response.worktrees;
+  }
+
+  async mergeThreadWorktree(
+    workspaceId: string,
+    csrfToken: string,
+    threadId: string,
+    input: {
+      message?: string;
+    } = {}
+  ): Promise<GitWorktreeMergeRecord> {
+    return await this.request<GitWorktreeMergeRecord>(
+      `/api/workspaces/${workspaceId}/git/worktrees/${encodeURIComponent(threadId)}/merge`,
+      {
+        method: "POST",
+        csrfToken,
+        body: input
+      }
+    );
+  }
+
+  async removeThreadWorktree(
+    workspaceId: string,
+    csrfToken: string,
+    threadId: string,
+    input: {
+      force?: boolean;
+      deleteBranch?: boolean;
+    } = {}
+  ): Promise<ThreadWorktreeRecord> {
+    const response = await this.request<{ worktree: ThreadWorktreeRecord }>(
+      `/api/workspaces/${workspaceId}/git/worktrees/${encodeURIComponent(threadId)}/remove`,
+      {
+        method: "POST",
+        csrfToken,
+        body: input
+      }
+    );
+    return response.worktree;
+  }
+
+  async listWorkspaceFiles(workspaceId: string, relativePath = ""): Promise<WorkspaceDirectoryRecord> {
+    const query = relativePath.length > 0 ? `?${new URLSearchParams({ path: relativePath }).toString()}` : "";
+    const response = await this.request<{ directory: WorkspaceDirectoryRecord }>(
+      `/api/workspaces/${workspaceId}/files${query}`
+    );
+    return response.directory;
+  }
+
+  async readWorkspaceFile(workspaceId: string, relativePath: string): Promise<WorkspaceFileRecord> {
+    const response = await this.request<{ file: WorkspaceFileRecord }>(
+      `/api/workspaces/${workspaceId}/files/content?${new URLSearchParams({ path: relativePath }).toString()}`
+    );
+    return response.file;
+  }
+
+  async writeWorkspaceFile(
+    workspaceId: string,
+    csrfToken: string,
+    input: WorkspaceFileWriteInput
+  ): Promise<WorkspaceFileRecord> {
+    const response = await this.request<{ file: WorkspaceFileRecord }>(`/api/workspaces/${workspaceId}/files/content`, {
+      method: "PUT",
+      csrfToken,
+      body: input
+    });
+    return response.file;
+  }
+
+  async searchWorkspaceFiles(workspaceId: string, params: WorkspaceSearchParams): Promise<WorkspaceSearchRecord> {
+    const query = new URLSearchParams({ query: params.query });
+    if (params.mode !== undefined) {
+      query.set("mode", params.mode);
+    }
+    if (params.regex !== undefined) {
+      query.set("regex", String(params.regex));
+    }
+    if (params.caseSensitive !== undefined) {
+      query.set("caseSensitive", String(params.caseSensitive));
+    }
+    if (params.include && params.include.length > 0) {
+      query.set("include", params.include.join(","));
+    }
+    if (params.exclude && params.exclude.length > 0) {
+      query.set("exclude", params.exclude.join(","));
+    }
+    if (params.maxResults !== undefined) {
+      query.set("maxResults", String(params.maxResults));
+    }
+
+    const response = await this.request<{ search: WorkspaceSearchRecord }>(
+      `/api/workspaces/${workspaceId}/files/search?${query.toString()}`
+    );
+    return response.search;
+  }
+
+  async listTerminals(workspaceId: string): Promise<TerminalSessionRecord[]> {
+    const response = await this.request<{ terminals: TerminalSessionRecord[] }>(
+      `/api/workspaces/${workspaceId}/terminals`
+    );
+    return response.terminals;
+  }
+
+  async createTerminal(
+    workspaceId: string,
+    csrfToken: string,
+    input: { command?: string } = {}
+  ): Promise<TerminalSessionRecord> {
+    const response = await this.request<{ terminal: TerminalSessionRecord }>(
+      `/api/workspaces/${workspaceId}/terminals`,
+      {
+        method: "POST",
+        csrfToken,
+        body: input
+      }
+    );
+    return response.terminal;
+  }
+
+  async closeTerminal(workspaceId: string, terminalId: string, csrfToken: string): Promise<TerminalSessionRecord> {
+    const response = await this.request<{ terminal: TerminalSessionRecord }>(
+      `/api/workspaces/${workspaceId}/terminals/${terminalId}`,
+      {
+        method: "DELETE",
+        csrfToken
+      }
+    );
+    return response.terminal;
+  }
+
+  async listApprovals(workspaceId: string): Promise<PendingApprovalRecord[]> {
+    const response = await this.request<{ approvals: PendingApprovalRecord[] }>(
+      `/api/workspaces/${workspaceId}/approvals`
+    );
+    return response.approvals;
+  }
+
+  async respondToApproval(
+    workspaceId: string,
+    csrfToken: string,
+    requestId: string,
+    input: {
+      decision: ApprovalDecision;
+      reason?: string;
+    }
+  ): Promise<ApprovalResolutionRecord> {
+    const response = await this.request<{ resolution: ApprovalResolutionRecord }>(
+      `/api/workspaces/${workspaceId}/approvals/${encodeURIComponent(requestId)}`,
+      {
+        method: "POST",
+        csrfToken,
+        body: input
+      }
+    );
+    return response.resolution;
+  }
+
+  async listRuntimes(): Promise<WorkspaceRuntimeRecord[]> {
+    const response = await this.request<{ runtimes: WorkspaceRuntimeRecord[] }>("/api/runtimes");
+    return response.runtimes;
+  }
+
+  async getWorkspaceRuntime(workspaceId: string): Promise<WorkspaceRuntimeRecord> {
+    const response = await this.request<{ runtime: WorkspaceRuntimeRecord }>(`/api/workspaces/${workspaceId}/runtime`);
+    return response.runtime;
+  }
+
+  async restartWorkspaceRuntime(workspaceId: string, csrfToken: string): Promise<WorkspaceRuntimeRecord> {
+    const response = await this.request<{ runtime: WorkspaceRuntimeRecord }>(
+      `/api/workspaces/${workspaceId}/runtime/restart`,
+      {
+        method: "POST",
+        csrfToken
+      }
+    );
+    return response.runtime;
+  }
+
+  async stopWorkspaceRuntime(workspaceId: string, csrfToken: string): Promise<WorkspaceRuntimeRecord> {
+    const response = await this.request<{ runtime: WorkspaceRuntimeRecord }>(
+      `/api/workspaces/${workspaceId}/runtime/stop`,
+      {
+        method: "POST",
+        csrfToken
+      }
+    );
+    return response.runtime;
+  }
+
+  async listReviews(workspaceId: string): Promise<ReviewRecord[]> {
+    const response = await this.request<{ reviews: ReviewRecord[] }>(`/api/workspaces/${workspaceId}/reviews`);
+    return response.reviews;
+  }
+
+  async startReview(
+    workspaceId: string,
+    csrfToken: string,
+    input: {
+      target: ReviewTarget;
+      threadId?: string;
+    }
+  ): Promise<ReviewRecord> {
+    const response = await this.request<{ review: ReviewRecord }>(`/api/workspaces/${workspaceId}/reviews`, {
+      method: "POST",
+      csrfToken,
+      body: input
+    });
+    return response.review;
+  }
 }
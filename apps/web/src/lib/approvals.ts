@@ -0,0 +1,232 @@
+import type { ApprovalKind, PendingApprovalRecord } from "./api-client.js";
+import type { ApprovalCard, ApprovalCardStatus } from "../state/app-state.js";
+
+const MAX_APPROVAL_CARDS_PER_WORKSPACE = 50;
+
+const APPROVAL_METHOD_KINDS: Record<string, ApprovalKind> = {
+  "item/commandExecution/requestApproval": "commandExecution",
+  "item/fileChange/requestApproval": "fileChange",
+  execCommandApproval: "commandExecution",
+  applyPatchApproval: "fileChange"
+};
+
+export type ApprovalRuntimeUpdate =
+  | {
+      type: "requested";
+      card: ApprovalCard;
+    }
+  | {
+      type: "resolved";
+      requestId: string;
+      status: ApprovalCardStatus;
+      note: string | null;
+    }
+  | {
+      type: "runtimeStopped";
+    };
+
+function asRecord(value: unknown): Record<string, unknown> | null {
+  if (!value || typeof value !== "object") {
+    return null;
+  }
+
+  return value as Record<string, unknown>;
+}
+
+function asString(value: unknown): string | null {
+  return typeof value === "string" && value.length > 0 ? value : null;
+}
+
+function asRequestId(value: unknown): string | null {
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return String(value);
+  }
+
+  return asString(value);
+}
+
+function readCommand(value: unknown): string | null {
+  if (Array.isArray(value)) {
+    const parts = value.filter((part): part is string => typeof part === "string");
+    return parts.length > 0 ? parts.join(" ") : null;
+  }
+
+  return asString(value);
+}
+
+export function approvalCardFromRecord(record: PendingApprovalRecord): ApprovalCard {
+  return {
+    requestId: record.requestId,
+    kind: record.kind,
+    threadId: record.threadId,
+    turnId: record.turnId,
+    command: record.command,
+    cwd: record.cwd,
+    reason: record.reason,
+    expiresAt: record.expiresAt,
+    status: "pending",
+    resolutionNote: null
+  };
+}
+
+function describeResolution(payload: Record<string, unknown>): string | null {
+  const reason = asString(payload.reason);
+  if (payload.source === "timeout") {
+    return reason ?? "Timed out";
+  }
+
+  return reason;
+}
+
+export function parseApprovalRuntimeEvent(eventPayload: unknown): ApprovalRuntimeUpdate | null {
+  const envelope = asRecord(eventPayload);
+  if (!envelope || envelope.type !== "workspace_runtime_event") {
+    return null;
+  }
+
+  const event = asRecord(envelope.event);
+  const kind = asString(event?.kind);
+
+  if (kind === "stateChanged") {
+    return event?.payload === "degraded" || event?.payload === "stopped" ? { type: "runtimeStopped" } : null;
+  }
+
+  const payload = asRecord(event?.payload);
+  if (!payload) {
+    return null;
+  }
+
+  if (kind === "serverRequest") {
+    const method = asString(payload.method);
+    const approvalKind = method ? APPROVAL_METHOD_KINDS[method] : undefined;
+    const requestId = asRequestId(payload.id);
+    if (!approvalKind || !requestId) {
+      return null;
+    }
+
+    const params = asRecord(payload.params) ?? {};
+    return {
+      type: "requested",
+      card: {
+        requestId,
+        kind: approvalKind,
+        threadId: asString(params.threadId) ?? asString(params.conversationId),
+        turnId: asString(params.turnId),
+        command: readCommand(params.command),
+        cwd: asString(params.cwd),
+        reason: asString(params.reason),
+        expiresAt: null,
+        status: "pending",
+        resolutionNote: null
+      }
+    };
+  }
+
+  if (kind === "serverRequestResolved") {
+    const requestId = asRequestId(payload.requestId) ?? asRequestId(payload.id);
+    if (!requestId) {
+      return null;
+    }
+
+    return {
+      type: "resolved",
+      requestId,
+      status: payload.decision === "deny" ? "denied" : "approved",
+      note: describeResolution(payload)
+    };
+  }
+
+  return null;
+}
+
+export function upsertApprovalCard(cards: ApprovalCard[], incoming: ApprovalCard): ApprovalCard[] {
+  const index = cards.findIndex((card) => card.requestId === incoming.requestId);
+  if (index === -1) {
+    return [...cards, incoming].slice(-MAX_APPROVAL_CARDS_PER_WORKSPACE);
+  }
+
+  const existing = cards[index];
+  if (existing && existing.status !== "pending" && existing.status !== "submitting") {
+    return cards;
+  }
+
+  const nextCards = [...cards];
+  nextCards[index] = {
+    ...incoming,
+    expiresAt: incoming.expiresAt ?? existing?.expiresAt ?? null,
+    status: existing?.status ?? incoming.status
+  };
+  return nextCards;
+}
+
+export function setApprovalCardStatus(
+  cards: ApprovalCard[],
+  requestId: string,
+  status: ApprovalCardStatus,
+  note: string | null = null
+): ApprovalCard[] {
+  const index = cards.findIndex((card) => card.requestId === requestId);
+  const existing = cards[index];
+  if (!existing || (existing.status === status && existing.resolutionNote === note)) {
+    return cards;
+  }
+
+  const nextCards = [...cards];
+  nextCards[index] = {
+    ...existing,
+    status,
+    resolutionNote: note
+  };
+  return nextCards;
+}
+
+export function applyApprovalRuntimeUpdate(cards: ApprovalCard[], update: ApprovalRuntimeUpdate): ApprovalCard[] {
+  if (update.type === "requested") {
+    return upsertApprovalCard(cards, update.card);
+  }
+
+  if (update.type === "resolved") {
+    return setApprovalCardStatus(cards, update.requestId, update.status, update.note);
+  }
+
+  if (!cards.some((card) => card.status === "pending" || card.status === "submitting")) {
+    return cards;
+  }
+
+  return cards.map((card) =>
+    card.status === "pending" || card.status === "submitting"
+      ? {
+          ...card,
+          status: "expired",
+          resolutionNote: "Runtime stopped before a decision was sent"
+        }
+      : card
+  );
+}
+
+export function mergePendingApprovals(cards: ApprovalCard[], records: PendingApprovalRecord[]): ApprovalCard[] {
+  const pendingIds = new Set(records.map((record) => record.requestId));
+  let nextCards = cards.map((card) =>
+    card.status === "pending" && !pendingIds.has(card.requestId)
+      ? {
+          ...card,
+          status: "expired" as const,
+          resolutionNote: "No longer pending"
+        }
+      : card
+  );
+
+  for (const record of records) {
+    nextCards = upsertApprovalCard(nextCards, approvalCardFromRecord(record));
+  }
+
+  return nextCards;
+}
+
+export function approvalCardsForThread(cards: ApprovalCard[] | undefined, threadId: string): ApprovalCard[] {
+  if (!cards) {
+    return [];
+  }
+
+  return cards.filter((card) => card.threadId === null || card.threadId === threadId);
+}
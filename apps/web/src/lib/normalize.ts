@@ -5,6 +5,8 @@ export interface ThreadListItem {
   title: string;
   archived: boolean;
   lastSeenAt: string | null;
+  /** Branch of the git worktree the thread runs in, when it has its own. */
+  worktreeBranch?: string;
 }
 
 export interface FormatWorkspaceEventOptions {
@@ -96,7 +98,8 @@ function mapMetadataThread(record: ThreadMetadataRecord): ThreadListItem {
     threadId: record.threadId,
     title: record.title || record.threadId,
     archived: record.archived,
-    lastSeenAt: normalizeThreadTimestamp(record.lastSeenAt)
+    lastSeenAt: normalizeThreadTimestamp(record.lastSeenAt),
+    ...(record.worktree ? { worktreeBranch: record.worktree.branch } : {})
   };
 }
 
@@ -224,7 +227,9 @@ function parseRuntimeEventShape(eventPayload: unknown): RuntimeEventShape {
 
   const rawPayload = envelope.event?.payload;
   const payloadObject = rawPayload && typeof rawPayload === "object" ? (rawPayload as Record<string, unknown>) : null;
-  const method = payloadObject && typeof payloadObject.method === "string" ? payloadObject.method : null;
+  // Schema drift reports name the offending method but are not themselves runtime messages.
+  const method =
+    kind !== "schemaDrift" && payloadObject && typeof payloadObject.method === "string" ? payloadObject.method : null;
   const params = method ? payloadObject?.params : rawPayload;
 
   return {
@@ -236,6 +241,47 @@ function parseRuntimeEventShape(eventPayload: unknown): RuntimeEventShape {
   };
 }
 
+function formatRuntimeRestart(payload: unknown): string {
+  const restart = payload && typeof payload === "object" ? (payload as Record<string, unknown>) : {};
+  const attempt = typeof restart.attempt === "number" && restart.attempt > 0 ? restart.attempt : null;
+  const maxAttempts = typeof restart.maxAttempts === "number" ? restart.maxAttempts : null;
+  const attemptLabel = attempt === null ? "" : maxAttempts === null ? ` (attempt ${attempt})` : ` (attempt ${attempt}/${maxAttempts})`;
+
+  switch (restart.phase) {
+    case "scheduled": {
+      const delaySeconds = typeof restart.delayMs === "number" ? Math.max(1, Math.round(restart.delayMs / 1000)) : null;
+      return `runtime crashed; restarting${delaySeconds === null ? "" : ` in ${delaySeconds}s`}${attemptLabel}`;
+    }
+    case "restarting":
+      return `runtime restarting${attemptLabel}`;
+    case "recovered": {
+      const resumedCount = Array.isArray(restart.resumedThreadIds) ? restart.resumedThreadIds.length : 0;
+      return resumedCount > 0
+        ? `runtime recovered; resumed ${resumedCount} thread${resumedCount === 1 ? "" : "s"}`
+        : "runtime recovered";
+    }
+    case "gaveUp":
+      return `runtime kept crashing; automatic restarts stopped${attempt === null ? "" : ` after ${attempt} attempts`}`;
+    default:
+      return "runtime restart updated";
+  }
+}
+
+function formatSchemaDrift(payload: unknown): string {
+  const drift = payload && typeof payload === "object" ? (payload as Record<string, unknown>) : {};
+  const method = typeof drift.method === "string" ? drift.method : "unknown method";
+  const source = typeof drift.source === "string" ? drift.source : "message";
+  const issues = Array.isArray(drift.issues) ? drift.issues : [];
+  const firstIssue = issues[0] as { path?: unknown; message?: unknown } | undefined;
+  const issueLabel =
+    typeof firstIssue?.message === "string"
+      ? `${typeof firstIssue.path === "string" && firstIssue.path.length > 0 ? `${firstIssue.path}: ` : ""}${firstIssue.message}`
+      : null;
+  const moreLabel = issues.length > 1 ? ` (+${issues.length - 1} more)` : "";
+
+  return `schema-drift ${source} ${method}${issueLabel ? `: ${issueLabel}${moreLabel}` : ""}`;
+}
+
 function isNoiseMethod(method: string): boolean {
   return NOISE_EVENT_METHODS.has(method);
 }
@@ -423,6 +469,10 @@ export function formatWorkspaceEvent(eventPayload: unknown, options: FormatWorks
     return "[socket] received non-JSON event payload";
   }
 
+  if (baseEnvelope.type === "workspace_runtime_gap") {
+    return "[socket] missed events while disconnected; reloading thread history";
+  }
+
   if (baseEnvelope.type !== "workspace_runtime_event") {
     return "[system] event received";
   }
@@ -441,7 +491,16 @@ export function formatWorkspaceEvent(eventPayload: unknown, options: FormatWorks
 
   if (runtime.kind === "stateChanged") {
     const stateRecord = runtime.payload && typeof runtime.payload === "object" ? (runtime.payload as { state?: unknown }) : undefined;
-    return `${prefix} runtime-state ${typeof stateRecord?.state === "string" ? stateRecord.state : "updated"}`;
+    const state = typeof runtime.payload === "string" ? runtime.payload : stateRecord?.state;
+    return `${prefix} runtime-state ${typeof state === "string" ? state : "updated"}`;
+  }
+
+  if (runtime.kind === "runtimeRestart") {
+    return `${prefix} ${formatRuntimeRestart(runtime.payload)}`;
+  }
+
+  if (runtime.kind === "schemaDrift") {
+    return `${prefix} ${formatSchemaDrift(runtime.payload)}`;
   }
 
   if (runtime.kind === "stderr") {
@@ -483,6 +542,18 @@ export function normalizeWorkspaceTimelineEvent(
     };
   }
 
+  if (baseEnvelope.type === "workspace_runtime_gap") {
+    return withOptionalFields(
+      {
+        message,
+        kind: "socket",
+        category: "status",
+        isInternal: false
+      },
+      buildOptionalEventFields("workspace_events", stringifyDetails(eventPayload))
+    );
+  }
+
   if (baseEnvelope.type === "parse_error") {
     return withOptionalFields(
       {
@@ -547,6 +618,31 @@ export function normalizeWorkspaceTimelineEvent(
     );
   }
 
+  if (runtime.kind === "schemaDrift") {
+    return withOptionalFields(
+      {
+        message,
+        kind: "error",
+        category: "error",
+        isInternal: false
+      },
+      buildOptionalEventFields("schema-drift", stringifyDetails(runtime.payload))
+    );
+  }
+
+  if (runtime.kind === "runtimeRestart") {
+    const gaveUp = (runtime.payload as { phase?: unknown } | null)?.phase === "gaveUp";
+    return withOptionalFields(
+      {
+        message,
+        kind: gaveUp ? "error" : "runtime",
+        category: gaveUp ? "error" : "status",
+        isInternal: false
+      },
+      buildOptionalEventFields("runtime-restart", stringifyDetails(runtime.payload))
+    );
+  }
+
   if (runtime.kind === "stateChanged") {
     return withOptionalFields(
       {
@@ -0,0 +1,96 @@
+import type { ReviewTarget } from "@poketcodex/shared";
+
+import type { ReviewFindingRecord, ReviewRecord } from "./api-client.js";
+
+const MAX_REVIEWS_PER_WORKSPACE = 20;
+
+export type ReviewTargetType = "uncommittedChanges" | "commit" | "baseBranch";
+
+export interface LineRange {
+  start: number;
+  end: number;
+}
+
+function asRecord(value: unknown): Record<string, unknown> | null {
+  if (!value || typeof value !== "object") {
+    return null;
+  }
+
+  return value as Record<string, unknown>;
+}
+
+export function parseReviewRuntimeEvent(eventPayload: unknown): ReviewRecord | null {
+  const envelope = asRecord(eventPayload);
+  if (!envelope || envelope.type !== "workspace_runtime_event") {
+    return null;
+  }
+
+  const event = asRecord(envelope.event);
+  if (event?.kind !== "reviewUpdated") {
+    return null;
+  }
+
+  const payload = asRecord(event.payload);
+  if (!payload || typeof payload.reviewId !== "string" || !Array.isArray(payload.findings)) {
+    return null;
+  }
+
+  return payload as unknown as ReviewRecord;
+}
+
+export function upsertReview(reviews: ReviewRecord[], incoming: ReviewRecord): ReviewRecord[] {
+  const index = reviews.findIndex((review) => review.reviewId === incoming.reviewId);
+  if (index === -1) {
+    return [incoming, ...reviews].slice(0, MAX_REVIEWS_PER_WORKSPACE);
+  }
+
+  const nextReviews = [...reviews];
+  nextReviews[index] = incoming;
+  return nextReviews;
+}
+
+export function buildReviewTarget(type: ReviewTargetType, reference: string): ReviewTarget | null {
+  const trimmedReference = reference.trim();
+
+  if (type === "uncommittedChanges") {
+    return { type };
+  }
+
+  if (trimmedReference.length === 0) {
+    return null;
+  }
+
+  return type === "commit" ? { type, sha: trimmedReference } : { type, branch: trimmedReference };
+}
+
+export function describeReviewTarget(target: ReviewTarget): string {
+  switch (target.type) {
+    case "uncommittedChanges":
+      return "Uncommitted changes";
+    case "commit":
+      return `Commit ${target.sha.slice(0, 12)}`;
+    case "baseBranch":
+      return `Changes against ${target.branch}`;
+    case "custom":
+      return "Custom review";
+  }
+}
+
+export function describeFindingLocation(finding: ReviewFindingRecord): string {
+  const filePath = finding.relativePath ?? finding.absolutePath;
+  const lines = finding.lineStart === finding.lineEnd ? `${finding.lineStart}` : `${finding.lineStart}-${finding.lineEnd}`;
+  return `${filePath}:${lines}`;
+}
+
+export function hunkOverlapsRange(hunkHeader: string, range: LineRange): boolean {
+  const match = hunkHeader.match(/^@@ -\d+(?:,\d+)? \+(\d+)(?:,(\d+))? @@/);
+  if (!match) {
+    return false;
+  }
+
+  const start = Number.parseInt(match[1] ?? "0", 10);
+  const length = match[2] === undefined ? 1 : Number.parseInt(match[2], 10);
+  // A pure deletion has no new-side lines; treat it as sitting at its start line.
+  const end = start + Math.max(length, 1) - 1;
+  return start <= range.end && end >= range.start;
+}
@@ -0,0 +1,75 @@
+import type { WorkspaceRuntimeRecord } from "./api-client.js";
+
+const RUNTIME_LIFECYCLE_KINDS = new Set(["stateChanged", "runtimeRestart", "runtimeEvicted"]);
+
+function pluralize(count: number, singular: string): string {
+  return `${count} ${singular}${count === 1 ? "" : "s"}`;
+}
+
+export function formatRuntimeUptime(uptimeMs: number | null): string | null {
+  if (uptimeMs === null) {
+    return null;
+  }
+
+  const totalSeconds = Math.floor(uptimeMs / 1_000);
+  const hours = Math.floor(totalSeconds / 3_600);
+  const minutes = Math.floor((totalSeconds % 3_600) / 60);
+  const seconds = totalSeconds % 60;
+
+  if (hours > 0) {
+    return `${hours}h ${minutes}m`;
+  }
+
+  if (minutes > 0) {
+    return `${minutes}m ${seconds}s`;
+  }
+
+  return `${seconds}s`;
+}
+
+export function describeRuntimeHeadline(runtime: WorkspaceRuntimeRecord): string {
+  const parts: string[] = [runtime.state];
+  if (runtime.pid !== null) {
+    parts.push(`pid ${runtime.pid}`);
+  }
+
+  const uptime = formatRuntimeUptime(runtime.uptimeMs);
+  if (uptime) {
+    parts.push(`up ${uptime}`);
+  }
+
+  return parts.join(" · ");
+}
+
+export function describeRuntimeDetails(runtime: WorkspaceRuntimeRecord): string[] {
+  const details: string[] = [];
+
+  if (runtime.state !== "stopped") {
+    details.push(
+      `${pluralize(runtime.pendingRequestCount, "pending request")}, ${pluralize(runtime.runningTurnCount, "running turn")}`
+    );
+  }
+
+  if (runtime.restartPending) {
+    details.push("Automatic restart scheduled");
+  }
+
+  if (runtime.lastError) {
+    details.push(`Last error: ${runtime.lastError}`);
+  }
+
+  return details;
+}
+
+export function isRuntimeLifecycleEvent(eventPayload: unknown): boolean {
+  if (!eventPayload || typeof eventPayload !== "object") {
+    return false;
+  }
+
+  const envelope = eventPayload as { type?: unknown; event?: { kind?: unknown } };
+  return (
+    envelope.type === "workspace_runtime_event" &&
+    typeof envelope.event?.kind === "string" &&
+    RUNTIME_LIFECYCLE_KINDS.has(envelope.event.kind)
+  );
+}
@@ -0,0 +1,238 @@
+export type SyntaxTokenKind = "plain" | "comment" | "string" | "keyword" | "number";
+
+export interface SyntaxToken {
+  kind: SyntaxTokenKind;
+  text: string;
+}
+
+interface LanguageSpec {
+  lineComments: string[];
+  blockComment: [string, string] | null;
+  // Longest delimiters first so `"""` wins over `"`.
+  quotes: string[];
+  multilineQuotes: string[];
+  keywords: ReadonlySet<string>;
+}
+
+const JAVASCRIPT_KEYWORDS = new Set([
+  "as", "async", "await", "break", "case", "catch", "class", "const", "continue", "default", "delete", "do",
+  "else", "enum", "export", "extends", "false", "finally", "for", "from", "function", "if", "implements",
+  "import", "in", "instanceof", "interface", "let", "new", "null", "of", "private", "protected", "public",
+  "readonly", "return", "static", "super", "switch", "this", "throw", "true", "try", "type", "typeof",
+  "undefined", "var", "void", "while", "yield"
+]);
+
+const PYTHON_KEYWORDS = new Set([
+  "and", "as", "assert", "async", "await", "break", "class", "continue", "def", "del", "elif", "else", "except",
+  "False", "finally", "for", "from", "global", "if", "import", "in", "is", "lambda", "None", "nonlocal", "not",
+  "or", "pass", "raise", "return", "True", "try", "while", "with", "yield"
+]);
+
+const SHELL_KEYWORDS = new Set([
+  "case", "do", "done", "elif", "else", "esac", "export", "fi", "for", "function", "if", "in", "local", "return",
+  "then", "until", "while"
+]);
+
+const C_FAMILY_KEYWORDS = new Set([
+  "break", "case", "catch", "char", "class", "const", "continue", "default", "defer", "do", "double", "else",
+  "enum", "extern", "false", "fn", "float", "for", "func", "go", "if", "impl", "import", "int", "let", "long",
+  "match", "mod", "mut", "namespace", "new", "nil", "null", "package", "private", "protected", "pub", "public",
+  "return", "self", "static", "struct", "switch", "this", "throw", "trait", "true", "try", "type", "unsigned",
+  "use", "var", "void", "while"
+]);
+
+const DATA_KEYWORDS = new Set(["false", "null", "true", "yes", "no"]);
+
+const NO_KEYWORDS: ReadonlySet<string> = new Set();
+
+const C_LIKE = {
+  lineComments: ["//"],
+  blockComment: ["/*", "*/"] as [string, string],
+  quotes: ['"', "'"],
+  multilineQuotes: []
+};
+
+const HASH_COMMENTED = {
+  lineComments: ["#"],
+  blockComment: null,
+  quotes: ['"', "'"],
+  multilineQuotes: []
+};
+
+const LANGUAGES: Record<string, LanguageSpec> = {
+  javascript: { ...C_LIKE, multilineQuotes: ["`"], keywords: JAVASCRIPT_KEYWORDS },
+  json: { ...C_LIKE, quotes: ['"'], keywords: DATA_KEYWORDS },
+  css: { ...C_LIKE, lineComments: [], keywords: NO_KEYWORDS },
+  c: { ...C_LIKE, multilineQuotes: ["`"], keywords: C_FAMILY_KEYWORDS },
+  python: { ...HASH_COMMENTED, multilineQuotes: ['"""', "'''"], keywords: PYTHON_KEYWORDS },
+  shell: { ...HASH_COMMENTED, keywords: SHELL_KEYWORDS },
+  config: { ...HASH_COMMENTED, keywords: DATA_KEYWORDS }
+};
+
+const LANGUAGE_BY_EXTENSION: Record<string, string> = {
+  ts: "javascript",
+  tsx: "javascript",
+  mts: "javascript",
+  cts: "javascript",
+  js: "javascript",
+  jsx: "javascript",
+  mjs: "javascript",
+  cjs: "javascript",
+  json: "json",
+  jsonc: "json",
+  css: "css",
+  scss: "css",
+  less: "css",
+  c: "c",
+  h: "c",
+  cc: "c",
+  cpp: "c",
+  hpp: "c",
+  cs: "c",
+  go: "c",
+  java: "c",
+  kt: "c",
+  rs: "c",
+  swift: "c",
+  py: "python",
+  sh: "shell",
+  bash: "shell",
+  zsh: "shell",
+  yaml: "config",
+  yml: "config",
+  toml: "config"
+};
+
+const IDENTIFIER_PATTERN = /[A-Za-z_$][\w$]*/y;
+const NUMBER_PATTERN = /\d[\w.]*/y;
+
+/** Picks a highlighting language from a file path, or null when the file should be shown as plain text. */
+export function detectSyntaxLanguage(filePath: string): string | null {
+  const fileName = filePath.split("/").at(-1) ?? "";
+  const extensionIndex = fileName.lastIndexOf(".");
+  if (extensionIndex <= 0) {
+    return null;
+  }
+
+  return LANGUAGE_BY_EXTENSION[fileName.slice(extensionIndex + 1).toLowerCase()] ?? null;
+}
+
+function startsWithAny(content: string, index: number, candidates: readonly string[]): string | null {
+  for (const candidate of candidates) {
+    if (content.startsWith(candidate, index)) {
+      return candidate;
+    }
+  }
+
+  return null;
+}
+
+function findStringEnd(content: string, start: number, quote: string, multiline: boolean): number {
+  let index = start + quote.length;
+  while (index < content.length) {
+    const character = content[index];
+    if (character === "\\") {
+      index += 2;
+      continue;
+    }
+    if (character === "\n" && !multiline) {
+      return index;
+    }
+    if (content.startsWith(quote, index)) {
+      return index + quote.length;
+    }
+    index += 1;
+  }
+
+  return content.length;
+}
+
+function scanTokens(content: string, spec: LanguageSpec): SyntaxToken[] {
+  const tokens: SyntaxToken[] = [];
+  const push = (kind: SyntaxTokenKind, text: string): void => {
+    const previous = tokens.at(-1);
+    if (previous && previous.kind === kind) {
+      previous.text += text;
+    } else {
+      tokens.push({ kind, text });
+    }
+  };
+
+  let index = 0;
+  while (index < content.length) {
+    if (startsWithAny(content, index, spec.lineComments) !== null) {
+      const lineEnd = content.indexOf("\n", index);
+      const end = lineEnd === -1 ? content.length : lineEnd;
+      push("comment", content.slice(index, end));
+      index = end;
+      continue;
+    }
+
+    if (spec.blockComment && content.startsWith(spec.blockComment[0], index)) {
+      const closeIndex = content.indexOf(spec.blockComment[1], index + spec.blockComment[0].length);
+      const end = closeIndex === -1 ? content.length : closeIndex + spec.blockComment[1].length;
+      push("comment", content.slice(index, end));
+      index = end;
+      continue;
+    }
+
+    const multilineQuote = startsWithAny(content, index, spec.multilineQuotes);
+    const quote = multilineQuote ?? startsWithAny(content, index, spec.quotes);
+    if (quote !== null) {
+      const end = findStringEnd(content, index, quote, multilineQuote !== null);
+      push("string", content.slice(index, end));
+      index = end;
+      continue;
+    }
+
+    IDENTIFIER_PATTERN.lastIndex = index;
+    const identifier = IDENTIFIER_PATTERN.exec(content)?.[0];
+    if (identifier) {
+      push(spec.keywords.has(identifier) ? "keyword" : "plain", identifier);
+      index += identifier.length;
+      continue;
+    }
+
+    NUMBER_PATTERN.lastIndex = index;
+    const number = NUMBER_PATTERN.exec(content)?.[0];
+    if (number) {
+      push("number", number);
+      index += number.length;
+      continue;
+    }
+
+    push("plain", content.charAt(index));
+    index += 1;
+  }
+
+  return tokens;
+}
+
+/**
+ * Splits file content into lines of highlighted tokens. Comments and strings may span lines, so the whole
+ * file is scanned at once and the tokens are cut at line breaks afterwards.
+ */
+export function highlightSource(content: string, language: string | null): SyntaxToken[][] {
+  const spec = language === null ? undefined : LANGUAGES[language];
+  const tokens = spec ? scanTokens(content, spec) : [{ kind: "plain" as const, text: content }];
+
+  const lines: SyntaxToken[][] = [[]];
+  for (const token of tokens) {
+    const parts = token.text.split("\n");
+    parts.forEach((part, partIndex) => {
+      if (partIndex > 0) {
+        lines.push([]);
+      }
+      if (part.length > 0) {
+        lines.at(-1)?.push({ kind: token.kind, text: part });
+      }
+    });
+  }
+
+  // A trailing newline ends the last line rather than starting an empty one.
+  if (lines.length > 1 && lines.at(-1)?.length === 0 && content.endsWith("\n")) {
+    lines.pop();
+  }
+
+  return lines;
+}
@@ -0,0 +1,213 @@
+import type { TerminalSessionRecord } from "./api-client.js";
+import type { SocketConnectionState } from "./ws-reconnect.js";
+
+export type TerminalOutputStream = "stdout" | "stderr";
+export type TerminalSignalName = "SIGINT" | "SIGTERM" | "SIGKILL";
+
+export interface TerminalOutputChunk {
+  sequence: number;
+  stream: TerminalOutputStream;
+  data: string;
+}
+
+export type TerminalServerMessage =
+  | { type: "terminal_connected"; terminal: TerminalSessionRecord; truncated: boolean }
+  | ({ type: "terminal_output"; replayed?: boolean } & TerminalOutputChunk)
+  | { type: "terminal_exit"; terminal: TerminalSessionRecord }
+  | { type: "terminal_error"; message: string };
+
+export interface TerminalSocketOptions {
+  workspaceId: string;
+  terminalId: string;
+  onMessage(message: TerminalServerMessage): void;
+  onStateChange(state: SocketConnectionState): void;
+}
+
+const WS_OPEN_STATE = 1;
+const WS_CLOSING_STATE = 2;
+const MAX_TERMINAL_OUTPUT_CHARS = 200_000;
+const MAX_RECONNECT_ATTEMPTS = 5;
+
+function buildTerminalStreamUrl(workspaceId: string, terminalId: string, since: number): string {
+  const protocol = window.location.protocol === "https:" ? "wss" : "ws";
+  const query = since > 0 ? `?since=${since}` : "";
+  return `${protocol}://${window.location.host}/api/workspaces/${workspaceId}/terminals/${terminalId}/stream${query}`;
+}
+
+function parseServerMessage(rawData: string): TerminalServerMessage | null {
+  try {
+    const parsed = JSON.parse(rawData) as { type?: unknown } | null;
+    return typeof parsed?.type === "string" && parsed.type.startsWith("terminal_")
+      ? (parsed as TerminalServerMessage)
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Appends a chunk to the rendered output, merging it into the previous chunk of the same stream and
+ * dropping the oldest text once the buffer passes its character cap.
+ */
+export function appendTerminalOutput(
+  output: TerminalOutputChunk[],
+  chunk: TerminalOutputChunk,
+  maxChars = MAX_TERMINAL_OUTPUT_CHARS
+): { output: TerminalOutputChunk[]; truncated: boolean } {
+  const previous = output.at(-1);
+  // Replays after a reconnect may repeat chunks that were already appended.
+  if (previous && chunk.sequence <= previous.sequence) {
+    return { output, truncated: false };
+  }
+
+  const next =
+    previous?.stream === chunk.stream
+      ? [...output.slice(0, -1), { ...chunk, data: `${previous.data}${chunk.data}` }]
+      : [...output, chunk];
+
+  let excess = next.reduce((total, entry) => total + entry.data.length, 0) - maxChars;
+  const truncated = excess > 0;
+  while (excess > 0 && next.length > 0) {
+    const first = next[0];
+    if (!first) {
+      break;
+    }
+
+    if (first.data.length <= excess) {
+      next.shift();
+      excess -= first.data.length;
+    } else {
+      next[0] = { ...first, data: first.data.slice(excess) };
+      excess = 0;
+    }
+  }
+
+  return { output: next, truncated };
+}
+
+/**
+ * One terminal session's stream socket. Reconnects resume after the last sequence received, and the
+ * socket stays closed once the session has exited.
+ */
+export class TerminalSocket {
+  private readonly options: TerminalSocketOptions;
+  private socket: WebSocket | undefined;
+  private reconnectTimer: number | undefined;
+  private reconnectAttempts = 0;
+  private closedByUser = false;
+  private exited = false;
+  private lastSequence = 0;
+
+  constructor(options: TerminalSocketOptions) {
+    this.options = options;
+  }
+
+  get terminalId(): string {
+    return this.options.terminalId;
+  }
+
+  connect(): void {
+    this.closedByUser = false;
+    this.openSocket();
+  }
+
+  disconnect(): void {
+    this.closedByUser = true;
+
+    if (this.reconnectTimer !== undefined) {
+      window.clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = undefined;
+    }
+
+    if (this.socket && this.socket.readyState < WS_CLOSING_STATE) {
+      this.socket.close(1000, "Client disconnect");
+    }
+
+    this.socket = undefined;
+    this.options.onStateChange("disconnected");
+  }
+
+  sendInput(data: string): boolean {
+    return this.send({ type: "input", data });
+  }
+
+  sendSignal(signal: TerminalSignalName): boolean {
+    return this.send({ type: "signal", signal });
+  }
+
+  closeInput(): boolean {
+    return this.send({ type: "close_input" });
+  }
+
+  private send(payload: unknown): boolean {
+    if (!this.socket || this.socket.readyState !== WS_OPEN_STATE) {
+      return false;
+    }
+
+    this.socket.send(JSON.stringify(payload));
+    return true;
+  }
+
+  private openSocket(): void {
+    if (this.closedByUser) {
+      return;
+    }
+
+    this.options.onStateChange(this.reconnectAttempts > 0 ? "reconnecting" : "connecting");
+    const websocket = new WebSocket(
+      buildTerminalStreamUrl(this.options.workspaceId, this.options.terminalId, this.lastSequence)
+    );
+    this.socket = websocket;
+
+    websocket.onopen = () => {
+      if (this.closedByUser || this.socket !== websocket) {
+        return;
+      }
+
+      this.reconnectAttempts = 0;
+      this.options.onStateChange("connected");
+    };
+
+    websocket.onmessage = (event) => {
+      if (this.closedByUser || this.socket !== websocket) {
+        return;
+      }
+
+      const message = parseServerMessage(typeof event.data === "string" ? event.data : String(event.data));
+      if (!message) {
+        return;
+      }
+
+      if (message.type === "terminal_output") {
+        this.lastSequence = Math.max(this.lastSequence, message.sequence);
+      } else if (message.type === "terminal_exit") {
+        this.exited = true;
+      }
+      this.options.onMessage(message);
+    };
+
+    websocket.onclose = () => {
+      if (this.socket === websocket) {
+        this.socket = undefined;
+      }
+
+      if (this.closedByUser) {
+        return;
+      }
+
+      // A removed session refuses the upgrade, so give up rather than retrying forever.
+      if (this.exited || this.reconnectAttempts >= MAX_RECONNECT_ATTEMPTS) {
+        this.options.onStateChange("disconnected");
+        return;
+      }
+
+      this.reconnectAttempts += 1;
+      const delayMs = Math.min(4_000, 300 * 2 ** this.reconnectAttempts);
+      this.options.onStateChange("reconnecting");
+      this.reconnectTimer = window.setTimeout(() => {
+        this.reconnectTimer = undefined;
+        this.openSocket();
+      }, delayMs);
+    };
+  }
+}
@@ -309,6 +309,10 @@ export function parseWorkspaceRuntimeNotification(
   }
 
   const event = asRecord(envelope.event);
+  if (event?.kind === "schemaDrift") {
+    return null;
+  }
+
   const payload = asRecord(event?.payload);
   const method = asString(payload?.method);
   if (!method) {
@@ -0,0 +1,107 @@
+import type {
+  PasskeyAuthenticationCredential,
+  PasskeyAuthenticationOptionsRecord,
+  PasskeyCredentialDescriptorRecord,
+  PasskeyRegistrationCredential,
+  PasskeyRegistrationOptionsRecord
+} from "./api-client.js";
+
+export function base64UrlToBuffer(value: string): ArrayBuffer {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  const binary = atob(base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), "="));
+  const bytes = new Uint8Array(binary.length);
+  for (let index = 0; index < binary.length; index += 1) {
+    bytes[index] = binary.charCodeAt(index);
+  }
+
+  return bytes.buffer;
+}
+
+export function bufferToBase64Url(buffer: ArrayBuffer): string {
+  let binary = "";
+  for (const byte of new Uint8Array(buffer)) {
+    binary += String.fromCharCode(byte);
+  }
+
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+export function isPasskeySupported(): boolean {
+  return typeof window !== "undefined" && typeof window.PublicKeyCredential === "function" && window.isSecureContext;
+}
+
+function toCredentialDescriptor(descriptor: PasskeyCredentialDescriptorRecord): PublicKeyCredentialDescriptor {
+  return {
+    type: descriptor.type,
+    id: base64UrlToBuffer(descriptor.id),
+    transports: descriptor.transports as AuthenticatorTransport[]
+  };
+}
+
+export function toCreationOptions(options: PasskeyRegistrationOptionsRecord): PublicKeyCredentialCreationOptions {
+  return {
+    ...options,
+    challenge: base64UrlToBuffer(options.challenge),
+    user: {
+      ...options.user,
+      id: base64UrlToBuffer(options.user.id)
+    },
+    excludeCredentials: options.excludeCredentials.map(toCredentialDescriptor)
+  };
+}
+
+export function toRequestOptions(options: PasskeyAuthenticationOptionsRecord): PublicKeyCredentialRequestOptions {
+  return {
+    ...options,
+    challenge: base64UrlToBuffer(options.challenge),
+    allowCredentials: options.allowCredentials.map(toCredentialDescriptor)
+  };
+}
+
+/** Runs the browser's passkey creation prompt; resolves to null when the user dismisses it. */
+export async function createPasskeyCredential(
+  options: PasskeyRegistrationOptionsRecord
+): Promise<PasskeyRegistrationCredential | null> {
+  const credential = (await navigator.credentials.create({
+    publicKey: toCreationOptions(options)
+  })) as PublicKeyCredential | null;
+  if (!credential) {
+    return null;
+  }
+
+  const response = credential.response as AuthenticatorAttestationResponse;
+  const publicKey = response.getPublicKey();
+  if (!publicKey) {
+    throw new Error("This browser cannot export the passkey's public key");
+  }
+
+  return {
+    credentialId: bufferToBase64Url(credential.rawId),
+    clientDataJSON: bufferToBase64Url(response.clientDataJSON),
+    authenticatorData: bufferToBase64Url(response.getAuthenticatorData()),
+    publicKey: bufferToBase64Url(publicKey),
+    publicKeyAlgorithm: response.getPublicKeyAlgorithm(),
+    transports: response.getTransports()
+  };
+}
+
+/** Runs the browser's passkey sign-in prompt; resolves to null when the user dismisses it. */
+export async function getPasskeyAssertion(
+  options: PasskeyAuthenticationOptionsRecord
+): Promise<PasskeyAuthenticationCredential | null> {
+  const credential = (await navigator.credentials.get({
+    publicKey: toRequestOptions(options)
+  })) as PublicKeyCredential | null;
+  if (!credential) {
+    return null;
+  }
+
+  const response = credential.response as AuthenticatorAssertionResponse;
+  return {
+    credentialId: bufferToBase64Url(credential.rawId),
+    clientDataJSON: bufferToBase64Url(response.clientDataJSON),
+    authenticatorData: bufferToBase64Url(response.authenticatorData),
+    signature: bufferToBase64Url(response.signature),
+    userHandle: response.userHandle ? bufferToBase64Url(response.userHandle) : null
+  };
+}
@@ -10,9 +10,22 @@ const WS_OPEN_STATE = 1;
 const WS_CONNECTING_STATE = 0;
 const WS_CLOSING_STATE = 2;
 
-function buildWorkspaceEventsUrl(workspaceId: string): string {
+function buildWorkspaceEventsUrl(workspaceId: string, since: number | null): string {
   const protocol = window.location.protocol === "https:" ? "wss" : "ws";
-  return `${protocol}://${window.location.host}/api/workspaces/${workspaceId}/events`;
+  const query = since === null ? "" : `?since=${since}`;
+  return `${protocol}://${window.location.host}/api/workspaces/${workspaceId}/events${query}`;
+}
+
+function readEventSequence(payload: unknown): number | null {
+  if (!payload || typeof payload !== "object") {
+    return null;
+  }
+
+  const envelope = payload as { type?: unknown; event?: { sequence?: unknown }; latestSequence?: unknown };
+  const sequence =
+    envelope.type === "workspace_runtime_event" ? envelope.event?.sequence : envelope.latestSequence;
+
+  return typeof sequence === "number" && Number.isInteger(sequence) && sequence >= 0 ? sequence : null;
 }
 
 export class ReconnectingWorkspaceSocket {
@@ -21,6 +34,7 @@ export class ReconnectingWorkspaceSocket {
   private reconnectTimer: number | undefined;
   private reconnectAttempts = 0;
   private closedByUser = false;
+  private lastSequence: number | null = null;
 
   constructor(options: ReconnectingWorkspaceSocketOptions) {
     this.options = options;
@@ -29,6 +43,7 @@ export class ReconnectingWorkspaceSocket {
   connect(): void {
     this.closedByUser = false;
     this.reconnectAttempts = 0;
+    this.lastSequence = null;
 
     if (this.reconnectTimer !== undefined) {
       window.clearTimeout(this.reconnectTimer);
@@ -69,7 +84,9 @@ export class ReconnectingWorkspaceSocket {
     const state = this.reconnectAttempts > 0 ? "reconnecting" : "connecting";
     this.options.onStateChange(state);
 
-    const websocket = new WebSocket(buildWorkspaceEventsUrl(this.options.workspaceId));
+    // Only reconnects resume from the last sequence; a fresh connect starts from live events.
+    const since = state === "reconnecting" ? this.lastSequence : null;
+    const websocket = new WebSocket(buildWorkspaceEventsUrl(this.options.workspaceId, since));
     this.socket = websocket;
 
     websocket.onopen = () => {
@@ -90,6 +107,10 @@ export class ReconnectingWorkspaceSocket {
 
       try {
         const parsed = JSON.parse(rawData) as unknown;
+        const sequence = readEventSequence(parsed);
+        if (sequence !== null) {
+          this.lastSequence = sequence;
+        }
         this.options.onMessage(parsed);
       } catch {
         this.options.onMessage({
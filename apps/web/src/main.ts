@@ -1,4 +1,22 @@
-import { ApiClient, ApiClientError, type WorkspaceRecord } from "./lib/api-client.js";
+import {
+  ApiClient,
+  ApiClientError,
+  type ApprovalDecision,
+  type ApprovalPolicy,
+  type AuthSessionResponse,
+  type GitBranchSwitchRecord,
+  type GitChangeAction,
+  type GitStatusRecord,
+  type SandboxMode,
+  type TerminalSessionRecord,
+  type WorkspaceRecord
+} from "./lib/api-client.js";
+import {
+  applyApprovalRuntimeUpdate,
+  mergePendingApprovals,
+  parseApprovalRuntimeEvent,
+  setApprovalCardStatus
+} from "./lib/approvals.js";
 import {
   extractThreadIdFromTurnResult,
   normalizeWorkspaceTimelineEvent,
@@ -19,21 +37,36 @@ import {
   transcriptItemsFromThreadReadResult,
   upsertTranscriptItem
 } from "./lib/thread-transcript.js";
+import {
+  buildReviewTarget,
+  parseReviewRuntimeEvent,
+  upsertReview,
+  type LineRange,
+  type ReviewTargetType
+} from "./lib/reviews.js";
+import { isRuntimeLifecycleEvent } from "./lib/runtime-status.js";
+import { appendTerminalOutput, TerminalSocket, type TerminalServerMessage } from "./lib/terminal-socket.js";
+import { createPasskeyCredential, getPasskeyAssertion } from "./lib/webauthn.js";
 import { ReconnectingWorkspaceSocket } from "./lib/ws-reconnect.js";
 import type {
   AppState,
   AppStateKey,
+  ApprovalCard,
   DraftImageAttachment,
+  GitDiffMode,
+  GitReviewView,
   GitStatusEntry,
+  RuntimePanelAction,
   ThreadTranscriptHydration,
   ThreadTranscriptState,
   TimelineEventCategory,
   TimelineEventEntry,
   TimelineEventKind,
   TranscriptItem,
+  TurnCheckpointPreviewState,
   TurnExecutionPhase
 } from "./state/app-state.js";
-import { selectActiveWorkspace } from "./state/selectors.js";
+import { selectActiveWorkspace, selectSelectedThread } from "./state/selectors.js";
 import { AppStore } from "./state/store.js";
 import {
   resolveThreadSelectionForWorkspace,
@@ -502,11 +535,35 @@ function writeStorageBoolean(key: string, value: boolean): void {
 const initialState: AppState = {
   session: {
     authenticated: false,
+    authMode: null,
+    username: null,
+    twoFactorChallenge: null,
     csrfToken: null,
     busy: false,
     error: null,
     errorRetryLabel: null
   },
+  devices: {
+    loading: false,
+    revokingId: null,
+    sessions: [],
+    error: null
+  },
+  twoFactor: {
+    loading: false,
+    busy: false,
+    status: null,
+    enrollment: null,
+    recoveryCodes: [],
+    error: null
+  },
+  passkeys: {
+    loading: false,
+    busy: false,
+    removingId: null,
+    passkeys: [],
+    error: null
+  },
   workspace: {
     workspaces: [],
     selectedWorkspaceId: readStorageValue(STORAGE_SELECTED_WORKSPACE_KEY)
@@ -520,7 +577,10 @@ const initialState: AppState = {
     selectedThreadId: readStorageValue(STORAGE_SELECTED_THREAD_KEY),
     transcriptsByThreadId: {},
     runningByThreadId: {},
-    unreadByThreadId: {}
+    unreadByThreadId: {},
+    approvalsByWorkspaceId: {},
+    checkpointTurnIdsByThreadId: {},
+    checkpointPreview: null
   },
   stream: {
     socketState: "disconnected",
@@ -543,15 +603,73 @@ const initialState: AppState = {
     filesCollapsed: false,
     supported: null,
     branch: null,
+    upstream: null,
     ahead: 0,
     behind: 0,
     clean: true,
     entries: [],
     selectedPath: null,
     diff: "",
+    stagedDiff: "",
+    unstagedDiff: "",
     diffLoading: false,
+    diffMode: "file",
+    workspaceDiff: null,
+    diffBase: null,
+    focusRange: null,
+    pendingAction: null,
+    lastCommit: null,
+    view: "changes",
+    branches: [],
+    history: [],
+    historyHasMore: false,
+    historyLoading: false,
+    selectedCommitSha: null,
+    selectedCommit: null,
     error: null,
     workspaceId: null
+  },
+  runtime: {
+    workspaceId: null,
+    loading: false,
+    action: null,
+    runtime: null,
+    error: null
+  },
+  review: {
+    workspaceId: null,
+    loading: false,
+    starting: false,
+    reviews: [],
+    error: null
+  },
+  files: {
+    active: false,
+    workspaceId: null,
+    directories: {},
+    expandedPaths: [],
+    loadingPaths: [],
+    selectedPath: null,
+    file: null,
+    fileLoading: false,
+    editing: false,
+    saving: false,
+    error: null,
+    searchLoading: false,
+    search: null,
+    searchError: null
+  },
+  terminals: {
+    active: false,
+    workspaceId: null,
+    sessions: [],
+    loading: false,
+    starting: false,
+    selectedTerminalId: null,
+    output: [],
+    outputTruncated: false,
+    connection: "disconnected",
+    error: null
   }
 };
 
@@ -562,10 +680,12 @@ const renderer = new AppRenderer(dom, () => store.getState());
 
 let workspaceSocket: ReconnectingWorkspaceSocket | undefined;
 let workspaceSocketWorkspaceId: string | null = null;
+let terminalSocket: TerminalSocket | undefined;
 let renderScheduled = false;
 let eventSequence = 0;
 let runtimeEventFlushTimer: number | undefined;
 let gitStatusRefreshTimer: number | undefined;
+let runtimeStatusRefreshTimer: number | undefined;
 const pendingRuntimeEvents: Array<{
   workspaceId: string;
   message: string;
@@ -1170,19 +1290,38 @@ function setCompactStatusBursts(compactStatusBursts: boolean): void {
 }
 
 function resetGitReviewState(workspaceId: string | null): void {
+  dom.gitCommitMessageInput.value = "";
+  dom.gitCommitAmendInput.checked = false;
+  dom.gitDiffBaseInput.value = "";
   store.patchSlice("gitReview", {
     active: false,
     loading: false,
     filesCollapsed: false,
     supported: null,
     branch: null,
+    upstream: null,
     ahead: 0,
     behind: 0,
     clean: true,
     entries: [],
     selectedPath: null,
     diff: "",
+    stagedDiff: "",
+    unstagedDiff: "",
     diffLoading: false,
+    diffMode: "file",
+    workspaceDiff: null,
+    diffBase: null,
+    focusRange: null,
+    pendingAction: null,
+    lastCommit: null,
+    view: "changes",
+    branches: [],
+    history: [],
+    historyHasMore: false,
+    historyLoading: false,
+    selectedCommitSha: null,
+    selectedCommit: null,
     error: null,
     workspaceId
   });
@@ -1682,6 +1821,8 @@ async function hydrateThreadTranscript(workspaceId: string, threadId: string): P
     return;
   }
 
+  void refreshTurnCheckpoints(workspaceId, threadId);
+
   const currentTranscript = store.getState().thread.transcriptsByThreadId[threadId];
   if (currentTranscript?.hydration === "loaded") {
     setThreadUnread(threadId, false);
@@ -1938,6 +2079,10 @@ async function loadWorkspaces(): Promise<void> {
   if (nextWorkspaceId) {
     setWorkspaceExpanded(nextWorkspaceId, true);
     resetGitReviewState(nextWorkspaceId);
+    resetRuntimePanelState(nextWorkspaceId);
+    resetReviewPanelState(nextWorkspaceId);
+    resetFileBrowserState(nextWorkspaceId);
+    resetTerminalPanelState(nextWorkspaceId);
     await loadThreads(nextWorkspaceId, {
       selectThread: true,
       hydrateSelectedThread: true
@@ -1958,11 +2103,18 @@ async function loadWorkspaces(): Promise<void> {
     selectedThreadId: null,
     transcriptsByThreadId: {},
     runningByThreadId: {},
-    unreadByThreadId: {}
+    unreadByThreadId: {},
+    approvalsByWorkspaceId: {},
+    checkpointTurnIdsByThreadId: {},
+    checkpointPreview: null
   });
   setSelectedThreadId(null);
   setTurnExecutionPhase("idle");
   resetGitReviewState(null);
+  resetRuntimePanelState(null);
+  resetReviewPanelState(null);
+  resetFileBrowserState(null);
+  resetTerminalPanelState(null);
   disconnectWorkspaceEvents();
 }
 
@@ -2077,6 +2229,7 @@ async function refreshGitStatus(
       loading: false,
       supported: gitStatus.enabled,
       branch: gitStatus.branch,
+      upstream: gitStatus.upstream,
       ahead: gitStatus.ahead,
       behind: gitStatus.behind,
       clean: gitStatus.clean,
@@ -2084,6 +2237,8 @@ async function refreshGitStatus(
       filesCollapsed: mappedEntries.length === 0 ? false : wasCollapsed,
       selectedPath,
       diff: "",
+      stagedDiff: "",
+      unstagedDiff: "",
       diffLoading: false,
       error: null,
       workspaceId,
@@ -2097,7 +2252,13 @@ async function refreshGitStatus(
       return;
     }
 
-    if (selectedPath && options.autoSelectFirstFile !== false) {
+    if (options.autoSelectFirstFile === false) {
+      return;
+    }
+
+    if (store.getState().gitReview.diffMode === "all") {
+      await refreshGitWorkspaceDiff(workspaceId);
+    } else if (selectedPath) {
       await refreshGitDiff(workspaceId, selectedPath);
     }
   } catch (error: unknown) {
@@ -2113,16 +2274,25 @@ async function refreshGitStatus(
       filesCollapsed: false,
       selectedPath: null,
       diff: "",
+      stagedDiff: "",
+      unstagedDiff: "",
       diffLoading: false,
       workspaceId
     });
   }
 }
 
-async function refreshGitDiff(workspaceId: string, relativePath: string): Promise<void> {
+async function refreshGitDiff(
+  workspaceId: string,
+  relativePath: string,
+  options: {
+    focusRange?: LineRange;
+  } = {}
+): Promise<void> {
   store.patchSlice("gitReview", {
     selectedPath: relativePath,
     diffLoading: true,
+    focusRange: options.focusRange ?? null,
     error: null
   });
 
@@ -2135,6 +2305,8 @@ async function refreshGitDiff(workspaceId: string, relativePath: string): Promis
     store.patchSlice("gitReview", {
       selectedPath: gitDiff.path,
       diff: gitDiff.diff,
+      stagedDiff: gitDiff.stagedDiff,
+      unstagedDiff: gitDiff.unstagedDiff,
       diffLoading: false,
       error: null
     });
@@ -2146,11 +2318,104 @@ async function refreshGitDiff(workspaceId: string, relativePath: string): Promis
     store.patchSlice("gitReview", {
       diffLoading: false,
       diff: "",
+      stagedDiff: "",
+      unstagedDiff: "",
+      error: `Git diff failed: ${describeError(error)}`
+    });
+  }
+}
+
+async function refreshGitWorkspaceDiff(workspaceId: string): Promise<void> {
+  store.patchSlice("gitReview", {
+    diffLoading: true,
+    error: null
+  });
+
+  try {
+    const diffBase = store.getState().gitReview.diffBase;
+    const workspaceDiff = await apiClient.getWorkspaceGitWorkspaceDiff(
+      workspaceId,
+      diffBase
+        ? {
+            base: diffBase.ref,
+            mergeBase: diffBase.mergeBase,
+            compare: diffBase.includeWorkingTree ? "workingTree" : "head"
+          }
+        : {}
+    );
+    if (workspaceId !== store.getState().workspace.selectedWorkspaceId) {
+      return;
+    }
+
+    store.patchSlice("gitReview", {
+      workspaceDiff,
+      diffLoading: false
+    });
+  } catch (error: unknown) {
+    if (workspaceId !== store.getState().workspace.selectedWorkspaceId) {
+      return;
+    }
+
+    store.patchSlice("gitReview", {
+      workspaceDiff: null,
+      diffLoading: false,
       error: `Git diff failed: ${describeError(error)}`
     });
   }
 }
 
+function setGitDiffMode(diffMode: GitDiffMode): void {
+  const workspaceId = store.getState().workspace.selectedWorkspaceId;
+  store.patchSlice("gitReview", {
+    diffMode
+  });
+  if (!workspaceId) {
+    return;
+  }
+
+  const selectedPath = store.getState().gitReview.selectedPath;
+  if (diffMode === "all") {
+    void refreshGitWorkspaceDiff(workspaceId);
+  } else if (selectedPath) {
+    void refreshGitDiff(workspaceId, selectedPath);
+  }
+}
+
+function handleApplyGitDiffBase(): void {
+  const workspaceId = store.getState().workspace.selectedWorkspaceId;
+  const ref = dom.gitDiffBaseInput.value.trim();
+  if (!workspaceId) {
+    return;
+  }
+
+  if (ref.length === 0) {
+    handleClearGitDiffBase();
+    return;
+  }
+
+  store.patchSlice("gitReview", {
+    diffMode: "all",
+    diffBase: {
+      ref,
+      mergeBase: dom.gitDiffBaseMergeInput.checked,
+      includeWorkingTree: dom.gitDiffBaseUncommittedInput.checked
+    }
+  });
+  void refreshGitWorkspaceDiff(workspaceId);
+}
+
+function handleClearGitDiffBase(): void {
+  const workspaceId = store.getState().workspace.selectedWorkspaceId;
+  dom.gitDiffBaseInput.value = "";
+  store.patchSlice("gitReview", {
+    diffBase: null
+  });
+
+  if (workspaceId && store.getState().gitReview.diffMode === "all") {
+    void refreshGitWorkspaceDiff(workspaceId);
+  }
+}
+
 function scheduleGitStatusRefresh(workspaceId: string): void {
   if (gitStatusRefreshTimer !== undefined) {
     window.clearTimeout(gitStatusRefreshTimer);
@@ -2171,6 +2436,9 @@ async function openGitReview(): Promise<void> {
     return;
   }
 
+  setFileBrowserActive(false);
+  setTerminalPanelActive(false);
+
   const gitReviewState = store.getState().gitReview;
   const shouldRefresh =
     gitReviewState.workspaceId !== workspaceId ||
@@ -2182,6 +2450,9 @@ async function openGitReview(): Promise<void> {
       openAfterLoad: true,
       autoSelectFirstFile: true
     });
+    if (store.getState().gitReview.supported === true) {
+      void refreshGitBranches(workspaceId);
+    }
     return;
   }
 
@@ -2191,129 +2462,1987 @@ async function openGitReview(): Promise<void> {
   }
 
   setGitReviewActive(true);
-  if (gitReviewState.selectedPath && gitReviewState.diff.trim().length === 0) {
+  void refreshGitBranches(workspaceId);
+  if (gitReviewState.diffMode === "all") {
+    if (!gitReviewState.workspaceDiff) {
+      await refreshGitWorkspaceDiff(workspaceId);
+    }
+  } else if (gitReviewState.selectedPath && gitReviewState.diff.trim().length === 0) {
     await refreshGitDiff(workspaceId, gitReviewState.selectedPath);
   }
 }
 
-function connectWorkspaceEvents(workspaceId: string, forceReconnect = false): void {
-  if (!forceReconnect && workspaceSocket && workspaceSocketWorkspaceId === workspaceId) {
+const GIT_CHANGE_ACTION_LABELS: Record<GitChangeAction, string> = {
+  stage: "Stage",
+  unstage: "Unstage",
+  discard: "Discard"
+};
+
+async function handleGitChangeAction(action: GitChangeAction, hunk: string | null): Promise<void> {
+  const workspaceId = store.getState().workspace.selectedWorkspaceId;
+  const relativePath = store.getState().gitReview.selectedPath;
+  if (!workspaceId || !relativePath || store.getState().gitReview.pendingAction !== null) {
     return;
   }
 
-  disconnectWorkspaceEvents();
-
-  workspaceSocketWorkspaceId = workspaceId;
-  workspaceSocket = new ReconnectingWorkspaceSocket({
-    workspaceId,
-    onStateChange: (nextState) => {
-      store.patchSlice("stream", {
-        socketState: nextState
-      });
-    },
-    onMessage: (payload) => {
-      applyRuntimeNotificationToThreadState(workspaceId, payload);
-
-      const normalizedEvent = normalizeWorkspaceTimelineEvent(payload, {
-        includeNoise: store.getState().stream.showInternalEvents
-      });
+  if (action === "discard" && !window.confirm(`Discard all unstaged changes to ${relativePath}? This cannot be undone.`)) {
+    return;
+  }
 
-      if (!normalizedEvent) {
-        return;
-      }
+  clearError();
+  store.patchSlice("gitReview", {
+    pendingAction: action,
+    error: null
+  });
 
-      applyTurnSignal(normalizedEvent.turnSignal);
+  try {
+    await apiClient.applyWorkspaceGitChange(workspaceId, requireCsrfToken(), action, {
+      path: relativePath,
+      ...(hunk === null ? {} : { hunk })
+    });
+    store.patchSlice("gitReview", {
+      pendingAction: null
+    });
+    await refreshGitStatus(workspaceId, {
+      autoSelectFirstFile: true
+    });
+  } catch (error: unknown) {
+    store.patchSlice("gitReview", {
+      pendingAction: null
+    });
+    handleApiError(error, {
+      action: `${GIT_CHANGE_ACTION_LABELS[action]} ${hunk === null ? relativePath : `hunk in ${relativePath}`}`,
+      context: describeWorkspaceContext(workspaceId),
+      nextStep: "Refresh Git Review and try again"
+    });
+  }
+}
 
-      enqueueRuntimeEvent(workspaceId, normalizedEvent.message, normalizedEvent.kind, {
-        category: mapCategory(normalizedEvent.category),
-        isInternal: normalizedEvent.isInternal,
-        ...(normalizedEvent.source !== undefined ? { source: normalizedEvent.source } : {}),
-        ...(normalizedEvent.details !== undefined ? { details: normalizedEvent.details } : {})
-      });
-    }
+function applyGitStatusRecord(gitStatus: GitStatusRecord): void {
+  store.patchSlice("gitReview", {
+    branch: gitStatus.branch,
+    upstream: gitStatus.upstream,
+    ahead: gitStatus.ahead,
+    behind: gitStatus.behind,
+    clean: gitStatus.clean,
+    entries: mapGitEntries(gitStatus.entries)
   });
-
-  workspaceSocket.connect();
 }
 
-function disconnectWorkspaceEvents(): void {
-  clearRuntimeEventQueue();
-  clearBackgroundTerminalState();
-  if (gitStatusRefreshTimer !== undefined) {
-    window.clearTimeout(gitStatusRefreshTimer);
-    gitStatusRefreshTimer = undefined;
+async function handleGitCommit(): Promise<void> {
+  const workspaceId = store.getState().workspace.selectedWorkspaceId;
+  const message = dom.gitCommitMessageInput.value;
+  if (!workspaceId || store.getState().gitReview.pendingAction !== null) {
+    return;
   }
 
-  if (workspaceSocket) {
-    workspaceSocket.disconnect();
-    workspaceSocket = undefined;
+  if (message.trim().length === 0) {
+    setError("Enter a commit message first.");
+    return;
   }
 
-  workspaceSocketWorkspaceId = null;
-  store.patchSlice("stream", {
-    socketState: "disconnected"
+  const amend = dom.gitCommitAmendInput.checked;
+  clearError();
+  store.patchSlice("gitReview", {
+    pendingAction: "commit",
+    error: null
   });
-}
-
-async function initializeSession(): Promise<void> {
-  const session = await apiClient.getSession();
 
-  store.patchSlice("session", {
-    authenticated: session.authenticated,
-    csrfToken: session.csrfToken ?? null
-  });
+  try {
+    const result = await apiClient.commitWorkspaceChanges(workspaceId, requireCsrfToken(), { message, amend });
+    dom.gitCommitMessageInput.value = "";
+    dom.gitCommitAmendInput.checked = false;
+    store.patchSlice("gitReview", {
+      pendingAction: null,
+      lastCommit: result.commit
+    });
+    appendEvent(`${amend ? "Amended" : "Committed"} ${result.commit.shortSha} ${result.commit.subject}`, "system");
+    await refreshGitStatus(workspaceId, {
+      autoSelectFirstFile: true
+    });
+  } catch (error: unknown) {
+    store.patchSlice("gitReview", {
+      pendingAction: null
+    });
+    handleApiError(error, {
+      action: amend ? "Amend commit" : "Commit",
+      context: describeWorkspaceContext(workspaceId),
+      nextStep: "Check the staged files and try again"
+    });
+  }
+}
 
-  if (session.authenticated) {
-    draftCacheByContext.clear();
-    await loadWorkspaces();
+async function handleGitPush(): Promise<void> {
+  const workspaceId = store.getState().workspace.selectedWorkspaceId;
+  if (!workspaceId || store.getState().gitReview.pendingAction !== null) {
     return;
   }
 
-  resetGitReviewState(null);
-  disconnectWorkspaceEvents();
-}
+  clearError();
+  store.patchSlice("gitReview", {
+    pendingAction: "push",
+    error: null
+  });
 
-function requireCsrfToken(): string {
-  const csrfToken = store.getState().session.csrfToken;
-  if (!csrfToken) {
-    throw new Error("Missing CSRF token. Please login again.");
+  try {
+    const result = await apiClient.pushWorkspaceBranch(workspaceId, requireCsrfToken());
+    store.patchSlice("gitReview", {
+      pendingAction: null
+    });
+    applyGitStatusRecord(result.git);
+    appendEvent(`Pushed ${result.branch} to ${result.upstream}`, "system");
+  } catch (error: unknown) {
+    store.patchSlice("gitReview", {
+      pendingAction: null
+    });
+    handleApiError(error, {
+      action: "Push",
+      context: describeWorkspaceContext(workspaceId),
+      nextStep: "Check the remote credentials on the host and try again"
+    });
   }
-
-  return csrfToken;
 }
 
-async function loginWithPassword(password: string): Promise<void> {
-  const loginResponse = await apiClient.login(password);
+async function handleSuggestCommitMessage(): Promise<void> {
+  const workspaceId = store.getState().workspace.selectedWorkspaceId;
+  if (!workspaceId || store.getState().gitReview.pendingAction !== null) {
+    return;
+  }
 
-  store.patchSlice("session", {
-    authenticated: loginResponse.authenticated,
-    csrfToken: loginResponse.csrfToken ?? null
+  clearError();
+  store.patchSlice("gitReview", {
+    pendingAction: "suggestMessage",
+    error: null
   });
 
-  store.patchSlice("stream", {
-    draftPrompt: "",
-    draftImages: [],
-    imageAttachmentBusy: false,
-    events: [],
-    turnPhase: "idle",
-    turnStartedAtMs: null
-  });
-  resetGitReviewState(null);
-  draftCacheByContext.clear();
-  clearRuntimeEventQueue();
-  clearBackgroundTerminalState();
-  eventSequence = 0;
+  try {
+    const message = await apiClient.suggestCommitMessage(workspaceId, requireCsrfToken());
+    if (workspaceId === store.getState().workspace.selectedWorkspaceId) {
+      dom.gitCommitMessageInput.value = message;
+    }
+    store.patchSlice("gitReview", {
+      pendingAction: null
+    });
+  } catch (error: unknown) {
+    store.patchSlice("gitReview", {
+      pendingAction: null
+    });
+    handleApiError(error, {
+      action: "Suggest commit message",
+      context: describeWorkspaceContext(workspaceId),
+      nextStep: "Write the message by hand or try again"
+    });
+  }
+}
 
-  if (loginResponse.authenticated) {
-    await loadWorkspaces();
-    dom.loginForm.reset();
-    return;
+const GIT_HISTORY_PAGE_SIZE = 30;
+
+function isDirtyWorktreeError(error: unknown): boolean {
+  if (!(error instanceof ApiClientError) || error.statusCode !== 409) {
+    return false;
   }
 
-  throw new Error("Invalid credentials");
+  const payload = error.payload as { error?: unknown } | null;
+  return payload?.error === "dirty_worktree";
 }
 
-function buildRetryLoginAction(password: string): RetryAction {
+async function refreshGitBranches(workspaceId: string): Promise<void> {
+  try {
+    const branches = await apiClient.listWorkspaceGitBranches(workspaceId);
+    if (workspaceId !== store.getState().workspace.selectedWorkspaceId) {
+      return;
+    }
+
+    store.patchSlice("gitReview", {
+      branches
+    });
+  } catch (error: unknown) {
+    if (workspaceId !== store.getState().workspace.selectedWorkspaceId) {
+      return;
+    }
+
+    store.patchSlice("gitReview", {
+      branches: [],
+      error: `Git branches failed: ${describeError(error)}`
+    });
+  }
+}
+
+async function refreshGitHistory(
+  workspaceId: string,
+  options: {
+    append?: boolean;
+  } = {}
+): Promise<void> {
+  const append = options.append === true;
+  const skip = append ? store.getState().gitReview.history.length : 0;
+  store.patchSlice("gitReview", {
+    historyLoading: true,
+    error: null
+  });
+
+  try {
+    const page = await apiClient.getWorkspaceGitLog(workspaceId, {
+      skip,
+      limit: GIT_HISTORY_PAGE_SIZE
+    });
+    if (workspaceId !== store.getState().workspace.selectedWorkspaceId) {
+      return;
+    }
+
+    store.updateSlice("gitReview", (gitReview) => {
+      return {
+        ...gitReview,
+        history: append ? [...gitReview.history, ...page.commits] : page.commits,
+        historyHasMore: page.hasMore,
+        historyLoading: false
+      };
+    });
+  } catch (error: unknown) {
+    if (workspaceId !== store.getState().workspace.selectedWorkspaceId) {
+      return;
+    }
+
+    store.patchSlice("gitReview", {
+      historyLoading: false,
+      error: `Git history failed: ${describeError(error)}`
+    });
+  }
+}
+
+async function openGitCommit(workspaceId: string, sha: string): Promise<void> {
+  store.patchSlice("gitReview", {
+    selectedCommitSha: sha,
+    diffLoading: true,
+    error: null
+  });
+
+  try {
+    const commit = await apiClient.getWorkspaceGitCommit(workspaceId, sha);
+    if (
+      workspaceId !== store.getState().workspace.selectedWorkspaceId ||
+      store.getState().gitReview.selectedCommitSha !== sha
+    ) {
+      return;
+    }
+
+    store.patchSlice("gitReview", {
+      selectedCommit: commit,
+      diffLoading: false
+    });
+  } catch (error: unknown) {
+    if (workspaceId !== store.getState().workspace.selectedWorkspaceId) {
+      return;
+    }
+
+    store.patchSlice("gitReview", {
+      selectedCommit: null,
+      diffLoading: false,
+      error: `Git commit failed: ${describeError(error)}`
+    });
+  }
+}
+
+function setGitReviewView(view: GitReviewView): void {
+  const workspaceId = store.getState().workspace.selectedWorkspaceId;
+  store.patchSlice("gitReview", {
+    view
+  });
+
+  if (view === "history" && workspaceId) {
+    void refreshGitHistory(workspaceId);
+  }
+}
+
+async function applyGitBranchSwitch(workspaceId: string, result: GitBranchSwitchRecord): Promise<void> {
+  appendEvent(`Switched to ${result.branch}${result.stashed ? " (local changes stashed)" : ""}`, "system");
+  applyGitStatusRecord(result.git);
+  store.patchSlice("gitReview", {
+    selectedCommitSha: null,
+    selectedCommit: null
+  });
+
+  await refreshGitStatus(workspaceId, {
+    autoSelectFirstFile: true
+  });
+  await refreshGitBranches(workspaceId);
+  if (store.getState().gitReview.view === "history") {
+    await refreshGitHistory(workspaceId);
+  }
+}
+
+async function handleGitSwitchBranch(branch: string, stash = false): Promise<void> {
+  const workspaceId = store.getState().workspace.selectedWorkspaceId;
+  if (!workspaceId || branch.length === 0 || store.getState().gitReview.pendingAction !== null) {
+    return;
+  }
+
+  clearError();
+  store.patchSlice("gitReview", {
+    pendingAction: "switchBranch",
+    error: null
+  });
+
+  try {
+    const result = await apiClient.switchWorkspaceGitBranch(workspaceId, requireCsrfToken(), {
+      branch,
+      ...(stash ? { stash } : {})
+    });
+    store.patchSlice("gitReview", {
+      pendingAction: null
+    });
+    await applyGitBranchSwitch(workspaceId, result);
+  } catch (error: unknown) {
+    store.patchSlice("gitReview", {
+      pendingAction: null
+    });
+    if (!stash && isDirtyWorktreeError(error)) {
+      if (window.confirm(`Stash local changes and switch to ${branch}?`)) {
+        await handleGitSwitchBranch(branch, true);
+      }
+      return;
+    }
+
+    handleApiError(error, {
+      action: `Switch to ${branch}`,
+      context: describeWorkspaceContext(workspaceId),
+      nextStep: "Refresh Git Review and try again"
+    });
+  }
+}
+
+async function handleGitCreateBranch(name: string, stash = false): Promise<void> {
+  const workspaceId = store.getState().workspace.selectedWorkspaceId;
+  if (!workspaceId || store.getState().gitReview.pendingAction !== null) {
+    return;
+  }
+
+  clearError();
+  store.patchSlice("gitReview", {
+    pendingAction: "createBranch",
+    error: null
+  });
+
+  try {
+    const result = await apiClient.createWorkspaceGitBranch(workspaceId, requireCsrfToken(), {
+      name,
+      checkout: true,
+      ...(stash ? { stash } : {})
+    });
+    store.patchSlice("gitReview", {
+      pendingAction: null
+    });
+    await applyGitBranchSwitch(workspaceId, result);
+  } catch (error: unknown) {
+    store.patchSlice("gitReview", {
+      pendingAction: null
+    });
+    if (!stash && isDirtyWorktreeError(error)) {
+      if (window.confirm(`Stash local changes and create ${name}?`)) {
+        await handleGitCreateBranch(name, true);
+      }
+      return;
+    }
+
+    handleApiError(error, {
+      action: `Create branch ${name}`,
+      context: describeWorkspaceContext(workspaceId),
+      nextStep: "Pick a different branch name and try again"
+    });
+  }
+}
+
+function resetRuntimePanelState(workspaceId: string | null): void {
+  store.patchSlice("runtime", {
+    workspaceId,
+    loading: false,
+    action: null,
+    runtime: null,
+    error: null
+  });
+
+  if (workspaceId && dom.runtimePanel.open) {
+    void refreshWorkspaceRuntime(workspaceId);
+  }
+}
+
+async function refreshWorkspaceRuntime(workspaceId: string): Promise<void> {
+  store.patchSlice("runtime", {
+    workspaceId,
+    loading: true,
+    error: null
+  });
+
+  try {
+    const runtime = await apiClient.getWorkspaceRuntime(workspaceId);
+    if (workspaceId !== store.getState().workspace.selectedWorkspaceId) {
+      return;
+    }
+
+    store.patchSlice("runtime", {
+      workspaceId,
+      loading: false,
+      runtime,
+      error: null
+    });
+  } catch (error: unknown) {
+    if (workspaceId !== store.getState().workspace.selectedWorkspaceId) {
+      return;
+    }
+
+    store.patchSlice("runtime", {
+      workspaceId,
+      loading: false,
+      runtime: null,
+      error: `Runtime status failed: ${describeError(error)}`
+    });
+  }
+}
+
+function scheduleRuntimeStatusRefresh(workspaceId: string): void {
+  if (!dom.runtimePanel.open) {
+    return;
+  }
+
+  if (runtimeStatusRefreshTimer !== undefined) {
+    window.clearTimeout(runtimeStatusRefreshTimer);
+  }
+
+  runtimeStatusRefreshTimer = window.setTimeout(() => {
+    runtimeStatusRefreshTimer = undefined;
+    void refreshWorkspaceRuntime(workspaceId);
+  }, 500);
+}
+
+async function handleRuntimeAction(action: RuntimePanelAction): Promise<void> {
+  const workspaceId = store.getState().workspace.selectedWorkspaceId;
+  if (!workspaceId) {
+    return;
+  }
+
+  clearError();
+  store.patchSlice("runtime", {
+    workspaceId,
+    action,
+    error: null
+  });
+
+  try {
+    const csrfToken = requireCsrfToken();
+    const runtime =
+      action === "restart"
+        ? await apiClient.restartWorkspaceRuntime(workspaceId, csrfToken)
+        : await apiClient.stopWorkspaceRuntime(workspaceId, csrfToken);
+
+    store.patchSlice("runtime", {
+      workspaceId,
+      action: null,
+      runtime
+    });
+    appendEvent(
+      action === "restart" ? `Runtime restarted (pid ${runtime.pid ?? "unknown"})` : "Runtime stopped",
+      "system"
+    );
+  } catch (error: unknown) {
+    store.patchSlice("runtime", {
+      action: null
+    });
+    handleApiError(error, {
+      action: action === "restart" ? "Restart runtime" : "Stop runtime",
+      context: describeWorkspaceContext(workspaceId),
+      nextStep: "Refresh the runtime status and try again"
+    });
+  }
+}
+
+function resetDeviceSessionsState(): void {
+  store.patchSlice("devices", {
+    loading: false,
+    revokingId: null,
+    sessions: [],
+    error: null
+  });
+}
+
+async function refreshDeviceSessions(): Promise<void> {
+  store.patchSlice("devices", {
+    loading: true,
+    error: null
+  });
+
+  try {
+    const sessions = await apiClient.listAuthSessions();
+    store.patchSlice("devices", {
+      loading: false,
+      sessions
+    });
+  } catch (error: unknown) {
+    store.patchSlice("devices", {
+      loading: false,
+      sessions: [],
+      error: `Signed-in devices failed: ${describeError(error)}`
+    });
+  }
+}
+
+function resetTwoFactorState(): void {
+  store.patchSlice("twoFactor", {
+    loading: false,
+    busy: false,
+    status: null,
+    enrollment: null,
+    recoveryCodes: [],
+    error: null
+  });
+}
+
+async function refreshTwoFactorStatus(): Promise<void> {
+  store.patchSlice("twoFactor", {
+    loading: true,
+    error: null
+  });
+
+  try {
+    const status = await apiClient.getTwoFactorStatus();
+    store.patchSlice("twoFactor", {
+      loading: false,
+      status
+    });
+  } catch (error: unknown) {
+    store.patchSlice("twoFactor", {
+      loading: false,
+      error: `Two-factor settings failed: ${describeError(error)}`
+    });
+  }
+}
+
+async function handleEnableTwoFactor(): Promise<void> {
+  store.patchSlice("twoFactor", {
+    busy: true,
+    recoveryCodes: [],
+    error: null
+  });
+
+  try {
+    const enrollment = await apiClient.enrollTwoFactor(requireCsrfToken());
+    store.patchSlice("twoFactor", {
+      busy: false,
+      enrollment
+    });
+    dom.twoFactorCodeInput.focus();
+  } catch (error: unknown) {
+    store.patchSlice("twoFactor", {
+      busy: false,
+      error: `Two-factor setup failed: ${describeError(error)}`
+    });
+  }
+}
+
+async function handleTwoFactorCodeSubmit(event: Event): Promise<void> {
+  event.preventDefault();
+  const { enrollment, status } = store.getState().twoFactor;
+  const code = dom.twoFactorCodeInput.value.trim();
+  if (code.length === 0 || (!enrollment && !status?.enabled)) {
+    return;
+  }
+
+  if (!enrollment && !window.confirm("Turn off two-factor authentication? Sign-ins will only need the password.")) {
+    return;
+  }
+
+  store.patchSlice("twoFactor", {
+    busy: true,
+    error: null
+  });
+
+  try {
+    if (enrollment) {
+      const { recoveryCodes, ...confirmedStatus } = await apiClient.confirmTwoFactor(code, requireCsrfToken());
+      store.patchSlice("twoFactor", {
+        busy: false,
+        status: confirmedStatus,
+        enrollment: null,
+        recoveryCodes
+      });
+      appendEvent("Two-factor authentication turned on", "system");
+    } else {
+      const disabledStatus = await apiClient.disableTwoFactor(code, requireCsrfToken());
+      store.patchSlice("twoFactor", {
+        busy: false,
+        status: disabledStatus,
+        recoveryCodes: []
+      });
+      appendEvent("Two-factor authentication turned off", "system");
+    }
+    dom.twoFactorForm.reset();
+  } catch (error: unknown) {
+    store.patchSlice("twoFactor", {
+      busy: false,
+      error: `Two-factor code rejected: ${describeError(error)}`
+    });
+  }
+}
+
+function resetPasskeysState(): void {
+  store.patchSlice("passkeys", {
+    loading: false,
+    busy: false,
+    removingId: null,
+    passkeys: [],
+    error: null
+  });
+}
+
+async function refreshPasskeys(): Promise<void> {
+  store.patchSlice("passkeys", {
+    loading: true,
+    error: null
+  });
+
+  try {
+    const passkeys = await apiClient.listPasskeys();
+    store.patchSlice("passkeys", {
+      loading: false,
+      passkeys
+    });
+  } catch (error: unknown) {
+    store.patchSlice("passkeys", {
+      loading: false,
+      error: `Passkey list failed: ${describeError(error)}`
+    });
+  }
+}
+
+async function handleAddPasskey(event: Event): Promise<void> {
+  event.preventDefault();
+  store.patchSlice("passkeys", {
+    busy: true,
+    error: null
+  });
+
+  try {
+    const csrfToken = requireCsrfToken();
+    const credential = await createPasskeyCredential(await apiClient.getPasskeyRegistrationOptions(csrfToken));
+    if (credential) {
+      const passkey = await apiClient.registerPasskey(credential, dom.passkeysLabelInput.value.trim(), csrfToken);
+      store.patchSlice("passkeys", {
+        passkeys: [...store.getState().passkeys.passkeys, passkey]
+      });
+      dom.passkeysForm.reset();
+      appendEvent(`Added passkey "${passkey.label}"`, "system");
+    }
+    store.patchSlice("passkeys", {
+      busy: false
+    });
+  } catch (error: unknown) {
+    store.patchSlice("passkeys", {
+      busy: false,
+      error: isPasskeyPromptDismissed(error) ? null : `Passkey setup failed: ${describeError(error)}`
+    });
+  }
+}
+
+async function handleRemovePasskey(passkeyId: string): Promise<void> {
+  const passkey = store.getState().passkeys.passkeys.find((candidate) => candidate.id === passkeyId);
+  if (!passkey || !window.confirm(`Remove passkey "${passkey.label}"? That device will need the password again.`)) {
+    return;
+  }
+
+  store.patchSlice("passkeys", {
+    removingId: passkeyId,
+    error: null
+  });
+
+  try {
+    await apiClient.deletePasskey(passkeyId, requireCsrfToken());
+    store.patchSlice("passkeys", {
+      removingId: null,
+      passkeys: store.getState().passkeys.passkeys.filter((candidate) => candidate.id !== passkeyId)
+    });
+    appendEvent(`Removed passkey "${passkey.label}"`, "system");
+  } catch (error: unknown) {
+    store.patchSlice("passkeys", {
+      removingId: null,
+      error: `Passkey removal failed: ${describeError(error)}`
+    });
+  }
+}
+
+async function handleRevokeDeviceSession(sessionId: string): Promise<void> {
+  const session = store.getState().devices.sessions.find((candidate) => candidate.id === sessionId);
+  if (!session) {
+    return;
+  }
+
+  if (session.current) {
+    if (window.confirm("Sign out this device?")) {
+      await handleLogout();
+    }
+    return;
+  }
+
+  if (!window.confirm(`Sign out ${session.userAgent ?? "this unknown device"}? It will need the password again.`)) {
+    return;
+  }
+
+  clearError();
+  store.patchSlice("devices", {
+    revokingId: sessionId
+  });
+
+  try {
+    await apiClient.revokeAuthSession(sessionId, requireCsrfToken());
+    store.patchSlice("devices", {
+      revokingId: null,
+      sessions: store.getState().devices.sessions.filter((candidate) => candidate.id !== sessionId)
+    });
+    appendEvent("Signed out another device", "system");
+  } catch (error: unknown) {
+    store.patchSlice("devices", {
+      revokingId: null
+    });
+    handleApiError(error, {
+      action: "Sign out device",
+      nextStep: "Refresh the device list and try again"
+    });
+  }
+}
+
+function resetReviewPanelState(workspaceId: string | null): void {
+  store.patchSlice("review", {
+    workspaceId,
+    loading: false,
+    starting: false,
+    reviews: [],
+    error: null
+  });
+
+  if (workspaceId && dom.reviewPanel.open) {
+    void refreshReviews(workspaceId);
+  }
+}
+
+async function refreshReviews(workspaceId: string): Promise<void> {
+  store.patchSlice("review", {
+    workspaceId,
+    loading: true,
+    error: null
+  });
+
+  try {
+    const reviews = await apiClient.listReviews(workspaceId);
+    if (workspaceId !== store.getState().workspace.selectedWorkspaceId) {
+      return;
+    }
+
+    store.patchSlice("review", {
+      workspaceId,
+      loading: false,
+      reviews,
+      error: null
+    });
+  } catch (error: unknown) {
+    if (workspaceId !== store.getState().workspace.selectedWorkspaceId) {
+      return;
+    }
+
+    store.patchSlice("review", {
+      workspaceId,
+      loading: false,
+      error: `Review list failed: ${describeError(error)}`
+    });
+  }
+}
+
+function applyReviewRuntimeEvent(workspaceId: string, payload: unknown): void {
+  const review = parseReviewRuntimeEvent(payload);
+  if (!review || store.getState().review.workspaceId !== workspaceId) {
+    return;
+  }
+
+  store.updateSlice("review", (reviewState) => ({
+    ...reviewState,
+    reviews: upsertReview(reviewState.reviews, review)
+  }));
+}
+
+function syncReviewTargetInput(): void {
+  const targetType = dom.reviewTargetTypeSelect.value as ReviewTargetType;
+  dom.reviewTargetRefInput.classList.toggle("is-hidden", targetType === "uncommittedChanges");
+  dom.reviewTargetRefInput.placeholder = targetType === "commit" ? "Commit sha" : "Base branch, e.g. main";
+}
+
+async function handleStartReview(): Promise<void> {
+  const workspaceId = store.getState().workspace.selectedWorkspaceId;
+  if (!workspaceId) {
+    setError("Select a workspace before starting a review.");
+    return;
+  }
+
+  const target = buildReviewTarget(
+    dom.reviewTargetTypeSelect.value as ReviewTargetType,
+    dom.reviewTargetRefInput.value
+  );
+  if (!target) {
+    setError("Enter a commit sha or base branch to review.");
+    return;
+  }
+
+  clearError();
+  store.patchSlice("review", {
+    workspaceId,
+    starting: true,
+    error: null
+  });
+
+  try {
+    const review = await apiClient.startReview(workspaceId, requireCsrfToken(), { target });
+    store.updateSlice("review", (reviewState) => ({
+      ...reviewState,
+      starting: false,
+      reviews: reviewState.workspaceId === workspaceId ? upsertReview(reviewState.reviews, review) : reviewState.reviews
+    }));
+    appendEvent(`Review started on thread ${review.threadId}`, "system");
+  } catch (error: unknown) {
+    store.patchSlice("review", {
+      starting: false
+    });
+    handleApiError(error, {
+      action: "Start review",
+      context: describeWorkspaceContext(workspaceId),
+      nextStep: "Check the review target and try again"
+    });
+  }
+}
+
+async function openReviewFinding(reviewId: string, findingIndex: number): Promise<void> {
+  const workspaceId = store.getState().workspace.selectedWorkspaceId;
+  const review = store.getState().review.reviews.find((entry) => entry.reviewId === reviewId);
+  const finding = review?.findings.find((entry) => entry.index === findingIndex);
+  if (!workspaceId || !finding) {
+    return;
+  }
+
+  if (!finding.relativePath) {
+    setError(`${finding.absolutePath} is outside the workspace and cannot be opened in Git Review.`);
+    return;
+  }
+
+  clearError();
+  setFileBrowserActive(false);
+  setTerminalPanelActive(false);
+  const gitReviewState = store.getState().gitReview;
+  if (gitReviewState.workspaceId !== workspaceId || gitReviewState.supported === null) {
+    await refreshGitStatus(workspaceId, {
+      openAfterLoad: true,
+      autoSelectFirstFile: false
+    });
+  } else {
+    setGitReviewActive(gitReviewState.supported);
+  }
+
+  if (store.getState().gitReview.supported === false) {
+    setError("Git is not enabled for this workspace.");
+    return;
+  }
+
+  await refreshGitDiff(workspaceId, finding.relativePath, {
+    focusRange: { start: finding.lineStart, end: finding.lineEnd }
+  });
+}
+
+function resetFileBrowserState(workspaceId: string | null): void {
+  store.patchSlice("files", {
+    active: false,
+    workspaceId,
+    directories: {},
+    expandedPaths: [],
+    loadingPaths: [],
+    selectedPath: null,
+    file: null,
+    fileLoading: false,
+    editing: false,
+    saving: false,
+    error: null,
+    searchLoading: false,
+    search: null,
+    searchError: null
+  });
+}
+
+function setFileBrowserActive(active: boolean): void {
+  store.patchSlice("files", {
+    active
+  });
+}
+
+function toWorkspaceRelativePath(workspaceId: string, filePath: string): string | null {
+  if (!filePath.startsWith("/")) {
+    return filePath.replace(/^\.\/+/, "");
+  }
+
+  const workspace = store.getState().workspace.workspaces.find((entry) => entry.workspaceId === workspaceId);
+  const root = workspace?.absolutePath.replace(/\/+$/, "");
+  if (!root || !filePath.startsWith(`${root}/`)) {
+    return null;
+  }
+
+  return filePath.slice(root.length + 1);
+}
+
+async function loadFileDirectory(workspaceId: string, directoryPath: string): Promise<void> {
+  store.updateSlice("files", (files) =>
+    files.loadingPaths.includes(directoryPath)
+      ? files
+      : {
+          ...files,
+          loadingPaths: [...files.loadingPaths, directoryPath]
+        }
+  );
+
+  try {
+    const directory = await apiClient.listWorkspaceFiles(workspaceId, directoryPath);
+    store.updateSlice("files", (files) =>
+      files.workspaceId !== workspaceId
+        ? files
+        : {
+            ...files,
+            directories: { ...files.directories, [directoryPath]: directory },
+            loadingPaths: files.loadingPaths.filter((entry) => entry !== directoryPath)
+          }
+    );
+  } catch (error: unknown) {
+    store.updateSlice("files", (files) =>
+      files.workspaceId !== workspaceId
+        ? files
+        : {
+            ...files,
+            expandedPaths: files.expandedPaths.filter((entry) => entry !== directoryPath),
+            loadingPaths: files.loadingPaths.filter((entry) => entry !== directoryPath),
+            error: `Could not list ${directoryPath || "the workspace root"}: ${describeError(error)}`
+          }
+    );
+  }
+}
+
+async function openFileBrowser(): Promise<boolean> {
+  const workspaceId = store.getState().workspace.selectedWorkspaceId;
+  if (!workspaceId) {
+    setError("Select a workspace before browsing files.");
+    return false;
+  }
+
+  clearError();
+  if (store.getState().files.workspaceId !== workspaceId) {
+    resetFileBrowserState(workspaceId);
+  }
+  setGitReviewActive(false);
+  setTerminalPanelActive(false);
+  setFileBrowserActive(true);
+
+  if (!store.getState().files.directories[""]) {
+    await loadFileDirectory(workspaceId, "");
+  }
+  return true;
+}
+
+async function expandFileDirectory(workspaceId: string, directoryPath: string): Promise<void> {
+  store.updateSlice("files", (files) =>
+    files.expandedPaths.includes(directoryPath)
+      ? files
+      : {
+          ...files,
+          expandedPaths: [...files.expandedPaths, directoryPath]
+        }
+  );
+
+  if (!store.getState().files.directories[directoryPath]) {
+    await loadFileDirectory(workspaceId, directoryPath);
+  }
+}
+
+function toggleFileDirectory(directoryPath: string): void {
+  const files = store.getState().files;
+  if (!files.workspaceId) {
+    return;
+  }
+
+  if (files.expandedPaths.includes(directoryPath)) {
+    store.patchSlice("files", {
+      expandedPaths: files.expandedPaths.filter((entry) => entry !== directoryPath)
+    });
+    return;
+  }
+
+  void expandFileDirectory(files.workspaceId, directoryPath);
+}
+
+function hasUnsavedFileEdits(): boolean {
+  const files = store.getState().files;
+  return files.editing && files.file !== null && dom.fileEditorInput.value !== files.file.content;
+}
+
+async function openWorkspaceFile(relativePath: string): Promise<void> {
+  const workspaceId = store.getState().files.workspaceId;
+  if (!workspaceId) {
+    return;
+  }
+
+  if (hasUnsavedFileEdits() && !window.confirm("Discard your unsaved changes to this file?")) {
+    return;
+  }
+
+  store.patchSlice("files", {
+    selectedPath: relativePath,
+    file: null,
+    fileLoading: true,
+    editing: false,
+    saving: false,
+    error: null
+  });
+
+  const isCurrent = (): boolean => {
+    const files = store.getState().files;
+    return files.workspaceId === workspaceId && files.selectedPath === relativePath;
+  };
+
+  try {
+    const file = await apiClient.readWorkspaceFile(workspaceId, relativePath);
+    if (isCurrent()) {
+      store.patchSlice("files", {
+        file,
+        fileLoading: false
+      });
+    }
+  } catch (error: unknown) {
+    if (isCurrent()) {
+      store.patchSlice("files", {
+        fileLoading: false,
+        error: `Could not open ${relativePath}: ${describeError(error)}`
+      });
+    }
+  }
+}
+
+function startFileEdit(): void {
+  const file = store.getState().files.file;
+  if (!file || file.binary || file.truncated) {
+    return;
+  }
+
+  store.patchSlice("files", {
+    editing: true,
+    error: null
+  });
+}
+
+function cancelFileEdit(): void {
+  if (hasUnsavedFileEdits() && !window.confirm("Discard your unsaved changes to this file?")) {
+    return;
+  }
+
+  store.patchSlice("files", {
+    editing: false,
+    error: null
+  });
+}
+
+function isFileConflictError(error: unknown): boolean {
+  if (!(error instanceof ApiClientError) || error.statusCode !== 409) {
+    return false;
+  }
+
+  const payload = error.payload as { error?: unknown } | null;
+  return payload?.error === "file_conflict";
+}
+
+async function handleSaveFile(): Promise<void> {
+  const files = store.getState().files;
+  const workspaceId = files.workspaceId;
+  const currentFile = files.file;
+  if (!workspaceId || !currentFile || !files.editing || files.saving) {
+    return;
+  }
+
+  store.patchSlice("files", {
+    saving: true,
+    error: null
+  });
+
+  try {
+    const file = await apiClient.writeWorkspaceFile(workspaceId, requireCsrfToken(), {
+      path: currentFile.path,
+      content: dom.fileEditorInput.value,
+      expectedHash: currentFile.hash
+    });
+    if (store.getState().files.workspaceId !== workspaceId) {
+      return;
+    }
+
+    store.patchSlice("files", {
+      file,
+      editing: false,
+      saving: false
+    });
+
+    // Saved edits change the working tree, so bring the review panel's status and diff up to date.
+    if (store.getState().gitReview.workspaceId === workspaceId) {
+      await refreshGitStatus(workspaceId, { autoSelectFirstFile: store.getState().gitReview.active });
+    }
+  } catch (error: unknown) {
+    if (store.getState().files.workspaceId !== workspaceId) {
+      return;
+    }
+
+    store.patchSlice("files", {
+      saving: false,
+      error: `Could not save ${currentFile.path}: ${describeError(error)}`
+    });
+
+    if (
+      isFileConflictError(error) &&
+      window.confirm(`${currentFile.path} changed on disk since you opened it. Discard your edits and reload it?`)
+    ) {
+      store.patchSlice("files", {
+        editing: false
+      });
+      await openWorkspaceFile(currentFile.path);
+    }
+  }
+}
+
+async function revealWorkspaceFile(filePath: string): Promise<void> {
+  const workspaceId = store.getState().workspace.selectedWorkspaceId;
+  if (!workspaceId) {
+    return;
+  }
+
+  const relativePath = toWorkspaceRelativePath(workspaceId, filePath);
+  if (relativePath === null) {
+    setError(`${filePath} is outside the workspace and cannot be opened in the file browser.`);
+    return;
+  }
+
+  if (!(await openFileBrowser())) {
+    return;
+  }
+
+  // Reveal the file in the tree by expanding each parent directory.
+  const segments = relativePath.split("/").slice(0, -1);
+  for (let index = 1; index <= segments.length; index += 1) {
+    await expandFileDirectory(workspaceId, segments.slice(0, index).join("/"));
+  }
+
+  await openWorkspaceFile(relativePath);
+}
+
+function parseGlobInput(value: string): string[] {
+  return value
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0);
+}
+
+async function handleFileSearch(): Promise<void> {
+  const workspaceId = store.getState().workspace.selectedWorkspaceId;
+  const query = dom.fileSearchQueryInput.value;
+  if (!workspaceId || query.length === 0) {
+    return;
+  }
+
+  if (store.getState().files.workspaceId !== workspaceId) {
+    resetFileBrowserState(workspaceId);
+  }
+  store.patchSlice("files", {
+    searchLoading: true,
+    searchError: null
+  });
+
+  try {
+    const search = await apiClient.searchWorkspaceFiles(workspaceId, {
+      query,
+      mode: dom.fileSearchModeSelect.value === "path" ? "path" : "content",
+      regex: dom.fileSearchRegexInput.checked,
+      caseSensitive: dom.fileSearchCaseInput.checked,
+      include: parseGlobInput(dom.fileSearchIncludeInput.value),
+      exclude: parseGlobInput(dom.fileSearchExcludeInput.value)
+    });
+    if (store.getState().files.workspaceId === workspaceId) {
+      store.patchSlice("files", {
+        searchLoading: false,
+        search
+      });
+    }
+  } catch (error: unknown) {
+    if (store.getState().files.workspaceId === workspaceId) {
+      store.patchSlice("files", {
+        searchLoading: false,
+        search: null,
+        searchError: `Search failed: ${describeError(error)}`
+      });
+    }
+  }
+}
+
+function insertFileReference(reference: string): void {
+  const currentPrompt = store.getState().stream.draftPrompt;
+  const separator = currentPrompt.length === 0 || /\s$/.test(currentPrompt) ? "" : " ";
+  setDraftPrompt(`${currentPrompt}${separator}${reference} `);
+  persistCurrentDraftPrompt();
+  setGitReviewActive(false);
+  setFileBrowserActive(false);
+  setTerminalPanelActive(false);
+  dom.turnPromptInput.focus();
+}
+
+async function refreshFileBrowser(): Promise<void> {
+  const files = store.getState().files;
+  if (!files.workspaceId) {
+    return;
+  }
+
+  const workspaceId = files.workspaceId;
+  const directoryPaths = ["", ...files.expandedPaths];
+  store.patchSlice("files", {
+    directories: Object.fromEntries(
+      Object.entries(files.directories).filter(([directoryPath]) => directoryPaths.includes(directoryPath))
+    ),
+    error: null
+  });
+
+  await Promise.all(directoryPaths.map((directoryPath) => loadFileDirectory(workspaceId, directoryPath)));
+  if (files.selectedPath) {
+    await openWorkspaceFile(files.selectedPath);
+  }
+}
+
+function disconnectTerminalStream(): void {
+  const socket = terminalSocket;
+  terminalSocket = undefined;
+  socket?.disconnect();
+}
+
+function resetTerminalPanelState(workspaceId: string | null): void {
+  disconnectTerminalStream();
+  store.patchSlice("terminals", {
+    active: false,
+    workspaceId,
+    sessions: [],
+    loading: false,
+    starting: false,
+    selectedTerminalId: null,
+    output: [],
+    outputTruncated: false,
+    connection: "disconnected",
+    error: null
+  });
+}
+
+function setTerminalPanelActive(active: boolean): void {
+  store.patchSlice("terminals", {
+    active
+  });
+}
+
+function upsertTerminalSession(session: TerminalSessionRecord): void {
+  store.updateSlice("terminals", (terminals) => {
+    if (terminals.workspaceId !== session.workspaceId) {
+      return terminals;
+    }
+
+    const exists = terminals.sessions.some((entry) => entry.id === session.id);
+    return {
+      ...terminals,
+      sessions: exists
+        ? terminals.sessions.map((entry) => (entry.id === session.id ? session : entry))
+        : [...terminals.sessions, session]
+    };
+  });
+}
+
+async function refreshTerminals(workspaceId: string): Promise<void> {
+  store.patchSlice("terminals", {
+    loading: true,
+    error: null
+  });
+
+  try {
+    const sessions = await apiClient.listTerminals(workspaceId);
+    if (store.getState().terminals.workspaceId === workspaceId) {
+      store.patchSlice("terminals", {
+        loading: false,
+        sessions
+      });
+    }
+  } catch (error: unknown) {
+    if (store.getState().terminals.workspaceId === workspaceId) {
+      store.patchSlice("terminals", {
+        loading: false,
+        error: `Could not list terminals: ${describeError(error)}`
+      });
+    }
+  }
+}
+
+async function openTerminalPanel(): Promise<void> {
+  const workspaceId = store.getState().workspace.selectedWorkspaceId;
+  if (!workspaceId) {
+    setError("Select a workspace before opening a terminal.");
+    return;
+  }
+
+  clearError();
+  if (store.getState().terminals.workspaceId !== workspaceId) {
+    resetTerminalPanelState(workspaceId);
+  }
+  setGitReviewActive(false);
+  setFileBrowserActive(false);
+  setTerminalPanelActive(true);
+
+  await refreshTerminals(workspaceId);
+  const terminals = store.getState().terminals;
+  const latestSession = terminals.sessions.at(-1);
+  if (terminals.selectedTerminalId === null && latestSession) {
+    selectTerminal(latestSession.id);
+  }
+}
+
+function handleTerminalMessage(terminalId: string, message: TerminalServerMessage): void {
+  if (store.getState().terminals.selectedTerminalId !== terminalId) {
+    return;
+  }
+
+  switch (message.type) {
+    case "terminal_connected":
+      upsertTerminalSession(message.terminal);
+      if (message.truncated) {
+        store.patchSlice("terminals", {
+          outputTruncated: true
+        });
+      }
+      return;
+    case "terminal_output":
+      store.updateSlice("terminals", (terminals) => {
+        const next = appendTerminalOutput(terminals.output, message);
+        return next.output === terminals.output
+          ? terminals
+          : {
+              ...terminals,
+              output: next.output,
+              outputTruncated: terminals.outputTruncated || next.truncated
+            };
+      });
+      return;
+    case "terminal_exit":
+      upsertTerminalSession(message.terminal);
+      return;
+    case "terminal_error":
+      store.patchSlice("terminals", {
+        error: message.message
+      });
+      return;
+  }
+}
+
+function selectTerminal(terminalId: string): void {
+  const terminals = store.getState().terminals;
+  const workspaceId = terminals.workspaceId;
+  if (!workspaceId || (terminals.selectedTerminalId === terminalId && terminalSocket)) {
+    return;
+  }
+
+  disconnectTerminalStream();
+  store.patchSlice("terminals", {
+    selectedTerminalId: terminalId,
+    output: [],
+    outputTruncated: false,
+    error: null
+  });
+
+  const socket = new TerminalSocket({
+    workspaceId,
+    terminalId,
+    onMessage: (message) => {
+      handleTerminalMessage(terminalId, message);
+    },
+    onStateChange: (connection) => {
+      if (terminalSocket === socket) {
+        store.patchSlice("terminals", {
+          connection
+        });
+      }
+    }
+  });
+  terminalSocket = socket;
+  socket.connect();
+  dom.terminalInput.focus();
+}
+
+async function handleStartTerminal(): Promise<void> {
+  const workspaceId = store.getState().terminals.workspaceId;
+  if (!workspaceId || store.getState().terminals.starting) {
+    return;
+  }
+
+  const command = dom.terminalCommandInput.value.trim();
+  store.patchSlice("terminals", {
+    starting: true,
+    error: null
+  });
+
+  try {
+    const session = await apiClient.createTerminal(workspaceId, requireCsrfToken(), command ? { command } : {});
+    if (store.getState().terminals.workspaceId !== workspaceId) {
+      return;
+    }
+
+    dom.terminalCommandInput.value = "";
+    store.patchSlice("terminals", {
+      starting: false
+    });
+    upsertTerminalSession(session);
+    selectTerminal(session.id);
+  } catch (error: unknown) {
+    if (store.getState().terminals.workspaceId === workspaceId) {
+      store.patchSlice("terminals", {
+        starting: false,
+        error: `Could not start the terminal: ${describeError(error)}`
+      });
+    }
+  }
+}
+
+async function handleCloseTerminal(terminalId: string): Promise<void> {
+  const terminals = store.getState().terminals;
+  const workspaceId = terminals.workspaceId;
+  const session = terminals.sessions.find((entry) => entry.id === terminalId);
+  if (!workspaceId || !session) {
+    return;
+  }
+
+  if (session.status === "running" && !window.confirm("This terminal is still running. Kill it and close it?")) {
+    return;
+  }
+
+  try {
+    await apiClient.closeTerminal(workspaceId, terminalId, requireCsrfToken());
+  } catch (error: unknown) {
+    // A session the server no longer knows about is still dropped from the list.
+    if (!(error instanceof ApiClientError) || error.statusCode !== 404) {
+      store.patchSlice("terminals", {
+        error: `Could not close the terminal: ${describeError(error)}`
+      });
+      return;
+    }
+  }
+
+  if (store.getState().terminals.selectedTerminalId === terminalId) {
+    disconnectTerminalStream();
+    store.patchSlice("terminals", {
+      selectedTerminalId: null,
+      output: [],
+      outputTruncated: false,
+      connection: "disconnected"
+    });
+  }
+  store.updateSlice("terminals", (current) => ({
+    ...current,
+    sessions: current.sessions.filter((entry) => entry.id !== terminalId)
+  }));
+}
+
+function reportTerminalDisconnected(sent: boolean | undefined): void {
+  if (!sent) {
+    store.patchSlice("terminals", {
+      error: "The terminal is not connected."
+    });
+  }
+}
+
+function sendTerminalInput(): void {
+  const sent = terminalSocket?.sendInput(`${dom.terminalInput.value}\n`);
+  reportTerminalDisconnected(sent);
+  if (sent) {
+    dom.terminalInput.value = "";
+  }
+}
+
+function updateWorkspaceApprovals(workspaceId: string, updater: (cards: ApprovalCard[]) => ApprovalCard[]): void {
+  store.updateSlice("thread", (thread) => {
+    const currentCards = thread.approvalsByWorkspaceId[workspaceId] ?? [];
+    const nextCards = updater(currentCards);
+    if (nextCards === currentCards) {
+      return thread;
+    }
+
+    return {
+      ...thread,
+      approvalsByWorkspaceId: {
+        ...thread.approvalsByWorkspaceId,
+        [workspaceId]: nextCards
+      }
+    };
+  });
+}
+
+function applyApprovalRuntimeEvent(workspaceId: string, payload: unknown): void {
+  const update = parseApprovalRuntimeEvent(payload);
+  if (!update) {
+    return;
+  }
+
+  updateWorkspaceApprovals(workspaceId, (cards) => applyApprovalRuntimeUpdate(cards, update));
+}
+
+async function refreshPendingApprovals(workspaceId: string): Promise<void> {
+  try {
+    const approvals = await apiClient.listApprovals(workspaceId);
+    updateWorkspaceApprovals(workspaceId, (cards) => mergePendingApprovals(cards, approvals));
+  } catch (error: unknown) {
+    appendEvent(`Approval refresh failed: ${describeError(error)}`, "error", {
+      category: "error"
+    });
+  }
+}
+
+async function handleApprovalDecision(requestId: string, decision: ApprovalDecision, reason: string): Promise<void> {
+  const workspaceId = store.getState().workspace.selectedWorkspaceId;
+  if (!workspaceId) {
+    return;
+  }
+
+  updateWorkspaceApprovals(workspaceId, (cards) => setApprovalCardStatus(cards, requestId, "submitting"));
+
+  try {
+    const resolution = await apiClient.respondToApproval(workspaceId, requireCsrfToken(), requestId, {
+      decision,
+      ...(reason.length > 0 ? { reason } : {})
+    });
+    updateWorkspaceApprovals(workspaceId, (cards) =>
+      setApprovalCardStatus(cards, requestId, resolution.decision === "deny" ? "denied" : "approved", resolution.reason)
+    );
+  } catch (error: unknown) {
+    if (error instanceof ApiClientError && error.statusCode === 404) {
+      updateWorkspaceApprovals(workspaceId, (cards) =>
+        setApprovalCardStatus(cards, requestId, "expired", "No longer pending")
+      );
+      return;
+    }
+
+    updateWorkspaceApprovals(workspaceId, (cards) => setApprovalCardStatus(cards, requestId, "pending"));
+    handleApiError(error, {
+      action: "Send approval decision",
+      context: describeWorkspaceContext(workspaceId),
+      nextStep: "Try the approval buttons again"
+    });
+  }
+}
+
+function setTurnCheckpointPreview(checkpointPreview: TurnCheckpointPreviewState | null): void {
+  store.patchSlice("thread", {
+    checkpointPreview
+  });
+}
+
+function isCurrentTurnCheckpointPreview(threadId: string, turnId: string): boolean {
+  const current = store.getState().thread.checkpointPreview;
+  return current?.threadId === threadId && current.turnId === turnId;
+}
+
+async function refreshTurnCheckpoints(workspaceId: string, threadId: string): Promise<void> {
+  try {
+    const checkpoints = await apiClient.listWorkspaceGitCheckpoints(workspaceId, threadId);
+    const thread = store.getState().thread;
+    store.patchSlice("thread", {
+      checkpointTurnIdsByThreadId: {
+        ...thread.checkpointTurnIdsByThreadId,
+        [threadId]: checkpoints.map((checkpoint) => checkpoint.turnId)
+      }
+    });
+  } catch (error: unknown) {
+    appendEvent(`Turn checkpoints unavailable (${threadId}): ${describeError(error)}`, "error", {
+      category: "error"
+    });
+  }
+}
+
+async function openTurnCheckpointPreview(turnId: string): Promise<void> {
+  const state = store.getState();
+  const workspaceId = state.workspace.selectedWorkspaceId;
+  const threadId = state.thread.selectedThreadId;
+  if (!workspaceId || !threadId) {
+    return;
+  }
+
+  setTurnCheckpointPreview({ threadId, turnId, status: "loading", preview: null, error: null });
+  try {
+    const preview = await apiClient.getWorkspaceGitCheckpointPreview(workspaceId, threadId, turnId);
+    if (isCurrentTurnCheckpointPreview(threadId, turnId)) {
+      setTurnCheckpointPreview({ threadId, turnId, status: "ready", preview, error: null });
+    }
+  } catch (error: unknown) {
+    if (isCurrentTurnCheckpointPreview(threadId, turnId)) {
+      setTurnCheckpointPreview({ threadId, turnId, status: "error", preview: null, error: describeError(error) });
+    }
+  }
+}
+
+async function handleRevertTurnCheckpoint(): Promise<void> {
+  const workspaceId = store.getState().workspace.selectedWorkspaceId;
+  const current = store.getState().thread.checkpointPreview;
+  if (!workspaceId || current?.status !== "ready") {
+    return;
+  }
+
+  setTurnCheckpointPreview({ ...current, status: "reverting" });
+  try {
+    const result = await apiClient.revertWorkspaceGitCheckpoint(
+      workspaceId,
+      requireCsrfToken(),
+      current.threadId,
+      current.turnId
+    );
+    setTurnCheckpointPreview(null);
+    // Only files are rolled back; the conversation keeps the turn so it can be referred to or retried.
+    appendEvent(`Reverted workspace to before turn ${current.turnId}`, "system");
+    if (store.getState().gitReview.workspaceId === workspaceId) {
+      applyGitStatusRecord(result.git);
+    }
+
+    await refreshGitStatus(workspaceId, {
+      autoSelectFirstFile: store.getState().gitReview.active
+    });
+    if (store.getState().gitReview.view === "history") {
+      await refreshGitHistory(workspaceId);
+    }
+  } catch (error: unknown) {
+    if (isCurrentTurnCheckpointPreview(current.threadId, current.turnId)) {
+      setTurnCheckpointPreview({ ...current, status: "ready" });
+    }
+    handleApiError(error, {
+      action: "Revert turn",
+      context: describeActionContext(workspaceId, current.threadId),
+      nextStep: "Review the preview and try again"
+    });
+  }
+}
+
+function isRuntimeEventGap(payload: unknown): payload is { type: "workspace_runtime_gap"; latestSequence: number } {
+  if (!payload || typeof payload !== "object") {
+    return false;
+  }
+
+  const envelope = payload as { type?: unknown; latestSequence?: unknown };
+  return envelope.type === "workspace_runtime_gap" && typeof envelope.latestSequence === "number";
+}
+
+function isGitStatusChangedEvent(payload: unknown): payload is { type: "git_status_changed"; git: GitStatusRecord } {
+  if (!payload || typeof payload !== "object") {
+    return false;
+  }
+
+  const envelope = payload as { type?: unknown; git?: unknown };
+  return envelope.type === "git_status_changed" && typeof envelope.git === "object" && envelope.git !== null;
+}
+
+function applyGitStatusPush(workspaceId: string, gitStatus: GitStatusRecord): void {
+  const gitReview = store.getState().gitReview;
+  // An in-flight refresh will land the same status; a pending action refreshes when it finishes.
+  if (workspaceId !== store.getState().workspace.selectedWorkspaceId || gitReview.loading) {
+    return;
+  }
+
+  const entries = mapGitEntries(gitStatus.entries);
+  const selectedPath =
+    gitReview.selectedPath && entries.some((entry) => entry.path === gitReview.selectedPath)
+      ? gitReview.selectedPath
+      : (entries[0]?.path ?? null);
+  store.patchSlice("gitReview", {
+    supported: gitStatus.enabled,
+    workspaceId,
+    branch: gitStatus.branch,
+    upstream: gitStatus.upstream,
+    ahead: gitStatus.ahead,
+    behind: gitStatus.behind,
+    clean: gitStatus.clean,
+    entries,
+    selectedPath,
+    ...(entries.length === 0 ? { filesCollapsed: false } : {})
+  });
+
+  if (!gitReview.active || gitReview.pendingAction !== null) {
+    return;
+  }
+
+  if (gitReview.diffMode === "all") {
+    void refreshGitWorkspaceDiff(workspaceId);
+  } else if (selectedPath) {
+    void refreshGitDiff(workspaceId, selectedPath);
+  }
+}
+
+function handleRuntimeEventGap(workspaceId: string, latestSequence: number): void {
+  const threadIds = new Set(
+    (store.getState().thread.threadsByWorkspaceId[workspaceId] ?? []).map((thread) => thread.threadId)
+  );
+
+  // Transcripts for this workspace missed events, so mark them stale. Replayed events up to
+  // latestSequence are covered by the thread/read that follows.
+  store.updateSlice("thread", (thread) => {
+    let changed = false;
+    const transcriptsByThreadId = { ...thread.transcriptsByThreadId };
+    for (const [threadId, transcript] of Object.entries(thread.transcriptsByThreadId)) {
+      if (!threadIds.has(threadId)) {
+        continue;
+      }
+
+      transcriptsByThreadId[threadId] = createDefaultThreadTranscriptState("idle", transcript.items, latestSequence);
+      changed = true;
+    }
+
+    return changed ? { ...thread, transcriptsByThreadId } : thread;
+  });
+
+  const selectedThreadId = store.getState().thread.selectedThreadId;
+  if (!selectedThreadId || !threadIds.has(selectedThreadId)) {
+    return;
+  }
+
+  void hydrateThreadTranscript(workspaceId, selectedThreadId).catch((error: unknown) => {
+    appendEvent(`Thread history load failed (${selectedThreadId}): ${describeError(error)}`, "error", {
+      category: "error"
+    });
+  });
+}
+
+function connectWorkspaceEvents(workspaceId: string, forceReconnect = false): void {
+  if (!forceReconnect && workspaceSocket && workspaceSocketWorkspaceId === workspaceId) {
+    return;
+  }
+
+  disconnectWorkspaceEvents();
+
+  workspaceSocketWorkspaceId = workspaceId;
+  workspaceSocket = new ReconnectingWorkspaceSocket({
+    workspaceId,
+    onStateChange: (nextState) => {
+      store.patchSlice("stream", {
+        socketState: nextState
+      });
+
+      if (nextState === "connected") {
+        void refreshPendingApprovals(workspaceId);
+      }
+    },
+    onMessage: (payload) => {
+      if (isGitStatusChangedEvent(payload)) {
+        applyGitStatusPush(workspaceId, payload.git);
+        return;
+      }
+
+      if (isRuntimeEventGap(payload)) {
+        handleRuntimeEventGap(workspaceId, payload.latestSequence);
+      }
+
+      applyRuntimeNotificationToThreadState(workspaceId, payload);
+      applyApprovalRuntimeEvent(workspaceId, payload);
+      applyReviewRuntimeEvent(workspaceId, payload);
+      if (isRuntimeLifecycleEvent(payload)) {
+        scheduleRuntimeStatusRefresh(workspaceId);
+      }
+
+      const normalizedEvent = normalizeWorkspaceTimelineEvent(payload, {
+        includeNoise: store.getState().stream.showInternalEvents
+      });
+
+      if (!normalizedEvent) {
+        return;
+      }
+
+      applyTurnSignal(normalizedEvent.turnSignal);
+
+      enqueueRuntimeEvent(workspaceId, normalizedEvent.message, normalizedEvent.kind, {
+        category: mapCategory(normalizedEvent.category),
+        isInternal: normalizedEvent.isInternal,
+        ...(normalizedEvent.source !== undefined ? { source: normalizedEvent.source } : {}),
+        ...(normalizedEvent.details !== undefined ? { details: normalizedEvent.details } : {})
+      });
+    }
+  });
+
+  workspaceSocket.connect();
+}
+
+function disconnectWorkspaceEvents(): void {
+  clearRuntimeEventQueue();
+  clearBackgroundTerminalState();
+  if (gitStatusRefreshTimer !== undefined) {
+    window.clearTimeout(gitStatusRefreshTimer);
+    gitStatusRefreshTimer = undefined;
+  }
+  if (runtimeStatusRefreshTimer !== undefined) {
+    window.clearTimeout(runtimeStatusRefreshTimer);
+    runtimeStatusRefreshTimer = undefined;
+  }
+
+  if (workspaceSocket) {
+    workspaceSocket.disconnect();
+    workspaceSocket = undefined;
+  }
+
+  workspaceSocketWorkspaceId = null;
+  store.patchSlice("stream", {
+    socketState: "disconnected"
+  });
+}
+
+async function initializeSession(): Promise<void> {
+  const session = await apiClient.getSession();
+
+  store.patchSlice("session", {
+    authenticated: session.authenticated,
+    authMode: session.authMode ?? null,
+    username: session.user?.username ?? null,
+    csrfToken: session.csrfToken ?? null
+  });
+
+  if (session.authenticated) {
+    draftCacheByContext.clear();
+    await loadWorkspaces();
+    return;
+  }
+
+  resetGitReviewState(null);
+  resetRuntimePanelState(null);
+  resetReviewPanelState(null);
+  resetFileBrowserState(null);
+  resetTerminalPanelState(null);
+  resetDeviceSessionsState();
+  resetTwoFactorState();
+  resetPasskeysState();
+  disconnectWorkspaceEvents();
+}
+
+function requireCsrfToken(): string {
+  const csrfToken = store.getState().session.csrfToken;
+  if (!csrfToken) {
+    throw new Error("Missing CSRF token. Please login again.");
+  }
+
+  return csrfToken;
+}
+
+async function loginWithPassword(password: string, username?: string): Promise<void> {
+  const loginResponse = await apiClient.login(password, username);
+
+  if (loginResponse.twoFactorRequired && loginResponse.challengeToken) {
+    store.patchSlice("session", {
+      ...(loginResponse.authMode ? { authMode: loginResponse.authMode } : {}),
+      twoFactorChallenge: loginResponse.challengeToken
+    });
+    dom.loginForm.reset();
+    dom.loginTwoFactorCodeInput.focus();
+    return;
+  }
+
+  await applyLoginResponse(loginResponse);
+}
+
+async function applyLoginResponse(loginResponse: AuthSessionResponse): Promise<void> {
+  store.patchSlice("session", {
+    authenticated: loginResponse.authenticated,
+    ...(loginResponse.authMode ? { authMode: loginResponse.authMode } : {}),
+    username: loginResponse.user?.username ?? null,
+    twoFactorChallenge: null,
+    csrfToken: loginResponse.csrfToken ?? null
+  });
+
+  store.patchSlice("stream", {
+    draftPrompt: "",
+    draftImages: [],
+    imageAttachmentBusy: false,
+    events: [],
+    turnPhase: "idle",
+    turnStartedAtMs: null
+  });
+  resetGitReviewState(null);
+  resetRuntimePanelState(null);
+  resetReviewPanelState(null);
+  resetFileBrowserState(null);
+  resetTerminalPanelState(null);
+  resetDeviceSessionsState();
+  resetTwoFactorState();
+  resetPasskeysState();
+  draftCacheByContext.clear();
+  clearRuntimeEventQueue();
+  clearBackgroundTerminalState();
+  eventSequence = 0;
+
+  if (loginResponse.authenticated) {
+    await loadWorkspaces();
+    dom.loginForm.reset();
+    dom.loginTwoFactorForm.reset();
+    return;
+  }
+
+  throw new Error("Invalid credentials");
+}
+
+async function handleLoginTwoFactorSubmit(event: Event): Promise<void> {
+  event.preventDefault();
+  const challengeToken = store.getState().session.twoFactorChallenge;
+  const code = new FormData(dom.loginTwoFactorForm).get("code");
+
+  if (!challengeToken) {
+    return;
+  }
+
+  if (typeof code !== "string" || code.trim().length === 0) {
+    setError("Authentication code is required");
+    return;
+  }
+
+  clearError();
+  setBusy(true);
+
+  try {
+    await applyLoginResponse(await apiClient.verifyLoginTwoFactor(challengeToken, code.trim()));
+  } catch (error: unknown) {
+    dom.loginTwoFactorForm.reset();
+    // An expired or exhausted challenge cannot be retried; the password step has to run again.
+    if (isExpiredChallengeError(error)) {
+      store.patchSlice("session", {
+        twoFactorChallenge: null
+      });
+    }
+    handleApiError(error, {
+      action: "Verify code",
+      context: "auth session",
+      nextStep: "Enter the current code from your authenticator app or an unused recovery code"
+    });
+  } finally {
+    setBusy(false);
+  }
+}
+
+function isExpiredChallengeError(error: unknown): boolean {
+  if (!(error instanceof ApiClientError) || error.statusCode !== 401) {
+    return false;
+  }
+
+  const payload = error.payload as { error?: unknown } | null;
+  return payload?.error === "challenge_expired";
+}
+
+function cancelLoginTwoFactor(): void {
+  clearError();
+  dom.loginTwoFactorForm.reset();
+  store.patchSlice("session", {
+    twoFactorChallenge: null
+  });
+}
+
+function buildRetryLoginAction(password: string, username?: string): RetryAction {
   return {
     label: "Retry Login",
     run: async () => {
@@ -2321,13 +4450,13 @@ function buildRetryLoginAction(password: string): RetryAction {
       setBusy(true);
 
       try {
-        await loginWithPassword(password);
+        await loginWithPassword(password, username);
       } catch (error: unknown) {
         handleApiError(error, {
           action: "Login",
           context: "auth session",
           nextStep: "Verify the password and retry login",
-          retryAction: buildRetryLoginAction(password)
+          retryAction: buildRetryLoginAction(password, username)
         });
       } finally {
         setBusy(false);
@@ -2340,6 +4469,14 @@ async function handleLoginSubmit(event: Event): Promise<void> {
   event.preventDefault();
   const formData = new FormData(dom.loginForm);
   const password = formData.get("password");
+  const rawUsername = formData.get("username");
+  const multiUser = store.getState().session.authMode === "multi_user";
+  const username = multiUser && typeof rawUsername === "string" ? rawUsername.trim() : undefined;
+
+  if (multiUser && !username) {
+    setError("Username is required");
+    return;
+  }
 
   if (typeof password !== "string" || password.trim().length === 0) {
     setError("Password is required");
@@ -2351,19 +4488,46 @@ async function handleLoginSubmit(event: Event): Promise<void> {
 
   try {
     const normalizedPassword = password.trim();
-    await loginWithPassword(normalizedPassword);
+    await loginWithPassword(normalizedPassword, username);
   } catch (error: unknown) {
     handleApiError(error, {
       action: "Login",
       context: "auth session",
-      nextStep: "Verify the password and retry login",
-      retryAction: buildRetryLoginAction(password.trim())
+      nextStep: multiUser ? "Verify the username and password and retry login" : "Verify the password and retry login",
+      retryAction: buildRetryLoginAction(password.trim(), username)
     });
   } finally {
     setBusy(false);
   }
 }
 
+// The browser rejects with NotAllowedError when the passkey prompt is dismissed or times out.
+function isPasskeyPromptDismissed(error: unknown): boolean {
+  return error instanceof DOMException && error.name === "NotAllowedError";
+}
+
+async function handlePasskeyLogin(): Promise<void> {
+  clearError();
+  setBusy(true);
+
+  try {
+    const credential = await getPasskeyAssertion(await apiClient.getPasskeyLoginOptions());
+    if (credential) {
+      await applyLoginResponse(await apiClient.loginWithPasskey(credential));
+    }
+  } catch (error: unknown) {
+    if (!isPasskeyPromptDismissed(error)) {
+      handleApiError(error, {
+        action: "Passkey sign-in",
+        context: "auth session",
+        nextStep: "Try the passkey again or sign in with the password"
+      });
+    }
+  } finally {
+    setBusy(false);
+  }
+}
+
 async function handleLogout(): Promise<void> {
   clearError();
   setBusy(true);
@@ -2376,6 +4540,7 @@ async function handleLogout(): Promise<void> {
   }
 
   disconnectWorkspaceEvents();
+  disconnectTerminalStream();
   clearRuntimeEventQueue();
   setSelectedWorkspaceId(null);
   setSelectedThreadId(null);
@@ -2383,11 +4548,35 @@ async function handleLogout(): Promise<void> {
   store.setState({
     session: {
       authenticated: false,
+      authMode: store.getState().session.authMode,
+      username: null,
+      twoFactorChallenge: null,
       csrfToken: null,
       busy: false,
       error: null,
       errorRetryLabel: null
     },
+    devices: {
+      loading: false,
+      revokingId: null,
+      sessions: [],
+      error: null
+    },
+    twoFactor: {
+      loading: false,
+      busy: false,
+      status: null,
+      enrollment: null,
+      recoveryCodes: [],
+      error: null
+    },
+    passkeys: {
+      loading: false,
+      busy: false,
+      removingId: null,
+      passkeys: [],
+      error: null
+    },
     workspace: {
       workspaces: [],
       selectedWorkspaceId: null
@@ -2401,7 +4590,10 @@ async function handleLogout(): Promise<void> {
       selectedThreadId: null,
       transcriptsByThreadId: {},
       runningByThreadId: {},
-      unreadByThreadId: {}
+      unreadByThreadId: {},
+      approvalsByWorkspaceId: {},
+      checkpointTurnIdsByThreadId: {},
+      checkpointPreview: null
     },
     stream: {
       socketState: "disconnected",
@@ -2424,15 +4616,73 @@ async function handleLogout(): Promise<void> {
       filesCollapsed: false,
       supported: null,
       branch: null,
+      upstream: null,
       ahead: 0,
       behind: 0,
       clean: true,
       entries: [],
       selectedPath: null,
       diff: "",
+      stagedDiff: "",
+      unstagedDiff: "",
       diffLoading: false,
+      diffMode: "file",
+      workspaceDiff: null,
+      diffBase: null,
+      focusRange: null,
+      pendingAction: null,
+      lastCommit: null,
+      view: "changes",
+      branches: [],
+      history: [],
+      historyHasMore: false,
+      historyLoading: false,
+      selectedCommitSha: null,
+      selectedCommit: null,
       error: null,
       workspaceId: null
+    },
+    runtime: {
+      workspaceId: null,
+      loading: false,
+      action: null,
+      runtime: null,
+      error: null
+    },
+    review: {
+      workspaceId: null,
+      loading: false,
+      starting: false,
+      reviews: [],
+      error: null
+    },
+    files: {
+      active: false,
+      workspaceId: null,
+      directories: {},
+      expandedPaths: [],
+      loadingPaths: [],
+      selectedPath: null,
+      file: null,
+      fileLoading: false,
+      editing: false,
+      saving: false,
+      error: null,
+      searchLoading: false,
+      search: null,
+      searchError: null
+    },
+    terminals: {
+      active: false,
+      workspaceId: null,
+      sessions: [],
+      loading: false,
+      starting: false,
+      selectedTerminalId: null,
+      output: [],
+      outputTruncated: false,
+      connection: "disconnected",
+      error: null
     }
   });
   draftCacheByContext.clear();
@@ -2462,20 +4712,60 @@ async function handleWorkspaceCreate(event: Event): Promise<void> {
     setSelectedThreadId(null);
     appendEvent(`Workspace created: ${response.workspace.displayName}`, "system");
 
-    await loadWorkspaces();
-    dom.workspaceForm.reset();
+    await loadWorkspaces();
+    dom.workspaceForm.reset();
+  } catch (error: unknown) {
+    handleApiError(error, {
+      action: "Create workspace",
+      context: `path "${absolutePath.trim()}"`,
+      nextStep: "Check path permissions and submit again"
+    });
+  } finally {
+    setBusy(false);
+  }
+}
+
+async function handleWorkspacePolicyChange(input: {
+  sandboxMode?: SandboxMode;
+  approvalPolicy?: ApprovalPolicy;
+}): Promise<void> {
+  const workspace = activeWorkspace();
+  if (!workspace) {
+    return;
+  }
+
+  clearError();
+  setBusy(true);
+
+  try {
+    const csrfToken = requireCsrfToken();
+    const response = await apiClient.updateWorkspace(workspace.workspaceId, csrfToken, input);
+    const updatedWorkspace = response.workspace;
+
+    store.patchSlice("workspace", {
+      workspaces: store
+        .getState()
+        .workspace.workspaces.map((entry) =>
+          entry.workspaceId === updatedWorkspace.workspaceId ? updatedWorkspace : entry
+        )
+    });
+    appendEvent(
+      `Runtime policy updated: ${updatedWorkspace.sandboxMode} sandbox, ${updatedWorkspace.approvalPolicy} approvals`,
+      "system"
+    );
   } catch (error: unknown) {
+    renderer.render(new Set(["workspace"]));
     handleApiError(error, {
-      action: "Create workspace",
-      context: `path "${absolutePath.trim()}"`,
-      nextStep: "Check path permissions and submit again"
+      action: "Update runtime policy",
+      context: describeWorkspaceContext(workspace.workspaceId),
+      nextStep: "Choose the policy again after the workspace reconnects"
     });
   } finally {
     setBusy(false);
   }
 }
 
-async function handleStartThread(): Promise<void> {
+async function handleStartThread(options: { worktree?: boolean } = {}): Promise<void> {
   const workspace = activeWorkspace();
   if (!workspace) {
     return;
@@ -2486,13 +4776,17 @@ async function handleStartThread(): Promise<void> {
 
   try {
     const csrfToken = requireCsrfToken();
-    const result = await apiClient.startThread(workspace.workspaceId, csrfToken, {});
+    const result = await apiClient.startThread(
+      workspace.workspaceId,
+      csrfToken,
+      options.worktree ? { worktree: true } : {}
+    );
     const threadId = extractThreadIdFromTurnResult(result);
 
     if (threadId) {
       upsertThreadPlaceholder(workspace.workspaceId, threadId);
       setSelectedThreadId(threadId);
-      appendEvent(`Thread started: ${threadId}`, "system");
+      appendEvent(`${options.worktree ? "Worktree thread" : "Thread"} started: ${threadId}`, "system");
     }
 
     await loadThreads(workspace.workspaceId, {
@@ -2502,7 +4796,7 @@ async function handleStartThread(): Promise<void> {
     });
   } catch (error: unknown) {
     handleApiError(error, {
-      action: "Start thread",
+      action: options.worktree ? "Start worktree thread" : "Start thread",
       context: describeWorkspaceContext(workspace.workspaceId),
       nextStep: "Use Retry Refresh Threads or click Start Thread again"
     });
@@ -2511,6 +4805,104 @@ async function handleStartThread(): Promise<void> {
   }
 }
 
+async function refreshAfterWorktreeChange(workspaceId: string): Promise<void> {
+  await loadThreads(workspaceId, {
+    force: true
+  });
+  if (store.getState().gitReview.workspaceId === workspaceId) {
+    await refreshGitStatus(workspaceId, {
+      autoSelectFirstFile: store.getState().gitReview.active
+    });
+  }
+}
+
+async function handleMergeThreadWorktree(message?: string): Promise<void> {
+  const workspaceId = store.getState().workspace.selectedWorkspaceId;
+  const thread = selectSelectedThread(store.getState());
+  if (!workspaceId || !thread?.worktreeBranch) {
+    return;
+  }
+
+  clearError();
+  setBusy(true);
+
+  let commitMessage: string | null = null;
+  try {
+    const result = await apiClient.mergeThreadWorktree(
+      workspaceId,
+      requireCsrfToken(),
+      thread.threadId,
+      message === undefined ? {} : { message }
+    );
+    appendEvent(
+      result.merged
+        ? `Merged ${result.branch} into ${result.mergedInto ?? "the detached HEAD"}`
+        : `${result.branch} has nothing to merge`,
+      "system"
+    );
+    if (store.getState().gitReview.workspaceId === workspaceId) {
+      applyGitStatusRecord(result.git);
+    }
+    await refreshAfterWorktreeChange(workspaceId);
+  } catch (error: unknown) {
+    if (message === undefined && isDirtyWorktreeError(error)) {
+      const prompt = `Commit message for the uncommitted changes in ${thread.worktreeBranch}`;
+      commitMessage = window.prompt(prompt)?.trim() ?? null;
+    } else {
+      handleApiError(error, {
+        action: `Merge ${thread.worktreeBranch}`,
+        context: describeActionContext(workspaceId, thread.threadId),
+        nextStep: "Resolve the conflict in the worktree or main checkout and merge again"
+      });
+    }
+  } finally {
+    setBusy(false);
+  }
+
+  if (commitMessage) {
+    await handleMergeThreadWorktree(commitMessage);
+  }
+}
+
+async function handleRemoveThreadWorktree(force = false): Promise<void> {
+  const workspaceId = store.getState().workspace.selectedWorkspaceId;
+  const thread = selectSelectedThread(store.getState());
+  if (!workspaceId || !thread?.worktreeBranch) {
+    return;
+  }
+
+  const branch = thread.worktreeBranch;
+  if (!force && !window.confirm(`Remove the worktree for ${branch}? The branch is kept.`)) {
+    return;
+  }
+
+  clearError();
+  setBusy(true);
+
+  let discardChanges = false;
+  try {
+    await apiClient.removeThreadWorktree(workspaceId, requireCsrfToken(), thread.threadId, force ? { force } : {});
+    appendEvent(`Removed worktree for ${branch}${force ? " and discarded its changes" : ""}`, "system");
+    await refreshAfterWorktreeChange(workspaceId);
+  } catch (error: unknown) {
+    if (!force && isDirtyWorktreeError(error)) {
+      discardChanges = window.confirm(`${branch} has uncommitted changes. Discard them and remove the worktree?`);
+    } else {
+      handleApiError(error, {
+        action: `Remove worktree ${branch}`,
+        context: describeActionContext(workspaceId, thread.threadId),
+        nextStep: "Refresh threads and try again"
+      });
+    }
+  } finally {
+    setBusy(false);
+  }
+
+  if (discardChanges) {
+    await handleRemoveThreadWorktree(true);
+  }
+}
+
 async function handleTurnSubmit(event: Event): Promise<void> {
   event.preventDefault();
   const workspace = activeWorkspace();
@@ -2760,6 +5152,10 @@ function activateWorkspaceContext(workspaceId: string): void {
   setSelectedThreadId(null);
   restoreDraftPrompt(workspaceId, null);
   resetGitReviewState(workspaceId);
+  resetRuntimePanelState(workspaceId);
+  resetReviewPanelState(workspaceId);
+  resetFileBrowserState(workspaceId);
+  resetTerminalPanelState(workspaceId);
 
   clearError();
   clearRuntimeEventQueue();
@@ -2855,6 +5251,18 @@ function attachHandlers(): void {
     void handleLoginSubmit(event);
   });
 
+  dom.loginTwoFactorForm.addEventListener("submit", (event) => {
+    void handleLoginTwoFactorSubmit(event);
+  });
+
+  dom.loginTwoFactorCancelButton.addEventListener("click", () => {
+    cancelLoginTwoFactor();
+  });
+
+  dom.loginPasskeyButton.addEventListener("click", () => {
+    void handlePasskeyLogin();
+  });
+
   dom.workspaceForm.addEventListener("submit", (event) => {
     void handleWorkspaceCreate(event);
   });
@@ -2978,6 +5386,40 @@ function attachHandlers(): void {
     }
   });
 
+  dom.transcriptList.addEventListener("click", (event) => {
+    const target = event.target as HTMLElement;
+    const checkpointButton = target.closest<HTMLButtonElement>("button[data-action^='turn-checkpoint-']");
+    if (checkpointButton) {
+      const checkpointAction = checkpointButton.dataset.action;
+      if (checkpointAction === "turn-checkpoint-preview" && checkpointButton.dataset.turnId) {
+        void openTurnCheckpointPreview(checkpointButton.dataset.turnId);
+      } else if (checkpointAction === "turn-checkpoint-revert") {
+        void handleRevertTurnCheckpoint();
+      } else if (checkpointAction === "turn-checkpoint-cancel") {
+        setTurnCheckpointPreview(null);
+      }
+      return;
+    }
+
+    const fileButton = target.closest<HTMLButtonElement>("button[data-action='open-workspace-file']");
+    if (fileButton?.dataset.path) {
+      void revealWorkspaceFile(fileButton.dataset.path);
+      return;
+    }
+
+    const button = target.closest<HTMLButtonElement>("button[data-action='approval-decision']");
+    const requestId = button?.dataset.requestId;
+    const decision = button?.dataset.decision as ApprovalDecision | undefined;
+    if (!button || !requestId || !decision) {
+      return;
+    }
+
+    const reasonInput = button
+      .closest(".approval-card")
+      ?.querySelector<HTMLInputElement>("input[data-role='approval-reason']");
+    void handleApprovalDecision(requestId, decision, reasonInput?.value.trim() ?? "");
+  });
+
   dom.workspaceTree.addEventListener("click", (event) => {
     const target = event.target as HTMLElement;
     const toggleButton = target.closest<HTMLButtonElement>("button[data-action='workspace-toggle']");
@@ -3028,11 +5470,145 @@ function attachHandlers(): void {
     setGitReviewActive(false);
   });
 
+  dom.openFileBrowserButton.addEventListener("click", () => {
+    void openFileBrowser();
+  });
+
+  dom.fileBrowserBackButton.addEventListener("click", () => {
+    setFileBrowserActive(false);
+  });
+
+  dom.fileBrowserRefreshButton.addEventListener("click", () => {
+    void refreshFileBrowser();
+  });
+
+  dom.openTerminalPanelButton.addEventListener("click", () => {
+    void openTerminalPanel();
+  });
+
+  dom.terminalBackButton.addEventListener("click", () => {
+    setTerminalPanelActive(false);
+  });
+
+  dom.terminalRefreshButton.addEventListener("click", () => {
+    const workspaceId = store.getState().terminals.workspaceId;
+    if (workspaceId) {
+      void refreshTerminals(workspaceId);
+    }
+  });
+
+  dom.terminalStartForm.addEventListener("submit", (event) => {
+    event.preventDefault();
+    void handleStartTerminal();
+  });
+
+  dom.terminalSessionList.addEventListener("click", (event) => {
+    const target = event.target as HTMLElement;
+    const button = target.closest<HTMLButtonElement>("button[data-terminal-action]");
+    const terminalId = button?.dataset.terminalId;
+    if (!button || !terminalId) {
+      return;
+    }
+
+    if (button.dataset.terminalAction === "select") {
+      selectTerminal(terminalId);
+    } else if (button.dataset.terminalAction === "close") {
+      void handleCloseTerminal(terminalId);
+    }
+  });
+
+  dom.terminalInputForm.addEventListener("submit", (event) => {
+    event.preventDefault();
+    sendTerminalInput();
+  });
+
+  dom.terminalInterruptButton.addEventListener("click", () => {
+    reportTerminalDisconnected(terminalSocket?.sendSignal("SIGINT"));
+  });
+
+  dom.terminalKillButton.addEventListener("click", () => {
+    reportTerminalDisconnected(terminalSocket?.sendSignal("SIGKILL"));
+  });
+
+  dom.terminalEofButton.addEventListener("click", () => {
+    reportTerminalDisconnected(terminalSocket?.closeInput());
+  });
+
+  dom.fileEditButton.addEventListener("click", () => {
+    startFileEdit();
+  });
+
+  dom.fileCancelEditButton.addEventListener("click", () => {
+    cancelFileEdit();
+  });
+
+  dom.fileSaveButton.addEventListener("click", () => {
+    void handleSaveFile();
+  });
+
+  dom.fileSearchForm.addEventListener("submit", (event) => {
+    event.preventDefault();
+    void handleFileSearch();
+  });
+
+  dom.fileSearchResults.addEventListener("click", (event) => {
+    const target = event.target as HTMLElement;
+    const insertButton = target.closest<HTMLButtonElement>("button[data-action='insert-file-reference']");
+    if (insertButton?.dataset.reference) {
+      insertFileReference(insertButton.dataset.reference);
+      return;
+    }
+
+    const openButton = target.closest<HTMLButtonElement>("button[data-action='open-file-search-result']");
+    if (openButton?.dataset.path) {
+      void revealWorkspaceFile(openButton.dataset.path);
+    }
+  });
+
+  dom.fileBrowserTree.addEventListener("click", (event) => {
+    const target = event.target as HTMLElement;
+    const button = target.closest<HTMLButtonElement>("button[data-file-action]");
+    const entryPath = button?.dataset.path;
+    if (!button || entryPath === undefined) {
+      return;
+    }
+
+    if (button.dataset.fileAction === "toggle-directory") {
+      toggleFileDirectory(entryPath);
+    } else if (button.dataset.fileAction === "open-file") {
+      void openWorkspaceFile(entryPath);
+    }
+  });
+
   dom.gitReviewToggleFilesButton.addEventListener("click", () => {
     const filesCollapsed = store.getState().gitReview.filesCollapsed;
     setGitFilesCollapsed(!filesCollapsed);
   });
 
+  dom.gitReviewDiffContainer.addEventListener("click", (event) => {
+    const target = event.target as HTMLElement;
+    const button = target.closest<HTMLButtonElement>("button[data-git-action]");
+    const action = button?.dataset.gitAction;
+    if (action !== "stage" && action !== "unstage" && action !== "discard") {
+      return;
+    }
+
+    void handleGitChangeAction(action, button?.dataset.hunk ?? null);
+  });
+
+  dom.gitCommitForm.addEventListener("submit", (event) => {
+    event.preventDefault();
+    void handleGitCommit();
+  });
+
+  dom.gitCommitSuggestButton.addEventListener("click", () => {
+    void handleSuggestCommitMessage();
+  });
+
+  dom.gitPushButton.addEventListener("click", () => {
+    void handleGitPush();
+  });
+
   dom.gitReviewRefreshButton.addEventListener("click", () => {
     const workspaceId = store.getState().workspace.selectedWorkspaceId;
     if (!workspaceId) {
@@ -3042,6 +5618,65 @@ function attachHandlers(): void {
     void refreshGitStatus(workspaceId, {
       autoSelectFirstFile: true
     });
+    void refreshGitBranches(workspaceId);
+    if (store.getState().gitReview.view === "history") {
+      void refreshGitHistory(workspaceId);
+    }
+  });
+
+  dom.gitDiffBaseForm.addEventListener("submit", (event) => {
+    event.preventDefault();
+    handleApplyGitDiffBase();
+  });
+
+  dom.gitDiffBaseClearButton.addEventListener("click", () => {
+    handleClearGitDiffBase();
+  });
+
+  dom.gitReviewDiffModeButton.addEventListener("click", () => {
+    setGitDiffMode(store.getState().gitReview.diffMode === "all" ? "file" : "all");
+  });
+
+  dom.gitReviewViewToggleButton.addEventListener("click", () => {
+    setGitReviewView(store.getState().gitReview.view === "history" ? "changes" : "history");
+  });
+
+  dom.gitBranchSelect.addEventListener("change", () => {
+    const branch = dom.gitBranchSelect.value;
+    if (branch.length === 0 || branch === store.getState().gitReview.branch) {
+      return;
+    }
+
+    void handleGitSwitchBranch(branch);
+  });
+
+  dom.gitNewBranchButton.addEventListener("click", () => {
+    const name = window.prompt("New branch name")?.trim();
+    if (!name) {
+      return;
+    }
+
+    void handleGitCreateBranch(name);
+  });
+
+  dom.gitHistoryList.addEventListener("click", (event) => {
+    const target = event.target as HTMLElement;
+    const workspaceId = store.getState().workspace.selectedWorkspaceId;
+    if (!workspaceId) {
+      return;
+    }
+
+    if (target.closest("button[data-action='load-more-history']")) {
+      void refreshGitHistory(workspaceId, {
+        append: true
+      });
+      return;
+    }
+
+    const sha = target.closest<HTMLButtonElement>("button[data-commit-sha]")?.dataset.commitSha;
+    if (sha) {
+      void openGitCommit(workspaceId, sha);
+    }
   });
 
   dom.gitReviewFileList.addEventListener("click", (event) => {
@@ -3057,6 +5692,16 @@ function attachHandlers(): void {
       setGitFilesCollapsed(true);
     }
 
+    if (store.getState().gitReview.diffMode === "all") {
+      store.patchSlice("gitReview", {
+        selectedPath: relativePath
+      });
+      dom.gitReviewDiffContainer
+        .querySelector(`[data-file-path="${CSS.escape(relativePath)}"]`)
+        ?.scrollIntoView({ block: "start" });
+      return;
+    }
+
     void refreshGitDiff(workspaceId, relativePath);
   });
 
@@ -3098,6 +5743,118 @@ function attachHandlers(): void {
     setCompactStatusBursts(dom.settingsCompactStatusBurstsInput.checked);
   });
 
+  dom.settingsSandboxModeSelect.addEventListener("change", () => {
+    void handleWorkspacePolicyChange({
+      sandboxMode: dom.settingsSandboxModeSelect.value as SandboxMode
+    });
+  });
+
+  dom.settingsApprovalPolicySelect.addEventListener("change", () => {
+    void handleWorkspacePolicyChange({
+      approvalPolicy: dom.settingsApprovalPolicySelect.value as ApprovalPolicy
+    });
+  });
+
+  dom.runtimePanel.addEventListener("toggle", () => {
+    const selectedWorkspaceId = store.getState().workspace.selectedWorkspaceId;
+    if (dom.runtimePanel.open && selectedWorkspaceId) {
+      void refreshWorkspaceRuntime(selectedWorkspaceId);
+    }
+  });
+
+  dom.devicesPanel.addEventListener("toggle", () => {
+    if (dom.devicesPanel.open && store.getState().session.authenticated) {
+      void refreshDeviceSessions();
+    }
+  });
+
+  dom.devicesRefreshButton.addEventListener("click", () => {
+    void refreshDeviceSessions();
+  });
+
+  dom.twoFactorPanel.addEventListener("toggle", () => {
+    if (dom.twoFactorPanel.open && store.getState().session.authenticated) {
+      void refreshTwoFactorStatus();
+    }
+  });
+
+  dom.twoFactorEnableButton.addEventListener("click", () => {
+    void handleEnableTwoFactor();
+  });
+
+  dom.twoFactorForm.addEventListener("submit", (event) => {
+    void handleTwoFactorCodeSubmit(event);
+  });
+
+  dom.passkeysPanel.addEventListener("toggle", () => {
+    if (dom.passkeysPanel.open && store.getState().session.authenticated) {
+      void refreshPasskeys();
+    }
+  });
+
+  dom.passkeysForm.addEventListener("submit", (event) => {
+    void handleAddPasskey(event);
+  });
+
+  dom.passkeysList.addEventListener("click", (event) => {
+    const target = event.target as HTMLElement;
+    const passkeyId = target.closest<HTMLButtonElement>("button[data-passkey-id]")?.dataset.passkeyId;
+    if (passkeyId) {
+      void handleRemovePasskey(passkeyId);
+    }
+  });
+
+  dom.devicesList.addEventListener("click", (event) => {
+    const target = event.target as HTMLElement;
+    const sessionId = target.closest<HTMLButtonElement>("button[data-session-id]")?.dataset.sessionId;
+    if (sessionId) {
+      void handleRevokeDeviceSession(sessionId);
+    }
+  });
+
+  dom.runtimeRefreshButton.addEventListener("click", () => {
+    const selectedWorkspaceId = store.getState().workspace.selectedWorkspaceId;
+    if (selectedWorkspaceId) {
+      void refreshWorkspaceRuntime(selectedWorkspaceId);
+    }
+  });
+
+  dom.runtimeRestartButton.addEventListener("click", () => {
+    void handleRuntimeAction("restart");
+  });
+
+  dom.runtimeStopButton.addEventListener("click", () => {
+    void handleRuntimeAction("stop");
+  });
+
+  dom.reviewPanel.addEventListener("toggle", () => {
+    const selectedWorkspaceId = store.getState().workspace.selectedWorkspaceId;
+    if (dom.reviewPanel.open && selectedWorkspaceId) {
+      void refreshReviews(selectedWorkspaceId);
+    }
+  });
+
+  dom.reviewTargetTypeSelect.addEventListener("change", () => {
+    syncReviewTargetInput();
+  });
+
+  dom.reviewForm.addEventListener("submit", (event) => {
+    event.preventDefault();
+    void handleStartReview();
+  });
+
+  dom.reviewList.addEventListener("click", (event) => {
+    const target = event.target as HTMLElement;
+    const button = target.closest<HTMLButtonElement>("button[data-action='open-finding']");
+    const reviewId = button?.dataset.reviewId;
+    const findingIndex = Number.parseInt(button?.dataset.findingIndex ?? "", 10);
+    if (!reviewId || Number.isNaN(findingIndex)) {
+      return;
+    }
+
+    void openReviewFinding(reviewId, findingIndex);
+  });
+
   dom.refreshThreadsButton.addEventListener("click", () => {
     const selectedWorkspaceId = store.getState().workspace.selectedWorkspaceId;
     if (!selectedWorkspaceId) {
@@ -3128,6 +5885,18 @@ function attachHandlers(): void {
     void handleStartThread();
   });
 
+  dom.startWorktreeThreadButton.addEventListener("click", () => {
+    void handleStartThread({ worktree: true });
+  });
+
+  dom.mergeThreadWorktreeButton.addEventListener("click", () => {
+    void handleMergeThreadWorktree();
+  });
+
+  dom.removeThreadWorktreeButton.addEventListener("click", () => {
+    void handleRemoveThreadWorktree();
+  });
+
   dom.interruptTurnButton.addEventListener("click", () => {
     void handleInterruptTurn();
   });
@@ -1,15 +1,68 @@
-import type { WorkspaceRecord } from "../lib/api-client.js";
+import type {
+  ApprovalKind,
+  AuthDeviceSessionRecord,
+  AuthMode,
+  GitBranchRecord,
+  GitChangeAction,
+  GitCheckpointPreviewRecord,
+  GitCommitDetailRecord,
+  GitCommitRecord,
+  GitLogEntryRecord,
+  GitWorkspaceDiffRecord,
+  PasskeyRecord,
+  ReviewRecord,
+  TerminalSessionRecord,
+  TwoFactorEnrollmentRecord,
+  TwoFactorStatusRecord,
+  WorkspaceDirectoryRecord,
+  WorkspaceFileRecord,
+  WorkspaceRecord,
+  WorkspaceRuntimeRecord,
+  WorkspaceSearchRecord
+} from "../lib/api-client.js";
 import type { ThreadListItem } from "../lib/normalize.js";
+import type { LineRange } from "../lib/reviews.js";
+import type { TerminalOutputChunk } from "../lib/terminal-socket.js";
 import type { SocketConnectionState } from "../lib/ws-reconnect.js";
 
 export interface SessionState {
   authenticated: boolean;
+  // Unknown until the first session check; multi-user mode asks for a username at login.
+  authMode: AuthMode | null;
+  username: string | null;
+  // Pending second login step after the password was accepted.
+  twoFactorChallenge: string | null;
   csrfToken: string | null;
   busy: boolean;
   error: string | null;
   errorRetryLabel: string | null;
 }
 
+export interface DeviceSessionsState {
+  loading: boolean;
+  revokingId: string | null;
+  sessions: AuthDeviceSessionRecord[];
+  error: string | null;
+}
+
+export interface TwoFactorState {
+  loading: boolean;
+  busy: boolean;
+  status: TwoFactorStatusRecord | null;
+  enrollment: TwoFactorEnrollmentRecord | null;
+  // Shown once, right after enrollment is confirmed.
+  recoveryCodes: string[];
+  error: string | null;
+}
+
+export interface PasskeysState {
+  loading: boolean;
+  busy: boolean;
+  removingId: string | null;
+  passkeys: PasskeyRecord[];
+  error: string | null;
+}
+
 export interface WorkspaceState {
   workspaces: WorkspaceRecord[];
   selectedWorkspaceId: string | null;
@@ -25,6 +78,9 @@ export interface ThreadState {
   transcriptsByThreadId: Record<string, ThreadTranscriptState>;
   runningByThreadId: Record<string, boolean>;
   unreadByThreadId: Record<string, boolean>;
+  approvalsByWorkspaceId: Record<string, ApprovalCard[]>;
+  checkpointTurnIdsByThreadId: Record<string, string[]>;
+  checkpointPreview: TurnCheckpointPreviewState | null;
 }
 
 export type ThreadListHydration = "idle" | "loading" | "loaded" | "error";
@@ -71,6 +127,31 @@ export interface FileChangeInfo {
 
 export type TranscriptItem = TranscriptMessageItem | TranscriptReasoningItem | TranscriptToolItem;
 
+export type ApprovalCardStatus = "pending" | "submitting" | "approved" | "denied" | "expired";
+
+export interface ApprovalCard {
+  requestId: string;
+  kind: ApprovalKind;
+  threadId: string | null;
+  turnId: string | null;
+  command: string | null;
+  cwd: string | null;
+  reason: string | null;
+  expiresAt: string | null;
+  status: ApprovalCardStatus;
+  resolutionNote: string | null;
+}
+
+export type TurnCheckpointPreviewStatus = "loading" | "ready" | "reverting" | "error";
+
+export interface TurnCheckpointPreviewState {
+  threadId: string;
+  turnId: string;
+  status: TurnCheckpointPreviewStatus;
+  preview: GitCheckpointPreviewRecord | null;
+  error: string | null;
+}
+
 export type ThreadTranscriptHydration = "idle" | "loading" | "loaded" | "error";
 
 export interface ThreadTranscriptState {
@@ -129,29 +210,119 @@ export interface GitStatusEntry {
   originalPath?: string;
 }
 
+export type GitReviewAction =
+  | GitChangeAction
+  | "commit"
+  | "push"
+  | "suggestMessage"
+  | "switchBranch"
+  | "createBranch";
+
+export type GitReviewView = "changes" | "history";
+
+export type GitDiffMode = "file" | "all";
+
+export interface GitDiffBaseSelection {
+  ref: string;
+  mergeBase: boolean;
+  includeWorkingTree: boolean;
+}
+
 export interface GitReviewState {
   active: boolean;
   loading: boolean;
   filesCollapsed: boolean;
   supported: boolean | null;
   branch: string | null;
+  upstream: string | null;
   ahead: number;
   behind: number;
   clean: boolean;
   entries: GitStatusEntry[];
   selectedPath: string | null;
   diff: string;
+  stagedDiff: string;
+  unstagedDiff: string;
   diffLoading: boolean;
+  diffMode: GitDiffMode;
+  workspaceDiff: GitWorkspaceDiffRecord | null;
+  diffBase: GitDiffBaseSelection | null;
+  focusRange: LineRange | null;
+  pendingAction: GitReviewAction | null;
+  lastCommit: GitCommitRecord | null;
+  view: GitReviewView;
+  branches: GitBranchRecord[];
+  history: GitLogEntryRecord[];
+  historyHasMore: boolean;
+  historyLoading: boolean;
+  selectedCommitSha: string | null;
+  selectedCommit: GitCommitDetailRecord | null;
+  error: string | null;
+  workspaceId: string | null;
+}
+
+export type RuntimePanelAction = "restart" | "stop";
+
+export interface RuntimePanelState {
+  workspaceId: string | null;
+  loading: boolean;
+  action: RuntimePanelAction | null;
+  runtime: WorkspaceRuntimeRecord | null;
+  error: string | null;
+}
+
+export interface ReviewPanelState {
+  workspaceId: string | null;
+  loading: boolean;
+  starting: boolean;
+  reviews: ReviewRecord[];
+  error: string | null;
+}
+
+export interface FileBrowserState {
+  active: boolean;
+  workspaceId: string | null;
+  directories: Record<string, WorkspaceDirectoryRecord>;
+  expandedPaths: string[];
+  loadingPaths: string[];
+  selectedPath: string | null;
+  file: WorkspaceFileRecord | null;
+  fileLoading: boolean;
+  editing: boolean;
+  saving: boolean;
   error: string | null;
+  searchLoading: boolean;
+  search: WorkspaceSearchRecord | null;
+  searchError: string | null;
+}
+
+export interface TerminalPanelState {
+  active: boolean;
   workspaceId: string | null;
+  sessions: TerminalSessionRecord[];
+  loading: boolean;
+  starting: boolean;
+  selectedTerminalId: string | null;
+  // Output of the selected session only; selecting another one replays its buffer from the server.
+  output: TerminalOutputChunk[];
+  outputTruncated: boolean;
+  connection: SocketConnectionState;
+  error: string | null;
 }
 
 export interface AppState {
   session: SessionState;
+  devices: DeviceSessionsState;
+  twoFactor: TwoFactorState;
+  passkeys: PasskeysState;
   workspace: WorkspaceState;
   thread: ThreadState;
   stream: StreamState;
   gitReview: GitReviewState;
+  runtime: RuntimePanelState;
+  review: ReviewPanelState;
+  files: FileBrowserState;
+  terminals: TerminalPanelState;
 }
 
 export type AppStateKey = keyof AppState;
@@ -1,17 +1,50 @@
+import { approvalCardsForThread } from "../lib/approvals.js";
+import type {
+  AuthDeviceSessionRecord,
+  GitChangeAction,
+  GitCommitDetailRecord,
+  GitLogEntryRecord,
+  GitWorkspaceDiffFileRecord,
+  GitWorkspaceDiffRecord,
+  PasskeyRecord,
+  ReviewFindingRecord,
+  ReviewRecord,
+  TerminalSessionRecord,
+  WorkspaceFileEntryRecord,
+  WorkspaceFileRecord,
+  WorkspaceSearchMatchRecord
+} from "../lib/api-client.js";
+import {
+  describeFindingLocation,
+  describeReviewTarget,
+  hunkOverlapsRange,
+  type LineRange
+} from "../lib/reviews.js";
+import { describeRuntimeDetails, describeRuntimeHeadline } from "../lib/runtime-status.js";
+import { detectSyntaxLanguage, highlightSource } from "../lib/syntax-highlight.js";
+import type { TerminalOutputChunk } from "../lib/terminal-socket.js";
+import { isPasskeySupported } from "../lib/webauthn.js";
 import type {
   AppState,
   AppStateKey,
+  ApprovalCard,
+  ApprovalCardStatus,
   DraftImageAttachment,
+  FileBrowserState,
   FileChangeInfo,
+  GitReviewState,
   GitStatusEntry,
+  TerminalPanelState,
   ThreadTranscriptState,
   TimelineEventCategory,
   TimelineEventEntry,
   TranscriptItem,
+  TurnCheckpointPreviewState,
   TurnExecutionPhase
 } from "../state/app-state.js";
 import {
   selectActiveWorkspace,
+  selectSelectedThread,
   selectSelectedThreadLabel,
   selectThreadActionsDisabled,
   selectWorkspaceActionsDisabled
@@ -51,6 +84,14 @@ const COMPOSER_TEXTAREA_MIN_HEIGHT_PX = 42;
 const COMPOSER_TEXTAREA_MAX_HEIGHT_RATIO = 0.22;
 const COMPOSER_TEXTAREA_MAX_HEIGHT_PX = 160;
 
+const APPROVAL_STATUS_LABELS: Record<ApprovalCardStatus, string> = {
+  pending: "Waiting for approval",
+  submitting: "Sending decision...",
+  approved: "Approved",
+  denied: "Denied",
+  expired: "Expired"
+};
+
 interface TurnStatusPresentation {
   label: string;
   description: string;
@@ -435,6 +476,17 @@ function formatGitBranchLabel(state: Readonly<AppState>): string {
   return `${branch}${relation} · ${summary}`;
 }
 
+function describeWorkspaceDiffBase(workspaceDiff: GitWorkspaceDiffRecord): string {
+  const base = workspaceDiff.base;
+  if (!base) {
+    return "Uncommitted changes";
+  }
+
+  const scope = workspaceDiff.compare === "head" ? "Committed changes" : "All changes";
+  const baseLabel = base.mergeBase ? `merge-base with ${base.ref} (${base.sha.slice(0, 7)})` : base.ref;
+  return `${scope} since ${baseLabel}`;
+}
+
 function looksLikeOpaqueThreadId(value: string): boolean {
   const normalized = value.trim().toLowerCase();
   if (normalized.length === 0) {
@@ -460,6 +512,17 @@ function formatConversationHeading(selectedThreadLabel: string): string {
   return looksLikeOpaqueThreadId(selectedThreadLabel) ? "Conversation" : truncateInlineText(selectedThreadLabel, 52);
 }
 
+function describeTerminalSession(session: TerminalSessionRecord): string {
+  if (session.status === "running") {
+    return "Running";
+  }
+  if (session.error) {
+    return `Failed: ${session.error}`;
+  }
+
+  return session.signal ? `Stopped by ${session.signal}` : `Exited with code ${session.exitCode ?? "?"}`;
+}
+
 function formatBytes(bytes: number): string {
   if (bytes < 1_024) {
     return `${bytes} B`;
@@ -641,6 +704,15 @@ export class AppRenderer {
   private lastRenderedTranscriptThreadId: string | null = null;
   private lastRenderedTranscriptRef: ThreadTranscriptState | null = null;
   private lastRenderedTranscriptPlaceholder = "";
+  private lastRenderedApprovalsRef: ApprovalCard[] | null = null;
+  private lastRenderedCheckpointTurnIdsRef: string[] | null = null;
+  private lastRenderedCheckpointPreviewRef: TurnCheckpointPreviewState | null = null;
+  private lastRenderedFileRef: WorkspaceFileRecord | null = null;
+  private lastRenderedFileLoading = false;
+  private lastRenderedFileEditing = false;
+  private lastRenderedTerminalOutput: TerminalOutputChunk[] | null = null;
+  private lastRenderedTerminalId: string | null = null;
+  private readonly approvalReasonDrafts = new Map<string, string>();
   private lastRenderedEventsRef: TimelineEventEntry[] | null = null;
   private lastRenderedShowInternalEvents = false;
   private lastRenderedShowStatusEvents = false;
@@ -687,7 +759,9 @@ export class AppRenderer {
   }
 
   renderAll(): void {
-    this.render(new Set(["session", "workspace", "thread", "stream", "gitReview"]));
+    this.render(
+      new Set(["session", "workspace", "thread", "stream", "gitReview", "runtime", "review", "files", "terminals"])
+    );
   }
 
   render(changedSlices: ReadonlySet<AppStateKey>): void {
@@ -696,7 +770,11 @@ export class AppRenderer {
       changedSlices.has("workspace") ||
       changedSlices.has("thread") ||
       changedSlices.has("stream") ||
-      changedSlices.has("gitReview")
+      changedSlices.has("gitReview") ||
+      changedSlices.has("runtime") ||
+      changedSlices.has("review") ||
+      changedSlices.has("files") ||
+      changedSlices.has("terminals")
     ) {
       this.renderHeader();
       this.renderActionStates();
@@ -715,6 +793,10 @@ export class AppRenderer {
       this.renderContextLabels();
     }
 
+    if (changedSlices.has("workspace") && !changedSlices.has("stream")) {
+      this.renderSettingsControls();
+    }
+
     if (changedSlices.has("thread")) {
       this.renderContextLabels();
       this.renderTranscript();
@@ -731,6 +813,35 @@ export class AppRenderer {
     if (changedSlices.has("gitReview") || changedSlices.has("workspace") || changedSlices.has("session")) {
       this.renderGitReview();
     }
+
+    if (changedSlices.has("runtime") || changedSlices.has("workspace")) {
+      this.renderRuntimePanel();
+    }
+
+    if (changedSlices.has("devices")) {
+      this.renderDevicesPanel();
+    }
+
+    if (changedSlices.has("twoFactor")) {
+      this.renderTwoFactorPanel();
+    }
+
+    if (changedSlices.has("passkeys")) {
+      this.renderPasskeysPanel();
+    }
+
+    if (changedSlices.has("review") || changedSlices.has("workspace")) {
+      this.renderReviewPanel();
+    }
+
+    if (changedSlices.has("files") || changedSlices.has("workspace") || changedSlices.has("session")) {
+      this.renderFileSearch();
+      this.renderFileBrowser();
+    }
+
+    if (changedSlices.has("terminals") || changedSlices.has("workspace") || changedSlices.has("session")) {
+      this.renderTerminalPanel();
+    }
   }
 
   private renderHeader(): void {
@@ -744,8 +855,19 @@ export class AppRenderer {
 
   private renderAuthVisibility(): void {
     const state = this.readState();
+    const multiUser = state.session.authMode === "multi_user";
     setHidden(this.dom.loginPanel, state.session.authenticated);
     setHidden(this.dom.appPanels, !state.session.authenticated);
+    setHidden(this.dom.loginUsernameField, !multiUser);
+    const awaitingSecondFactor = state.session.twoFactorChallenge !== null;
+    setHidden(this.dom.loginForm, awaitingSecondFactor);
+    setHidden(this.dom.loginTwoFactorForm, !awaitingSecondFactor);
+    setHidden(this.dom.loginPasskeyButton, awaitingSecondFactor || !isPasskeySupported());
+    this.dom.loginUsernameInput.required = multiUser;
+
+    const username = state.session.authenticated ? state.session.username : null;
+    this.dom.sessionUserText.textContent = username ?? "";
+    setHidden(this.dom.sessionUserText, username === null);
   }
 
   private renderError(): void {
@@ -790,11 +912,22 @@ export class AppRenderer {
     this.dom.errorRetryButton.disabled = state.session.busy || state.session.errorRetryLabel === null;
 
     this.dom.loginSubmitButton.disabled = state.session.busy;
+    this.dom.loginTwoFactorSubmitButton.disabled = state.session.busy;
+    this.dom.loginTwoFactorCancelButton.disabled = state.session.busy;
+    this.dom.loginPasskeyButton.disabled = state.session.busy;
     this.dom.workspaceSubmitButton.disabled = state.session.busy;
 
     this.dom.reconnectEventsButton.disabled = threadActionsDisabled;
     this.dom.refreshThreadsButton.disabled = threadActionsDisabled;
     this.dom.startThreadButton.disabled = threadActionsDisabled;
+    this.dom.startWorktreeThreadButton.disabled = threadActionsDisabled || state.gitReview.supported === false;
+
+    const worktreeBranch = selectSelectedThread(state)?.worktreeBranch ?? null;
+    setHidden(this.dom.threadWorktreeActions, worktreeBranch === null);
+    this.dom.threadWorktreeLabel.textContent = worktreeBranch === null ? "" : `Worktree: ${worktreeBranch}`;
+    this.dom.threadWorktreeLabel.title = worktreeBranch ?? "";
+    this.dom.mergeThreadWorktreeButton.disabled = threadActionsDisabled || worktreeBranch === null;
+    this.dom.removeThreadWorktreeButton.disabled = threadActionsDisabled || worktreeBranch === null;
     this.dom.startTurnButton.disabled =
       threadActionsDisabled ||
       turnRequestInFlight ||
@@ -809,6 +942,9 @@ export class AppRenderer {
     this.dom.settingsShowStatusEventsInput.disabled = disableSettings;
     this.dom.settingsShowInternalEventsInput.disabled = disableSettings;
     this.dom.settingsCompactStatusBurstsInput.disabled = disableSettings;
+    const disablePolicySettings = disableSettings || selectActiveWorkspace(state) === null;
+    this.dom.settingsSandboxModeSelect.disabled = disablePolicySettings;
+    this.dom.settingsApprovalPolicySelect.disabled = disablePolicySettings;
 
     const mediaActionsDisabled =
       threadActionsDisabled ||
@@ -843,6 +979,58 @@ export class AppRenderer {
     this.dom.gitReviewToggleFilesButton.disabled =
       !state.gitReview.active || !hasFileEntries || state.gitReview.loading || state.gitReview.supported === false;
     this.dom.gitReviewToggleFilesButton.textContent = state.gitReview.filesCollapsed ? "Show Files" : "Hide Files";
+    this.dom.gitReviewDiffModeButton.disabled =
+      !state.gitReview.active ||
+      !hasFileEntries ||
+      state.gitReview.supported !== true ||
+      state.gitReview.diffBase !== null;
+    const diffBaseDisabled = !state.gitReview.active || state.gitReview.supported !== true;
+    this.dom.gitDiffBaseInput.disabled = diffBaseDisabled;
+    this.dom.gitDiffBaseApplyButton.disabled = diffBaseDisabled || state.gitReview.diffLoading;
+    this.dom.gitDiffBaseClearButton.disabled = diffBaseDisabled || state.gitReview.diffBase === null;
+    this.dom.gitReviewDiffModeButton.textContent = state.gitReview.diffMode === "all" ? "One File" : "All Files";
+
+    const git = state.gitReview;
+    const gitActionsDisabled = !git.active || git.supported !== true || git.loading || git.pendingAction !== null;
+    const hasStagedEntries = git.entries.some((entry) => entry.staged !== " " && entry.staged !== "?");
+    this.dom.gitCommitSuggestButton.disabled = gitActionsDisabled || !hasStagedEntries;
+    this.dom.gitCommitSuggestButton.textContent = git.pendingAction === "suggestMessage" ? "Drafting..." : "Suggest";
+    this.dom.gitCommitSubmitButton.disabled = gitActionsDisabled;
+    this.dom.gitCommitSubmitButton.textContent = git.pendingAction === "commit" ? "Committing..." : "Commit";
+    this.dom.gitPushButton.disabled = gitActionsDisabled || git.upstream === null;
+    this.dom.gitPushButton.textContent =
+      git.pendingAction === "push" ? "Pushing..." : git.ahead > 0 ? `Push (${git.ahead})` : "Push";
+    this.dom.gitPushButton.title = git.upstream ? `Push to ${git.upstream}` : "This branch has no upstream";
+    this.dom.gitBranchSelect.disabled = gitActionsDisabled || git.branches.length === 0;
+    this.dom.gitNewBranchButton.disabled = gitActionsDisabled;
+    this.dom.gitNewBranchButton.textContent = git.pendingAction === "createBranch" ? "Creating..." : "New Branch";
+    this.dom.gitReviewViewToggleButton.disabled = !git.active || git.supported !== true;
+    this.dom.gitReviewViewToggleButton.textContent = git.view === "history" ? "Changes" : "History";
+
+    const runtimeActionsDisabled =
+      workspaceActionsDisabled ||
+      !state.workspace.selectedWorkspaceId ||
+      state.runtime.loading ||
+      state.runtime.action !== null;
+    this.dom.runtimeRefreshButton.disabled = runtimeActionsDisabled;
+    this.dom.runtimeRestartButton.disabled = runtimeActionsDisabled;
+    this.dom.runtimeStopButton.disabled = runtimeActionsDisabled || state.runtime.runtime?.state === "stopped";
+    this.dom.runtimeRestartButton.textContent = state.runtime.action === "restart" ? "Restarting..." : "Restart";
+    this.dom.runtimeStopButton.textContent = state.runtime.action === "stop" ? "Stopping..." : "Stop";
+
+    this.dom.reviewStartButton.disabled =
+      workspaceActionsDisabled || !state.workspace.selectedWorkspaceId || state.review.starting;
+    this.dom.reviewStartButton.textContent = state.review.starting ? "Starting..." : "Start Review";
+
+    const files = state.files;
+    this.dom.openFileBrowserButton.disabled = workspaceActionsDisabled || !state.workspace.selectedWorkspaceId;
+    this.dom.fileBrowserRefreshButton.disabled =
+      !files.active || files.loadingPaths.length > 0 || files.fileLoading;
+    this.dom.fileBrowserBackButton.disabled = !files.active;
+    this.dom.fileSearchSubmitButton.disabled =
+      workspaceActionsDisabled || !state.workspace.selectedWorkspaceId || files.searchLoading;
+    this.dom.fileSearchSubmitButton.textContent = files.searchLoading ? "Searching..." : "Search";
+    this.dom.openTerminalPanelButton.disabled = workspaceActionsDisabled || !state.workspace.selectedWorkspaceId;
   }
 
   private renderWorkspaceThreadTree(): void {
@@ -978,6 +1166,12 @@ export class AppRenderer {
               threadBadgeStack.append(createNavigationStateChip("archived", "Archived"));
             }
 
+            if (thread.worktreeBranch) {
+              const worktreeChip = createNavigationStateChip("worktree", "Worktree");
+              worktreeChip.title = thread.worktreeBranch;
+              threadBadgeStack.append(worktreeChip);
+            }
+
             if (isRunning) {
               threadBadgeStack.append(createNavigationStateChip("running", "Running"));
             }
@@ -1250,6 +1444,669 @@ export class AppRenderer {
     this.dom.settingsShowStatusEventsInput.checked = state.stream.showStatusEvents;
     this.dom.settingsShowInternalEventsInput.checked = state.stream.showInternalEvents;
     this.dom.settingsCompactStatusBurstsInput.checked = state.stream.compactStatusBursts;
+
+    const workspace = selectActiveWorkspace(state);
+    if (!workspace) {
+      this.dom.runtimePolicyNote.textContent = "Runtime policy: select a workspace";
+      return;
+    }
+
+    this.dom.settingsSandboxModeSelect.value = workspace.sandboxMode;
+    this.dom.settingsApprovalPolicySelect.value = workspace.approvalPolicy;
+    this.dom.runtimePolicyNote.textContent = `Runtime policy for ${workspace.displayName}${
+      workspace.trusted ? "" : " (untrusted)"
+    }`;
+  }
+
+  private renderRuntimePanel(): void {
+    const state = this.readState();
+    const runtimeState = state.runtime;
+    const selectedWorkspaceId = state.workspace.selectedWorkspaceId;
+    const runtime = runtimeState.workspaceId === selectedWorkspaceId ? runtimeState.runtime : null;
+
+    this.dom.runtimeDetailsList.replaceChildren();
+    if (!selectedWorkspaceId) {
+      this.dom.runtimeStatusText.textContent = "Select a workspace to inspect its runtime.";
+    } else if (runtimeState.error && runtimeState.workspaceId === selectedWorkspaceId) {
+      this.dom.runtimeStatusText.textContent = runtimeState.error;
+    } else if (!runtime) {
+      this.dom.runtimeStatusText.textContent = runtimeState.loading ? "Loading runtime status..." : "Runtime status not loaded.";
+    } else {
+      this.dom.runtimeStatusText.textContent = describeRuntimeHeadline(runtime);
+      for (const detail of describeRuntimeDetails(runtime)) {
+        const item = document.createElement("li");
+        item.textContent = detail;
+        this.dom.runtimeDetailsList.append(item);
+      }
+    }
+
+    const stderrTail = runtime?.stderrTail ?? [];
+    this.dom.runtimeStderr.textContent = stderrTail.join("\n");
+    setHidden(this.dom.runtimeStderr, stderrTail.length === 0);
+  }
+
+  private renderDevicesPanel(): void {
+    const devices = this.readState().devices;
+
+    if (devices.error) {
+      this.dom.devicesStatusText.textContent = devices.error;
+    } else if (devices.sessions.length === 0) {
+      this.dom.devicesStatusText.textContent = devices.loading
+        ? "Loading signed-in devices..."
+        : "Open to list signed-in devices.";
+    } else {
+      const count = devices.sessions.length;
+      this.dom.devicesStatusText.textContent = `${count} signed-in device${count === 1 ? "" : "s"}`;
+    }
+
+    const fragment = document.createDocumentFragment();
+    for (const session of devices.sessions) {
+      fragment.append(this.createDeviceSessionItem(session, devices.revokingId === session.id));
+    }
+    this.dom.devicesList.replaceChildren(fragment);
+  }
+
+  private renderTwoFactorPanel(): void {
+    const twoFactor = this.readState().twoFactor;
+    const { status, enrollment, recoveryCodes } = twoFactor;
+
+    if (twoFactor.error) {
+      this.dom.twoFactorStatusText.textContent = twoFactor.error;
+    } else if (recoveryCodes.length > 0) {
+      this.dom.twoFactorStatusText.textContent =
+        "Two-factor is on. Save these recovery codes now; each works once and they are not shown again.";
+    } else if (enrollment) {
+      this.dom.twoFactorStatusText.textContent = "Add the key to your authenticator app, then enter the code it shows.";
+    } else if (!status) {
+      this.dom.twoFactorStatusText.textContent = twoFactor.loading
+        ? "Loading two-factor settings..."
+        : "Open to load two-factor settings.";
+    } else if (status.enabled) {
+      const remaining = status.recoveryCodesRemaining;
+      this.dom.twoFactorStatusText.textContent = `Two-factor is on · ${remaining} recovery code${
+        remaining === 1 ? "" : "s"
+      } left. Enter a code to turn it off.`;
+    } else {
+      this.dom.twoFactorStatusText.textContent = "Two-factor is off. Sign-ins only need the password.";
+    }
+
+    setHidden(this.dom.twoFactorEnrollment, enrollment === null);
+    this.dom.twoFactorLink.href = enrollment?.otpauthUri ?? "#";
+    this.dom.twoFactorSecret.textContent = enrollment?.secret.replace(/(.{4})/g, "$1 ").trim() ?? "";
+
+    setHidden(this.dom.twoFactorRecoveryCodes, recoveryCodes.length === 0);
+    this.dom.twoFactorRecoveryCodes.textContent = recoveryCodes.join("\n");
+
+    const canSubmitCode = enrollment !== null || (status?.enabled ?? false);
+    setHidden(this.dom.twoFactorForm, status === null);
+    setHidden(this.dom.twoFactorCodeInput, !canSubmitCode);
+    setHidden(this.dom.twoFactorSubmitButton, !canSubmitCode);
+    setHidden(this.dom.twoFactorEnableButton, canSubmitCode);
+    this.dom.twoFactorSubmitButton.textContent = enrollment ? "Confirm" : "Turn Off";
+    this.dom.twoFactorEnableButton.disabled = twoFactor.busy;
+    this.dom.twoFactorSubmitButton.disabled = twoFactor.busy;
+  }
+
+  private renderPasskeysPanel(): void {
+    const passkeys = this.readState().passkeys;
+
+    if (passkeys.error) {
+      this.dom.passkeysStatusText.textContent = passkeys.error;
+    } else if (!isPasskeySupported()) {
+      this.dom.passkeysStatusText.textContent = "This browser cannot use passkeys here; open the app over HTTPS.";
+    } else if (passkeys.passkeys.length === 0) {
+      this.dom.passkeysStatusText.textContent = passkeys.loading
+        ? "Loading passkeys..."
+        : "No passkeys yet. Add one to sign in on this device without the password.";
+    } else {
+      const count = passkeys.passkeys.length;
+      this.dom.passkeysStatusText.textContent = `${count} passkey${count === 1 ? "" : "s"}`;
+    }
+
+    const fragment = document.createDocumentFragment();
+    for (const passkey of passkeys.passkeys) {
+      fragment.append(this.createPasskeyItem(passkey, passkeys.removingId === passkey.id));
+    }
+    this.dom.passkeysList.replaceChildren(fragment);
+
+    setHidden(this.dom.passkeysForm, !isPasskeySupported());
+    this.dom.passkeysAddButton.disabled = passkeys.busy;
+    this.dom.passkeysAddButton.textContent = passkeys.busy ? "Waiting for device..." : "Add Passkey";
+  }
+
+  private createPasskeyItem(passkey: PasskeyRecord, removing: boolean): HTMLElement {
+    const section = document.createElement("section");
+    section.className = "device-session passkey-item";
+
+    const heading = document.createElement("p");
+    heading.className = "device-session-heading";
+    const title = document.createElement("strong");
+    title.textContent = truncateInlineText(passkey.label, 60);
+    heading.append(title);
+
+    const meta = document.createElement("p");
+    meta.className = "device-session-meta";
+    const lastUsed = passkey.lastUsedAt
+      ? `used ${formatRelativeTimestamp(passkey.lastUsedAt) ?? passkey.lastUsedAt}`
+      : "never used";
+    meta.textContent = `Added ${formatRelativeTimestamp(passkey.createdAt) ?? passkey.createdAt} · ${lastUsed}`;
+
+    const removeButton = document.createElement("button");
+    removeButton.type = "button";
+    removeButton.className = "button-secondary device-session-revoke";
+    removeButton.dataset.passkeyId = passkey.id;
+    removeButton.disabled = removing;
+    removeButton.textContent = removing ? "Removing..." : "Remove";
+
+    section.append(heading, meta, removeButton);
+    return section;
+  }
+
+  private createDeviceSessionItem(session: AuthDeviceSessionRecord, revoking: boolean): HTMLElement {
+    const section = document.createElement("section");
+    section.className = "device-session";
+    section.classList.toggle("is-current", session.current);
+
+    const heading = document.createElement("p");
+    heading.className = "device-session-heading";
+    const title = document.createElement("strong");
+    title.textContent = truncateInlineText(session.userAgent ?? "Unknown device", 60);
+    title.title = session.userAgent ?? "";
+    heading.append(title);
+    if (session.current) {
+      const badge = document.createElement("span");
+      badge.className = "device-session-badge";
+      badge.textContent = "This device";
+      heading.append(badge);
+    }
+
+    const meta = document.createElement("p");
+    meta.className = "device-session-meta";
+    meta.textContent = `Active ${formatRelativeTimestamp(session.lastSeenAt) ?? session.lastSeenAt} · signed in ${
+      formatRelativeTimestamp(session.createdAt) ?? session.createdAt
+    }`;
+
+    const revokeButton = document.createElement("button");
+    revokeButton.type = "button";
+    revokeButton.className = "button-secondary device-session-revoke";
+    revokeButton.dataset.sessionId = session.id;
+    revokeButton.disabled = revoking;
+    revokeButton.textContent = revoking ? "Signing out..." : session.current ? "Sign out" : "Revoke";
+
+    section.append(heading, meta, revokeButton);
+    return section;
+  }
+
+  private renderReviewPanel(): void {
+    const state = this.readState();
+    const reviewState = state.review;
+    const selectedWorkspaceId = state.workspace.selectedWorkspaceId;
+    const reviews = reviewState.workspaceId === selectedWorkspaceId ? reviewState.reviews : [];
+
+    if (!selectedWorkspaceId) {
+      this.dom.reviewStatusText.textContent = "Select a workspace to review its changes.";
+    } else if (reviewState.error && reviewState.workspaceId === selectedWorkspaceId) {
+      this.dom.reviewStatusText.textContent = reviewState.error;
+    } else if (reviews.length === 0) {
+      this.dom.reviewStatusText.textContent = reviewState.loading ? "Loading reviews..." : "No reviews yet.";
+    } else {
+      const runningCount = reviews.filter((review) => review.status === "running").length;
+      this.dom.reviewStatusText.textContent =
+        runningCount > 0 ? `${runningCount} review${runningCount === 1 ? "" : "s"} running` : "Latest reviews";
+    }
+
+    const fragment = document.createDocumentFragment();
+    for (const review of reviews) {
+      fragment.append(this.createReviewItem(review));
+    }
+    this.dom.reviewList.replaceChildren(fragment);
+  }
+
+  private renderFileSearch(): void {
+    const state = this.readState();
+    const files = state.files;
+    const search = files.search;
+
+    if (!state.workspace.selectedWorkspaceId) {
+      this.dom.fileSearchStatusText.textContent = "Select a workspace to search its files.";
+    } else if (files.searchLoading) {
+      this.dom.fileSearchStatusText.textContent = "Searching...";
+    } else if (files.searchError) {
+      this.dom.fileSearchStatusText.textContent = files.searchError;
+    } else if (!search) {
+      this.dom.fileSearchStatusText.textContent = "Tap a result to reference it in your prompt.";
+    } else {
+      const count = `${search.matches.length}${search.truncated ? "+" : ""}`;
+      this.dom.fileSearchStatusText.textContent =
+        `${count} match${search.matches.length === 1 ? "" : "es"} in ${search.filesScanned} files searched`;
+    }
+
+    const fragment = document.createDocumentFragment();
+    for (const match of search?.matches ?? []) {
+      fragment.append(this.createFileSearchResult(match));
+    }
+    this.dom.fileSearchResults.replaceChildren(fragment);
+  }
+
+  private createFileSearchResult(match: WorkspaceSearchMatchRecord): HTMLElement {
+    const item = document.createElement("div");
+    item.className = "file-search-result";
+
+    const reference = match.line === null ? match.path : `${match.path}:${match.line}`;
+    const insertButton = document.createElement("button");
+    insertButton.type = "button";
+    insertButton.className = "file-search-insert";
+    insertButton.dataset.action = "insert-file-reference";
+    insertButton.dataset.reference = reference;
+    insertButton.title = `Insert ${reference} into the prompt`;
+
+    const location = document.createElement("strong");
+    location.className = "file-search-location";
+    location.textContent = reference;
+    insertButton.append(location);
+
+    if (match.preview !== null) {
+      const preview = document.createElement("code");
+      preview.className = "file-search-preview";
+      preview.textContent = match.preview.trim();
+      insertButton.append(preview);
+    }
+
+    const openButton = document.createElement("button");
+    openButton.type = "button";
+    openButton.className = "button-secondary file-search-open";
+    openButton.dataset.action = "open-file-search-result";
+    openButton.dataset.path = match.path;
+    openButton.textContent = "Open";
+
+    item.append(insertButton, openButton);
+    return item;
+  }
+
+  private renderFileBrowser(): void {
+    const state = this.readState();
+    const files = state.files;
+
+    setHidden(this.dom.conversationPanel, state.gitReview.active || files.active || state.terminals.active);
+    setHidden(this.dom.fileBrowserPanel, !files.active);
+    if (!files.active) {
+      return;
+    }
+
+    const workspace = selectActiveWorkspace(state);
+    this.dom.fileBrowserTitle.textContent = `${workspace?.displayName ?? "Workspace"} Files`;
+    this.dom.fileBrowserStatusText.textContent = workspace?.absolutePath ?? "Select a workspace to browse its files.";
+
+    setHidden(this.dom.fileBrowserError, files.error === null);
+    this.dom.fileBrowserError.textContent = files.error ?? "";
+
+    const root = files.directories[""];
+    if (!root) {
+      this.dom.fileBrowserTree.replaceChildren(
+        renderEmptyMessage(files.loadingPaths.includes("") ? "Loading files..." : "No files loaded.")
+      );
+    } else {
+      this.dom.fileBrowserTree.replaceChildren(this.createFileTreeList(files, "", 0));
+    }
+
+    this.renderFileViewer(files);
+    this.renderFileEditor(files);
+  }
+
+  private createFileTreeList(files: FileBrowserState, directoryPath: string, depth: number): HTMLElement {
+    const directory = files.directories[directoryPath];
+    const list = document.createElement("ul");
+    list.className = "file-tree-list";
+
+    if (!directory) {
+      const placeholder = document.createElement("li");
+      placeholder.className = "file-tree-placeholder";
+      placeholder.style.paddingLeft = `${depth * 14 + 8}px`;
+      placeholder.textContent = files.loadingPaths.includes(directoryPath) ? "Loading..." : "Not loaded";
+      list.append(placeholder);
+      return list;
+    }
+
+    if (directory.entries.length === 0) {
+      const placeholder = document.createElement("li");
+      placeholder.className = "file-tree-placeholder";
+      placeholder.style.paddingLeft = `${depth * 14 + 8}px`;
+      placeholder.textContent = "Empty directory";
+      list.append(placeholder);
+    }
+
+    for (const entry of directory.entries) {
+      const item = document.createElement("li");
+      item.append(this.createFileTreeEntry(entry, files, depth));
+      if (entry.type === "directory" && files.expandedPaths.includes(entry.path)) {
+        item.append(this.createFileTreeList(files, entry.path, depth + 1));
+      }
+      list.append(item);
+    }
+
+    if (directory.truncated) {
+      const note = document.createElement("li");
+      note.className = "file-tree-placeholder";
+      note.style.paddingLeft = `${depth * 14 + 8}px`;
+      note.textContent = `Showing the first ${directory.entries.length} entries`;
+      list.append(note);
+    }
+
+    return list;
+  }
+
+  private createFileTreeEntry(
+    entry: WorkspaceFileEntryRecord,
+    files: FileBrowserState,
+    depth: number
+  ): HTMLButtonElement {
+    const button = document.createElement("button");
+    button.type = "button";
+    button.className = "file-tree-entry";
+    button.classList.toggle("is-ignored", entry.ignored);
+    button.classList.toggle("is-selected", entry.path === files.selectedPath);
+    button.style.paddingLeft = `${depth * 14 + 8}px`;
+    button.dataset.path = entry.path;
+
+    const icon = document.createElement("span");
+    icon.className = "file-tree-icon";
+    const name = document.createElement("span");
+    name.className = "file-tree-name";
+    name.textContent = entry.symlink ? `${entry.name} →` : entry.name;
+
+    if (entry.type === "directory") {
+      button.dataset.fileAction = "toggle-directory";
+      icon.textContent = files.expandedPaths.includes(entry.path) ? "▾" : "▸";
+    } else if (entry.type === "file") {
+      button.dataset.fileAction = "open-file";
+      icon.textContent = "·";
+    } else {
+      button.disabled = true;
+      button.title = entry.symlink ? "Link target is outside the workspace" : "Not a regular file";
+      icon.textContent = "·";
+    }
+
+    button.append(icon, name);
+    if (entry.ignored && !button.title) {
+      button.title = "Ignored by git";
+    }
+    return button;
+  }
+
+  private renderTerminalPanel(): void {
+    const state = this.readState();
+    const terminals = state.terminals;
+
+    setHidden(this.dom.conversationPanel, state.gitReview.active || state.files.active || terminals.active);
+    setHidden(this.dom.terminalPanel, !terminals.active);
+    if (!terminals.active) {
+      return;
+    }
+
+    const workspace = selectActiveWorkspace(state);
+    const selected = terminals.sessions.find((session) => session.id === terminals.selectedTerminalId) ?? null;
+    this.dom.terminalTitle.textContent = `${workspace?.displayName ?? "Workspace"} Terminal`;
+    if (selected) {
+      const statusParts = [selected.cwd, describeTerminalSession(selected)];
+      if (terminals.connection !== "connected") {
+        statusParts.push(terminals.connection);
+      }
+      this.dom.terminalStatusText.textContent = statusParts.join(" · ");
+    } else {
+      this.dom.terminalStatusText.textContent = "Start a shell or a command in this workspace.";
+    }
+
+    setHidden(this.dom.terminalError, terminals.error === null);
+    this.dom.terminalError.textContent = terminals.error ?? "";
+
+    this.dom.terminalRefreshButton.disabled = terminals.loading;
+    this.dom.terminalStartButton.disabled = terminals.starting;
+    this.dom.terminalStartButton.textContent = terminals.starting ? "Starting..." : "Start";
+    const inputDisabled = selected?.status !== "running" || terminals.connection !== "connected";
+    this.dom.terminalInput.disabled = inputDisabled;
+    this.dom.terminalSendButton.disabled = inputDisabled;
+    this.dom.terminalInterruptButton.disabled = inputDisabled;
+    this.dom.terminalEofButton.disabled = inputDisabled;
+    this.dom.terminalKillButton.disabled = inputDisabled;
+
+    if (terminals.sessions.length === 0) {
+      this.dom.terminalSessionList.replaceChildren(
+        renderEmptyMessage(terminals.loading ? "Loading terminals..." : "No terminal sessions.")
+      );
+    } else {
+      this.dom.terminalSessionList.replaceChildren(
+        ...terminals.sessions.map((session) =>
+          this.createTerminalSessionItem(session, session.id === terminals.selectedTerminalId)
+        )
+      );
+    }
+
+    this.renderTerminalOutput(terminals);
+  }
+
+  private createTerminalSessionItem(session: TerminalSessionRecord, selected: boolean): HTMLLIElement {
+    const item = document.createElement("li");
+    item.className = "terminal-session";
+    item.classList.toggle("is-selected", selected);
+
+    const selectButton = document.createElement("button");
+    selectButton.type = "button";
+    selectButton.className = "terminal-session-select";
+    selectButton.dataset.terminalAction = "select";
+    selectButton.dataset.terminalId = session.id;
+
+    const label = document.createElement("span");
+    label.className = "terminal-session-label";
+    label.textContent = session.command ?? "Shell";
+
+    const status = document.createElement("span");
+    status.className = `terminal-session-status is-${session.status}`;
+    status.textContent = describeTerminalSession(session);
+    selectButton.append(label, status);
+
+    const closeButton = document.createElement("button");
+    closeButton.type = "button";
+    closeButton.className = "button-secondary terminal-session-close";
+    closeButton.dataset.terminalAction = "close";
+    closeButton.dataset.terminalId = session.id;
+    closeButton.textContent = "Close";
+
+    item.append(selectButton, closeButton);
+    return item;
+  }
+
+  private renderTerminalOutput(terminals: TerminalPanelState): void {
+    if (
+      this.lastRenderedTerminalOutput === terminals.output &&
+      this.lastRenderedTerminalId === terminals.selectedTerminalId
+    ) {
+      return;
+    }
+    this.lastRenderedTerminalOutput = terminals.output;
+    this.lastRenderedTerminalId = terminals.selectedTerminalId;
+
+    const container = this.dom.terminalOutput;
+    if (terminals.output.length === 0) {
+      container.replaceChildren(
+        renderEmptyMessage(terminals.selectedTerminalId ? "No output yet." : "Select or start a terminal session.")
+      );
+      return;
+    }
+
+    // Follow new output only when the reader is already at the bottom.
+    const stickToBottom = container.scrollHeight - container.scrollTop - container.clientHeight < 24;
+    const fragment = document.createDocumentFragment();
+    if (terminals.outputTruncated) {
+      const notice = document.createElement("span");
+      notice.className = "terminal-output-notice";
+      notice.textContent = "Earlier output was dropped.\n";
+      fragment.append(notice);
+    }
+    for (const chunk of terminals.output) {
+      if (chunk.stream === "stdout") {
+        fragment.append(chunk.data);
+        continue;
+      }
+      const span = document.createElement("span");
+      span.className = "terminal-stderr";
+      span.textContent = chunk.data;
+      fragment.append(span);
+    }
+
+    container.replaceChildren(fragment);
+    if (stickToBottom) {
+      container.scrollTop = container.scrollHeight;
+    }
+  }
+
+  private renderFileEditor(files: FileBrowserState): void {
+    const file = files.file;
+    const editable = file !== null && !file.binary && !file.truncated && !files.fileLoading;
+    const editing = editable && files.editing;
+
+    setHidden(this.dom.fileEditButton, !editable || editing);
+    setHidden(this.dom.fileSaveButton, !editing);
+    setHidden(this.dom.fileCancelEditButton, !editing);
+    setHidden(this.dom.fileViewerContent, editing);
+    setHidden(this.dom.fileEditorInput, !editing);
+    this.dom.fileSaveButton.disabled = files.saving;
+    this.dom.fileSaveButton.textContent = files.saving ? "Saving..." : "Save";
+    this.dom.fileCancelEditButton.disabled = files.saving;
+    this.dom.fileEditorInput.readOnly = files.saving;
+
+    // The textarea owns the draft while editing; only seed it when editing starts.
+    if (editing && !this.lastRenderedFileEditing) {
+      this.dom.fileEditorInput.value = file.content;
+      this.dom.fileEditorInput.focus();
+    }
+    this.lastRenderedFileEditing = editing;
+  }
+
+  private renderFileViewer(files: FileBrowserState): void {
+    if (this.lastRenderedFileRef === files.file && this.lastRenderedFileLoading === files.fileLoading) {
+      return;
+    }
+    this.lastRenderedFileRef = files.file;
+    this.lastRenderedFileLoading = files.fileLoading;
+
+    const file = files.file;
+    this.dom.fileViewerPath.textContent = file?.path ?? files.selectedPath ?? "No file selected";
+    if (files.fileLoading) {
+      this.dom.fileViewerMeta.textContent = "";
+      this.dom.fileViewerContent.replaceChildren(renderEmptyMessage("Loading file..."));
+      return;
+    }
+
+    if (!file) {
+      this.dom.fileViewerMeta.textContent = "";
+      this.dom.fileViewerContent.replaceChildren(renderEmptyMessage("Select a file to view its contents."));
+      return;
+    }
+
+    const metaParts = [formatBytes(file.size)];
+    if (file.ignored) {
+      metaParts.push("ignored by git");
+    }
+    const modifiedLabel = formatRelativeTimestamp(file.modifiedAt);
+    if (modifiedLabel) {
+      metaParts.push(`modified ${modifiedLabel}`);
+    }
+    this.dom.fileViewerMeta.textContent = metaParts.join(" · ");
+
+    if (file.binary) {
+      this.dom.fileViewerContent.replaceChildren(renderEmptyMessage("Binary file not shown."));
+      return;
+    }
+
+    const code = document.createElement("div");
+    code.className = "file-viewer-code";
+    const lines = highlightSource(file.content, detectSyntaxLanguage(file.path));
+    lines.forEach((tokens, index) => {
+      const line = document.createElement("div");
+      line.className = "file-viewer-line";
+
+      const lineNumber = document.createElement("span");
+      lineNumber.className = "file-viewer-line-number";
+      lineNumber.textContent = String(index + 1);
+
+      const text = document.createElement("span");
+      text.className = "file-viewer-line-text";
+      for (const token of tokens) {
+        if (token.kind === "plain") {
+          text.append(token.text);
+          continue;
+        }
+        const span = document.createElement("span");
+        span.className = `syntax-${token.kind}`;
+        span.textContent = token.text;
+        text.append(span);
+      }
+
+      line.append(lineNumber, text);
+      code.append(line);
+    });
+
+    const fragment = document.createDocumentFragment();
+    fragment.append(code);
+    if (file.truncated) {
+      fragment.append(renderEmptyMessage(`Showing the first ${lines.length} lines of ${formatBytes(file.size)}.`));
+    }
+    this.dom.fileViewerContent.replaceChildren(fragment);
+    this.dom.fileViewerContent.scrollTop = 0;
+  }
+
+  private createReviewItem(review: ReviewRecord): HTMLElement {
+    const section = document.createElement("section");
+    section.className = `review-item is-${review.status}`;
+
+    const heading = document.createElement("p");
+    heading.className = "review-item-heading";
+    const title = document.createElement("strong");
+    title.textContent = describeReviewTarget(review.target);
+    const status = document.createElement("span");
+    status.className = "review-item-status";
+    status.textContent =
+      review.status === "running"
+        ? "running"
+        : `${review.status} · ${review.findings.length} finding${review.findings.length === 1 ? "" : "s"}`;
+    heading.append(title, status);
+    section.append(heading);
+
+    const summaryText = review.error ?? review.summary;
+    if (summaryText) {
+      const summary = document.createElement("p");
+      summary.className = "review-item-summary";
+      summary.textContent = summaryText;
+      section.append(summary);
+    }
+
+    for (const finding of review.findings) {
+      section.append(this.createReviewFindingButton(review.reviewId, finding));
+    }
+
+    return section;
+  }
+
+  private createReviewFindingButton(reviewId: string, finding: ReviewFindingRecord): HTMLButtonElement {
+    const button = document.createElement("button");
+    button.type = "button";
+    button.className = "review-finding";
+    button.dataset.action = "open-finding";
+    button.dataset.reviewId = reviewId;
+    button.dataset.findingIndex = String(finding.index);
+    button.disabled = finding.relativePath === null;
+    button.title = finding.body;
+
+    const title = document.createElement("strong");
+    title.className = "review-finding-title";
+    title.textContent = finding.title;
+
+    const location = document.createElement("span");
+    location.className = "review-finding-location";
+    location.textContent = describeFindingLocation(finding);
+
+    button.append(title, location);
+    return button;
   }
 
   private createGitFileItem(entry: GitStatusEntry, selectedPath: string | null): HTMLButtonElement {
@@ -1301,9 +2158,12 @@ export class AppRenderer {
     this.dom.gitReviewDiffContainer.replaceChildren(placeholder);
   }
 
-  private createParsedDiffLine(line: ParsedGitDiffLine): HTMLDivElement {
+  private createParsedDiffLine(line: ParsedGitDiffLine, focusRange: LineRange | null): HTMLDivElement {
     const row = document.createElement("div");
     row.className = `git-diff-row git-diff-row-${line.kind}`;
+    if (focusRange && line.newLine !== null && line.newLine >= focusRange.start && line.newLine <= focusRange.end) {
+      row.classList.add("is-focused");
+    }
 
     const oldLine = document.createElement("span");
     oldLine.className = "git-diff-line-number";
@@ -1325,32 +2185,75 @@ export class AppRenderer {
     return row;
   }
 
-  private createParsedDiffHunk(hunk: ParsedGitDiffHunk): HTMLElement {
+  private createGitActionButton(
+    action: GitChangeAction,
+    label: string,
+    disabled: boolean,
+    hunkHeader: string | null = null
+  ): HTMLButtonElement {
+    const button = document.createElement("button");
+    button.type = "button";
+    button.className = `button-secondary git-action-button is-${action}`;
+    button.dataset.gitAction = action;
+    if (hunkHeader !== null) {
+      button.dataset.hunk = hunkHeader;
+    }
+    button.disabled = disabled;
+    button.textContent = label;
+    return button;
+  }
+
+  private createParsedDiffHunk(
+    hunk: ParsedGitDiffHunk,
+    focusRange: LineRange | null,
+    hunkAction: GitChangeAction | null,
+    actionsDisabled: boolean
+  ): HTMLElement {
     const hunkElement = document.createElement("section");
     hunkElement.className = "git-diff-hunk";
+    if (focusRange && hunkOverlapsRange(hunk.header, focusRange)) {
+      hunkElement.classList.add("is-focused");
+    }
 
     const header = document.createElement("div");
     header.className = "git-diff-hunk-header";
-    header.textContent = hunk.header;
+    const headerText = document.createElement("span");
+    headerText.textContent = hunk.header;
+    header.append(headerText);
+    if (hunkAction) {
+      header.append(
+        this.createGitActionButton(
+          hunkAction,
+          hunkAction === "stage" ? "Stage hunk" : "Unstage hunk",
+          actionsDisabled,
+          hunk.header
+        )
+      );
+    }
 
     const lineContainer = document.createElement("div");
     lineContainer.className = "git-diff-line-list";
     for (const line of hunk.lines) {
-      lineContainer.append(this.createParsedDiffLine(line));
+      lineContainer.append(this.createParsedDiffLine(line, focusRange));
     }
 
     hunkElement.append(header, lineContainer);
     return hunkElement;
   }
 
-  private renderStructuredGitDiff(diffText: string, fallbackPath: string): void {
+  private createStructuredGitDiff(
+    diffText: string,
+    fallbackPath: string,
+    focusRange: LineRange | null,
+    hunkAction: GitChangeAction | null,
+    actionsDisabled: boolean
+  ): HTMLElement {
     const parsedDiff = parseUnifiedGitDiff(diffText);
     if (parsedDiff.blocks.length === 0) {
       const raw = document.createElement("pre");
       raw.className = "git-diff-raw";
       raw.textContent = diffText;
-      this.dom.gitReviewDiffContainer.replaceChildren(raw);
-      return;
+      return raw;
     }
 
     const view = document.createElement("div");
@@ -1392,23 +2295,302 @@ export class AppRenderer {
         blockElement.append(noHunk);
       } else {
         for (const hunk of block.hunks) {
-          blockElement.append(this.createParsedDiffHunk(hunk));
+          blockElement.append(this.createParsedDiffHunk(hunk, focusRange, hunkAction, actionsDisabled));
         }
       }
 
       view.append(blockElement);
     }
 
-    this.dom.gitReviewDiffContainer.replaceChildren(view);
+    return view;
+  }
+
+  private createGitFileActions(entry: GitStatusEntry | null, actionsDisabled: boolean): HTMLElement {
+    const actions = document.createElement("div");
+    actions.className = "git-file-actions";
+    if (!entry) {
+      return actions;
+    }
+
+    const isUntracked = entry.staged === "?" && entry.unstaged === "?";
+    const hasStagedChanges = !isUntracked && entry.staged !== " ";
+    const hasUnstagedChanges = isUntracked || entry.unstaged !== " ";
+
+    if (hasUnstagedChanges) {
+      actions.append(this.createGitActionButton("stage", "Stage file", actionsDisabled));
+    }
+    if (hasStagedChanges) {
+      actions.append(this.createGitActionButton("unstage", "Unstage file", actionsDisabled));
+    }
+    if (hasUnstagedChanges) {
+      actions.append(
+        this.createGitActionButton("discard", isUntracked ? "Delete file" : "Discard changes", actionsDisabled)
+      );
+    }
+
+    return actions;
+  }
+
+  private renderSelectedGitDiff(git: Readonly<GitReviewState>, selectedPath: string): void {
+    const entry = git.entries.find((candidate) => candidate.path === selectedPath) ?? null;
+    const isUntracked = entry?.staged === "?" && entry.unstaged === "?";
+    const actionsDisabled = git.pendingAction !== null;
+    const fragment = document.createDocumentFragment();
+    fragment.append(this.createGitFileActions(entry, actionsDisabled));
+
+    const sections: Array<{ label: string; diff: string; hunkAction: GitChangeAction }> = [];
+    if (git.stagedDiff.trim().length > 0) {
+      sections.push({ label: "Staged", diff: git.stagedDiff, hunkAction: "unstage" });
+    }
+    if (git.unstagedDiff.trim().length > 0) {
+      sections.push({ label: "Unstaged", diff: git.unstagedDiff, hunkAction: "stage" });
+    }
+
+    if (isUntracked || sections.length === 0) {
+      fragment.append(this.createStructuredGitDiff(git.diff, selectedPath, git.focusRange, null, actionsDisabled));
+    } else {
+      for (const section of sections) {
+        if (sections.length > 1) {
+          const label = document.createElement("p");
+          label.className = "git-diff-section-label";
+          label.textContent = section.label;
+          fragment.append(label);
+        }
+        fragment.append(
+          this.createStructuredGitDiff(section.diff, selectedPath, git.focusRange, section.hunkAction, actionsDisabled)
+        );
+      }
+    }
+
+    this.dom.gitReviewDiffContainer.replaceChildren(fragment);
+    this.dom.gitReviewDiffContainer.querySelector(".git-diff-hunk.is-focused")?.scrollIntoView({ block: "start" });
+  }
+
+  private renderGitBranchSelect(git: Readonly<GitReviewState>): void {
+    const currentBranch = git.branches.some((branch) => branch.kind === "local" && branch.name === git.branch)
+      ? git.branch
+      : null;
+    const fragment = document.createDocumentFragment();
+    if (currentBranch === null) {
+      const placeholder = document.createElement("option");
+      placeholder.value = "";
+      placeholder.textContent = git.branch ?? "Detached HEAD";
+      fragment.append(placeholder);
+    }
+
+    for (const [kind, label] of [
+      ["local", "Local"],
+      ["remote", "Remote"]
+    ] as const) {
+      const branches = git.branches.filter((branch) => branch.kind === kind);
+      if (branches.length === 0) {
+        continue;
+      }
+
+      const group = document.createElement("optgroup");
+      group.label = label;
+      for (const branch of branches) {
+        const option = document.createElement("option");
+        option.value = branch.name;
+        option.textContent = branch.name;
+        option.title = branch.subject;
+        group.append(option);
+      }
+      fragment.append(group);
+    }
+
+    this.dom.gitBranchSelect.replaceChildren(fragment);
+    this.dom.gitBranchSelect.value = currentBranch ?? "";
+
+    const baseOptions = git.branches.map((branch) => {
+      const option = document.createElement("option");
+      option.value = branch.name;
+      return option;
+    });
+    this.dom.gitDiffBaseOptions.replaceChildren(...baseOptions);
+  }
+
+  private createGitHistoryItem(entry: GitLogEntryRecord, selectedSha: string | null): HTMLButtonElement {
+    const button = document.createElement("button");
+    button.type = "button";
+    button.className = `git-file-item git-history-item ${selectedSha === entry.sha ? "is-selected" : ""}`.trim();
+    button.dataset.commitSha = entry.sha;
+
+    const titleRow = document.createElement("div");
+    titleRow.className = "git-file-item-row";
+
+    const subject = document.createElement("strong");
+    subject.className = "git-history-subject";
+    subject.textContent = entry.subject || "(no subject)";
+
+    const sha = document.createElement("span");
+    sha.className = "git-history-sha";
+    sha.textContent = entry.shortSha;
+
+    titleRow.append(subject, sha);
+
+    const meta = document.createElement("span");
+    meta.className = "git-file-meta";
+    meta.textContent = `${entry.authorName} · ${formatRelativeTimestamp(entry.authoredAt) ?? entry.authoredAt}`;
+
+    button.append(titleRow, meta);
+    return button;
+  }
+
+  private createGitCommitDetailHeader(commit: GitCommitDetailRecord): HTMLElement {
+    const header = document.createElement("header");
+    header.className = "git-commit-detail-header";
+
+    const subject = document.createElement("h4");
+    subject.textContent = commit.subject || "(no subject)";
+
+    const meta = document.createElement("p");
+    meta.className = "git-commit-detail-meta";
+    const fileCount = `${commit.files.length} file${commit.files.length === 1 ? "" : "s"}`;
+    meta.textContent = `${commit.shortSha} · ${commit.authorName} <${commit.authorEmail}> · ${new Date(
+      commit.authoredAt
+    ).toLocaleString()} · ${fileCount}`;
+
+    header.append(subject, meta);
+    if (commit.body.length > 0) {
+      const body = document.createElement("pre");
+      body.className = "git-commit-detail-body";
+      body.textContent = commit.body;
+      header.append(body);
+    }
+
+    return header;
+  }
+
+  private renderGitHistory(git: Readonly<GitReviewState>): void {
+    if (git.history.length === 0) {
+      this.dom.gitHistoryList.replaceChildren(
+        renderEmptyMessage(git.historyLoading ? "Loading history..." : "No commits yet.")
+      );
+    } else {
+      const fragment = document.createDocumentFragment();
+      for (const entry of git.history) {
+        fragment.append(this.createGitHistoryItem(entry, git.selectedCommitSha));
+      }
+
+      if (git.historyHasMore) {
+        const loadMoreButton = document.createElement("button");
+        loadMoreButton.type = "button";
+        loadMoreButton.className = "button-secondary git-history-load-more";
+        loadMoreButton.dataset.action = "load-more-history";
+        loadMoreButton.disabled = git.historyLoading;
+        loadMoreButton.textContent = git.historyLoading ? "Loading..." : "Load more";
+        fragment.append(loadMoreButton);
+      }
+
+      this.dom.gitHistoryList.replaceChildren(fragment);
+    }
+
+    if (git.diffLoading) {
+      this.renderGitDiffPlaceholder("Loading commit...");
+      return;
+    }
+
+    const commit = git.selectedCommit;
+    if (!commit) {
+      this.renderGitDiffPlaceholder("Select a commit to inspect its changes.");
+      return;
+    }
+
+    const fragment = document.createDocumentFragment();
+    fragment.append(this.createGitCommitDetailHeader(commit));
+    if (commit.diff.trim().length > 0) {
+      fragment.append(this.createStructuredGitDiff(commit.diff, commit.files[0] ?? commit.shortSha, null, null, true));
+    } else {
+      fragment.append(renderEmptyMessage("This commit has no file changes."));
+    }
+
+    this.dom.gitReviewDiffContainer.replaceChildren(fragment);
+  }
+
+  private createWorkspaceDiffFile(file: GitWorkspaceDiffFileRecord, selectedPath: string | null): HTMLElement {
+    const section = document.createElement("section");
+    section.className = `git-workspace-diff-file ${selectedPath === file.path ? "is-selected" : ""}`.trim();
+    section.dataset.filePath = file.path;
+
+    const header = document.createElement("div");
+    header.className = "git-workspace-diff-file-header";
+
+    const pathLabel = document.createElement("strong");
+    pathLabel.className = "git-file-path";
+    pathLabel.textContent = file.originalPath ? `${file.originalPath} → ${file.path}` : file.path;
+
+    const stats = document.createElement("span");
+    stats.className = "git-workspace-diff-stats";
+    stats.textContent = file.binary
+      ? `${file.statusLabel} · binary`
+      : `${file.statusLabel} · +${file.additions ?? "?"} −${file.deletions ?? "?"}`;
+
+    header.append(pathLabel, stats);
+    section.append(header);
+
+    if (file.binary) {
+      section.append(renderEmptyMessage("Binary file not shown."));
+    } else if (file.diff.trim().length === 0) {
+      section.append(renderEmptyMessage(file.truncated ? "Diff omitted to keep the page small." : "No textual changes."));
+    } else {
+      section.append(this.createStructuredGitDiff(file.diff, file.path, null, null, true));
+    }
+
+    if (file.truncated && file.diff.trim().length > 0) {
+      const marker = document.createElement("p");
+      marker.className = "git-workspace-diff-truncated";
+      marker.textContent = "Diff truncated. Open this file on its own to see every change.";
+      section.append(marker);
+    }
+
+    return section;
+  }
+
+  private renderWorkspaceGitDiff(git: Readonly<GitReviewState>): void {
+    const workspaceDiff = git.workspaceDiff;
+    if (!workspaceDiff) {
+      this.renderGitDiffPlaceholder("Workspace diff not loaded yet.");
+      return;
+    }
+
+    if (workspaceDiff.files.length === 0) {
+      this.renderGitDiffPlaceholder(`No changes to show (${describeWorkspaceDiffBase(workspaceDiff)}).`);
+      return;
+    }
+
+    const fragment = document.createDocumentFragment();
+    const summary = document.createElement("p");
+    summary.className = "git-workspace-diff-summary";
+    const fileCount = `${workspaceDiff.files.length} file${workspaceDiff.files.length === 1 ? "" : "s"}`;
+    summary.textContent = `${describeWorkspaceDiffBase(workspaceDiff)} · ${fileCount} · +${
+      workspaceDiff.additions
+    } −${workspaceDiff.deletions}${workspaceDiff.truncated ? " · some diffs truncated" : ""}`;
+    fragment.append(summary);
+
+    for (const file of workspaceDiff.files) {
+      fragment.append(this.createWorkspaceDiffFile(file, git.selectedPath));
+    }
+
+    this.dom.gitReviewDiffContainer.replaceChildren(fragment);
   }
 
   private renderGitReview(): void {
     const state = this.readState();
     const git = state.gitReview;
 
-    setHidden(this.dom.conversationPanel, git.active);
+    setHidden(this.dom.conversationPanel, git.active || state.files.active || state.terminals.active);
     setHidden(this.dom.gitReviewPanel, !git.active);
-    this.dom.gitReviewPanel.classList.toggle("is-files-collapsed", git.filesCollapsed);
+    const showHistory = git.view === "history";
+    this.dom.gitReviewPanel.classList.toggle("is-files-collapsed", git.filesCollapsed && !showHistory);
+    this.dom.gitReviewFilesTitle.textContent = showHistory ? "History" : "Changed Files";
+    setHidden(this.dom.gitReviewToggleFilesButton, showHistory);
+    setHidden(this.dom.gitReviewDiffModeButton, showHistory);
+    setHidden(this.dom.gitDiffBaseForm, showHistory);
+    setHidden(this.dom.gitReviewFileList, showHistory);
+    setHidden(this.dom.gitCommitForm, showHistory);
+    setHidden(this.dom.gitHistoryList, !showHistory);
+    this.renderGitBranchSelect(git);
 
     const workspaceName = selectActiveWorkspace(state)?.displayName ?? "Workspace";
     this.dom.gitReviewTitle.textContent = `${workspaceName} Git Review`;
@@ -1422,12 +2604,25 @@ export class AppRenderer {
       this.dom.gitReviewError.textContent = "";
     }
 
+    const lastCommit = git.lastCommit;
+    this.dom.gitCommitResult.textContent = lastCommit
+      ? `Committed ${lastCommit.shortSha} ${lastCommit.subject} · ${lastCommit.files.length} file${
+          lastCommit.files.length === 1 ? "" : "s"
+        }`
+      : "";
+    setHidden(this.dom.gitCommitResult, lastCommit === null);
+
     if (git.supported === false) {
       this.dom.gitReviewFileList.replaceChildren(renderEmptyMessage("Git is not enabled for this workspace."));
       this.renderGitDiffPlaceholder("No diff available.");
       return;
     }
 
+    if (showHistory) {
+      this.renderGitHistory(git);
+      return;
+    }
+
     if (git.loading && git.entries.length === 0) {
       this.dom.gitReviewFileList.replaceChildren(renderEmptyMessage("Loading changed files..."));
       this.renderGitDiffPlaceholder("Fetching git status...");
@@ -1488,8 +2683,13 @@ export class AppRenderer {
       return;
     }
 
+    if (git.diffMode === "all") {
+      this.renderWorkspaceGitDiff(git);
+      return;
+    }
+
     if (git.selectedPath && git.diff.trim().length > 0) {
-      this.renderStructuredGitDiff(git.diff, git.selectedPath);
+      this.renderSelectedGitDiff(git, git.selectedPath);
       return;
     }
 
@@ -1542,7 +2742,12 @@ export class AppRenderer {
     return `${this.transcriptItemKey(item, threadId)}::${detailKey}`;
   }
 
-  private createTurnBoundary(turnId: string): HTMLDivElement {
+  private createTurnBoundary(
+    turnId: string,
+    hasCheckpoint: boolean,
+    preview: TurnCheckpointPreviewState | null,
+    threadRunning: boolean
+  ): HTMLDivElement {
     const boundary = document.createElement("div");
     boundary.className = "turn-boundary";
 
@@ -1554,11 +2759,87 @@ export class AppRenderer {
     badge.textContent = `Turn ${turnId.slice(-6)}`; // Show last 6 chars of turn ID
 
     header.append(badge);
+
+    if (hasCheckpoint) {
+      const revertButton = document.createElement("button");
+      revertButton.type = "button";
+      revertButton.className = "button-secondary turn-boundary-revert";
+      revertButton.textContent = "Revert this turn";
+      revertButton.dataset.action = "turn-checkpoint-preview";
+      revertButton.dataset.turnId = turnId;
+      revertButton.disabled = preview !== null;
+      header.append(revertButton);
+    }
+
     boundary.append(header);
 
+    if (preview) {
+      boundary.append(this.createTurnCheckpointPreview(preview, threadRunning));
+    }
+
     return boundary;
   }
 
+  private createTurnCheckpointPreview(preview: TurnCheckpointPreviewState, threadRunning: boolean): HTMLDivElement {
+    const panel = document.createElement("div");
+    panel.className = "turn-checkpoint-preview";
+
+    const actions = document.createElement("div");
+    actions.className = "turn-checkpoint-actions";
+
+    if (preview.status === "loading") {
+      panel.append(renderEmptyMessage("Loading the changes made since this turn started..."));
+    } else if (preview.status === "error" || !preview.preview) {
+      const error = document.createElement("p");
+      error.className = "turn-checkpoint-note is-error";
+      error.textContent = preview.error ?? "Checkpoint preview unavailable.";
+      panel.append(error);
+    } else {
+      const record = preview.preview;
+      const summary = document.createElement("p");
+      summary.className = "turn-checkpoint-note";
+      summary.textContent =
+        record.files.length === 0
+          ? "The workspace already matches how it was before this turn."
+          : `Reverting discards ${record.files.length} file change${record.files.length === 1 ? "" : "s"} (+${
+              record.additions
+            } −${record.deletions}) made since this turn started${record.truncated ? "; some diffs are truncated" : ""}.`;
+      panel.append(summary);
+
+      const blockedReason = record.blockedReason ?? (threadRunning ? "Wait for the running turn to finish." : null);
+      if (blockedReason) {
+        const blocked = document.createElement("p");
+        blocked.className = "turn-checkpoint-note is-error";
+        blocked.textContent = blockedReason;
+        panel.append(blocked);
+      }
+
+      for (const file of record.files) {
+        panel.append(this.createWorkspaceDiffFile(file, null));
+      }
+
+      const revertButton = document.createElement("button");
+      revertButton.type = "button";
+      revertButton.className = "button-danger";
+      revertButton.textContent = preview.status === "reverting" ? "Reverting..." : "Revert";
+      revertButton.dataset.action = "turn-checkpoint-revert";
+      revertButton.disabled = preview.status === "reverting" || blockedReason !== null || record.files.length === 0;
+      actions.append(revertButton);
+    }
+
+    if (preview.status !== "reverting") {
+      const cancelButton = document.createElement("button");
+      cancelButton.type = "button";
+      cancelButton.className = "button-secondary";
+      cancelButton.textContent = "Close";
+      cancelButton.dataset.action = "turn-checkpoint-cancel";
+      actions.append(cancelButton);
+    }
+
+    panel.append(actions);
+    return panel;
+  }
+
   private createFileChangeCard(changes: FileChangeInfo[], threadId: string, itemId: string): HTMLDivElement {
     const card = document.createElement("div");
     card.className = "file-change-card";
@@ -1574,8 +2855,19 @@ export class AppRenderer {
       statusBadge.className = `file-status-badge file-status-${this.normalizeFileStatus(change.status)}`;
       statusBadge.textContent = this.getFileStatusLabel(change.status);
 
-      const filePath = document.createElement("span");
-      filePath.className = "file-path";
+      let filePath: HTMLElement;
+      if (this.normalizeFileStatus(change.status) === "deleted") {
+        filePath = document.createElement("span");
+      } else {
+        const openButton = document.createElement("button");
+        openButton.type = "button";
+        openButton.className = "file-path-link";
+        openButton.dataset.action = "open-workspace-file";
+        openButton.dataset.path = change.path;
+        openButton.title = "Open in file browser";
+        filePath = openButton;
+      }
+      filePath.classList.add("file-path");
       filePath.textContent = change.path;
 
       item.append(statusBadge, filePath);
@@ -1848,20 +3140,119 @@ export class AppRenderer {
     return lineItem;
   }
 
+  private createApprovalCard(approval: ApprovalCard): HTMLLIElement {
+    const lineItem = document.createElement("li");
+    lineItem.className = `transcript-item approval-card approval-card-${approval.status}`;
+    lineItem.dataset.requestId = approval.requestId;
+
+    const header = document.createElement("div");
+    header.className = "approval-card-header";
+
+    const heading = document.createElement("h3");
+    heading.className = "transcript-heading";
+    heading.textContent = approval.kind === "commandExecution" ? "Run command?" : "Apply file changes?";
+
+    const status = document.createElement("span");
+    status.className = "approval-card-status";
+    status.textContent = APPROVAL_STATUS_LABELS[approval.status];
+
+    header.append(heading, status);
+    lineItem.append(header);
+
+    if (approval.command) {
+      const command = document.createElement("pre");
+      command.className = "transcript-code approval-card-command";
+      command.textContent = approval.command;
+      lineItem.append(command);
+    }
+
+    const detailParts = [approval.reason, approval.cwd ? `in ${approval.cwd}` : null].filter(
+      (part): part is string => part !== null
+    );
+    if (detailParts.length > 0) {
+      const detail = document.createElement("p");
+      detail.className = "transcript-message approval-card-detail";
+      detail.textContent = detailParts.join(" · ");
+      lineItem.append(detail);
+    }
+
+    if (approval.status !== "pending" && approval.status !== "submitting") {
+      if (approval.resolutionNote) {
+        const note = document.createElement("p");
+        note.className = "approval-card-note";
+        note.textContent = approval.resolutionNote;
+        lineItem.append(note);
+      }
+
+      this.approvalReasonDrafts.delete(approval.requestId);
+      return lineItem;
+    }
+
+    const disabled = approval.status === "submitting";
+    const reasonInput = document.createElement("input");
+    reasonInput.type = "text";
+    reasonInput.className = "approval-card-reason";
+    reasonInput.dataset.role = "approval-reason";
+    reasonInput.placeholder = "Reason (optional)";
+    reasonInput.maxLength = 2_000;
+    reasonInput.disabled = disabled;
+    reasonInput.value = this.approvalReasonDrafts.get(approval.requestId) ?? "";
+    reasonInput.addEventListener("input", () => {
+      this.approvalReasonDrafts.set(approval.requestId, reasonInput.value);
+    });
+
+    const actions = document.createElement("div");
+    actions.className = "approval-card-actions";
+
+    const buttons: Array<{ label: string; decision: string; className: string }> = [
+      { label: "Approve", decision: "approve", className: "" },
+      { label: "Approve for session", decision: "approve_for_session", className: "button-secondary" },
+      { label: "Deny", decision: "deny", className: "button-danger" }
+    ];
+    for (const buttonConfig of buttons) {
+      const button = document.createElement("button");
+      button.type = "button";
+      button.className = buttonConfig.className;
+      button.textContent = buttonConfig.label;
+      button.dataset.action = "approval-decision";
+      button.dataset.requestId = approval.requestId;
+      button.dataset.decision = buttonConfig.decision;
+      button.disabled = disabled;
+      actions.append(button);
+    }
+
+    lineItem.append(reasonInput, actions);
+    return lineItem;
+  }
+
   private renderTranscript(): void {
     const state = this.readState();
     const selectedThreadId = state.thread.selectedThreadId;
     const transcript = this.selectedThreadTranscript(state);
     const placeholderMessage = this.transcriptLoadingMessage(transcript);
+    const selectedWorkspaceId = state.workspace.selectedWorkspaceId;
+    const workspaceApprovals = selectedWorkspaceId ? state.thread.approvalsByWorkspaceId[selectedWorkspaceId] : undefined;
+    const approvalsRef = workspaceApprovals ?? null;
+    const checkpointTurnIds =
+      selectedThreadId ? state.thread.checkpointTurnIdsByThreadId[selectedThreadId] ?? null : null;
+    const checkpointPreview =
+      state.thread.checkpointPreview?.threadId === selectedThreadId ? state.thread.checkpointPreview : null;
 
     if (
       this.lastRenderedTranscriptThreadId === selectedThreadId &&
       this.lastRenderedTranscriptRef === transcript &&
-      this.lastRenderedTranscriptPlaceholder === placeholderMessage
+      this.lastRenderedTranscriptPlaceholder === placeholderMessage &&
+      this.lastRenderedApprovalsRef === approvalsRef &&
+      this.lastRenderedCheckpointTurnIdsRef === checkpointTurnIds &&
+      this.lastRenderedCheckpointPreviewRef === checkpointPreview
     ) {
       return;
     }
 
+    this.lastRenderedApprovalsRef = approvalsRef;
+    this.lastRenderedCheckpointTurnIdsRef = checkpointTurnIds;
+    this.lastRenderedCheckpointPreviewRef = checkpointPreview;
+
     if (placeholderMessage) {
       this.dom.transcriptList.replaceChildren(renderEmptyMessage(placeholderMessage));
       this.followTranscript = true;
@@ -1903,21 +3294,35 @@ export class AppRenderer {
 
       const currentTurnId = item.turnId;
 
-      // Insert turn boundary when turn changes (but not for the first item)
-      if (i > 0 && currentTurnId && lastTurnId && currentTurnId !== lastTurnId) {
-        fragment.append(this.createTurnBoundary(currentTurnId));
+      // Insert turn boundary when turn changes; the first turn only gets one when it can be reverted
+      const hasCheckpoint = currentTurnId !== undefined && (checkpointTurnIds?.includes(currentTurnId) ?? false);
+      const turnChanged = i > 0 ? Boolean(lastTurnId) && currentTurnId !== lastTurnId : hasCheckpoint;
+      if (currentTurnId && turnChanged) {
+        fragment.append(
+          this.createTurnBoundary(
+            currentTurnId,
+            hasCheckpoint,
+            checkpointPreview?.turnId === currentTurnId ? checkpointPreview : null,
+            state.thread.runningByThreadId[selectedThreadId] === true
+          )
+        );
       }
 
       fragment.append(this.createTranscriptItem(item, selectedThreadId));
       lastTurnId = currentTurnId;
     }
+
+    const approvalCards = approvalCardsForThread(workspaceApprovals, selectedThreadId);
+    for (const approval of approvalCards) {
+      fragment.append(this.createApprovalCard(approval));
+    }
     this.dom.transcriptList.replaceChildren(fragment);
 
     if (this.followTranscript) {
       this.scrollTranscriptToLatest();
     }
 
-    this.updateTranscriptJumpVisibility(transcript.items.length);
+    this.updateTranscriptJumpVisibility(transcript.items.length + approvalCards.length);
     this.lastRenderedTranscriptThreadId = selectedThreadId;
     this.lastRenderedTranscriptRef = transcript;
     this.lastRenderedTranscriptPlaceholder = "";
@@ -7,17 +7,32 @@ export interface AppDomRefs {
   socketStateChip: HTMLElement;
   refreshWorkspacesButton: HTMLButtonElement;
   reconnectEventsButton: HTMLButtonElement;
+  sessionUserText: HTMLElement;
   logoutButton: HTMLButtonElement;
   loginForm: HTMLFormElement;
+  loginUsernameField: HTMLElement;
+  loginUsernameInput: HTMLInputElement;
   loginPasswordInput: HTMLInputElement;
   loginSubmitButton: HTMLButtonElement;
+  loginTwoFactorForm: HTMLFormElement;
+  loginTwoFactorCodeInput: HTMLInputElement;
+  loginTwoFactorSubmitButton: HTMLButtonElement;
+  loginTwoFactorCancelButton: HTMLButtonElement;
+  loginPasskeyButton: HTMLButtonElement;
   workspaceForm: HTMLFormElement;
   workspaceAbsolutePathInput: HTMLInputElement;
   workspaceSubmitButton: HTMLButtonElement;
   workspaceTree: HTMLElement;
   openGitReviewButton: HTMLButtonElement;
+  openFileBrowserButton: HTMLButtonElement;
+  openTerminalPanelButton: HTMLButtonElement;
   refreshThreadsButton: HTMLButtonElement;
   startThreadButton: HTMLButtonElement;
+  startWorktreeThreadButton: HTMLButtonElement;
+  threadWorktreeActions: HTMLElement;
+  threadWorktreeLabel: HTMLElement;
+  mergeThreadWorktreeButton: HTMLButtonElement;
+  removeThreadWorktreeButton: HTMLButtonElement;
   conversationTitle: HTMLElement;
   turnForm: HTMLFormElement;
   turnPromptInput: HTMLTextAreaElement;
@@ -45,6 +60,53 @@ export interface AppDomRefs {
   settingsShowStatusEventsInput: HTMLInputElement;
   settingsShowInternalEventsInput: HTMLInputElement;
   settingsCompactStatusBurstsInput: HTMLInputElement;
+  runtimePolicyNote: HTMLElement;
+  settingsSandboxModeSelect: HTMLSelectElement;
+  settingsApprovalPolicySelect: HTMLSelectElement;
+  runtimePanel: HTMLDetailsElement;
+  runtimeStatusText: HTMLElement;
+  runtimeDetailsList: HTMLUListElement;
+  runtimeStderr: HTMLElement;
+  runtimeRefreshButton: HTMLButtonElement;
+  runtimeRestartButton: HTMLButtonElement;
+  runtimeStopButton: HTMLButtonElement;
+  devicesPanel: HTMLDetailsElement;
+  devicesStatusText: HTMLElement;
+  devicesList: HTMLElement;
+  devicesRefreshButton: HTMLButtonElement;
+  twoFactorPanel: HTMLDetailsElement;
+  twoFactorStatusText: HTMLElement;
+  twoFactorEnrollment: HTMLElement;
+  twoFactorLink: HTMLAnchorElement;
+  twoFactorSecret: HTMLElement;
+  twoFactorRecoveryCodes: HTMLElement;
+  twoFactorForm: HTMLFormElement;
+  twoFactorCodeInput: HTMLInputElement;
+  twoFactorEnableButton: HTMLButtonElement;
+  twoFactorSubmitButton: HTMLButtonElement;
+  passkeysPanel: HTMLDetailsElement;
+  passkeysStatusText: HTMLElement;
+  passkeysList: HTMLElement;
+  passkeysForm: HTMLFormElement;
+  passkeysLabelInput: HTMLInputElement;
+  passkeysAddButton: HTMLButtonElement;
+  reviewPanel: HTMLDetailsElement;
+  reviewForm: HTMLFormElement;
+  reviewTargetTypeSelect: HTMLSelectElement;
+  reviewTargetRefInput: HTMLInputElement;
+  reviewStartButton: HTMLButtonElement;
+  reviewStatusText: HTMLElement;
+  reviewList: HTMLElement;
+  fileSearchForm: HTMLFormElement;
+  fileSearchQueryInput: HTMLInputElement;
+  fileSearchModeSelect: HTMLSelectElement;
+  fileSearchRegexInput: HTMLInputElement;
+  fileSearchCaseInput: HTMLInputElement;
+  fileSearchIncludeInput: HTMLInputElement;
+  fileSearchExcludeInput: HTMLInputElement;
+  fileSearchSubmitButton: HTMLButtonElement;
+  fileSearchStatusText: HTMLElement;
+  fileSearchResults: HTMLElement;
   jumpLatestButton: HTMLButtonElement;
   conversationPanel: HTMLElement;
   gitReviewPanel: HTMLElement;
@@ -54,8 +116,59 @@ export interface AppDomRefs {
   gitReviewStatusText: HTMLElement;
   gitReviewError: HTMLElement;
   gitReviewToggleFilesButton: HTMLButtonElement;
+  gitReviewDiffModeButton: HTMLButtonElement;
+  gitBranchSelect: HTMLSelectElement;
+  gitNewBranchButton: HTMLButtonElement;
+  gitReviewViewToggleButton: HTMLButtonElement;
+  gitReviewFilesTitle: HTMLElement;
   gitReviewFileList: HTMLElement;
+  gitHistoryList: HTMLElement;
   gitReviewDiffContainer: HTMLElement;
+  gitDiffBaseForm: HTMLFormElement;
+  gitDiffBaseInput: HTMLInputElement;
+  gitDiffBaseOptions: HTMLDataListElement;
+  gitDiffBaseMergeInput: HTMLInputElement;
+  gitDiffBaseUncommittedInput: HTMLInputElement;
+  gitDiffBaseApplyButton: HTMLButtonElement;
+  gitDiffBaseClearButton: HTMLButtonElement;
+  gitCommitForm: HTMLFormElement;
+  gitCommitMessageInput: HTMLTextAreaElement;
+  gitCommitAmendInput: HTMLInputElement;
+  gitCommitSuggestButton: HTMLButtonElement;
+  gitCommitSubmitButton: HTMLButtonElement;
+  gitPushButton: HTMLButtonElement;
+  gitCommitResult: HTMLElement;
+  fileBrowserPanel: HTMLElement;
+  fileBrowserTitle: HTMLElement;
+  fileBrowserStatusText: HTMLElement;
+  fileBrowserError: HTMLElement;
+  fileBrowserRefreshButton: HTMLButtonElement;
+  fileBrowserBackButton: HTMLButtonElement;
+  fileBrowserTree: HTMLElement;
+  fileViewerPath: HTMLElement;
+  fileViewerMeta: HTMLElement;
+  fileViewerContent: HTMLElement;
+  fileEditButton: HTMLButtonElement;
+  fileSaveButton: HTMLButtonElement;
+  fileCancelEditButton: HTMLButtonElement;
+  fileEditorInput: HTMLTextAreaElement;
+  terminalPanel: HTMLElement;
+  terminalTitle: HTMLElement;
+  terminalStatusText: HTMLElement;
+  terminalError: HTMLElement;
+  terminalRefreshButton: HTMLButtonElement;
+  terminalBackButton: HTMLButtonElement;
+  terminalStartForm: HTMLFormElement;
+  terminalCommandInput: HTMLInputElement;
+  terminalStartButton: HTMLButtonElement;
+  terminalSessionList: HTMLElement;
+  terminalOutput: HTMLElement;
+  terminalInputForm: HTMLFormElement;
+  terminalInput: HTMLInputElement;
+  terminalSendButton: HTMLButtonElement;
+  terminalInterruptButton: HTMLButtonElement;
+  terminalEofButton: HTMLButtonElement;
+  terminalKillButton: HTMLButtonElement;
 }
 
 function requireElement<TElement extends Element>(root: ParentNode, selector: string): TElement {
@@ -78,6 +191,7 @@ export function createAppShell(root: HTMLDivElement): AppDomRefs {
         <div class="header-actions" aria-label="Session controls">
           <span class="status-chip state-disconnected" data-role="socket-state">disconnected</span>
           <button class="button-secondary" type="button" data-role="reconnect-events">Reconnect</button>
+          <span class="session-user is-hidden" data-role="session-user"></span>
           <button class="button-secondary" type="button" data-role="logout">Logout</button>
           <button class="sidebar-toggle" type="button" data-role="sidebar-toggle" aria-label="Toggle sidebar">
             <svg width="20" height="20" viewBox="0 0 20 20" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round">
@@ -101,12 +215,28 @@ export function createAppShell(root: HTMLDivElement): AppDomRefs {
       <section class="panel login-panel" data-role="login-panel">
         <h2>Sign In</h2>
         <form id="login-form">
+          <label class="is-hidden" data-role="login-username-field">
+            Username
+            <input type="text" name="username" autocomplete="username" autocapitalize="none" spellcheck="false" data-role="login-username" />
+          </label>
           <label>
             Password
             <input type="password" name="password" autocomplete="current-password" required data-role="login-password" />
           </label>
           <button type="submit" data-role="login-submit">Login</button>
         </form>
+        <button class="button-secondary login-passkey-button is-hidden" type="button" data-role="login-passkey">Sign in with passkey</button>
+        <form class="login-two-factor-form is-hidden" data-role="login-two-factor-form">
+          <p class="login-two-factor-hint">Enter the 6-digit code from your authenticator app, or a recovery code.</p>
+          <label>
+            Authentication code
+            <input type="text" name="code" autocomplete="one-time-code" autocapitalize="none" spellcheck="false" required data-role="login-two-factor-code" />
+          </label>
+          <div class="login-two-factor-actions">
+            <button type="submit" data-role="login-two-factor-submit">Verify</button>
+            <button class="button-secondary" type="button" data-role="login-two-factor-cancel">Back</button>
+          </div>
+        </form>
       </section>
 
       <section class="app-body is-hidden" data-role="app-panels">
@@ -120,11 +250,21 @@ export function createAppShell(root: HTMLDivElement): AppDomRefs {
             <h2>Actions</h2>
             <div class="utility-actions utility-actions-primary">
               <button type="button" data-role="start-thread">New Thread</button>
+              <button class="button-secondary" type="button" data-role="start-worktree-thread">
+                New Worktree Thread
+              </button>
+            </div>
+            <div class="utility-actions thread-worktree-actions is-hidden" data-role="thread-worktree-actions">
+              <span class="thread-worktree-label" data-role="thread-worktree-label"></span>
+              <button class="button-secondary" type="button" data-role="merge-thread-worktree">Merge Worktree</button>
+              <button class="button-secondary" type="button" data-role="remove-thread-worktree">Remove Worktree</button>
             </div>
             <div class="utility-actions utility-actions-secondary">
               <button class="button-secondary" type="button" data-role="refresh-threads">Refresh Threads</button>
               <button class="button-secondary" type="button" data-role="refresh-workspaces">Refresh Workspaces</button>
               <button class="button-secondary" type="button" data-role="open-git-review">Open Git Review</button>
+              <button class="button-secondary" type="button" data-role="open-file-browser">Browse Files</button>
+              <button class="button-secondary" type="button" data-role="open-terminal-panel">Terminal</button>
             </div>
 
             <details class="workspace-disclosure">
@@ -144,7 +284,85 @@ export function createAppShell(root: HTMLDivElement): AppDomRefs {
               </form>
             </details>
 
-            <div class="settings-note">Runtime mode: YOLO (approvals off)</div>
+            <details class="workspace-disclosure runtime-disclosure" data-role="runtime-panel">
+              <summary>Runtime</summary>
+              <p class="runtime-status" data-role="runtime-status">Select a workspace to inspect its runtime.</p>
+              <ul class="runtime-details" data-role="runtime-details"></ul>
+              <pre class="runtime-stderr is-hidden" data-role="runtime-stderr"></pre>
+              <div class="utility-actions utility-actions-secondary">
+                <button class="button-secondary" type="button" data-role="runtime-refresh">Refresh</button>
+                <button class="button-secondary" type="button" data-role="runtime-restart">Restart</button>
+                <button class="button-secondary" type="button" data-role="runtime-stop">Stop</button>
+              </div>
+            </details>
+
+            <details class="workspace-disclosure review-disclosure" data-role="review-panel">
+              <summary>Code Review</summary>
+              <form class="review-form" data-role="review-form">
+                <label class="settings-select">
+                  <span>Review</span>
+                  <select data-role="review-target-type">
+                    <option value="uncommittedChanges">Uncommitted changes</option>
+                    <option value="commit">Commit</option>
+                    <option value="baseBranch">Against base branch</option>
+                  </select>
+                </label>
+                <input type="text" class="is-hidden" placeholder="Commit sha" data-role="review-target-ref" />
+                <button type="submit" data-role="review-start">Start Review</button>
+              </form>
+              <p class="review-status" data-role="review-status">Select a workspace to review its changes.</p>
+              <div class="review-list" data-role="review-list"></div>
+            </details>
+
+            <details class="workspace-disclosure search-disclosure">
+              <summary>Search Files</summary>
+              <form class="file-search-form" data-role="file-search-form">
+                <input type="search" placeholder="Search text or file names" required data-role="file-search-query" />
+                <label class="settings-select">
+                  <span>Match</span>
+                  <select data-role="file-search-mode">
+                    <option value="content">File contents</option>
+                    <option value="path">File names</option>
+                  </select>
+                </label>
+                <div class="file-search-toggles">
+                  <label class="settings-toggle">
+                    <input type="checkbox" data-role="file-search-regex" />
+                    <span>Regex</span>
+                  </label>
+                  <label class="settings-toggle">
+                    <input type="checkbox" data-role="file-search-case" />
+                    <span>Match case</span>
+                  </label>
+                </div>
+                <input type="text" placeholder="Include globs (src/**, *.ts)" data-role="file-search-include" />
+                <input type="text" placeholder="Exclude globs (test/**)" data-role="file-search-exclude" />
+                <button type="submit" data-role="file-search-submit">Search</button>
+              </form>
+              <p class="file-search-status" data-role="file-search-status">Select a workspace to search its files.</p>
+              <div class="file-search-results" data-role="file-search-results"></div>
+            </details>
+
+            <div class="settings-note" data-role="runtime-policy-note">Runtime policy: select a workspace</div>
+            <div class="settings-form">
+              <label class="settings-select">
+                <span>Sandbox</span>
+                <select data-role="settings-sandbox-mode">
+                  <option value="read-only">Read only</option>
+                  <option value="workspace-write">Workspace write</option>
+                  <option value="danger-full-access">Full access</option>
+                </select>
+              </label>
+              <label class="settings-select">
+                <span>Approvals</span>
+                <select data-role="settings-approval-policy">
+                  <option value="untrusted">Untrusted commands</option>
+                  <option value="on-request">On request</option>
+                  <option value="on-failure">On failure</option>
+                  <option value="never">Never ask</option>
+                </select>
+              </label>
+            </div>
             <div class="settings-form">
               <label class="settings-toggle">
                 <input type="checkbox" data-role="settings-show-status-events" />
@@ -159,6 +377,44 @@ export function createAppShell(root: HTMLDivElement): AppDomRefs {
                 <span>Compact status bursts</span>
               </label>
             </div>
+
+            <details class="workspace-disclosure devices-disclosure" data-role="devices-panel">
+              <summary>Signed-in Devices</summary>
+              <p class="devices-status" data-role="devices-status">Open to list signed-in devices.</p>
+              <div class="devices-list" data-role="devices-list"></div>
+              <div class="utility-actions utility-actions-secondary">
+                <button class="button-secondary" type="button" data-role="devices-refresh">Refresh</button>
+              </div>
+            </details>
+
+            <details class="workspace-disclosure two-factor-disclosure" data-role="two-factor-panel">
+              <summary>Two-Factor Authentication</summary>
+              <p class="two-factor-status" data-role="two-factor-status">Open to load two-factor settings.</p>
+              <div class="two-factor-enrollment is-hidden" data-role="two-factor-enrollment">
+                <a class="two-factor-link" href="#" data-role="two-factor-link">Add to authenticator app</a>
+                <p class="two-factor-secret">Or enter this key: <code data-role="two-factor-secret"></code></p>
+              </div>
+              <pre class="two-factor-recovery-codes is-hidden" data-role="two-factor-recovery-codes"></pre>
+              <form class="two-factor-form" data-role="two-factor-form">
+                <input type="text" name="code" autocomplete="one-time-code" autocapitalize="none" spellcheck="false" placeholder="Authentication code" data-role="two-factor-code" />
+                <div class="utility-actions utility-actions-secondary">
+                  <button class="button-secondary" type="button" data-role="two-factor-enable">Set Up</button>
+                  <button class="button-secondary" type="submit" data-role="two-factor-submit">Confirm</button>
+                </div>
+              </form>
+            </details>
+
+            <details class="workspace-disclosure passkeys-disclosure" data-role="passkeys-panel">
+              <summary>Passkeys</summary>
+              <p class="passkeys-status" data-role="passkeys-status">Open to list passkeys.</p>
+              <div class="passkeys-list" data-role="passkeys-list"></div>
+              <form class="passkeys-form" data-role="passkeys-form">
+                <input type="text" name="label" maxlength="64" placeholder="Name, e.g. iPhone" data-role="passkeys-label" />
+                <div class="utility-actions utility-actions-secondary">
+                  <button class="button-secondary" type="submit" data-role="passkeys-add">Add Passkey</button>
+                </div>
+              </form>
+            </details>
           </section>
         </aside>
 
@@ -283,6 +539,9 @@ export function createAppShell(root: HTMLDivElement): AppDomRefs {
                 <p class="git-review-status" data-role="git-review-status">Select a workspace to inspect changes.</p>
               </div>
               <div class="git-review-header-actions">
+                <select class="git-branch-select" aria-label="Branch" data-role="git-branch-select"></select>
+                <button class="button-secondary" type="button" data-role="git-new-branch">New Branch</button>
+                <button class="button-secondary" type="button" data-role="git-review-view-toggle">History</button>
                 <button class="button-secondary" type="button" data-role="git-review-refresh">Refresh</button>
                 <button class="button-secondary" type="button" data-role="git-review-back">Back to Chat</button>
               </div>
@@ -291,7 +550,10 @@ export function createAppShell(root: HTMLDivElement): AppDomRefs {
             <div class="git-review-body">
               <aside class="git-review-files">
                 <div class="git-review-files-header">
-                  <h3>Changed Files</h3>
+                  <h3 data-role="git-review-files-title">Changed Files</h3>
+                  <button class="button-secondary git-review-toggle-files" type="button" data-role="git-review-diff-mode">
+                    All Files
+                  </button>
                   <button class="button-secondary git-review-toggle-files" type="button" data-role="git-review-toggle-files">
                     Hide Files
                   </button>
@@ -299,13 +561,141 @@ export function createAppShell(root: HTMLDivElement): AppDomRefs {
                 <div class="git-review-file-list" data-role="git-review-file-list">
                   <p class="empty">No file changes detected.</p>
                 </div>
+                <div class="git-history-list is-hidden" data-role="git-history-list"></div>
+                <form class="git-commit-form" data-role="git-commit-form">
+                  <textarea rows="3" placeholder="Commit message" data-role="git-commit-message"></textarea>
+                  <label class="settings-toggle">
+                    <input type="checkbox" data-role="git-commit-amend" />
+                    <span>Amend last commit</span>
+                  </label>
+                  <div class="git-commit-actions">
+                    <button class="button-secondary" type="button" data-role="git-commit-suggest">Suggest</button>
+                    <button type="submit" data-role="git-commit-submit">Commit</button>
+                    <button class="button-secondary" type="button" data-role="git-push">Push</button>
+                  </div>
+                  <p class="git-commit-result is-hidden" data-role="git-commit-result"></p>
+                </form>
               </aside>
               <section class="git-review-diff">
-                <h3>Diff Preview</h3>
+                <div class="git-review-diff-header">
+                  <h3>Diff Preview</h3>
+                  <form class="git-diff-base-form" data-role="git-diff-base-form">
+                    <input
+                      type="text"
+                      placeholder="Compare with ref (main, v1.2, abc1234)"
+                      list="git-diff-base-options"
+                      autocomplete="off"
+                      data-role="git-diff-base-input"
+                    />
+                    <datalist id="git-diff-base-options" data-role="git-diff-base-options"></datalist>
+                    <label class="settings-toggle">
+                      <input type="checkbox" checked data-role="git-diff-base-merge" />
+                      <span>From merge-base</span>
+                    </label>
+                    <label class="settings-toggle">
+                      <input type="checkbox" checked data-role="git-diff-base-uncommitted" />
+                      <span>Include uncommitted</span>
+                    </label>
+                    <button class="button-secondary" type="submit" data-role="git-diff-base-apply">Compare</button>
+                    <button class="button-secondary" type="button" data-role="git-diff-base-clear">Clear</button>
+                  </form>
+                </div>
                 <div class="git-review-diff-content" data-role="git-review-diff"></div>
               </section>
             </div>
           </section>
+
+          <section class="file-browser-panel is-hidden" data-role="file-browser-panel">
+            <div class="git-review-header">
+              <div class="git-review-header-copy">
+                <p class="git-review-eyebrow">Workspace Files</p>
+                <h2 data-role="file-browser-title">Files</h2>
+                <p class="git-review-status" data-role="file-browser-status">Select a workspace to browse its files.</p>
+              </div>
+              <div class="git-review-header-actions">
+                <button class="button-secondary" type="button" data-role="file-browser-refresh">Refresh</button>
+                <button class="button-secondary" type="button" data-role="file-browser-back">Back to Chat</button>
+              </div>
+            </div>
+            <p class="git-review-error is-hidden" data-role="file-browser-error"></p>
+            <div class="file-browser-body">
+              <aside class="file-browser-tree" data-role="file-browser-tree">
+                <p class="empty">Loading files...</p>
+              </aside>
+              <section class="file-viewer">
+                <div class="file-viewer-header">
+                  <h3 data-role="file-viewer-path">No file selected</h3>
+                  <span class="file-viewer-meta" data-role="file-viewer-meta"></span>
+                  <div class="file-viewer-actions">
+                    <button class="button-secondary is-hidden" type="button" data-role="file-edit">Edit</button>
+                    <button class="is-hidden" type="button" data-role="file-save">Save</button>
+                    <button class="button-secondary is-hidden" type="button" data-role="file-cancel-edit">Cancel</button>
+                  </div>
+                </div>
+                <div class="file-viewer-content" data-role="file-viewer-content">
+                  <p class="empty">Select a file to view its contents.</p>
+                </div>
+                <textarea
+                  class="file-editor is-hidden"
+                  spellcheck="false"
+                  autocapitalize="off"
+                  autocomplete="off"
+                  aria-label="File contents"
+                  data-role="file-editor"
+                ></textarea>
+              </section>
+            </div>
+          </section>
+
+          <section class="terminal-panel is-hidden" data-role="terminal-panel">
+            <div class="git-review-header">
+              <div class="git-review-header-copy">
+                <p class="git-review-eyebrow">Workspace Terminal</p>
+                <h2 data-role="terminal-title">Terminal</h2>
+                <p class="git-review-status" data-role="terminal-status">Start a shell or a command in this workspace.</p>
+              </div>
+              <div class="git-review-header-actions">
+                <button class="button-secondary" type="button" data-role="terminal-refresh">Refresh</button>
+                <button class="button-secondary" type="button" data-role="terminal-back">Back to Chat</button>
+              </div>
+            </div>
+            <p class="git-review-error is-hidden" data-role="terminal-error"></p>
+            <div class="terminal-body">
+              <aside class="terminal-sessions">
+                <form class="terminal-start-form" data-role="terminal-start-form">
+                  <input
+                    type="text"
+                    placeholder="Command, or empty for a shell"
+                    autocomplete="off"
+                    autocapitalize="off"
+                    spellcheck="false"
+                    aria-label="Command to run"
+                    data-role="terminal-command-input"
+                  />
+                  <button type="submit" data-role="terminal-start">Start</button>
+                </form>
+                <ul class="terminal-session-list" data-role="terminal-session-list"></ul>
+              </aside>
+              <section class="terminal-view">
+                <pre class="terminal-output" data-role="terminal-output"></pre>
+                <form class="terminal-input-form" data-role="terminal-input-form">
+                  <input
+                    type="text"
+                    placeholder="Send a line to stdin"
+                    autocomplete="off"
+                    autocapitalize="off"
+                    spellcheck="false"
+                    aria-label="Terminal input"
+                    data-role="terminal-input"
+                  />
+                  <button type="submit" data-role="terminal-send">Send</button>
+                  <button class="button-secondary" type="button" data-role="terminal-interrupt">Ctrl-C</button>
+                  <button class="button-secondary" type="button" data-role="terminal-eof">EOF</button>
+                  <button class="button-secondary" type="button" data-role="terminal-kill">Kill</button>
+                </form>
+              </section>
+            </div>
+          </section>
         </section>
       </section>
     </main>
@@ -367,17 +757,32 @@ export function createAppShell(root: HTMLDivElement): AppDomRefs {
     socketStateChip: requireElement<HTMLElement>(root, "[data-role='socket-state']"),
     refreshWorkspacesButton: requireElement<HTMLButtonElement>(root, "[data-role='refresh-workspaces']"),
     reconnectEventsButton: requireElement<HTMLButtonElement>(root, "[data-role='reconnect-events']"),
+    sessionUserText: requireElement<HTMLElement>(root, "[data-role='session-user']"),
     logoutButton: requireElement<HTMLButtonElement>(root, "[data-role='logout']"),
     loginForm: requireElement<HTMLFormElement>(root, "#login-form"),
+    loginUsernameField: requireElement<HTMLElement>(root, "[data-role='login-username-field']"),
+    loginUsernameInput: requireElement<HTMLInputElement>(root, "[data-role='login-username']"),
     loginPasswordInput: requireElement<HTMLInputElement>(root, "[data-role='login-password']"),
     loginSubmitButton: requireElement<HTMLButtonElement>(root, "[data-role='login-submit']"),
+    loginTwoFactorForm: requireElement<HTMLFormElement>(root, "[data-role='login-two-factor-form']"),
+    loginTwoFactorCodeInput: requireElement<HTMLInputElement>(root, "[data-role='login-two-factor-code']"),
+    loginTwoFactorSubmitButton: requireElement<HTMLButtonElement>(root, "[data-role='login-two-factor-submit']"),
+    loginTwoFactorCancelButton: requireElement<HTMLButtonElement>(root, "[data-role='login-two-factor-cancel']"),
+    loginPasskeyButton: requireElement<HTMLButtonElement>(root, "[data-role='login-passkey']"),
     workspaceForm: requireElement<HTMLFormElement>(root, "#workspace-form"),
     workspaceAbsolutePathInput: requireElement<HTMLInputElement>(root, "[data-role='workspace-path']"),
     workspaceSubmitButton: requireElement<HTMLButtonElement>(root, "[data-role='workspace-submit']"),
     workspaceTree: requireElement<HTMLElement>(root, "[data-role='workspace-tree']"),
     openGitReviewButton: requireElement<HTMLButtonElement>(root, "[data-role='open-git-review']"),
+    openFileBrowserButton: requireElement<HTMLButtonElement>(root, "[data-role='open-file-browser']"),
+    openTerminalPanelButton: requireElement<HTMLButtonElement>(root, "[data-role='open-terminal-panel']"),
     refreshThreadsButton: requireElement<HTMLButtonElement>(root, "[data-role='refresh-threads']"),
     startThreadButton: requireElement<HTMLButtonElement>(root, "[data-role='start-thread']"),
+    startWorktreeThreadButton: requireElement<HTMLButtonElement>(root, "[data-role='start-worktree-thread']"),
+    threadWorktreeActions: requireElement<HTMLElement>(root, "[data-role='thread-worktree-actions']"),
+    threadWorktreeLabel: requireElement<HTMLElement>(root, "[data-role='thread-worktree-label']"),
+    mergeThreadWorktreeButton: requireElement<HTMLButtonElement>(root, "[data-role='merge-thread-worktree']"),
+    removeThreadWorktreeButton: requireElement<HTMLButtonElement>(root, "[data-role='remove-thread-worktree']"),
     conversationTitle: requireElement<HTMLElement>(root, "[data-role='conversation-title']"),
     turnForm: requireElement<HTMLFormElement>(root, "#turn-form"),
     turnPromptInput: requireElement<HTMLTextAreaElement>(root, "[data-role='turn-prompt']"),
@@ -408,6 +813,53 @@ export function createAppShell(root: HTMLDivElement): AppDomRefs {
       root,
       "[data-role='settings-compact-status-bursts']"
     ),
+    runtimePolicyNote: requireElement<HTMLElement>(root, "[data-role='runtime-policy-note']"),
+    settingsSandboxModeSelect: requireElement<HTMLSelectElement>(root, "[data-role='settings-sandbox-mode']"),
+    settingsApprovalPolicySelect: requireElement<HTMLSelectElement>(root, "[data-role='settings-approval-policy']"),
+    runtimePanel: requireElement<HTMLDetailsElement>(root, "[data-role='runtime-panel']"),
+    runtimeStatusText: requireElement<HTMLElement>(root, "[data-role='runtime-status']"),
+    runtimeDetailsList: requireElement<HTMLUListElement>(root, "[data-role='runtime-details']"),
+    runtimeStderr: requireElement<HTMLElement>(root, "[data-role='runtime-stderr']"),
+    runtimeRefreshButton: requireElement<HTMLButtonElement>(root, "[data-role='runtime-refresh']"),
+    runtimeRestartButton: requireElement<HTMLButtonElement>(root, "[data-role='runtime-restart']"),
+    runtimeStopButton: requireElement<HTMLButtonElement>(root, "[data-role='runtime-stop']"),
+    devicesPanel: requireElement<HTMLDetailsElement>(root, "[data-role='devices-panel']"),
+    devicesStatusText: requireElement<HTMLElement>(root, "[data-role='devices-status']"),
+    devicesList: requireElement<HTMLElement>(root, "[data-role='devices-list']"),
+    devicesRefreshButton: requireElement<HTMLButtonElement>(root, "[data-role='devices-refresh']"),
+    twoFactorPanel: requireElement<HTMLDetailsElement>(root, "[data-role='two-factor-panel']"),
+    twoFactorStatusText: requireElement<HTMLElement>(root, "[data-role='two-factor-status']"),
+    twoFactorEnrollment: requireElement<HTMLElement>(root, "[data-role='two-factor-enrollment']"),
+    twoFactorLink: requireElement<HTMLAnchorElement>(root, "[data-role='two-factor-link']"),
+    twoFactorSecret: requireElement<HTMLElement>(root, "[data-role='two-factor-secret']"),
+    twoFactorRecoveryCodes: requireElement<HTMLElement>(root, "[data-role='two-factor-recovery-codes']"),
+    twoFactorForm: requireElement<HTMLFormElement>(root, "[data-role='two-factor-form']"),
+    twoFactorCodeInput: requireElement<HTMLInputElement>(root, "[data-role='two-factor-code']"),
+    twoFactorEnableButton: requireElement<HTMLButtonElement>(root, "[data-role='two-factor-enable']"),
+    twoFactorSubmitButton: requireElement<HTMLButtonElement>(root, "[data-role='two-factor-submit']"),
+    passkeysPanel: requireElement<HTMLDetailsElement>(root, "[data-role='passkeys-panel']"),
+    passkeysStatusText: requireElement<HTMLElement>(root, "[data-role='passkeys-status']"),
+    passkeysList: requireElement<HTMLElement>(root, "[data-role='passkeys-list']"),
+    passkeysForm: requireElement<HTMLFormElement>(root, "[data-role='passkeys-form']"),
+    passkeysLabelInput: requireElement<HTMLInputElement>(root, "[data-role='passkeys-label']"),
+    passkeysAddButton: requireElement<HTMLButtonElement>(root, "[data-role='passkeys-add']"),
+    reviewPanel: requireElement<HTMLDetailsElement>(root, "[data-role='review-panel']"),
+    reviewForm: requireElement<HTMLFormElement>(root, "[data-role='review-form']"),
+    reviewTargetTypeSelect: requireElement<HTMLSelectElement>(root, "[data-role='review-target-type']"),
+    reviewTargetRefInput: requireElement<HTMLInputElement>(root, "[data-role='review-target-ref']"),
+    reviewStartButton: requireElement<HTMLButtonElement>(root, "[data-role='review-start']"),
+    reviewStatusText: requireElement<HTMLElement>(root, "[data-role='review-status']"),
+    reviewList: requireElement<HTMLElement>(root, "[data-role='review-list']"),
+    fileSearchForm: requireElement<HTMLFormElement>(root, "[data-role='file-search-form']"),
+    fileSearchQueryInput: requireElement<HTMLInputElement>(root, "[data-role='file-search-query']"),
+    fileSearchModeSelect: requireElement<HTMLSelectElement>(root, "[data-role='file-search-mode']"),
+    fileSearchRegexInput: requireElement<HTMLInputElement>(root, "[data-role='file-search-regex']"),
+    fileSearchCaseInput: requireElement<HTMLInputElement>(root, "[data-role='file-search-case']"),
+    fileSearchIncludeInput: requireElement<HTMLInputElement>(root, "[data-role='file-search-include']"),
+    fileSearchExcludeInput: requireElement<HTMLInputElement>(root, "[data-role='file-search-exclude']"),
+    fileSearchSubmitButton: requireElement<HTMLButtonElement>(root, "[data-role='file-search-submit']"),
+    fileSearchStatusText: requireElement<HTMLElement>(root, "[data-role='file-search-status']"),
+    fileSearchResults: requireElement<HTMLElement>(root, "[data-role='file-search-results']"),
     jumpLatestButton: requireElement<HTMLButtonElement>(root, "[data-role='jump-latest']"),
     conversationPanel: requireElement<HTMLElement>(root, "[data-role='conversation-panel']"),
     gitReviewPanel: requireElement<HTMLElement>(root, "[data-role='git-review-panel']"),
@@ -417,7 +869,58 @@ export function createAppShell(root: HTMLDivElement): AppDomRefs {
     gitReviewStatusText: requireElement<HTMLElement>(root, "[data-role='git-review-status']"),
     gitReviewError: requireElement<HTMLElement>(root, "[data-role='git-review-error']"),
     gitReviewToggleFilesButton: requireElement<HTMLButtonElement>(root, "[data-role='git-review-toggle-files']"),
+    gitReviewDiffModeButton: requireElement<HTMLButtonElement>(root, "[data-role='git-review-diff-mode']"),
+    gitBranchSelect: requireElement<HTMLSelectElement>(root, "[data-role='git-branch-select']"),
+    gitNewBranchButton: requireElement<HTMLButtonElement>(root, "[data-role='git-new-branch']"),
+    gitReviewViewToggleButton: requireElement<HTMLButtonElement>(root, "[data-role='git-review-view-toggle']"),
+    gitReviewFilesTitle: requireElement<HTMLElement>(root, "[data-role='git-review-files-title']"),
     gitReviewFileList: requireElement<HTMLElement>(root, "[data-role='git-review-file-list']"),
-    gitReviewDiffContainer: requireElement<HTMLElement>(root, "[data-role='git-review-diff']")
+    gitHistoryList: requireElement<HTMLElement>(root, "[data-role='git-history-list']"),
+    gitReviewDiffContainer: requireElement<HTMLElement>(root, "[data-role='git-review-diff']"),
+    gitDiffBaseForm: requireElement<HTMLFormElement>(root, "[data-role='git-diff-base-form']"),
+    gitDiffBaseInput: requireElement<HTMLInputElement>(root, "[data-role='git-diff-base-input']"),
+    gitDiffBaseOptions: requireElement<HTMLDataListElement>(root, "[data-role='git-diff-base-options']"),
+    gitDiffBaseMergeInput: requireElement<HTMLInputElement>(root, "[data-role='git-diff-base-merge']"),
+    gitDiffBaseUncommittedInput: requireElement<HTMLInputElement>(root, "[data-role='git-diff-base-uncommitted']"),
+    gitDiffBaseApplyButton: requireElement<HTMLButtonElement>(root, "[data-role='git-diff-base-apply']"),
+    gitDiffBaseClearButton: requireElement<HTMLButtonElement>(root, "[data-role='git-diff-base-clear']"),
+    gitCommitForm: requireElement<HTMLFormElement>(root, "[data-role='git-commit-form']"),
+    gitCommitMessageInput: requireElement<HTMLTextAreaElement>(root, "[data-role='git-commit-message']"),
+    gitCommitAmendInput: requireElement<HTMLInputElement>(root, "[data-role='git-commit-amend']"),
+    gitCommitSuggestButton: requireElement<HTMLButtonElement>(root, "[data-role='git-commit-suggest']"),
+    gitCommitSubmitButton: requireElement<HTMLButtonElement>(root, "[data-role='git-commit-submit']"),
+    gitPushButton: requireElement<HTMLButtonElement>(root, "[data-role='git-push']"),
+    gitCommitResult: requireElement<HTMLElement>(root, "[data-role='git-commit-result']"),
+    fileBrowserPanel: requireElement<HTMLElement>(root, "[data-role='file-browser-panel']"),
+    fileBrowserTitle: requireElement<HTMLElement>(root, "[data-role='file-browser-title']"),
+    fileBrowserStatusText: requireElement<HTMLElement>(root, "[data-role='file-browser-status']"),
+    fileBrowserError: requireElement<HTMLElement>(root, "[data-role='file-browser-error']"),
+    fileBrowserRefreshButton: requireElement<HTMLButtonElement>(root, "[data-role='file-browser-refresh']"),
+    fileBrowserBackButton: requireElement<HTMLButtonElement>(root, "[data-role='file-browser-back']"),
+    fileBrowserTree: requireElement<HTMLElement>(root, "[data-role='file-browser-tree']"),
+    fileViewerPath: requireElement<HTMLElement>(root, "[data-role='file-viewer-path']"),
+    fileViewerMeta: requireElement<HTMLElement>(root, "[data-role='file-viewer-meta']"),
+    fileViewerContent: requireElement<HTMLElement>(root, "[data-role='file-viewer-content']"),
+    fileEditButton: requireElement<HTMLButtonElement>(root, "[data-role='file-edit']"),
+    fileSaveButton: requireElement<HTMLButtonElement>(root, "[data-role='file-save']"),
+    fileCancelEditButton: requireElement<HTMLButtonElement>(root, "[data-role='file-cancel-edit']"),
+    fileEditorInput: requireElement<HTMLTextAreaElement>(root, "[data-role='file-editor']"),
+    terminalPanel: requireElement<HTMLElement>(root, "[data-role='terminal-panel']"),
+    terminalTitle: requireElement<HTMLElement>(root, "[data-role='terminal-title']"),
+    terminalStatusText: requireElement<HTMLElement>(root, "[data-role='terminal-status']"),
+    terminalError: requireElement<HTMLElement>(root, "[data-role='terminal-error']"),
+    terminalRefreshButton: requireElement<HTMLButtonElement>(root, "[data-role='terminal-refresh']"),
+    terminalBackButton: requireElement<HTMLButtonElement>(root, "[data-role='terminal-back']"),
+    terminalStartForm: requireElement<HTMLFormElement>(root, "[data-role='terminal-start-form']"),
+    terminalCommandInput: requireElement<HTMLInputElement>(root, "[data-role='terminal-command-input']"),
+    terminalStartButton: requireElement<HTMLButtonElement>(root, "[data-role='terminal-start']"),
+    terminalSessionList: requireElement<HTMLElement>(root, "[data-role='terminal-session-list']"),
+    terminalOutput: requireElement<HTMLElement>(root, "[data-role='terminal-output']"),
+    terminalInputForm: requireElement<HTMLFormElement>(root, "[data-role='terminal-input-form']"),
+    terminalInput: requireElement<HTMLInputElement>(root, "[data-role='terminal-input']"),
+    terminalSendButton: requireElement<HTMLButtonElement>(root, "[data-role='terminal-send']"),
+    terminalInterruptButton: requireElement<HTMLButtonElement>(root, "[data-role='terminal-interrupt']"),
+    terminalEofButton: requireElement<HTMLButtonElement>(root, "[data-role='terminal-eof']"),
+    terminalKillButton: requireElement<HTMLButtonElement>(root, "[data-role='terminal-kill']")
   };
 }
@@ -0,0 +1,133 @@
+import { describe, expect, it } from "vitest";
+
+import type { PendingApprovalRecord } from "../../src/lib/api-client.js";
+import {
+  applyApprovalRuntimeUpdate,
+  approvalCardsForThread,
+  mergePendingApprovals,
+  parseApprovalRuntimeEvent
+} from "../../src/lib/approvals.js";
+import type { ApprovalCard } from "../../src/state/app-state.js";
+
+function runtimeEvent(kind: string, payload: unknown): unknown {
+  return {
+    type: "workspace_runtime_event",
+    event: {
+      workspaceId: "workspace-1",
+      sequence: 1,
+      timestamp: "2026-02-14T05:08:00.000Z",
+      kind,
+      payload
+    }
+  };
+}
+
+function pendingRecord(overrides: Partial<PendingApprovalRecord> = {}): PendingApprovalRecord {
+  return {
+    requestId: "7",
+    workspaceId: "workspace-1",
+    method: "item/commandExecution/requestApproval",
+    kind: "commandExecution",
+    threadId: "thread-1",
+    turnId: "turn-1",
+    itemId: "item-1",
+    command: "npm test",
+    cwd: "/tmp/workspace",
+    reason: null,
+    createdAt: "2026-02-14T05:08:00.000Z",
+    expiresAt: "2026-02-14T05:13:00.000Z",
+    ...overrides
+  };
+}
+
+describe("approval helpers", () => {
+  it("parses approval server requests into pending cards", () => {
+    const update = parseApprovalRuntimeEvent(
+      runtimeEvent("serverRequest", {
+        id: 7,
+        method: "execCommandApproval",
+        params: {
+          conversationId: "thread-1",
+          command: ["git", "push"],
+          cwd: "/tmp/workspace"
+        }
+      })
+    );
+
+    expect(update).toEqual({
+      type: "requested",
+      card: {
+        requestId: "7",
+        kind: "commandExecution",
+        threadId: "thread-1",
+        turnId: null,
+        command: "git push",
+        cwd: "/tmp/workspace",
+        reason: null,
+        expiresAt: null,
+        status: "pending",
+        resolutionNote: null
+      }
+    });
+  });
+
+  it("ignores non-approval runtime events", () => {
+    expect(parseApprovalRuntimeEvent(runtimeEvent("serverRequest", { id: 1, method: "approval/request" }))).toBeNull();
+    expect(parseApprovalRuntimeEvent(runtimeEvent("stateChanged", "ready"))).toBeNull();
+    expect(parseApprovalRuntimeEvent({ type: "connected", workspaceId: "workspace-1" })).toBeNull();
+  });
+
+  it("applies resolutions and runtime stops to cards", () => {
+    const requested = parseApprovalRuntimeEvent(
+      runtimeEvent("serverRequest", {
+        id: "patch-1",
+        method: "item/fileChange/requestApproval",
+        params: { threadId: "thread-1" }
+      })
+    );
+    const stopped = parseApprovalRuntimeEvent(runtimeEvent("stateChanged", "degraded"));
+    const resolved = parseApprovalRuntimeEvent(
+      runtimeEvent("serverRequestResolved", {
+        id: "patch-1",
+        requestId: "patch-1",
+        decision: "deny",
+        reason: "Approval timed out after 300s",
+        source: "timeout"
+      })
+    );
+    if (!requested || !stopped || !resolved) {
+      throw new Error("expected approval updates");
+    }
+
+    const pendingCards = applyApprovalRuntimeUpdate([], requested);
+    expect(applyApprovalRuntimeUpdate(pendingCards, resolved)[0]).toMatchObject({
+      status: "denied",
+      resolutionNote: "Approval timed out after 300s"
+    });
+    expect(applyApprovalRuntimeUpdate(pendingCards, stopped)[0]?.status).toBe("expired");
+  });
+
+  it("merges pending approvals from the API and expires missing ones", () => {
+    const staleCard: ApprovalCard = {
+      requestId: "old",
+      kind: "fileChange",
+      threadId: "thread-1",
+      turnId: null,
+      command: null,
+      cwd: null,
+      reason: null,
+      expiresAt: null,
+      status: "pending",
+      resolutionNote: null
+    };
+
+    const merged = mergePendingApprovals([staleCard], [pendingRecord()]);
+
+    expect(merged.map((card) => [card.requestId, card.status])).toEqual([
+      ["old", "expired"],
+      ["7", "pending"]
+    ]);
+    expect(approvalCardsForThread(merged, "thread-2")).toEqual([]);
+    expect(approvalCardsForThread(merged, "thread-1")).toHaveLength(2);
+  });
+});
@@ -21,7 +21,8 @@ describe("normalizeThreadList", () => {
           title: "Old Metadata Thread",
           archived: false,
           lastSeenAt: "2026-02-09T00:00:00.000Z",
-          rawPayload: { id: "meta-thread-old" }
+          rawPayload: { id: "meta-thread-old" },
+          worktree: null
         },
         {
           threadId: "meta-thread",
@@ -29,7 +30,16 @@ describe("normalizeThreadList", () => {
           title: "Metadata Thread",
           archived: true,
           lastSeenAt: "2026-02-10T00:00:00.000Z",
-          rawPayload: { id: "meta-thread" }
+          rawPayload: { id: "meta-thread" },
+          worktree: {
+            threadId: "meta-thread",
+            workspaceId: "workspace-1",
+            path: "/workspaces/repo/.poketcodex/worktrees/agent",
+            branch: "agent",
+            baseRef: "HEAD",
+            baseSha: "abc123",
+            createdAt: "2026-02-10T00:00:00.000Z"
+          }
         }
       ]
     };
@@ -39,7 +49,8 @@ describe("normalizeThreadList", () => {
         threadId: "meta-thread",
         title: "Metadata Thread",
         archived: true,
-        lastSeenAt: "2026-02-10T00:00:00.000Z"
+        lastSeenAt: "2026-02-10T00:00:00.000Z",
+        worktreeBranch: "agent"
       },
       {
         threadId: "meta-thread-old",
@@ -104,6 +115,9 @@ describe("formatWorkspaceEvent", () => {
   it("formats socket/system envelope types", () => {
     expect(formatWorkspaceEvent({ type: "connected" })).toBe("[socket] subscribed to workspace events");
     expect(formatWorkspaceEvent({ type: "parse_error" })).toBe("[socket] received non-JSON event payload");
+    expect(formatWorkspaceEvent({ type: "workspace_runtime_gap", latestSequence: 12 })).toBe(
+      "[socket] missed events while disconnected; reloading thread history"
+    );
   });
 
   it("formats runtime notifications with params summary", () => {
@@ -227,6 +241,58 @@ describe("normalizeWorkspaceTimelineEvent", () => {
     expect(normalized?.details).toContain('"method": "tool/call"');
   });
 
+  it("reports schema drift as an error instead of a runtime method", () => {
+    const normalized = normalizeWorkspaceTimelineEvent({
+      type: "workspace_runtime_event",
+      event: {
+        sequence: 21,
+        kind: "schemaDrift",
+        payload: {
+          source: "notification",
+          method: "item/completed",
+          issues: [
+            { path: "params.item.text", message: "Invalid input: expected string, received undefined" },
+            { path: "params.item.id", message: "Invalid input: expected string, received undefined" }
+          ]
+        }
+      }
+    });
+
+    expect(normalized).toMatchObject({
+      message:
+        "#21 schema-drift notification item/completed: params.item.text: Invalid input: expected string, received undefined (+1 more)",
+      kind: "error",
+      category: "error",
+      source: "schema-drift"
+    });
+  });
+
+  it("describes runtime restart progress", () => {
+    const restartEvent = (sequence: number, payload: unknown) => ({
+      type: "workspace_runtime_event",
+      event: { sequence, kind: "runtimeRestart", payload }
+    });
+
+    expect(
+      formatWorkspaceEvent(restartEvent(7, { phase: "scheduled", attempt: 3, maxAttempts: 5, delayMs: 4000 }))
+    ).toBe("#7 runtime crashed; restarting in 4s (attempt 3/5)");
+    expect(formatWorkspaceEvent(restartEvent(8, { phase: "restarting", attempt: 3, maxAttempts: 5 }))).toBe(
+      "#8 runtime restarting (attempt 3/5)"
+    );
+    expect(
+      formatWorkspaceEvent(restartEvent(9, { phase: "recovered", attempt: 3, maxAttempts: 5, resumedThreadIds: ["t1"] }))
+    ).toBe("#9 runtime recovered; resumed 1 thread");
+    expect(
+      formatWorkspaceEvent({ type: "workspace_runtime_event", event: { sequence: 10, kind: "stateChanged", payload: "restarting" } })
+    ).toBe("#10 runtime-state restarting");
+
+    expect(normalizeWorkspaceTimelineEvent(restartEvent(11, { phase: "gaveUp", attempt: 5, maxAttempts: 5 }))).toMatchObject({
+      message: "#11 runtime kept crashing; automatic restarts stopped after 5 attempts",
+      kind: "error",
+      category: "error"
+    });
+  });
+
   it("marks parse errors as internal error events", () => {
     const normalized = normalizeWorkspaceTimelineEvent({
       type: "parse_error",
@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+
+import type { ReviewRecord } from "../../src/lib/api-client.js";
+import {
+  buildReviewTarget,
+  describeFindingLocation,
+  hunkOverlapsRange,
+  parseReviewRuntimeEvent,
+  upsertReview
+} from "../../src/lib/reviews.js";
+
+function reviewRecord(overrides: Partial<ReviewRecord> = {}): ReviewRecord {
+  return {
+    reviewId: "review-1",
+    workspaceId: "workspace-1",
+    threadId: "thread-1",
+    reviewThreadId: "thread-1",
+    turnId: "turn-1",
+    target: { type: "uncommittedChanges" },
+    status: "running",
+    findings: [],
+    overallCorrectness: null,
+    summary: null,
+    error: null,
+    startedAt: "2026-02-14T05:08:00.000Z",
+    completedAt: null,
+    ...overrides
+  };
+}
+
+describe("reviews", () => {
+  it("parses reviewUpdated runtime events and ignores other kinds", () => {
+    const review = reviewRecord({ status: "completed" });
+
+    expect(
+      parseReviewRuntimeEvent({
+        type: "workspace_runtime_event",
+        event: { workspaceId: "workspace-1", sequence: 3, kind: "reviewUpdated", payload: review }
+      })
+    ).toEqual(review);
+    expect(
+      parseReviewRuntimeEvent({
+        type: "workspace_runtime_event",
+        event: { workspaceId: "workspace-1", sequence: 4, kind: "notification", payload: review }
+      })
+    ).toBeNull();
+  });
+
+  it("replaces known reviews in place and prepends new ones", () => {
+    const first = reviewRecord();
+    const second = reviewRecord({ reviewId: "review-2" });
+
+    const reviews = upsertReview([first], second);
+    expect(reviews.map((review) => review.reviewId)).toEqual(["review-2", "review-1"]);
+
+    const updated = upsertReview(reviews, { ...first, status: "completed" });
+    expect(updated.map((review) => [review.reviewId, review.status])).toEqual([
+      ["review-2", "running"],
+      ["review-1", "completed"]
+    ]);
+  });
+
+  it("builds targets only when a reference is present", () => {
+    expect(buildReviewTarget("uncommittedChanges", "ignored")).toEqual({ type: "uncommittedChanges" });
+    expect(buildReviewTarget("commit", " abc1234 ")).toEqual({ type: "commit", sha: "abc1234" });
+    expect(buildReviewTarget("baseBranch", "main")).toEqual({ type: "baseBranch", branch: "main" });
+    expect(buildReviewTarget("baseBranch", "  ")).toBeNull();
+  });
+
+  it("matches hunks by their new-side line range", () => {
+    expect(hunkOverlapsRange("@@ -1,4 +10,6 @@ function main()", { start: 15, end: 20 })).toBe(true);
+    expect(hunkOverlapsRange("@@ -1,4 +10,6 @@", { start: 16, end: 20 })).toBe(false);
+    expect(hunkOverlapsRange("@@ -3 +3 @@", { start: 3, end: 3 })).toBe(true);
+    expect(hunkOverlapsRange("@@ -8,2 +7,0 @@", { start: 7, end: 7 })).toBe(true);
+    expect(hunkOverlapsRange("not a hunk", { start: 1, end: 100 })).toBe(false);
+  });
+
+  it("describes finding locations with workspace-relative paths when available", () => {
+    const finding = {
+      index: 0,
+      title: "Issue",
+      body: "",
+      priority: null,
+      confidence: null,
+      absolutePath: "/tmp/workspace/src/app.ts",
+      relativePath: "src/app.ts",
+      lineStart: 3,
+      lineEnd: 4
+    };
+
+    expect(describeFindingLocation(finding)).toBe("src/app.ts:3-4");
+    expect(describeFindingLocation({ ...finding, relativePath: null, lineEnd: 3 })).toBe("/tmp/workspace/src/app.ts:3");
+  });
+});
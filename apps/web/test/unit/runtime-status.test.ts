@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+
+import type { WorkspaceRuntimeRecord } from "../../src/lib/api-client.js";
+import {
+  describeRuntimeDetails,
+  describeRuntimeHeadline,
+  formatRuntimeUptime,
+  isRuntimeLifecycleEvent
+} from "../../src/lib/runtime-status.js";
+
+function runtimeRecord(overrides: Partial<WorkspaceRuntimeRecord> = {}): WorkspaceRuntimeRecord {
+  return {
+    workspaceId: "workspace-1",
+    state: "ready",
+    pid: 4123,
+    startedAt: "2026-02-14T05:08:00.000Z",
+    uptimeMs: 125_000,
+    pendingRequestCount: 1,
+    runningTurnCount: 0,
+    subscriberCount: 1,
+    lastActivityAt: "2026-02-14T05:10:00.000Z",
+    restartPending: false,
+    lastError: null,
+    stderrTail: [],
+    ...overrides
+  };
+}
+
+describe("runtime status helpers", () => {
+  it("formats uptime at a readable precision", () => {
+    expect(formatRuntimeUptime(null)).toBeNull();
+    expect(formatRuntimeUptime(42_500)).toBe("42s");
+    expect(formatRuntimeUptime(125_000)).toBe("2m 5s");
+    expect(formatRuntimeUptime(3 * 3_600_000 + 12 * 60_000)).toBe("3h 12m");
+  });
+
+  it("describes running and stopped runtimes", () => {
+    expect(describeRuntimeHeadline(runtimeRecord())).toBe("ready · pid 4123 · up 2m 5s");
+    expect(describeRuntimeDetails(runtimeRecord())).toEqual(["1 pending request, 0 running turns"]);
+
+    const crashed = runtimeRecord({
+      state: "degraded",
+      pid: null,
+      uptimeMs: null,
+      restartPending: true,
+      lastError: "App-server exited unexpectedly (code=1, signal=null)"
+    });
+    expect(describeRuntimeHeadline(crashed)).toBe("degraded");
+    expect(describeRuntimeDetails(crashed)).toEqual([
+      "1 pending request, 0 running turns",
+      "Automatic restart scheduled",
+      "Last error: App-server exited unexpectedly (code=1, signal=null)"
+    ]);
+
+    expect(describeRuntimeDetails(runtimeRecord({ state: "stopped", pid: null, uptimeMs: null }))).toEqual([]);
+  });
+
+  it("recognizes runtime lifecycle events", () => {
+    const envelope = (kind: string) => ({ type: "workspace_runtime_event", event: { kind, payload: null } });
+
+    expect(isRuntimeLifecycleEvent(envelope("stateChanged"))).toBe(true);
+    expect(isRuntimeLifecycleEvent(envelope("runtimeRestart"))).toBe(true);
+    expect(isRuntimeLifecycleEvent(envelope("notification"))).toBe(false);
+    expect(isRuntimeLifecycleEvent({ type: "connected" })).toBe(false);
+  });
+});
@@ -13,11 +13,35 @@ function createState(): AppState {
   return {
     session: {
       authenticated: true,
+      authMode: null,
+      username: null,
+      twoFactorChallenge: null,
       csrfToken: "token",
       busy: false,
       error: null,
       errorRetryLabel: null
     },
+    devices: {
+      loading: false,
+      revokingId: null,
+      sessions: [],
+      error: null
+    },
+    twoFactor: {
+      loading: false,
+      busy: false,
+      status: null,
+      enrollment: null,
+      recoveryCodes: [],
+      error: null
+    },
+    passkeys: {
+      loading: false,
+      busy: false,
+      removingId: null,
+      passkeys: [],
+      error: null
+    },
     workspace: {
       workspaces: [
         {
@@ -25,6 +49,8 @@ function createState(): AppState {
           absolutePath: "/home/divyam/projects/ads-research",
           displayName: "ads-research",
           trusted: true,
+          sandboxMode: "danger-full-access",
+          approvalPolicy: "never",
           createdAt: "2026-02-10T00:00:00.000Z",
           updatedAt: "2026-02-10T00:00:00.000Z"
         }
@@ -55,7 +81,10 @@ function createState(): AppState {
       selectedThreadId: "thread-1",
       transcriptsByThreadId: {},
       runningByThreadId: {},
-      unreadByThreadId: {}
+      unreadByThreadId: {},
+      approvalsByWorkspaceId: {},
+      checkpointTurnIdsByThreadId: {},
+      checkpointPreview: null
     },
     stream: {
       socketState: "connected",
@@ -78,15 +107,73 @@ function createState(): AppState {
       filesCollapsed: false,
       supported: null,
       branch: null,
+      upstream: null,
       ahead: 0,
       behind: 0,
       clean: true,
       entries: [],
       selectedPath: null,
       diff: "",
+      stagedDiff: "",
+      unstagedDiff: "",
       diffLoading: false,
+      diffMode: "file",
+      workspaceDiff: null,
+      diffBase: null,
+      focusRange: null,
+      pendingAction: null,
+      lastCommit: null,
+      view: "changes",
+      branches: [],
+      history: [],
+      historyHasMore: false,
+      historyLoading: false,
+      selectedCommitSha: null,
+      selectedCommit: null,
       error: null,
       workspaceId: null
+    },
+    runtime: {
+      workspaceId: null,
+      loading: false,
+      action: null,
+      runtime: null,
+      error: null
+    },
+    review: {
+      workspaceId: null,
+      loading: false,
+      starting: false,
+      reviews: [],
+      error: null
+    },
+    files: {
+      active: false,
+      workspaceId: null,
+      directories: {},
+      expandedPaths: [],
+      loadingPaths: [],
+      selectedPath: null,
+      file: null,
+      fileLoading: false,
+      editing: false,
+      saving: false,
+      error: null,
+      searchLoading: false,
+      search: null,
+      searchError: null
+    },
+    terminals: {
+      active: false,
+      workspaceId: null,
+      sessions: [],
+      loading: false,
+      starting: false,
+      selectedTerminalId: null,
+      output: [],
+      outputTruncated: false,
+      connection: "disconnected",
+      error: null
     }
   };
 }
@@ -7,11 +7,35 @@ function createInitialState(): AppState {
   return {
     session: {
       authenticated: false,
+      authMode: null,
+      username: null,
+      twoFactorChallenge: null,
       csrfToken: null,
       busy: false,
       error: null,
       errorRetryLabel: null
     },
+    devices: {
+      loading: false,
+      revokingId: null,
+      sessions: [],
+      error: null
+    },
+    twoFactor: {
+      loading: false,
+      busy: false,
+      status: null,
+      enrollment: null,
+      recoveryCodes: [],
+      error: null
+    },
+    passkeys: {
+      loading: false,
+      busy: false,
+      removingId: null,
+      passkeys: [],
+      error: null
+    },
     workspace: {
       workspaces: [],
       selectedWorkspaceId: null
@@ -25,7 +49,10 @@ function createInitialState(): AppState {
       selectedThreadId: null,
       transcriptsByThreadId: {},
       runningByThreadId: {},
-      unreadByThreadId: {}
+      unreadByThreadId: {},
+      approvalsByWorkspaceId: {},
+      checkpointTurnIdsByThreadId: {},
+      checkpointPreview: null
     },
     stream: {
       socketState: "disconnected",
@@ -48,15 +75,73 @@ function createInitialState(): AppState {
       filesCollapsed: false,
       supported: null,
       branch: null,
+      upstream: null,
       ahead: 0,
       behind: 0,
       clean: true,
       entries: [],
       selectedPath: null,
       diff: "",
+      stagedDiff: "",
+      unstagedDiff: "",
       diffLoading: false,
+      diffMode: "file",
+      workspaceDiff: null,
+      diffBase: null,
+      focusRange: null,
+      pendingAction: null,
+      lastCommit: null,
+      view: "changes",
+      branches: [],
+      history: [],
+      historyHasMore: false,
+      historyLoading: false,
+      selectedCommitSha: null,
+      selectedCommit: null,
       error: null,
       workspaceId: null
+    },
+    runtime: {
+      workspaceId: null,
+      loading: false,
+      action: null,
+      runtime: null,
+      error: null
+    },
+    review: {
+      workspaceId: null,
+      loading: false,
+      starting: false,
+      reviews: [],
+      error: null
+    },
+    files: {
+      active: false,
+      workspaceId: null,
+      directories: {},
+      expandedPaths: [],
+      loadingPaths: [],
+      selectedPath: null,
+      file: null,
+      fileLoading: false,
+      editing: false,
+      saving: false,
+      error: null,
+      searchLoading: false,
+      search: null,
+      searchError: null
+    },
+    terminals: {
+      active: false,
+      workspaceId: null,
+      sessions: [],
+      loading: false,
+      starting: false,
+      selectedTerminalId: null,
+      output: [],
+      outputTruncated: false,
+      connection: "disconnected",
+      error: null
     }
   };
 }
@@ -88,7 +173,10 @@ describe("AppStore", () => {
         selectedThreadId: null,
         transcriptsByThreadId: {},
         runningByThreadId: {},
-        unreadByThreadId: {}
+        unreadByThreadId: {},
+        approvalsByWorkspaceId: {},
+        checkpointTurnIdsByThreadId: {},
+        checkpointPreview: null
       }
     });
 
@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+
+import { detectSyntaxLanguage, highlightSource } from "../../src/lib/syntax-highlight.js";
+
+describe("detectSyntaxLanguage", () => {
+  it("maps file extensions to languages", () => {
+    expect(detectSyntaxLanguage("src/main.ts")).toBe("javascript");
+    expect(detectSyntaxLanguage("scripts/build.PY")).toBe("python");
+    expect(detectSyntaxLanguage("config/app.yml")).toBe("config");
+  });
+
+  it("falls back to plain text for unknown or missing extensions", () => {
+    expect(detectSyntaxLanguage("README.md")).toBeNull();
+    expect(detectSyntaxLanguage("Makefile")).toBeNull();
+    expect(detectSyntaxLanguage(".gitignore")).toBeNull();
+  });
+});
+
+describe("highlightSource", () => {
+  it("tokenizes keywords, strings, numbers and comments", () => {
+    expect(highlightSource('const answer = "42"; // note\n', "javascript")).toEqual([
+      [
+        { kind: "keyword", text: "const" },
+        { kind: "plain", text: " answer = " },
+        { kind: "string", text: '"42"' },
+        { kind: "plain", text: "; " },
+        { kind: "comment", text: "// note" }
+      ]
+    ]);
+
+    expect(highlightSource("x = 10", "python")).toEqual([
+      [
+        { kind: "plain", text: "x = " },
+        { kind: "number", text: "10" }
+      ]
+    ]);
+  });
+
+  it("carries block comments and multiline strings across lines", () => {
+    const lines = highlightSource("/* one\ntwo */ return\n", "javascript");
+    expect(lines).toEqual([
+      [{ kind: "comment", text: "/* one" }],
+      [
+        { kind: "comment", text: "two */" },
+        { kind: "plain", text: " " },
+        { kind: "keyword", text: "return" }
+      ]
+    ]);
+
+    expect(highlightSource('"""doc\nstring""" pass', "python")).toEqual([
+      [{ kind: "string", text: '"""doc' }],
+      [
+        { kind: "string", text: 'string"""' },
+        { kind: "plain", text: " " },
+        { kind: "keyword", text: "pass" }
+      ]
+    ]);
+  });
+
+  it("does not let an unterminated single-line string swallow the next line", () => {
+    expect(highlightSource("'open\nreturn", "javascript")).toEqual([
+      [{ kind: "string", text: "'open" }],
+      [{ kind: "keyword", text: "return" }]
+    ]);
+  });
+
+  it("keeps blank lines and returns plain lines without a language", () => {
+    expect(highlightSource("a\n\nb", null)).toEqual([
+      [{ kind: "plain", text: "a" }],
+      [],
+      [{ kind: "plain", text: "b" }]
+    ]);
+  });
+});
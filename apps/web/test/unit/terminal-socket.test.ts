@@ -0,0 +1,150 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { appendTerminalOutput, TerminalSocket, type TerminalServerMessage } from "../../src/lib/terminal-socket.js";
+
+class FakeWebSocket {
+  static instances: FakeWebSocket[] = [];
+
+  readonly url: string;
+  readonly sent: string[] = [];
+  readyState = 0;
+
+  onopen: ((event: Event) => void) | null = null;
+  onclose: ((event: CloseEvent) => void) | null = null;
+  onmessage: ((event: MessageEvent) => void) | null = null;
+
+  constructor(url: string | URL) {
+    this.url = String(url);
+    FakeWebSocket.instances.push(this);
+  }
+
+  send(data: string): void {
+    this.sent.push(data);
+  }
+
+  close(): void {
+    this.readyState = 3;
+    this.onclose?.({} as CloseEvent);
+  }
+
+  emitOpen(): void {
+    this.readyState = 1;
+    this.onopen?.({} as Event);
+  }
+
+  emitMessage(payload: unknown): void {
+    this.onmessage?.({ data: JSON.stringify(payload) } as MessageEvent);
+  }
+}
+
+interface GlobalShape {
+  window?: unknown;
+  WebSocket?: unknown;
+}
+
+const globalShape = globalThis as unknown as GlobalShape;
+const originalWindow = globalShape.window;
+const originalWebSocket = globalShape.WebSocket;
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  FakeWebSocket.instances = [];
+  globalShape.window = {
+    location: { protocol: "https:", host: "example.test" },
+    setTimeout: (handler: () => void, timeout?: number) => setTimeout(handler, timeout),
+    clearTimeout: (timer: ReturnType<typeof setTimeout>) => clearTimeout(timer)
+  };
+  globalShape.WebSocket = FakeWebSocket;
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  globalShape.window = originalWindow;
+  globalShape.WebSocket = originalWebSocket;
+});
+
+describe("appendTerminalOutput", () => {
+  it("merges chunks from the same stream and ignores replayed sequences", () => {
+    const first = appendTerminalOutput([], { sequence: 1, stream: "stdout", data: "a" });
+    const second = appendTerminalOutput(first.output, { sequence: 2, stream: "stdout", data: "b" });
+    const third = appendTerminalOutput(second.output, { sequence: 3, stream: "stderr", data: "!" });
+
+    expect(third.output).toEqual([
+      { sequence: 2, stream: "stdout", data: "ab" },
+      { sequence: 3, stream: "stderr", data: "!" }
+    ]);
+    expect(appendTerminalOutput(third.output, { sequence: 3, stream: "stderr", data: "!" }).output).toBe(
+      third.output
+    );
+  });
+
+  it("drops the oldest text beyond the character cap", () => {
+    const base = [{ sequence: 1, stream: "stdout" as const, data: "12345" }];
+    const next = appendTerminalOutput(base, { sequence: 2, stream: "stderr", data: "678" }, 6);
+
+    expect(next.truncated).toBe(true);
+    expect(next.output).toEqual([
+      { sequence: 1, stream: "stdout", data: "345" },
+      { sequence: 2, stream: "stderr", data: "678" }
+    ]);
+  });
+});
+
+describe("TerminalSocket", () => {
+  it("sends input and resumes after the last received sequence when reconnecting", () => {
+    const messages: TerminalServerMessage[] = [];
+    const states: string[] = [];
+    const socket = new TerminalSocket({
+      workspaceId: "workspace-1",
+      terminalId: "terminal-1",
+      onMessage: (message) => messages.push(message),
+      onStateChange: (state) => states.push(state)
+    });
+
+    socket.connect();
+    const first = FakeWebSocket.instances[0];
+    if (!first) {
+      throw new Error("Expected a websocket instance");
+    }
+    expect(first.url).toBe("wss://example.test/api/workspaces/workspace-1/terminals/terminal-1/stream");
+    expect(socket.sendInput("ls\n")).toBe(false);
+
+    first.emitOpen();
+    expect(socket.sendInput("ls\n")).toBe(true);
+    expect(socket.sendSignal("SIGINT")).toBe(true);
+    expect(first.sent.map((data) => JSON.parse(data) as unknown)).toEqual([
+      { type: "input", data: "ls\n" },
+      { type: "signal", signal: "SIGINT" }
+    ]);
+
+    first.emitMessage({ type: "terminal_output", sequence: 7, stream: "stdout", data: "file\n" });
+    first.close();
+    vi.advanceTimersByTime(600);
+
+    expect(FakeWebSocket.instances[1]?.url).toBe(
+      "wss://example.test/api/workspaces/workspace-1/terminals/terminal-1/stream?since=7"
+    );
+    expect(messages).toHaveLength(1);
+    expect(states).toEqual(["connecting", "connected", "reconnecting", "reconnecting"]);
+  });
+
+  it("stays closed once the session has exited", () => {
+    const states: string[] = [];
+    const socket = new TerminalSocket({
+      workspaceId: "workspace-1",
+      terminalId: "terminal-1",
+      onMessage: () => undefined,
+      onStateChange: (state) => states.push(state)
+    });
+
+    socket.connect();
+    const connection = FakeWebSocket.instances[0];
+    connection?.emitOpen();
+    connection?.emitMessage({ type: "terminal_exit", terminal: { id: "terminal-1", status: "exited" } });
+    connection?.close();
+    vi.advanceTimersByTime(5_000);
+
+    expect(FakeWebSocket.instances).toHaveLength(1);
+    expect(states.at(-1)).toBe("disconnected");
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+
+import { base64UrlToBuffer, bufferToBase64Url, toCreationOptions, toRequestOptions } from "../../src/lib/webauthn.js";
+
+describe("webauthn", () => {
+  it("round-trips base64url without padding", () => {
+    const bytes = new Uint8Array([251, 255, 0, 62, 63]);
+
+    expect(bufferToBase64Url(bytes.buffer)).toBe("-_8APj8");
+    expect(Array.from(new Uint8Array(base64UrlToBuffer("-_8APj8")))).toEqual(Array.from(bytes));
+    expect(bufferToBase64Url(base64UrlToBuffer("c2luZ2xlX3VzZXI"))).toBe("c2luZ2xlX3VzZXI");
+  });
+
+  it("decodes binary fields of the server's ceremony options", () => {
+    const creation = toCreationOptions({
+      challenge: "AQID",
+      rp: { id: "localhost", name: "PocketCodex" },
+      user: { id: "c2luZ2xlX3VzZXI", name: "owner", displayName: "owner" },
+      pubKeyCredParams: [{ type: "public-key", alg: -7 }],
+      excludeCredentials: [{ type: "public-key", id: "BAUG", transports: ["internal"] }],
+      authenticatorSelection: { residentKey: "required", requireResidentKey: true, userVerification: "required" },
+      attestation: "none",
+      timeout: 300_000
+    });
+
+    expect(new TextDecoder().decode(creation.user.id as ArrayBuffer)).toBe("single_user");
+    expect(Array.from(new Uint8Array(creation.challenge as ArrayBuffer))).toEqual([1, 2, 3]);
+    expect(Array.from(new Uint8Array(creation.excludeCredentials?.[0]?.id as ArrayBuffer))).toEqual([4, 5, 6]);
+    expect(creation.rp).toEqual({ id: "localhost", name: "PocketCodex" });
+
+    const request = toRequestOptions({
+      challenge: "AQID",
+      rpId: "localhost",
+      allowCredentials: [],
+      userVerification: "required",
+      timeout: 300_000
+    });
+    expect(request.rpId).toBe("localhost");
+    expect(request.allowCredentials).toEqual([]);
+  });
+});
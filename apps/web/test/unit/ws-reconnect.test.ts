@@ -209,6 +209,49 @@ describe("ReconnectingWorkspaceSocket", () => {
     socket.disconnect();
   });
 
+  it("resumes from the last seen sequence after reconnecting", () => {
+    const socket = new ReconnectingWorkspaceSocket({
+      workspaceId: "workspace-4",
+      onStateChange: () => {
+        // Not used in this test.
+      },
+      onMessage: () => {
+        // Not used in this test.
+      }
+    });
+
+    socket.connect();
+
+    const firstConnection = FakeWebSocket.instances[0];
+    if (!firstConnection) {
+      throw new Error("Expected initial websocket instance");
+    }
+
+    firstConnection.emitOpen();
+    firstConnection.emitMessage('{"type":"connected","workspaceId":"workspace-4","latestSequence":3}');
+    firstConnection.emitMessage('{"type":"workspace_runtime_event","event":{"sequence":4}}');
+    firstConnection.emitClose();
+
+    vi.advanceTimersByTime(600);
+
+    const secondConnection = FakeWebSocket.instances[1];
+    if (!secondConnection) {
+      throw new Error("Expected reconnect websocket instance");
+    }
+
+    expect(secondConnection.url).toBe("ws://127.0.0.1:5173/api/workspaces/workspace-4/events?since=4");
+
+    secondConnection.emitOpen();
+    secondConnection.emitMessage('{"type":"workspace_runtime_gap","workspaceId":"workspace-4","latestSequence":2}');
+    secondConnection.emitClose();
+
+    vi.advanceTimersByTime(600);
+
+    expect(FakeWebSocket.instances[2]?.url).toBe("ws://127.0.0.1:5173/api/workspaces/workspace-4/events?since=2");
+
+    socket.disconnect();
+  });
+
   it("disconnects sockets that are still connecting", () => {
     const states: string[] = [];
 
@@ -39,30 +39,27 @@ const webAllowedHosts = unique([
   ...parseCsv(process.env.WEB_ALLOWED_HOSTS)
 ]);
 const apiTarget = `http://${backendHost}:${backendPort}`;
+const apiProxy = {
+  "/api": {
+    target: apiTarget,
+    changeOrigin: true,
+    // Forwards the client address so the backend can throttle logins per client (TRUST_PROXY=true).
+    xfwd: true,
+    ws: true
+  }
+};
 
 export default defineConfig({
   server: {
     host: webDevHost,
     port: webDevPort,
     allowedHosts: webAllowedHosts,
-    proxy: {
-      "/api": {
-        target: apiTarget,
-        changeOrigin: true,
-        ws: true
-      }
-    }
+    proxy: apiProxy
   },
   preview: {
     host: webPreviewHost,
     port: webPreviewPort,
     allowedHosts: webAllowedHosts,
-    proxy: {
-      "/api": {
-        target: apiTarget,
-        changeOrigin: true,
-        ws: true
-      }
-    }
+    proxy: apiProxy
   }
 });
@@ -7,3 +7,5 @@ export interface WorkspaceSummary {
 export function normalizeDisplayName(name: string): string {
   return name.trim().replace(/\s+/g, " ");
 }
+
+export * from "./protocol.js";
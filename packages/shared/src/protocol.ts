@@ -0,0 +1,490 @@
+import { z } from "zod";
+
+// Schemas describing the Codex app-server JSON-RPC protocol. Objects are loose so fields this
+// project does not read survive untouched; only the fields consumers rely on are constrained.
+
+export const InitializeParamsSchema = z.looseObject({
+  clientInfo: z.looseObject({
+    name: z.string(),
+    version: z.string()
+  }),
+  capabilities: z
+    .looseObject({
+      experimentalApi: z.array(z.string()).optional()
+    })
+    .optional()
+});
+
+export const InitializeResultSchema = z.looseObject({
+  serverInfo: z
+    .looseObject({
+      name: z.string(),
+      version: z.string().optional()
+    })
+    .optional(),
+  capabilities: z.record(z.string(), z.unknown()).optional()
+});
+
+export const UserInputSchema = z.discriminatedUnion("type", [
+  z.looseObject({ type: z.literal("text"), text: z.string() }),
+  z.looseObject({ type: z.literal("image"), url: z.string() }),
+  z.looseObject({ type: z.literal("localImage"), path: z.string() }),
+  z.looseObject({ type: z.literal("skill"), name: z.string(), path: z.string().optional() })
+]);
+
+export const FileUpdateChangeSchema = z.looseObject({
+  path: z.string(),
+  kind: z.looseObject({ type: z.string() }).optional(),
+  diff: z.string().optional()
+});
+
+export const UserMessageItemSchema = z.looseObject({
+  type: z.literal("userMessage"),
+  id: z.string(),
+  content: z.array(UserInputSchema)
+});
+
+export const AgentMessageItemSchema = z.looseObject({
+  type: z.literal("agentMessage"),
+  id: z.string(),
+  text: z.string()
+});
+
+export const ReasoningItemSchema = z.looseObject({
+  type: z.literal("reasoning"),
+  id: z.string(),
+  summary: z.array(z.string()).optional(),
+  content: z.array(z.string()).optional()
+});
+
+export const CommandExecutionItemSchema = z.looseObject({
+  type: z.literal("commandExecution"),
+  id: z.string(),
+  command: z.string(),
+  cwd: z.string().optional(),
+  status: z.string().optional(),
+  aggregatedOutput: z.string().nullable().optional(),
+  exitCode: z.number().nullable().optional(),
+  durationMs: z.number().nullable().optional()
+});
+
+export const FileChangeItemSchema = z.looseObject({
+  type: z.literal("fileChange"),
+  id: z.string(),
+  changes: z.array(FileUpdateChangeSchema),
+  status: z.string().optional()
+});
+
+export const McpToolCallItemSchema = z.looseObject({
+  type: z.literal("mcpToolCall"),
+  id: z.string(),
+  server: z.string(),
+  tool: z.string(),
+  status: z.string().optional()
+});
+
+export const WebSearchItemSchema = z.looseObject({
+  type: z.literal("webSearch"),
+  id: z.string(),
+  query: z.string()
+});
+
+export const EnteredReviewModeItemSchema = z.looseObject({
+  type: z.literal("enteredReviewMode"),
+  id: z.string(),
+  review: z.string()
+});
+
+export const ExitedReviewModeItemSchema = z.looseObject({
+  type: z.literal("exitedReviewMode"),
+  id: z.string(),
+  review: z.string()
+});
+
+export const KnownThreadItemSchema = z.discriminatedUnion("type", [
+  UserMessageItemSchema,
+  AgentMessageItemSchema,
+  ReasoningItemSchema,
+  CommandExecutionItemSchema,
+  FileChangeItemSchema,
+  McpToolCallItemSchema,
+  WebSearchItemSchema,
+  EnteredReviewModeItemSchema,
+  ExitedReviewModeItemSchema
+]);
+
+export const KNOWN_THREAD_ITEM_TYPES: ReadonlySet<string> = new Set(
+  KnownThreadItemSchema.options.map((option) => option.shape.type.value)
+);
+
+// Item types added upstream after these schemas were written are accepted as opaque items, but
+// a known type with an unexpected shape is still rejected so the drift gets reported.
+export const UnknownThreadItemSchema = z.looseObject({
+  type: z.string().refine((type) => !KNOWN_THREAD_ITEM_TYPES.has(type), {
+    message: "Known thread item type did not match its schema"
+  }),
+  id: z.string()
+});
+
+export const ThreadItemSchema = z.union([KnownThreadItemSchema, UnknownThreadItemSchema]);
+
+export const TurnStatusSchema = z.enum(["inProgress", "completed", "interrupted", "failed"]);
+
+export const TurnSchema = z.looseObject({
+  id: z.string(),
+  status: TurnStatusSchema.optional(),
+  items: z.array(ThreadItemSchema).optional(),
+  error: z.looseObject({ message: z.string() }).nullable().optional()
+});
+
+export const ThreadSchema = z.looseObject({
+  id: z.string(),
+  title: z.string().nullable().optional(),
+  preview: z.string().optional(),
+  archived: z.boolean().optional(),
+  cwd: z.string().optional(),
+  turns: z.array(TurnSchema).optional()
+});
+
+export const ThreadStartParamsSchema = z.looseObject({
+  cwd: z.string().optional(),
+  model: z.string().optional(),
+  approvalPolicy: z.string().optional(),
+  sandbox: z.string().optional()
+});
+
+export const ThreadStartResultSchema = z.looseObject({
+  thread: ThreadSchema
+});
+
+export const ThreadResumeParamsSchema = z.looseObject({
+  threadId: z.string()
+});
+
+export const ThreadResumeResultSchema = z.looseObject({
+  thread: ThreadSchema
+});
+
+export const ThreadListParamsSchema = z.looseObject({
+  cursor: z.string().nullable().optional(),
+  limit: z.number().optional()
+});
+
+// Older app-server builds return `threads` instead of the paginated `data` field.
+export const ThreadListResultSchema = z.looseObject({
+  data: z.array(ThreadSchema).optional(),
+  threads: z.array(ThreadSchema).optional(),
+  nextCursor: z.string().nullable().optional()
+});
+
+export const ThreadReadParamsSchema = z.looseObject({
+  threadId: z.string(),
+  includeTurns: z.boolean().optional()
+});
+
+export const ThreadReadResultSchema = z.looseObject({
+  thread: ThreadSchema
+});
+
+export const ThreadArchiveParamsSchema = z.looseObject({
+  threadId: z.string()
+});
+
+export const ThreadArchiveResultSchema = z.looseObject({});
+
+export const TurnStartParamsSchema = z.looseObject({
+  threadId: z.string(),
+  input: z.array(UserInputSchema),
+  approvalPolicy: z.string().optional(),
+  sandboxPolicy: z.looseObject({ type: z.string() }).optional()
+});
+
+export const TurnStartResultSchema = z.looseObject({
+  turn: TurnSchema
+});
+
+export const TurnSteerParamsSchema = z.looseObject({
+  threadId: z.string(),
+  input: z.array(UserInputSchema)
+});
+
+export const TurnSteerResultSchema = z.looseObject({
+  turnId: z.string().optional()
+});
+
+export const TurnInterruptParamsSchema = z.looseObject({
+  threadId: z.string(),
+  turnId: z.string()
+});
+
+export const TurnInterruptResultSchema = z.looseObject({});
+
+export const ReviewTargetSchema = z.discriminatedUnion("type", [
+  z.looseObject({ type: z.literal("uncommittedChanges") }),
+  z.looseObject({ type: z.literal("baseBranch"), branch: z.string() }),
+  z.looseObject({ type: z.literal("commit"), sha: z.string(), title: z.string().nullable().optional() }),
+  z.looseObject({ type: z.literal("custom"), instructions: z.string() })
+]);
+
+export const ReviewStartParamsSchema = z.looseObject({
+  threadId: z.string(),
+  target: ReviewTargetSchema,
+  delivery: z.enum(["inline", "detached"]).optional()
+});
+
+export const ReviewStartResultSchema = z.looseObject({
+  turn: TurnSchema,
+  reviewThreadId: z.string().optional()
+});
+
+// Structured review results are only carried by the `codex/event/exited_review_mode` mirror
+// event, which keeps the core's snake_case field names.
+export const ReviewFindingSchema = z.looseObject({
+  title: z.string(),
+  body: z.string(),
+  confidence_score: z.number().optional(),
+  priority: z.number().optional(),
+  code_location: z.looseObject({
+    absolute_file_path: z.string(),
+    line_range: z.looseObject({
+      start: z.number(),
+      end: z.number()
+    })
+  })
+});
+
+export const ReviewOutputSchema = z.looseObject({
+  findings: z.array(ReviewFindingSchema),
+  overall_correctness: z.string().optional(),
+  overall_explanation: z.string().optional(),
+  overall_confidence_score: z.number().optional()
+});
+
+const ItemDeltaParamsSchema = z.looseObject({
+  threadId: z.string().optional(),
+  turnId: z.string().optional(),
+  itemId: z.string(),
+  delta: z.string()
+});
+
+export const ServerNotificationSchema = z.discriminatedUnion("method", [
+  z.looseObject({
+    method: z.literal("thread/started"),
+    params: z.looseObject({ thread: ThreadSchema })
+  }),
+  z.looseObject({
+    method: z.literal("turn/started"),
+    params: z.looseObject({ threadId: z.string().optional(), turn: TurnSchema })
+  }),
+  z.looseObject({
+    method: z.literal("turn/completed"),
+    params: z.looseObject({ threadId: z.string().optional(), turn: TurnSchema })
+  }),
+  z.looseObject({
+    method: z.literal("item/started"),
+    params: z.looseObject({ threadId: z.string().optional(), turnId: z.string().optional(), item: ThreadItemSchema })
+  }),
+  z.looseObject({
+    method: z.literal("item/completed"),
+    params: z.looseObject({ threadId: z.string().optional(), turnId: z.string().optional(), item: ThreadItemSchema })
+  }),
+  z.looseObject({
+    method: z.literal("item/agentMessage/delta"),
+    params: ItemDeltaParamsSchema
+  }),
+  z.looseObject({
+    method: z.literal("item/reasoning/summaryTextDelta"),
+    params: ItemDeltaParamsSchema
+  }),
+  z.looseObject({
+    method: z.literal("item/reasoning/textDelta"),
+    params: ItemDeltaParamsSchema
+  }),
+  z.looseObject({
+    method: z.literal("item/commandExecution/outputDelta"),
+    params: ItemDeltaParamsSchema
+  }),
+  z.looseObject({
+    method: z.literal("turn/diff/updated"),
+    params: z.looseObject({ threadId: z.string().optional(), turnId: z.string(), diff: z.string() })
+  }),
+  z.looseObject({
+    method: z.literal("error"),
+    params: z.looseObject({
+      error: z.looseObject({ message: z.string() }),
+      willRetry: z.boolean().optional()
+    })
+  })
+]);
+
+export const ServerRequestSchema = z.discriminatedUnion("method", [
+  z.looseObject({
+    method: z.literal("item/commandExecution/requestApproval"),
+    params: z.looseObject({
+      threadId: z.string(),
+      turnId: z.string(),
+      itemId: z.string(),
+      command: z.string().nullable().optional(),
+      cwd: z.string().nullable().optional(),
+      reason: z.string().nullable().optional()
+    })
+  }),
+  z.looseObject({
+    method: z.literal("item/fileChange/requestApproval"),
+    params: z.looseObject({
+      threadId: z.string(),
+      turnId: z.string().optional(),
+      itemId: z.string().optional(),
+      reason: z.string().nullable().optional()
+    })
+  }),
+  z.looseObject({
+    method: z.literal("execCommandApproval"),
+    params: z.looseObject({
+      conversationId: z.string(),
+      command: z.array(z.string()),
+      cwd: z.string(),
+      reason: z.string().nullable().optional()
+    })
+  }),
+  z.looseObject({
+    method: z.literal("applyPatchApproval"),
+    params: z.looseObject({
+      conversationId: z.string(),
+      reason: z.string().nullable().optional()
+    })
+  })
+]);
+
+export const CLIENT_REQUEST_SCHEMAS = {
+  initialize: { params: InitializeParamsSchema, result: InitializeResultSchema },
+  "thread/start": { params: ThreadStartParamsSchema, result: ThreadStartResultSchema },
+  "thread/resume": { params: ThreadResumeParamsSchema, result: ThreadResumeResultSchema },
+  "thread/list": { params: ThreadListParamsSchema, result: ThreadListResultSchema },
+  "thread/read": { params: ThreadReadParamsSchema, result: ThreadReadResultSchema },
+  "thread/archive": { params: ThreadArchiveParamsSchema, result: ThreadArchiveResultSchema },
+  "turn/start": { params: TurnStartParamsSchema, result: TurnStartResultSchema },
+  "turn/steer": { params: TurnSteerParamsSchema, result: TurnSteerResultSchema },
+  "turn/interrupt": { params: TurnInterruptParamsSchema, result: TurnInterruptResultSchema },
+  "review/start": { params: ReviewStartParamsSchema, result: ReviewStartResultSchema }
+} as const;
+
+export type InitializeParams = z.infer<typeof InitializeParamsSchema>;
+export type InitializeResult = z.infer<typeof InitializeResultSchema>;
+export type UserInput = z.infer<typeof UserInputSchema>;
+export type FileUpdateChange = z.infer<typeof FileUpdateChangeSchema>;
+export type UserMessageItem = z.infer<typeof UserMessageItemSchema>;
+export type AgentMessageItem = z.infer<typeof AgentMessageItemSchema>;
+export type ReasoningItem = z.infer<typeof ReasoningItemSchema>;
+export type CommandExecutionItem = z.infer<typeof CommandExecutionItemSchema>;
+export type FileChangeItem = z.infer<typeof FileChangeItemSchema>;
+export type McpToolCallItem = z.infer<typeof McpToolCallItemSchema>;
+export type WebSearchItem = z.infer<typeof WebSearchItemSchema>;
+export type EnteredReviewModeItem = z.infer<typeof EnteredReviewModeItemSchema>;
+export type ExitedReviewModeItem = z.infer<typeof ExitedReviewModeItemSchema>;
+export type KnownThreadItem = z.infer<typeof KnownThreadItemSchema>;
+export type UnknownThreadItem = z.infer<typeof UnknownThreadItemSchema>;
+export type ThreadItem = z.infer<typeof ThreadItemSchema>;
+export type TurnStatus = z.infer<typeof TurnStatusSchema>;
+export type Turn = z.infer<typeof TurnSchema>;
+export type Thread = z.infer<typeof ThreadSchema>;
+export type ThreadStartParams = z.infer<typeof ThreadStartParamsSchema>;
+export type ThreadStartResult = z.infer<typeof ThreadStartResultSchema>;
+export type ThreadResumeParams = z.infer<typeof ThreadResumeParamsSchema>;
+export type ThreadResumeResult = z.infer<typeof ThreadResumeResultSchema>;
+export type ThreadListParams = z.infer<typeof ThreadListParamsSchema>;
+export type ThreadListResult = z.infer<typeof ThreadListResultSchema>;
+export type ThreadReadParams = z.infer<typeof ThreadReadParamsSchema>;
+export type ThreadReadResult = z.infer<typeof ThreadReadResultSchema>;
+export type ThreadArchiveParams = z.infer<typeof ThreadArchiveParamsSchema>;
+export type ThreadArchiveResult = z.infer<typeof ThreadArchiveResultSchema>;
+export type TurnStartParams = z.infer<typeof TurnStartParamsSchema>;
+export type TurnStartResult = z.infer<typeof TurnStartResultSchema>;
+export type TurnSteerParams = z.infer<typeof TurnSteerParamsSchema>;
+export type TurnSteerResult = z.infer<typeof TurnSteerResultSchema>;
+export type TurnInterruptParams = z.infer<typeof TurnInterruptParamsSchema>;
+export type TurnInterruptResult = z.infer<typeof TurnInterruptResultSchema>;
+export type ReviewTarget = z.infer<typeof ReviewTargetSchema>;
+export type ReviewFinding = z.infer<typeof ReviewFindingSchema>;
+export type ReviewOutput = z.infer<typeof ReviewOutputSchema>;
+export type ReviewStartParams = z.infer<typeof ReviewStartParamsSchema>;
+export type ReviewStartResult = z.infer<typeof ReviewStartResultSchema>;
+export type ServerNotification = z.infer<typeof ServerNotificationSchema>;
+export type ServerNotificationMethod = ServerNotification["method"];
+export type ServerRequest = z.infer<typeof ServerRequestSchema>;
+export type ServerRequestMethod = ServerRequest["method"];
+
+export type ClientRequestMethod = keyof typeof CLIENT_REQUEST_SCHEMAS;
+export type ClientRequestParams<TMethod extends ClientRequestMethod> = z.infer<
+  (typeof CLIENT_REQUEST_SCHEMAS)[TMethod]["params"]
+>;
+export type ClientRequestResult<TMethod extends ClientRequestMethod> = z.infer<
+  (typeof CLIENT_REQUEST_SCHEMAS)[TMethod]["result"]
+>;
+
+export interface ProtocolIssue {
+  path: string;
+  message: string;
+}
+
+export type ProtocolValidation<T> = { ok: true; value: T } | { ok: false; issues: ProtocolIssue[] };
+
+const SERVER_NOTIFICATION_METHODS: ReadonlySet<string> = new Set(
+  ServerNotificationSchema.options.map((option) => option.shape.method.value)
+);
+const SERVER_REQUEST_METHODS: ReadonlySet<string> = new Set(
+  ServerRequestSchema.options.map((option) => option.shape.method.value)
+);
+
+function toValidation<T>(result: z.ZodSafeParseResult<T>): ProtocolValidation<T> {
+  if (result.success) {
+    return { ok: true, value: result.data };
+  }
+
+  return {
+    ok: false,
+    issues: result.error.issues.map((issue) => ({
+      path: issue.path.map(String).join("."),
+      message: issue.message
+    }))
+  };
+}
+
+export function isClientRequestMethod(method: string): method is ClientRequestMethod {
+  return Object.hasOwn(CLIENT_REQUEST_SCHEMAS, method);
+}
+
+export function isServerNotificationMethod(method: string): method is ServerNotificationMethod {
+  return SERVER_NOTIFICATION_METHODS.has(method);
+}
+
+export function isServerRequestMethod(method: string): method is ServerRequestMethod {
+  return SERVER_REQUEST_METHODS.has(method);
+}
+
+export function isKnownThreadItem(item: ThreadItem): item is KnownThreadItem {
+  return KNOWN_THREAD_ITEM_TYPES.has(item.type);
+}
+
+export function validateClientResult<TMethod extends ClientRequestMethod>(
+  method: TMethod,
+  result: unknown
+): ProtocolValidation<ClientRequestResult<TMethod>> {
+  const parsed = CLIENT_REQUEST_SCHEMAS[method].result.safeParse(result);
+  return toValidation(parsed as z.ZodSafeParseResult<ClientRequestResult<TMethod>>);
+}
+
+export function validateServerNotification(message: {
+  method: string;
+  params?: unknown;
+}): ProtocolValidation<ServerNotification> {
+  return toValidation(ServerNotificationSchema.safeParse(message));
+}
+
+export function validateServerRequest(message: { method: string; params?: unknown }): ProtocolValidation<ServerRequest> {
+  return toValidation(ServerRequestSchema.safeParse(message));
+}
+
+export function formatProtocolIssues(issues: ProtocolIssue[]): string {
+  return issues.map((issue) => (issue.path.length > 0 ? `${issue.path}: ${issue.message}` : issue.message)).join("; ");
+}
@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  isKnownThreadItem,
+  validateClientResult,
+  validateServerNotification,
+  ThreadItemSchema
+} from "../../src/index.js";
+
+describe("protocol schemas", () => {
+  it("accepts results with extra fields and keeps them", () => {
+    const validation = validateClientResult("turn/start", {
+      turn: { id: "turn-1", status: "inProgress", items: [], model: "gpt-5" },
+      extra: true
+    });
+
+    expect(validation).toMatchObject({
+      ok: true,
+      value: { turn: { id: "turn-1", model: "gpt-5" }, extra: true }
+    });
+  });
+
+  it("reports the path of each mismatch", () => {
+    const validation = validateClientResult("thread/read", { thread: { title: "No id" } });
+
+    expect(validation.ok).toBe(false);
+    expect(validation.ok ? [] : validation.issues.map((issue) => issue.path)).toEqual(["thread.id"]);
+  });
+
+  it("accepts unknown thread item types but rejects malformed known ones", () => {
+    const futureItem = ThreadItemSchema.parse({ type: "todoList", id: "item-1", entries: [] });
+    expect(isKnownThreadItem(futureItem)).toBe(false);
+
+    const commandItem = ThreadItemSchema.parse({ type: "commandExecution", id: "item-2", command: "ls" });
+    expect(isKnownThreadItem(commandItem)).toBe(true);
+
+    expect(ThreadItemSchema.safeParse({ type: "agentMessage", id: "item-3" }).success).toBe(false);
+  });
+
+  it("validates notifications by method", () => {
+    expect(
+      validateServerNotification({
+        method: "item/agentMessage/delta",
+        params: { threadId: "thread-1", turnId: "turn-1", itemId: "item-1", delta: "Hel" }
+      }).ok
+    ).toBe(true);
+    expect(validateServerNotification({ method: "turn/started", params: { turnId: "turn-1" } }).ok).toBe(false);
+  });
+});
@@ -116,8 +116,8 @@ start_service() {
 }
 
 echo "[poketcodex] building backend + web for long-running mode..."
-bash ./scripts/run-with-env.sh pnpm --filter @poketcodex/backend build
-bash ./scripts/run-with-env.sh pnpm --filter @poketcodex/web build
+bash ./scripts/run-with-env.sh pnpm --filter "@poketcodex/backend..." build
+bash ./scripts/run-with-env.sh pnpm --filter "@poketcodex/web..." build
 
 start_service "backend" "apps/backend" node dist/index.js
 start_service "web" "apps/web" ../../node_modules/.bin/vite preview